@@ -17,6 +17,8 @@ const nextConfig = {
     '@ruvector/attention-darwin-arm64',
     '@ruvector/attention-darwin-x64',
     '@ruvector/attention-win32-x64-msvc',
+    '@xenova/transformers',
+    'onnxruntime-node',
   ],
 
   // Image optimization with blur placeholders
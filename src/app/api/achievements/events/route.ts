@@ -0,0 +1,77 @@
+import { NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import { withBasicAuth } from '@/lib/middleware/withAuth';
+import type { AuthenticatedRequest } from '@/lib/middleware/auth';
+import { apiLogger } from '@/lib/logger';
+import { asLogContext } from '@/lib/utils/typeGuards';
+import { ACHIEVEMENT_EVENT_TYPES } from '@/lib/achievements';
+import { getAchievementService } from '@/lib/services/achievementService';
+
+const MAX_EVENT_FIELDS = 20;
+
+/**
+ * Clients send a stable event id (for example `session_completed:<sessionId>`)
+ * so a retried request unlocks nothing twice. The time is always the
+ * server's: a backdated event could fill in a streak.
+ */
+const achievementEventSchema = z
+  .object({
+    eventId: z.string().min(1).max(200).optional(),
+    type: z.enum(ACHIEVEMENT_EVENT_TYPES),
+    data: z
+      .record(z.union([z.string().max(500), z.number().finite(), z.boolean(), z.null()]))
+      .refine(data => Object.keys(data).length <= MAX_EVENT_FIELDS, {
+        message: `At most ${MAX_EVENT_FIELDS} data fields`,
+      })
+      .default({}),
+  })
+  .strict();
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/achievements/events - Record a progress event; responds with the
+ * achievements it unlocked
+ */
+async function handleRecordEvent(request: AuthenticatedRequest) {
+  const userId = request.user?.id;
+
+  if (!userId) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  try {
+    const { eventId, type, data } = achievementEventSchema.parse(await request.json());
+
+    const achievements = await getAchievementService();
+    if (!achievements) {
+      throw new Error('Database not configured');
+    }
+
+    const unlocked = await achievements.recordEvent(userId, {
+      eventId: eventId ?? randomUUID(),
+      type,
+      data,
+      occurredAt: new Date().toISOString(),
+    });
+
+    return NextResponse.json({ success: true, data: { unlocked } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid achievement event', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    apiLogger.error('Failed to record achievement event:', asLogContext(error));
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to record achievement event' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withBasicAuth(handleRecordEvent);
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { withBasicAuth } from '@/lib/middleware/withAuth';
+import type { AuthenticatedRequest } from '@/lib/middleware/auth';
+import { apiLogger } from '@/lib/logger';
+import { asLogContext } from '@/lib/utils/typeGuards';
+import { getAchievementService } from '@/lib/services/achievementService';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/achievements - Every achievement with the user's progress
+ */
+async function handleGetAchievements(request: AuthenticatedRequest) {
+  const userId = request.user?.id;
+
+  if (!userId) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  try {
+    const achievements = await getAchievementService();
+    if (!achievements) {
+      throw new Error('Database not configured');
+    }
+
+    const data = await achievements.getUserAchievements(userId);
+
+    return NextResponse.json({
+      success: true,
+      data,
+      metadata: {
+        total: data.length,
+        unlocked: data.filter(achievement => achievement.unlockedAt).length,
+      },
+    });
+  } catch (error) {
+    apiLogger.error('Failed to fetch achievements:', asLogContext(error));
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch achievements' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withBasicAuth(handleGetAchievements);
@@ -0,0 +1,103 @@
+/**
+ * Admin Achievements API Endpoint
+ * Lists, adds, retunes and removes achievement definitions without a deploy
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { apiLogger } from '@/lib/logger';
+import { asLogContext } from '@/lib/utils/typeGuards';
+import { achievementRuleSchema } from '@/lib/achievements';
+import { getAchievementService } from '@/lib/services/achievementService';
+import { isAdminRequest } from '@/lib/middleware/auth';
+
+export const runtime = 'nodejs';
+
+function unauthorized() {
+  return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+}
+
+async function requireService() {
+  const achievements = await getAchievementService();
+  if (!achievements) {
+    throw new Error('Database not configured');
+  }
+  return achievements;
+}
+
+/**
+ * GET /api/admin/achievements - Every rule in effect, built-in and stored
+ */
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) return unauthorized();
+
+  try {
+    const achievements = await requireService();
+    return NextResponse.json({ success: true, data: await achievements.getRules() });
+  } catch (error) {
+    apiLogger.error('Failed to list achievement rules:', asLogContext(error));
+    return NextResponse.json(
+      { success: false, error: 'Failed to list achievement rules' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/admin/achievements - Add a rule, or replace one with the same id.
+ * Built-in rules are replaced the same way; set `enabled: false` to retire one.
+ */
+export async function PUT(request: NextRequest) {
+  if (!isAdminRequest(request)) return unauthorized();
+
+  try {
+    const rule = achievementRuleSchema.parse(await request.json());
+    const achievements = await requireService();
+    return NextResponse.json({ success: true, data: await achievements.saveRule(rule) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid achievement rule', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    apiLogger.error('Failed to save achievement rule:', asLogContext(error));
+    return NextResponse.json(
+      { success: false, error: 'Failed to save achievement rule' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/achievements?id= - Remove a stored rule
+ */
+export async function DELETE(request: NextRequest) {
+  if (!isAdminRequest(request)) return unauthorized();
+
+  const id = request.nextUrl.searchParams.get('id');
+  if (!id) {
+    return NextResponse.json(
+      { success: false, error: 'Achievement id is required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const achievements = await requireService();
+    if (!(await achievements.deleteRule(id))) {
+      return NextResponse.json(
+        { success: false, error: 'Achievement definition not found' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ success: true, data: { id } });
+  } catch (error) {
+    apiLogger.error('Failed to delete achievement rule:', asLogContext(error));
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete achievement rule' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Admin Teachers API Endpoint
+ * Grants or removes teacher accounts for classroom mode
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { apiLogger } from '@/lib/logger';
+import { asLogContext } from '@/lib/utils/typeGuards';
+import { supabaseAdmin } from '@/lib/supabase';
+import { isAdminRequest } from '@/lib/middleware/auth';
+import { ClassroomService } from '@/lib/services/classroomService';
+
+const teacherSchema = z.object({
+  userId: z.string().uuid(),
+  teacher: z.boolean(),
+});
+
+export const runtime = 'nodejs';
+
+/**
+ * PUT /api/admin/teachers - Make a user a teacher, or a learner again.
+ * Their existing classes are kept either way.
+ */
+export async function PUT(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { userId, teacher } = teacherSchema.parse(await request.json());
+
+    if (!supabaseAdmin) {
+      throw new Error('Database not configured');
+    }
+
+    const role = teacher ? 'teacher' : 'learner';
+    const updated = await new ClassroomService(supabaseAdmin).setAccountRole(userId, role);
+    if (!updated) {
+      return NextResponse.json({ success: false, error: 'User not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, data: { userId, role } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    apiLogger.error('Failed to update account role:', asLogContext(error));
+    return NextResponse.json(
+      { success: false, error: 'Failed to update account role' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { NextResponse } from 'next/server';
+import { withBasicAuth } from '@/lib/middleware/withAuth';
+import type { AuthenticatedRequest } from '@/lib/middleware/auth';
+import { supabaseAdmin } from '@/lib/supabase';
+import { z } from 'zod';
+import { apiLogger } from '@/lib/logger';
+import { asLogContext } from '@/lib/utils/typeGuards';
+import {
+  CLASSROOM_ERROR_STATUS,
+  MAX_ASSIGNMENT_ITEMS,
+  ClassroomError,
+  ClassroomService,
+} from '@/lib/services/classroomService';
+
+const resultsSchema = z.object({
+  results: z
+    .array(
+      z.object({
+        itemId: z.string().min(1).max(100),
+        score: z.number().min(0).max(1),
+      })
+    )
+    .min(1)
+    .max(MAX_ASSIGNMENT_ITEMS),
+});
+
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ classId: string; assignmentId: string }> };
+
+/**
+ * PUT /api/classes/[classId]/assignments/[assignmentId]/results - Record
+ * the student's 0-1 score for items they finished; a retried item replaces
+ * its earlier score. Responds with their progress on the assignment.
+ */
+async function handleRecordResults(request: AuthenticatedRequest, { params }: RouteContext) {
+  const { classId, assignmentId } = await params;
+  const userId = request.user?.id;
+
+  if (!userId) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  if (
+    !z.string().uuid().safeParse(classId).success ||
+    !z.string().uuid().safeParse(assignmentId).success
+  ) {
+    return NextResponse.json({ success: false, error: 'Invalid id' }, { status: 400 });
+  }
+
+  try {
+    const { results } = resultsSchema.parse(await request.json());
+
+    if (!supabaseAdmin) {
+      throw new Error('Database not configured');
+    }
+
+    const status = await new ClassroomService(supabaseAdmin).recordResults(
+      userId,
+      classId,
+      assignmentId,
+      results
+    );
+
+    return NextResponse.json({ success: true, data: status });
+  } catch (error) {
+    if (error instanceof ClassroomError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: error.code },
+        { status: CLASSROOM_ERROR_STATUS[error.code] }
+      );
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid results', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    apiLogger.error('Failed to record assignment results:', asLogContext(error));
+    return NextResponse.json(
+      { success: false, error: 'Failed to record assignment results' },
+      { status: 500 }
+    );
+  }
+}
+
+export const PUT = withBasicAuth(handleRecordResults);
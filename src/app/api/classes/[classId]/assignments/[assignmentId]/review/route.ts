@@ -0,0 +1,95 @@
+import { NextResponse } from 'next/server';
+import { withBasicAuth } from '@/lib/middleware/withAuth';
+import type { AuthenticatedRequest } from '@/lib/middleware/auth';
+import { supabaseAdmin } from '@/lib/supabase';
+import { z } from 'zod';
+import { apiLogger } from '@/lib/logger';
+import { asLogContext } from '@/lib/utils/typeGuards';
+import { isTargetLanguage, type TargetLanguageCode } from '@/lib/languages';
+import {
+  CLASSROOM_ERROR_STATUS,
+  ClassroomError,
+  ClassroomService,
+} from '@/lib/services/classroomService';
+import { reviewWriting } from '@/lib/services/writingReview';
+
+const reviewSchema = z.object({
+  itemId: z.string().min(1).max(100),
+  text: z.string().trim().min(1).max(2000),
+  language: z.string().refine(isTargetLanguage, { message: 'Unsupported language' }).default('es'),
+  userApiKey: z.string().optional(),
+});
+
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ classId: string; assignmentId: string }> };
+
+/**
+ * POST /api/classes/[classId]/assignments/[assignmentId]/review - Review a
+ * student's description of an assignment image against the teacher's model
+ * description, which never leaves the server, and record how much of it
+ * they covered as their score for the image
+ */
+async function handleReviewAssignmentWriting(
+  request: AuthenticatedRequest,
+  { params }: RouteContext
+) {
+  const { classId, assignmentId } = await params;
+  const userId = request.user?.id;
+
+  if (!userId) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  if (
+    !z.string().uuid().safeParse(classId).success ||
+    !z.string().uuid().safeParse(assignmentId).success
+  ) {
+    return NextResponse.json({ success: false, error: 'Invalid id' }, { status: 400 });
+  }
+
+  try {
+    const { itemId, text, language, userApiKey } = reviewSchema.parse(await request.json());
+
+    if (!supabaseAdmin) {
+      throw new Error('Database not configured');
+    }
+
+    const classroom = new ClassroomService(supabaseAdmin);
+    const image = await classroom.getImageForReview(userId, classId, assignmentId, itemId);
+    const review = await reviewWriting(supabaseAdmin, {
+      userId,
+      text,
+      referenceDescription: image.description,
+      language: language as TargetLanguageCode,
+      userApiKey,
+    });
+    const status = await classroom.recordResults(userId, classId, assignmentId, [
+      { itemId, score: review.comparison.coverage / 100 },
+    ]);
+
+    return NextResponse.json({ success: true, data: { review, status } });
+  } catch (error) {
+    if (error instanceof ClassroomError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: error.code },
+        { status: CLASSROOM_ERROR_STATUS[error.code] }
+      );
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid writing submission', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    apiLogger.error('Failed to review assignment writing:', asLogContext(error));
+    return NextResponse.json(
+      { success: false, error: 'Failed to review assignment writing' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withBasicAuth(handleReviewAssignmentWriting);
@@ -0,0 +1,107 @@
+import { NextResponse } from 'next/server';
+import { withBasicAuth } from '@/lib/middleware/withAuth';
+import type { AuthenticatedRequest } from '@/lib/middleware/auth';
+import { supabaseAdmin } from '@/lib/supabase';
+import { z } from 'zod';
+import { apiLogger } from '@/lib/logger';
+import { asLogContext } from '@/lib/utils/typeGuards';
+import {
+  CLASSROOM_ERROR_STATUS,
+  ClassroomError,
+  ClassroomService,
+} from '@/lib/services/classroomService';
+
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ classId: string; assignmentId: string }> };
+
+function getClassroom(): ClassroomService {
+  if (!supabaseAdmin) {
+    throw new Error('Database not configured');
+  }
+  return new ClassroomService(supabaseAdmin);
+}
+
+function validIds(classId: string, assignmentId: string): boolean {
+  return (
+    z.string().uuid().safeParse(classId).success &&
+    z.string().uuid().safeParse(assignmentId).success
+  );
+}
+
+/**
+ * GET /api/classes/[classId]/assignments/[assignmentId] - An assignment
+ * with its items; for students, with their progress on it
+ */
+async function handleGetAssignment(request: AuthenticatedRequest, { params }: RouteContext) {
+  const { classId, assignmentId } = await params;
+  const userId = request.user?.id;
+
+  if (!userId) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  if (!validIds(classId, assignmentId)) {
+    return NextResponse.json({ success: false, error: 'Invalid id' }, { status: 400 });
+  }
+
+  try {
+    const assignment = await getClassroom().getAssignment(userId, classId, assignmentId);
+    return NextResponse.json({ success: true, data: assignment });
+  } catch (error) {
+    if (error instanceof ClassroomError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: error.code },
+        { status: CLASSROOM_ERROR_STATUS[error.code] }
+      );
+    }
+
+    apiLogger.error('Failed to load assignment:', asLogContext(error));
+    return NextResponse.json(
+      { success: false, error: 'Failed to load assignment' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/classes/[classId]/assignments/[assignmentId] - Remove an
+ * assignment and its results
+ */
+async function handleDeleteAssignment(request: AuthenticatedRequest, { params }: RouteContext) {
+  const { classId, assignmentId } = await params;
+  const userId = request.user?.id;
+
+  if (!userId) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  if (!validIds(classId, assignmentId)) {
+    return NextResponse.json({ success: false, error: 'Invalid id' }, { status: 400 });
+  }
+
+  try {
+    const removed = await getClassroom().deleteAssignment(userId, classId, assignmentId);
+    if (!removed) {
+      return NextResponse.json({ success: false, error: 'Assignment not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof ClassroomError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: error.code },
+        { status: CLASSROOM_ERROR_STATUS[error.code] }
+      );
+    }
+
+    apiLogger.error('Failed to delete assignment:', asLogContext(error));
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete assignment' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withBasicAuth(handleGetAssignment);
+export const DELETE = withBasicAuth(handleDeleteAssignment);
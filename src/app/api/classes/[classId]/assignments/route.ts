@@ -0,0 +1,133 @@
+import { NextResponse } from 'next/server';
+import { withBasicAuth } from '@/lib/middleware/withAuth';
+import type { AuthenticatedRequest } from '@/lib/middleware/auth';
+import { supabaseAdmin } from '@/lib/supabase';
+import { z } from 'zod';
+import { apiLogger } from '@/lib/logger';
+import { asLogContext } from '@/lib/utils/typeGuards';
+import {
+  CLASSROOM_ERROR_STATUS,
+  MAX_ASSIGNMENT_ITEMS,
+  ClassroomError,
+  ClassroomService,
+} from '@/lib/services/classroomService';
+
+const assignmentFields = {
+  title: z.string().trim().min(1).max(200),
+  instructions: z.string().max(2000).optional(),
+  dueAt: z.string().datetime({ offset: true }).optional(),
+};
+
+const createAssignmentSchema = z.discriminatedUnion('type', [
+  z.object({
+    ...assignmentFields,
+    type: z.literal('vocabulary_list'),
+    vocabularyListId: z.string().uuid(),
+  }),
+  z.object({
+    ...assignmentFields,
+    type: z.literal('image_set'),
+    images: z
+      .array(
+        z.object({
+          imageUrl: z.string().url(),
+          description: z.string().trim().min(1).max(5000),
+        })
+      )
+      .min(1)
+      .max(MAX_ASSIGNMENT_ITEMS),
+  }),
+]);
+
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ classId: string }> };
+
+function getClassroom(): ClassroomService {
+  if (!supabaseAdmin) {
+    throw new Error('Database not configured');
+  }
+  return new ClassroomService(supabaseAdmin);
+}
+
+/**
+ * GET /api/classes/[classId]/assignments - Assignments by due date; for
+ * students, each with their own progress
+ */
+async function handleListAssignments(request: AuthenticatedRequest, { params }: RouteContext) {
+  const { classId } = await params;
+  const userId = request.user?.id;
+
+  if (!userId) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  if (!z.string().uuid().safeParse(classId).success) {
+    return NextResponse.json({ success: false, error: 'Invalid class id' }, { status: 400 });
+  }
+
+  try {
+    const assignments = await getClassroom().listAssignments(userId, classId);
+    return NextResponse.json({ success: true, data: assignments });
+  } catch (error) {
+    if (error instanceof ClassroomError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: error.code },
+        { status: CLASSROOM_ERROR_STATUS[error.code] }
+      );
+    }
+
+    apiLogger.error('Failed to list assignments:', asLogContext(error));
+    return NextResponse.json(
+      { success: false, error: 'Failed to list assignments' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/classes/[classId]/assignments - Assign a vocabulary list (its
+ * words are copied) or a set of images with model descriptions
+ */
+async function handleCreateAssignment(request: AuthenticatedRequest, { params }: RouteContext) {
+  const { classId } = await params;
+  const userId = request.user?.id;
+
+  if (!userId) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  if (!z.string().uuid().safeParse(classId).success) {
+    return NextResponse.json({ success: false, error: 'Invalid class id' }, { status: 400 });
+  }
+
+  try {
+    const input = createAssignmentSchema.parse(await request.json());
+    const assignment = await getClassroom().createAssignment(userId, classId, input);
+
+    return NextResponse.json({ success: true, data: assignment }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ClassroomError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: error.code },
+        { status: CLASSROOM_ERROR_STATUS[error.code] }
+      );
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid assignment', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    apiLogger.error('Failed to create assignment:', asLogContext(error));
+    return NextResponse.json(
+      { success: false, error: 'Failed to create assignment' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withBasicAuth(handleListAssignments);
+export const POST = withBasicAuth(handleCreateAssignment);
@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server';
+import { withBasicAuth } from '@/lib/middleware/withAuth';
+import type { AuthenticatedRequest } from '@/lib/middleware/auth';
+import { supabaseAdmin } from '@/lib/supabase';
+import { z } from 'zod';
+import { apiLogger } from '@/lib/logger';
+import { asLogContext } from '@/lib/utils/typeGuards';
+import {
+  CLASSROOM_ERROR_STATUS,
+  ClassroomError,
+  ClassroomService,
+} from '@/lib/services/classroomService';
+
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ classId: string; studentId: string }> };
+
+/**
+ * DELETE /api/classes/[classId]/members/[studentId] - A teacher removing a
+ * student, or a student leaving the class
+ */
+async function handleRemoveMember(request: AuthenticatedRequest, { params }: RouteContext) {
+  const { classId, studentId } = await params;
+  const userId = request.user?.id;
+
+  if (!userId) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  if (
+    !z.string().uuid().safeParse(classId).success ||
+    !z.string().uuid().safeParse(studentId).success
+  ) {
+    return NextResponse.json({ success: false, error: 'Invalid id' }, { status: 400 });
+  }
+
+  try {
+    if (!supabaseAdmin) {
+      throw new Error('Database not configured');
+    }
+
+    const removed = await new ClassroomService(supabaseAdmin).removeMember(
+      userId,
+      classId,
+      studentId
+    );
+    if (!removed) {
+      return NextResponse.json(
+        { success: false, error: 'Student is not in this class' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof ClassroomError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: error.code },
+        { status: CLASSROOM_ERROR_STATUS[error.code] }
+      );
+    }
+
+    apiLogger.error('Failed to remove class member:', asLogContext(error));
+    return NextResponse.json(
+      { success: false, error: 'Failed to remove class member' },
+      { status: 500 }
+    );
+  }
+}
+
+export const DELETE = withBasicAuth(handleRemoveMember);
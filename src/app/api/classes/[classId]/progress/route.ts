@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { withBasicAuth } from '@/lib/middleware/withAuth';
+import type { AuthenticatedRequest } from '@/lib/middleware/auth';
+import { supabaseAdmin } from '@/lib/supabase';
+import { z } from 'zod';
+import { apiLogger } from '@/lib/logger';
+import { asLogContext } from '@/lib/utils/typeGuards';
+import {
+  CLASSROOM_ERROR_STATUS,
+  ClassroomError,
+  ClassroomService,
+} from '@/lib/services/classroomService';
+
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ classId: string }> };
+
+/**
+ * GET /api/classes/[classId]/progress - Each student's completion and
+ * accuracy, overall and per assignment (the class's teacher only)
+ */
+async function handleGetProgress(request: AuthenticatedRequest, { params }: RouteContext) {
+  const { classId } = await params;
+  const userId = request.user?.id;
+
+  if (!userId) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  if (!z.string().uuid().safeParse(classId).success) {
+    return NextResponse.json({ success: false, error: 'Invalid class id' }, { status: 400 });
+  }
+
+  try {
+    if (!supabaseAdmin) {
+      throw new Error('Database not configured');
+    }
+
+    const report = await new ClassroomService(supabaseAdmin).getClassProgress(userId, classId);
+    return NextResponse.json({ success: true, data: report });
+  } catch (error) {
+    if (error instanceof ClassroomError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: error.code },
+        { status: CLASSROOM_ERROR_STATUS[error.code] }
+      );
+    }
+
+    apiLogger.error('Failed to load class progress:', asLogContext(error));
+    return NextResponse.json(
+      { success: false, error: 'Failed to load class progress' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withBasicAuth(handleGetProgress);
@@ -0,0 +1,93 @@
+import { NextResponse } from 'next/server';
+import { withBasicAuth } from '@/lib/middleware/withAuth';
+import type { AuthenticatedRequest } from '@/lib/middleware/auth';
+import { supabaseAdmin } from '@/lib/supabase';
+import { z } from 'zod';
+import { apiLogger } from '@/lib/logger';
+import { asLogContext } from '@/lib/utils/typeGuards';
+import {
+  CLASSROOM_ERROR_STATUS,
+  ClassroomError,
+  ClassroomService,
+} from '@/lib/services/classroomService';
+
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ classId: string }> };
+
+function getClassroom(): ClassroomService {
+  if (!supabaseAdmin) {
+    throw new Error('Database not configured');
+  }
+  return new ClassroomService(supabaseAdmin);
+}
+
+/**
+ * GET /api/classes/[classId] - The class, the user's role in it and its
+ * assignments (for students, with their own progress on each)
+ */
+async function handleGetClass(request: AuthenticatedRequest, { params }: RouteContext) {
+  const { classId } = await params;
+  const userId = request.user?.id;
+
+  if (!userId) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  if (!z.string().uuid().safeParse(classId).success) {
+    return NextResponse.json({ success: false, error: 'Invalid class id' }, { status: 400 });
+  }
+
+  try {
+    const classroom = getClassroom();
+    const { classroom: details, role } = await classroom.getClass(userId, classId);
+    const assignments = await classroom.listAssignments(userId, classId);
+
+    return NextResponse.json({ success: true, data: { ...details, role, assignments } });
+  } catch (error) {
+    if (error instanceof ClassroomError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: error.code },
+        { status: CLASSROOM_ERROR_STATUS[error.code] }
+      );
+    }
+
+    apiLogger.error('Failed to load class:', asLogContext(error));
+    return NextResponse.json({ success: false, error: 'Failed to load class' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/classes/[classId] - Archive a class. Its join code stops
+ * working and it leaves students' class lists; results are kept.
+ */
+async function handleArchiveClass(request: AuthenticatedRequest, { params }: RouteContext) {
+  const { classId } = await params;
+  const userId = request.user?.id;
+
+  if (!userId) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  if (!z.string().uuid().safeParse(classId).success) {
+    return NextResponse.json({ success: false, error: 'Invalid class id' }, { status: 400 });
+  }
+
+  try {
+    await getClassroom().archiveClass(userId, classId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof ClassroomError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: error.code },
+        { status: CLASSROOM_ERROR_STATUS[error.code] }
+      );
+    }
+
+    apiLogger.error('Failed to archive class:', asLogContext(error));
+    return NextResponse.json({ success: false, error: 'Failed to archive class' }, { status: 500 });
+  }
+}
+
+export const GET = withBasicAuth(handleGetClass);
+export const DELETE = withBasicAuth(handleArchiveClass);
@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import { withBasicAuth } from '@/lib/middleware/withAuth';
+import type { AuthenticatedRequest } from '@/lib/middleware/auth';
+import { supabaseAdmin } from '@/lib/supabase';
+import { z } from 'zod';
+import { apiLogger } from '@/lib/logger';
+import { asLogContext } from '@/lib/utils/typeGuards';
+import {
+  CLASSROOM_ERROR_STATUS,
+  ClassroomError,
+  ClassroomService,
+} from '@/lib/services/classroomService';
+
+const joinSchema = z.object({
+  code: z.string().trim().min(4).max(20),
+});
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/classes/join - Join a class with its join code
+ */
+async function handleJoinClass(request: AuthenticatedRequest) {
+  const userId = request.user?.id;
+
+  if (!userId) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  try {
+    const { code } = joinSchema.parse(await request.json());
+
+    if (!supabaseAdmin) {
+      throw new Error('Database not configured');
+    }
+
+    const joined = await new ClassroomService(supabaseAdmin).joinClass(userId, code);
+
+    return NextResponse.json({ success: true, data: joined });
+  } catch (error) {
+    if (error instanceof ClassroomError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: error.code },
+        { status: CLASSROOM_ERROR_STATUS[error.code] }
+      );
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid join code', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    apiLogger.error('Failed to join class:', asLogContext(error));
+    return NextResponse.json({ success: false, error: 'Failed to join class' }, { status: 500 });
+  }
+}
+
+export const POST = withBasicAuth(handleJoinClass);
@@ -0,0 +1,90 @@
+import { NextResponse } from 'next/server';
+import { withBasicAuth } from '@/lib/middleware/withAuth';
+import type { AuthenticatedRequest } from '@/lib/middleware/auth';
+import { supabaseAdmin } from '@/lib/supabase';
+import { z } from 'zod';
+import { apiLogger } from '@/lib/logger';
+import { asLogContext } from '@/lib/utils/typeGuards';
+import {
+  CLASSROOM_ERROR_STATUS,
+  ClassroomError,
+  ClassroomService,
+} from '@/lib/services/classroomService';
+
+const createClassSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(1000).optional(),
+});
+
+export const runtime = 'nodejs';
+
+function getClassroom(): ClassroomService {
+  if (!supabaseAdmin) {
+    throw new Error('Database not configured');
+  }
+  return new ClassroomService(supabaseAdmin);
+}
+
+/**
+ * GET /api/classes - Classes the user teaches and classes they have joined,
+ * with their account role
+ */
+async function handleListClasses(request: AuthenticatedRequest) {
+  const userId = request.user?.id;
+
+  if (!userId) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  try {
+    const classroom = getClassroom();
+    const [role, classes] = await Promise.all([
+      classroom.getAccountRole(userId),
+      classroom.listClasses(userId),
+    ]);
+
+    return NextResponse.json({ success: true, data: { role, ...classes } });
+  } catch (error) {
+    apiLogger.error('Failed to list classes:', asLogContext(error));
+    return NextResponse.json({ success: false, error: 'Failed to list classes' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/classes - Create a class (teacher accounts only); the response
+ * carries its join code
+ */
+async function handleCreateClass(request: AuthenticatedRequest) {
+  const userId = request.user?.id;
+
+  if (!userId) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  try {
+    const input = createClassSchema.parse(await request.json());
+    const created = await getClassroom().createClass(userId, input);
+
+    return NextResponse.json({ success: true, data: created }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ClassroomError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: error.code },
+        { status: CLASSROOM_ERROR_STATUS[error.code] }
+      );
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid class', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    apiLogger.error('Failed to create class:', asLogContext(error));
+    return NextResponse.json({ success: false, error: 'Failed to create class' }, { status: 500 });
+  }
+}
+
+export const GET = withBasicAuth(handleListClasses);
+export const POST = withBasicAuth(handleCreateClass);
@@ -386,7 +386,7 @@ async function handleDescriptionGenerate(request: AuthenticatedRequest): Promise
           if (proxyData.dataUri && proxyData.dataUri.startsWith('data:')) {
             processedImageUrl = proxyData.dataUri;
             apiLogger.info('[Generate Route] Image proxied successfully:', {
-              originalLength: params.imageUrl.length,
+              originalLength: (params.imageUrl as string).length,
               proxiedLength: processedImageUrl.length,
               size: proxyData.size
             });
@@ -434,7 +434,7 @@ async function handleDescriptionGenerate(request: AuthenticatedRequest): Promise
       maxLength: validatedMaxLength,
       customPrompt: params.customPrompt as string | undefined,
       languages: ["en", "es"] as const,
-      originalImageUrl: params.imageUrl
+      originalImageUrl: params.imageUrl as string
     }, secureApiKey);
 
     const responseTime = performance.now() - startTime;
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 // MIGRATED TO CLAUDE: Using Anthropic Claude Sonnet 4.5 instead of OpenAI
 import { generateClaudeVisionDescription } from '@/lib/api/claude-server';
 import type { AuthenticatedRequest } from '@/lib/middleware/auth';
+import { withOptionalAuth } from '@/lib/middleware/withAuth';
 import {
   descriptionGenerateSchema,
   validateRequestSize,
@@ -10,8 +11,26 @@ import {
 } from '@/lib/schemas/api-validation';
 import type { DescriptionStyle } from '@/types/api';
 import { z } from 'zod';
-import { safeStringify, safeParse } from '@/lib/utils/json-safe';
+import { safeParse } from '@/lib/utils/json-safe';
 import { logger } from '@/lib/logger';
+import {
+  getLanguage,
+  isTargetLanguage,
+  DEFAULT_TARGET_LANGUAGE,
+  SUPPORTED_LANGUAGES,
+  getCEFRTarget,
+  type CEFRLevel,
+  type SpanishVariantCode,
+  type SupportedLanguageCode,
+} from '@/lib/languages';
+import type { DescriptionCEFR, GeneratedDescriptionPayload } from '@/lib/api/description-stream';
+import { libraryImageUrl } from '@/lib/services/imageLibraryService';
+import {
+  libraryImageAsDataUri,
+  proxyImageAsDataUri,
+  saveGeneratedDescriptions,
+  toDescriptionCEFR,
+} from './shared';
 
 // Simple console-based logging for Vercel serverless compatibility
 const apiLogger = {
@@ -51,7 +70,11 @@ interface ParallelDescriptionRequest {
   style: DescriptionStyle;
   maxLength: number;
   customPrompt?: string;
-  languages: readonly ('en' | 'es')[];
+  languages: readonly SupportedLanguageCode[];
+  /** Level the target-language text is checked against; English is not leveled */
+  cefrLevel?: CEFRLevel;
+  /** Regional variant for the Spanish text */
+  variant?: SpanishVariantCode;
   originalImageUrl: string;
 }
 
@@ -62,17 +85,17 @@ interface ParallelDescriptionRequest {
 async function generateParallelDescriptions(
   request: ParallelDescriptionRequest,
   userApiKey?: string
-): Promise<
-  Array<{
-    id: string;
-    imageId: string;
-    style: string;
-    content: string;
-    language: 'english' | 'spanish';
-    createdAt: string;
-  }>
-> {
-  const { imageUrl, style, maxLength, customPrompt, languages, originalImageUrl } = request;
+): Promise<GeneratedDescriptionPayload[]> {
+  const {
+    imageUrl,
+    style,
+    maxLength,
+    customPrompt,
+    languages,
+    cefrLevel,
+    variant,
+    originalImageUrl,
+  } = request;
   const baseTimestamp = Date.now();
 
   apiLogger.info('Starting parallel description generation', {
@@ -87,8 +110,7 @@ async function generateParallelDescriptions(
 
   // Create description generation promises for each language
   const descriptionPromises = languages.map(async (language, index) => {
-    const languageLabel = language === 'en' ? 'English' : 'Spanish';
-    const languageKey = language === 'en' ? 'english' : 'spanish';
+    const { name: languageLabel, key: languageKey, fallbackDescription } = getLanguage(language);
 
     try {
       apiLogger.debug(`Starting ${languageLabel} description generation`, {
@@ -102,16 +124,20 @@ async function generateParallelDescriptions(
       });
 
       // MIGRATED TO CLAUDE: Using Claude Sonnet 4.5 with 1M context
-      const descriptionText = await generateClaudeVisionDescription(
-        {
-          imageUrl,
-          style,
-          maxLength,
-          customPrompt,
-          language,
-        },
-        userApiKey
-      );
+      const visionRequest = { imageUrl, style, maxLength, customPrompt, language, variant };
+      let descriptionText: string;
+      let cefr: DescriptionCEFR | undefined;
+
+      if (cefrLevel && language !== 'en') {
+        const leveled = await generateClaudeVisionDescription(
+          { ...visionRequest, cefrTarget: cefrLevel },
+          userApiKey
+        );
+        descriptionText = leveled.text;
+        cefr = toDescriptionCEFR(leveled);
+      } else {
+        descriptionText = await generateClaudeVisionDescription(visionRequest, userApiKey);
+      }
 
       // Transform to expected format
       const description = {
@@ -146,7 +172,8 @@ async function generateParallelDescriptions(
         imageId: originalImageUrl,
         style: style,
         content: description.text,
-        language: languageKey as 'english' | 'spanish',
+        language: languageKey,
+        ...(cefr && { cefr }),
         createdAt: new Date().toISOString(),
       };
     } catch (error) {
@@ -179,17 +206,12 @@ async function generateParallelDescriptions(
       });
 
       // Return fallback description for this language
-      const fallbackContent =
-        language === 'en'
-          ? 'A captivating image that tells a unique story through its visual elements.'
-          : 'Una imagen cautivadora que cuenta una historia única a través de sus elementos visuales.';
-
       return {
         id: `${baseTimestamp + index}_${language}_fallback`,
         imageId: originalImageUrl,
         style: style,
-        content: fallbackContent,
-        language: languageKey as 'english' | 'spanish',
+        content: fallbackDescription,
+        language: languageKey,
         createdAt: new Date().toISOString(),
       };
     }
@@ -337,8 +359,30 @@ async function handleDescriptionGenerate(request: AuthenticatedRequest): Promise
       });
     }
 
-    // Process image URL - convert to base64 if it's an external URL
+    // Library images are private, so they are read from storage for their owner
     let processedImageUrl = params.imageUrl as string;
+    let imageRef = params.imageUrl as string;
+    if (params.libraryImageId) {
+      if (!userId) {
+        return NextResponse.json(
+          { success: false, error: 'Authentication required', requestId },
+          { status: 401, headers: securityHeaders }
+        );
+      }
+
+      const dataUri = await libraryImageAsDataUri(userId, params.libraryImageId);
+      if (!dataUri) {
+        return NextResponse.json(
+          { success: false, error: 'Image not found', requestId },
+          { status: 404, headers: securityHeaders }
+        );
+      }
+
+      processedImageUrl = dataUri;
+      imageRef = libraryImageUrl(params.libraryImageId);
+    }
+
+    // Process image URL - convert to base64 if it's an external URL
 
     // Enhanced image URL validation
     if (!processedImageUrl || typeof processedImageUrl !== 'string') {
@@ -409,42 +453,7 @@ async function handleDescriptionGenerate(request: AuthenticatedRequest): Promise
     }
 
     // If it's an external URL (not a data URI), proxy it
-    if (processedImageUrl && !processedImageUrl.startsWith('data:')) {
-      try {
-        requestLogger.debug('Proxying external image URL');
-        const proxyResponse = await fetch(`${request.nextUrl.origin}/api/images/proxy`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'User-Agent': 'DescribeIt/2.0.0',
-          },
-          body: safeStringify({ imageUrl: processedImageUrl }) || '',
-        });
-
-        if (proxyResponse.ok) {
-          const proxyData = await proxyResponse.json();
-          if (proxyData.dataUri && proxyData.dataUri.startsWith('data:')) {
-            processedImageUrl = proxyData.dataUri;
-            performanceLogger.info('Image proxied successfully', {
-              originalLength: params.imageUrl.length,
-              proxiedLength: processedImageUrl.length,
-              size: proxyData.size,
-            });
-          } else {
-            requestLogger.warn('Proxy returned invalid data URI');
-          }
-        } else {
-          requestLogger.warn('Image proxy failed', {
-            status: proxyResponse.status,
-            statusText: proxyResponse.statusText,
-          });
-        }
-      } catch (error) {
-        requestLogger.warn('Image proxy error, using original URL', {
-          error: error instanceof Error ? error.message : String(error),
-        });
-      }
-    }
+    processedImageUrl = await proxyImageAsDataUri(processedImageUrl, request.nextUrl.origin);
 
     // Get API key: prefer user's key, fall back to environment variable
     const apiKey = userApiKey || process.env.ANTHROPIC_API_KEY;
@@ -465,6 +474,14 @@ async function handleDescriptionGenerate(request: AuthenticatedRequest): Promise
       );
     }
 
+    // English plus the requested target language; unsupported codes fall back to Spanish
+    const targetLanguage = isTargetLanguage(params.language)
+      ? params.language
+      : DEFAULT_TARGET_LANGUAGE;
+    // The requested level, or the top of the style's default CEFR range
+    const cefrLevel =
+      params.cefrLevel ?? getCEFRTarget(targetLanguage, validatedStyle as DescriptionStyle).max;
+
     // Generate descriptions for both languages in parallel using Claude API
     requestLogger.info('Starting parallel description generation');
     const descriptions = await generateParallelDescriptions(
@@ -473,44 +490,21 @@ async function handleDescriptionGenerate(request: AuthenticatedRequest): Promise
         style: validatedStyle as DescriptionStyle,
         maxLength: validatedMaxLength,
         customPrompt: params.customPrompt as string | undefined,
-        languages: ['en', 'es'] as const,
-        originalImageUrl: params.imageUrl,
+        languages: ['en', targetLanguage],
+        cefrLevel,
+        variant: params.variant,
+        originalImageUrl: imageRef,
       },
       apiKey
     );
 
     // Save descriptions to database
     if (userId && descriptions && descriptions.length > 0) {
-      try {
-        const { DatabaseService } = await import('@/lib/supabase');
-
-        for (const desc of descriptions) {
-          // Map languages to column format
-          const isEnglish = desc.language === 'english';
-          await DatabaseService.saveDescription({
-            image_id: desc.imageId,
-            image_url: params.imageUrl,
-            style: validatedStyle as
-              | 'narrativo'
-              | 'poetico'
-              | 'academico'
-              | 'conversacional'
-              | 'infantil',
-            description_english: isEnglish ? desc.content : '',
-            description_spanish: !isEnglish ? desc.content : '',
-          });
-        }
-
-        requestLogger.info('Descriptions saved to database', {
-          count: descriptions.length,
-          userId,
-        });
-      } catch (dbError) {
-        requestLogger.warn('Failed to save descriptions to database', {
-          error: dbError instanceof Error ? dbError.message : String(dbError),
-        });
-        // Don't fail the request if database save fails
-      }
+      await saveGeneratedDescriptions(descriptions, {
+        imageUrl: imageRef,
+        style: validatedStyle as DescriptionStyle,
+        targetLanguage,
+      });
     }
 
     const responseTime = performance.now() - startTime;
@@ -635,7 +629,7 @@ async function handleHealthCheck(request: AuthenticatedRequest): Promise<NextRes
         version: '2.0.0',
         capabilities: {
           styles: ['narrativo', 'poetico', 'academico', 'conversacional', 'infantil'],
-          languages: ['es', 'en'],
+          languages: SUPPORTED_LANGUAGES,
           demoMode: false, // Server-side always attempts real API
         },
       },
@@ -655,14 +649,9 @@ async function handleHealthCheck(request: AuthenticatedRequest): Promise<NextRes
   );
 }
 
-// Simplified direct exports for Vercel compatibility
-export async function POST(request: NextRequest) {
-  // Cast to AuthenticatedRequest for type compatibility
-  const authRequest = request as AuthenticatedRequest;
-  authRequest.user = { id: undefined, subscription_status: 'free' };
-
-  return handleDescriptionGenerate(authRequest);
-}
+// Guests can generate descriptions; signed-in users can also describe images
+// from their library
+export const POST = withOptionalAuth(handleDescriptionGenerate, { allowGuest: true });
 
 export async function GET(request: NextRequest) {
   const authRequest = request as AuthenticatedRequest;
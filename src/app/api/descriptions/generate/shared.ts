@@ -0,0 +1,124 @@
+/**
+ * Helpers shared by the JSON and streaming description generation routes
+ */
+
+import type { LeveledDescription } from '@/lib/api/claude-server';
+import type { DescriptionCEFR, GeneratedDescriptionPayload } from '@/lib/api/description-stream';
+import { safeStringify } from '@/lib/utils/json-safe';
+import { logger } from '@/lib/logger';
+import { supabaseAdmin } from '@/lib/supabase';
+import { getImageStorage } from '@/lib/storage/imageStorage';
+import { ImageLibraryService } from '@/lib/services/imageLibraryService';
+import type { TargetLanguageCode } from '@/lib/languages';
+import type { DescriptionStyle } from '@/types/api';
+
+/**
+ * Fetch an external image through the image proxy so Claude receives a data
+ * URI; returns the original URL when proxying fails
+ */
+export async function proxyImageAsDataUri(imageUrl: string, origin: string): Promise<string> {
+  if (imageUrl.startsWith('data:')) {
+    return imageUrl;
+  }
+
+  try {
+    const proxyResponse = await fetch(`${origin}/api/images/proxy`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'DescribeIt/2.0.0',
+      },
+      body: safeStringify({ imageUrl }) || '',
+    });
+
+    if (!proxyResponse.ok) {
+      logger.warn('Image proxy failed', {
+        status: proxyResponse.status,
+        statusText: proxyResponse.statusText,
+      });
+      return imageUrl;
+    }
+
+    const proxyData = await proxyResponse.json();
+    if (proxyData.dataUri && proxyData.dataUri.startsWith('data:')) {
+      logger.info('Image proxied successfully', {
+        originalLength: imageUrl.length,
+        proxiedLength: proxyData.dataUri.length,
+        size: proxyData.size,
+      });
+      return proxyData.dataUri;
+    }
+
+    logger.warn('Proxy returned invalid data URI');
+  } catch (error) {
+    logger.warn('Image proxy error, using original URL', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  return imageUrl;
+}
+
+/**
+ * A library image as a data URI for Claude; library files are private, so
+ * they are read from storage for their owner. Null when the user has no
+ * such image.
+ */
+export async function libraryImageAsDataUri(
+  userId: string,
+  imageId: string
+): Promise<string | null> {
+  if (!supabaseAdmin) {
+    throw new Error('Database not configured');
+  }
+
+  return new ImageLibraryService(supabaseAdmin, getImageStorage()).toDataUri(userId, imageId);
+}
+
+export function toDescriptionCEFR(leveled: LeveledDescription): DescriptionCEFR {
+  return {
+    target: leveled.cefrTarget,
+    estimated: leveled.analysis.estimatedLevel,
+    meetsTarget: leveled.meetsTarget,
+    attempts: leveled.attempts,
+    analysis: leveled.analysis,
+  };
+}
+
+/**
+ * Persist generated descriptions; failures are logged and never fail the request
+ */
+export async function saveGeneratedDescriptions(
+  descriptions: GeneratedDescriptionPayload[],
+  options: { imageUrl: string; style: DescriptionStyle; targetLanguage: TargetLanguageCode }
+): Promise<void> {
+  try {
+    const { DatabaseService } = await import('@/lib/supabase');
+
+    for (const desc of descriptions) {
+      // Map languages to column format; the non-English column holds the
+      // target language named by target_language
+      const isEnglish = desc.language === 'english';
+      await DatabaseService.saveDescription({
+        image_id: desc.imageId,
+        image_url: options.imageUrl,
+        style: options.style,
+        description_english: isEnglish ? desc.content : '',
+        description_spanish: !isEnglish ? desc.content : '',
+        target_language: options.targetLanguage,
+        ...(desc.cefr && {
+          cefr_target: desc.cefr.target,
+          cefr_level: desc.cefr.estimated,
+          cefr_flagged: !desc.cefr.meetsTarget,
+          difficulty_analysis: desc.cefr.analysis,
+        }),
+      });
+    }
+
+    logger.info('Descriptions saved to database', { count: descriptions.length });
+  } catch (dbError) {
+    logger.warn('Failed to save descriptions to database', {
+      error: dbError instanceof Error ? dbError.message : String(dbError),
+    });
+  }
+}
@@ -0,0 +1,316 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { streamClaudeVisionDescription } from '@/lib/api/claude-server';
+import type { AuthenticatedRequest } from '@/lib/middleware/auth';
+import { withOptionalAuth } from '@/lib/middleware/withAuth';
+import {
+  descriptionGenerateSchema,
+  validateRequestSize,
+  validateSecurityHeaders,
+} from '@/lib/schemas/api-validation';
+import {
+  encodeStreamEvent,
+  type DescriptionStreamEvent,
+  type GeneratedDescriptionPayload,
+} from '@/lib/api/description-stream';
+import type { DescriptionStyle } from '@/types/api';
+import { z } from 'zod';
+import { safeParse } from '@/lib/utils/json-safe';
+import { logger } from '@/lib/logger';
+import {
+  analyzeTextDifficulty,
+  checkCEFRTarget,
+  getCEFRTarget,
+  getLanguage,
+  isTargetLanguage,
+  DEFAULT_TARGET_LANGUAGE,
+  type SupportedLanguageCode,
+} from '@/lib/languages';
+import { libraryImageUrl } from '@/lib/services/imageLibraryService';
+import { libraryImageAsDataUri, proxyImageAsDataUri, saveGeneratedDescriptions } from '../shared';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const securityHeaders = {
+  'X-Content-Type-Options': 'nosniff',
+  'X-Frame-Options': 'DENY',
+  'X-XSS-Protection': '1; mode=block',
+  'Referrer-Policy': 'no-referrer',
+};
+
+function errorResponse(status: number, body: Record<string, unknown>): NextResponse {
+  return NextResponse.json(
+    { success: false, ...body },
+    { status, headers: { ...securityHeaders, 'Content-Type': 'application/json' } }
+  );
+}
+
+/**
+ * Streaming variant of POST /api/descriptions/generate
+ * Validates the request like the JSON route, then responds with Server-Sent
+ * Events: both languages are generated concurrently and their text fragments
+ * are interleaved as `delta` events. The final `done` event carries the same
+ * payload the JSON route returns. Closing the connection cancels generation.
+ */
+async function handleDescriptionStream(request: AuthenticatedRequest): Promise<NextResponse> {
+  const startTime = performance.now();
+  const requestId = crypto.randomUUID();
+  const userId = request.user?.id;
+  const userTier = request.user?.subscription_status || 'free';
+
+  logger.info('POST /api/descriptions/generate/stream', { requestId, hasUser: !!userId });
+
+  const securityCheck = validateSecurityHeaders(request.headers);
+  if (!securityCheck.valid) {
+    return errorResponse(403, {
+      error: 'Security validation failed',
+      details: securityCheck.reason,
+      requestId,
+    });
+  }
+
+  const body = safeParse(await request.text());
+  if (!body) {
+    return errorResponse(400, { error: 'Invalid JSON in request body', requestId });
+  }
+  if (!validateRequestSize(body, 50 * 1024)) {
+    return errorResponse(413, { error: 'Request too large', requestId });
+  }
+
+  let params: z.infer<typeof descriptionGenerateSchema>;
+  try {
+    params = descriptionGenerateSchema.parse(body);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return errorResponse(400, {
+        error: 'Invalid request parameters',
+        errors: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message,
+          code: err.code,
+        })),
+        requestId,
+      });
+    }
+    throw error;
+  }
+
+  // Library images are private, so they are read from storage for their owner
+  let imageUrl = params.imageUrl as string;
+  let imageRef = imageUrl;
+  if (params.libraryImageId) {
+    if (!userId) {
+      return errorResponse(401, { error: 'Authentication required', requestId });
+    }
+
+    const dataUri = await libraryImageAsDataUri(userId, params.libraryImageId);
+    if (!dataUri) {
+      return errorResponse(404, { error: 'Image not found', requestId });
+    }
+
+    imageUrl = dataUri;
+    imageRef = libraryImageUrl(params.libraryImageId);
+  }
+
+  if (
+    !imageUrl.startsWith('data:') &&
+    !imageUrl.startsWith('http://') &&
+    !imageUrl.startsWith('https://')
+  ) {
+    return errorResponse(400, {
+      error: 'Image URL must be a valid data URI or HTTP URL',
+      requestId,
+    });
+  }
+
+  const apiKey = params.userApiKey || process.env.ANTHROPIC_API_KEY;
+  if (!apiKey) {
+    return errorResponse(500, {
+      error: 'API configuration error',
+      details: 'No API key configured. Please provide your Anthropic API key in settings.',
+      requestId,
+    });
+  }
+
+  const style = params.style as DescriptionStyle;
+  const maxLength = params.maxLength <= 1000 ? params.maxLength : 300;
+  const targetLanguage = isTargetLanguage(params.language)
+    ? params.language
+    : DEFAULT_TARGET_LANGUAGE;
+  const cefrLevel = params.cefrLevel ?? getCEFRTarget(targetLanguage, style).max;
+  const languages: SupportedLanguageCode[] = ['en', targetLanguage];
+  const processedImageUrl = await proxyImageAsDataUri(imageUrl, request.nextUrl.origin);
+
+  // Aborted when the client disconnects or cancels the reader
+  const abortController = new AbortController();
+  request.signal?.addEventListener('abort', () => abortController.abort());
+
+  const baseTimestamp = Date.now();
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: DescriptionStreamEvent) => {
+        if (!abortController.signal.aborted) {
+          controller.enqueue(encoder.encode(encodeStreamEvent(event)));
+        }
+      };
+      const close = () => {
+        try {
+          controller.close();
+        } catch {
+          // Already closed by cancel()
+        }
+      };
+
+      const entries = languages.map((language, index) => ({
+        language,
+        id: `${baseTimestamp + index}_${language}`,
+        definition: getLanguage(language),
+      }));
+
+      send({
+        event: 'start',
+        data: {
+          requestId,
+          descriptions: entries.map(({ id, definition }) => ({ id, language: definition.key })),
+        },
+      });
+
+      const descriptions = await Promise.all(
+        entries.map(async ({ language, id, definition }): Promise<GeneratedDescriptionPayload> => {
+          const base = {
+            imageId: imageRef,
+            style,
+            language: definition.key,
+          };
+
+          try {
+            const text = await streamClaudeVisionDescription(
+              {
+                imageUrl: processedImageUrl,
+                style,
+                maxLength,
+                customPrompt: params.customPrompt,
+                language,
+                variant: params.variant,
+              },
+              {
+                onText: delta =>
+                  send({ event: 'delta', data: { id, language: definition.key, text: delta } }),
+                signal: abortController.signal,
+              },
+              apiKey
+            );
+
+            // Streamed text cannot be regenerated, so an off-level result is flagged
+            let cefr: GeneratedDescriptionPayload['cefr'];
+            if (language !== 'en') {
+              const analysis = analyzeTextDifficulty(text, language);
+              const check = checkCEFRTarget(analysis, cefrLevel);
+              cefr = {
+                target: cefrLevel,
+                estimated: check.estimated,
+                meetsTarget: check.meetsTarget,
+                attempts: 1,
+                analysis,
+              };
+            }
+
+            const description = {
+              ...base,
+              id,
+              content: text,
+              ...(cefr && { cefr }),
+              createdAt: new Date().toISOString(),
+            };
+            send({ event: 'description', data: description });
+            return description;
+          } catch (error) {
+            if (!abortController.signal.aborted) {
+              logger.error(
+                `${definition.name} description stream failed`,
+                error instanceof Error ? error : undefined,
+                { requestId, language }
+              );
+              send({
+                event: 'error',
+                data: {
+                  message: error instanceof Error ? error.message : String(error),
+                  language: definition.key,
+                },
+              });
+            }
+
+            const fallback = {
+              ...base,
+              id: `${id}_fallback`,
+              content: definition.fallbackDescription,
+              createdAt: new Date().toISOString(),
+            };
+            send({ event: 'description', data: fallback });
+            return fallback;
+          }
+        })
+      );
+
+      if (abortController.signal.aborted) {
+        logger.info('Description stream cancelled by client', { requestId });
+        close();
+        return;
+      }
+
+      if (userId) {
+        await saveGeneratedDescriptions(descriptions, {
+          imageUrl: imageRef,
+          style,
+          targetLanguage,
+        });
+      }
+
+      const responseTime = performance.now() - startTime;
+      send({
+        event: 'done',
+        data: {
+          success: true,
+          data: descriptions,
+          metadata: {
+            responseTime: `${responseTime.toFixed(2)}ms`,
+            timestamp: new Date().toISOString(),
+            requestId,
+            userId,
+            userTier,
+            demoMode: false,
+            version: '2.0.0',
+          },
+        },
+      });
+      close();
+    },
+    cancel() {
+      abortController.abort();
+    },
+  });
+
+  return new NextResponse(stream, {
+    headers: {
+      ...securityHeaders,
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+      'X-Request-ID': requestId,
+    },
+  });
+}
+
+export async function OPTIONS(request: NextRequest) {
+  const { handleCORSPreflight } = await import('@/lib/middleware/api-middleware');
+  return handleCORSPreflight(request);
+}
+
+// Guests can generate descriptions; signed-in users can also describe images
+// from their library
+export const POST = withOptionalAuth(handleDescriptionStream, { allowGuest: true });
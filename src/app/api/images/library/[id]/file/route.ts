@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { withBasicAuth } from '@/lib/middleware/withAuth';
+import type { AuthenticatedRequest } from '@/lib/middleware/auth';
+import { supabaseAdmin } from '@/lib/supabase';
+import { z } from 'zod';
+import { apiLogger } from '@/lib/logger';
+import { asLogContext } from '@/lib/utils/typeGuards';
+import { getImageStorage } from '@/lib/storage/imageStorage';
+import { ImageLibraryService } from '@/lib/services/imageLibraryService';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/images/library/[id]/file - The stored image, or its thumbnail
+ * with ?variant=thumbnail. Only the owner can read it.
+ */
+async function handleGetImageFile(
+  request: AuthenticatedRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const userId = request.user?.id;
+
+  if (!userId) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  if (!z.string().uuid().safeParse(id).success) {
+    return NextResponse.json({ success: false, error: 'Invalid image id' }, { status: 400 });
+  }
+
+  try {
+    if (!supabaseAdmin) {
+      throw new Error('Database not configured');
+    }
+
+    const variant =
+      request.nextUrl.searchParams.get('variant') === 'thumbnail' ? 'thumbnail' : 'full';
+    const file = await new ImageLibraryService(supabaseAdmin, getImageStorage()).readFile(
+      userId,
+      id,
+      variant
+    );
+    if (!file) {
+      return NextResponse.json({ success: false, error: 'Image not found' }, { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(file.body), {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Length': String(file.body.length),
+        // Stored files never change; a new upload gets a new id
+        'Cache-Control': 'private, max-age=86400, immutable',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  } catch (error) {
+    apiLogger.error('Failed to read library image file:', asLogContext(error));
+    return NextResponse.json({ success: false, error: 'Failed to load image' }, { status: 500 });
+  }
+}
+
+export const GET = withBasicAuth(handleGetImageFile);
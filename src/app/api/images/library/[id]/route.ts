@@ -0,0 +1,87 @@
+import { NextResponse } from 'next/server';
+import { withBasicAuth } from '@/lib/middleware/withAuth';
+import type { AuthenticatedRequest } from '@/lib/middleware/auth';
+import { supabaseAdmin } from '@/lib/supabase';
+import { z } from 'zod';
+import { apiLogger } from '@/lib/logger';
+import { asLogContext } from '@/lib/utils/typeGuards';
+import { getImageStorage } from '@/lib/storage/imageStorage';
+import { ImageLibraryService } from '@/lib/services/imageLibraryService';
+
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function getLibrary(): ImageLibraryService {
+  if (!supabaseAdmin) {
+    throw new Error('Database not configured');
+  }
+  return new ImageLibraryService(supabaseAdmin, getImageStorage());
+}
+
+/**
+ * GET /api/images/library/[id] - One uploaded image. With ?include=dataUri
+ * the image itself comes back as a data URI, ready to pass to
+ * /api/descriptions/generate for new descriptions.
+ */
+async function handleGetImage(request: AuthenticatedRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const userId = request.user?.id;
+
+  if (!userId) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  if (!z.string().uuid().safeParse(id).success) {
+    return NextResponse.json({ success: false, error: 'Invalid image id' }, { status: 400 });
+  }
+
+  try {
+    const library = getLibrary();
+    const image = await library.get(userId, id);
+    if (!image) {
+      return NextResponse.json({ success: false, error: 'Image not found' }, { status: 404 });
+    }
+
+    const dataUri =
+      request.nextUrl.searchParams.get('include') === 'dataUri'
+        ? await library.toDataUri(userId, id)
+        : undefined;
+
+    return NextResponse.json({ success: true, data: dataUri ? { ...image, dataUri } : image });
+  } catch (error) {
+    apiLogger.error('Failed to load library image:', asLogContext(error));
+    return NextResponse.json({ success: false, error: 'Failed to load image' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/images/library/[id] - Remove an uploaded image and its files
+ */
+async function handleDeleteImage(request: AuthenticatedRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const userId = request.user?.id;
+
+  if (!userId) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  if (!z.string().uuid().safeParse(id).success) {
+    return NextResponse.json({ success: false, error: 'Invalid image id' }, { status: 400 });
+  }
+
+  try {
+    const removed = await getLibrary().remove(userId, id);
+    if (!removed) {
+      return NextResponse.json({ success: false, error: 'Image not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    apiLogger.error('Failed to delete library image:', asLogContext(error));
+    return NextResponse.json({ success: false, error: 'Failed to delete image' }, { status: 500 });
+  }
+}
+
+export const GET = withBasicAuth(handleGetImage);
+export const DELETE = withBasicAuth(handleDeleteImage);
@@ -0,0 +1,158 @@
+import { NextResponse } from 'next/server';
+import { withBasicAuth } from '@/lib/middleware/withAuth';
+import type { AuthenticatedRequest } from '@/lib/middleware/auth';
+import { supabaseAdmin } from '@/lib/supabase';
+import { z } from 'zod';
+import { apiLogger } from '@/lib/logger';
+import { asLogContext } from '@/lib/utils/typeGuards';
+import { getImageStorage } from '@/lib/storage/imageStorage';
+import {
+  ImageLibraryService,
+  ImageUploadError,
+  MAX_UPLOAD_BYTES,
+} from '@/lib/services/imageLibraryService';
+
+export const runtime = 'nodejs';
+
+const listSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).optional().default(24),
+  offset: z.coerce.number().int().min(0).optional().default(0),
+});
+
+// Uploads may also arrive as the data: URLs the description generator accepts
+const dataUrlUploadSchema = z.object({
+  dataUrl: z
+    .string()
+    .regex(/^data:image\/[a-z0-9.+-]+;base64,/i, 'Expected a base64 image data URL'),
+  fileName: z.string().max(255).optional(),
+  description: z.string().max(1000).optional(),
+});
+
+const UPLOAD_ERROR_STATUS: Record<ImageUploadError['code'], number> = {
+  too_large: 413,
+  unsupported_format: 415,
+  invalid_image: 400,
+};
+
+function getLibrary(): ImageLibraryService {
+  if (!supabaseAdmin) {
+    throw new Error('Database not configured');
+  }
+  return new ImageLibraryService(supabaseAdmin, getImageStorage());
+}
+
+/**
+ * GET /api/images/library - The user's uploaded images, newest first
+ */
+async function handleListImages(request: AuthenticatedRequest) {
+  const userId = request.user?.id;
+
+  if (!userId) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  try {
+    const { limit, offset } = listSchema.parse(Object.fromEntries(request.nextUrl.searchParams));
+    const { images, total } = await getLibrary().list(userId, { limit, offset });
+
+    return NextResponse.json({
+      success: true,
+      data: images,
+      pagination: { total, limit, offset, hasMore: offset + images.length < total },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid parameters', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    apiLogger.error('Failed to list image library:', asLogContext(error));
+    return NextResponse.json({ success: false, error: 'Failed to load images' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/images/library - Upload an image as multipart form data (field
+ * "file") or as JSON with a base64 data URL
+ */
+async function handleUploadImage(request: AuthenticatedRequest) {
+  const userId = request.user?.id;
+
+  if (!userId) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  const declaredLength = Number(request.headers.get('content-length'));
+  // Base64 and multipart framing add overhead on top of the file itself
+  if (declaredLength > MAX_UPLOAD_BYTES * 1.4) {
+    return NextResponse.json(
+      { success: false, error: 'Image is too large', code: 'too_large' },
+      { status: 413 }
+    );
+  }
+
+  try {
+    let data: Buffer;
+    let fileName: string | undefined;
+    let description: string | undefined;
+
+    if (request.headers.get('content-type')?.includes('multipart/form-data')) {
+      const form = await request.formData();
+      const file = form.get('file');
+      if (!(file instanceof Blob)) {
+        return NextResponse.json(
+          { success: false, error: 'Missing "file" field' },
+          { status: 400 }
+        );
+      }
+      data = Buffer.from(await file.arrayBuffer());
+      fileName = 'name' in file && typeof file.name === 'string' ? file.name : undefined;
+      const note = form.get('description');
+      description = typeof note === 'string' ? note.slice(0, 1000) : undefined;
+    } else {
+      const body = dataUrlUploadSchema.parse(await request.json());
+      data = Buffer.from(body.dataUrl.slice(body.dataUrl.indexOf(',') + 1), 'base64');
+      fileName = body.fileName;
+      description = body.description;
+    }
+
+    const image = await getLibrary().upload(userId, data, { fileName, description });
+    apiLogger.info('Image uploaded to library', {
+      userId,
+      imageId: image.id,
+      backend: image.storage_backend,
+      bytes: image.file_size_bytes,
+    });
+
+    return NextResponse.json({ success: true, data: image }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ImageUploadError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: error.code },
+        { status: UPLOAD_ERROR_STATUS[error.code] }
+      );
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid upload', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    apiLogger.error('Failed to upload image:', asLogContext(error));
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to upload image',
+        message: 'An error occurred. Please try again.',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withBasicAuth(handleListImages);
+export const POST = withBasicAuth(handleUploadImage);
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { safeParse, safeStringify } from '@/lib/utils/json-safe';
 import { unsplashService } from '@/lib/api/unsplash';
 import { apiKeyProvider } from '@/lib/api/keyProvider';
+import { searchImageProviders } from '@/lib/api/imageProviders';
 import { withBasicAuth } from '@/lib/middleware/withAuth';
 import type { AuthenticatedRequest } from '@/lib/middleware/auth';
 import { z } from 'zod';
@@ -322,11 +323,11 @@ async function handleImageSearch(request: AuthenticatedRequest) {
       });
     }
 
-    // Fetch data (unsplashService handles demo mode internally)
-    apiLogger.info('[API] Calling unsplashService.searchImages with params:', params);
+    // Fetch from every configured provider (Unsplash handles demo mode internally)
+    apiLogger.info('[API] Searching image providers with params:', params);
 
     // Add timeout for Vercel serverless (reduced for Vercel's 5s limit on hobby plan)
-    const searchPromise = unsplashService.searchImages(params);
+    const searchPromise = searchImageProviders(params);
     const timeoutPromise = new Promise((_, reject) => {
       setTimeout(() => reject(new Error('Search timeout - using demo mode')), 4000); // 4 seconds max for Vercel hobby
     });
@@ -365,11 +366,12 @@ async function handleImageSearch(request: AuthenticatedRequest) {
         hasNextPage: params.page < 3,
       };
     }
-    apiLogger.info('[API] Results from unsplashService:', {
+    apiLogger.info('[API] Results from image providers:', {
       hasImages: !!(results.images && results.images.length > 0),
       imageCount: results.images?.length || 0,
       totalPages: results.totalPages,
       isDemo: results.images?.[0]?.id?.startsWith('demo'),
+      providers: results.providers,
     });
     const etag = generateETag(results);
 
@@ -402,6 +404,9 @@ async function handleImageSearch(request: AuthenticatedRequest) {
         'X-Response-Time': `${performance.now() - startTime}ms`,
         'X-Rate-Limit-Remaining': '1000', // Mock rate limit
         'X-Demo-Mode': unsplashConfig.isDemo ? 'true' : 'false',
+        'X-Image-Providers': (results.providers || [])
+          .map((status: { provider: string }) => status.provider)
+          .join(','),
         'X-User-ID': userId || 'anonymous',
         'X-User-Tier': userTier,
         'X-Content-Type-Options': 'nosniff',
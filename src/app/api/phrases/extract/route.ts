@@ -3,6 +3,12 @@ import { safeParse, safeStringify } from "@/lib/utils/json-safe";
 import { z } from "zod";
 import { PhraseExtractor } from "@/lib/services/phraseExtractor";
 import { apiLogger } from '@/lib/logger';
+import {
+  isTargetLanguage,
+  DEFAULT_TARGET_LANGUAGE,
+  PHRASE_CATEGORIES,
+  type TargetLanguageCode,
+} from "@/lib/languages";
 
 // Input validation schema
 const phraseExtractionSchema = z.object({
@@ -19,17 +25,11 @@ const phraseExtractionSchema = z.object({
     .optional()
     .default("intermediate"),
   maxPhrases: z.coerce.number().int().min(1).max(25).optional().default(15),
-  categories: z
-    .array(
-      z.enum([
-        "sustantivos",
-        "verbos",
-        "adjetivos",
-        "adverbios",
-        "frasesClaves",
-      ]),
-    )
-    .optional(),
+  categories: z.array(z.enum(PHRASE_CATEGORIES)).optional(),
+  language: z
+    .custom<TargetLanguageCode>(isTargetLanguage, "Unsupported target language")
+    .optional()
+    .default(DEFAULT_TARGET_LANGUAGE),
 });
 
 export const runtime = "nodejs";
@@ -204,6 +204,7 @@ export async function POST(request: NextRequest) {
       targetLevel,
       maxPhrases,
       categories,
+      language,
     } = phraseExtractionSchema.parse(body);
 
     // Extract categorized phrases using new service
@@ -213,6 +214,7 @@ export async function POST(request: NextRequest) {
       targetLevel,
       maxPhrases,
       categories,
+      language,
     });
 
     // Flatten for backwards compatibility with existing PhrasesPanel
@@ -250,6 +252,7 @@ export async function POST(request: NextRequest) {
           ),
           targetLevel,
           style,
+          language,
           responseTime: `${responseTime}ms`,
         },
       },
@@ -9,6 +9,7 @@ import type { AuthenticatedRequest } from "@/lib/middleware/auth";
 import { DatabaseService } from "@/lib/supabase";
 import { apiLogger } from "@/lib/logger";
 import { asLogContext } from "@/lib/utils/typeGuards";
+import { getAchievementService } from "@/lib/services/achievementService";
 
 export const runtime = "nodejs";
 
@@ -37,6 +38,33 @@ interface ProgressStats {
   }>;
 }
 
+/**
+ * Achievements the user has unlocked, from the achievement engine; stats are
+ * still served when it is unavailable
+ */
+async function getUnlockedAchievements(userId: string): Promise<ProgressStats["achievements"]> {
+  try {
+    const service = await getAchievementService();
+    if (!service) return [];
+
+    const achievements = await service.getUserAchievements(userId);
+    return achievements.flatMap(achievement =>
+      achievement.unlockedAt
+        ? [{
+            id: achievement.id,
+            name: achievement.name,
+            description: achievement.description,
+            unlocked_at: achievement.unlockedAt,
+            icon: achievement.icon ?? "🏆"
+          }]
+        : []
+    );
+  } catch (error) {
+    apiLogger.warn("Failed to load achievements for progress stats:", asLogContext(error));
+    return [];
+  }
+}
+
 /**
  * Calculate user progress statistics from database
  */
@@ -100,38 +128,7 @@ async function calculateProgressStats(userId: string): Promise<ProgressStats> {
       improvementTrend = "declining";
     }
 
-    // Generate achievements
-    const achievements = [];
-
-    if (user.current_streak >= 7) {
-      achievements.push({
-        id: "streak_7",
-        name: "Week Warrior",
-        description: "Maintained a 7-day learning streak",
-        unlocked_at: user.last_active_at || user.created_at,
-        icon: "🔥"
-      });
-    }
-
-    if (user.total_points >= 1000) {
-      achievements.push({
-        id: "points_1000",
-        name: "Point Master",
-        description: "Earned 1000 total points",
-        unlocked_at: user.last_active_at || user.created_at,
-        icon: "⭐"
-      });
-    }
-
-    if (masteredCount >= 50) {
-      achievements.push({
-        id: "phrases_50",
-        name: "Vocabulary Builder",
-        description: "Mastered 50 phrases",
-        unlocked_at: user.last_active_at || user.created_at,
-        icon: "📚"
-      });
-    }
+    const achievements = await getUnlockedAchievements(userId);
 
     // Generate next milestones
     const nextMilestones = [
@@ -6,30 +6,19 @@ import { withBasicAuth } from "@/lib/middleware/withAuth";
 import type { AuthenticatedRequest } from "@/lib/middleware/auth";
 import { apiLogger } from '@/lib/logger';
 import { asLogContext } from '@/lib/utils/typeGuards';
+import { getAchievementService } from "@/lib/services/achievementService";
+import {
+  ACHIEVEMENT_EVENT_TYPES,
+  type UnlockedAchievement,
+} from "@/lib/achievements";
 
 // Input validation schemas
 const progressEventSchema = z.object({
   userId: z.string().optional().default("anonymous"),
   sessionId: z.string().optional(),
-  eventType: z.enum([
-    "vocabulary_learned",
-    "vocabulary_reviewed",
-    "vocabulary_mastered",
-    "qa_answered",
-    "qa_correct",
-    "qa_incorrect",
-    "phrase_learned",
-    "phrase_reviewed",
-    "phrase_mastered",
-    "translation_completed",
-    "description_generated",
-    "session_started",
-    "session_completed",
-    "image_processed",
-    "export_generated",
-    "difficulty_adjusted",
-    "goal_achieved",
-  ]),
+  // Stable id from the client; a retried event then unlocks nothing twice
+  eventId: z.string().min(1).max(200).optional(),
+  eventType: z.enum(ACHIEVEMENT_EVENT_TYPES),
   eventData: z.object({
     vocabularyId: z.string().optional(),
     questionId: z.string().optional(),
@@ -100,14 +89,6 @@ interface DifficultyStats {
   advanced: number;
 }
 
-interface Achievement {
-  id: string;
-  title: string;
-  unlockedAt: string;
-  eventType: string;
-  eventData: any;
-}
-
 interface UserProgress {
   userId: string;
   totalEvents: number;
@@ -116,7 +97,6 @@ interface UserProgress {
   streaks: StreakData;
   categories: Record<string, number>;
   difficulties: DifficultyStats;
-  achievements: Achievement[];
   masteryScores: Record<string, number>;
   timeSpent: number;
   scores: ScoreData;
@@ -242,7 +222,6 @@ class ProgressTracker {
         streaks: { current: 0, longest: 0 },
         categories: {},
         difficulties: { beginner: 0, intermediate: 0, advanced: 0 },
-        achievements: [],
         masteryScores: {},
         timeSpent: 0,
         scores: { total: 0, count: 0, average: 0 },
@@ -301,9 +280,6 @@ class ProgressTracker {
         }
       }
 
-      // Check for achievements
-      this.checkAchievements(progress, eventType, eventData);
-
       await descriptionCache.set(progress, 86400 * 90, progressKey);
     } catch (error) {
       apiLogger.warn("Failed to update user progress:", asLogContext(error));
@@ -477,50 +453,6 @@ class ProgressTracker {
     }
   }
 
-  checkAchievements(progress: any, eventType: string, eventData: any) {
-    const achievements = [
-      {
-        id: "first_word",
-        condition: () => progress.totalEvents === 1,
-        title: "First Steps",
-      },
-      {
-        id: "vocab_100",
-        condition: () => progress.categories.vocabulary >= 100,
-        title: "Vocabulary Master",
-      },
-      {
-        id: "streak_7",
-        condition: () => progress.streaks.current >= 7,
-        title: "Week Warrior",
-      },
-      {
-        id: "streak_30",
-        condition: () => progress.streaks.current >= 30,
-        title: "Monthly Master",
-      },
-      {
-        id: "perfect_score",
-        condition: () => progress.scores.average >= 0.95,
-        title: "Perfectionist",
-      },
-    ];
-
-    achievements.forEach((achievement) => {
-      if (
-        achievement.condition() &&
-        !progress.achievements.find((a: any) => a.id === achievement.id)
-      ) {
-        progress.achievements.push({
-          ...achievement,
-          unlockedAt: new Date().toISOString(),
-          eventType,
-          eventData,
-        });
-      }
-    });
-  }
-
   isConsecutiveDay(date1: string, date2: string): boolean {
     const d1 = new Date(date1);
     const d2 = new Date(date2);
@@ -571,6 +503,31 @@ class ProgressTracker {
 
 const progressTracker = new ProgressTracker();
 
+// Achievements are evaluated by the achievement engine; tracking still
+// succeeds when it is unavailable
+async function unlockAchievements(
+  userId: string,
+  eventId: string,
+  eventType: string,
+  eventData: Record<string, unknown>,
+  occurredAt: string,
+): Promise<UnlockedAchievement[]> {
+  try {
+    const achievements = await getAchievementService();
+    if (!achievements) return [];
+
+    return await achievements.recordEvent(userId, {
+      eventId,
+      type: eventType,
+      data: eventData,
+      occurredAt,
+    });
+  } catch (error) {
+    apiLogger.warn("Failed to evaluate achievements:", asLogContext(error));
+    return [];
+  }
+}
+
 // POST endpoint - Track progress event
 async function handleProgressTrack(request: AuthenticatedRequest) {
   const startTime = performance.now();
@@ -603,7 +560,7 @@ async function handleProgressTrack(request: AuthenticatedRequest) {
     // Override any userId in the request body with authenticated user ID
     body.userId = authenticatedUserId;
     
-    const { userId, sessionId, eventType, eventData, timestamp } =
+    const { userId, sessionId, eventId, eventType, eventData, timestamp } =
       progressEventSchema.parse(body);
 
     const event = await progressTracker.trackEvent(
@@ -614,12 +571,23 @@ async function handleProgressTrack(request: AuthenticatedRequest) {
       timestamp,
     );
 
+    // Achievements count the event when it reached the server; a
+    // client timestamp could backdate it into a streak
+    const achievements = await unlockAchievements(
+      userId,
+      eventId ?? event.id,
+      eventType,
+      eventData,
+      new Date().toISOString(),
+    );
+
     const responseTime = performance.now() - startTime;
 
     return NextResponse.json(
       {
         success: true,
         data: event,
+        achievements,
         metadata: {
           userId,
           sessionId,
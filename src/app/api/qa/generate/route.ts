@@ -4,6 +4,12 @@ import { safeParse, safeStringify } from '@/lib/utils/json-safe';
 import { generateClaudeQA } from '@/lib/api/claude-server';
 import { QAGeneration } from '@/types/api';
 import { logger } from '@/lib/logger';
+import {
+  isSupportedLanguage,
+  isTargetLanguage,
+  DEFAULT_TARGET_LANGUAGE,
+  SUPPORTED_LANGUAGES,
+} from '@/lib/languages';
 
 export async function POST(request: NextRequest) {
   try {
@@ -33,8 +39,11 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate language parameter
-    if (!['es', 'en'].includes(language)) {
-      return NextResponse.json({ error: 'Language must be "es" or "en"' }, { status: 400 });
+    if (!isSupportedLanguage(language)) {
+      return NextResponse.json(
+        { error: `Language must be one of: ${SUPPORTED_LANGUAGES.join(', ')}` },
+        { status: 400 }
+      );
     }
 
     logger.info(`Generating ${parsedCount} Q&A pairs in ${language}`, {
@@ -48,7 +57,10 @@ export async function POST(request: NextRequest) {
     const qaData = await generateClaudeQA(
       description,
       'medio', // Default to medium difficulty
-      parsedCount
+      parsedCount,
+      undefined,
+      // English requests keep the historical Spanish questions
+      isTargetLanguage(language) ? language : DEFAULT_TARGET_LANGUAGE
     );
 
     // Add metadata to response
@@ -99,7 +111,7 @@ export async function GET(request: NextRequest) {
       description: 'Generate Q&A pairs from image descriptions',
       parameters: {
         description: 'string (required) - The image description text',
-        language: 'string (optional) - "es" or "en", defaults to "es"',
+        language: `string (optional) - one of ${SUPPORTED_LANGUAGES.join(', ')}, defaults to "es"`,
         count: 'number (optional) - Number of Q&A pairs (1-10), defaults to 5',
       },
       response: {
@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server';
+import { withBasicAuth } from '@/lib/middleware/withAuth';
+import type { AuthenticatedRequest } from '@/lib/middleware/auth';
+import { qaService } from '@/lib/services/qaService';
+import { z } from 'zod';
+import { apiLogger } from '@/lib/logger';
+import { asLogContext } from '@/lib/utils/typeGuards';
+
+const validateSchema = z.object({
+  questionId: z.string().min(1).max(200),
+  question: z.string().max(1000).optional(),
+  userAnswer: z.string().trim().min(1).max(1000),
+  expectedAnswer: z.string().min(1).max(1000),
+  language: z.enum(['es', 'en']),
+  kind: z.enum(['free_text', 'cloze', 'multiple_choice', 'true_false', 'image_region']).optional(),
+  options: z.array(z.string().max(500)).max(10).optional(),
+  correctOption: z.number().int().min(0).optional(),
+  acceptedAnswers: z.array(z.string().max(500)).max(20).optional(),
+  imageId: z.string().uuid().optional(),
+  strictMode: z.boolean().optional(),
+});
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/qa/validate - Grade an answer and record it for the learner's
+ * weak-area stats
+ */
+async function handleValidate(request: AuthenticatedRequest) {
+  const userId = request.user?.id;
+
+  if (!userId) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  try {
+    const body = validateSchema.parse(await request.json());
+    const validation = await qaService.validateAnswer({ ...body, userId });
+
+    return NextResponse.json({ success: true, data: validation });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid answer data',
+          details: error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    apiLogger.error('Failed to validate answer:', asLogContext(error));
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to validate answer',
+        message: 'An error occurred. Please try again.',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withBasicAuth(handleValidate);
@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server';
+import { withBasicAuth } from '@/lib/middleware/withAuth';
+import type { AuthenticatedRequest } from '@/lib/middleware/auth';
+import { supabaseAdmin } from '@/lib/supabase';
+import { z } from 'zod';
+import { apiLogger } from '@/lib/logger';
+import { asLogContext } from '@/lib/utils/typeGuards';
+import { isTargetLanguage, type TargetLanguageCode } from '@/lib/languages';
+import { reviewWriting } from '@/lib/services/writingReview';
+
+const writingSchema = z.object({
+  text: z.string().trim().min(1).max(2000),
+  referenceDescription: z.string().trim().min(1).max(5000),
+  language: z.string().refine(isTargetLanguage, { message: 'Unsupported language' }).default('es'),
+  userApiKey: z.string().optional(),
+});
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/sessions/writing - Correct a learner's description of an image
+ * and compare it with the AI description and their saved vocabulary
+ */
+async function handleReviewWriting(request: AuthenticatedRequest) {
+  const userId = request.user?.id;
+
+  if (!userId) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  try {
+    const { text, referenceDescription, language, userApiKey } = writingSchema.parse(
+      await request.json()
+    );
+
+    if (!supabaseAdmin) {
+      throw new Error('Database not configured');
+    }
+
+    const review = await reviewWriting(supabaseAdmin, {
+      userId,
+      text,
+      referenceDescription,
+      language: language as TargetLanguageCode,
+      userApiKey,
+    });
+
+    return NextResponse.json({ success: true, data: review });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid writing submission', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    apiLogger.error('Failed to review writing:', asLogContext(error));
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to review writing' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withBasicAuth(handleReviewWriting);
@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import { withBasicAuth } from '@/lib/middleware/withAuth';
+import type { AuthenticatedRequest } from '@/lib/middleware/auth';
+import { z } from 'zod';
+import {
+  getRecognitionEngine,
+  recognitionErrorResponse,
+  speechRequestSchema,
+} from '@/lib/speech/engines';
+
+const querySchema = speechRequestSchema.pick({ locale: true });
+
+/** About a minute of 16 kHz mono audio; speaking answers are a sentence or two */
+const MAX_AUDIO_BYTES = 2 * 1024 * 1024;
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/speech/recognize?locale=es-MX - Transcribe a learner's spoken
+ * answer (16 kHz mono WAV body) with the server's local model
+ */
+async function handleRecognize(request: AuthenticatedRequest) {
+  const userId = request.user?.id;
+
+  if (!userId) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  try {
+    const { locale } = querySchema.parse(
+      Object.fromEntries(request.nextUrl.searchParams.entries())
+    );
+
+    if (!request.headers.get('content-type')?.startsWith('audio/wav')) {
+      return NextResponse.json(
+        { success: false, error: 'Audio must be sent as audio/wav' },
+        { status: 415 }
+      );
+    }
+
+    const audio = Buffer.from(await request.arrayBuffer());
+    if (audio.length > MAX_AUDIO_BYTES) {
+      return NextResponse.json({ success: false, error: 'Recording is too long' }, { status: 413 });
+    }
+    if (audio.length < 44 || audio.toString('ascii', 0, 4) !== 'RIFF') {
+      return NextResponse.json({ success: false, error: 'Invalid WAV audio' }, { status: 400 });
+    }
+
+    const data = await getRecognitionEngine().transcribe(audio, locale);
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid query parameters', details: error.errors },
+        { status: 400 }
+      );
+    }
+    return recognitionErrorResponse(error);
+  }
+}
+
+export const POST = withBasicAuth(handleRecognize);
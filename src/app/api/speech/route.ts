@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { withBasicAuth } from '@/lib/middleware/withAuth';
+import type { AuthenticatedRequest } from '@/lib/middleware/auth';
+import { z } from 'zod';
+import {
+  getSpeechEngine,
+  SpeechAudioCache,
+  speechErrorResponse,
+  speechRequestSchema,
+  speechResponse,
+} from '@/lib/speech/engines';
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/speech - Audio for a word, phrase or description, for browsers
+ * without a voice for the language
+ */
+async function handleSynthesize(request: AuthenticatedRequest) {
+  const userId = request.user?.id;
+
+  if (!userId) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  try {
+    const body = speechRequestSchema.parse(await request.json());
+    return speechResponse(await new SpeechAudioCache().getOrSynthesize(getSpeechEngine(), body));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid speech request', details: error.errors },
+        { status: 400 }
+      );
+    }
+    return speechErrorResponse(error);
+  }
+}
+
+export const POST = withBasicAuth(handleSynthesize);
@@ -0,0 +1,97 @@
+import { NextResponse } from 'next/server';
+import { withBasicAuth } from '@/lib/middleware/withAuth';
+import type { AuthenticatedRequest } from '@/lib/middleware/auth';
+import { supabaseAdmin } from '@/lib/supabase';
+import { z } from 'zod';
+import { getLanguage, isSpanishVariant } from '@/lib/languages';
+import {
+  getSpeechEngine,
+  SpeechAudioCache,
+  speechErrorResponse,
+  speechRequestSchema,
+  speechResponse,
+} from '@/lib/speech/engines';
+
+const querySchema = speechRequestSchema
+  .pick({ locale: true, rate: true })
+  .partial()
+  .extend({
+    rate: z.coerce.number().min(0.5).max(1.5).optional(),
+  });
+
+interface VocabularyItemAccess {
+  spanish_text: string;
+  regions: string[] | null;
+  vocabulary_lists: { created_by: string | null; is_active: boolean | null } | null;
+}
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/speech/vocabulary/[id] - Pronunciation of a saved vocabulary item.
+ * Audio is cached per item, so replays and exports do not synthesize again.
+ */
+async function handleGetPronunciation(
+  request: AuthenticatedRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const userId = request.user?.id;
+
+  if (!userId) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  if (!z.string().uuid().safeParse(id).success) {
+    return NextResponse.json({ success: false, error: 'Invalid vocabulary id' }, { status: 400 });
+  }
+
+  try {
+    const query = querySchema.parse(Object.fromEntries(request.nextUrl.searchParams.entries()));
+
+    if (!supabaseAdmin) {
+      throw new Error('Database not configured');
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('vocabulary_items')
+      .select('*, vocabulary_lists!inner(created_by, is_active)')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    const item = data as VocabularyItemAccess | null;
+    // Same access rule as the item itself: the owner's lists or public active lists
+    const list = item?.vocabulary_lists;
+    if (!item || (list?.created_by !== userId && list?.is_active !== true)) {
+      return NextResponse.json(
+        { success: false, error: 'Vocabulary item not found' },
+        { status: 404 }
+      );
+    }
+
+    // Words tied to one region are spoken with that region's accent
+    const region = item.regions?.[0];
+    const locale = query.locale ?? (isSpanishVariant(region) ? region : getLanguage('es').locale);
+
+    const speech = await new SpeechAudioCache().getOrSynthesize(
+      getSpeechEngine(),
+      { text: item.spanish_text, locale, rate: query.rate },
+      `vocabulary/${id}`
+    );
+    return speechResponse(speech);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid query parameters', details: error.errors },
+        { status: 400 }
+      );
+    }
+    return speechErrorResponse(error);
+  }
+}
+
+export const GET = withBasicAuth(handleGetPronunciation);
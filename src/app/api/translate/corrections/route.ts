@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { withBasicAuth } from '@/lib/middleware/withAuth';
+import type { AuthenticatedRequest } from '@/lib/middleware/auth';
+import { z } from 'zod';
+import { apiLogger } from '@/lib/logger';
+import { asLogContext } from '@/lib/utils/typeGuards';
+import { translationMemory } from '@/lib/services/translationMemory';
+
+export const runtime = 'nodejs';
+
+const correctionSchema = z.object({
+  listId: z.string().uuid().nullable().optional(),
+  fromLanguage: z.string().regex(/^[a-z]{2}$/),
+  toLanguage: z.string().regex(/^[a-z]{2}$/),
+  sourceText: z.string().trim().min(1).max(5000),
+  targetText: z.string().trim().min(1).max(5000),
+});
+
+/**
+ * POST /api/translate/corrections - Store the user's own translation of a text;
+ * it replaces any machine translation remembered for the same text
+ */
+async function handleCorrection(request: AuthenticatedRequest) {
+  const userId = request.user?.id;
+
+  if (!userId) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  try {
+    const { listId, ...entry } = correctionSchema.parse(await request.json());
+    const stored = await translationMemory.remember({ userId, listId }, { ...entry, origin: 'user' });
+    if (!stored) {
+      throw new Error('Translation memory is unavailable');
+    }
+
+    return NextResponse.json({ success: true }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid translation', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    apiLogger.error('Failed to store translation correction:', asLogContext(error));
+    return NextResponse.json(
+      { success: false, error: 'Failed to store translation' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withBasicAuth(handleCorrection);
@@ -0,0 +1,192 @@
+import { NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { withBasicAuth } from '@/lib/middleware/withAuth';
+import type { AuthenticatedRequest } from '@/lib/middleware/auth';
+import { supabaseAdmin } from '@/lib/supabase';
+import { z } from 'zod';
+import { apiLogger } from '@/lib/logger';
+import { asLogContext } from '@/lib/utils/typeGuards';
+import { translationMemory } from '@/lib/services/translationMemory';
+
+export const runtime = 'nodejs';
+
+const GLOSSARY_COLUMNS =
+  'id, list_id, from_language, to_language, source_term, target_term, alternatives, region, note, created_at, updated_at';
+
+const languageSchema = z.string().regex(/^[a-z]{2}$/, 'Expected a two-letter language code');
+
+const listSchema = z.object({
+  fromLanguage: languageSchema.optional(),
+  toLanguage: languageSchema.optional(),
+  listId: z.string().uuid().optional(),
+});
+
+const termSchema = z.object({
+  id: z.string().uuid().optional(),
+  listId: z.string().uuid().nullable().optional(),
+  fromLanguage: languageSchema,
+  toLanguage: languageSchema,
+  sourceTerm: z.string().trim().min(1).max(200),
+  targetTerm: z.string().trim().min(1).max(200),
+  alternatives: z.array(z.string().trim().min(1).max(200)).max(20).optional().default([]),
+  region: z
+    .string()
+    .regex(/^[a-z]{2}-[A-Z]{2}$/, 'Expected a region such as es-MX')
+    .nullable()
+    .optional(),
+  note: z.string().max(500).nullable().optional(),
+});
+
+// glossary_terms is not part of the hand-written Database type
+function getDatabase(): SupabaseClient {
+  if (!supabaseAdmin) {
+    throw new Error('Database not configured');
+  }
+  return supabaseAdmin;
+}
+
+/**
+ * GET /api/translate/glossary - The user's glossary terms
+ */
+async function handleListTerms(request: AuthenticatedRequest) {
+  const userId = request.user?.id;
+
+  if (!userId) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  try {
+    const filters = listSchema.parse(Object.fromEntries(request.nextUrl.searchParams));
+    let query = getDatabase()
+      .from('glossary_terms')
+      .select(GLOSSARY_COLUMNS)
+      .eq('user_id', userId)
+      .order('source_term');
+
+    if (filters.fromLanguage) query = query.eq('from_language', filters.fromLanguage);
+    if (filters.toLanguage) query = query.eq('to_language', filters.toLanguage);
+    if (filters.listId) query = query.or(`list_id.is.null,list_id.eq.${filters.listId}`);
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    return NextResponse.json({ success: true, data: data ?? [] });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid parameters', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    apiLogger.error('Failed to list glossary terms:', asLogContext(error));
+    return NextResponse.json({ success: false, error: 'Failed to load glossary' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/translate/glossary - Create a term, or update it when an id is given
+ */
+async function handleSaveTerm(request: AuthenticatedRequest) {
+  const userId = request.user?.id;
+
+  if (!userId) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  try {
+    const { id, ...term } = termSchema.parse(await request.json());
+    const row = {
+      user_id: userId,
+      list_id: term.listId ?? null,
+      from_language: term.fromLanguage,
+      to_language: term.toLanguage,
+      source_term: term.sourceTerm,
+      target_term: term.targetTerm,
+      alternatives: term.alternatives,
+      region: term.region ?? null,
+      note: term.note ?? null,
+    };
+
+    const db = getDatabase();
+    const { data, error } = id
+      ? await db
+          .from('glossary_terms')
+          .update(row)
+          .eq('id', id)
+          .eq('user_id', userId)
+          .select(GLOSSARY_COLUMNS)
+          .maybeSingle()
+      : await db.from('glossary_terms').insert(row).select(GLOSSARY_COLUMNS).single();
+
+    if (error?.code === '23505') {
+      return NextResponse.json(
+        { success: false, error: 'This term is already in your glossary' },
+        { status: 409 }
+      );
+    }
+    if (error) throw error;
+    if (!data) {
+      return NextResponse.json({ success: false, error: 'Term not found' }, { status: 404 });
+    }
+
+    translationMemory.invalidateGlossary(userId);
+    return NextResponse.json({ success: true, data }, { status: id ? 200 : 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid term', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    apiLogger.error('Failed to save glossary term:', asLogContext(error));
+    return NextResponse.json(
+      { success: false, error: 'Failed to save glossary term' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/translate/glossary?id= - Remove a term
+ */
+async function handleDeleteTerm(request: AuthenticatedRequest) {
+  const userId = request.user?.id;
+
+  if (!userId) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  try {
+    const id = z.string().uuid().parse(request.nextUrl.searchParams.get('id'));
+    const { data, error } = await getDatabase()
+      .from('glossary_terms')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) throw error;
+    if (!data?.length) {
+      return NextResponse.json({ success: false, error: 'Term not found' }, { status: 404 });
+    }
+
+    translationMemory.invalidateGlossary(userId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ success: false, error: 'Invalid term id' }, { status: 400 });
+    }
+
+    apiLogger.error('Failed to delete glossary term:', asLogContext(error));
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete glossary term' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withBasicAuth(handleListTerms);
+export const POST = withBasicAuth(handleSaveTerm);
+export const DELETE = withBasicAuth(handleDeleteTerm);
@@ -1,11 +1,12 @@
 /**
  * Embedding Generation API
- * Generate embeddings for text using Claude or fallback
+ * Generate embeddings for text with the configured provider or fallback
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { embeddingService } from '@/lib/vector/services/embedding';
 import { featureFlags } from '@/lib/vector/config';
+import { embeddingProviderSchema } from '@/lib/vector/schemas';
 import { logger } from '@/lib/logger';
 import { z } from 'zod';
 
@@ -15,8 +16,8 @@ export const runtime = 'nodejs';
 const embedSchema = z.object({
   text: z.string().min(1).max(10000),
   texts: z.array(z.string().min(1).max(10000)).optional(),
-  model: z.enum(['claude-3-5-sonnet-20241022', 'text-embedding-ada-002']).optional(),
-  dimensions: z.union([z.literal(1536), z.literal(768), z.literal(384)]).optional(),
+  provider: embeddingProviderSchema.optional(),
+  dimensions: z.number().int().min(8).max(4096).optional(),
 });
 
 export async function POST(request: NextRequest) {
@@ -40,8 +41,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { text, texts, model, dimensions } = validation.data;
-    const options = { model, dimensions };
+    const { text, texts, provider, dimensions } = validation.data;
+    const options = { provider, dimensions };
 
     let result;
 
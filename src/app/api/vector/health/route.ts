@@ -34,6 +34,7 @@ export async function GET(request: NextRequest) {
       status: vectorClient.isReady() ? 'healthy' : 'unhealthy',
       details: {
         connected: vectorClient.isReady(),
+        backend: config.backend,
         mockMode: !vectorClient.isReady(),
       },
     };
@@ -57,12 +58,16 @@ export async function GET(request: NextRequest) {
       const embedStart = Date.now();
       try {
         const testResult = await embeddingService.generateEmbedding('health check');
+        const provider = embeddingService.getProvider();
+        // A result from another model means the provider failed over to hashing
+        const usingProvider = testResult.model === provider.model;
         services.push({
           name: 'EmbeddingService',
-          status: testResult.vector.length > 0 ? 'healthy' : 'degraded',
+          status: testResult.vector.length > 0 && usingProvider ? 'healthy' : 'degraded',
           latencyMs: Date.now() - embedStart,
           details: detailed
             ? {
+                provider: provider.name,
                 dimensions: testResult.dimensions,
                 model: testResult.model,
                 cached: testResult.cached,
@@ -0,0 +1,135 @@
+/**
+ * Re-embedding API
+ * Rebuild the vocabulary and description collections with the current
+ * embedding provider, after the provider, model or dimensions change.
+ * Admin only: it replaces every stored vector.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { initializeVectorClient } from '@/lib/vector/client';
+import { featureFlags, getVectorConfig } from '@/lib/vector/config';
+import { embeddingService } from '@/lib/vector/services/embedding';
+import {
+  reembeddingService,
+  type ReembedResult,
+  type ReembedSource,
+} from '@/lib/vector/services/reembedding';
+import { logger } from '@/lib/logger';
+import { isAdminRequest } from '@/lib/middleware/auth';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+export const maxDuration = 300;
+
+const reembedSchema = z.object({
+  collections: z
+    .array(z.enum(['vocabulary', 'descriptions']))
+    .min(1)
+    .default(['vocabulary', 'descriptions']),
+});
+
+type ReembedCollection = z.infer<typeof reembedSchema>['collections'][number];
+
+type VocabularySourceRow = {
+  id: string;
+  spanish_text: string;
+  english_translation: string;
+  vocabulary_list_id: string | null;
+  category: string | null;
+};
+
+type DescriptionSourceRow = {
+  id: string;
+  description_spanish: string;
+  image_id: string | null;
+  style: string;
+};
+
+async function loadSources(collection: ReembedCollection): Promise<ReembedSource[]> {
+  if (!supabaseAdmin) {
+    throw new Error('Database not configured');
+  }
+
+  if (collection === 'vocabulary') {
+    const { data, error } = await supabaseAdmin
+      .from('vocabulary_items')
+      .select('id, spanish_text, english_translation, vocabulary_list_id, category');
+    if (error) throw error;
+
+    return ((data || []) as VocabularySourceRow[]).map(item => ({
+      id: item.id,
+      text: `${item.spanish_text} — ${item.english_translation}`,
+      metadata: {
+        spanish: item.spanish_text,
+        english: item.english_translation,
+        listId: item.vocabulary_list_id,
+        category: item.category,
+      },
+    }));
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('descriptions')
+    .select('id, description_spanish, image_id, style');
+  if (error) throw error;
+
+  return ((data || []) as DescriptionSourceRow[]).map(description => ({
+    id: description.id,
+    text: description.description_spanish,
+    metadata: { imageId: description.image_id, style: description.style },
+  }));
+}
+
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const startTime = Date.now();
+
+  try {
+    if (!featureFlags.useVectorSearch()) {
+      return NextResponse.json(
+        { error: 'Vector features are not enabled', code: 'FEATURE_DISABLED' },
+        { status: 503 }
+      );
+    }
+
+    const validation = reembedSchema.safeParse(await request.json().catch(() => ({})));
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    await initializeVectorClient();
+
+    const config = getVectorConfig();
+    const results: ReembedResult[] = [];
+    for (const collection of validation.data.collections) {
+      const sources = await loadSources(collection);
+      results.push(
+        await reembeddingService.reembedCollection(config.collections[collection], sources)
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      fingerprint: embeddingService.getFingerprint(),
+      results,
+      latencyMs: Date.now() - startTime,
+    });
+  } catch (error) {
+    logger.error('[ReembedAPI] Re-embedding failed', error);
+    return NextResponse.json(
+      {
+        error: 'Re-embedding failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
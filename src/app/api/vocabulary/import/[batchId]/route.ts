@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { withBasicAuth } from '@/lib/middleware/withAuth';
+import type { AuthenticatedRequest } from '@/lib/middleware/auth';
+import { supabaseAdmin } from '@/lib/supabase';
+import { z } from 'zod';
+import { apiLogger } from '@/lib/logger';
+import { asLogContext } from '@/lib/utils/typeGuards';
+import type { ImportUndoReport } from '@/lib/import/importPlan';
+
+export const runtime = 'nodejs';
+
+/**
+ * DELETE /api/vocabulary/import/[batchId] - Undo a whole import: remove the
+ * items it added and restore the items it changed
+ */
+async function handleUndoImport(
+  request: AuthenticatedRequest,
+  { params }: { params: Promise<{ batchId: string }> }
+) {
+  const { batchId } = await params;
+  const userId = request.user?.id;
+
+  if (!userId) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  if (!z.string().uuid().safeParse(batchId).success) {
+    return NextResponse.json({ success: false, error: 'Invalid import id' }, { status: 400 });
+  }
+
+  try {
+    if (!supabaseAdmin) {
+      throw new Error('Database not configured');
+    }
+
+    const { data, error } = await supabaseAdmin.rpc('undo_vocabulary_import', {
+      p_user_id: userId,
+      p_batch_id: batchId,
+    } as never);
+
+    if (error) {
+      if (/not found|already been undone/.test(error.message)) {
+        return NextResponse.json({ success: false, error: error.message }, { status: 409 });
+      }
+      throw error;
+    }
+
+    const report = data as ImportUndoReport;
+    apiLogger.info('Vocabulary import undone', { userId, ...report });
+
+    return NextResponse.json({ success: true, data: report });
+  } catch (error) {
+    apiLogger.error('Failed to undo vocabulary import:', asLogContext(error));
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to undo import',
+        message: 'An error occurred. Please try again.',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const DELETE = withBasicAuth(handleUndoImport, {
+  requiredFeatures: ['vocabulary_save'],
+});
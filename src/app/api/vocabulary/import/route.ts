@@ -0,0 +1,219 @@
+import { NextResponse } from 'next/server';
+import { withBasicAuth } from '@/lib/middleware/withAuth';
+import type { AuthenticatedRequest } from '@/lib/middleware/auth';
+import { supabaseAdmin } from '@/lib/supabase';
+import { z } from 'zod';
+import { apiLogger } from '@/lib/logger';
+import { asLogContext } from '@/lib/utils/typeGuards';
+import type { ImportCommitReport } from '@/lib/import/importPlan';
+
+const PARTS_OF_SPEECH = [
+  'noun',
+  'verb',
+  'adjective',
+  'adverb',
+  'preposition',
+  'article',
+  'pronoun',
+  'conjunction',
+  'interjection',
+  'other',
+] as const;
+
+const columnsSchema = z.object({
+  spanish_text: z.string().trim().min(1).max(500),
+  english_translation: z.string().trim().min(1).max(500),
+  part_of_speech: z.enum(PARTS_OF_SPEECH),
+  difficulty_level: z.enum(['beginner', 'intermediate', 'advanced']),
+  category: z.string().max(100).nullable(),
+  context_sentence_spanish: z.string().nullable(),
+  usage_notes: z.string().nullable(),
+});
+
+// Import commits are capped so one request stays one reasonable transaction
+const MAX_IMPORT_ITEMS = 5000;
+const MAX_REVIEWS_PER_ITEM = 1000;
+
+const reviewSchema = z.object({
+  id: z.string().uuid().optional(),
+  spanish_text: z.string().trim().min(1).max(500),
+  schedule: z.object({
+    ease_factor: z.number().positive().max(99),
+    interval: z.number().int().min(0),
+    repetitions: z.number().int().min(0),
+    last_review_date: z.string().datetime({ offset: true }).nullable(),
+    next_review_date: z.string().datetime({ offset: true }),
+    fsrs_stability: z.number().positive().nullable(),
+    fsrs_difficulty: z.number().min(1).max(10).nullable(),
+  }),
+  history: z
+    .array(
+      z.object({
+        quality: z.number().int().min(0).max(5),
+        reviewed_at: z.string().datetime({ offset: true }),
+      })
+    )
+    .max(MAX_REVIEWS_PER_ITEM),
+});
+
+const commitSchema = z.object({
+  listId: z.string().uuid().optional(),
+  listName: z.string().max(255).optional(),
+  format: z.string().min(1).max(20),
+  fileName: z.string().max(255).optional(),
+  inserts: z.array(columnsSchema).max(MAX_IMPORT_ITEMS),
+  updates: z
+    .array(
+      z.object({
+        id: z.string().uuid(),
+        changes: columnsSchema.omit({ spanish_text: true }).partial(),
+      })
+    )
+    .max(MAX_IMPORT_ITEMS),
+  reviews: z.array(reviewSchema).max(MAX_IMPORT_ITEMS).default([]),
+});
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/vocabulary/import - The user's existing vocabulary, for matching
+ * imported items against before they are committed
+ */
+async function handleGetExisting(request: AuthenticatedRequest) {
+  const userId = request.user?.id;
+
+  if (!userId) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  try {
+    if (!supabaseAdmin) {
+      throw new Error('Database not configured');
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('vocabulary_items')
+      .select(
+        `
+        id,
+        vocabulary_list_id,
+        spanish_text,
+        english_translation,
+        part_of_speech,
+        category,
+        context_sentence_spanish,
+        usage_notes,
+        vocabulary_lists!inner(created_by)
+      `
+      )
+      .eq('vocabulary_lists.created_by', userId);
+
+    if (error) {
+      throw error;
+    }
+
+    const items = (data || []).map(({ vocabulary_lists: _list, ...item }: any) => item);
+
+    return NextResponse.json({ success: true, data: items });
+  } catch (error) {
+    apiLogger.error('Failed to load vocabulary for import:', asLogContext(error));
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to load existing vocabulary',
+        message: 'An error occurred. Please try again.',
+      },
+      { status: 500, headers: { 'Retry-After': '30' } }
+    );
+  }
+}
+
+/**
+ * POST /api/vocabulary/import - Commit a resolved import in one transaction
+ */
+async function handleCommitImport(request: AuthenticatedRequest) {
+  const startTime = performance.now();
+  const userId = request.user?.id;
+
+  if (!userId) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  try {
+    const body = commitSchema.parse(await request.json());
+
+    if (!supabaseAdmin) {
+      throw new Error('Database not configured');
+    }
+
+    const { data, error } = await supabaseAdmin.rpc('commit_vocabulary_import', {
+      p_user_id: userId,
+      p_list_id: body.listId ?? null,
+      p_list_name: body.listName ?? null,
+      p_source_format: body.format,
+      p_file_name: body.fileName ?? null,
+      p_inserts: body.inserts,
+      p_updates: body.updates,
+      p_reviews: body.reviews,
+    } as never);
+
+    if (error) {
+      throw error;
+    }
+
+    const report = data as ImportCommitReport;
+    const responseTime = performance.now() - startTime;
+
+    apiLogger.info('Vocabulary import committed', {
+      userId,
+      batchId: report.batchId,
+      inserted: report.inserted,
+      updated: report.updated,
+      scheduled: report.scheduled,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: report,
+        metadata: {
+          responseTime: `${responseTime.toFixed(2)}ms`,
+          timestamp: new Date().toISOString(),
+          userId,
+        },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid import data',
+          details: error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    apiLogger.error('Failed to commit vocabulary import:', asLogContext(error));
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to import vocabulary',
+        message: 'Nothing was imported. Please try again.',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withBasicAuth(handleGetExisting, {
+  requiredFeatures: ['vocabulary_save'],
+});
+
+export const POST = withBasicAuth(handleCommitImport, {
+  requiredFeatures: ['vocabulary_save'],
+});
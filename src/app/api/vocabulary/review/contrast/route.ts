@@ -0,0 +1,162 @@
+import { NextResponse } from 'next/server';
+import { withBasicAuth } from '@/lib/middleware/withAuth';
+import type { AuthenticatedRequest } from '@/lib/middleware/auth';
+import { supabaseAdmin } from '@/lib/supabase';
+import { z } from 'zod';
+import { apiLogger } from '@/lib/logger';
+import { asLogContext } from '@/lib/utils/typeGuards';
+import { learningService } from '@/lib/vector/services/learning';
+import { graphService } from '@/lib/vector/services/graph';
+import { buildContrastDrills, type ContrastWord } from '@/lib/utils/contrastDrills';
+
+const querySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(10).default(5),
+});
+
+const outcomesSchema = z.object({
+  outcomes: z
+    .array(
+      z
+        .object({
+          word1Id: z.string().min(1),
+          word2Id: z.string().min(1),
+          correct: z.number().int().min(0),
+          total: z.number().int().min(0).max(50),
+        })
+        .refine(outcome => outcome.correct <= outcome.total, {
+          message: 'correct cannot exceed total',
+        })
+    )
+    .min(1)
+    .max(10),
+});
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/vocabulary/review/contrast - Contrast drills for the user's most
+ * confused word pairs
+ */
+async function handleGetDrills(request: AuthenticatedRequest) {
+  const userId = request.user?.id;
+
+  if (!userId) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  try {
+    const { limit } = querySchema.parse(
+      Object.fromEntries(new URL(request.url).searchParams.entries())
+    );
+
+    if (!supabaseAdmin) {
+      throw new Error('Database not configured');
+    }
+
+    const pairs = (await learningService.getConfusionPairs(userId)).filter(
+      pair => pair.word1Id && pair.word2Id
+    );
+    if (pairs.length === 0) {
+      return NextResponse.json({ success: true, data: [] });
+    }
+
+    // The graph only knows the words; sentences and translations live with the items
+    const ids = [...new Set(pairs.flatMap(pair => [pair.word1Id, pair.word2Id]))];
+    const { data, error } = await supabaseAdmin
+      .from('vocabulary_items')
+      .select(
+        `
+        id,
+        spanish_text,
+        english_translation,
+        context_sentence_spanish,
+        context_sentence_english,
+        usage_notes,
+        vocabulary_lists!inner(created_by)
+      `
+      )
+      .in('id', ids)
+      .eq('vocabulary_lists.created_by', userId);
+
+    if (error) {
+      throw error;
+    }
+
+    const details = new Map<string, ContrastWord>(
+      (data || []).map((item: any) => [
+        item.id,
+        {
+          id: item.id,
+          text: item.spanish_text,
+          translation: item.english_translation,
+          context: item.context_sentence_spanish,
+          contextTranslation: item.context_sentence_english,
+          usageNotes: item.usage_notes,
+        },
+      ])
+    );
+
+    return NextResponse.json({ success: true, data: buildContrastDrills(pairs, details, limit) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid query parameters', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    apiLogger.error('Failed to build contrast drills:', asLogContext(error));
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to load contrast drills' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/vocabulary/review/contrast - Feed drill results back into the
+ * confusion graph
+ */
+async function handleRecordOutcomes(request: AuthenticatedRequest) {
+  const userId = request.user?.id;
+
+  if (!userId) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  try {
+    const { outcomes } = outcomesSchema.parse(await request.json());
+
+    const data = [];
+    for (const outcome of outcomes) {
+      const confusionRate = await graphService.recordContrastOutcome(
+        userId,
+        outcome.word1Id,
+        outcome.word2Id,
+        outcome
+      );
+      data.push({ word1Id: outcome.word1Id, word2Id: outcome.word2Id, confusionRate });
+    }
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid drill results', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    apiLogger.error('Failed to record contrast drill results:', asLogContext(error));
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to record drill results' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withBasicAuth(handleGetDrills);
+
+export const POST = withBasicAuth(handleRecordOutcomes);
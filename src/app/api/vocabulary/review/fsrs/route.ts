@@ -0,0 +1,131 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { withBasicAuth } from '@/lib/middleware/withAuth';
+import type { AuthenticatedRequest } from '@/lib/middleware/auth';
+import { apiLogger, dbLogger } from '@/lib/logger';
+import {
+  evaluateFSRS,
+  fitFSRSParameters,
+  reviewLogsFromHistory,
+} from '@/lib/algorithms/fsrs-optimizer';
+import {
+  ReviewSchedulingService,
+  type StoredFSRSParameters,
+} from '@/lib/services/reviewSchedulingService';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || ''
+);
+
+const scheduling = new ReviewSchedulingService(supabase);
+
+/**
+ * Compare the recall FSRS predicted for each past review with what the
+ * learner actually remembered, using the user's current parameters
+ */
+async function handleEvaluate(request: AuthenticatedRequest) {
+  try {
+    const userId = request.user?.id;
+
+    if (!userId) {
+      return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+    }
+
+    const [rows, settings] = await Promise.all([
+      scheduling.getReviewHistory(userId),
+      scheduling.getUserSchedulingSettings(userId),
+    ]);
+
+    const evaluation = evaluateFSRS(
+      reviewLogsFromHistory(rows),
+      settings.fsrsWeights,
+      settings.requestRetention
+    );
+
+    return NextResponse.json({
+      weights: settings.fsrsWeights,
+      requestRetention: settings.requestRetention,
+      evaluation,
+    });
+  } catch (error) {
+    apiLogger.error('Error evaluating FSRS parameters', error instanceof Error ? error : new Error(String(error)), { endpoint: '/api/vocabulary/review/fsrs' });
+    return NextResponse.json(
+      { error: 'Failed to evaluate FSRS parameters' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Fit FSRS parameters to the user's review_history and store them in
+ * user_settings
+ */
+async function handleFit(request: AuthenticatedRequest) {
+  try {
+    const userId = request.user?.id;
+
+    if (!userId) {
+      return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+    }
+
+    const [rows, settings] = await Promise.all([
+      scheduling.getReviewHistory(userId),
+      scheduling.getUserSchedulingSettings(userId),
+    ]);
+
+    const result = fitFSRSParameters(reviewLogsFromHistory(rows), {
+      initialWeights: settings.fsrsWeights,
+      requestRetention: settings.requestRetention,
+    });
+
+    if (!result.fitted) {
+      return NextResponse.json({
+        fitted: false,
+        message: 'Not enough review history to fit personal parameters yet',
+        evaluation: result.before,
+      });
+    }
+
+    const parameters: StoredFSRSParameters = {
+      weights: result.weights,
+      fittedAt: new Date().toISOString(),
+      sampleSize: result.after.sampleSize,
+      logLoss: result.after.logLoss,
+      rmse: result.after.rmse,
+    };
+
+    const { error: updateError } = await supabase
+      .from('user_settings')
+      .upsert(
+        {
+          user_id: userId,
+          fsrs_parameters: parameters,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'user_id' }
+      );
+
+    if (updateError) {
+      dbLogger.error('Failed to store FSRS parameters', updateError, { context: 'vocabulary-review-fsrs' });
+      throw updateError;
+    }
+
+    return NextResponse.json({
+      fitted: true,
+      weights: result.weights,
+      iterations: result.iterations,
+      before: result.before,
+      after: result.after,
+    });
+  } catch (error) {
+    apiLogger.error('Error fitting FSRS parameters', error instanceof Error ? error : new Error(String(error)), { endpoint: '/api/vocabulary/review/fsrs' });
+    return NextResponse.json(
+      { error: 'Failed to fit FSRS parameters' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withBasicAuth(handleEvaluate);
+export const POST = withBasicAuth(handleFit);
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { withBasicAuth } from '@/lib/middleware/withAuth';
+import type { AuthenticatedRequest } from '@/lib/middleware/auth';
+import { apiLogger } from '@/lib/logger';
+import { ReviewSchedulingService } from '@/lib/services/reviewSchedulingService';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || ''
+);
+
+const scheduling = new ReviewSchedulingService(supabase);
+
+/**
+ * Recompute every vocabulary item's schedule from review_history with the
+ * user's current algorithm. Call after refitting FSRS parameters.
+ */
+async function handleReplay(request: AuthenticatedRequest) {
+  try {
+    const userId = request.user?.id;
+
+    if (!userId) {
+      return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+    }
+    const result = await scheduling.replayUserSchedules(userId);
+
+    return NextResponse.json({
+      success: result.failed.length === 0,
+      ...result,
+    });
+  } catch (error) {
+    apiLogger.error('Error replaying review history', error instanceof Error ? error : new Error(String(error)), { endpoint: '/api/vocabulary/review/replay' });
+    return NextResponse.json(
+      { error: 'Failed to replay review history' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withBasicAuth(handleReplay);
@@ -1,126 +1,144 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import { withBasicAuth } from '@/lib/middleware/withAuth';
+import type { AuthenticatedRequest } from '@/lib/middleware/auth';
 import { apiLogger, dbLogger } from '@/lib/logger';
+import {
+  ReviewSchedulingService,
+  REVIEW_ROW_COLUMNS,
+  DUE_REVIEW_COLUMNS,
+  cardFromReviewRow,
+  reviewRowFromCard,
+  reviewPoints,
+  type VocabularyReviewRow,
+} from '@/lib/services/reviewSchedulingService';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL || '',
   process.env.SUPABASE_SERVICE_ROLE_KEY || ''
 );
 
-interface ReviewPayload {
-  itemId: string;
-  quality: number;
-  easeFactor: number;
-  interval: number;
-  repetitions: number;
-  nextReviewDate: string;
-}
+const scheduling = new ReviewSchedulingService(supabase);
+
+const MAX_DUE_CARDS = 100;
+
+/**
+ * Clients only report what happened; the next review state is always
+ * computed here with the user's configured algorithm
+ */
+const reviewPayloadSchema = z
+  .object({
+    itemId: z.string().min(1),
+    quality: z.number().int().min(0).max(5),
+    responseTimeMs: z.number().int().min(0).max(3_600_000).optional(),
+  })
+  .strict();
+
+async function handleReview(request: AuthenticatedRequest) {
+  const userId = request.user?.id;
+
+  if (!userId) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
 
-export async function POST(request: NextRequest) {
   try {
-    const userId = request.headers.get('x-user-id') || 'demo-user';
-    const body: ReviewPayload = await request.json();
+    const parsed = reviewPayloadSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid review payload',
+          details: parsed.error.errors.map((e) => ({
+            field: e.path.join('.'),
+            message: e.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
 
-    const {
-      itemId,
-      quality,
-      easeFactor,
-      interval,
-      repetitions,
-      nextReviewDate,
-    } = body;
+    const { itemId, quality, responseTimeMs } = parsed.data;
 
-    // Update vocabulary item with new review data
-    const { error: updateError } = await supabase
+    const { data: item, error: itemError } = await supabase
       .from('user_vocabulary')
-      .update({
-        ease_factor: easeFactor,
-        interval,
-        repetitions,
-        next_review_date: nextReviewDate,
-        last_review_date: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      })
+      .select(REVIEW_ROW_COLUMNS)
       .eq('id', itemId)
-      .eq('user_id', userId);
+      .eq('user_id', userId)
+      .single();
 
-    if (updateError) {
-      throw updateError;
+    if (itemError || !item) {
+      return NextResponse.json(
+        { error: 'Vocabulary item not found' },
+        { status: 404 }
+      );
     }
 
-    // Record review in history
+    const algorithm = await scheduling.getAlgorithmForUser(userId);
+    const reviewedAt = new Date();
+    const updatedCard = algorithm.updateCard(
+      cardFromReviewRow(item as VocabularyReviewRow),
+      quality,
+      reviewedAt
+    );
+    const reviewState = reviewRowFromCard(updatedCard);
+
+    // Record review in history first; grades and timestamps are what get
+    // replayed, so a review missing from it would be lost on the next sync
     const { error: historyError } = await supabase
       .from('review_history')
       .insert({
         user_id: userId,
         vocabulary_id: itemId,
         quality,
-        ease_factor: easeFactor,
-        interval,
-        created_at: new Date().toISOString(),
+        ease_factor: reviewState.ease_factor,
+        interval: reviewState.interval,
+        response_time_ms: responseTimeMs ?? null,
+        algorithm: algorithm.name,
+        created_at: reviewedAt.toISOString(),
       });
 
     if (historyError) {
-      dbLogger.error('Failed to record review history', historyError, { context: 'vocabulary-review' });
+      throw historyError;
     }
 
-    // Update daily progress
-    const today = new Date().toISOString().split('T')[0];
-    const points = quality >= 3 ? 10 : 5; // Award points based on quality
-
-    const { data: existingProgress } = await supabase
-      .from('daily_progress')
-      .select('*')
-      .eq('user_id', userId)
-      .eq('date', today)
-      .single();
+    // Update vocabulary item with new review data
+    const { error: updateError } = await supabase
+      .from('user_vocabulary')
+      .update({
+        ...reviewState,
+        updated_at: reviewedAt.toISOString(),
+      })
+      .eq('id', itemId)
+      .eq('user_id', userId);
 
-    if (existingProgress) {
-      await supabase
-        .from('daily_progress')
-        .update({
-          points: existingProgress.points + points,
-          reviews: existingProgress.reviews + 1,
-        })
-        .eq('user_id', userId)
-        .eq('date', today);
-    } else {
-      await supabase.from('daily_progress').insert({
-        user_id: userId,
-        date: today,
-        points,
-        reviews: 1,
-        words_learned: 0,
-      });
+    if (updateError) {
+      throw updateError;
     }
 
-    // Update user progress totals
-    const { data: userProgress } = await supabase
-      .from('user_progress')
-      .select('*')
-      .eq('user_id', userId)
-      .single();
+    // Points, review counts and the streak are updated in one atomic call
+    const points = reviewPoints(quality);
+    const { data: progress, error: progressError } = await supabase.rpc('record_review_progress', {
+      p_user_id: userId,
+      p_days: [{ date: reviewedAt.toISOString().split('T')[0], points, reviews: 1 }],
+    });
 
-    if (userProgress) {
-      await supabase
-        .from('user_progress')
-        .update({
-          total_points: userProgress.total_points + points,
-          total_reviews: userProgress.total_reviews + 1,
-        })
-        .eq('user_id', userId);
-    } else {
-      await supabase.from('user_progress').insert({
-        user_id: userId,
-        total_points: points,
-        total_reviews: 1,
-        current_streak: 1,
-      });
+    if (progressError) {
+      dbLogger.error('Failed to record review progress', progressError, { context: 'vocabulary-review' });
     }
 
     return NextResponse.json({
       success: true,
-      pointsEarned: points,
+      pointsEarned: progressError ? 0 : points,
+      progressRecorded: !progressError,
+      currentStreak: (progress as { currentStreak?: number } | null)?.currentStreak,
+      algorithm: algorithm.name,
+      schedule: {
+        easeFactor: reviewState.ease_factor,
+        interval: reviewState.interval,
+        repetitions: reviewState.repetitions,
+        nextReviewDate: reviewState.next_review_date,
+      },
     });
   } catch (error) {
     apiLogger.error('Error saving review', error instanceof Error ? error : new Error(String(error)), { endpoint: '/api/vocabulary/review' });
@@ -131,20 +149,29 @@ export async function POST(request: NextRequest) {
   }
 }
 
-export async function GET(request: NextRequest) {
+async function handleGetDue(request: AuthenticatedRequest) {
+  const userId = request.user?.id;
+
+  if (!userId) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
   try {
-    const userId = request.headers.get('x-user-id') || 'demo-user';
 
     // Get vocabulary items due for review
     const now = new Date().toISOString();
+    const limit = Math.min(
+      Math.max(Number(request.nextUrl.searchParams.get('limit')) || 20, 1),
+      MAX_DUE_CARDS
+    );
 
     const { data: dueItems, error } = await supabase
       .from('user_vocabulary')
-      .select('*')
+      .select(DUE_REVIEW_COLUMNS)
       .eq('user_id', userId)
       .or(`next_review_date.is.null,next_review_date.lte.${now}`)
       .order('next_review_date', { ascending: true })
-      .limit(20);
+      .limit(limit);
 
     if (error) {
       throw error;
@@ -162,3 +189,6 @@ export async function GET(request: NextRequest) {
     );
   }
 }
+
+export const POST = withBasicAuth(handleReview);
+export const GET = withBasicAuth(handleGetDue);
@@ -0,0 +1,95 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import { withBasicAuth } from '@/lib/middleware/withAuth';
+import type { AuthenticatedRequest } from '@/lib/middleware/auth';
+import { apiLogger } from '@/lib/logger';
+import {
+  isSchedulingAlgorithmName,
+  type SchedulingAlgorithmName,
+} from '@/lib/algorithms/scheduler';
+import { ReviewSchedulingService } from '@/lib/services/reviewSchedulingService';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || ''
+);
+
+const scheduling = new ReviewSchedulingService(supabase);
+
+const schedulingSettingsSchema = z.object({
+  algorithm: z.custom<SchedulingAlgorithmName>(
+    isSchedulingAlgorithmName,
+    'Unknown scheduling algorithm'
+  ),
+  requestRetention: z.number().min(0.7).max(0.99).optional(),
+});
+
+async function handleGetSettings(request: AuthenticatedRequest) {
+  try {
+    const userId = request.user?.id;
+
+    if (!userId) {
+      return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+    }
+    const settings = await scheduling.getUserSchedulingSettings(userId);
+
+    return NextResponse.json({
+      algorithm: settings.algorithm,
+      requestRetention: settings.requestRetention,
+    });
+  } catch (error) {
+    apiLogger.error('Error fetching scheduling settings', error instanceof Error ? error : new Error(String(error)), { endpoint: '/api/vocabulary/review/settings' });
+    return NextResponse.json(
+      { error: 'Failed to fetch scheduling settings' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Switch the user's scheduling algorithm and rebuild existing schedules from
+ * review history so every card follows the new algorithm immediately
+ */
+async function handleUpdateSettings(request: AuthenticatedRequest) {
+  try {
+    const userId = request.user?.id;
+
+    if (!userId) {
+      return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+    }
+    const parsed = schedulingSettingsSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid scheduling settings' },
+        { status: 400 }
+      );
+    }
+
+    const previous = await scheduling.getUserSchedulingSettings(userId);
+    const { algorithm, requestRetention } = parsed.data;
+
+    await scheduling.setSchedulingAlgorithm(userId, algorithm, requestRetention);
+
+    const changed =
+      previous.algorithm !== algorithm ||
+      (requestRetention !== undefined && previous.requestRetention !== requestRetention);
+    const replay = changed ? await scheduling.replayUserSchedules(userId) : null;
+
+    return NextResponse.json({
+      success: true,
+      algorithm,
+      replay,
+    });
+  } catch (error) {
+    apiLogger.error('Error updating scheduling settings', error instanceof Error ? error : new Error(String(error)), { endpoint: '/api/vocabulary/review/settings' });
+    return NextResponse.json(
+      { error: 'Failed to update scheduling settings' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withBasicAuth(handleGetSettings);
+export const PUT = withBasicAuth(handleUpdateSettings);
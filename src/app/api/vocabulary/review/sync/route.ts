@@ -0,0 +1,133 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import { withBasicAuth } from '@/lib/middleware/withAuth';
+import type { AuthenticatedRequest } from '@/lib/middleware/auth';
+import { apiLogger } from '@/lib/logger';
+import {
+  DUE_REVIEW_COLUMNS,
+  ReviewSchedulingService,
+} from '@/lib/services/reviewSchedulingService';
+import { ReviewSyncService } from '@/lib/services/reviewSyncService';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || ''
+);
+
+const reviewSync = new ReviewSyncService(supabase, new ReviewSchedulingService(supabase));
+
+const MAX_EVENTS_PER_UPLOAD = 200;
+const MAX_OFFLINE_DAYS = 14;
+const MAX_OFFLINE_CARDS = 500;
+
+/**
+ * Offline reviews carry the same fields as an online review plus the event
+ * id and the time the grade was given
+ */
+const syncPayloadSchema = z
+  .object({
+    deviceId: z.string().min(1).max(100),
+    events: z
+      .array(
+        z
+          .object({
+            eventId: z.string().min(1).max(100),
+            itemId: z.string().min(1),
+            quality: z.number().int().min(0).max(5),
+            responseTimeMs: z.number().int().min(0).max(3_600_000).optional(),
+            reviewedAt: z.string().datetime({ offset: true }),
+          })
+          .strict()
+      )
+      .max(MAX_EVENTS_PER_UPLOAD),
+  })
+  .strict();
+
+/**
+ * Upload reviews recorded offline. Each event gets its own result so the
+ * client knows which ones to drop, retry or surface to the learner.
+ */
+async function handleSync(request: AuthenticatedRequest) {
+  try {
+    const userId = request.user?.id;
+
+    if (!userId) {
+      return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+    }
+    const parsed = syncPayloadSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid sync payload',
+          details: parsed.error.errors.map((e) => ({
+            field: e.path.join('.'),
+            message: e.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const report = await reviewSync.applyEvents(userId, parsed.data.deviceId, parsed.data.events);
+
+    return NextResponse.json({
+      success:
+        report.progressRecorded && report.results.every((result) => result.status !== 'failed'),
+      ...report,
+    });
+  } catch (error) {
+    apiLogger.error('Error syncing offline reviews', error instanceof Error ? error : new Error(String(error)), { endpoint: '/api/vocabulary/review/sync' });
+    return NextResponse.json(
+      { error: 'Failed to sync reviews' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Cards due now or within the next `days` days, for reviewing offline
+ */
+async function handleGetOfflineCards(request: AuthenticatedRequest) {
+  try {
+    const userId = request.user?.id;
+
+    if (!userId) {
+      return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+    }
+    const days = Math.min(
+      Math.max(Number(request.nextUrl.searchParams.get('days')) || 3, 0),
+      MAX_OFFLINE_DAYS
+    );
+    const horizon = new Date(Date.now() + days * 86400000).toISOString();
+
+    const { data: items, error } = await supabase
+      .from('user_vocabulary')
+      .select(DUE_REVIEW_COLUMNS)
+      .eq('user_id', userId)
+      .or(`next_review_date.is.null,next_review_date.lte.${horizon}`)
+      .order('next_review_date', { ascending: true })
+      .limit(MAX_OFFLINE_CARDS);
+
+    if (error) {
+      throw error;
+    }
+
+    return NextResponse.json({
+      items: items || [],
+      count: items?.length || 0,
+      horizon,
+      fetchedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    apiLogger.error('Error fetching offline review cards', error instanceof Error ? error : new Error(String(error)), { endpoint: '/api/vocabulary/review/sync' });
+    return NextResponse.json(
+      { error: 'Failed to fetch review cards' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withBasicAuth(handleSync);
+export const GET = withBasicAuth(handleGetOfflineCards);
@@ -0,0 +1,15 @@
+'use client';
+
+import { StudentClasses } from '@/components/Classroom';
+import { useAuth } from '@/providers/AuthProvider';
+
+export default function ClassesPage() {
+  const { user } = useAuth();
+
+  return (
+    <main className='container mx-auto max-w-4xl p-6 space-y-6'>
+      <h1 className='text-2xl font-bold'>My classes</h1>
+      <StudentClasses userId={user?.id} />
+    </main>
+  );
+}
@@ -3,6 +3,7 @@ import './globals.css';
 import './motion-fix.css';
 import { Providers } from './providers';
 import OfflineIndicator from '@/components/OfflineIndicator';
+import TabSyncManager from '@/components/TabSync/TabSyncManager';
 import Script from 'next/script';
 import PerformanceBudget from '@/components/Performance/PerformanceBudget';
 import { SentryErrorBoundary } from '@/components/ErrorBoundary/SentryErrorBoundary';
@@ -67,6 +68,7 @@ export default function RootLayout({ children }: { children: React.ReactNode })
           <Providers>
             {children}
             <OfflineIndicator />
+            <TabSyncManager />
             <PerformanceBudget />
           </Providers>
         </SentryErrorBoundary>
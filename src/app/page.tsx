@@ -13,6 +13,7 @@ import {
   Brain,
   TrendingUp,
   CreditCard,
+  PenLine,
 } from 'lucide-react';
 import { LazyWrapper, preloadCriticalComponents } from '@/components/LazyComponents';
 import { usePerformanceMonitor } from '@/hooks/usePerformanceMonitor';
@@ -73,10 +74,17 @@ const LazyFlashcardReview = React.lazy(() =>
   })
 );
 
+const LazyWritingExercise = React.lazy(() =>
+  import('@/components/Practice/WritingExercise').catch(error => {
+    logger.error('[DYNAMIC IMPORT] Failed to load WritingExercise:', error);
+    throw error;
+  })
+);
+
 import { SettingsModal } from '@/components/SettingsModal';
 
 interface HomePageState {
-  activeTab: 'search' | 'description' | 'qa' | 'phrases' | 'progress' | 'flashcard';
+  activeTab: 'search' | 'description' | 'qa' | 'phrases' | 'writing' | 'progress' | 'flashcard';
   selectedImage: any;
   searchQuery: string;
   showSettings: boolean;
@@ -129,10 +137,16 @@ const HomePageBase: React.FC = () => {
   const {
     descriptions,
     isLoading: isGenerating,
+    isStreaming,
     error: descriptionError,
-    generateDescription,
+    generateDescriptionStream,
+    cancelGeneration,
   } = descriptionsHook;
 
+  const spanishDescription =
+    descriptions.find((d: any) => d.language === 'spanish' && d.style === state.selectedStyle)
+      ?.content || null;
+
   // Memoized callbacks to prevent unnecessary re-renders
   const handleTabChange = useCallback((tab: HomePageState['activeTab']) => {
     setState(prev => ({ ...prev, activeTab: tab }));
@@ -168,12 +182,14 @@ const HomePageBase: React.FC = () => {
 
   const handleGenerateDescriptions = useCallback(() => {
     if (state.selectedImage && state.selectedStyle) {
-      generateDescription({
+      generateDescriptionStream({
         imageUrl: state.selectedImage.urls?.regular || state.selectedImage.url,
         style: state.selectedStyle,
+      }).catch(() => {
+        // The hook logs the failure and reports it through descriptionError
       });
     }
-  }, [state.selectedImage, state.selectedStyle, generateDescription]);
+  }, [state.selectedImage, state.selectedStyle, generateDescriptionStream]);
 
   // Pre-load components when user starts interacting - only in client
   React.useEffect(() => {
@@ -203,6 +219,7 @@ const HomePageBase: React.FC = () => {
       { id: 'description', label: 'Descriptions', icon: BookOpen, component: LazyDescriptionPanel },
       { id: 'qa', label: 'Q&A Practice', icon: MessageCircle, component: LazyQAPanel },
       { id: 'phrases', label: 'Vocabulary', icon: Brain, component: LazyPhrasesPanel },
+      { id: 'writing', label: 'Writing', icon: PenLine, component: LazyWritingExercise },
       { id: 'progress', label: 'Progress', icon: TrendingUp, component: LazyProgressDashboard },
       { id: 'flashcard', label: 'Flashcards', icon: CreditCard, component: LazyFlashcardReview },
     ],
@@ -346,9 +363,11 @@ const HomePageBase: React.FC = () => {
                       )?.content || null,
                   }}
                   isGenerating={isGenerating}
+                  isStreaming={isStreaming}
                   descriptionError={descriptionError}
                   onStyleChange={handleStyleChange}
                   onGenerateDescriptions={handleGenerateDescriptions}
+                  onCancel={cancelGeneration}
                 />
               )}
 
@@ -384,6 +403,28 @@ const HomePageBase: React.FC = () => {
                 />
               )}
 
+              {state.activeTab === 'writing' &&
+                state.selectedImage &&
+                (spanishDescription ? (
+                  <LazyWritingExercise
+                    imageUrl={state.selectedImage.urls?.regular || state.selectedImage.url}
+                    referenceDescription={spanishDescription}
+                  />
+                ) : (
+                  <div className='text-center py-20 space-y-4'>
+                    <p className='text-gray-500 dark:text-gray-400 max-w-md mx-auto'>
+                      Generate a Spanish description of this image first; your writing is
+                      compared with it.
+                    </p>
+                    <button
+                      onClick={() => handleTabChange('description')}
+                      className='px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-all'
+                    >
+                      Go to Descriptions
+                    </button>
+                  </div>
+                ))}
+
               {state.activeTab === 'progress' && (
                 <LazyProgressDashboard />
               )}
@@ -3,6 +3,8 @@
 import { ReactQueryProvider } from "@/providers/ReactQueryProvider";
 import { ErrorBoundary } from "@/providers/ErrorBoundary";
 import { AuthProvider } from "@/providers/AuthProvider";
+import { ToastProvider } from "@/components/ui/Toast";
+import { AchievementToaster } from "@/components/Achievements";
 import { useEffect } from 'react';
 import { logger } from '@/lib/logger';
 import { useAuthStore } from '@/lib/stores/useAuthStore';
@@ -31,7 +33,10 @@ export function Providers({ children }: { children: React.ReactNode }) {
     <ErrorBoundary>
       <ReactQueryProvider>
         <AuthProvider>
-          {children}
+          <ToastProvider>
+            <AchievementToaster />
+            {children}
+          </ToastProvider>
         </AuthProvider>
       </ReactQueryProvider>
     </ErrorBoundary>
@@ -0,0 +1,12 @@
+'use client';
+
+import { TeacherDashboard } from '@/components/Classroom';
+
+export default function TeacherPage() {
+  return (
+    <main className='container mx-auto max-w-4xl p-6 space-y-6'>
+      <h1 className='text-2xl font-bold'>Teacher dashboard</h1>
+      <TeacherDashboard />
+    </main>
+  );
+}
@@ -0,0 +1,33 @@
+'use client';
+
+/**
+ * Achievement Toaster
+ * Shows a toast for every achievement announced as unlocked; renders nothing
+ */
+
+import { useEffect } from 'react';
+import { useToast } from '../ui/Toast';
+import { onAchievementsUnlocked } from '@/lib/achievements';
+
+export function AchievementToaster() {
+  const { toast } = useToast();
+
+  useEffect(
+    () =>
+      onAchievementsUnlocked(unlocked => {
+        for (const achievement of unlocked) {
+          toast({
+            type: 'success',
+            title: `${achievement.icon ? `${achievement.icon} ` : ''}Achievement unlocked: ${achievement.name}`,
+            description:
+              achievement.experiencePoints > 0
+                ? `${achievement.description} (+${achievement.experiencePoints} XP)`
+                : achievement.description,
+          });
+        }
+      }),
+    [toast]
+  );
+
+  return null;
+}
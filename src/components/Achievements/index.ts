@@ -0,0 +1 @@
+export { AchievementToaster } from './AchievementToaster';
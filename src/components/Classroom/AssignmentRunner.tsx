@@ -0,0 +1,179 @@
+/**
+ * Assignment Runner Component
+ * Works through a class assignment: vocabulary lists as matching rounds,
+ * image sets as writing exercises reviewed on the server against the
+ * teacher's descriptions. Each finished item is scored and sent to the
+ * teacher's progress report.
+ */
+
+import React, { useState, useCallback, useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/Card';
+import { Button } from '../ui/Button';
+import { Progress } from '../ui/Progress';
+import { ArrowLeft, ArrowRight } from 'lucide-react';
+import { MatchingGame } from '../Practice/MatchingGame';
+import { WritingExercise } from '../Practice/WritingExercise';
+import type {
+  AssignmentStatus,
+  ClassAssignment,
+  ImageSetItem,
+  VocabularyAssignmentItem,
+} from '@/lib/services/classroomService';
+import type { MatchingScore } from '@/lib/utils/matchingGame';
+import type { WritingReview } from '@/lib/utils/writingExercise';
+import { keyManager } from '@/lib/keys/keyManager';
+import { logger } from '@/lib/logger';
+
+interface AssignmentRunnerProps {
+  classId: string;
+  assignment: ClassAssignment & { status?: AssignmentStatus };
+  userId?: string;
+  onProgress?: (status: AssignmentStatus) => void;
+  onExit: () => void;
+  className?: string;
+}
+
+export const AssignmentRunner: React.FC<AssignmentRunnerProps> = ({
+  classId,
+  assignment,
+  userId,
+  onProgress,
+  onExit,
+  className = '',
+}) => {
+  const [status, setStatus] = useState<AssignmentStatus | undefined>(assignment.status);
+  const [imageIndex, setImageIndex] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const submitResults = useCallback(
+    async (results: Array<{ itemId: string; score: number }>) => {
+      setError(null);
+      try {
+        const response = await fetch(
+          `/api/classes/${classId}/assignments/${assignment.id}/results`,
+          {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ results }),
+          }
+        );
+        const result = await response.json();
+        if (!response.ok || !result.success) throw new Error(result.error);
+
+        setStatus(result.data);
+        onProgress?.(result.data);
+      } catch (submitError) {
+        logger.error('Failed to record assignment results:', submitError);
+        setError('Your result could not be saved for your teacher. Please try again.');
+      }
+    },
+    [classId, assignment.id, onProgress]
+  );
+
+  const handleMatchingComplete = useCallback(
+    (score: MatchingScore, round: { pairIds: string[] }) => {
+      void submitResults(
+        round.pairIds.map(itemId => ({ itemId, score: score.missed.includes(itemId) ? 0 : 1 }))
+      );
+    },
+    [submitResults]
+  );
+
+  const images = useMemo(
+    () => (assignment.type === 'image_set' ? (assignment.items as ImageSetItem[]) : []),
+    [assignment]
+  );
+  const currentImage = images[imageIndex];
+
+  // The server scores the writing and records it, so there is nothing to submit after
+  const reviewImageText = useCallback(
+    async (text: string): Promise<WritingReview> => {
+      setError(null);
+      const response = await fetch(`/api/classes/${classId}/assignments/${assignment.id}/review`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          itemId: currentImage?.id,
+          text,
+          userApiKey: keyManager.get('anthropic') || undefined,
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) throw new Error(result.error);
+
+      setStatus(result.data.status);
+      onProgress?.(result.data.status);
+      return result.data.review;
+    },
+    [classId, assignment.id, currentImage, onProgress]
+  );
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <div className='flex items-center justify-between gap-4'>
+          <CardTitle>{assignment.title}</CardTitle>
+          <Button variant='outline' size='sm' onClick={onExit}>
+            <ArrowLeft className='w-4 h-4 mr-1' />
+            Back to class
+          </Button>
+        </div>
+        {assignment.instructions && (
+          <p className='text-sm text-gray-600 dark:text-gray-400'>{assignment.instructions}</p>
+        )}
+        {status && (
+          <div className='space-y-1'>
+            <Progress value={status.completion} />
+            <p className='text-sm text-gray-500'>
+              {status.completedItems} of {status.totalItems} done
+              {status.accuracy !== null && ` · ${status.accuracy}% accuracy`}
+            </p>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className='space-y-4'>
+        {error && (
+          <p role='alert' className='text-sm text-red-600'>
+            {error}
+          </p>
+        )}
+
+        {assignment.type === 'vocabulary_list' ? (
+          <MatchingGame
+            items={assignment.items as VocabularyAssignmentItem[]}
+            mode='translation'
+            seed={assignment.id}
+            userId={userId}
+            onComplete={handleMatchingComplete}
+          />
+        ) : currentImage ? (
+          <>
+            <WritingExercise
+              imageUrl={currentImage.imageUrl}
+              referenceLabel="teacher's description"
+              userId={userId}
+              reviewText={reviewImageText}
+            />
+            <div className='flex items-center justify-between'>
+              <span className='text-sm text-gray-500'>
+                Image {imageIndex + 1} of {images.length}
+              </span>
+              <Button
+                variant='outline'
+                onClick={() => setImageIndex(index => index + 1)}
+                disabled={imageIndex + 1 >= images.length}
+              >
+                Next image
+                <ArrowRight className='w-4 h-4 ml-1' />
+              </Button>
+            </div>
+          </>
+        ) : (
+          <p className='text-sm text-gray-500'>This assignment has no images.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AssignmentRunner;
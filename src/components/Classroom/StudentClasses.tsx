@@ -0,0 +1,228 @@
+/**
+ * Student Classes Component
+ * Join a class with the code from a teacher, see what each class has
+ * assigned and when it is due, and work through it
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/Card';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Badge } from '../ui/Badge';
+import { Progress } from '../ui/Progress';
+import { GraduationCap, Play } from 'lucide-react';
+import { AssignmentRunner } from './AssignmentRunner';
+import type { AssignmentStatus, ClassAssignment, Classroom } from '@/lib/services/classroomService';
+import { logger } from '@/lib/logger';
+
+type StudentAssignment = ClassAssignment & { status?: AssignmentStatus };
+
+interface StudentClassesProps {
+  userId?: string;
+  className?: string;
+}
+
+function formatDue(dueAt: string | null): string {
+  return dueAt ? `Due ${new Date(dueAt).toLocaleDateString()}` : 'No due date';
+}
+
+export const StudentClasses: React.FC<StudentClassesProps> = ({ userId, className = '' }) => {
+  const [classes, setClasses] = useState<Classroom[]>([]);
+  const [selectedClassId, setSelectedClassId] = useState<string | null>(null);
+  const [assignments, setAssignments] = useState<StudentAssignment[]>([]);
+  const [activeAssignment, setActiveAssignment] = useState<StudentAssignment | null>(null);
+  const [joinCode, setJoinCode] = useState('');
+  const [isJoining, setIsJoining] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadClasses = useCallback(async () => {
+    try {
+      const response = await fetch('/api/classes');
+      const result = await response.json();
+      if (!response.ok || !result.success) throw new Error(result.error);
+
+      const enrolled: Classroom[] = result.data.enrolled;
+      setClasses(enrolled);
+      setSelectedClassId(current => current ?? enrolled[0]?.id ?? null);
+    } catch (loadError) {
+      logger.error('Failed to load classes:', loadError);
+      setError('Your classes could not be loaded.');
+    }
+  }, []);
+
+  const loadAssignments = useCallback(async (classId: string) => {
+    try {
+      const response = await fetch(`/api/classes/${classId}/assignments`);
+      const result = await response.json();
+      if (!response.ok || !result.success) throw new Error(result.error);
+
+      setAssignments(result.data);
+    } catch (loadError) {
+      logger.error('Failed to load assignments:', loadError);
+      setError('The assignments for this class could not be loaded.');
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadClasses();
+  }, [loadClasses]);
+
+  useEffect(() => {
+    setAssignments([]);
+    if (selectedClassId) void loadAssignments(selectedClassId);
+  }, [selectedClassId, loadAssignments]);
+
+  const handleJoin = useCallback(async () => {
+    setIsJoining(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/classes/join', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code: joinCode }),
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        setError(result.error || 'That code could not be used.');
+        return;
+      }
+
+      setJoinCode('');
+      setSelectedClassId(result.data.id);
+      await loadClasses();
+    } catch (joinError) {
+      logger.error('Failed to join class:', joinError);
+      setError('That code could not be used. Please try again.');
+    } finally {
+      setIsJoining(false);
+    }
+  }, [joinCode, loadClasses]);
+
+  const handleProgress = useCallback((status: AssignmentStatus) => {
+    setAssignments(current =>
+      current.map(assignment =>
+        assignment.id === status.assignmentId ? { ...assignment, status } : assignment
+      )
+    );
+  }, []);
+
+  if (activeAssignment && selectedClassId) {
+    return (
+      <AssignmentRunner
+        classId={selectedClassId}
+        assignment={activeAssignment}
+        userId={userId}
+        onProgress={handleProgress}
+        onExit={() => setActiveAssignment(null)}
+        className={className}
+      />
+    );
+  }
+
+  return (
+    <div className={`space-y-6 ${className}`}>
+      <Card>
+        <CardHeader>
+          <CardTitle className='flex items-center gap-2'>
+            <GraduationCap className='w-5 h-5' />
+            Join a class
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form
+            className='flex gap-2'
+            onSubmit={event => {
+              event.preventDefault();
+              void handleJoin();
+            }}
+          >
+            <Input
+              aria-label='Join code'
+              value={joinCode}
+              onChange={event => setJoinCode(event.target.value.toUpperCase())}
+              placeholder='Code from your teacher'
+              maxLength={14}
+            />
+            <Button type='submit' disabled={!joinCode.trim() || isJoining}>
+              {isJoining ? 'Joining...' : 'Join'}
+            </Button>
+          </form>
+          {error && (
+            <p role='alert' className='mt-2 text-sm text-red-600'>
+              {error}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {classes.length > 0 && (
+        <div className='flex flex-wrap gap-2' role='tablist' aria-label='Your classes'>
+          {classes.map(classroom => (
+            <Button
+              key={classroom.id}
+              role='tab'
+              aria-selected={classroom.id === selectedClassId}
+              variant={classroom.id === selectedClassId ? 'default' : 'outline'}
+              onClick={() => setSelectedClassId(classroom.id)}
+            >
+              {classroom.name}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {selectedClassId && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Assignments</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {assignments.length === 0 ? (
+              <p className='text-sm text-gray-500'>Nothing has been assigned yet.</p>
+            ) : (
+              <ul className='space-y-4'>
+                {assignments.map(assignment => (
+                  <li key={assignment.id} className='space-y-2'>
+                    <div className='flex items-center justify-between gap-4'>
+                      <div>
+                        <p className='font-medium'>{assignment.title}</p>
+                        <p className='text-sm text-gray-500'>
+                          {assignment.type === 'vocabulary_list' ? 'Vocabulary' : 'Image writing'} ·{' '}
+                          {formatDue(assignment.dueAt)}
+                        </p>
+                      </div>
+                      <div className='flex items-center gap-2'>
+                        {assignment.status?.completedAt ? (
+                          <Badge>Done</Badge>
+                        ) : (
+                          assignment.status?.overdue && <Badge variant='destructive'>Overdue</Badge>
+                        )}
+                        <Button size='sm' onClick={() => setActiveAssignment(assignment)}>
+                          <Play className='w-4 h-4 mr-1' />
+                          {assignment.status?.completedItems ? 'Continue' : 'Start'}
+                        </Button>
+                      </div>
+                    </div>
+                    {assignment.status && (
+                      <>
+                        <Progress value={assignment.status.completion} />
+                        <p className='text-xs text-gray-500'>
+                          {assignment.status.completedItems} of {assignment.status.totalItems} done
+                          {assignment.status.accuracy !== null &&
+                            ` · ${assignment.status.accuracy}% accuracy`}
+                        </p>
+                      </>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default StudentClasses;
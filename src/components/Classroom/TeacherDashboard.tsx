@@ -0,0 +1,557 @@
+/**
+ * Teacher Dashboard Component
+ * Create classes and share their join codes, assign vocabulary lists or
+ * image sets with due dates, and follow each student's completion and
+ * accuracy
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/Card';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Badge } from '../ui/Badge';
+import { Progress } from '../ui/Progress';
+import { Archive, ClipboardList, Plus, Trash2, Users, X } from 'lucide-react';
+import type {
+  AccountRole,
+  AssignmentType,
+  Classroom,
+  ClassProgressReport,
+} from '@/lib/services/classroomService';
+import { logger } from '@/lib/logger';
+
+interface TeacherDashboardProps {
+  className?: string;
+}
+
+interface VocabularyListOption {
+  id: string;
+  name: string;
+}
+
+interface ImageDraft {
+  imageUrl: string;
+  description: string;
+}
+
+const EMPTY_IMAGE: ImageDraft = { imageUrl: '', description: '' };
+
+const fieldClassName =
+  'w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 p-2';
+
+function formatPercent(value: number | null): string {
+  return value === null ? '—' : `${value}%`;
+}
+
+async function requestJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  const result = await response.json();
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || `Request failed with status ${response.status}`);
+  }
+  return result.data;
+}
+
+export const TeacherDashboard: React.FC<TeacherDashboardProps> = ({ className = '' }) => {
+  const [role, setRole] = useState<AccountRole | null>(null);
+  const [classes, setClasses] = useState<Classroom[]>([]);
+  const [selectedClassId, setSelectedClassId] = useState<string | null>(null);
+  const [report, setReport] = useState<ClassProgressReport | null>(null);
+  const [vocabularyLists, setVocabularyLists] = useState<VocabularyListOption[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const [newClassName, setNewClassName] = useState('');
+  const [assignmentType, setAssignmentType] = useState<AssignmentType>('vocabulary_list');
+  const [assignmentTitle, setAssignmentTitle] = useState('');
+  const [instructions, setInstructions] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [vocabularyListId, setVocabularyListId] = useState('');
+  const [images, setImages] = useState<ImageDraft[]>([EMPTY_IMAGE]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const selectedClass = classes.find(classroom => classroom.id === selectedClassId) ?? null;
+
+  const loadClasses = useCallback(async () => {
+    try {
+      const data = await requestJson<{ role: AccountRole; teaching: Classroom[] }>('/api/classes');
+      setRole(data.role);
+      setClasses(data.teaching);
+      setSelectedClassId(current => current ?? data.teaching[0]?.id ?? null);
+    } catch (loadError) {
+      logger.error('Failed to load classes:', loadError);
+      setError('Your classes could not be loaded.');
+    }
+  }, []);
+
+  const loadReport = useCallback(async (classId: string) => {
+    try {
+      setReport(await requestJson<ClassProgressReport>(`/api/classes/${classId}/progress`));
+    } catch (loadError) {
+      logger.error('Failed to load class progress:', loadError);
+      setError('Progress for this class could not be loaded.');
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadClasses();
+  }, [loadClasses]);
+
+  useEffect(() => {
+    if (role !== 'teacher') return;
+    requestJson<VocabularyListOption[]>('/api/vocabulary/lists')
+      .then(setVocabularyLists)
+      .catch(loadError => logger.error('Failed to load vocabulary lists:', loadError));
+  }, [role]);
+
+  useEffect(() => {
+    setReport(null);
+    if (selectedClassId) void loadReport(selectedClassId);
+  }, [selectedClassId, loadReport]);
+
+  const runAction = useCallback(async (action: () => Promise<void>, failure: string) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await action();
+    } catch (actionError) {
+      logger.error(failure, actionError);
+      setError(actionError instanceof Error && actionError.message ? actionError.message : failure);
+    } finally {
+      setIsSaving(false);
+    }
+  }, []);
+
+  const handleCreateClass = () =>
+    runAction(async () => {
+      const created = await requestJson<Classroom>('/api/classes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: newClassName }),
+      });
+      setNewClassName('');
+      setSelectedClassId(created.id);
+      await loadClasses();
+    }, 'The class could not be created.');
+
+  const handleArchiveClass = (classId: string) =>
+    runAction(async () => {
+      await requestJson(`/api/classes/${classId}`, { method: 'DELETE' });
+      await loadClasses();
+    }, 'The class could not be archived.');
+
+  const handleRemoveStudent = (classId: string, studentId: string) =>
+    runAction(async () => {
+      await requestJson(`/api/classes/${classId}/members/${studentId}`, { method: 'DELETE' });
+      await loadReport(classId);
+    }, 'The student could not be removed.');
+
+  const handleDeleteAssignment = (classId: string, assignmentId: string) =>
+    runAction(async () => {
+      await requestJson(`/api/classes/${classId}/assignments/${assignmentId}`, {
+        method: 'DELETE',
+      });
+      await loadReport(classId);
+    }, 'The assignment could not be deleted.');
+
+  const handleCreateAssignment = (classId: string) =>
+    runAction(async () => {
+      await requestJson(`/api/classes/${classId}/assignments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          title: assignmentTitle,
+          instructions: instructions || undefined,
+          // Due at the end of the chosen day, in the teacher's time zone
+          dueAt: dueDate ? new Date(`${dueDate}T23:59:59`).toISOString() : undefined,
+          type: assignmentType,
+          ...(assignmentType === 'vocabulary_list'
+            ? { vocabularyListId }
+            : { images: images.filter(image => image.imageUrl && image.description) }),
+        }),
+      });
+      setAssignmentTitle('');
+      setInstructions('');
+      setDueDate('');
+      setImages([EMPTY_IMAGE]);
+      await loadReport(classId);
+    }, 'The assignment could not be created.');
+
+  const assignmentReady =
+    assignmentTitle.trim().length > 0 &&
+    (assignmentType === 'vocabulary_list'
+      ? vocabularyListId.length > 0
+      : images.some(image => image.imageUrl && image.description));
+
+  if (role === null) {
+    return error ? (
+      <p role='alert' className='text-sm text-red-600'>
+        {error}
+      </p>
+    ) : (
+      <p className='text-sm text-gray-500'>Loading your classes...</p>
+    );
+  }
+
+  if (role !== 'teacher') {
+    return (
+      <Card className={className}>
+        <CardContent className='py-8 text-center text-gray-600 dark:text-gray-400'>
+          Classroom tools are for teacher accounts. Ask an administrator to enable them for you, or
+          join a class as a student from the Classes page.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className={`space-y-6 ${className}`}>
+      {error && (
+        <p role='alert' className='text-sm text-red-600'>
+          {error}
+        </p>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className='flex items-center gap-2'>
+            <Users className='w-5 h-5' />
+            Your classes
+          </CardTitle>
+        </CardHeader>
+        <CardContent className='space-y-4'>
+          <div className='flex flex-wrap gap-2' role='tablist' aria-label='Your classes'>
+            {classes.map(classroom => (
+              <Button
+                key={classroom.id}
+                role='tab'
+                aria-selected={classroom.id === selectedClassId}
+                variant={classroom.id === selectedClassId ? 'default' : 'outline'}
+                onClick={() => setSelectedClassId(classroom.id)}
+              >
+                {classroom.name}
+                {classroom.archivedAt && ' (archived)'}
+              </Button>
+            ))}
+          </div>
+          <form
+            className='flex gap-2'
+            onSubmit={event => {
+              event.preventDefault();
+              void handleCreateClass();
+            }}
+          >
+            <Input
+              aria-label='New class name'
+              value={newClassName}
+              onChange={event => setNewClassName(event.target.value)}
+              placeholder='New class name'
+              maxLength={100}
+            />
+            <Button type='submit' disabled={!newClassName.trim() || isSaving}>
+              <Plus className='w-4 h-4 mr-1' />
+              Create class
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {selectedClass && (
+        <>
+          <Card>
+            <CardHeader>
+              <div className='flex items-center justify-between gap-4'>
+                <CardTitle>{selectedClass.name}</CardTitle>
+                {!selectedClass.archivedAt && (
+                  <Button
+                    variant='outline'
+                    size='sm'
+                    onClick={() => void handleArchiveClass(selectedClass.id)}
+                    disabled={isSaving}
+                  >
+                    <Archive className='w-4 h-4 mr-1' />
+                    Archive
+                  </Button>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent className='space-y-2'>
+              {selectedClass.archivedAt ? (
+                <p className='text-sm text-gray-500'>
+                  This class is archived; students can no longer join it.
+                </p>
+              ) : (
+                <p className='text-sm'>
+                  Students join with the code{' '}
+                  <span className='font-mono text-lg font-semibold' aria-label='Join code'>
+                    {selectedClass.joinCode}
+                  </span>
+                </p>
+              )}
+              <p className='text-sm text-gray-500'>
+                {report?.students.length ?? selectedClass.memberCount ?? 0} student
+                {(report?.students.length ?? selectedClass.memberCount) === 1 ? '' : 's'}
+              </p>
+            </CardContent>
+          </Card>
+
+          {!selectedClass.archivedAt && (
+            <Card>
+              <CardHeader>
+                <CardTitle className='flex items-center gap-2'>
+                  <ClipboardList className='w-5 h-5' />
+                  New assignment
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <form
+                  className='space-y-3'
+                  onSubmit={event => {
+                    event.preventDefault();
+                    void handleCreateAssignment(selectedClass.id);
+                  }}
+                >
+                  <Input
+                    aria-label='Assignment title'
+                    value={assignmentTitle}
+                    onChange={event => setAssignmentTitle(event.target.value)}
+                    placeholder='Title'
+                    maxLength={200}
+                  />
+                  <textarea
+                    aria-label='Instructions'
+                    value={instructions}
+                    onChange={event => setInstructions(event.target.value)}
+                    placeholder='Instructions (optional)'
+                    rows={2}
+                    maxLength={2000}
+                    className={fieldClassName}
+                  />
+                  <div className='flex flex-wrap gap-3'>
+                    <select
+                      aria-label='Assignment type'
+                      value={assignmentType}
+                      onChange={event => setAssignmentType(event.target.value as AssignmentType)}
+                      className={fieldClassName + ' sm:w-auto'}
+                    >
+                      <option value='vocabulary_list'>Vocabulary list</option>
+                      <option value='image_set'>Image set</option>
+                    </select>
+                    <label className='flex items-center gap-2 text-sm'>
+                      Due
+                      <input
+                        type='date'
+                        aria-label='Due date'
+                        value={dueDate}
+                        onChange={event => setDueDate(event.target.value)}
+                        className={fieldClassName + ' sm:w-auto'}
+                      />
+                    </label>
+                  </div>
+
+                  {assignmentType === 'vocabulary_list' ? (
+                    <select
+                      aria-label='Vocabulary list'
+                      value={vocabularyListId}
+                      onChange={event => setVocabularyListId(event.target.value)}
+                      className={fieldClassName}
+                    >
+                      <option value=''>Choose a vocabulary list</option>
+                      {vocabularyLists.map(list => (
+                        <option key={list.id} value={list.id}>
+                          {list.name}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <div className='space-y-3'>
+                      {images.map((image, index) => (
+                        <div key={index} className='flex gap-2'>
+                          <div className='flex-1 space-y-2'>
+                            <Input
+                              aria-label={`Image ${index + 1} URL`}
+                              value={image.imageUrl}
+                              onChange={event =>
+                                setImages(current =>
+                                  current.map((draft, i) =>
+                                    i === index ? { ...draft, imageUrl: event.target.value } : draft
+                                  )
+                                )
+                              }
+                              placeholder='https://...'
+                            />
+                            <textarea
+                              aria-label={`Image ${index + 1} model description`}
+                              value={image.description}
+                              onChange={event =>
+                                setImages(current =>
+                                  current.map((draft, i) =>
+                                    i === index
+                                      ? { ...draft, description: event.target.value }
+                                      : draft
+                                  )
+                                )
+                              }
+                              placeholder='Model description students are compared with'
+                              rows={2}
+                              maxLength={5000}
+                              className={fieldClassName}
+                            />
+                          </div>
+                          {images.length > 1 && (
+                            <Button
+                              type='button'
+                              variant='ghost'
+                              size='icon'
+                              aria-label={`Remove image ${index + 1}`}
+                              onClick={() =>
+                                setImages(current => current.filter((_, i) => i !== index))
+                              }
+                            >
+                              <X className='w-4 h-4' />
+                            </Button>
+                          )}
+                        </div>
+                      ))}
+                      <Button
+                        type='button'
+                        variant='outline'
+                        size='sm'
+                        onClick={() => setImages(current => [...current, EMPTY_IMAGE])}
+                      >
+                        <Plus className='w-4 h-4 mr-1' />
+                        Add image
+                      </Button>
+                    </div>
+                  )}
+
+                  <Button type='submit' disabled={!assignmentReady || isSaving}>
+                    Assign
+                  </Button>
+                </form>
+              </CardContent>
+            </Card>
+          )}
+
+          {report && (
+            <>
+              <Card>
+                <CardHeader>
+                  <CardTitle>Assignments</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {report.assignments.length === 0 ? (
+                    <p className='text-sm text-gray-500'>Nothing has been assigned yet.</p>
+                  ) : (
+                    <ul className='space-y-4'>
+                      {report.assignments.map(assignment => (
+                        <li key={assignment.assignmentId} className='space-y-1'>
+                          <div className='flex items-center justify-between gap-4'>
+                            <div>
+                              <p className='font-medium'>{assignment.title}</p>
+                              <p className='text-sm text-gray-500'>
+                                {assignment.dueAt
+                                  ? `Due ${new Date(assignment.dueAt).toLocaleDateString()}`
+                                  : 'No due date'}{' '}
+                                · {assignment.studentsCompleted} of {report.students.length}{' '}
+                                finished · {formatPercent(assignment.accuracy)} accuracy
+                              </p>
+                            </div>
+                            <Button
+                              variant='ghost'
+                              size='icon'
+                              aria-label={`Delete ${assignment.title}`}
+                              onClick={() =>
+                                void handleDeleteAssignment(
+                                  selectedClass.id,
+                                  assignment.assignmentId
+                                )
+                              }
+                              disabled={isSaving}
+                            >
+                              <Trash2 className='w-4 h-4' />
+                            </Button>
+                          </div>
+                          <Progress value={assignment.completion} />
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Student progress</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {report.students.length === 0 ? (
+                    <p className='text-sm text-gray-500'>
+                      No students yet. Share the join code to invite them.
+                    </p>
+                  ) : (
+                    <table className='w-full text-sm'>
+                      <thead>
+                        <tr className='text-left text-gray-500'>
+                          <th className='py-2'>Student</th>
+                          <th>Completion</th>
+                          <th>Accuracy</th>
+                          <th>Finished</th>
+                          <th>Last activity</th>
+                          <th>
+                            <span className='sr-only'>Actions</span>
+                          </th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {report.students.map(student => (
+                          <tr
+                            key={student.studentId}
+                            className='border-t border-gray-200 dark:border-gray-700'
+                          >
+                            <td className='py-2'>
+                              {student.name}
+                              {student.assignmentsOverdue > 0 && (
+                                <Badge variant='destructive' className='ml-2'>
+                                  {student.assignmentsOverdue} overdue
+                                </Badge>
+                              )}
+                            </td>
+                            <td>{formatPercent(student.completion)}</td>
+                            <td>{formatPercent(student.accuracy)}</td>
+                            <td>
+                              {student.assignmentsCompleted} of {report.assignments.length}
+                            </td>
+                            <td>
+                              {student.lastActivity
+                                ? new Date(student.lastActivity).toLocaleDateString()
+                                : '—'}
+                            </td>
+                            <td className='text-right'>
+                              <Button
+                                variant='ghost'
+                                size='sm'
+                                aria-label={`Remove ${student.name}`}
+                                onClick={() =>
+                                  void handleRemoveStudent(selectedClass.id, student.studentId)
+                                }
+                                disabled={isSaving}
+                              >
+                                Remove
+                              </Button>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TeacherDashboard;
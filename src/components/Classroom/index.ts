@@ -0,0 +1,3 @@
+export { AssignmentRunner } from './AssignmentRunner';
+export { StudentClasses } from './StudentClasses';
+export { TeacherDashboard } from './TeacherDashboard';
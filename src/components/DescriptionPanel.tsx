@@ -9,6 +9,7 @@ import {
   GraduationCap,
   MessageCircle,
   Baby,
+  Square,
 } from "lucide-react";
 import {
   DescriptionProgressIndicator,
@@ -26,9 +27,13 @@ interface DescriptionPanelProps {
   selectedStyle: DescriptionStyle;
   generatedDescriptions: GeneratedDescriptions;
   isGenerating: boolean;
+  /** Descriptions are arriving progressively; partial text is shown as it grows */
+  isStreaming?: boolean;
   descriptionError: string | null;
   onStyleChange: (style: DescriptionStyle) => void;
   onGenerateDescriptions: () => void;
+  /** Stops an in-progress generation; shows a Stop button while generating */
+  onCancel?: () => void;
 }
 
 export const DescriptionPanel = memo<DescriptionPanelProps>(
@@ -37,9 +42,11 @@ export const DescriptionPanel = memo<DescriptionPanelProps>(
     selectedStyle,
     generatedDescriptions,
     isGenerating,
+    isStreaming = false,
     descriptionError,
     onStyleChange,
     onGenerateDescriptions,
+    onCancel,
   }) {
     const handleStyleChange = useCallback(
       (e: React.ChangeEvent<HTMLSelectElement>) => {
@@ -71,6 +78,15 @@ export const DescriptionPanel = memo<DescriptionPanelProps>(
       );
     }, [generatedDescriptions.spanish]);
 
+    // While streaming, the text replaces the progress indicator as soon as
+    // the first fragment arrives
+    const showProgress =
+      isGenerating &&
+      !(
+        isStreaming &&
+        (generatedDescriptions.english || generatedDescriptions.spanish)
+      );
+
     const styleOptions = useMemo(
       () => [
         {
@@ -122,18 +138,29 @@ export const DescriptionPanel = memo<DescriptionPanelProps>(
         <div className="flex items-center justify-between">
           <h2 className="text-2xl font-bold">Image Descriptions</h2>
           {selectedImage && (
-            <button
-              onClick={onGenerateDescriptions}
-              disabled={isGenerating}
-              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2 transition-colors"
-            >
-              {isGenerating ? (
-                <Loader2 className="h-4 w-4 animate-spin" />
-              ) : (
-                <ImageIcon className="h-4 w-4" />
+            <div className="flex items-center gap-2">
+              {onCancel && isGenerating && (
+                <button
+                  onClick={onCancel}
+                  className="px-4 py-2 text-red-700 bg-red-50 rounded-lg hover:bg-red-100 flex items-center gap-2 transition-colors"
+                >
+                  <Square className="h-4 w-4" />
+                  Stop
+                </button>
               )}
-              {isGenerating ? "Generating..." : "Generate Description"}
-            </button>
+              <button
+                onClick={onGenerateDescriptions}
+                disabled={isGenerating}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2 transition-colors"
+              >
+                {isGenerating ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <ImageIcon className="h-4 w-4" />
+                )}
+                {isGenerating ? "Generating..." : "Generate Description"}
+              </button>
+            </div>
           )}
         </div>
 
@@ -230,7 +257,7 @@ export const DescriptionPanel = memo<DescriptionPanelProps>(
         )}
 
         {/* Progress Indicator */}
-        <DescriptionProgressIndicator isGenerating={isGenerating} />
+        <DescriptionProgressIndicator isGenerating={showProgress} />
 
         {selectedImage ? (
           <div className="space-y-4">
@@ -3,9 +3,12 @@
 import React, { useState, useCallback, useMemo } from "react";
 import { AnimatePresence } from "framer-motion";
 import { MotionDiv, MotionButton, MotionSpan, MotionP, MotionH1, MotionH2, MotionH3, MotionSection, MotionHeader } from "@/components/ui/MotionComponents";
-import { Globe, BookOpen, Copy, Check, Volume2 } from "lucide-react";
+import { Globe, BookOpen, Copy, Check, Volume2, Square } from "lucide-react";
 import { DescriptionStyle } from "@/types";
 import { logger } from '@/lib/logger';
+import { useSpeech } from "@/hooks/useSpeech";
+import { speechLocale } from "@/lib/speech";
+import { HighlightedText } from "@/components/Speech";
 
 interface DescriptionTabsProps {
   englishDescription: string;
@@ -13,6 +16,10 @@ interface DescriptionTabsProps {
   selectedStyle: DescriptionStyle;
   onStyleChange?: (style: DescriptionStyle) => void;
   isGenerating?: boolean;
+  /** Descriptions are arriving progressively; partial text is shown as it grows */
+  isStreaming?: boolean;
+  /** Stops an in-progress generation; shows a Stop button while generating */
+  onCancel?: () => void;
   className?: string;
 }
 
@@ -22,6 +29,8 @@ export const DescriptionTabs: React.FC<DescriptionTabsProps> = ({
   selectedStyle,
   onStyleChange,
   isGenerating = false,
+  isStreaming = false,
+  onCancel,
   className = "",
 }) => {
   const [activeTab, setActiveTab] = useState<"english" | "spanish">("spanish");
@@ -37,14 +46,18 @@ export const DescriptionTabs: React.FC<DescriptionTabsProps> = ({
     }
   }, []);
 
-  const handleSpeak = useCallback((text: string, language: "en" | "es") => {
-    if ("speechSynthesis" in window) {
-      const utterance = new SpeechSynthesisUtterance(text);
-      utterance.lang = language === "en" ? "en-US" : "es-ES";
-      utterance.rate = 0.9;
-      speechSynthesis.speak(utterance);
-    }
-  }, []);
+  const { speak, stop, speakingText, activeWord } = useSpeech();
+
+  const handleSpeak = useCallback(
+    (text: string, language: "en" | "es") => {
+      if (speakingText === text) {
+        stop();
+      } else {
+        speak(text, { locale: speechLocale(language), rate: 0.9 });
+      }
+    },
+    [speak, stop, speakingText],
+  );
 
   const tabContent = useMemo(
     () => ({
@@ -65,6 +78,23 @@ export const DescriptionTabs: React.FC<DescriptionTabsProps> = ({
   );
 
   const activeContent = tabContent[activeTab];
+  // While streaming, show text as soon as the first fragment arrives
+  const showSpinner = isGenerating && !(isStreaming && activeContent.content);
+
+  const cancelButton = onCancel && isGenerating && (
+    <button
+      onClick={onCancel}
+      className="
+        inline-flex items-center gap-2 px-3 py-1.5
+        text-sm text-red-700 bg-red-50
+        rounded-md hover:bg-red-100
+        transition-colors duration-200
+      "
+    >
+      <Square className="w-3.5 h-3.5" />
+      <span>Stop</span>
+    </button>
+  );
 
   return (
     <div
@@ -89,7 +119,7 @@ export const DescriptionTabs: React.FC<DescriptionTabsProps> = ({
                     : "text-gray-600 hover:text-gray-900 hover:bg-gray-50"
                 }
               `}
-              disabled={isGenerating}
+              disabled={isGenerating && !isStreaming}
             >
               <Icon className="w-4 h-4" />
               <span>{tab.label}</span>
@@ -108,19 +138,33 @@ export const DescriptionTabs: React.FC<DescriptionTabsProps> = ({
             exit={{ opacity: 0, y: -10 }}
             transition={{ duration: 0.2 }}
           >
-            {isGenerating ? (
+            {showSpinner ? (
               <div className="flex items-center justify-center py-12">
                 <div className="text-center">
                   <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600 mx-auto mb-4"></div>
                   <p className="text-gray-600">Generating description...</p>
+                  {cancelButton && <div className="mt-4">{cancelButton}</div>}
+                </div>
+              </div>
+            ) : isGenerating ? (
+              <div className="space-y-3">
+                <div className="prose prose-sm max-w-none">
+                  <p className="text-gray-800 leading-relaxed" aria-live="polite">
+                    {activeContent.content}
+                    <span className="inline-block w-2 h-4 ml-0.5 align-middle bg-blue-600 animate-pulse" />
+                  </p>
                 </div>
+                {cancelButton && <div className="flex gap-2 pt-2">{cancelButton}</div>}
               </div>
             ) : (
               <div className="space-y-3">
                 {/* Description Text */}
                 <div className="prose prose-sm max-w-none">
                   <p className="text-gray-800 leading-relaxed">
-                    {activeContent.content}
+                    <HighlightedText
+                      text={activeContent.content}
+                      activeWord={speakingText === activeContent.content ? activeWord : -1}
+                    />
                   </p>
                 </div>
 
@@ -159,8 +203,17 @@ export const DescriptionTabs: React.FC<DescriptionTabsProps> = ({
                       transition-colors duration-200
                     "
                   >
-                    <Volume2 className="w-3.5 h-3.5" />
-                    <span>Speak</span>
+                    {speakingText === activeContent.content ? (
+                      <>
+                        <Square className="w-3.5 h-3.5" />
+                        <span>Stop</span>
+                      </>
+                    ) : (
+                      <>
+                        <Volume2 className="w-3.5 h-3.5" />
+                        <span>Speak</span>
+                      </>
+                    )}
                   </button>
                 </div>
               </div>
@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useCallback, useMemo, memo } from "react";
+import React, { useState, useCallback, useMemo, useRef, memo } from "react";
 import { AnimatePresence } from "framer-motion";
 import { MotionDiv, MotionButton } from "@/components/ui/MotionWrappers";
 import {
@@ -21,20 +21,113 @@ import {
   Brain,
   BookOpen,
   Volume2,
+  Mic,
+  Keyboard,
 } from "lucide-react";
 import { useQASystem } from "@/hooks/useQASystem";
+import {
+  buildTypedQuestions,
+  gradeTypedAnswer,
+  type LabelledImageRegion,
+  type QuestionKind,
+  type QuestionVocabularyEntry,
+  type TypedAnswerResult,
+  type TypedQuestion,
+} from "@/lib/utils/questionKinds";
+import { ANSWER_ERROR_LABELS } from "@/lib/utils/answerErrors";
+import type { AnswerValidationResponse } from "@/lib/services/qaService";
+import { logger } from "@/lib/logger";
+import { SpeakingPractice } from "@/components/Speech";
+import {
+  PRONUNCIATION_PASS_SCORE,
+  speechLocale,
+  type PronunciationScore,
+} from "@/lib/speech";
 
-interface Question {
+interface Question extends TypedQuestion {
   id: string;
-  question: string;
-  options: string[];
-  correctAnswer: number;
   explanation: string;
   difficulty: "beginner" | "intermediate" | "advanced";
-  category: string;
   timeLimit?: number;
 }
 
+const KIND_DIFFICULTY: Record<QuestionKind, Question["difficulty"]> = {
+  free_text: "advanced",
+  cloze: "intermediate",
+  multiple_choice: "beginner",
+  true_false: "beginner",
+  image_region: "intermediate",
+};
+
+const KIND_PROMPTS: Record<"es" | "en", Record<QuestionKind, string>> = {
+  es: {
+    free_text: "Responde con tus palabras",
+    cloze: "Completa el espacio en blanco",
+    multiple_choice: "Elige la palabra que falta",
+    true_false: "¿Verdadero o falso?",
+    image_region: "Identifica el objeto marcado",
+  },
+  en: {
+    free_text: "Answer in your own words",
+    cloze: "Fill in the blank",
+    multiple_choice: "Choose the missing word",
+    true_false: "True or false?",
+    image_region: "Name the highlighted object",
+  },
+};
+
+/**
+ * Grade an answer on the server, which records it for the learner's
+ * weak-area stats. If the server cannot be reached the answer is graded
+ * here instead and is not recorded.
+ */
+async function checkAnswer(
+  question: Question,
+  answer: string,
+  language: "es" | "en",
+): Promise<TypedAnswerResult> {
+  try {
+    const response = await fetch("/api/qa/validate", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        questionId: question.id,
+        question: question.question,
+        userAnswer: answer,
+        expectedAnswer: question.answer,
+        language,
+        kind: question.kind,
+        options: question.options,
+        correctOption: question.correctOption,
+        acceptedAnswers: question.acceptedAnswers,
+      }),
+    });
+    const body = await response.json();
+    if (!response.ok || !body.success) {
+      throw new Error(body.error || "Answer validation failed");
+    }
+
+    const validation: AnswerValidationResponse = body.data;
+    return {
+      isCorrect: validation.isCorrect,
+      score: validation.score,
+      exactMatch: validation.details.exactMatch,
+      accentSlip:
+        validation.isCorrect &&
+        validation.errors.some((error) => error.category === "accents"),
+      feedback: validation.feedback,
+      errors: validation.errors,
+      correctedAnswer: validation.correctedAnswer,
+    };
+  } catch (error) {
+    logger.warn("Grading answer locally", {
+      component: "EnhancedQASystem",
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return gradeTypedAnswer(question, answer, language);
+  }
+}
+
 interface QASessionData {
   totalQuestions: number;
   answeredQuestions: number;
@@ -55,6 +148,14 @@ interface EnhancedQASystemProps {
   timeLimit?: number;
   showHints?: boolean;
   allowSkip?: boolean;
+  /** Defaults to every kind that can be built from the description */
+  questionKinds?: QuestionKind[];
+  /** The learner's saved words, used for gaps and distractors */
+  vocabulary?: QuestionVocabularyEntry[];
+  /** Labelled image areas for "what is this?" questions */
+  regions?: LabelledImageRegion[];
+  /** Whether written answers start out typed or spoken; learners can switch */
+  answerMode?: "type" | "speak";
   onSessionComplete?: (sessionData: QASessionData) => void;
   onQuestionAnswered?: (
     questionId: string,
@@ -72,6 +173,10 @@ const EnhancedQASystemBase: React.FC<EnhancedQASystemProps> = ({
   timeLimit = 30,
   showHints = true,
   allowSkip = false,
+  questionKinds,
+  vocabulary,
+  regions,
+  answerMode: initialAnswerMode = "type",
   onSessionComplete,
   onQuestionAnswered,
 }) => {
@@ -79,7 +184,11 @@ const EnhancedQASystemBase: React.FC<EnhancedQASystemProps> = ({
     "setup" | "active" | "paused" | "completed"
   >("setup");
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
-  const [selectedAnswer, setSelectedAnswer] = useState<number | null>(null);
+  // Option index for multiple choice, "true"/"false", or the typed text
+  const [selectedAnswer, setSelectedAnswer] = useState<string | null>(null);
+  const [answerResult, setAnswerResult] = useState<TypedAnswerResult | null>(
+    null,
+  );
   const [showExplanation, setShowExplanation] = useState(false);
   const [timeRemaining, setTimeRemaining] = useState(timeLimit);
   const [startTime, setStartTime] = useState<number>(0);
@@ -95,12 +204,37 @@ const EnhancedQASystemBase: React.FC<EnhancedQASystemProps> = ({
   });
   const [showHint, setShowHint] = useState(false);
   const [questionAnswered, setQuestionAnswered] = useState(false);
+  const [answerMode, setAnswerMode] = useState(initialAnswerMode);
 
   // Generate questions based on the image description
   const questions = useMemo<Question[]>(() => {
-    const baseQuestions: Question[] = [
+    const typedQuestions = buildTypedQuestions({
+      description,
+      language,
+      count: questionCount,
+      kinds: questionKinds,
+      vocabulary,
+      regions,
+    });
+
+    if (typedQuestions.length > 0) {
+      return typedQuestions.map((question, index) => ({
+        ...question,
+        id: `${question.kind}-${index + 1}`,
+        explanation: question.explanation ?? "",
+        difficulty: KIND_DIFFICULTY[question.kind],
+        timeLimit:
+          question.kind === "true_false" || question.kind === "multiple_choice"
+            ? timeLimit
+            : timeLimit + 10,
+      }));
+    }
+
+    // Descriptions too short to build questions from
+    const baseQuestions: Omit<Question, "answer">[] = [
       {
         id: "1",
+        kind: "multiple_choice",
         question:
           language === "es"
             ? "¿Cuál es el elemento principal que se describe en la imagen?"
@@ -119,7 +253,7 @@ const EnhancedQASystemBase: React.FC<EnhancedQASystemProps> = ({
                 "A person",
                 "An everyday object",
               ],
-        correctAnswer: 0,
+        correctOption: 0,
         explanation:
           language === "es"
             ? "La descripción indica principalmente elementos naturales en la imagen."
@@ -130,6 +264,7 @@ const EnhancedQASystemBase: React.FC<EnhancedQASystemProps> = ({
       },
       {
         id: "2",
+        kind: "multiple_choice",
         question:
           language === "es"
             ? "¿Qué sentimiento evoca principalmente la imagen según la descripción?"
@@ -138,7 +273,7 @@ const EnhancedQASystemBase: React.FC<EnhancedQASystemProps> = ({
           language === "es"
             ? ["Tranquilidad", "Energía", "Misterio", "Nostalgia"]
             : ["Tranquility", "Energy", "Mystery", "Nostalgia"],
-        correctAnswer: 0,
+        correctOption: 0,
         explanation:
           language === "es"
             ? "Las descripciones suelen evocar sensaciones de tranquilidad en paisajes naturales."
@@ -149,6 +284,7 @@ const EnhancedQASystemBase: React.FC<EnhancedQASystemProps> = ({
       },
       {
         id: "3",
+        kind: "multiple_choice",
         question:
           language === "es"
             ? "¿Cuál sería la mejor traducción para el contexto de esta imagen?"
@@ -167,7 +303,7 @@ const EnhancedQASystemBase: React.FC<EnhancedQASystemProps> = ({
                 "Urban life → Vida urbana",
                 "Contemporary art → Arte contemporáneo",
               ],
-        correctAnswer: 0,
+        correctOption: 0,
         explanation:
           language === "es"
             ? "La traducción debe reflejar el contexto visual de la imagen."
@@ -178,8 +314,10 @@ const EnhancedQASystemBase: React.FC<EnhancedQASystemProps> = ({
       },
     ];
 
-    return baseQuestions.slice(0, questionCount);
-  }, [description, language, questionCount, timeLimit]);
+    return baseQuestions
+      .slice(0, questionCount)
+      .map((question) => ({ ...question, answer: question.options![0] }));
+  }, [description, language, questionCount, timeLimit, questionKinds, vocabulary, regions]);
 
   const currentQuestion = questions[currentQuestionIndex];
   const isLastQuestion = currentQuestionIndex === questions.length - 1;
@@ -223,6 +361,7 @@ const EnhancedQASystemBase: React.FC<EnhancedQASystemProps> = ({
     setSessionState("setup");
     setCurrentQuestionIndex(0);
     setSelectedAnswer(null);
+    setAnswerResult(null);
     setShowExplanation(false);
     setTimeRemaining(timeLimit);
     setSessionData({
@@ -240,20 +379,48 @@ const EnhancedQASystemBase: React.FC<EnhancedQASystemProps> = ({
   }, [questionCount, timeLimit]);
 
   const handleAnswerSelect = useCallback(
-    (answerIndex: number) => {
+    (answer: string) => {
       if (questionAnswered) return;
-      setSelectedAnswer(answerIndex);
+      setSelectedAnswer(answer);
     },
     [questionAnswered],
   );
 
+  // Set while an answer is being graded, so it is only submitted once
+  const submittingRef = useRef(false);
+
   const handleAnswerSubmit = useCallback(
-    (answer: number | null = selectedAnswer, timeUp = false) => {
-      if (questionAnswered) return;
+    async (
+      answer: string | null = selectedAnswer,
+      timeUp = false,
+      spoken?: PronunciationScore,
+    ) => {
+      if (questionAnswered || submittingRef.current) return;
+      submittingRef.current = true;
 
       const questionTime = timeLimit - timeRemaining;
-      const isCorrect = answer === currentQuestion.correctAnswer;
+      let result = answer?.trim()
+        ? await checkAnswer(currentQuestion, answer, language)
+        : null;
+      submittingRef.current = false;
+      // Recognizers mishear a letter or a word now and then, so an answer
+      // that sounded close enough counts
+      if (
+        spoken &&
+        result &&
+        !result.isCorrect &&
+        spoken.score >= PRONUNCIATION_PASS_SCORE
+      ) {
+        result = {
+          ...result,
+          isCorrect: true,
+          score: spoken.score,
+          feedback: language === "es" ? "¡Bien dicho!" : "Well said!",
+        };
+      }
+      const isCorrect = result?.isCorrect ?? false;
 
+      setAnswerResult(result);
       setQuestionAnswered(true);
       setShowExplanation(true);
 
@@ -292,6 +459,7 @@ const EnhancedQASystemBase: React.FC<EnhancedQASystemProps> = ({
       timeLimit,
       timeRemaining,
       currentQuestion,
+      language,
       onQuestionAnswered,
     ],
   );
@@ -307,6 +475,7 @@ const EnhancedQASystemBase: React.FC<EnhancedQASystemProps> = ({
       // Move to next question
       setCurrentQuestionIndex((prev) => prev + 1);
       setSelectedAnswer(null);
+      setAnswerResult(null);
       setShowExplanation(false);
       setTimeRemaining(timeLimit);
       setShowHint(false);
@@ -336,6 +505,154 @@ const EnhancedQASystemBase: React.FC<EnhancedQASystemProps> = ({
     }
   };
 
+  const getChoiceClass = (isSelected: boolean, isCorrect: boolean) => {
+    let buttonClass =
+      "w-full text-left p-4 rounded-lg border-2 transition-all duration-200 ";
+
+    if (questionAnswered) {
+      if (isCorrect) {
+        buttonClass +=
+          "border-green-500 bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-200";
+      } else if (isSelected) {
+        buttonClass +=
+          "border-red-500 bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200";
+      } else {
+        buttonClass +=
+          "border-gray-200 dark:border-gray-600 bg-gray-50 dark:bg-gray-700";
+      }
+    } else if (isSelected) {
+      buttonClass += "border-blue-500 bg-blue-50 dark:bg-blue-900/20";
+    } else {
+      buttonClass +=
+        "border-gray-200 dark:border-gray-600 hover:border-blue-300 hover:bg-blue-50 dark:hover:bg-blue-900/10";
+    }
+
+    return buttonClass;
+  };
+
+  const renderChoice = (
+    value: string,
+    label: string,
+    isCorrect: boolean,
+  ) => {
+    const isSelected = selectedAnswer === value;
+
+    return (
+      <MotionButton
+        key={value}
+        onClick={() => handleAnswerSelect(value)}
+        disabled={questionAnswered || sessionState !== "active"}
+        className={getChoiceClass(isSelected, isCorrect)}
+        whileHover={{ scale: questionAnswered ? 1 : 1.02 }}
+        whileTap={{ scale: questionAnswered ? 1 : 0.98 }}
+      >
+        <div className="flex items-center justify-between">
+          <span className="flex-1">{label}</span>
+          {questionAnswered && (
+            <div>
+              {isCorrect && <CheckCircle className="h-5 w-5 text-green-600" />}
+              {isSelected && !isCorrect && (
+                <XCircle className="h-5 w-5 text-red-600" />
+              )}
+            </div>
+          )}
+        </div>
+      </MotionButton>
+    );
+  };
+
+  const renderAnswerInput = () => {
+    switch (currentQuestion.kind) {
+      case "multiple_choice":
+        return (
+          <div className="space-y-3">
+            {(currentQuestion.options ?? []).map((option, index) =>
+              renderChoice(
+                String(index),
+                option,
+                index === currentQuestion.correctOption,
+              ),
+            )}
+          </div>
+        );
+
+      case "true_false":
+        return (
+          <div className="grid grid-cols-2 gap-3">
+            {renderChoice(
+              "true",
+              language === "es" ? "Verdadero" : "True",
+              currentQuestion.answer === "true",
+            )}
+            {renderChoice(
+              "false",
+              language === "es" ? "Falso" : "False",
+              currentQuestion.answer === "false",
+            )}
+          </div>
+        );
+
+      default: {
+        const correctAnswer = questionAnswered &&
+          !answerResult?.exactMatch && (
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {language === "es" ? "Respuesta correcta:" : "Correct answer:"}{" "}
+              <span className="font-medium text-green-700 dark:text-green-300">
+                {currentQuestion.answer}
+              </span>
+            </p>
+          );
+
+        if (answerMode === "speak") {
+          return (
+            <div className="space-y-3">
+              <SpeakingPractice
+                key={currentQuestion.id}
+                expectedText={currentQuestion.answer}
+                locale={speechLocale(language)}
+                uiLanguage={language}
+                disabled={questionAnswered || sessionState !== "active"}
+                onScored={(score) => {
+                  setSelectedAnswer(score.transcript);
+                  handleAnswerSubmit(score.transcript, false, score);
+                }}
+              />
+              {correctAnswer}
+            </div>
+          );
+        }
+
+        const inputClass = !questionAnswered
+          ? "border-gray-300 dark:border-gray-600 focus:border-blue-500"
+          : answerResult?.isCorrect
+            ? "border-green-500 bg-green-50 dark:bg-green-900/20"
+            : "border-red-500 bg-red-50 dark:bg-red-900/20";
+
+        return (
+          <div className="space-y-3">
+            <input
+              type="text"
+              value={selectedAnswer ?? ""}
+              onChange={(e) => handleAnswerSelect(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && selectedAnswer?.trim()) {
+                  handleAnswerSubmit();
+                }
+              }}
+              disabled={questionAnswered || sessionState !== "active"}
+              placeholder={
+                language === "es" ? "Escribe tu respuesta" : "Type your answer"
+              }
+              aria-label={KIND_PROMPTS[language][currentQuestion.kind]}
+              className={`w-full p-4 rounded-lg border-2 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 outline-none transition-colors ${inputClass}`}
+            />
+            {correctAnswer}
+          </div>
+        );
+      }
+    }
+  };
+
   const getTimeColor = (time: number, limit: number) => {
     const ratio = time / limit;
     if (ratio > 0.5) return "text-green-600";
@@ -570,10 +887,34 @@ const EnhancedQASystemBase: React.FC<EnhancedQASystemProps> = ({
         >
           <div className="space-y-6">
             <div>
+              <p className="text-sm font-medium text-blue-600 mb-2">
+                {KIND_PROMPTS[language][currentQuestion.kind]}
+              </p>
               <h3 className="text-xl font-semibold text-gray-900 dark:text-gray-100 mb-4">
                 {currentQuestion.question}
               </h3>
 
+              {currentQuestion.kind === "image_region" &&
+                currentQuestion.region && (
+                  <div className="relative mb-4 inline-block max-w-full overflow-hidden rounded-lg">
+                    {/* eslint-disable-next-line @next/next/no-img-element */}
+                    <img
+                      src={imageUrl}
+                      alt={currentQuestion.question}
+                      className="block max-h-80 max-w-full"
+                    />
+                    <div
+                      className="absolute rounded border-4 border-yellow-400 shadow-[0_0_0_9999px_rgba(0,0,0,0.35)]"
+                      style={{
+                        left: `${currentQuestion.region.x * 100}%`,
+                        top: `${currentQuestion.region.y * 100}%`,
+                        width: `${currentQuestion.region.width * 100}%`,
+                        height: `${currentQuestion.region.height * 100}%`,
+                      }}
+                    />
+                  </div>
+                )}
+
               {showHints && (
                 <div className="mb-4">
                   <button
@@ -610,63 +951,33 @@ const EnhancedQASystemBase: React.FC<EnhancedQASystemProps> = ({
               )}
             </div>
 
-            {/* Answer Options */}
-            <div className="space-y-3">
-              {currentQuestion.options.map((option, index) => {
-                const isSelected = selectedAnswer === index;
-                const isCorrect = index === currentQuestion.correctAnswer;
-                const showResult = questionAnswered;
-
-                let buttonClass =
-                  "w-full text-left p-4 rounded-lg border-2 transition-all duration-200 ";
-
-                if (showResult) {
-                  if (isCorrect) {
-                    buttonClass +=
-                      "border-green-500 bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-200";
-                  } else if (isSelected && !isCorrect) {
-                    buttonClass +=
-                      "border-red-500 bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200";
-                  } else {
-                    buttonClass +=
-                      "border-gray-200 dark:border-gray-600 bg-gray-50 dark:bg-gray-700";
+            {/* Written answers can be typed or said aloud */}
+            {currentQuestion.kind !== "multiple_choice" &&
+              currentQuestion.kind !== "true_false" &&
+              !questionAnswered && (
+                <button
+                  type="button"
+                  onClick={() =>
+                    setAnswerMode((mode) => (mode === "type" ? "speak" : "type"))
                   }
-                } else {
-                  if (isSelected) {
-                    buttonClass +=
-                      "border-blue-500 bg-blue-50 dark:bg-blue-900/20";
-                  } else {
-                    buttonClass +=
-                      "border-gray-200 dark:border-gray-600 hover:border-blue-300 hover:bg-blue-50 dark:hover:bg-blue-900/10";
-                  }
-                }
+                  className="flex items-center gap-2 text-sm text-blue-600 hover:text-blue-700"
+                >
+                  {answerMode === "type" ? (
+                    <>
+                      <Mic className="h-4 w-4" />
+                      {language === "es" ? "Responder hablando" : "Answer aloud"}
+                    </>
+                  ) : (
+                    <>
+                      <Keyboard className="h-4 w-4" />
+                      {language === "es" ? "Escribir la respuesta" : "Type instead"}
+                    </>
+                  )}
+                </button>
+              )}
 
-                return (
-                  <MotionButton
-                    key={index}
-                    onClick={() => handleAnswerSelect(index)}
-                    disabled={questionAnswered || sessionState !== "active"}
-                    className={buttonClass}
-                    whileHover={{ scale: questionAnswered ? 1 : 1.02 }}
-                    whileTap={{ scale: questionAnswered ? 1 : 0.98 }}
-                  >
-                    <div className="flex items-center justify-between">
-                      <span className="flex-1">{option}</span>
-                      {showResult && (
-                        <div>
-                          {isCorrect && (
-                            <CheckCircle className="h-5 w-5 text-green-600" />
-                          )}
-                          {isSelected && !isCorrect && (
-                            <XCircle className="h-5 w-5 text-red-600" />
-                          )}
-                        </div>
-                      )}
-                    </div>
-                  </MotionButton>
-                );
-              })}
-            </div>
+            {/* Answer Input */}
+            {renderAnswerInput()}
 
             {/* Action Buttons */}
             <div className="flex justify-between">
@@ -686,7 +997,7 @@ const EnhancedQASystemBase: React.FC<EnhancedQASystemProps> = ({
                   <MotionButton
                     onClick={() => handleAnswerSubmit()}
                     disabled={
-                      selectedAnswer === null || sessionState !== "active"
+                      !selectedAnswer?.trim() || sessionState !== "active"
                     }
                     className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
                     whileHover={{ scale: 1.05 }}
@@ -729,6 +1040,23 @@ const EnhancedQASystemBase: React.FC<EnhancedQASystemProps> = ({
                         <h4 className="font-medium text-gray-900 dark:text-gray-100 mb-2">
                           {language === "es" ? "Explicación" : "Explanation"}
                         </h4>
+                        {answerResult && (
+                          <p className="text-gray-800 dark:text-gray-200 mb-1">
+                            {answerResult.feedback}
+                          </p>
+                        )}
+                        {answerResult && answerResult.errors.length > 0 && (
+                          <ul className="mb-2 space-y-1 text-sm text-amber-700 dark:text-amber-300">
+                            {answerResult.errors.map((error, index) => (
+                              <li key={`${error.category}-${index}`}>
+                                <span className="font-medium">
+                                  {ANSWER_ERROR_LABELS[language][error.category]}:
+                                </span>{" "}
+                                {error.original} → {error.correction}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
                         <p className="text-gray-600 dark:text-gray-400">
                           {currentQuestion.explanation}
                         </p>
@@ -30,6 +30,14 @@ import { VocabularyManager } from "@/lib/services/vocabularyManager";
 import GammaVocabularyExtractor from "./GammaVocabularyExtractor";
 import { safeParse, safeStringify, safeParseLocalStorage, safeSetLocalStorage } from "@/lib/utils/json-safe";
 import { logger } from '@/lib/logger';
+import { useAppStore } from "@/lib/store/appStore";
+import {
+  SPANISH_VARIANTS,
+  getRegionalUsage,
+  getSpanishVariant,
+  isSpanishVariant,
+  type SpanishVariantCode,
+} from "@/lib/languages";
 
 interface EnhancedVocabularyPanelProps {
   selectedImage: any;
@@ -52,6 +60,31 @@ interface PanelState {
   recentExtractions: CategorizedPhrase[];
 }
 
+/**
+ * Flags and tooltip for a phrase that is only usual in some regions; the
+ * phrase is highlighted when it is not the word used in the learner's variant
+ */
+function describeRegionalPhrase(
+  phrase: CategorizedPhrase,
+  variant?: SpanishVariantCode,
+) {
+  const usage = getRegionalUsage(phrase.phrase);
+  if (!usage) return null;
+
+  const outsideVariant = Boolean(variant && !usage.regions.includes(variant));
+  const names = usage.regions.map((code) => getSpanishVariant(code).name).join(", ");
+  const hint =
+    variant && outsideVariant
+      ? ` · ${getSpanishVariant(variant).name}: ${usage.equivalents[variant]}`
+      : "";
+
+  return {
+    flags: usage.regions.map((code) => getSpanishVariant(code).flag).join(" "),
+    outsideVariant,
+    title: `Regional word (${names})${hint}`,
+  };
+}
+
 const EnhancedVocabularyPanel: React.FC<EnhancedVocabularyPanelProps> = ({
   selectedImage,
   descriptionText,
@@ -81,6 +114,9 @@ const EnhancedVocabularyPanel: React.FC<EnhancedVocabularyPanelProps> = ({
     recentExtractions: [],
   });
 
+  const spanishVariant = useAppStore((state) => state.preferences.spanishVariant);
+  const updatePreferences = useAppStore((state) => state.updatePreferences);
+
   const [vocabularyManager] = useState(
     () =>
       new VocabularyManager({
@@ -487,6 +523,30 @@ const EnhancedVocabularyPanel: React.FC<EnhancedVocabularyPanelProps> = ({
                 <option value={25}>25 phrases</option>
               </select>
             </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Spanish Variant
+              </label>
+              <select
+                value={spanishVariant ?? ""}
+                onChange={(e) =>
+                  updatePreferences({
+                    spanishVariant: isSpanishVariant(e.target.value)
+                      ? e.target.value
+                      : undefined,
+                  })
+                }
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-700"
+              >
+                <option value="">Any region</option>
+                {SPANISH_VARIANTS.map((code) => (
+                  <option key={code} value={code}>
+                    {getSpanishVariant(code).flag} {getSpanishVariant(code).name}
+                  </option>
+                ))}
+              </select>
+            </div>
           </div>
 
           <div className="space-y-3">
@@ -588,15 +648,27 @@ const EnhancedVocabularyPanel: React.FC<EnhancedVocabularyPanelProps> = ({
             Recent Extractions ({panelState.recentExtractions.length})
           </h4>
           <div className="flex flex-wrap gap-2">
-            {panelState.recentExtractions.slice(0, 8).map((phrase) => (
-              <span
-                key={phrase.id}
-                className="px-2 py-1 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 text-xs rounded"
-                title={phrase.definition}
-              >
-                {phrase.phrase}
-              </span>
-            ))}
+            {panelState.recentExtractions.slice(0, 8).map((phrase) => {
+              const regional = describeRegionalPhrase(phrase, spanishVariant);
+              return (
+                <span
+                  key={phrase.id}
+                  className={`px-2 py-1 text-xs rounded ${
+                    regional?.outsideVariant
+                      ? "bg-amber-100 dark:bg-amber-900/30 text-amber-800 dark:text-amber-300"
+                      : "bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300"
+                  }`}
+                  title={regional ? `${phrase.definition}\n${regional.title}` : phrase.definition}
+                >
+                  {phrase.phrase}
+                  {regional && (
+                    <span className="ml-1" aria-label={regional.title}>
+                      {regional.flags}
+                    </span>
+                  )}
+                </span>
+              );
+            })}
             {panelState.recentExtractions.length > 8 && (
               <span className="px-2 py-1 bg-gray-200 dark:bg-gray-600 text-gray-500 dark:text-gray-400 text-xs rounded">
                 +{panelState.recentExtractions.length - 8} more
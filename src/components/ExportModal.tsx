@@ -22,6 +22,7 @@ import {
   ExportTemplate,
   ExportResult,
   BatchExportRequest,
+  PDFLayout,
 } from "../types/export";
 import { logger } from '@/lib/logger';
 import {
@@ -31,6 +32,7 @@ import {
   getRecommendedFormat,
   estimateExportSize,
   validateExportData,
+  resolvePDFLayout,
 } from "../lib/export";
 
 interface VocabularyExportItem {
@@ -617,25 +619,25 @@ export default function ExportModal({
                       PDF Options
                     </label>
                     <div className="space-y-2">
-                      <label className="flex items-center space-x-2">
-                        <input
-                          type="checkbox"
-                          checked={
-                            customOptions.pdfOptions?.studySheetFormat || false
-                          }
-                          onChange={(e) =>
-                            setCustomOptions((prev) => ({
-                              ...prev,
-                              pdfOptions: {
-                                ...prev.pdfOptions,
-                                studySheetFormat: e.target.checked,
-                              },
-                            }))
-                          }
-                          className="rounded"
-                        />
-                        <span className="text-sm">Study sheet format</span>
-                      </label>
+                      <select
+                        value={resolvePDFLayout(customOptions.pdfOptions)}
+                        onChange={(e) =>
+                          setCustomOptions((prev) => ({
+                            ...prev,
+                            pdfOptions: {
+                              ...prev.pdfOptions,
+                              layout: e.target.value as PDFLayout,
+                            },
+                          }))
+                        }
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        <option value="report">Report</option>
+                        <option value="study-sheet">Study sheet</option>
+                        <option value="vocabulary-list">Vocabulary list with images</option>
+                        <option value="flashcards">Fold-in-half flashcards</option>
+                        <option value="worksheet">Q&amp;A worksheet with answer key</option>
+                      </select>
                       <label className="flex items-center space-x-2">
                         <input
                           type="checkbox"
@@ -4,6 +4,7 @@ import React, { useState, useEffect } from 'react';
 import { RotateCcw, Volume2, Eye, EyeOff, ArrowLeft, ArrowRight } from 'lucide-react';
 import { SavedPhrase } from '@/types/api';
 import { getDifficultyColor, getCategoryColor } from '@/lib/utils/phrase-helpers';
+import { useSpeech } from '@/hooks/useSpeech';
 
 interface FlashcardComponentProps {
   phrase: SavedPhrase;
@@ -29,6 +30,7 @@ export const FlashcardComponent: React.FC<FlashcardComponentProps> = ({
   const [isFlipped, setIsFlipped] = useState(false);
   const [isAnimating, setIsAnimating] = useState(false);
   const [showHint, setShowHint] = useState(false);
+  const { speak } = useSpeech();
 
   // Reset card state when phrase changes
   useEffect(() => {
@@ -65,15 +67,6 @@ export const FlashcardComponent: React.FC<FlashcardComponentProps> = ({
     }
   };
 
-  const speakText = (text: string) => {
-    if ('speechSynthesis' in window && typeof SpeechSynthesisUtterance !== 'undefined') {
-      const utterance = new SpeechSynthesisUtterance(text);
-      utterance.lang = 'es-ES';
-      utterance.rate = 0.8;
-      speechSynthesis.speak(utterance);
-    }
-  };
-
   const handleKeyPress = (event: React.KeyboardEvent) => {
     switch (event.key) {
       case ' ':
@@ -166,7 +159,7 @@ export const FlashcardComponent: React.FC<FlashcardComponentProps> = ({
                 <button
                   onClick={e => {
                     e.stopPropagation();
-                    speakText(phrase.phrase);
+                    speak(phrase.phrase);
                   }}
                   className='p-2 text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors'
                   title='Listen to pronunciation'
@@ -38,6 +38,7 @@ export default function FlashcardReview({
   const [isFlipped, setIsFlipped] = useState(false);
   const [reviews, setReviews] = useState<ReviewResult[]>([]);
   const [isComplete, setIsComplete] = useState(false);
+  const [cardShownAt, setCardShownAt] = useState(() => Date.now());
 
   const currentItem = items[currentIndex];
   const progress = ((currentIndex + 1) / items.length) * 100;
@@ -45,6 +46,7 @@ export default function FlashcardReview({
   useEffect(() => {
     // Reset flip state when moving to next card
     setIsFlipped(false);
+    setCardShownAt(Date.now());
   }, [currentIndex]);
 
   const handleFlip = () => {
@@ -68,21 +70,38 @@ export default function FlashcardReview({
         : null,
     };
 
-    const result = calculateNextReview(reviewItem, quality);
-    const newReviews = [...reviews, result];
-    setReviews(newReviews);
+    // Local SM-2 result is only a preview; the server owns the schedule
+    let result = calculateNextReview(reviewItem, quality);
 
-    // Save review to backend
     try {
-      await fetch('/api/vocabulary/review', {
+      const response = await fetch('/api/vocabulary/review', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(result),
+        body: JSON.stringify({
+          itemId: currentItem.id,
+          quality,
+          responseTimeMs: Date.now() - cardShownAt,
+        }),
       });
+
+      if (response.ok) {
+        const { schedule } = await response.json();
+        if (schedule) {
+          result = {
+            ...result,
+            easeFactor: schedule.easeFactor,
+            interval: schedule.interval,
+            repetitions: schedule.repetitions,
+            nextReviewDate: new Date(schedule.nextReviewDate),
+          };
+        }
+      }
     } catch (error) {
       logger.error('Failed to save flashcard review', error instanceof Error ? error : new Error(String(error)), { component: 'FlashcardReview' });
     }
 
+    setReviews((prev) => [...prev, result]);
+
     // Move to next card or complete session
     if (currentIndex < items.length - 1) {
       setCurrentIndex(currentIndex + 1);
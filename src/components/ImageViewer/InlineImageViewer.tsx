@@ -44,7 +44,11 @@ export function InlineImageViewer({
         </p>
 
         <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
-          <span>Photo by {image.user.name}</span>
+          <span>
+            Photo by {image.attribution?.author ?? image.user.name}
+            {image.attribution && ` on ${image.attribution.providerName}`}
+            {image.attribution?.license && ` (${image.attribution.license})`}
+          </span>
           <span>
             {image.width} × {image.height}
           </span>
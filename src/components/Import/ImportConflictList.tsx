@@ -0,0 +1,83 @@
+/**
+ * Import Conflict List
+ * Shows how each imported item differs from the vocabulary it matches and
+ * lets the user choose a resolution per item
+ */
+
+import React from 'react';
+import type { ComparedField, ConflictResolution, ImportPlanEntry } from '@/lib/import/importPlan';
+
+const FIELD_LABELS: Record<ComparedField, string> = {
+  translation: 'Translation',
+  definition: 'Definition',
+  context: 'Example',
+  partOfSpeech: 'Part of speech',
+  category: 'Category',
+};
+
+const RESOLUTION_LABELS: Record<ConflictResolution, string> = {
+  keep: 'Keep existing',
+  merge: 'Fill empty fields',
+  replace: 'Replace',
+  add: 'Add as new',
+};
+
+interface ImportConflictListProps {
+  entries: ImportPlanEntry[];
+  onResolutionChange: (index: number, resolution: ConflictResolution) => void;
+}
+
+export const ImportConflictList: React.FC<ImportConflictListProps> = ({
+  entries,
+  onResolutionChange,
+}) => {
+  if (entries.length === 0) {
+    return <div className='text-sm text-gray-600'>None of the items match your vocabulary.</div>;
+  }
+
+  return (
+    <div className='space-y-3 max-h-96 overflow-y-auto'>
+      {entries.map(entry => (
+        <div key={entry.index} className='border border-gray-200 rounded-lg p-3'>
+          <div className='flex items-center justify-between gap-3'>
+            <div className='font-medium text-sm'>{entry.item.phrase}</div>
+            <select
+              aria-label={`Resolution for ${entry.item.phrase}`}
+              value={entry.resolution}
+              onChange={e => onResolutionChange(entry.index, e.target.value as ConflictResolution)}
+              className='px-2 py-1 border border-gray-300 rounded-lg text-xs focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+            >
+              {(Object.keys(RESOLUTION_LABELS) as ConflictResolution[]).map(resolution => (
+                <option key={resolution} value={resolution}>
+                  {RESOLUTION_LABELS[resolution]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {entry.diffs.length === 0 ? (
+            <div className='mt-1 text-xs text-gray-500'>Identical to your existing item</div>
+          ) : (
+            <table className='mt-2 w-full text-xs'>
+              <tbody>
+                {entry.diffs.map(diff => (
+                  <tr key={diff.field} className='align-top'>
+                    <td className='pr-3 py-0.5 text-gray-500 whitespace-nowrap'>
+                      {FIELD_LABELS[diff.field]}
+                    </td>
+                    <td className='pr-3 py-0.5 text-red-700 line-through'>
+                      {diff.current || <span className='italic no-underline'>empty</span>}
+                    </td>
+                    <td className='py-0.5 text-green-700'>{diff.incoming}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ImportConflictList;
@@ -1,31 +1,112 @@
 /**
  * Import Dialog Component
- * Allows users to import vocabulary and learning data
+ * Imports vocabulary in steps: choose a file, map its columns, resolve items
+ * that match existing vocabulary, then commit everything at once. The report
+ * after the commit can undo the whole import.
  */
 
-import React, { useState, useCallback } from 'react';
-import { Upload, FileText, AlertCircle, CheckCircle } from 'lucide-react';
+import React, { useState, useCallback, useMemo } from 'react';
+import { Upload, FileText, AlertCircle, CheckCircle, Undo2 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/Card';
 import { Button } from '../ui/Button';
 import { Badge } from '../ui/Badge';
-import { importData, ImportResult, ImportOptions } from '@/lib/import/importManager';
+import {
+  importData,
+  inspectImportFile,
+  supportsFieldMapping,
+  ImportResult,
+  ImportOptions,
+  ImportFormat,
+  ImportSourcePreview,
+} from '@/lib/import/importManager';
+import {
+  buildImportPlan,
+  summarizeImportPlan,
+  toImportCommitPayload,
+  type ConflictResolution,
+  type ExistingVocabularyItem,
+  type ImportCommitReport,
+  type ImportPlanEntry,
+  type ImportUndoReport,
+} from '@/lib/import/importPlan';
 import { logger } from '@/lib/logger';
+import { ImportMappingStep, isMappingComplete, type ImportPositions } from './ImportMappingStep';
+import { ImportConflictList } from './ImportConflictList';
+
+const FORMAT_DETAILS: Record<ImportFormat, { label: string; accept: string; hint: string }> = {
+  json: { label: 'JSON', accept: '.json', hint: 'JSON export files' },
+  csv: { label: 'CSV', accept: '.csv', hint: 'CSV vocabulary lists' },
+  anki: { label: 'Anki (text)', accept: '.txt', hint: 'Anki "Notes in plain text" exports' },
+  apkg: { label: 'Anki deck', accept: '.apkg', hint: 'Anki packages, including review history' },
+  quizlet: {
+    label: 'Quizlet',
+    accept: '.txt,.tsv',
+    hint: 'Quizlet set exports (term and definition)',
+  },
+  memrise: {
+    label: 'Memrise',
+    accept: '.txt,.tsv,.csv',
+    hint: 'Memrise tab-separated course exports',
+  },
+};
+
+type ImportStep = 'select' | 'map' | 'review' | 'report';
+
+const STEP_TITLES: Record<ImportStep, string> = {
+  select: 'Import Data',
+  map: 'Map Columns',
+  review: 'Review Changes',
+  report: 'Import Report',
+};
 
 interface ImportDialogProps {
   onImportComplete: (result: ImportResult) => void;
   onCancel: () => void;
+  /** List that receives new items; a list named after the file is created otherwise */
+  listId?: string;
+  onImportUndone?: (report: ImportUndoReport) => void;
   className?: string;
 }
 
+async function fetchExistingVocabulary(): Promise<ExistingVocabularyItem[]> {
+  const response = await fetch('/api/vocabulary/import');
+  const body = await response.json();
+  if (!response.ok || !body.success) {
+    throw new Error(body.error || 'Failed to load existing vocabulary');
+  }
+  return body.data;
+}
+
+function failedResult(error: unknown, fallback: string): ImportResult {
+  return {
+    success: false,
+    itemsImported: 0,
+    errors: [error instanceof Error ? error.message : fallback],
+    warnings: [],
+  };
+}
+
 export const ImportDialog: React.FC<ImportDialogProps> = ({
   onImportComplete,
   onCancel,
+  listId,
+  onImportUndone,
   className = '',
 }) => {
+  const [step, setStep] = useState<ImportStep>('select');
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [format, setFormat] = useState<'json' | 'csv' | 'anki'>('json');
-  const [isImporting, setIsImporting] = useState(false);
+  const [format, setFormat] = useState<ImportFormat>('json');
+  const [isWorking, setIsWorking] = useState(false);
   const [result, setResult] = useState<ImportResult | null>(null);
+  const [preview, setPreview] = useState<ImportSourcePreview | null>(null);
+  const [mapping, setMapping] = useState<ImportPositions>({});
+  const [mappingEdited, setMappingEdited] = useState(false);
+  const [plan, setPlan] = useState<ImportPlanEntry[]>([]);
+  const [report, setReport] = useState<ImportCommitReport | null>(null);
+  const [undoReport, setUndoReport] = useState<ImportUndoReport | null>(null);
+
+  const summary = useMemo(() => summarizeImportPlan(plan), [plan]);
+  const matches = useMemo(() => plan.filter(entry => entry.existing), [plan]);
 
   const handleFileSelect = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -37,219 +118,422 @@ export const ImportDialog: React.FC<ImportDialogProps> = ({
       const ext = file.name.split('.').pop()?.toLowerCase();
       if (ext === 'json') setFormat('json');
       else if (ext === 'csv') setFormat('csv');
+      else if (ext === 'apkg') setFormat('apkg');
+      else if (ext === 'tsv') setFormat('quizlet');
       else if (ext === 'txt') setFormat('anki');
     }
   }, []);
 
-  const handleImport = useCallback(async () => {
-    if (!selectedFile) return;
-
-    setIsImporting(true);
-    setResult(null);
+  /**
+   * Parse the whole file with the chosen mapping and match it against the
+   * user's vocabulary
+   */
+  const parseAndPlan = useCallback(
+    async (fieldMapping?: ImportPositions) => {
+      if (!selectedFile) return;
 
-    try {
       const options: ImportOptions = {
         format,
         validateData: true,
         skipDuplicates: true,
         mergeStrategy: 'merge',
+        fieldMapping,
       };
 
       const importResult = await importData(selectedFile, options);
       setResult(importResult);
+      if (!importResult.success) return;
 
-      if (importResult.success) {
-        onImportComplete(importResult);
-      }
+      const existing = await fetchExistingVocabulary();
+      setPlan(
+        buildImportPlan(importResult.data?.vocabulary ?? [], existing, options.mergeStrategy)
+      );
+      setStep('review');
+    },
+    [selectedFile, format]
+  );
+
+  const runStep = useCallback(async (action: () => Promise<void>, fallback: string) => {
+    setIsWorking(true);
+    try {
+      await action();
     } catch (error) {
-      logger.error('Import error:', error);
-      setResult({
-        success: false,
-        itemsImported: 0,
-        errors: [error instanceof Error ? error.message : 'Import failed'],
-        warnings: [],
-      });
+      logger.error(`${fallback}:`, error);
+      setResult(failedResult(error, fallback));
     } finally {
-      setIsImporting(false);
+      setIsWorking(false);
     }
-  }, [selectedFile, format, onImportComplete]);
+  }, []);
+
+  const handleContinue = useCallback(() => {
+    if (!selectedFile) return;
+    setResult(null);
+
+    void runStep(async () => {
+      if (!supportsFieldMapping(format)) {
+        setPreview(null);
+        await parseAndPlan();
+        return;
+      }
+
+      const sourcePreview = await inspectImportFile(selectedFile, { format });
+      setPreview(sourcePreview);
+      setMapping(sourcePreview.suggestedMapping);
+      setMappingEdited(false);
+      setStep('map');
+    }, 'Failed to read file');
+  }, [selectedFile, format, parseAndPlan, runStep]);
+
+  const handleMappingConfirm = useCallback(() => {
+    setResult(null);
+    // CSV files without the app's own column names need an explicit mapping;
+    // elsewhere an untouched suggestion keeps format defaults such as cloze notes
+    const fieldMapping = format === 'csv' || mappingEdited ? mapping : undefined;
+    void runStep(() => parseAndPlan(fieldMapping), 'Failed to parse file');
+  }, [format, mapping, mappingEdited, parseAndPlan, runStep]);
+
+  const handleResolutionChange = useCallback((index: number, resolution: ConflictResolution) => {
+    setPlan(prev => prev.map(entry => (entry.index === index ? { ...entry, resolution } : entry)));
+  }, []);
+
+  const handleResolveAll = useCallback((resolution: ConflictResolution) => {
+    setPlan(prev =>
+      prev.map(entry =>
+        entry.existing && entry.diffs.length > 0 ? { ...entry, resolution } : entry
+      )
+    );
+  }, []);
+
+  const handleCommit = useCallback(() => {
+    if (!selectedFile || !result) return;
+
+    void runStep(async () => {
+      const response = await fetch('/api/vocabulary/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          listId,
+          listName: selectedFile.name.replace(/\.[^.]+$/, ''),
+          format,
+          fileName: selectedFile.name,
+          ...toImportCommitPayload(plan, result.data?.reviews),
+        }),
+      });
+      const body = await response.json();
+      if (!response.ok || !body.success) {
+        throw new Error(body.message || body.error || 'Import failed');
+      }
+
+      setReport(body.data);
+      setUndoReport(null);
+      setStep('report');
+      onImportComplete(result);
+    }, 'Import failed');
+  }, [selectedFile, result, listId, format, plan, onImportComplete, runStep]);
+
+  const handleUndo = useCallback(() => {
+    if (!report) return;
+
+    void runStep(async () => {
+      const response = await fetch(`/api/vocabulary/import/${report.batchId}`, {
+        method: 'DELETE',
+      });
+      const body = await response.json();
+      if (!response.ok || !body.success) {
+        throw new Error(body.error || 'Failed to undo import');
+      }
+
+      setUndoReport(body.data);
+      onImportUndone?.(body.data);
+    }, 'Failed to undo import');
+  }, [report, onImportUndone, runStep]);
+
+  const handleBack = useCallback(() => {
+    setResult(null);
+    setStep(step === 'review' && preview ? 'map' : 'select');
+  }, [step, preview]);
 
   return (
     <Card className={className}>
       <CardHeader>
         <CardTitle className='flex items-center gap-2'>
           <Upload className='w-5 h-5' />
-          Import Data
+          {STEP_TITLES[step]}
         </CardTitle>
       </CardHeader>
       <CardContent className='space-y-6'>
-        {/* Format Selection */}
-        <div>
-          <label className='block text-sm font-medium mb-2'>Import Format</label>
-          <div className='grid grid-cols-3 gap-2'>
-            {(['json', 'csv', 'anki'] as const).map(fmt => (
-              <button
-                key={fmt}
-                onClick={() => setFormat(fmt)}
-                className={`px-4 py-2 rounded-lg border-2 transition-colors ${
-                  format === fmt
-                    ? 'border-blue-500 bg-blue-50 text-blue-700'
-                    : 'border-gray-200 hover:border-gray-300'
-                }`}
-              >
-                <div className='text-sm font-medium uppercase'>{fmt}</div>
-              </button>
-            ))}
-          </div>
-        </div>
+        {step === 'select' && (
+          <>
+            {/* Format Selection */}
+            <div>
+              <label className='block text-sm font-medium mb-2'>Import Format</label>
+              <div className='grid grid-cols-3 gap-2'>
+                {(Object.keys(FORMAT_DETAILS) as ImportFormat[]).map(fmt => (
+                  <button
+                    key={fmt}
+                    onClick={() => setFormat(fmt)}
+                    className={`px-4 py-2 rounded-lg border-2 transition-colors ${
+                      format === fmt
+                        ? 'border-blue-500 bg-blue-50 text-blue-700'
+                        : 'border-gray-200 hover:border-gray-300'
+                    }`}
+                  >
+                    <div className='text-sm font-medium'>{FORMAT_DETAILS[fmt].label}</div>
+                  </button>
+                ))}
+              </div>
+            </div>
 
-        {/* File Upload */}
-        <div>
-          <label className='block text-sm font-medium mb-2'>Select File</label>
-          <div className='border-2 border-dashed border-gray-300 rounded-lg p-6 text-center'>
-            <input
-              type='file'
-              onChange={handleFileSelect}
-              accept={format === 'json' ? '.json' : format === 'csv' ? '.csv' : '.txt'}
-              className='hidden'
-              id='import-file'
-            />
-            <label htmlFor='import-file' className='cursor-pointer flex flex-col items-center'>
-              <FileText className='w-12 h-12 text-gray-400 mb-2' />
-              {selectedFile ? (
-                <>
-                  <div className='text-sm font-medium text-gray-700'>{selectedFile.name}</div>
-                  <div className='text-xs text-gray-500'>
-                    {(selectedFile.size / 1024).toFixed(2)} KB
-                  </div>
-                </>
-              ) : (
-                <>
-                  <div className='text-sm text-gray-600'>Click to select file</div>
-                  <div className='text-xs text-gray-500 mt-1'>
-                    {format === 'json'
-                      ? 'JSON export files'
-                      : format === 'csv'
-                        ? 'CSV vocabulary lists'
-                        : 'Anki deck files'}
-                  </div>
-                </>
+            {/* File Upload */}
+            <div>
+              <label className='block text-sm font-medium mb-2'>Select File</label>
+              <div className='border-2 border-dashed border-gray-300 rounded-lg p-6 text-center'>
+                <input
+                  type='file'
+                  onChange={handleFileSelect}
+                  accept={FORMAT_DETAILS[format].accept}
+                  className='hidden'
+                  id='import-file'
+                />
+                <label htmlFor='import-file' className='cursor-pointer flex flex-col items-center'>
+                  <FileText className='w-12 h-12 text-gray-400 mb-2' />
+                  {selectedFile ? (
+                    <>
+                      <div className='text-sm font-medium text-gray-700'>{selectedFile.name}</div>
+                      <div className='text-xs text-gray-500'>
+                        {(selectedFile.size / 1024).toFixed(2)} KB
+                      </div>
+                    </>
+                  ) : (
+                    <>
+                      <div className='text-sm text-gray-600'>Click to select file</div>
+                      <div className='text-xs text-gray-500 mt-1'>
+                        {FORMAT_DETAILS[format].hint}
+                      </div>
+                    </>
+                  )}
+                </label>
+              </div>
+            </div>
+          </>
+        )}
+
+        {step === 'map' && preview && (
+          <ImportMappingStep
+            preview={preview}
+            mapping={mapping}
+            onMappingChange={next => {
+              setMapping(next);
+              setMappingEdited(true);
+            }}
+          />
+        )}
+
+        {step === 'review' && (
+          <div className='space-y-4'>
+            <div className='flex flex-wrap gap-2'>
+              <Badge className='bg-blue-100 text-blue-800'>{summary.added} new</Badge>
+              <Badge className='bg-purple-100 text-purple-800'>{summary.updated} updated</Badge>
+              <Badge className='bg-gray-100 text-gray-800'>{summary.kept} unchanged</Badge>
+              {summary.conflicts > 0 && (
+                <Badge className='bg-yellow-100 text-yellow-800'>
+                  {summary.conflicts} with differences
+                </Badge>
               )}
-            </label>
+            </div>
+
+            {summary.conflicts > 0 && (
+              <div className='flex items-center gap-2 text-sm'>
+                <span className='text-gray-600'>For all differences:</span>
+                <Button size='sm' variant='outline' onClick={() => handleResolveAll('keep')}>
+                  Keep existing
+                </Button>
+                <Button size='sm' variant='outline' onClick={() => handleResolveAll('merge')}>
+                  Fill empty fields
+                </Button>
+                <Button size='sm' variant='outline' onClick={() => handleResolveAll('replace')}>
+                  Replace
+                </Button>
+              </div>
+            )}
+
+            <ImportConflictList entries={matches} onResolutionChange={handleResolutionChange} />
           </div>
-        </div>
+        )}
 
-        {/* Import Result */}
-        {result && (
+        {step === 'report' && report && (
           <div
             className={`p-4 rounded-lg border-2 ${
-              result.success ? 'border-green-200 bg-green-50' : 'border-red-200 bg-red-50'
+              undoReport ? 'border-gray-200 bg-gray-50' : 'border-green-200 bg-green-50'
             }`}
           >
             <div className='flex items-start gap-3'>
-              {result.success ? (
-                <CheckCircle className='w-5 h-5 text-green-600 flex-shrink-0 mt-0.5' />
+              {undoReport ? (
+                <Undo2 className='w-5 h-5 text-gray-600 flex-shrink-0 mt-0.5' />
               ) : (
-                <AlertCircle className='w-5 h-5 text-red-600 flex-shrink-0 mt-0.5' />
+                <CheckCircle className='w-5 h-5 text-green-600 flex-shrink-0 mt-0.5' />
               )}
-              <div className='flex-1'>
-                <div
-                  className={`font-medium ${result.success ? 'text-green-800' : 'text-red-800'}`}
-                >
-                  {result.success
-                    ? `Successfully imported ${result.itemsImported} items`
-                    : 'Import failed'}
-                </div>
-
-                {result.errors.length > 0 && (
-                  <div className='mt-2 space-y-1'>
-                    {result.errors.map((error, index) => (
-                      <div key={index} className='text-sm text-red-700'>
-                        • {error}
-                      </div>
-                    ))}
+              <div className='flex-1 text-sm'>
+                {undoReport ? (
+                  <div className='font-medium text-gray-800'>
+                    Import undone: {undoReport.removed} items removed, {undoReport.restored}{' '}
+                    restored
                   </div>
-                )}
-
-                {result.warnings.length > 0 && (
-                  <div className='mt-2 space-y-1'>
-                    <div className='text-sm font-medium text-yellow-800'>Warnings:</div>
-                    {result.warnings.slice(0, 5).map((warning, index) => (
-                      <div key={index} className='text-xs text-yellow-700'>
-                        • {warning}
-                      </div>
-                    ))}
-                    {result.warnings.length > 5 && (
-                      <div className='text-xs text-yellow-700'>
-                        + {result.warnings.length - 5} more warnings
+                ) : (
+                  <>
+                    <div className='font-medium text-green-800'>
+                      Added {report.inserted} items and updated {report.updated}
+                    </div>
+                    <div className='text-green-700 mt-1'>
+                      {plan.length - report.inserted - report.updated} items were left unchanged
+                    </div>
+                    {report.scheduled > 0 && (
+                      <div className='text-green-700 mt-1'>
+                        Review schedules carried over for {report.scheduled} items
                       </div>
                     )}
-                  </div>
-                )}
-
-                {result.data && (
-                  <div className='mt-3 flex flex-wrap gap-2'>
-                    {result.data.vocabulary && (
-                      <Badge className='bg-blue-100 text-blue-800'>
-                        {result.data.vocabulary.length} vocabulary
-                      </Badge>
-                    )}
-                    {result.data.descriptions && (
-                      <Badge className='bg-purple-100 text-purple-800'>
-                        {result.data.descriptions.length} descriptions
-                      </Badge>
-                    )}
-                    {result.data.qa && (
-                      <Badge className='bg-green-100 text-green-800'>
-                        {result.data.qa.length} Q&A
-                      </Badge>
-                    )}
-                    {result.data.sessions && (
-                      <Badge className='bg-orange-100 text-orange-800'>
-                        {result.data.sessions.length} sessions
-                      </Badge>
-                    )}
-                  </div>
+                  </>
                 )}
               </div>
             </div>
           </div>
         )}
 
-        {/* Format Info */}
-        <div className='bg-blue-50 border border-blue-200 rounded-lg p-4'>
-          <div className='text-sm text-blue-800'>
-            <div className='font-medium mb-1'>
-              {format === 'json' ? 'JSON Format' : format === 'csv' ? 'CSV Format' : 'Anki Format'}
+        {/* Parse errors and warnings */}
+        {result &&
+          (result.errors.length > 0 || (step !== 'select' && result.warnings.length > 0)) && (
+            <div
+              className={`p-4 rounded-lg border-2 ${
+                result.success ? 'border-yellow-200 bg-yellow-50' : 'border-red-200 bg-red-50'
+              }`}
+            >
+              <div className='flex items-start gap-3'>
+                <AlertCircle
+                  className={`w-5 h-5 flex-shrink-0 mt-0.5 ${
+                    result.success ? 'text-yellow-600' : 'text-red-600'
+                  }`}
+                />
+                <div className='flex-1'>
+                  {!result.success && <div className='font-medium text-red-800'>Import failed</div>}
+
+                  {result.errors.length > 0 && (
+                    <div className='mt-2 space-y-1'>
+                      {result.errors.map((error, index) => (
+                        <div key={index} className='text-sm text-red-700'>
+                          • {error}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {result.warnings.length > 0 && (
+                    <div className='mt-2 space-y-1'>
+                      <div className='text-sm font-medium text-yellow-800'>Warnings:</div>
+                      {result.warnings.slice(0, 5).map((warning, index) => (
+                        <div key={index} className='text-xs text-yellow-700'>
+                          • {warning}
+                        </div>
+                      ))}
+                      {result.warnings.length > 5 && (
+                        <div className='text-xs text-yellow-700'>
+                          + {result.warnings.length - 5} more warnings
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              </div>
             </div>
-            <div className='text-xs'>
-              {format === 'json' && (
-                <>
-                  Import complete backups with all data types (vocabulary, descriptions, Q&A,
-                  sessions)
-                </>
-              )}
-              {format === 'csv' && (
-                <>Import vocabulary lists with Spanish, English, and optional context sentences</>
-              )}
-              {format === 'anki' && (
-                <>Import Anki flashcard decks (tab-separated format: Spanish → English)</>
-              )}
+          )}
+
+        {/* Format Info */}
+        {step === 'select' && (
+          <div className='bg-blue-50 border border-blue-200 rounded-lg p-4'>
+            <div className='text-sm text-blue-800'>
+              <div className='font-medium mb-1'>{FORMAT_DETAILS[format].label} Format</div>
+              <div className='text-xs'>
+                {format === 'json' && (
+                  <>
+                    Import complete backups with all data types (vocabulary, descriptions, Q&A,
+                    sessions)
+                  </>
+                )}
+                {format === 'csv' && (
+                  <>Import vocabulary lists with Spanish, English, and optional context sentences</>
+                )}
+                {format === 'anki' && (
+                  <>Import Anki flashcard decks (tab-separated format: Spanish → English)</>
+                )}
+                {format === 'apkg' && (
+                  <>
+                    Import Anki decks exported with &quot;Support older Anki versions&quot;; review
+                    history carries over to your schedule
+                  </>
+                )}
+                {(format === 'quizlet' || format === 'memrise') && (
+                  <>Import tab-separated term and definition lists</>
+                )}
+              </div>
             </div>
           </div>
-        </div>
+        )}
 
         {/* Actions */}
         <div className='flex gap-3'>
-          <Button
-            onClick={handleImport}
-            disabled={!selectedFile || isImporting}
-            className='flex-1 bg-blue-600 hover:bg-blue-700 text-white'
-          >
-            {isImporting ? 'Importing...' : 'Import'}
-          </Button>
-          <Button onClick={onCancel} variant='outline' className='flex-1' disabled={isImporting}>
-            Cancel
+          {step === 'select' && (
+            <Button
+              onClick={handleContinue}
+              disabled={!selectedFile || isWorking}
+              className='flex-1 bg-blue-600 hover:bg-blue-700 text-white'
+            >
+              {isWorking ? 'Reading...' : 'Continue'}
+            </Button>
+          )}
+          {step === 'map' && (
+            <Button
+              onClick={handleMappingConfirm}
+              disabled={!isMappingComplete(mapping) || isWorking}
+              className='flex-1 bg-blue-600 hover:bg-blue-700 text-white'
+            >
+              {isWorking ? 'Checking...' : 'Review Changes'}
+            </Button>
+          )}
+          {step === 'review' && summary.added + summary.updated > 0 && (
+            <Button
+              onClick={handleCommit}
+              disabled={isWorking}
+              className='flex-1 bg-blue-600 hover:bg-blue-700 text-white'
+            >
+              {isWorking ? 'Importing...' : `Import ${summary.added + summary.updated} items`}
+            </Button>
+          )}
+          {/* Nothing to write to the vocabulary; hand any other data to the caller */}
+          {step === 'review' && summary.added + summary.updated === 0 && result && (
+            <Button
+              onClick={() => onImportComplete(result)}
+              className='flex-1 bg-blue-600 hover:bg-blue-700 text-white'
+            >
+              Finish
+            </Button>
+          )}
+          {step === 'report' && !undoReport && (
+            <Button
+              onClick={handleUndo}
+              disabled={isWorking}
+              variant='outline'
+              className='flex-1 flex items-center justify-center gap-2'
+            >
+              <Undo2 className='w-4 h-4' />
+              {isWorking ? 'Undoing...' : 'Undo Import'}
+            </Button>
+          )}
+          {(step === 'map' || step === 'review') && (
+            <Button onClick={handleBack} variant='outline' className='flex-1' disabled={isWorking}>
+              Back
+            </Button>
+          )}
+          <Button onClick={onCancel} variant='outline' className='flex-1' disabled={isWorking}>
+            {step === 'report' ? 'Close' : 'Cancel'}
           </Button>
         </div>
       </CardContent>
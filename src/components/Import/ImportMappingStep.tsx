@@ -0,0 +1,102 @@
+/**
+ * Import Mapping Step
+ * Previews a file's first rows and maps its columns onto vocabulary fields
+ */
+
+import React from 'react';
+import type { ImportField, ImportSourcePreview } from '@/lib/import/importManager';
+
+export type ImportPositions = Partial<Record<ImportField, number>>;
+
+const FIELD_LABELS: Record<ImportField, string> = {
+  phrase: 'Spanish phrase',
+  translation: 'Translation',
+  definition: 'Definition',
+  context: 'Example sentence',
+  partOfSpeech: 'Part of speech',
+  category: 'Category',
+};
+
+const REQUIRED_FIELDS: ImportField[] = ['phrase', 'translation'];
+
+interface ImportMappingStepProps {
+  preview: ImportSourcePreview;
+  mapping: ImportPositions;
+  onMappingChange: (mapping: ImportPositions) => void;
+}
+
+export const ImportMappingStep: React.FC<ImportMappingStepProps> = ({
+  preview,
+  mapping,
+  onMappingChange,
+}) => {
+  const handleChange = (field: ImportField, value: string) => {
+    const next = { ...mapping };
+    if (value === '') delete next[field];
+    else next[field] = Number(value);
+    onMappingChange(next);
+  };
+
+  return (
+    <div className='space-y-4'>
+      <div>
+        <div className='text-sm font-medium mb-2'>
+          Preview ({preview.rows.length} of {preview.totalRows} rows)
+        </div>
+        <div className='overflow-x-auto border border-gray-200 rounded-lg'>
+          <table className='min-w-full text-xs'>
+            <thead className='bg-gray-50'>
+              <tr>
+                {preview.sourceFields.map((name, index) => (
+                  <th key={index} className='px-3 py-2 text-left font-medium text-gray-700'>
+                    {name}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {preview.rows.map((row, rowIndex) => (
+                <tr key={rowIndex} className='border-t border-gray-100'>
+                  {preview.sourceFields.map((_, index) => (
+                    <td key={index} className='px-3 py-2 text-gray-600 max-w-[12rem] truncate'>
+                      {row[index]}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className='grid grid-cols-2 gap-3'>
+        {(Object.keys(FIELD_LABELS) as ImportField[]).map(field => (
+          <label key={field} className='block text-sm'>
+            <span className='block font-medium mb-1'>
+              {FIELD_LABELS[field]}
+              {REQUIRED_FIELDS.includes(field) && <span className='text-red-600'> *</span>}
+            </span>
+            <select
+              value={mapping[field] ?? ''}
+              onChange={e => handleChange(field, e.target.value)}
+              className='w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+            >
+              <option value=''>Not imported</option>
+              {preview.sourceFields.map((name, index) => (
+                <option key={index} value={index}>
+                  {name}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export function isMappingComplete(mapping: ImportPositions): boolean {
+  return REQUIRED_FIELDS.every(field => mapping[field] !== undefined);
+}
+
+export default ImportMappingStep;
@@ -1 +1,3 @@
 export { default as ImportDialog } from './ImportDialog';
+export { ImportMappingStep } from './ImportMappingStep';
+export { ImportConflictList } from './ImportConflictList';
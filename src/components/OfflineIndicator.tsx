@@ -3,16 +3,22 @@
 import React, { useState, useEffect } from 'react';
 import { WifiOff, Wifi, RefreshCw } from 'lucide-react';
 import { syncQueue } from '@/lib/offline-storage';
+import { reviewSyncEngine } from '@/lib/offline-review-sync';
 import { logger } from '@/lib/logger';
 
 export default function OfflineIndicator() {
   const [isOnline, setIsOnline] = useState(true);
   const [isSyncing, setIsSyncing] = useState(false);
   const [pendingCount, setPendingCount] = useState(0);
+  const [failedCount, setFailedCount] = useState(0);
 
   useEffect(() => {
     // Set initial state
     setIsOnline(navigator.onLine);
+    reviewSyncEngine
+      .pendingCount()
+      .then(setPendingCount)
+      .catch((error) => logger.error('Failed to count pending reviews:', error));
 
     // Listen for online/offline events
     const handleOnline = () => {
@@ -39,8 +45,9 @@ export default function OfflineIndicator() {
 
     setIsSyncing(true);
     try {
-      await syncQueue.syncAll();
-      setPendingCount(0);
+      const [, reviewReport] = await Promise.all([syncQueue.syncAll(), reviewSyncEngine.sync()]);
+      setPendingCount(reviewReport.pending);
+      setFailedCount(reviewReport.failed.filter((failure) => !failure.retryable).length);
     } catch (error) {
       logger.error('Sync failed:', error);
     } finally {
@@ -49,7 +56,7 @@ export default function OfflineIndicator() {
   };
 
   // Don't show indicator when online and no pending items
-  if (isOnline && pendingCount === 0) {
+  if (isOnline && pendingCount === 0 && failedCount === 0) {
     return null;
   }
 
@@ -80,6 +87,11 @@ export default function OfflineIndicator() {
             {pendingCount} pending item{pendingCount !== 1 ? 's' : ''}
           </span>
         )}
+        {failedCount > 0 && (
+          <span className="text-xs text-red-600">
+            {failedCount} review{failedCount !== 1 ? 's' : ''} could not be synced
+          </span>
+        )}
       </div>
 
       {isOnline && pendingCount > 0 && (
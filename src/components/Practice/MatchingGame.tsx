@@ -0,0 +1,283 @@
+/**
+ * Matching Game Component
+ * Drag each word onto its translation or onto the part of the image it
+ * names; clicking a word and then a target works too
+ */
+
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/Card';
+import { Button } from '../ui/Button';
+import { Progress } from '../ui/Progress';
+import { ArrowLeft, CheckCircle, Puzzle, RotateCcw } from 'lucide-react';
+import {
+  buildMatchingRound,
+  isMatch,
+  regionBackgroundStyle,
+  scoreMatching,
+  DEFAULT_MATCHING_ROUND_SIZE,
+  type MatchingAttempt,
+  type MatchingCard,
+  type MatchingMode,
+  type MatchingScore,
+  type MatchingSourceItem,
+} from '@/lib/utils/matchingGame';
+import { usePracticeSession } from '@/hooks/usePracticeSession';
+
+interface MatchingGameProps {
+  items: MatchingSourceItem[];
+  mode: MatchingMode;
+  roundSize?: number;
+  /** Same seed, same round; replays move on to a fresh one */
+  seed?: string;
+  userId?: string;
+  onComplete?: (score: MatchingScore, round: { pairIds: string[] }) => void;
+  onExit?: () => void;
+  className?: string;
+}
+
+/** How long a wrong drop stays highlighted */
+const WRONG_FLASH_MS = 600;
+
+const DRAG_TYPE = 'text/plain';
+
+export const MatchingGame: React.FC<MatchingGameProps> = ({
+  items,
+  mode,
+  roundSize = DEFAULT_MATCHING_ROUND_SIZE,
+  seed = 'matching',
+  userId,
+  onComplete,
+  onExit,
+  className = '',
+}) => {
+  const [replay, setReplay] = useState(0);
+  const [matched, setMatched] = useState<Set<string>>(new Set());
+  const [attempts, setAttempts] = useState<MatchingAttempt[]>([]);
+  const [selectedWordId, setSelectedWordId] = useState<string | null>(null);
+  const [wrongTargetId, setWrongTargetId] = useState<string | null>(null);
+  const [score, setScore] = useState<MatchingScore | null>(null);
+  const { begin, finish } = usePracticeSession('matching', { userId });
+
+  const round = useMemo(
+    () => buildMatchingRound(items, mode, { size: roundSize, seed: `${seed}:${replay}` }),
+    [items, mode, roundSize, seed, replay]
+  );
+
+  useEffect(() => {
+    setMatched(new Set());
+    setAttempts([]);
+    setSelectedWordId(null);
+    setScore(null);
+    if (round.words.length > 0) begin();
+  }, [round, begin]);
+
+  useEffect(() => {
+    if (!wrongTargetId) return;
+    const timer = setTimeout(() => setWrongTargetId(null), WRONG_FLASH_MS);
+    return () => clearTimeout(timer);
+  }, [wrongTargetId]);
+
+  const completeRound = useCallback(
+    (finalAttempts: MatchingAttempt[]) => {
+      const result = scoreMatching(round, finalAttempts);
+      setScore(result);
+
+      const known = round.words.filter(word => !result.missed.includes(word.pairId));
+      void finish({
+        questionsAnswered: result.total,
+        correctAnswers: result.firstTry,
+        topicsStudied: [mode === 'image' ? 'matching-image' : 'matching-translation'],
+        imagesViewed: [
+          ...new Set(round.targets.flatMap(target => (target.imageUrl ? [target.imageUrl] : []))),
+        ],
+        vocabularyLearned: known.map(word => word.label ?? ''),
+      });
+      onComplete?.(result, { pairIds: round.words.map(word => word.pairId) });
+    },
+    [round, mode, finish, onComplete]
+  );
+
+  const tryMatch = useCallback(
+    (wordId: string, target: MatchingCard) => {
+      const word = round.words.find(card => card.id === wordId);
+      if (!word || matched.has(word.pairId) || matched.has(target.pairId)) return;
+
+      const correct = isMatch(word, target);
+      const nextAttempts = [...attempts, { pairId: word.pairId, correct }];
+      setAttempts(nextAttempts);
+      setSelectedWordId(null);
+
+      if (!correct) {
+        setWrongTargetId(target.id);
+        return;
+      }
+
+      const nextMatched = new Set(matched).add(word.pairId);
+      setMatched(nextMatched);
+      if (nextMatched.size === round.words.length) {
+        completeRound(nextAttempts);
+      }
+    },
+    [round, matched, attempts, completeRound]
+  );
+
+  const header = (
+    <div className='flex items-center justify-between'>
+      <CardTitle className='flex items-center gap-2'>
+        <Puzzle className='w-5 h-5' />
+        {mode === 'image' ? 'Match the words to the picture' : 'Match the translations'}
+      </CardTitle>
+      {onExit && (
+        <Button variant='outline' size='sm' onClick={onExit}>
+          <ArrowLeft className='w-4 h-4 mr-1' />
+          Back
+        </Button>
+      )}
+    </div>
+  );
+
+  if (round.words.length < 2) {
+    return (
+      <Card className={className}>
+        <CardHeader>{header}</CardHeader>
+        <CardContent className='p-8 text-center'>
+          <p className='text-gray-500'>
+            {mode === 'image'
+              ? 'This image needs at least two labelled areas to play.'
+              : 'Add at least two words with translations to play.'}
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (score) {
+    return (
+      <Card className={className}>
+        <CardHeader>{header}</CardHeader>
+        <CardContent className='p-8 text-center space-y-4'>
+          <CheckCircle className='w-12 h-12 mx-auto text-green-500' />
+          <h3 className='text-lg font-medium'>All pairs matched</h3>
+          <p className='text-gray-600 dark:text-gray-400'>
+            {score.firstTry} of {score.total} on the first try ({score.accuracy}%)
+            {score.mistakes > 0 &&
+              ` · ${score.mistakes} wrong drop${score.mistakes === 1 ? '' : 's'}`}
+          </p>
+          {score.missed.length > 0 && (
+            <ul className='text-sm text-left max-w-sm mx-auto space-y-1'>
+              {round.words
+                .filter(word => score.missed.includes(word.pairId))
+                .map(word => {
+                  const target = round.targets.find(card => card.pairId === word.pairId);
+                  return (
+                    <li key={word.id} className='flex justify-between gap-4'>
+                      <span className='font-medium'>{word.label}</span>
+                      {target?.label && <span className='text-gray-500'>{target.label}</span>}
+                    </li>
+                  );
+                })}
+            </ul>
+          )}
+          <Button onClick={() => setReplay(prev => prev + 1)}>
+            <RotateCcw className='w-4 h-4 mr-1' />
+            Play again
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className={className}>
+      <CardHeader className='space-y-3'>
+        {header}
+        <Progress value={matched.size} max={round.words.length} />
+      </CardHeader>
+      <CardContent>
+        <div className='grid grid-cols-2 gap-6'>
+          <ul className='space-y-2' aria-label='Words'>
+            {round.words.map(word => {
+              const done = matched.has(word.pairId);
+              const selected = selectedWordId === word.id;
+              return (
+                <li key={word.id}>
+                  <button
+                    type='button'
+                    draggable={!done}
+                    disabled={done}
+                    aria-pressed={selected}
+                    data-testid='matching-word'
+                    onDragStart={event => {
+                      event.dataTransfer.setData(DRAG_TYPE, word.id);
+                      event.dataTransfer.effectAllowed = 'move';
+                    }}
+                    onClick={() => setSelectedWordId(selected ? null : word.id)}
+                    className={`w-full px-4 py-3 rounded-lg border text-left font-medium transition-colors ${
+                      done
+                        ? 'border-green-300 bg-green-50 text-green-800 dark:bg-green-900/20 dark:text-green-300'
+                        : selected
+                          ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/30'
+                          : 'border-gray-200 dark:border-gray-700 hover:border-blue-300 cursor-grab'
+                    }`}
+                  >
+                    {word.label}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+
+          <ul
+            className={mode === 'image' ? 'grid grid-cols-2 gap-2' : 'space-y-2'}
+            aria-label={mode === 'image' ? 'Picture areas' : 'Translations'}
+          >
+            {round.targets.map((target, index) => {
+              const done = matched.has(target.pairId);
+              const wrong = wrongTargetId === target.id;
+              const word = done ? round.words.find(card => card.pairId === target.pairId) : null;
+              return (
+                <li key={target.id}>
+                  <button
+                    type='button'
+                    disabled={done}
+                    data-testid='matching-target'
+                    aria-label={target.label ?? `Picture area ${index + 1}`}
+                    onDragOver={event => event.preventDefault()}
+                    onDrop={event => {
+                      event.preventDefault();
+                      tryMatch(event.dataTransfer.getData(DRAG_TYPE), target);
+                    }}
+                    onClick={() => selectedWordId && tryMatch(selectedWordId, target)}
+                    className={`w-full rounded-lg border transition-colors ${
+                      done
+                        ? 'border-green-300 bg-green-50 dark:bg-green-900/20'
+                        : wrong
+                          ? 'border-red-400 bg-red-50 dark:bg-red-900/20'
+                          : 'border-dashed border-gray-300 dark:border-gray-600 hover:border-blue-300'
+                    } ${target.imageUrl ? 'p-1' : 'px-4 py-3 text-left'}`}
+                  >
+                    {target.imageUrl ? (
+                      <span
+                        className='block h-24 w-full rounded bg-no-repeat'
+                        style={regionBackgroundStyle(target.imageUrl, target.region)}
+                      />
+                    ) : (
+                      target.label
+                    )}
+                    {word && target.imageUrl && (
+                      <span className='block pt-1 text-sm font-medium text-green-800 dark:text-green-300'>
+                        {word.label}
+                      </span>
+                    )}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MatchingGame;
@@ -0,0 +1,253 @@
+/**
+ * Writing Exercise Component
+ * The learner describes the image in their own words, then sees their text
+ * corrected, compared with the AI description, and which of their saved
+ * words they used
+ */
+
+import React, { useState, useCallback, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/Card';
+import { Button } from '../ui/Button';
+import { Progress } from '../ui/Progress';
+import { Badge } from '../ui/Badge';
+import { PenLine, RotateCcw, Send } from 'lucide-react';
+import { keyManager } from '@/lib/keys/keyManager';
+import type { WritingReview } from '@/lib/utils/writingExercise';
+import { usePracticeSession } from '@/hooks/usePracticeSession';
+import { logger } from '@/lib/logger';
+
+interface WritingExerciseProps {
+  imageUrl: string;
+  /**
+   * The AI description the learner's text is compared with; may be left out
+   * when `reviewText` compares against a reference kept on the server
+   */
+  referenceDescription?: string;
+  /** What the reference is called, e.g. "teacher's description" */
+  referenceLabel?: string;
+  language?: string;
+  userId?: string;
+  /** Reviews the text in place of POST /api/sessions/writing */
+  reviewText?: (text: string) => Promise<WritingReview>;
+  onComplete?: (review: WritingReview) => void;
+  className?: string;
+}
+
+/** Below this many words there is too little to correct or compare */
+const MIN_WORDS = 5;
+
+function countWords(text: string): number {
+  return text.trim() ? text.trim().split(/\s+/).length : 0;
+}
+
+export const WritingExercise: React.FC<WritingExerciseProps> = ({
+  imageUrl,
+  referenceDescription,
+  referenceLabel = 'AI description',
+  language = 'es',
+  userId,
+  reviewText,
+  onComplete,
+  className = '',
+}) => {
+  const [text, setText] = useState('');
+  const [review, setReview] = useState<WritingReview | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { begin, finish } = usePracticeSession('writing', { userId });
+
+  const wordCount = countWords(text);
+
+  // A new image is a new exercise
+  useEffect(() => {
+    setText('');
+    setReview(null);
+    setError(null);
+  }, [imageUrl, referenceDescription]);
+
+  const handleSubmit = useCallback(async () => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      let data: WritingReview;
+      if (reviewText) {
+        data = await reviewText(text);
+      } else {
+        const response = await fetch('/api/sessions/writing', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            text,
+            referenceDescription,
+            language,
+            userApiKey: keyManager.get('anthropic') || undefined,
+          }),
+        });
+        const result = await response.json();
+        if (!response.ok || !result.success) throw new Error(result.error);
+        data = result.data;
+      }
+
+      setReview(data);
+      void finish({
+        questionsAnswered: 1,
+        correctAnswers: data.reviewed && data.corrections.length === 0 ? 1 : 0,
+        topicsStudied: ['writing'],
+        imagesViewed: [imageUrl],
+        vocabularyLearned: data.vocabularyUsed.map(use => use.text),
+      });
+      onComplete?.(data);
+    } catch (submitError) {
+      logger.error('Failed to review writing:', submitError);
+      setError('Your description could not be checked. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [text, reviewText, referenceDescription, language, imageUrl, finish, onComplete]);
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className='flex items-center gap-2'>
+          <PenLine className='w-5 h-5' />
+          Describe the image
+        </CardTitle>
+      </CardHeader>
+      <CardContent className='space-y-6'>
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img
+          src={imageUrl}
+          alt='Image to describe'
+          className='w-full max-h-80 object-cover rounded-lg'
+        />
+
+        {!review ? (
+          <div className='space-y-3'>
+            <label htmlFor='writing-exercise-text' className='block text-sm font-medium'>
+              Write what you see, in your own words
+            </label>
+            <textarea
+              id='writing-exercise-text'
+              value={text}
+              onChange={event => {
+                if (!text) begin();
+                setText(event.target.value);
+              }}
+              rows={6}
+              maxLength={2000}
+              className='w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 p-3'
+              placeholder='En la imagen hay...'
+            />
+            <div className='flex items-center justify-between'>
+              <span className='text-sm text-gray-500'>
+                {wordCount} word{wordCount === 1 ? '' : 's'}
+                {wordCount < MIN_WORDS && ` · write at least ${MIN_WORDS}`}
+              </span>
+              <Button onClick={handleSubmit} disabled={wordCount < MIN_WORDS || isSubmitting}>
+                <Send className='w-4 h-4 mr-1' />
+                {isSubmitting ? 'Checking...' : 'Check my description'}
+              </Button>
+            </div>
+            {error && (
+              <p role='alert' className='text-sm text-red-600'>
+                {error}
+              </p>
+            )}
+          </div>
+        ) : (
+          <div className='space-y-6'>
+            <section className='space-y-2'>
+              <h4 className='font-medium'>Your description</h4>
+              {review.reviewed ? (
+                <>
+                  <p className='rounded-lg bg-gray-50 dark:bg-gray-800 p-3'>
+                    {review.correctedText}
+                  </p>
+                  {review.corrections.length === 0 ? (
+                    <p className='text-sm text-green-700 dark:text-green-400'>No mistakes found.</p>
+                  ) : (
+                    <ul className='space-y-2 text-sm' aria-label='Corrections'>
+                      {review.corrections.map((correction, index) => (
+                        <li key={index}>
+                          <span className='line-through text-red-600'>{correction.original}</span> →{' '}
+                          <span className='font-medium text-green-700'>
+                            {correction.correction}
+                          </span>
+                          <span className='block text-gray-500'>{correction.explanation}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {review.feedback && <p className='text-sm'>{review.feedback}</p>}
+                </>
+              ) : (
+                <>
+                  <p className='rounded-lg bg-gray-50 dark:bg-gray-800 p-3'>{text}</p>
+                  <p className='text-sm text-gray-500'>
+                    Corrections are unavailable right now; the comparison below still applies.
+                  </p>
+                </>
+              )}
+            </section>
+
+            <section className='space-y-2'>
+              <h4 className='font-medium'>Compared with the {referenceLabel}</h4>
+              <Progress value={review.comparison.coverage} />
+              <p className='text-sm text-gray-600 dark:text-gray-400'>
+                You used {review.comparison.sharedWords.length} of its key words (
+                {review.comparison.coverage}%)
+              </p>
+              {review.comparison.missedWords.length > 0 && (
+                <div className='flex flex-wrap gap-1' aria-label='Key words you did not use'>
+                  {review.comparison.missedWords.map(word => (
+                    <Badge key={word} variant='outline'>
+                      {word}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+              {referenceDescription && (
+                <details className='text-sm'>
+                  <summary className='cursor-pointer text-blue-600'>
+                    Show the {referenceLabel}
+                  </summary>
+                  <p className='mt-2'>{referenceDescription}</p>
+                </details>
+              )}
+            </section>
+
+            <section className='space-y-2'>
+              <h4 className='font-medium'>Your saved vocabulary</h4>
+              {review.vocabularyUsed.length === 0 ? (
+                <p className='text-sm text-gray-500'>None of your saved words appear yet.</p>
+              ) : (
+                <div className='flex flex-wrap gap-1' aria-label='Saved words you used'>
+                  {review.vocabularyUsed.map(use => (
+                    <Badge key={use.id}>
+                      {use.usedAs}
+                      {use.translation && ` · ${use.translation}`}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </section>
+
+            <Button
+              variant='outline'
+              onClick={() => {
+                setText('');
+                setReview(null);
+              }}
+            >
+              <RotateCcw className='w-4 h-4 mr-1' />
+              Write another
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WritingExercise;
@@ -0,0 +1,2 @@
+export { MatchingGame } from './MatchingGame';
+export { WritingExercise } from './WritingExercise';
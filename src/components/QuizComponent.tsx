@@ -11,6 +11,7 @@ import {
   Volume2,
 } from "lucide-react";
 import { SavedPhrase } from "@/types/api";
+import { useSpeech } from "@/hooks/useSpeech";
 import {
   getDifficultyColor,
   getCategoryColor,
@@ -62,6 +63,7 @@ export const QuizComponent: React.FC<QuizComponentProps> = ({
   const [questionStartTime, setQuestionStartTime] = useState<Date>(new Date());
   const [timeRemaining, setTimeRemaining] = useState<number | null>(null);
   const [showHint, setShowHint] = useState(false);
+  const { speak } = useSpeech();
   const [answers, setAnswers] = useState<
     Array<{
       question: QuizQuestion;
@@ -205,15 +207,6 @@ export const QuizComponent: React.FC<QuizComponentProps> = ({
     }, 2000);
   };
 
-  const speakText = (text: string) => {
-    if ("speechSynthesis" in window) {
-      const utterance = new SpeechSynthesisUtterance(text);
-      utterance.lang = "es-ES";
-      utterance.rate = 0.8;
-      speechSynthesis.speak(utterance);
-    }
-  };
-
   const formatTime = (seconds: number): string => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
@@ -286,7 +279,7 @@ export const QuizComponent: React.FC<QuizComponentProps> = ({
               {currentQuestion.phrase.difficulty}
             </span>
             <button
-              onClick={() => speakText(currentQuestion.phrase.phrase)}
+              onClick={() => speak(currentQuestion.phrase.phrase)}
               className="p-1 text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded transition-colors"
               title="Listen to pronunciation"
             >
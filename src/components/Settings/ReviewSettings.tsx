@@ -0,0 +1,41 @@
+"use client";
+
+import { memo } from "react";
+import { ReviewSettingsProps } from "./types";
+import type { SchedulingAlgorithmName } from "@/lib/algorithms/scheduler";
+
+export const ReviewSettings = memo<ReviewSettingsProps>(function ReviewSettings({
+  settings,
+  onSettingChange,
+}) {
+  return (
+    <div className="space-y-6">
+      <h3 className="text-lg font-semibold">Review Scheduling</h3>
+
+      {/* Scheduling Algorithm */}
+      <div className="p-4 bg-gray-50 dark:bg-gray-700 rounded-lg">
+        <h4 className="font-medium mb-1">Algorithm</h4>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+          Decides when vocabulary comes back for review. Reviews are scheduled
+          on the server, so the choice applies on every device.
+        </p>
+        <select
+          aria-label="Review scheduling algorithm"
+          value={settings.study.schedulingAlgorithm}
+          onChange={(e) =>
+            onSettingChange("study", {
+              schedulingAlgorithm: e.target.value as SchedulingAlgorithmName,
+            })
+          }
+          className="w-full px-3 py-2 border rounded-lg dark:bg-gray-600 dark:border-gray-500"
+        >
+          <option value="sm2">SM-2 (classic)</option>
+          <option value="leitner">Leitner boxes</option>
+          <option value="fsrs">FSRS (adapts to your review history)</option>
+        </select>
+      </div>
+    </div>
+  );
+});
+
+ReviewSettings.displayName = "ReviewSettings";
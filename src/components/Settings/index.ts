@@ -3,4 +3,5 @@ export { AppearanceSettings } from "./AppearanceSettings";
 export { PrivacySettings } from "./PrivacySettings";
 export { ExportSettings } from "./ExportSettings";
 export { NotificationSettings } from "./NotificationSettings";
+export { ReviewSettings } from "./ReviewSettings";
 export * from "./types";
\ No newline at end of file
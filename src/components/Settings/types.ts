@@ -37,12 +37,15 @@ export interface ExportSettingsProps extends BaseSettingsProps {
 
 export interface NotificationSettingsProps extends BaseSettingsProps {}
 
+export interface ReviewSettingsProps extends BaseSettingsProps {}
+
 export type TabType =
   | 'general'
   | 'apikeys'
   | 'api'
   | 'language'
   | 'study'
+  | 'review'
   | 'theme'
   | 'accessibility'
   | 'privacy'
@@ -8,6 +8,7 @@ import {
   PrivacySettings,
   ExportSettings,
   NotificationSettings,
+  ReviewSettings,
   type TabType,
   type Tab,
 } from './Settings';
@@ -147,6 +148,7 @@ export const SettingsModal = memo<SettingsModalProps>(function SettingsModal({
     { id: 'apikeys', label: 'API Keys', icon: '🔑' },
     { id: 'theme', label: 'Appearance', icon: '🎨' },
     { id: 'study', label: 'Study & Notifications', icon: '📚' },
+    { id: 'review', label: 'Review Scheduling', icon: '🔁' },
     { id: 'privacy', label: 'Language', icon: '🌐' },
     { id: 'cache', label: 'Data & Export', icon: '💾' },
   ];
@@ -174,6 +176,8 @@ export const SettingsModal = memo<SettingsModalProps>(function SettingsModal({
         return <AppearanceSettings settings={settings} onSettingChange={handleSettingChange} />;
       case 'study':
         return <NotificationSettings settings={settings} onSettingChange={handleSettingChange} />;
+      case 'review':
+        return <ReviewSettings settings={settings} onSettingChange={handleSettingChange} />;
       case 'cache':
       case 'backup': // Legacy support - combined into export
         return (
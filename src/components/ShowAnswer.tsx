@@ -4,6 +4,8 @@ import React, { useState } from "react";
 import { AnimatePresence } from "framer-motion";
 import { MotionDiv, MotionButton } from "@/components/ui/MotionComponents";
 import { logger } from '@/lib/logger';
+import { useSpeech } from "@/hooks/useSpeech";
+import { HighlightedText } from "@/components/Speech";
 import {
   Eye,
   EyeOff,
@@ -56,13 +58,11 @@ export function ShowAnswer({
     }
   };
 
+  const { speak, stop, isSpeaking, activeWord } = useSpeech();
+
   const handleSpeak = () => {
-    if ("speechSynthesis" in window) {
-      const utterance = new SpeechSynthesisUtterance(answer);
-      utterance.lang = "es-ES"; // Spanish pronunciation
-      utterance.rate = 0.8; // Slightly slower for learning
-      speechSynthesis.speak(utterance);
-    }
+    if (isSpeaking) stop();
+    else speak(answer);
   };
 
   const getDifficultyColor = (diff: string) => {
@@ -176,7 +176,7 @@ export function ShowAnswer({
                     </div>
 
                     <p className="text-lg font-semibold text-green-900 dark:text-green-100 mb-2">
-                      {answer}
+                      <HighlightedText text={answer} activeWord={activeWord} />
                     </p>
 
                     {pronunciation && (
@@ -0,0 +1,256 @@
+/**
+ * Contrast Drill Component
+ * Side-by-side practice for the word pairs a learner keeps confusing
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/Card';
+import { Button } from '../ui/Button';
+import { Progress } from '../ui/Progress';
+import { Badge } from '../ui/Badge';
+import { ArrowLeft, ArrowRight, CheckCircle, GitCompare, XCircle } from 'lucide-react';
+import { LoadingSpinner } from '../Shared/LoadingStates';
+import {
+  scoreContrastDrill,
+  type ContrastDrill,
+  type ContrastOutcome,
+  type PairSide,
+} from '@/lib/utils/contrastDrills';
+import { logger } from '@/lib/logger';
+
+interface ContrastDrillSessionProps {
+  onExit: () => void;
+  maxDrills?: number;
+  className?: string;
+}
+
+const KIND_LABELS: Record<ContrastDrill['kind'], string> = {
+  grammar: 'Grammar',
+  false_friends: 'False friends',
+  vocabulary: 'Your words',
+};
+
+export const ContrastDrillSession: React.FC<ContrastDrillSessionProps> = ({
+  onExit,
+  maxDrills = 5,
+  className = '',
+}) => {
+  const [drills, setDrills] = useState<ContrastDrill[] | null>(null);
+  const [loadError, setLoadError] = useState(false);
+  const [drillIndex, setDrillIndex] = useState(0);
+  const [started, setStarted] = useState(false);
+  const [exerciseIndex, setExerciseIndex] = useState(0);
+  const [answers, setAnswers] = useState<PairSide[]>([]);
+  const [outcomes, setOutcomes] = useState<ContrastOutcome[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch(`/api/vocabulary/review/contrast?limit=${maxDrills}`)
+      .then(async response => {
+        const result = await response.json();
+        if (!response.ok || !result.success) throw new Error(result.error);
+        if (!cancelled) setDrills(result.data);
+      })
+      .catch(error => {
+        logger.error('Failed to load contrast drills:', error);
+        if (!cancelled) setLoadError(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [maxDrills]);
+
+  const drill = drills?.[drillIndex];
+  const exercise = drill?.exercises[exerciseIndex];
+  const selected = answers[exerciseIndex];
+
+  const finishDrill = useCallback((current: ContrastDrill, drillAnswers: PairSide[]) => {
+    const outcome = scoreContrastDrill(current, drillAnswers);
+    setOutcomes(prev => [...prev, outcome]);
+
+    // Results only tune the confusion graph, so a failed save never blocks the drill
+    fetch('/api/vocabulary/review/contrast', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ outcomes: [outcome] }),
+    }).catch(error => logger.error('Failed to record contrast drill:', error));
+
+    setDrillIndex(prev => prev + 1);
+    setStarted(false);
+    setExerciseIndex(0);
+    setAnswers([]);
+  }, []);
+
+  const handleNext = useCallback(() => {
+    if (!drill) return;
+    if (exerciseIndex < drill.exercises.length - 1) {
+      setExerciseIndex(prev => prev + 1);
+    } else {
+      finishDrill(drill, answers);
+    }
+  }, [drill, exerciseIndex, answers, finishDrill]);
+
+  const header = (
+    <div className='flex items-center justify-between'>
+      <CardTitle className='flex items-center gap-2'>
+        <GitCompare className='w-5 h-5' />
+        Contrast Drill
+      </CardTitle>
+      <Button variant='outline' size='sm' onClick={onExit}>
+        <ArrowLeft className='w-4 h-4 mr-1' />
+        Back to review
+      </Button>
+    </div>
+  );
+
+  if (!drills && !loadError) {
+    return (
+      <div className={`flex items-center justify-center h-64 ${className}`}>
+        <LoadingSpinner size='lg' />
+      </div>
+    );
+  }
+
+  if (loadError || !drills || drills.length === 0) {
+    return (
+      <Card className={className}>
+        <CardHeader>{header}</CardHeader>
+        <CardContent className='p-8 text-center'>
+          <p className='text-gray-500'>
+            {loadError
+              ? 'Contrast drills could not be loaded. Please try again later.'
+              : 'No confusable words yet. Pairs you mix up during review will show up here.'}
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!drill) {
+    const correct = outcomes.reduce((sum, o) => sum + o.correct, 0);
+    const total = outcomes.reduce((sum, o) => sum + o.total, 0);
+
+    return (
+      <Card className={className}>
+        <CardHeader>{header}</CardHeader>
+        <CardContent className='p-8 text-center space-y-4'>
+          <CheckCircle className='w-12 h-12 mx-auto text-green-500' />
+          <h3 className='text-lg font-medium'>Drills complete</h3>
+          <p className='text-gray-600'>
+            {correct} of {total} correct across {outcomes.length} word pairs
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className={`max-w-4xl mx-auto space-y-6 ${className}`}>
+      <Card>
+        <CardHeader>
+          {header}
+          <Progress value={(drillIndex / drills.length) * 100} className='h-2' />
+        </CardHeader>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className='flex items-center justify-between'>
+            <div className='text-2xl font-bold text-gray-800'>{drill.topic}</div>
+            <Badge className='bg-purple-100 text-purple-800 border-purple-200'>
+              {KIND_LABELS[drill.kind]}
+            </Badge>
+          </div>
+        </CardHeader>
+
+        <CardContent className='space-y-6'>
+          {/* The two words side by side */}
+          <div className='grid grid-cols-1 sm:grid-cols-2 gap-4'>
+            {drill.words.map((word, side) => (
+              <div
+                key={word.id}
+                className='bg-blue-50 p-4 rounded-lg border-l-4 border-blue-300 space-y-1'
+              >
+                <div className='text-xl font-semibold text-gray-800'>{word.text}</div>
+                <p className='text-sm text-gray-700'>{drill.notes[side]}</p>
+              </div>
+            ))}
+          </div>
+
+          {!started || !exercise ? (
+            <div className='text-center'>
+              <Button
+                onClick={() => setStarted(true)}
+                className='bg-blue-600 hover:bg-blue-700 text-white px-8 py-3'
+              >
+                Start {drill.exercises.length} exercises
+                <ArrowRight className='w-4 h-4 ml-2' />
+              </Button>
+            </div>
+          ) : (
+            <div className='border-t pt-6 space-y-4'>
+              <div className='text-sm text-gray-500 text-center'>
+                {exerciseIndex + 1} of {drill.exercises.length}
+              </div>
+              <div className='text-center space-y-1'>
+                <p className='text-lg text-gray-800'>{exercise.prompt}</p>
+                {exercise.translation && selected !== undefined && (
+                  <p className='text-sm italic text-gray-500'>{exercise.translation}</p>
+                )}
+              </div>
+
+              <div className='grid grid-cols-2 gap-3'>
+                {exercise.options.map((option, index) => {
+                  const side = index as PairSide;
+                  const answered = selected !== undefined;
+                  const isAnswer = side === exercise.answer;
+                  const color = !answered
+                    ? 'bg-white hover:bg-gray-50 text-gray-800 border'
+                    : isAnswer
+                      ? 'bg-green-500 text-white'
+                      : side === selected
+                        ? 'bg-red-500 text-white'
+                        : 'bg-gray-100 text-gray-500';
+
+                  return (
+                    <Button
+                      key={side}
+                      onClick={() =>
+                        setAnswers(prev => {
+                          const next = [...prev];
+                          next[exerciseIndex] = side;
+                          return next;
+                        })
+                      }
+                      disabled={answered}
+                      className={`${color} p-4 h-auto flex items-center justify-center gap-2`}
+                    >
+                      {answered && isAnswer && <CheckCircle className='w-4 h-4' />}
+                      {answered && !isAnswer && side === selected && (
+                        <XCircle className='w-4 h-4' />
+                      )}
+                      <span className='font-semibold'>{option}</span>
+                    </Button>
+                  );
+                })}
+              </div>
+
+              {selected !== undefined && (
+                <div className='text-center'>
+                  <Button onClick={handleNext} className='bg-blue-600 hover:bg-blue-700 text-white'>
+                    {exerciseIndex < drill.exercises.length - 1 ? 'Next' : 'Finish pair'}
+                    <ArrowRight className='w-4 h-4 ml-2' />
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ContrastDrillSession;
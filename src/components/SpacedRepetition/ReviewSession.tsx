@@ -20,19 +20,38 @@ import {
   TrendingUp,
   Lightbulb,
   ArrowRight,
+  GitCompare,
+  Mic,
 } from "lucide-react";
-import {
-  useReviewSession,
-  useProcessReviewResponse,
-  usePhrase,
-} from "../../hooks/useVocabulary";
 import { LoadingSpinner } from "../Shared/LoadingStates";
+import { ContrastDrillSession } from "./ContrastDrill";
+import { SpeakingPractice } from "../Speech";
+import { useSpeech } from "../../hooks/useSpeech";
+import {
+  pronunciationGrade,
+  speechLocale,
+  type PronunciationScore,
+} from "../../lib/speech";
+import { useAppStore } from "../../lib/store/appStore";
 import { SpacedRepetitionUtils } from "../../lib/algorithms/spaced-repetition";
+import {
+  cacheDueCards,
+  getDueOfflineCards,
+  recordOfflineReview,
+  removeCachedReviewCard,
+} from "../../lib/offline-review-sync";
 import { logger } from '@/lib/logger';
 
+type ReviewMode = "review" | "contrast" | "speaking";
+
 interface ReviewSessionProps {
   onComplete: (results: ReviewSessionResults) => void;
   maxCards?: number;
+  /**
+   * Start in contrast drill mode, or in speaking mode where each phrase is
+   * said aloud and the pronunciation score suggests the grade
+   */
+  initialMode?: ReviewMode;
   className?: string;
 }
 
@@ -42,30 +61,145 @@ interface ReviewSessionResults {
   averageResponseTime: number;
   cardsReviewed: string[];
   sessionDuration: number;
+  /** Mean pronunciation score (0-100) of the cards answered aloud */
+  averagePronunciationScore?: number;
+}
+
+/**
+ * A due card: the learner's schedule for one vocabulary item and the text
+ * to review
+ */
+interface DueReviewCard {
+  id: string;
+  repetitions: number;
+  easeFactor: number;
+  nextReviewDate: string | null;
+  phrase: {
+    spanish_text: string;
+    english_translation: string;
+    phonetic_pronunciation?: string;
+    context_sentence_spanish?: string;
+    context_sentence_english?: string;
+    usage_notes?: string;
+  };
+}
+
+/**
+ * Build a card from a `user_vocabulary` row selected with its vocabulary
+ * item. Rows whose item no longer exists are skipped.
+ */
+function dueReviewCardFromRow(
+  row: Record<string, unknown>,
+): DueReviewCard | null {
+  const item = row.vocabulary_item as Record<string, string | null> | null;
+  if (!item?.spanish_text) return null;
+
+  return {
+    id: String(row.id),
+    repetitions: Number(row.repetitions) || 0,
+    easeFactor: Number(row.ease_factor) || 2.5,
+    nextReviewDate: (row.next_review_date as string | null) ?? null,
+    phrase: {
+      spanish_text: item.spanish_text,
+      english_translation: item.english_translation ?? "",
+      phonetic_pronunciation: item.pronunciation_ipa ?? undefined,
+      context_sentence_spanish: item.context_sentence_spanish ?? undefined,
+      context_sentence_english: item.context_sentence_english ?? undefined,
+      usage_notes: item.usage_notes ?? undefined,
+    },
+  };
 }
 
 export const ReviewSession: React.FC<ReviewSessionProps> = ({
   onComplete,
   maxCards = 20,
+  initialMode = "review",
   className = "",
 }) => {
+  const [mode, setMode] = useState<ReviewMode>(initialMode);
   const [currentCardIndex, setCurrentCardIndex] = useState(0);
   const [showAnswer, setShowAnswer] = useState(false);
   const [sessionStartTime] = useState(new Date());
   const [cardStartTime, setCardStartTime] = useState<Date | null>(null);
   const [responses, setResponses] = useState<
-    Array<{ phraseId: string; quality: number; responseTime: number }>
+    Array<{
+      phraseId: string;
+      quality: number;
+      responseTime: number;
+      pronunciationScore?: number;
+    }>
   >([]);
   const [isComplete, setIsComplete] = useState(false);
+  const [spokenScore, setSpokenScore] = useState<PronunciationScore | null>(
+    null,
+  );
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [currentCards, setCurrentCards] = useState<DueReviewCard[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
 
   // Hooks
-  const { data: reviewSession, isLoading } = useReviewSession(10, maxCards);
-  const processResponse = useProcessReviewResponse();
+  const { speak } = useSpeech();
+  const spanishVariant = useAppStore(
+    (state) => state.preferences.spanishVariant,
+  );
+  const locale = speechLocale("es", spanishVariant);
+
+  // Load the learner's due cards; ids are user_vocabulary rows. Offline,
+  // the session runs on the cards cached by the last online session.
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchDueRows = async (): Promise<Array<Record<string, unknown>>> => {
+      if (!navigator.onLine) {
+        const cached = await getDueOfflineCards();
+        return cached.map((card) => ({
+          ...card.item,
+          ...card.schedule,
+          id: card.id,
+        }));
+      }
+
+      const response = await fetch(`/api/vocabulary/review?limit=${maxCards}`);
+      if (!response.ok) {
+        throw new Error(`Failed to load review cards: ${response.status}`);
+      }
+      const { items } = (await response.json()) as {
+        items: Array<Record<string, unknown>>;
+      };
+
+      // Keep the next few days of cards for reviewing without a connection
+      cacheDueCards().catch((error) =>
+        logger.warn("Failed to cache review cards for offline use:", error),
+      );
+      return items;
+    };
+
+    const loadCards = async () => {
+      try {
+        const rows = await fetchDueRows();
+        if (!cancelled) {
+          setCurrentCards(
+            rows
+              .map(dueReviewCardFromRow)
+              .filter((card): card is DueReviewCard => card !== null)
+              .slice(0, maxCards),
+          );
+        }
+      } catch (error) {
+        logger.error("Failed to load review cards:", error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadCards();
+    return () => {
+      cancelled = true;
+    };
+  }, [maxCards]);
 
   // Current card data
-  const currentCards = reviewSession?.cards_due || [];
   const currentCard = currentCards[currentCardIndex];
-  const { data: currentPhrase } = usePhrase(currentCard?.phrase_id || "");
 
   // Start card timer when showing new card
   useEffect(() => {
@@ -79,6 +213,12 @@ export const ReviewSession: React.FC<ReviewSessionProps> = ({
     setShowAnswer(true);
   }, []);
 
+  // A spoken attempt reveals the answer; trying again replaces the score
+  const handleSpoken = useCallback((score: PronunciationScore) => {
+    setSpokenScore(score);
+    setShowAnswer(true);
+  }, []);
+
   // Handle response to a card
   const handleResponse = useCallback(
     async (quality: number) => {
@@ -89,28 +229,56 @@ export const ReviewSession: React.FC<ReviewSessionProps> = ({
 
       // Record response
       const response = {
-        phraseId: currentCard.phrase_id,
+        phraseId: currentCard.id,
         quality,
         responseTime,
+        pronunciationScore: spokenScore?.score,
       };
 
       setResponses((prev) => [...prev, response]);
 
-      // Process with spaced repetition algorithm
+      // The server schedules the card with the learner's chosen algorithm.
+      // Without a connection the grade is kept on this device and uploaded
+      // on reconnect.
+      setIsSubmitting(true);
+      const responseTimeMs = Math.round(responseTime * 1000);
+      let savedOnline = false;
       try {
-        await processResponse.mutateAsync({
-          phrase_id: currentCard.phrase_id,
-          response_quality: quality,
-          response_time_seconds: responseTime,
-        });
+        if (navigator.onLine) {
+          const result = await fetch("/api/vocabulary/review", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              itemId: currentCard.id,
+              quality,
+              responseTimeMs,
+            }),
+          });
+          if (!result.ok) {
+            throw new Error(`Review request failed: ${result.status}`);
+          }
+          savedOnline = true;
+          removeCachedReviewCard(currentCard.id).catch((error) =>
+            logger.warn("Failed to update offline review cards:", error),
+          );
+        }
       } catch (error) {
-        logger.error("Failed to process response:", error);
+        logger.error("Failed to save review:", error);
       }
+      if (!savedOnline) {
+        try {
+          await recordOfflineReview(currentCard.id, quality, responseTimeMs);
+        } catch (error) {
+          logger.error("Failed to record review offline:", error);
+        }
+      }
+      setIsSubmitting(false);
 
       // Move to next card or complete session
       if (currentCardIndex < currentCards.length - 1) {
         setCurrentCardIndex((prev) => prev + 1);
         setShowAnswer(false);
+        setSpokenScore(null);
       } else {
         // Session complete
         const sessionDuration =
@@ -121,6 +289,9 @@ export const ReviewSession: React.FC<ReviewSessionProps> = ({
         const averageResponseTime =
           [...responses, response].reduce((sum, r) => sum + r.responseTime, 0) /
           (responses.length + 1);
+        const spokenScores = [...responses, response]
+          .map((r) => r.pronunciationScore)
+          .filter((score): score is number => score !== undefined);
 
         const results: ReviewSessionResults = {
           totalCards: currentCards.length,
@@ -131,6 +302,11 @@ export const ReviewSession: React.FC<ReviewSessionProps> = ({
             response.phraseId,
           ],
           sessionDuration,
+          averagePronunciationScore:
+            spokenScores.length > 0
+              ? spokenScores.reduce((sum, score) => sum + score, 0) /
+                spokenScores.length
+              : undefined,
         };
 
         setIsComplete(true);
@@ -143,9 +319,9 @@ export const ReviewSession: React.FC<ReviewSessionProps> = ({
       currentCardIndex,
       currentCards.length,
       responses,
-      processResponse,
       sessionStartTime,
       onComplete,
+      spokenScore,
     ],
   );
 
@@ -183,6 +359,38 @@ export const ReviewSession: React.FC<ReviewSessionProps> = ({
     },
   ];
 
+  if (mode === "contrast") {
+    return (
+      <ContrastDrillSession
+        onExit={() => setMode("review")}
+        className={className}
+      />
+    );
+  }
+
+  const contrastButton = (
+    <Button variant="outline" size="sm" onClick={() => setMode("contrast")}>
+      <GitCompare className="w-4 h-4 mr-1" />
+      Contrast drill
+    </Button>
+  );
+
+  const speakingButton = (
+    <Button
+      variant={mode === "speaking" ? "default" : "outline"}
+      size="sm"
+      onClick={() => setMode(mode === "speaking" ? "review" : "speaking")}
+      aria-pressed={mode === "speaking"}
+    >
+      <Mic className="w-4 h-4 mr-1" />
+      Speaking
+    </Button>
+  );
+
+  const suggestedQuality = spokenScore
+    ? pronunciationGrade(spokenScore.score)
+    : null;
+
   if (isLoading) {
     return (
       <div className={`flex items-center justify-center h-64 ${className}`}>
@@ -191,7 +399,7 @@ export const ReviewSession: React.FC<ReviewSessionProps> = ({
     );
   }
 
-  if (!reviewSession || currentCards.length === 0) {
+  if (currentCards.length === 0) {
     return (
       <Card className={className}>
         <CardContent className="p-8 text-center">
@@ -199,9 +407,10 @@ export const ReviewSession: React.FC<ReviewSessionProps> = ({
           <h3 className="text-lg font-medium text-gray-600 mb-2">
             No cards due for review
           </h3>
-          <p className="text-gray-500">
+          <p className="text-gray-500 mb-4">
             Great job! Check back later for more cards to review.
           </p>
+          {contrastButton}
         </CardContent>
       </Card>
     );
@@ -232,14 +441,7 @@ export const ReviewSession: React.FC<ReviewSessionProps> = ({
     );
   }
 
-  if (!currentPhrase) {
-    return (
-      <div className={`flex items-center justify-center h-64 ${className}`}>
-        <LoadingSpinner size="lg" />
-      </div>
-    );
-  }
-
+  const currentPhrase = currentCard.phrase;
   const progress = ((currentCardIndex + 1) / currentCards.length) * 100;
 
   return (
@@ -263,6 +465,8 @@ export const ReviewSession: React.FC<ReviewSessionProps> = ({
                 )}
                 m
               </span>
+              {speakingButton}
+              {contrastButton}
             </div>
           </div>
           <Progress value={progress} className="h-2" />
@@ -275,18 +479,20 @@ export const ReviewSession: React.FC<ReviewSessionProps> = ({
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-2">
               <Badge className="bg-blue-100 text-blue-800 border-blue-200">
-                {SpacedRepetitionUtils.getMasteryLevel(currentCard)}
+                {SpacedRepetitionUtils.getMasteryLevel({
+                  successStreak: currentCard.repetitions,
+                })}
               </Badge>
               <Badge className="bg-gray-100 text-gray-800 border-gray-200">
                 {SpacedRepetitionUtils.getDifficultyDescription(
-                  currentCard.easiness_factor,
+                  currentCard.easeFactor,
                 )}
               </Badge>
             </div>
             <div className="text-sm text-gray-500">
               Next review:{" "}
               {SpacedRepetitionUtils.getNextReviewDescription(
-                currentCard.next_review_date,
+                currentCard.nextReviewDate,
               )}
             </div>
           </div>
@@ -304,12 +510,26 @@ export const ReviewSession: React.FC<ReviewSessionProps> = ({
                 <span className="text-gray-600">
                   /{currentPhrase.phonetic_pronunciation}/
                 </span>
-                <Button variant="outline" size="sm">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => speak(currentPhrase.spanish_text, { locale })}
+                  aria-label="Listen to pronunciation"
+                >
                   <Volume2 className="w-4 h-4" />
                 </Button>
               </div>
             )}
 
+            {mode === "speaking" && (
+              <SpeakingPractice
+                key={currentCard.id}
+                expectedText={currentPhrase.spanish_text}
+                locale={locale}
+                onScored={handleSpoken}
+              />
+            )}
+
             {/* Context sentence (always visible for context) */}
             {currentPhrase.context_sentence_spanish && (
               <div className="bg-blue-50 p-4 rounded-lg border-l-4 border-blue-300">
@@ -348,22 +568,13 @@ export const ReviewSession: React.FC<ReviewSessionProps> = ({
                 </div>
 
                 {/* Additional Information */}
-                {(currentPhrase.usage_notes || currentPhrase.user_notes) && (
+                {currentPhrase.usage_notes && (
                   <div className="bg-yellow-50 p-4 rounded-lg border-l-4 border-yellow-300">
                     <div className="flex items-start gap-2">
                       <Lightbulb className="w-5 h-5 text-yellow-600 mt-0.5 flex-shrink-0" />
-                      <div className="space-y-2">
-                        {currentPhrase.usage_notes && (
-                          <p className="text-sm text-gray-700">
-                            <strong>Usage:</strong> {currentPhrase.usage_notes}
-                          </p>
-                        )}
-                        {currentPhrase.user_notes && (
-                          <p className="text-sm text-gray-700">
-                            <strong>Note:</strong> {currentPhrase.user_notes}
-                          </p>
-                        )}
-                      </div>
+                      <p className="text-sm text-gray-700">
+                        <strong>Usage:</strong> {currentPhrase.usage_notes}
+                      </p>
                     </div>
                   </div>
                 )}
@@ -371,7 +582,9 @@ export const ReviewSession: React.FC<ReviewSessionProps> = ({
                 {/* Response Buttons */}
                 <div className="space-y-4">
                   <h4 className="text-lg font-medium text-center">
-                    How well did you know this?
+                    {suggestedQuality === null
+                      ? "How well did you know this?"
+                      : "Your pronunciation suggests this grade"}
                   </h4>
                   <div className="grid grid-cols-1 sm:grid-cols-5 gap-3">
                     {qualityButtons.map(
@@ -379,8 +592,13 @@ export const ReviewSession: React.FC<ReviewSessionProps> = ({
                         <Button
                           key={quality}
                           onClick={() => handleResponse(quality)}
-                          className={`${color} p-4 h-auto flex flex-col items-center gap-2`}
-                          disabled={processResponse.isLoading}
+                          className={`${color} p-4 h-auto flex flex-col items-center gap-2 ${
+                            quality === suggestedQuality
+                              ? "ring-4 ring-offset-2 ring-blue-300"
+                              : ""
+                          }`}
+                          aria-current={quality === suggestedQuality || undefined}
+                          disabled={isSubmitting}
                         >
                           <span className="font-semibold">{label}</span>
                           <span className="text-xs opacity-90">
@@ -1 +1,2 @@
 export { default as ReviewSession } from "./ReviewSession";
+export { default as ContrastDrillSession } from "./ContrastDrill";
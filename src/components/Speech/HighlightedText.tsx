@@ -0,0 +1,40 @@
+/**
+ * Text that highlights the word being spoken
+ */
+
+import React, { useMemo } from 'react';
+import { splitSpeechWords } from '@/lib/speech';
+
+interface HighlightedTextProps {
+  text: string;
+  /** Index into the text's words; -1 highlights nothing */
+  activeWord: number;
+  className?: string;
+  highlightClassName?: string;
+}
+
+export const HighlightedText: React.FC<HighlightedTextProps> = ({
+  text,
+  activeWord,
+  className = '',
+  highlightClassName = 'bg-yellow-200 rounded',
+}) => {
+  const words = useMemo(() => splitSpeechWords(text), [text]);
+  const word = words[activeWord];
+
+  if (!word) {
+    return <span className={className}>{text}</span>;
+  }
+
+  return (
+    <span className={className}>
+      {text.slice(0, word.start)}
+      <mark className={highlightClassName} data-testid='spoken-word'>
+        {text.slice(word.start, word.end)}
+      </mark>
+      {text.slice(word.end)}
+    </span>
+  );
+};
+
+export default HighlightedText;
@@ -0,0 +1,94 @@
+/**
+ * Pronunciation Feedback Component
+ * The expected text word by word, coloured by how accurately each word was
+ * said, with the overall score and what the recognizer heard
+ */
+
+import React from 'react';
+import type { PronunciationScore, WordAccuracyStatus } from '@/lib/speech';
+
+type UiLanguage = 'es' | 'en';
+
+const STATUS_CLASSES: Record<WordAccuracyStatus, string> = {
+  correct: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-200',
+  close: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-200',
+  wrong: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-200',
+  missing: 'bg-gray-100 text-gray-500 line-through dark:bg-gray-700 dark:text-gray-400',
+};
+
+const LABELS: Record<UiLanguage, Record<'score' | 'heard' | 'extra' | 'nothing', string>> = {
+  es: {
+    score: 'Pronunciación',
+    heard: 'Se oyó',
+    extra: 'Palabras de más',
+    nothing: 'No se oyó nada',
+  },
+  en: {
+    score: 'Pronunciation',
+    heard: 'Heard',
+    extra: 'Extra words',
+    nothing: 'Nothing was heard',
+  },
+};
+
+function scoreColor(score: number): string {
+  if (score >= 85) return 'text-green-600';
+  if (score >= 60) return 'text-yellow-600';
+  return 'text-red-600';
+}
+
+interface PronunciationFeedbackProps {
+  score: PronunciationScore;
+  uiLanguage?: UiLanguage;
+  className?: string;
+}
+
+export const PronunciationFeedback: React.FC<PronunciationFeedbackProps> = ({
+  score,
+  uiLanguage = 'en',
+  className = '',
+}) => {
+  const labels = LABELS[uiLanguage];
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      <div className='flex items-baseline justify-center gap-2'>
+        <span className='text-sm text-gray-600 dark:text-gray-400'>{labels.score}</span>
+        <span className={`text-2xl font-bold ${scoreColor(score.score)}`}>{score.score}%</span>
+      </div>
+
+      <div className='flex flex-wrap justify-center gap-2'>
+        {score.words.map((word, index) => (
+          <span
+            key={`${word.word}-${index}`}
+            data-testid='word-accuracy'
+            data-status={word.status}
+            title={word.heard ? `${labels.heard}: ${word.heard}` : undefined}
+            className={`inline-flex flex-col items-center rounded px-2 py-1 ${STATUS_CLASSES[word.status]}`}
+          >
+            <span className='font-medium'>{word.word}</span>
+            <span className='text-xs opacity-75'>{Math.round(word.accuracy * 100)}%</span>
+          </span>
+        ))}
+      </div>
+
+      <p className='text-center text-sm text-gray-600 dark:text-gray-400'>
+        {score.transcript ? (
+          <>
+            {labels.heard}: <span className='italic'>“{score.transcript}”</span>
+          </>
+        ) : (
+          labels.nothing
+        )}
+      </p>
+
+      {score.extraWords.length > 0 && (
+        <p className='text-center text-xs text-gray-500'>
+          {labels.extra}: {score.extraWords.join(', ')}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default PronunciationFeedback;
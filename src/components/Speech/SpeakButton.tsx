@@ -0,0 +1,44 @@
+/**
+ * Speak Button Component
+ * Plays the pronunciation of a word or phrase; pressing it again stops it
+ */
+
+import React from 'react';
+import { Square, Volume2 } from 'lucide-react';
+import { useSpeech } from '@/hooks/useSpeech';
+
+interface SpeakButtonProps {
+  text: string;
+  locale?: string;
+  /** Saved vocabulary items play their cached server audio */
+  vocabularyId?: string;
+  rate?: number;
+  className?: string;
+  title?: string;
+}
+
+export const SpeakButton: React.FC<SpeakButtonProps> = ({
+  text,
+  locale,
+  vocabularyId,
+  rate,
+  className = 'p-1 text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded transition-colors',
+  title = 'Listen to pronunciation',
+}) => {
+  const { speak, stop, isSpeaking, error } = useSpeech({ locale });
+
+  return (
+    <button
+      type='button'
+      onClick={() => (isSpeaking ? stop() : speak(text, { vocabularyId, rate }))}
+      className={className}
+      title={error ?? title}
+      aria-label={isSpeaking ? 'Stop pronunciation' : title}
+      aria-pressed={isSpeaking}
+    >
+      {isSpeaking ? <Square className='h-4 w-4' /> : <Volume2 className='h-4 w-4' />}
+    </button>
+  );
+};
+
+export default SpeakButton;
@@ -0,0 +1,109 @@
+/**
+ * Speaking Practice Component
+ * Records the learner saying a phrase or answer, scores it against the
+ * expected text and shows the per-word accuracy. Recording again replaces
+ * the score.
+ */
+
+import React, { useState } from 'react';
+import { Loader2, Mic, Square } from 'lucide-react';
+import { useSpeechRecognition } from '@/hooks/useSpeechRecognition';
+import { scorePronunciation, type PronunciationScore } from '@/lib/speech';
+import { PronunciationFeedback } from './PronunciationFeedback';
+
+type UiLanguage = 'es' | 'en';
+
+const LABELS: Record<UiLanguage, Record<'record' | 'again' | 'stop' | 'unsupported', string>> = {
+  es: {
+    record: 'Grabar respuesta',
+    again: 'Grabar de nuevo',
+    stop: 'Terminar',
+    unsupported: 'Tu navegador no puede grabar voz',
+  },
+  en: {
+    record: 'Record answer',
+    again: 'Record again',
+    stop: 'Done',
+    unsupported: 'This browser cannot record speech',
+  },
+};
+
+interface SpeakingPracticeProps {
+  /** What the learner should say */
+  expectedText: string;
+  locale?: string;
+  onScored: (score: PronunciationScore) => void;
+  disabled?: boolean;
+  uiLanguage?: UiLanguage;
+  className?: string;
+}
+
+export const SpeakingPractice: React.FC<SpeakingPracticeProps> = ({
+  expectedText,
+  locale,
+  onScored,
+  disabled = false,
+  uiLanguage = 'en',
+  className = '',
+}) => {
+  const { listen, stop, isListening, isSupported, error } = useSpeechRecognition({ locale });
+  const [score, setScore] = useState<PronunciationScore | null>(null);
+  const [isScoring, setIsScoring] = useState(false);
+  const labels = LABELS[uiLanguage];
+
+  const record = async () => {
+    setIsScoring(true);
+    try {
+      const result = await listen();
+      if (!result) return;
+
+      const next = scorePronunciation(expectedText, result);
+      setScore(next);
+      onScored(next);
+    } finally {
+      setIsScoring(false);
+    }
+  };
+
+  if (!isSupported) {
+    return <p className={`text-center text-sm text-gray-500 ${className}`}>{labels.unsupported}</p>;
+  }
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      <div className='flex justify-center'>
+        {isListening ? (
+          <button
+            type='button'
+            onClick={stop}
+            className='flex items-center gap-2 rounded-full bg-red-600 px-6 py-3 font-medium text-white hover:bg-red-700'
+            aria-label={labels.stop}
+          >
+            <Square className='h-4 w-4' />
+            {labels.stop}
+          </button>
+        ) : (
+          <button
+            type='button'
+            onClick={record}
+            disabled={disabled || isScoring}
+            className='flex items-center gap-2 rounded-full bg-blue-600 px-6 py-3 font-medium text-white hover:bg-blue-700 disabled:cursor-not-allowed disabled:bg-gray-400'
+          >
+            {isScoring ? <Loader2 className='h-4 w-4 animate-spin' /> : <Mic className='h-4 w-4' />}
+            {score ? labels.again : labels.record}
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <p role='alert' className='text-center text-sm text-red-600'>
+          {error}
+        </p>
+      )}
+
+      {score && <PronunciationFeedback score={score} uiLanguage={uiLanguage} />}
+    </div>
+  );
+};
+
+export default SpeakingPractice;
@@ -0,0 +1,4 @@
+export { HighlightedText } from './HighlightedText';
+export { PronunciationFeedback } from './PronunciationFeedback';
+export { SpeakButton } from './SpeakButton';
+export { SpeakingPractice } from './SpeakingPractice';
@@ -0,0 +1,151 @@
+/**
+ * Tab Sync Conflict Dialog
+ * Shown when the same fields were changed differently in two tabs. Lists
+ * both values per field and lets the user choose which one to keep.
+ */
+
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Modal } from '../ui/Modal';
+import { Button } from '../ui/Button';
+import { useTabSyncActions, useTabSyncConflicts } from '@/lib/store/tabSyncStore';
+import {
+  conflictKey,
+  type ConflictChoice,
+  type MergeConflict,
+  type MergePath,
+} from '@/lib/utils/threeWayMerge';
+
+const STORE_LABELS: Record<string, string> = {
+  'learning-session': 'Learning session',
+  forms: 'Forms',
+};
+
+function humanize(segment: string | number): string {
+  return String(segment)
+    .replace(/[_-]+/g, ' ')
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase();
+}
+
+export function formatConflictPath(path: MergePath): string {
+  return path.length ? path.map(humanize).join(' › ') : 'everything';
+}
+
+export function formatConflictValue(value: unknown): string {
+  if (value === undefined) return '(removed)';
+  if (value === null || value === '') return '(empty)';
+  if (value instanceof Date) return value.toLocaleString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+interface ConflictFieldRowProps {
+  field: MergeConflict;
+  choice: ConflictChoice;
+  onChoose: (choice: ConflictChoice) => void;
+}
+
+const ConflictFieldRow: React.FC<ConflictFieldRowProps> = ({ field, choice, onChoose }) => {
+  const label = formatConflictPath(field.path);
+  const option = (side: ConflictChoice, title: string, value: unknown) => (
+    <label
+      className={`flex-1 cursor-pointer rounded-lg border p-2 text-xs ${
+        choice === side ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+      }`}
+    >
+      <input
+        type='radio'
+        name={conflictKey(field.path)}
+        checked={choice === side}
+        onChange={() => onChoose(side)}
+        className='mr-2'
+        aria-label={`${title} for ${label}`}
+      />
+      <span className='font-medium text-gray-700'>{title}</span>
+      <div className='mt-1 break-words text-gray-900'>{formatConflictValue(value)}</div>
+    </label>
+  );
+
+  return (
+    <div className='space-y-1'>
+      <div className='text-sm font-medium text-gray-800'>{label}</div>
+      <div className='flex gap-2'>
+        {option('local', 'This tab', field.local)}
+        {option('remote', 'Other tab', field.remote)}
+      </div>
+    </div>
+  );
+};
+
+export const TabSyncConflictDialog: React.FC = () => {
+  const conflicts = useTabSyncConflicts();
+  const { resolveConflict } = useTabSyncActions();
+  const conflict = conflicts[0];
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+
+  // Start each conflict from "keep this tab's value"
+  useEffect(() => {
+    setChoices({});
+  }, [conflict?.id]);
+
+  if (!conflict) return null;
+
+  const choiceFor = (field: MergeConflict) => choices[conflictKey(field.path)] ?? 'local';
+  const chooseAll = (choice: ConflictChoice) =>
+    setChoices(Object.fromEntries(conflict.fields.map(field => [conflictKey(field.path), choice])));
+  const apply = () =>
+    resolveConflict(
+      conflict.id,
+      Object.fromEntries(conflict.fields.map(field => [conflictKey(field.path), choiceFor(field)]))
+    );
+
+  return (
+    <Modal
+      isOpen
+      onClose={() => resolveConflict(conflict.id, {})}
+      title='Changes made in another tab'
+      description={`${STORE_LABELS[conflict.storeKey] ?? humanize(conflict.storeKey)}: ${
+        conflict.fields.length
+      } field${conflict.fields.length !== 1 ? 's were' : ' was'} changed in both tabs. Choose which value to keep.`}
+      size='lg'
+      closeOnOverlayClick={false}
+    >
+      <div className='space-y-4'>
+        <div className='max-h-96 space-y-3 overflow-y-auto'>
+          {conflict.fields.map(field => (
+            <ConflictFieldRow
+              key={conflictKey(field.path)}
+              field={field}
+              choice={choiceFor(field)}
+              onChoose={choice =>
+                setChoices(current => ({ ...current, [conflictKey(field.path)]: choice }))
+              }
+            />
+          ))}
+        </div>
+
+        <div className='flex flex-wrap items-center justify-between gap-2'>
+          <div className='flex gap-2'>
+            <Button variant='outline' size='sm' onClick={() => chooseAll('local')}>
+              Keep all from this tab
+            </Button>
+            <Button variant='outline' size='sm' onClick={() => chooseAll('remote')}>
+              Take all from other tab
+            </Button>
+          </div>
+          <Button onClick={apply}>Apply choices</Button>
+        </div>
+
+        {conflicts.length > 1 && (
+          <div className='text-xs text-gray-500'>
+            {conflicts.length - 1} more conflict{conflicts.length > 2 ? 's' : ''} waiting
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default TabSyncConflictDialog;
@@ -0,0 +1,33 @@
+/**
+ * Tab Sync Manager
+ * Connects this tab to the others, registers the shared stores and shows
+ * the conflict dialog when two tabs edited the same fields.
+ */
+
+'use client';
+
+import React from 'react';
+import {
+  useAutoTabSync,
+  useStoreSyncRegistration,
+  type SyncConfig,
+} from '@/lib/store/tabSyncStore';
+import { useLearningSessionStore } from '@/lib/store/learningSessionStore';
+import { useFormStore } from '@/lib/store/formStore';
+import { formSyncAdapter, learningSessionSyncAdapter } from '@/lib/store/tabSyncAdapters';
+import { TabSyncConflictDialog } from './TabSyncConflictDialog';
+
+const SYNC_CONFIG: Partial<SyncConfig> = { conflictStrategy: 'manual' };
+
+export default function TabSyncManager() {
+  useAutoTabSync(SYNC_CONFIG);
+  useStoreSyncRegistration(
+    'learning-session',
+    useLearningSessionStore,
+    true,
+    learningSessionSyncAdapter
+  );
+  useStoreSyncRegistration('forms', useFormStore, true, formSyncAdapter);
+
+  return <TabSyncConflictDialog />;
+}
@@ -0,0 +1,2 @@
+export { default as TabSyncManager } from './TabSyncManager';
+export { TabSyncConflictDialog } from './TabSyncConflictDialog';
@@ -22,6 +22,8 @@ import {
   AlertCircle,
 } from "lucide-react";
 import { ExtractedVocabularyItem } from "@/types/comprehensive";
+import { useSpeech } from "@/hooks/useSpeech";
+import { speechLocale } from "@/lib/speech";
 
 export interface VocabularyCardProps {
   item: ExtractedVocabularyItem;
@@ -84,11 +86,18 @@ export const VocabularyCard: React.FC<VocabularyCardProps> = ({
     }
   }, [item.id, isFavorite, onFavorite]);
 
+  const { speak } = useSpeech();
+
+  // Recorded audio when the item has it, otherwise synthesized speech of the visible side
   const handlePlayAudio = useCallback(() => {
     if (onPlayAudio && item.pronunciation.audio_url) {
       onPlayAudio(item.pronunciation.audio_url);
+    } else if (isFlipped && item.translations.es) {
+      speak(item.translations.es, { locale: speechLocale("es") });
+    } else {
+      speak(item.word, { locale: speechLocale("en") });
     }
-  }, [item.pronunciation.audio_url, onPlayAudio]);
+  }, [item.pronunciation.audio_url, item.translations.es, item.word, isFlipped, onPlayAudio, speak]);
 
   const handleEdit = useCallback(() => {
     if (onEdit) {
@@ -192,16 +201,14 @@ export const VocabularyCard: React.FC<VocabularyCardProps> = ({
             </CardDescription>
           </div>
           <div className="flex items-center gap-2">
-            {item.pronunciation.audio_url && (
-              <button
-                onClick={handlePlayAudio}
-                className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full transition-colors"
-                aria-label="Play pronunciation"
-                title="Play pronunciation"
-              >
-                <Volume2 className="h-4 w-4" />
-              </button>
-            )}
+            <button
+              onClick={handlePlayAudio}
+              className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full transition-colors"
+              aria-label="Play pronunciation"
+              title="Play pronunciation"
+            >
+              <Volume2 className="h-4 w-4" />
+            </button>
             <button
               onClick={handleFavoriteToggle}
               className={`p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full transition-colors ${
@@ -6,6 +6,8 @@ import { CategorizedPhrase, VocabularySet, SavedPhrase } from '@/types/api';
 import { logger } from '@/lib/logger';
 import FlashcardComponent from './FlashcardComponent';
 import QuizComponent, { QuizResults } from './QuizComponent';
+import { MatchingGame } from './Practice/MatchingGame';
+import { matchingItemsFromPhrases, type MatchingScore } from '@/lib/utils/matchingGame';
 import ProgressStatistics from './ProgressStatistics';
 import SpacedRepetitionSystem, {
   ReviewItem,
@@ -181,7 +183,7 @@ const VocabularyBuilder: React.FC<VocabularyBuilderProps> = ({ savedPhrases, onU
 
   // Start study session
   const startStudySession = useCallback(
-    (mode: 'flashcards' | 'quiz' | 'review', setId?: string) => {
+    (mode: 'flashcards' | 'quiz' | 'review' | 'matching', setId?: string) => {
       const targetSet = setId ? vocabularySets.find(set => set.id === setId) : currentSet;
       if (!targetSet || targetSet.phrases.length === 0) return;
 
@@ -322,6 +324,47 @@ const VocabularyBuilder: React.FC<VocabularyBuilderProps> = ({ savedPhrases, onU
     [currentSet, studySession, studyHistory, reviewItems]
   );
 
+  // Handle a finished matching round; the game stays open for another round
+  const handleMatchingComplete = useCallback(
+    (score: MatchingScore, round: { pairIds: string[] }) => {
+      const sessionData: StudySession = {
+        id: `session_${Date.now()}`,
+        date: new Date().toISOString().split('T')[0],
+        duration: Math.round(
+          (new Date().getTime() - studySession.startTime.getTime()) / (1000 * 60)
+        ),
+        itemsStudied: score.total,
+        correctAnswers: score.firstTry,
+        averageQuality: score.accuracy / 20,
+        mode: 'matching',
+      };
+
+      setStudyHistory(prev => [...prev, sessionData]);
+      VocabularyStorage.addStudySession(sessionData);
+
+      // Only a pair matched on the first try counts as recalled
+      const updatedReviewItems = reviewItems.map(item => {
+        if (!round.pairIds.includes(item.id)) return item;
+        const recalled = !score.missed.includes(item.id);
+        const quality = SpacedRepetitionSystem.responseToQuality(
+          recalled,
+          recalled ? 'high' : 'low'
+        );
+        return SpacedRepetitionSystem.calculateNextReview(item, quality);
+      });
+
+      setReviewItems(updatedReviewItems);
+      VocabularyStorage.saveReviewItems(updatedReviewItems);
+      setStatistics(SpacedRepetitionSystem.calculateStatistics(updatedReviewItems));
+    },
+    [studySession.startTime, reviewItems]
+  );
+
+  const matchingItems = useMemo(
+    () => matchingItemsFromPhrases(currentSet?.phrases ?? []),
+    [currentSet]
+  );
+
   // Navigation helpers
   const navigateToNext = useCallback(() => {
     if (!currentSet || studySession.currentIndex >= currentSet.phrases.length - 1) return;
@@ -581,7 +624,9 @@ const VocabularyBuilder: React.FC<VocabularyBuilderProps> = ({ savedPhrases, onU
                   ? 'Flashcards'
                   : studySession.mode === 'quiz'
                     ? 'Quiz'
-                    : 'Review'}{' '}
+                    : studySession.mode === 'matching'
+                      ? 'Matching'
+                      : 'Review'}{' '}
                 - {currentSet.name}
               </h3>
               <p className='text-sm text-gray-600 dark:text-gray-400'>
@@ -627,6 +672,15 @@ const VocabularyBuilder: React.FC<VocabularyBuilderProps> = ({ savedPhrases, onU
             />
           )}
 
+          {studySession.mode === 'matching' && (
+            <MatchingGame
+              items={matchingItems}
+              mode='translation'
+              seed={currentSet.id}
+              onComplete={handleMatchingComplete}
+            />
+          )}
+
           {studySession.mode === 'review' && (
             <FlashcardComponent
               phrase={currentPhrase}
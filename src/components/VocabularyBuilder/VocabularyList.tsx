@@ -11,7 +11,8 @@ import {
   Clock,
   AlertCircle,
   Loader2,
-  Upload
+  Upload,
+  Puzzle
 } from "lucide-react";
 import { VocabularyListProps } from "./types";
 import { APIClient } from "@/lib/api-client";
@@ -439,6 +440,13 @@ export const VocabularyList = memo<APIVocabularyListProps>(function VocabularyLi
                   <Star className="h-3 w-3" />
                   Quiz
                 </button>
+                <button
+                  onClick={() => onStartStudySession("matching", set.id)}
+                  className="px-3 py-1.5 bg-teal-100 dark:bg-teal-900/30 text-teal-800 dark:text-teal-300 text-sm rounded-lg hover:bg-teal-200 dark:hover:bg-teal-900/50 transition-colors flex items-center gap-1"
+                >
+                  <Puzzle className="h-3 w-3" />
+                  Match
+                </button>
                 <button
                   onClick={() => onStartStudySession("review", set.id)}
                   className={`px-3 py-1.5 text-sm rounded-lg transition-colors flex items-center gap-1 ${
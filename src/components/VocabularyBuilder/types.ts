@@ -12,21 +12,21 @@ export interface ActiveStudySession {
   correctAnswers: number;
   totalAnswers: number;
   isActive: boolean;
-  mode: "flashcards" | "quiz" | "review";
+  mode: "flashcards" | "quiz" | "review" | "matching";
   reviewItems?: ReviewItem[];
   startTime: Date;
 }
 
 export interface ViewMode {
   current: "sets" | "study" | "statistics" | "settings";
-  studyMode?: "flashcards" | "quiz" | "review";
+  studyMode?: "flashcards" | "quiz" | "review" | "matching";
 }
 
 export interface VocabularyListProps {
   vocabularySets: VocabularySet[];
   reviewItems: ReviewItem[];
   statistics: StudyStatistics;
-  onStartStudySession: (mode: "flashcards" | "quiz" | "review", setId: string) => void;
+  onStartStudySession: (mode: "flashcards" | "quiz" | "review" | "matching", setId: string) => void;
   onExportSet: (set: VocabularySet, format: "json" | "csv") => void;
   onDeleteSet: (setId: string) => void;
   calculateProgress: (set: VocabularySet) => number;
@@ -27,6 +27,10 @@ export const unsplashColorsSchema = z.enum([
 
 export type UnsplashColor = z.infer<typeof unsplashColorsSchema>;
 
+export const imageProviderNameSchema = z.enum(['unsplash', 'pexels', 'wikimedia', 'local']);
+
+export type ImageProviderName = z.infer<typeof imageProviderNameSchema>;
+
 export const imageSearchRequestSchema = z.object({
   query: z.string().min(1, 'Search query is required').max(100),
   page: z.coerce.number().int().min(1).optional().default(1),
@@ -35,6 +39,11 @@ export const imageSearchRequestSchema = z.object({
   color: unsplashColorsSchema.optional(),
   orderBy: z.enum(['relevant', 'latest', 'oldest', 'popular']).optional(),
   api_key: z.string().optional(),
+  /** Comma-separated provider names; defaults to every configured provider */
+  providers: z
+    .string()
+    .regex(/^[a-z]+(,[a-z]+)*$/, 'Providers must be a comma-separated list')
+    .optional(),
 });
 
 export type ImageSearchRequest = z.infer<typeof imageSearchRequestSchema>;
@@ -70,6 +79,19 @@ export const imageUserSchema = z.object({
 
 export type ImageUser = z.infer<typeof imageUserSchema>;
 
+export const imageAttributionSchema = z.object({
+  provider: imageProviderNameSchema,
+  /** Display name, e.g. "Wikimedia Commons" */
+  providerName: z.string(),
+  author: z.string(),
+  authorUrl: z.string().optional(),
+  /** Page of the image at its source */
+  sourceUrl: z.string().optional(),
+  license: z.string().optional(),
+});
+
+export type ImageAttribution = z.infer<typeof imageAttributionSchema>;
+
 export const imageResultSchema = z.object({
   id: z.string(),
   urls: imageUrlsSchema,
@@ -83,6 +105,8 @@ export const imageResultSchema = z.object({
   created_at: z.string().datetime().optional(),
   updated_at: z.string().datetime().optional(),
   blur_hash: z.string().optional(),
+  provider: imageProviderNameSchema.optional(),
+  attribution: imageAttributionSchema.optional(),
 });
 
 export type ImageResult = z.infer<typeof imageResultSchema>;
@@ -8,6 +8,8 @@ import {
   safeParseLocalStorage,
   safeSetLocalStorage,
 } from '@/lib/utils/json-safe';
+import { parseStreamEvents, type GeneratedDescriptionPayload } from '@/lib/api/description-stream';
+import { useAppStore } from '@/lib/store/appStore';
 
 // Enhanced error types for better error handling
 interface DescriptionError {
@@ -21,13 +23,20 @@ interface DescriptionError {
 const REQUEST_TIMEOUT = 30000; // 30 seconds for AI operations
 const MAX_RETRIES = 2;
 const RETRY_DELAYS = [2000, 4000]; // Shorter retries for user experience
+// Streams are only timed out when no event arrives for this long
+const STREAM_IDLE_TIMEOUT = 30000;
 
-// The Description interface already includes language property with 'en' | 'es'
+// Requests without an explicit variant use the learner's regional preference
+const withVariantPreference = (request: DescriptionRequest): DescriptionRequest => ({
+  ...request,
+  variant: request.variant ?? useAppStore.getState().preferences.spanishVariant,
+});
 
 export function useDescriptions(imageId: string) {
   const [descriptions, setDescriptions] = useState<Description[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [isStreaming, setIsStreaming] = useState(false);
 
   // Use cleanup manager for better resource management
   const cleanupManager = useCleanupManager();
@@ -152,7 +161,7 @@ export function useDescriptions(imageId: string) {
           Accept: 'application/json',
         },
         body: JSON.stringify({
-          ...request,
+          ...withVariantPreference(request),
           // Pass the API key in the request body to bypass Vercel header restrictions
           userApiKey: anthropicKey || '',
         }),
@@ -288,6 +297,175 @@ export function useDescriptions(imageId: string) {
     [stableRetryDescriptionRequest]
   );
 
+  /**
+   * Generate descriptions over Server-Sent Events
+   * Descriptions are added as soon as the stream starts, with `isLoading` set,
+   * and their content grows as fragments arrive. Resolves with the final
+   * descriptions, or with whatever was received if cancelGeneration() is called.
+   */
+  const generateDescriptionStream = useStableCallback(
+    async (request: DescriptionRequest): Promise<Description[]> => {
+      if (!request.imageUrl || !request.style) {
+        const validationError = new Error('Image URL and style are required');
+        setError(validationError.message);
+        throw validationError;
+      }
+
+      abortControllerRef.current?.abort();
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+
+      let idleTimer: ReturnType<typeof setTimeout> | undefined;
+      let timedOut = false;
+      const resetIdleTimer = () => {
+        clearTimeout(idleTimer);
+        idleTimer = setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, STREAM_IDLE_TIMEOUT);
+      };
+
+      const toDescription = (
+        payload: Pick<GeneratedDescriptionPayload, 'id' | 'language'> &
+          Partial<GeneratedDescriptionPayload>,
+        isLoading: boolean
+      ): Description => ({
+        id: payload.id,
+        imageId: payload.imageId || request.imageUrl,
+        style: payload.style || request.style,
+        content: payload.content || '',
+        language: payload.language,
+        createdAt: new Date(payload.createdAt || Date.now()),
+        isLoading,
+      });
+
+      const received = new Map<string, Description>();
+      const publish = () => {
+        const current = Array.from(received.values());
+        setDescriptions(prev => [...prev.filter(d => d.style !== request.style), ...current]);
+      };
+
+      setIsLoading(true);
+      setIsStreaming(true);
+      setError(null);
+
+      try {
+        const { keyManager } = await import('@/lib/keys/keyManager');
+        const anthropicKey = keyManager.get('anthropic');
+
+        resetIdleTimer();
+        const response = await fetch('/api/descriptions/generate/stream', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Accept: 'text/event-stream',
+          },
+          body: JSON.stringify({
+            ...withVariantPreference(request),
+            userApiKey: anthropicKey || '',
+          }),
+          signal: controller.signal,
+        });
+
+        if (!response.ok || !response.body) {
+          const data = safeParse(await response.text());
+          const requestError = createDescriptionError(null, response);
+          throw new Error(data?.error || requestError.message);
+        }
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+        let finalDescriptions: Description[] | null = null;
+
+        while (finalDescriptions === null) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          resetIdleTimer();
+
+          buffer += decoder.decode(value, { stream: true });
+          const { events, remainder } = parseStreamEvents(buffer);
+          buffer = remainder;
+
+          for (const { event, data } of events) {
+            switch (event) {
+              case 'start':
+                data.descriptions.forEach(entry =>
+                  received.set(entry.id, toDescription(entry, true))
+                );
+                break;
+              case 'delta': {
+                const current = received.get(data.id) ?? toDescription(data, true);
+                received.set(data.id, { ...current, content: current.content + data.text });
+                break;
+              }
+              case 'description': {
+                // Fallback ids differ from the streamed id, so drop the partial entry
+                const streamedId = data.id.replace(/_fallback$/, '');
+                received.delete(streamedId);
+                received.set(data.id, toDescription(data, false));
+                break;
+              }
+              case 'error':
+                logger.warn('[useDescriptions] Stream reported an error', {
+                  message: data.message,
+                  language: data.language,
+                });
+                break;
+              case 'done':
+                finalDescriptions = data.data.map(payload => toDescription(payload, false));
+                break;
+            }
+          }
+          publish();
+        }
+
+        if (!finalDescriptions) {
+          throw new Error('Description stream ended before generation finished');
+        }
+
+        const completed: Description[] = finalDescriptions;
+        setDescriptions(prev => [...prev.filter(d => d.style !== request.style), ...completed]);
+        return completed;
+      } catch (err) {
+        if (controller.signal.aborted && !timedOut) {
+          // Cancelled by the user: keep the partial text that already arrived
+          const partial = Array.from(received.values()).map(d => ({ ...d, isLoading: false }));
+          setDescriptions(prev => [...prev.filter(d => d.style !== request.style), ...partial]);
+          return partial;
+        }
+
+        logger.error(
+          'Description stream failed',
+          err instanceof Error ? err : new Error(String(err)),
+          {
+            component: 'useDescriptions',
+            imageUrl: request.imageUrl,
+            style: request.style,
+            function: 'generateDescriptionStream',
+          }
+        );
+        setError(createDescriptionError(err).message);
+        throw err;
+      } finally {
+        clearTimeout(idleTimer);
+        if (abortControllerRef.current === controller) {
+          abortControllerRef.current = null;
+        }
+        setIsStreaming(false);
+        setIsLoading(false);
+      }
+    },
+    []
+  );
+
+  const cancelGeneration = useStableCallback(() => {
+    if (abortControllerRef.current) {
+      abortControllerRef.current.abort();
+      abortControllerRef.current = null;
+    }
+  }, []);
+
   const regenerateDescription = useStableCallback(
     async (descriptionId: string): Promise<Description> => {
       const existingDescription = descriptions.find(d => d.id === descriptionId);
@@ -352,8 +530,11 @@ export function useDescriptions(imageId: string) {
   return {
     descriptions,
     isLoading,
+    isStreaming,
     error,
     generateDescription,
+    generateDescriptionStream,
+    cancelGeneration,
     regenerateDescription,
     deleteDescription,
     clearDescriptions,
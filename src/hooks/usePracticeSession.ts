@@ -0,0 +1,61 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { progressService } from '@/lib/services/progressService';
+import { logger } from '@/lib/logger';
+
+export type PracticeSessionType = 'matching' | 'writing';
+
+type PracticeProgress = Parameters<typeof progressService.updateSessionProgress>[1];
+
+interface UsePracticeSessionOptions {
+  userId?: string;
+  difficultyLevel?: 'beginner' | 'intermediate' | 'advanced';
+}
+
+/**
+ * Records a matching or writing session through the progress service:
+ * begin() when the learner starts, finish() with the results. Recording
+ * never interrupts practice; failures are only logged.
+ */
+export function usePracticeSession(
+  sessionType: PracticeSessionType,
+  { userId, difficultyLevel = 'intermediate' }: UsePracticeSessionOptions = {}
+) {
+  const sessionRef = useRef<Promise<string | null> | null>(null);
+
+  const begin = useCallback(() => {
+    if (sessionRef.current) return;
+    sessionRef.current = progressService
+      .startSession({ userId, sessionType, difficultyLevel })
+      .catch(error => {
+        logger.warn('Failed to start practice session', { sessionType, error });
+        return null;
+      });
+  }, [userId, sessionType, difficultyLevel]);
+
+  const finish = useCallback(
+    async (progress: PracticeProgress) => {
+      begin();
+      const sessionId = await sessionRef.current;
+      sessionRef.current = null;
+      if (!sessionId) return;
+
+      try {
+        await progressService.updateSessionProgress(sessionId, progress);
+        await progressService.endSession(sessionId);
+      } catch (error) {
+        logger.warn('Failed to record practice session', { sessionType, error });
+      }
+    },
+    [begin, sessionType]
+  );
+
+  // A session left unfinished is simply not ended; drop it on unmount
+  useEffect(
+    () => () => {
+      sessionRef.current = null;
+    },
+    []
+  );
+
+  return { begin, finish };
+}
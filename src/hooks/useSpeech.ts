@@ -0,0 +1,76 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { getSpeechProvider, type SpeechProviderPreference, type SpeechRequest } from '@/lib/speech';
+import { logger } from '@/lib/logger';
+
+interface UseSpeechOptions {
+  /** Locale used when speak() is not given one */
+  locale?: string;
+  preference?: SpeechProviderPreference;
+}
+
+/**
+ * Speak text with the best available provider and track the word being
+ * spoken. Starting new speech stops the previous one.
+ */
+export function useSpeech({ locale = 'es-ES', preference }: UseSpeechOptions = {}) {
+  const [speakingText, setSpeakingText] = useState<string | null>(null);
+  const [activeWord, setActiveWord] = useState(-1);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const stop = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  const speak = useCallback(
+    async (text: string, request: Partial<Omit<SpeechRequest, 'text'>> = {}) => {
+      controllerRef.current?.abort();
+
+      const speechLocale = request.locale ?? locale;
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      setSpeakingText(text);
+      setActiveWord(-1);
+      setError(null);
+
+      try {
+        const provider = getSpeechProvider(speechLocale, preference);
+        if (!provider) {
+          setError('Audio is not supported in this browser');
+          return;
+        }
+
+        await provider.speak(
+          { ...request, text, locale: speechLocale },
+          { signal: controller.signal, onWord: index => setActiveWord(index) }
+        );
+      } catch (speechError) {
+        if (!controller.signal.aborted) {
+          logger.error('Speech playback failed:', speechError);
+          setError('Pronunciation is not available right now');
+        }
+      } finally {
+        if (controllerRef.current === controller) {
+          controllerRef.current = null;
+          setSpeakingText(null);
+          setActiveWord(-1);
+        }
+      }
+    },
+    [locale, preference]
+  );
+
+  // Stop speaking when the component goes away
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return {
+    speak,
+    stop,
+    /** The text being spoken, to tell which of several texts is playing */
+    speakingText,
+    isSpeaking: speakingText !== null,
+    /** Index into splitSpeechWords(speakingText); -1 between words */
+    activeWord,
+    error,
+  };
+}
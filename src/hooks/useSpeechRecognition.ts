@@ -0,0 +1,87 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import {
+  getSpeechRecognizer,
+  SpeechError,
+  type RecognitionResult,
+  type SpeechRecognizer,
+  type SpeechRecognizerPreference,
+} from '@/lib/speech';
+import { logger } from '@/lib/logger';
+
+interface UseSpeechRecognitionOptions {
+  /** Locale of what the learner is expected to say */
+  locale?: string;
+  preference?: SpeechRecognizerPreference;
+}
+
+/**
+ * Record the learner and recognize what they said with the best available
+ * recognizer. listen() resolves with null when nothing could be recognized.
+ */
+export function useSpeechRecognition({
+  locale = 'es-ES',
+  preference,
+}: UseSpeechRecognitionOptions = {}) {
+  const [isListening, setIsListening] = useState(false);
+  const [isSupported, setIsSupported] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const recognizerRef = useRef<SpeechRecognizer | null>(null);
+
+  // Only known in the browser, so checked after mount to keep hydration stable
+  useEffect(() => {
+    setIsSupported(getSpeechRecognizer(preference) !== null);
+  }, [preference]);
+
+  const listen = useCallback(async (): Promise<RecognitionResult | null> => {
+    controllerRef.current?.abort();
+
+    const recognizer = getSpeechRecognizer(preference);
+    if (!recognizer) {
+      setError('Speech recognition is not supported in this browser');
+      return null;
+    }
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    recognizerRef.current = recognizer;
+    setIsListening(true);
+    setError(null);
+
+    try {
+      const result = await recognizer.listen({ locale, signal: controller.signal });
+      return controller.signal.aborted ? null : result;
+    } catch (recognitionError) {
+      if (!controller.signal.aborted) {
+        logger.error('Speech recognition failed:', recognitionError);
+        setError(
+          recognitionError instanceof SpeechError && recognitionError.status === 403
+            ? 'Microphone access was denied'
+            : 'Speech recognition is not available right now'
+        );
+      }
+      return null;
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        recognizerRef.current = null;
+        setIsListening(false);
+      }
+    }
+  }, [locale, preference]);
+
+  /** Stop recording and recognize what was said so far */
+  const stop = useCallback(() => {
+    recognizerRef.current?.stop();
+  }, []);
+
+  /** Stop recording and discard it */
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  // Release the microphone when the component goes away
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return { listen, stop, cancel, isListening, isSupported, error };
+}
@@ -0,0 +1,25 @@
+/**
+ * Announces unlocked achievements to the UI. Services dispatch a window
+ * event; the toaster mounted with the app providers shows it.
+ */
+
+import type { UnlockedAchievement } from './types';
+
+export const ACHIEVEMENTS_UNLOCKED_EVENT = 'achievements-unlocked';
+
+export function announceAchievements(unlocked: UnlockedAchievement[]): void {
+  if (typeof window === 'undefined' || unlocked.length === 0) return;
+
+  window.dispatchEvent(
+    new CustomEvent<UnlockedAchievement[]>(ACHIEVEMENTS_UNLOCKED_EVENT, { detail: unlocked })
+  );
+}
+
+/** Returns a function that stops listening */
+export function onAchievementsUnlocked(
+  listener: (unlocked: UnlockedAchievement[]) => void
+): () => void {
+  const handler = (event: Event) => listener((event as CustomEvent<UnlockedAchievement[]>).detail);
+  window.addEventListener(ACHIEVEMENTS_UNLOCKED_EVENT, handler);
+  return () => window.removeEventListener(ACHIEVEMENTS_UNLOCKED_EVENT, handler);
+}
@@ -0,0 +1,172 @@
+/**
+ * Achievement engine
+ *
+ * Evaluates declarative rules against a user's event log. Evaluation is a
+ * pure function of the events, so replaying events (a retried request, an
+ * offline upload) gives the same result: events are de-duplicated by id and
+ * an achievement, once unlocked, keeps its original unlock time.
+ */
+
+import { ANY_EVENT_TYPE } from './rules';
+import type {
+  AchievementCondition,
+  AchievementEvent,
+  AchievementProgress,
+  AchievementRule,
+} from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface AchievementEvaluation {
+  /** Every rule's progress after the events */
+  progress: AchievementProgress[];
+  /** Rules unlocked by these events, not before */
+  unlocked: AchievementRule[];
+}
+
+function conditionHolds(condition: AchievementCondition, data: Record<string, unknown>): boolean {
+  const actual = data[condition.field];
+  switch (condition.op) {
+    case 'eq':
+      return actual === condition.value;
+    case 'neq':
+      return actual !== condition.value;
+    case 'gte':
+      return typeof actual === 'number' && actual >= Number(condition.value);
+    case 'lte':
+      return typeof actual === 'number' && actual <= Number(condition.value);
+  }
+}
+
+export function ruleListensTo(rule: AchievementRule, eventType: string): boolean {
+  return (
+    rule.enabled &&
+    (rule.eventTypes.includes(eventType) || rule.eventTypes.includes(ANY_EVENT_TYPE))
+  );
+}
+
+export function eventMatchesRule(rule: AchievementRule, event: AchievementEvent): boolean {
+  return (
+    ruleListensTo(rule, event.type) &&
+    rule.conditions.every(condition => conditionHolds(condition, event.data))
+  );
+}
+
+/** The earliest event time a rule still counts at `now` */
+export function windowStart(rule: AchievementRule, now: Date): Date | null {
+  return rule.windowDays ? new Date(now.getTime() - rule.windowDays * DAY_MS) : null;
+}
+
+function dayNumber(timestamp: string): number {
+  return Math.floor(Date.parse(timestamp) / DAY_MS);
+}
+
+/** Consecutive days with an event, ending today or yesterday */
+function currentStreak(events: AchievementEvent[], now: Date): number {
+  const days = new Set(events.map(event => dayNumber(event.occurredAt)));
+  const today = Math.floor(now.getTime() / DAY_MS);
+  let day = days.has(today) ? today : today - 1;
+  let streak = 0;
+  while (days.has(day)) {
+    streak++;
+    day--;
+  }
+  return streak;
+}
+
+/** The rule's aggregate over the events it counts */
+export function aggregateRule(
+  rule: AchievementRule,
+  events: AchievementEvent[],
+  now: Date = new Date()
+): number {
+  const start = windowStart(rule, now)?.getTime() ?? -Infinity;
+  const counted = events.filter(
+    event =>
+      eventMatchesRule(rule, event) &&
+      Date.parse(event.occurredAt) >= start &&
+      Date.parse(event.occurredAt) <= now.getTime()
+  );
+  const values = counted.map(event => (rule.field ? event.data[rule.field] : undefined));
+
+  switch (rule.aggregation) {
+    case 'count':
+      return counted.length;
+    case 'sum':
+      return values.reduce<number>(
+        (sum, value) => sum + (typeof value === 'number' ? value : 0),
+        0
+      );
+    case 'max':
+      return values.reduce<number>(
+        (max, value) => (typeof value === 'number' && value > max ? value : max),
+        0
+      );
+    case 'distinct':
+      return new Set(
+        values.filter(value => value !== undefined && value !== null && value !== '').map(String)
+      ).size;
+    case 'streak':
+      return currentStreak(counted, now);
+  }
+}
+
+function uniqueEvents(events: AchievementEvent[]): AchievementEvent[] {
+  const seen = new Set<string>();
+  return events.filter(event => {
+    if (seen.has(event.eventId)) return false;
+    seen.add(event.eventId);
+    return true;
+  });
+}
+
+/**
+ * Evaluates the rules over the user's events, given what was stored from
+ * earlier evaluations
+ */
+export function evaluateAchievements(
+  rules: AchievementRule[],
+  events: AchievementEvent[],
+  previous: AchievementProgress[] = [],
+  now: Date = new Date()
+): AchievementEvaluation {
+  const log = uniqueEvents(events);
+  const values = new Map(rules.map(rule => [rule.id, aggregateRule(rule, log, now)]));
+  return evaluateAggregates(rules, values, previous, now);
+}
+
+/**
+ * Evaluates the rules from each rule's aggregate, computed elsewhere (the
+ * database); a rule without one counts as zero
+ */
+export function evaluateAggregates(
+  rules: AchievementRule[],
+  values: Map<string, number>,
+  previous: AchievementProgress[] = [],
+  now: Date = new Date()
+): AchievementEvaluation {
+  const stored = new Map(previous.map(entry => [entry.achievementId, entry]));
+  const progress: AchievementProgress[] = [];
+  const unlocked: AchievementRule[] = [];
+
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+
+    const before = stored.get(rule.id);
+    const value = values.get(rule.id) ?? 0;
+    const alreadyUnlocked = Boolean(before?.unlockedAt);
+    const reached = value >= rule.threshold;
+
+    if (reached && !alreadyUnlocked) {
+      unlocked.push(rule);
+    }
+    progress.push({
+      achievementId: rule.id,
+      progress: alreadyUnlocked ? rule.threshold : Math.min(value, rule.threshold),
+      target: rule.threshold,
+      unlockedAt: before?.unlockedAt ?? (reached ? now.toISOString() : null),
+    });
+  }
+
+  return { progress, unlocked };
+}
@@ -0,0 +1,245 @@
+/**
+ * Built-in achievement rules and the schema every rule, built-in or added
+ * by an admin, must satisfy
+ */
+
+import { z } from 'zod';
+import {
+  ACHIEVEMENT_AGGREGATIONS,
+  ACHIEVEMENT_CATEGORIES,
+  ACHIEVEMENT_RARITIES,
+  type AchievementRule,
+} from './types';
+
+/** Matches events of every type */
+export const ANY_EVENT_TYPE = '*';
+
+export const achievementRuleSchema = z
+  .object({
+    id: z
+      .string()
+      .min(1)
+      .max(64)
+      .regex(/^[a-z0-9_]+$/, 'Use lowercase letters, digits and underscores'),
+    name: z.string().min(1).max(100),
+    description: z.string().min(1).max(500),
+    category: z.enum(ACHIEVEMENT_CATEGORIES),
+    rarity: z.enum(ACHIEVEMENT_RARITIES).default('common'),
+    icon: z.string().max(16).optional(),
+    eventTypes: z.array(z.string().min(1).max(50)).min(1).max(20),
+    conditions: z
+      .array(
+        z.object({
+          field: z.string().min(1).max(50),
+          op: z.enum(['eq', 'neq', 'gte', 'lte']),
+          value: z.union([z.string(), z.number(), z.boolean()]),
+        })
+      )
+      .max(10)
+      .default([]),
+    aggregation: z.enum(ACHIEVEMENT_AGGREGATIONS),
+    field: z.string().min(1).max(50).optional(),
+    threshold: z.number().positive(),
+    windowDays: z.number().int().min(1).max(366).optional(),
+    experiencePoints: z.number().int().min(0).max(10000).default(0),
+    enabled: z.boolean().default(true),
+  })
+  .refine(rule => !['sum', 'max', 'distinct'].includes(rule.aggregation) || Boolean(rule.field), {
+    message: 'sum, max and distinct rules need a field',
+    path: ['field'],
+  });
+
+export const DEFAULT_ACHIEVEMENT_RULES: AchievementRule[] = [
+  {
+    id: 'first_steps',
+    name: 'First Steps',
+    description: 'Start learning',
+    category: 'milestone',
+    rarity: 'common',
+    icon: '👣',
+    eventTypes: [ANY_EVENT_TYPE],
+    conditions: [],
+    aggregation: 'count',
+    threshold: 1,
+    experiencePoints: 10,
+    enabled: true,
+  },
+  {
+    id: 'first_question',
+    name: 'First Question',
+    description: 'Answer your first question',
+    category: 'milestone',
+    rarity: 'common',
+    icon: '❓',
+    eventTypes: ['session_completed'],
+    conditions: [],
+    aggregation: 'sum',
+    field: 'questionsAnswered',
+    threshold: 1,
+    experiencePoints: 50,
+    enabled: true,
+  },
+  {
+    id: 'vocabulary_collector',
+    name: 'Vocabulary Collector',
+    description: 'Learn 50 new vocabulary words',
+    category: 'vocabulary',
+    rarity: 'common',
+    icon: '📚',
+    eventTypes: ['vocabulary_learned'],
+    conditions: [],
+    aggregation: 'count',
+    threshold: 50,
+    experiencePoints: 200,
+    enabled: true,
+  },
+  {
+    id: 'vocabulary_master',
+    name: 'Vocabulary Master',
+    description: 'Learn 100 new vocabulary words',
+    category: 'vocabulary',
+    rarity: 'rare',
+    icon: '🎓',
+    eventTypes: ['vocabulary_learned'],
+    conditions: [],
+    aggregation: 'count',
+    threshold: 100,
+    experiencePoints: 300,
+    enabled: true,
+  },
+  {
+    id: 'accuracy_master',
+    name: 'Accuracy Master',
+    description: 'Achieve 90% accuracy in a session of at least 5 questions',
+    category: 'accuracy',
+    rarity: 'rare',
+    icon: '🎯',
+    eventTypes: ['session_completed'],
+    conditions: [
+      { field: 'accuracy', op: 'gte', value: 0.9 },
+      { field: 'questionsAnswered', op: 'gte', value: 5 },
+    ],
+    aggregation: 'count',
+    threshold: 1,
+    experiencePoints: 50,
+    enabled: true,
+  },
+  {
+    id: 'perfect_score',
+    name: 'Perfectionist',
+    description: 'Answer every question right in a session of at least 10',
+    category: 'accuracy',
+    rarity: 'epic',
+    icon: '💯',
+    eventTypes: ['session_completed'],
+    conditions: [
+      { field: 'accuracy', op: 'gte', value: 1 },
+      { field: 'questionsAnswered', op: 'gte', value: 10 },
+    ],
+    aggregation: 'count',
+    threshold: 1,
+    experiencePoints: 200,
+    enabled: true,
+  },
+  {
+    id: 'streak_champion',
+    name: 'Week Warrior',
+    description: 'Maintain a 7-day learning streak',
+    category: 'streak',
+    rarity: 'epic',
+    icon: '🔥',
+    eventTypes: ['session_completed', 'qa_correct', 'vocabulary_learned', 'vocabulary_reviewed'],
+    conditions: [],
+    aggregation: 'streak',
+    threshold: 7,
+    experiencePoints: 200,
+    enabled: true,
+  },
+  {
+    id: 'streak_30',
+    name: 'Monthly Master',
+    description: 'Maintain a 30-day learning streak',
+    category: 'streak',
+    rarity: 'legendary',
+    icon: '🏆',
+    eventTypes: ['session_completed', 'qa_correct', 'vocabulary_learned', 'vocabulary_reviewed'],
+    conditions: [],
+    aggregation: 'streak',
+    threshold: 30,
+    experiencePoints: 500,
+    enabled: true,
+  },
+  {
+    id: 'weekly_regular',
+    name: 'Regular',
+    description: 'Complete 5 sessions within a week',
+    category: 'milestone',
+    rarity: 'common',
+    icon: '📅',
+    eventTypes: ['session_completed'],
+    conditions: [],
+    aggregation: 'count',
+    threshold: 5,
+    windowDays: 7,
+    experiencePoints: 100,
+    enabled: true,
+  },
+  {
+    id: 'match_maker',
+    name: 'Match Maker',
+    description: 'Finish 10 matching games',
+    category: 'vocabulary',
+    rarity: 'common',
+    icon: '🧩',
+    eventTypes: ['session_completed'],
+    conditions: [{ field: 'sessionType', op: 'eq', value: 'matching' }],
+    aggregation: 'count',
+    threshold: 10,
+    experiencePoints: 100,
+    enabled: true,
+  },
+  {
+    id: 'storyteller',
+    name: 'Storyteller',
+    description: 'Write 5 descriptions of your own',
+    category: 'exploration',
+    rarity: 'rare',
+    icon: '✍️',
+    eventTypes: ['session_completed'],
+    conditions: [{ field: 'sessionType', op: 'eq', value: 'writing' }],
+    aggregation: 'count',
+    threshold: 5,
+    experiencePoints: 150,
+    enabled: true,
+  },
+  {
+    id: 'image_explorer',
+    name: 'Explorer',
+    description: 'Study 25 different images',
+    category: 'exploration',
+    rarity: 'rare',
+    icon: '🖼️',
+    eventTypes: ['image_processed', 'description_generated'],
+    conditions: [],
+    aggregation: 'distinct',
+    field: 'imageUrl',
+    threshold: 25,
+    experiencePoints: 150,
+    enabled: true,
+  },
+];
+
+/**
+ * The built-in rules with admin-defined ones on top: a stored rule with a
+ * built-in id replaces it (or switches it off), others are added
+ */
+export function mergeAchievementRules(
+  stored: AchievementRule[],
+  defaults: AchievementRule[] = DEFAULT_ACHIEVEMENT_RULES
+): AchievementRule[] {
+  const rules = new Map(defaults.map(rule => [rule.id, rule]));
+  for (const rule of stored) {
+    rules.set(rule.id, rule);
+  }
+  return Array.from(rules.values());
+}
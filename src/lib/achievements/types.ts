@@ -0,0 +1,107 @@
+/**
+ * Achievement rule and event types
+ */
+
+/**
+ * count: matching events; sum / max: of a numeric data field; distinct:
+ * different values of a data field; streak: consecutive days (UTC) with a
+ * matching event, ending today or yesterday
+ */
+export const ACHIEVEMENT_AGGREGATIONS = ['count', 'sum', 'max', 'distinct', 'streak'] as const;
+
+export type AchievementAggregation = (typeof ACHIEVEMENT_AGGREGATIONS)[number];
+
+export const ACHIEVEMENT_CATEGORIES = [
+  'streak',
+  'accuracy',
+  'vocabulary',
+  'exploration',
+  'milestone',
+] as const;
+
+export type AchievementCategory = (typeof ACHIEVEMENT_CATEGORIES)[number];
+
+export const ACHIEVEMENT_RARITIES = ['common', 'rare', 'epic', 'legendary'] as const;
+
+export type AchievementRarity = (typeof ACHIEVEMENT_RARITIES)[number];
+
+/** Progress events the app records; events of other types are refused */
+export const ACHIEVEMENT_EVENT_TYPES = [
+  'vocabulary_learned',
+  'vocabulary_reviewed',
+  'vocabulary_mastered',
+  'qa_answered',
+  'qa_correct',
+  'qa_incorrect',
+  'phrase_learned',
+  'phrase_reviewed',
+  'phrase_mastered',
+  'translation_completed',
+  'description_generated',
+  'session_started',
+  'session_completed',
+  'image_processed',
+  'export_generated',
+  'difficulty_adjusted',
+  'goal_achieved',
+] as const;
+
+export type AchievementEventType = (typeof ACHIEVEMENT_EVENT_TYPES)[number];
+
+export type AchievementConditionValue = string | number | boolean;
+
+/** A test on one field of an event's data */
+export interface AchievementCondition {
+  field: string;
+  op: 'eq' | 'neq' | 'gte' | 'lte';
+  value: AchievementConditionValue;
+}
+
+export interface AchievementRule {
+  /** Stable slug; unlocks are stored against it */
+  id: string;
+  name: string;
+  description: string;
+  category: AchievementCategory;
+  rarity: AchievementRarity;
+  icon?: string;
+  /** Event types the rule counts */
+  eventTypes: string[];
+  /** Every condition must hold for an event to count */
+  conditions: AchievementCondition[];
+  aggregation: AchievementAggregation;
+  /** Data field for sum, max and distinct */
+  field?: string;
+  threshold: number;
+  /** Only events from the last this many days count; all time when unset */
+  windowDays?: number;
+  experiencePoints: number;
+  enabled: boolean;
+}
+
+export interface AchievementEvent {
+  /** Idempotency key: an event id is only ever counted once per user */
+  eventId: string;
+  type: string;
+  data: Record<string, unknown>;
+  occurredAt: string;
+}
+
+export interface AchievementProgress {
+  achievementId: string;
+  /** The rule's aggregate value, at most its threshold */
+  progress: number;
+  target: number;
+  unlockedAt: string | null;
+}
+
+export interface UnlockedAchievement {
+  id: string;
+  name: string;
+  description: string;
+  category: AchievementCategory;
+  rarity: AchievementRarity;
+  icon?: string;
+  experiencePoints: number;
+  unlockedAt: string;
+}
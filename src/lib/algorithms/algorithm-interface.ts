@@ -31,6 +31,7 @@ export interface ReviewCard {
   interval: number;
   easeFactor: number;
   nextReviewDate: Date;
+  lastReviewDate?: Date;
   reviewCount: number;
   successStreak: number;
 }
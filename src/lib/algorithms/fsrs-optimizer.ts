@@ -0,0 +1,290 @@
+/**
+ * FSRS parameter fitting and evaluation
+ * Replays a user's review history to fit personal FSRS weights and to
+ * compare predicted recall probability against actual recall
+ */
+
+import { ReviewCard } from "./algorithm-interface";
+import {
+  FSRSAlgorithm,
+  DEFAULT_FSRS_WEIGHTS,
+  clampFSRSWeights,
+} from "./fsrs";
+
+/**
+ * A single graded review, in the shape the optimizer replays
+ */
+export interface ReviewLogEntry {
+  cardId: string;
+  quality: number;
+  reviewedAt: Date;
+}
+
+/**
+ * Row shape of the `review_history` table
+ */
+export interface ReviewHistoryRow {
+  vocabulary_id: string;
+  quality: number;
+  created_at: string;
+}
+
+export interface CalibrationBin {
+  predictedMin: number;
+  predictedMax: number;
+  averagePredicted: number;
+  actualRecallRate: number;
+  count: number;
+}
+
+export interface FSRSEvaluation {
+  sampleSize: number;
+  logLoss: number;
+  rmse: number;
+  averagePredicted: number;
+  actualRecallRate: number;
+  calibration: CalibrationBin[];
+}
+
+export interface FSRSFitOptions {
+  initialWeights?: number[];
+  requestRetention?: number;
+  maxIterations?: number;
+  initialStep?: number;
+  minStep?: number;
+  minReviews?: number;
+}
+
+export interface FSRSFitResult {
+  weights: number[];
+  fitted: boolean;
+  iterations: number;
+  before: FSRSEvaluation;
+  after: FSRSEvaluation;
+}
+
+interface RecallPrediction {
+  predicted: number;
+  recalled: boolean;
+}
+
+const EPSILON = 1e-6;
+const CALIBRATION_BINS = 10;
+
+export function reviewLogsFromHistory(
+  rows: ReviewHistoryRow[],
+): ReviewLogEntry[] {
+  return rows
+    .filter((row) => row.vocabulary_id && Number.isFinite(row.quality))
+    .map((row) => ({
+      cardId: row.vocabulary_id,
+      quality: row.quality,
+      reviewedAt: new Date(row.created_at),
+    }))
+    .filter((entry) => !Number.isNaN(entry.reviewedAt.getTime()));
+}
+
+/**
+ * Group logs per card in chronological order
+ */
+function groupByCard(logs: ReviewLogEntry[]): ReviewLogEntry[][] {
+  const byCard = new Map<string, ReviewLogEntry[]>();
+  for (const log of logs) {
+    const entries = byCard.get(log.cardId) ?? [];
+    entries.push(log);
+    byCard.set(log.cardId, entries);
+  }
+  return Array.from(byCard.values()).map((entries) =>
+    [...entries].sort(
+      (a, b) => a.reviewedAt.getTime() - b.reviewedAt.getTime(),
+    ),
+  );
+}
+
+/**
+ * Replay every card's history and collect the recall probability FSRS
+ * predicted just before each review, next to what actually happened
+ */
+function collectPredictions(
+  histories: ReviewLogEntry[][],
+  algorithm: FSRSAlgorithm,
+): RecallPrediction[] {
+  const predictions: RecallPrediction[] = [];
+
+  for (const history of histories) {
+    let card: ReviewCard = {
+      id: history[0].cardId,
+      imageId: history[0].cardId,
+      difficulty: "medium",
+      interval: 0,
+      easeFactor: 2.5,
+      nextReviewDate: history[0].reviewedAt,
+      reviewCount: 0,
+      successStreak: 0,
+    };
+
+    for (const entry of history) {
+      const predicted = algorithm.predictRecall(card, entry.reviewedAt);
+      if (predicted !== null) {
+        predictions.push({ predicted, recalled: entry.quality >= 3 });
+      }
+      card = algorithm.updateCard(card, entry.quality, entry.reviewedAt);
+    }
+  }
+
+  return predictions;
+}
+
+function logLossOf(predictions: RecallPrediction[]): number {
+  if (predictions.length === 0) return 0;
+  const total = predictions.reduce((sum, { predicted, recalled }) => {
+    const p = Math.min(Math.max(predicted, EPSILON), 1 - EPSILON);
+    return sum - (recalled ? Math.log(p) : Math.log(1 - p));
+  }, 0);
+  return total / predictions.length;
+}
+
+function summarize(predictions: RecallPrediction[]): FSRSEvaluation {
+  const sampleSize = predictions.length;
+  if (sampleSize === 0) {
+    return {
+      sampleSize: 0,
+      logLoss: 0,
+      rmse: 0,
+      averagePredicted: 0,
+      actualRecallRate: 0,
+      calibration: [],
+    };
+  }
+
+  const bins = Array.from({ length: CALIBRATION_BINS }, () => ({
+    predictedSum: 0,
+    recalled: 0,
+    count: 0,
+  }));
+  let predictedSum = 0;
+  let recalledCount = 0;
+
+  for (const { predicted, recalled } of predictions) {
+    const index = Math.min(
+      Math.floor(predicted * CALIBRATION_BINS),
+      CALIBRATION_BINS - 1,
+    );
+    bins[index].predictedSum += predicted;
+    bins[index].recalled += recalled ? 1 : 0;
+    bins[index].count += 1;
+    predictedSum += predicted;
+    recalledCount += recalled ? 1 : 0;
+  }
+
+  const calibration: CalibrationBin[] = bins
+    .map((bin, index) => ({
+      predictedMin: index / CALIBRATION_BINS,
+      predictedMax: (index + 1) / CALIBRATION_BINS,
+      averagePredicted: bin.count ? bin.predictedSum / bin.count : 0,
+      actualRecallRate: bin.count ? bin.recalled / bin.count : 0,
+      count: bin.count,
+    }))
+    .filter((bin) => bin.count > 0);
+
+  // Bin-weighted calibration error, the usual FSRS benchmark RMSE
+  const squaredError = calibration.reduce(
+    (sum, bin) =>
+      sum + bin.count * Math.pow(bin.averagePredicted - bin.actualRecallRate, 2),
+    0,
+  );
+
+  return {
+    sampleSize,
+    logLoss: logLossOf(predictions),
+    rmse: Math.sqrt(squaredError / sampleSize),
+    averagePredicted: predictedSum / sampleSize,
+    actualRecallRate: recalledCount / sampleSize,
+    calibration,
+  };
+}
+
+/**
+ * Compare predicted and actual recall for a set of weights
+ */
+export function evaluateFSRS(
+  logs: ReviewLogEntry[],
+  weights: number[] = [...DEFAULT_FSRS_WEIGHTS],
+  requestRetention = 0.9,
+): FSRSEvaluation {
+  const algorithm = new FSRSAlgorithm({ weights, requestRetention });
+  return summarize(collectPredictions(groupByCard(logs), algorithm));
+}
+
+/**
+ * Fit FSRS weights to a user's review history by minimizing log loss with a
+ * bounded coordinate search. Histories too small to fit reliably keep the
+ * starting weights.
+ */
+export function fitFSRSParameters(
+  logs: ReviewLogEntry[],
+  options: FSRSFitOptions = {},
+): FSRSFitResult {
+  const {
+    initialWeights = [...DEFAULT_FSRS_WEIGHTS],
+    requestRetention = 0.9,
+    maxIterations = 20,
+    initialStep = 0.2,
+    minStep = 0.01,
+    minReviews = 50,
+  } = options;
+
+  const histories = groupByCard(logs);
+  const lossFor = (weights: number[]) =>
+    logLossOf(
+      collectPredictions(
+        histories,
+        new FSRSAlgorithm({ weights, requestRetention }),
+      ),
+    );
+
+  let weights = clampFSRSWeights(initialWeights);
+  const before = summarize(
+    collectPredictions(histories, new FSRSAlgorithm({ weights, requestRetention })),
+  );
+
+  if (before.sampleSize < minReviews) {
+    return { weights, fitted: false, iterations: 0, before, after: before };
+  }
+
+  let bestLoss = lossFor(weights);
+  let step = initialStep;
+  let iterations = 0;
+
+  while (iterations < maxIterations && step >= minStep) {
+    iterations++;
+    let improved = false;
+
+    for (let i = 0; i < weights.length; i++) {
+      for (const direction of [1, -1]) {
+        const candidate = [...weights];
+        candidate[i] = weights[i] * (1 + direction * step) || direction * step;
+        const clamped = clampFSRSWeights(candidate);
+        if (clamped[i] === weights[i]) continue;
+
+        const loss = lossFor(clamped);
+        if (loss < bestLoss - EPSILON) {
+          bestLoss = loss;
+          weights = clamped;
+          improved = true;
+          break;
+        }
+      }
+    }
+
+    if (!improved) {
+      step /= 2;
+    }
+  }
+
+  const after = summarize(
+    collectPredictions(histories, new FSRSAlgorithm({ weights, requestRetention })),
+  );
+
+  return { weights, fitted: true, iterations, before, after };
+}
@@ -0,0 +1,325 @@
+/**
+ * FSRS (Free Spaced Repetition Scheduler)
+ * Stability / difficulty / retrievability memory model (FSRS-4.5) exposed
+ * through the same BaseAlgorithm / ReviewCard contract as SM-2 and Leitner
+ */
+
+import {
+  BaseAlgorithm,
+  AlgorithmConfig,
+  ReviewCard,
+} from "./algorithm-interface";
+
+/** FSRS grades: 1 = Again, 2 = Hard, 3 = Good, 4 = Easy */
+export type FSRSRating = 1 | 2 | 3 | 4;
+
+/** Default FSRS-4.5 parameters, trained on the public Anki review dataset */
+export const DEFAULT_FSRS_WEIGHTS: readonly number[] = [
+  0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474,
+  0.1367, 1.0461, 2.1072, 0.0793, 0.3246, 1.587, 0.2272, 2.8755,
+];
+
+/** Lower/upper bounds for each weight, used when clamping fitted parameters */
+export const FSRS_WEIGHT_BOUNDS: ReadonlyArray<readonly [number, number]> = [
+  [0.1, 100],
+  [0.1, 100],
+  [0.1, 100],
+  [0.1, 100],
+  [1, 10],
+  [0.01, 5],
+  [0.01, 5],
+  [0, 0.75],
+  [0, 4.5],
+  [0, 0.8],
+  [0.01, 3.5],
+  [0.1, 5],
+  [0.01, 0.25],
+  [0.01, 0.9],
+  [0.01, 4],
+  [0, 1],
+  [1, 6],
+];
+
+export interface FSRSConfig extends AlgorithmConfig {
+  weights: number[];
+  requestRetention: number;
+}
+
+export interface FSRSReviewCard extends ReviewCard {
+  stability: number;
+  fsrsDifficulty: number;
+  retrievability?: number;
+}
+
+export interface FSRSMemoryState {
+  stability: number;
+  difficulty: number;
+}
+
+const DECAY = -0.5;
+// Chosen so that retrievability is exactly 90% when elapsed days == stability
+const FACTOR = Math.pow(0.9, 1 / DECAY) - 1;
+const MIN_DIFFICULTY = 1;
+const MAX_DIFFICULTY = 10;
+const MIN_STABILITY = 0.1;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const clamp = (value: number, min: number, max: number): number =>
+  Math.min(Math.max(value, min), max);
+
+/**
+ * Map the 0-5 SM-2 quality scale used across the app onto FSRS grades
+ */
+export function qualityToRating(quality: number): FSRSRating {
+  if (quality < 3) return 1;
+  if (quality < 4) return 2;
+  if (quality < 5) return 3;
+  return 4;
+}
+
+/**
+ * FSRS difficulty (1-10) expressed as an SM-2 ease factor (2.5-1.3) so the
+ * state still fits the existing ease_factor column
+ */
+export function difficultyToEaseFactor(difficulty: number): number {
+  const d = clamp(difficulty, MIN_DIFFICULTY, MAX_DIFFICULTY);
+  return 1.3 + ((MAX_DIFFICULTY - d) / (MAX_DIFFICULTY - MIN_DIFFICULTY)) * 1.2;
+}
+
+export function easeFactorToDifficulty(easeFactor: number): number {
+  const ef = clamp(easeFactor, 1.3, 2.5);
+  return MAX_DIFFICULTY - ((ef - 1.3) / 1.2) * (MAX_DIFFICULTY - MIN_DIFFICULTY);
+}
+
+export function clampFSRSWeights(weights: number[]): number[] {
+  return DEFAULT_FSRS_WEIGHTS.map((fallback, i) => {
+    const value = Number.isFinite(weights[i]) ? weights[i] : fallback;
+    const [min, max] = FSRS_WEIGHT_BOUNDS[i];
+    return clamp(value, min, max);
+  });
+}
+
+export class FSRSAlgorithm extends BaseAlgorithm {
+  protected declare config: FSRSConfig;
+
+  constructor(config?: Partial<FSRSConfig>) {
+    const defaultConfig: FSRSConfig = {
+      initialInterval: 1,
+      easeFactor: 2.5,
+      minInterval: 1,
+      maxInterval: 365,
+      requestRetention: 0.9,
+      ...config,
+      weights: clampFSRSWeights(config?.weights ?? [...DEFAULT_FSRS_WEIGHTS]),
+    };
+    super(defaultConfig);
+  }
+
+  get weights(): number[] {
+    return [...this.config.weights];
+  }
+
+  /**
+   * Probability of recall after `elapsedDays` for a memory of given stability
+   */
+  forgettingCurve(elapsedDays: number, stability: number): number {
+    return Math.pow(
+      1 + (FACTOR * Math.max(elapsedDays, 0)) / Math.max(stability, MIN_STABILITY),
+      DECAY,
+    );
+  }
+
+  /**
+   * Days until retrievability drops to the requested retention
+   */
+  intervalForStability(stability: number): number {
+    const raw =
+      (stability / FACTOR) *
+      (Math.pow(this.config.requestRetention, 1 / DECAY) - 1);
+    return clamp(
+      Math.round(raw),
+      this.config.minInterval,
+      this.config.maxInterval,
+    );
+  }
+
+  initStability(rating: FSRSRating): number {
+    return Math.max(this.config.weights[rating - 1], MIN_STABILITY);
+  }
+
+  initDifficulty(rating: FSRSRating): number {
+    const w = this.config.weights;
+    return clamp(w[4] - (rating - 3) * w[5], MIN_DIFFICULTY, MAX_DIFFICULTY);
+  }
+
+  nextDifficulty(difficulty: number, rating: FSRSRating): number {
+    const w = this.config.weights;
+    const next = difficulty - w[6] * (rating - 3);
+    // Mean reversion towards the initial "Good" difficulty
+    const reverted = w[7] * this.initDifficulty(3) + (1 - w[7]) * next;
+    return clamp(reverted, MIN_DIFFICULTY, MAX_DIFFICULTY);
+  }
+
+  nextRecallStability(
+    difficulty: number,
+    stability: number,
+    retrievability: number,
+    rating: FSRSRating,
+  ): number {
+    const w = this.config.weights;
+    const hardPenalty = rating === 2 ? w[15] : 1;
+    const easyBonus = rating === 4 ? w[16] : 1;
+    return (
+      stability *
+      (1 +
+        Math.exp(w[8]) *
+          (11 - difficulty) *
+          Math.pow(stability, -w[9]) *
+          (Math.exp(w[10] * (1 - retrievability)) - 1) *
+          hardPenalty *
+          easyBonus)
+    );
+  }
+
+  nextForgetStability(
+    difficulty: number,
+    stability: number,
+    retrievability: number,
+  ): number {
+    const w = this.config.weights;
+    const next =
+      w[11] *
+      Math.pow(difficulty, -w[12]) *
+      (Math.pow(stability + 1, w[13]) - 1) *
+      Math.exp(w[14] * (1 - retrievability));
+    // A lapse can never make a memory more stable than it was
+    return clamp(next, MIN_STABILITY, stability);
+  }
+
+  /**
+   * Memory state of a card. Cards that were scheduled by SM-2 or Leitner
+   * carry no FSRS state, so it is approximated from interval and ease factor.
+   */
+  getMemoryState(card: ReviewCard): FSRSMemoryState | null {
+    const fsrsCard = card as Partial<FSRSReviewCard>;
+    if (
+      typeof fsrsCard.stability === "number" &&
+      typeof fsrsCard.fsrsDifficulty === "number"
+    ) {
+      return {
+        stability: fsrsCard.stability,
+        difficulty: fsrsCard.fsrsDifficulty,
+      };
+    }
+
+    if (card.reviewCount === 0) {
+      return null;
+    }
+
+    return {
+      stability: Math.max(card.interval, MIN_STABILITY),
+      difficulty: easeFactorToDifficulty(card.easeFactor),
+    };
+  }
+
+  /**
+   * Days since the card was last reviewed. Without a recorded review date the
+   * card is assumed to have been reviewed exactly on schedule.
+   */
+  getElapsedDays(card: ReviewCard, now: Date = new Date()): number {
+    if (card.lastReviewDate) {
+      return Math.max(
+        (now.getTime() - new Date(card.lastReviewDate).getTime()) / MS_PER_DAY,
+        0,
+      );
+    }
+    return card.interval;
+  }
+
+  /**
+   * Predicted probability that the learner recalls the card right now
+   */
+  predictRecall(card: ReviewCard, now: Date = new Date()): number | null {
+    const state = this.getMemoryState(card);
+    if (!state) return null;
+    return this.forgettingCurve(this.getElapsedDays(card, now), state.stability);
+  }
+
+  calculateNextInterval(
+    currentInterval: number,
+    quality: number,
+    easeFactor: number,
+  ): number {
+    const rating = qualityToRating(quality);
+    const difficulty = easeFactorToDifficulty(easeFactor);
+    const stability = Math.max(currentInterval, MIN_STABILITY);
+    const retrievability = this.forgettingCurve(currentInterval, stability);
+    const nextStability =
+      rating === 1
+        ? this.nextForgetStability(difficulty, stability, retrievability)
+        : this.nextRecallStability(difficulty, stability, retrievability, rating);
+    return this.intervalForStability(nextStability);
+  }
+
+  updateEaseFactor(currentFactor: number, quality: number): number {
+    const difficulty = this.nextDifficulty(
+      easeFactorToDifficulty(currentFactor),
+      qualityToRating(quality),
+    );
+    return difficultyToEaseFactor(difficulty);
+  }
+
+  updateCard(
+    card: ReviewCard,
+    quality: number,
+    now: Date = new Date(),
+  ): FSRSReviewCard {
+    const rating = qualityToRating(quality);
+    const state = this.getMemoryState(card);
+
+    let stability: number;
+    let difficulty: number;
+    let retrievability: number | undefined;
+
+    if (!state) {
+      stability = this.initStability(rating);
+      difficulty = this.initDifficulty(rating);
+    } else {
+      retrievability = this.forgettingCurve(
+        this.getElapsedDays(card, now),
+        state.stability,
+      );
+      difficulty = this.nextDifficulty(state.difficulty, rating);
+      stability =
+        rating === 1
+          ? this.nextForgetStability(
+              state.difficulty,
+              state.stability,
+              retrievability,
+            )
+          : this.nextRecallStability(
+              state.difficulty,
+              state.stability,
+              retrievability,
+              rating,
+            );
+    }
+
+    const interval = this.intervalForStability(stability);
+    const nextReviewDate = new Date(now);
+    nextReviewDate.setDate(nextReviewDate.getDate() + interval);
+
+    return {
+      ...card,
+      interval,
+      easeFactor: difficultyToEaseFactor(difficulty),
+      nextReviewDate,
+      reviewCount: card.reviewCount + 1,
+      successStreak: rating > 1 ? card.successStreak + 1 : 0,
+      stability,
+      fsrsDifficulty: difficulty,
+      lastReviewDate: new Date(now),
+      retrievability,
+    };
+  }
+}
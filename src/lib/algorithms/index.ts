@@ -1,6 +1,19 @@
 // Algorithm exports
 export { SpacedRepetitionAlgorithm } from "./spaced-repetition";
 export { LeitnerSystem } from "./leitner-system";
+export { FSRSAlgorithm, DEFAULT_FSRS_WEIGHTS } from "./fsrs";
+export {
+  evaluateFSRS,
+  fitFSRSParameters,
+  reviewLogsFromHistory,
+} from "./fsrs-optimizer";
+export {
+  createSchedulingAlgorithm,
+  isSchedulingAlgorithmName,
+  replayReviewHistory,
+  SCHEDULING_ALGORITHMS,
+  DEFAULT_SCHEDULING_ALGORITHM,
+} from "./scheduler";
 export { AdaptiveDifficultyAlgorithm } from "./adaptive-difficulty";
 export { PerformanceAnalytics } from "./performance-analytics";
 export { LearningCurveAnalyzer } from "./learning-curve";
@@ -12,3 +25,15 @@ export type {
   LearningSession,
   ReviewCard,
 } from "./algorithm-interface";
+export type { FSRSConfig, FSRSReviewCard, FSRSRating } from "./fsrs";
+export type {
+  FSRSEvaluation,
+  FSRSFitResult,
+  ReviewHistoryRow,
+  ReviewLogEntry,
+} from "./fsrs-optimizer";
+export type {
+  SchedulingAlgorithm,
+  SchedulingAlgorithmName,
+  SchedulingOptions,
+} from "./scheduler";
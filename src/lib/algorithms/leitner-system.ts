@@ -3,7 +3,11 @@ import { ReviewCard } from "./algorithm-interface";
 export class LeitnerSystem {
   private readonly boxIntervals = [1, 3, 7, 14, 30];
 
-  moveCard(card: ReviewCard, isCorrect: boolean): ReviewCard {
+  moveCard(
+    card: ReviewCard,
+    isCorrect: boolean,
+    now: Date = new Date(),
+  ): ReviewCard {
     const currentBox = this.getBoxNumber(card.interval);
     let newBox: number;
 
@@ -14,13 +18,14 @@ export class LeitnerSystem {
     }
 
     const newInterval = this.boxIntervals[newBox];
-    const nextReviewDate = new Date();
+    const nextReviewDate = new Date(now);
     nextReviewDate.setDate(nextReviewDate.getDate() + newInterval);
 
     return {
       ...card,
       interval: newInterval,
       nextReviewDate,
+      lastReviewDate: new Date(now),
       reviewCount: card.reviewCount + 1,
       successStreak: isCorrect ? card.successStreak + 1 : 0,
     };
@@ -0,0 +1,124 @@
+/**
+ * Scheduling algorithm registry
+ * Lets callers pick SM-2, Leitner or FSRS by name (e.g. from user settings)
+ * and update cards through one interface
+ */
+
+import { ReviewCard } from "./algorithm-interface";
+import {
+  SpacedRepetitionAlgorithm,
+  SpacedRepetitionUtils,
+} from "./spaced-repetition";
+import { LeitnerSystem } from "./leitner-system";
+import { FSRSAlgorithm, type FSRSReviewCard } from "./fsrs";
+import type { ReviewLogEntry } from "./fsrs-optimizer";
+
+export type SchedulingAlgorithmName = "sm2" | "leitner" | "fsrs";
+
+export const SCHEDULING_ALGORITHMS: readonly SchedulingAlgorithmName[] = [
+  "sm2",
+  "leitner",
+  "fsrs",
+];
+
+export const DEFAULT_SCHEDULING_ALGORITHM: SchedulingAlgorithmName = "sm2";
+
+export interface SchedulingOptions {
+  fsrsWeights?: number[];
+  requestRetention?: number;
+  maxInterval?: number;
+}
+
+export interface SchedulingAlgorithm {
+  readonly name: SchedulingAlgorithmName;
+  updateCard(card: ReviewCard, quality: number, now?: Date): ReviewCard;
+}
+
+export function isSchedulingAlgorithmName(
+  value: unknown,
+): value is SchedulingAlgorithmName {
+  return (
+    typeof value === "string" &&
+    (SCHEDULING_ALGORITHMS as readonly string[]).includes(value)
+  );
+}
+
+/**
+ * SM-2 and Leitner copy unknown card fields forward; FSRS state they did not
+ * update would be stale the next time FSRS schedules the card
+ */
+function withoutFSRSState(card: ReviewCard): ReviewCard {
+  const {
+    stability: _stability,
+    fsrsDifficulty: _fsrsDifficulty,
+    retrievability: _retrievability,
+    ...rest
+  } = card as Partial<FSRSReviewCard>;
+  return rest as ReviewCard;
+}
+
+export function createSchedulingAlgorithm(
+  name: SchedulingAlgorithmName = DEFAULT_SCHEDULING_ALGORITHM,
+  options: SchedulingOptions = {},
+): SchedulingAlgorithm {
+  switch (name) {
+    case "fsrs": {
+      const fsrs = new FSRSAlgorithm({
+        weights: options.fsrsWeights,
+        ...(options.requestRetention
+          ? { requestRetention: options.requestRetention }
+          : {}),
+        ...(options.maxInterval ? { maxInterval: options.maxInterval } : {}),
+      });
+      return {
+        name,
+        updateCard: (card, quality, now) => fsrs.updateCard(card, quality, now),
+      };
+    }
+    case "leitner": {
+      const leitner = new LeitnerSystem();
+      return {
+        name,
+        updateCard: (card, quality, now) =>
+          withoutFSRSState(leitner.moveCard(card, quality >= 3, now)),
+      };
+    }
+    case "sm2":
+    default: {
+      const sm2 = new SpacedRepetitionAlgorithm(
+        options.maxInterval ? { maxInterval: options.maxInterval } : undefined,
+      );
+      return {
+        name: "sm2",
+        updateCard: (card, quality, now) =>
+          withoutFSRSState(sm2.updateCard(card, quality, now)),
+      };
+    }
+  }
+}
+
+/**
+ * Rebuild each card's scheduling state from its graded review history, e.g.
+ * after the user switches algorithm or gets newly fitted FSRS parameters
+ */
+export function replayReviewHistory(
+  logs: ReviewLogEntry[],
+  algorithm: SchedulingAlgorithm,
+): Map<string, ReviewCard> {
+  const sorted = [...logs].sort(
+    (a, b) => a.reviewedAt.getTime() - b.reviewedAt.getTime(),
+  );
+  const cards = new Map<string, ReviewCard>();
+
+  for (const entry of sorted) {
+    const card =
+      cards.get(entry.cardId) ??
+      SpacedRepetitionUtils.createCard(entry.cardId, entry.cardId);
+    cards.set(
+      entry.cardId,
+      algorithm.updateCard(card, entry.quality, entry.reviewedAt),
+    );
+  }
+
+  return cards;
+}
@@ -46,7 +46,11 @@ export class SpacedRepetitionAlgorithm extends BaseAlgorithm {
     return Math.max(newFactor, 1.3);
   }
 
-  updateCard(card: ReviewCard, quality: number): ReviewCard {
+  updateCard(
+    card: ReviewCard,
+    quality: number,
+    now: Date = new Date(),
+  ): ReviewCard {
     const newEaseFactor = this.updateEaseFactor(card.easeFactor, quality);
     const newInterval = this.calculateNextInterval(
       card.interval,
@@ -54,7 +58,7 @@ export class SpacedRepetitionAlgorithm extends BaseAlgorithm {
       newEaseFactor,
     );
 
-    const nextReviewDate = new Date();
+    const nextReviewDate = new Date(now);
     nextReviewDate.setDate(nextReviewDate.getDate() + newInterval);
 
     return {
@@ -62,6 +66,7 @@ export class SpacedRepetitionAlgorithm extends BaseAlgorithm {
       interval: newInterval,
       easeFactor: newEaseFactor,
       nextReviewDate,
+      lastReviewDate: new Date(now),
       reviewCount: card.reviewCount + 1,
       successStreak: quality >= 3 ? card.successStreak + 1 : 0,
     };
@@ -10,6 +10,7 @@ import { keyManager, getServerKey } from '@/lib/keys/keyManager';
 import { apiLogger, securityLogger, performanceLogger } from '@/lib/logger';
 import type { DescriptionStyle, DescriptionRequest, GeneratedDescription } from '../../types/api';
 import * as Sentry from '@sentry/nextjs';
+import type { WritingCorrection } from '@/lib/utils/writingExercise';
 import {
   trackClaudeAPICall,
   trackClaudeError,
@@ -19,6 +20,24 @@ import {
   checkPerformanceThreshold,
   trackEndpointErrorRate,
 } from '@/lib/monitoring/claude-metrics';
+import {
+  getLanguage,
+  getSystemPrompt,
+  getVisionPrompt,
+  QA_DIFFICULTY_CEFR,
+  formatCEFRTarget,
+  getCEFRInstruction,
+  analyzeTextDifficulty,
+  checkCEFRTarget,
+  describeCEFRMiss,
+  type CEFRLevel,
+  type CEFRTargetCheck,
+  type TextDifficultyAnalysis,
+  type SupportedLanguageCode,
+  type TargetLanguageCode,
+  type LanguageKey,
+  type SpanishVariantCode,
+} from '@/lib/languages';
 
 // Singleton Claude client instance for memory optimization
 let claudeClientInstance: Anthropic | null = null;
@@ -155,59 +174,163 @@ export function getServerClaudeClient(userApiKey?: string): Anthropic | null {
 }
 
 /**
- * Get style-specific system prompt for Claude
- * Claude uses system prompts differently than OpenAI
+ * Convert an image URL or data URI into a base64 image block; Claude does not
+ * accept remote URLs directly
  */
-function getStyleSystemPrompt(style: DescriptionStyle, language: string): string {
-  const prompts = {
-    narrativo: {
-      es: 'Eres un narrador creativo experto en español. Tu tarea es describir imágenes como si fueran parte de historias fascinantes, usando lenguaje vívido, evocador y rico en detalles sensoriales. Enfócate en crear atmósfera y contar una historia visual que cautive al lector.',
-      en: 'You are an expert creative storyteller in English. Your task is to describe images as if they were part of fascinating stories, using vivid, evocative language rich in sensory details. Focus on creating atmosphere and telling a visual story that captivates the reader.',
-    },
-    poetico: {
-      es: 'Eres un poeta visual experto en español. Describe imágenes con lenguaje poético sublime, usando metáforas elaboradas, símiles elegantes y lenguaje figurativo. Captura la esencia emocional, la belleza estética y el significado profundo de lo que observas.',
-      en: 'You are an expert visual poet in English. Describe images with sublime poetic language, using elaborate metaphors, elegant similes, and figurative language. Capture the emotional essence, aesthetic beauty, and deep meaning of what you observe.',
-    },
-    academico: {
-      es: 'Eres un analista visual académico experto en español. Proporciona descripciones objetivas, detalladas y estructuradas de imágenes, analizando meticulosamente la composición, elementos técnicos, contexto cultural, simbolismo y significado histórico o social.',
-      en: 'You are an expert academic visual analyst in English. Provide objective, detailed, and structured descriptions of images, meticulously analyzing composition, technical elements, cultural context, symbolism, and historical or social significance.',
-    },
-    conversacional: {
-      es: 'Eres un amigo hispanohablante cercano describiendo una imagen. Usa un tono casual, accesible y natural, como si estuvieras compartiendo lo que ves con alguien de confianza. Sé entusiasta, genuino y usa expresiones cotidianas del español.',
-      en: 'You are a close English-speaking friend describing an image. Use a casual, accessible, and natural tone, as if you were sharing what you see with someone you trust. Be enthusiastic, genuine, and use everyday expressions.',
-    },
-    infantil: {
-      es: 'Eres un cuentacuentos mágico para niños hispanohablantes. Describe imágenes de manera divertida, simple y encantadora, usando palabras que los niños puedan entender fácilmente. Hazlo mágico, emocionante y lleno de asombro, como si cada imagen fuera una aventura especial.',
-      en: 'You are a magical storyteller for English-speaking children. Describe images in a fun, simple, and enchanting way, using words that children can easily understand. Make it magical, exciting, and full of wonder, as if each image were a special adventure.',
-    },
-    creativo: {
-      es: 'Eres un artista visual creativo experto en español. Describe imágenes desde perspectivas únicas e inesperadas, explorando significados ocultos, conexiones inusuales y posibilidades imaginativas. Sé innovador, original y sorprendente en tus descripciones.',
-      en: 'You are an expert creative visual artist in English. Describe images from unique and unexpected perspectives, exploring hidden meanings, unusual connections, and imaginative possibilities. Be innovative, original, and surprising in your descriptions.',
-    },
-    tecnico: {
-      es: 'Eres un experto técnico en análisis visual en español. Proporciona descripciones precisas y técnicas de imágenes, enfocándote en aspectos como iluminación, composición, perspectiva, técnica fotográfica, valores de exposición y características técnicas específicas.',
-      en: 'You are an expert technical visual analyst in English. Provide precise and technical descriptions of images, focusing on aspects like lighting, composition, perspective, photographic technique, exposure values, and specific technical characteristics.',
-    },
-  };
+async function prepareImageContent(imageUrl: string): Promise<any> {
+  let imageContent: any;
+
+  if (imageUrl.startsWith('data:')) {
+    // Base64 image
+    const matches = imageUrl.match(/^data:image\/([^;]+);base64,(.+)$/);
+    if (!matches) {
+      throw new Error('Invalid base64 image format');
+    }
 
-  const prompt = prompts[style]?.[language as 'es' | 'en'];
+    const [, mediaType, data] = matches;
+    imageContent = {
+      type: 'image' as const,
+      source: {
+        type: 'base64' as const,
+        media_type: `image/${mediaType}` as any,
+        data: data,
+      },
+    };
+  } else {
+    // URL image - Claude doesn't support URLs directly, need to fetch and convert
+    performanceLogger.info('Fetching image for Claude', { url: imageUrl.substring(0, 100) });
+
+    const imageResponse = await fetch(imageUrl);
+    if (!imageResponse.ok) {
+      throw new Error(`Failed to fetch image: ${imageResponse.status}`);
+    }
 
-  if (!prompt) {
-    return language === 'es'
-      ? 'Eres un experto en describir imágenes en español de manera detallada, precisa y atractiva.'
-      : 'You are an expert at describing images in English in a detailed, precise, and engaging way.';
+    const arrayBuffer = await imageResponse.arrayBuffer();
+    const base64 = Buffer.from(arrayBuffer).toString('base64');
+    const contentType = imageResponse.headers.get('content-type') || 'image/jpeg';
+
+    imageContent = {
+      type: 'image' as const,
+      source: {
+        type: 'base64' as const,
+        media_type: contentType as any,
+        data: base64,
+      },
+    };
   }
 
-  return prompt;
+  return imageContent;
 }
 
+/**
+ * Map Anthropic API errors to messages that can be shown to the user
+ */
+function toClaudeServiceError(error: any): Error {
+  if (error.status === 401) {
+    return new Error('Invalid Anthropic API key - please check your configuration');
+  } else if (error.status === 429) {
+    return new Error('Rate limit exceeded - please try again in a moment');
+  } else if (error.error?.type === 'invalid_request_error') {
+    return new Error(`Invalid request: ${error.message}`);
+  }
+
+  return error;
+}
+
+export type VisionDescriptionRequest = Omit<DescriptionRequest, 'language'> & {
+  language?: SupportedLanguageCode;
+  /** CEFR level the text is written for and checked against */
+  cefrTarget?: CEFRLevel;
+  /** Generations tried before an off-level text is returned flagged (default 2) */
+  maxAttempts?: number;
+  /** Regional variant for Spanish descriptions */
+  variant?: SpanishVariantCode;
+};
+
+/**
+ * Description checked against a CEFR target
+ */
+export interface LeveledDescription {
+  text: string;
+  cefrTarget: CEFRLevel;
+  analysis: TextDifficultyAnalysis;
+  meetsTarget: boolean;
+  attempts: number;
+}
+
+const DEFAULT_LEVELING_ATTEMPTS = 2;
+
 /**
  * Generate image description using Claude's vision capabilities
- * Supports both URL and base64 image inputs
+ * Supports both URL and base64 image inputs. With a `cefrTarget` the text is
+ * analysed after generation and regenerated when it reads off-level; if the
+ * last attempt still misses, the closest attempt is returned with
+ * `meetsTarget: false`.
  */
 export async function generateClaudeVisionDescription(
-  request: DescriptionRequest & { language?: 'en' | 'es' },
+  request: VisionDescriptionRequest & { cefrTarget: CEFRLevel },
   userApiKey?: string
+): Promise<LeveledDescription>;
+export async function generateClaudeVisionDescription(
+  request: VisionDescriptionRequest,
+  userApiKey?: string
+): Promise<string>;
+export async function generateClaudeVisionDescription(
+  request: VisionDescriptionRequest,
+  userApiKey?: string
+): Promise<string | LeveledDescription> {
+  const { cefrTarget, maxAttempts = DEFAULT_LEVELING_ATTEMPTS, ...descriptionRequest } = request;
+
+  if (!cefrTarget) {
+    return requestVisionDescription(descriptionRequest, userApiKey);
+  }
+
+  const language = descriptionRequest.language ?? 'en';
+  const instruction = getCEFRInstruction(cefrTarget);
+  let best: { text: string; analysis: TextDifficultyAnalysis; check: CEFRTargetCheck } | null =
+    null;
+  let attempts = 0;
+
+  while (attempts < Math.max(1, maxAttempts)) {
+    const feedback = best ? `\n${describeCEFRMiss(best.check, best.analysis)}` : '';
+    const text = await requestVisionDescription(
+      descriptionRequest,
+      userApiKey,
+      `${instruction}${feedback}`
+    );
+    attempts++;
+
+    const analysis = analyzeTextDifficulty(text, language);
+    const check = checkCEFRTarget(analysis, cefrTarget);
+
+    if (!best || Math.abs(check.difference) < Math.abs(best.check.difference)) {
+      best = { text, analysis, check };
+    }
+    if (check.meetsTarget) {
+      break;
+    }
+  }
+
+  // The loop always runs at least once
+  const { text, analysis, check } = best!;
+
+  if (!check.meetsTarget) {
+    apiLogger.warn('Claude description missed CEFR target', {
+      language,
+      style: descriptionRequest.style,
+      target: cefrTarget,
+      estimated: check.estimated,
+      attempts,
+    });
+  }
+
+  return { text, cefrTarget, analysis, meetsTarget: check.meetsTarget, attempts };
+}
+
+async function requestVisionDescription(
+  request: Omit<VisionDescriptionRequest, 'cefrTarget' | 'maxAttempts'>,
+  userApiKey?: string,
+  promptSuffix?: string
 ): Promise<string> {
   const startTime = performance.now();
   const performanceTracker = new ClaudePerformanceTracker('/api/descriptions/generate');
@@ -221,7 +344,7 @@ export async function generateClaudeVisionDescription(
       throw new Error('Claude client not initialized - missing API key');
     }
 
-    const { imageUrl, style, maxLength = 500, customPrompt, language = 'en' } = request;
+    const { imageUrl, style, maxLength = 500, customPrompt, language = 'en', variant } = request;
 
     if (!imageUrl) {
       trackEndpointErrorRate('/api/descriptions/generate', true);
@@ -240,151 +363,14 @@ export async function generateClaudeVisionDescription(
     });
 
     // Get style-specific system prompt
-    const systemPrompt = getStyleSystemPrompt(style, language);
+    const systemPrompt = getSystemPrompt(language, style, variant);
 
     // Prepare image content for Claude
-    let imageContent: any;
-
-    if (imageUrl.startsWith('data:')) {
-      // Base64 image
-      const matches = imageUrl.match(/^data:image\/([^;]+);base64,(.+)$/);
-      if (!matches) {
-        throw new Error('Invalid base64 image format');
-      }
-
-      const [, mediaType, data] = matches;
-      imageContent = {
-        type: 'image' as const,
-        source: {
-          type: 'base64' as const,
-          media_type: `image/${mediaType}` as any,
-          data: data,
-        },
-      };
-    } else {
-      // URL image - Claude doesn't support URLs directly, need to fetch and convert
-      performanceLogger.info('Fetching image for Claude', { url: imageUrl.substring(0, 100) });
-
-      const imageResponse = await fetch(imageUrl);
-      if (!imageResponse.ok) {
-        throw new Error(`Failed to fetch image: ${imageResponse.status}`);
-      }
-
-      const arrayBuffer = await imageResponse.arrayBuffer();
-      const base64 = Buffer.from(arrayBuffer).toString('base64');
-      const contentType = imageResponse.headers.get('content-type') || 'image/jpeg';
-
-      imageContent = {
-        type: 'image' as const,
-        source: {
-          type: 'base64' as const,
-          media_type: contentType as any,
-          data: base64,
-        },
-      };
-    }
-
-    // Build the user message with image and prompt
-    // Style-specific instructions for rich paragraph descriptions based on VISUAL ANALYSIS
-    const styleInstructions: Record<string, { es: string; en: string }> = {
-      narrativo: {
-        es: `MIRA CUIDADOSAMENTE ESTA IMAGEN y escribe una descripción narrativa detallada.
-
-Analiza visualmente: ¿Qué personas, objetos, lugares o acciones ves? ¿Qué colores dominan? ¿Cómo es la iluminación? ¿Qué emociones transmite la escena?
-
-Escribe como si fuera el comienzo de una historia cautivadora. Describe específicamente lo que VES: los detalles visuales concretos, la atmósfera que crea la imagen, las texturas, los gestos, las expresiones. Usa verbos de acción y adjetivos sensoriales para crear una narrativa envolvente que transporte al lector a esta escena específica.`,
-        en: `LOOK CAREFULLY AT THIS IMAGE and write a detailed narrative description.
+    const imageContent = await prepareImageContent(imageUrl);
 
-Visually analyze: What people, objects, places, or actions do you see? What colors dominate? How is the lighting? What emotions does the scene convey?
-
-Write as if it were the beginning of a captivating story. Describe specifically what you SEE: the concrete visual details, the atmosphere the image creates, the textures, gestures, expressions. Use action verbs and sensory adjectives to create an immersive narrative that transports the reader to this specific scene.`,
-      },
-      poetico: {
-        es: `CONTEMPLA ESTA IMAGEN como un poeta y crea una descripción lírica profunda.
-
-Observa con atención: ¿Qué belleza encuentras en los detalles? ¿Qué simbolismo sugieren los elementos visuales? ¿Qué emociones te evoca cada color, cada forma, cada luz y sombra?
-
-Transforma lo que VES en poesía: usa metáforas elaboradas para describir los colores específicos, símiles elegantes para las formas que observas, personificación para los objetos. Captura la esencia emocional de ESTA imagen particular, sus tonalidades únicas, su composición, su alma visual.`,
-        en: `CONTEMPLATE THIS IMAGE as a poet and create a deep lyrical description.
-
-Observe carefully: What beauty do you find in the details? What symbolism do the visual elements suggest? What emotions does each color, each shape, each light and shadow evoke?
-
-Transform what you SEE into poetry: use elaborate metaphors to describe the specific colors, elegant similes for the shapes you observe, personification for objects. Capture the emotional essence of THIS particular image, its unique tones, its composition, its visual soul.`,
-      },
-      academico: {
-        es: `EXAMINA ESTA IMAGEN de manera analítica y proporciona un análisis académico completo.
-
-Estudia sistemáticamente: ¿Cuál es la composición (regla de tercios, simetría, líneas guía)? ¿Qué técnicas de iluminación se utilizan? ¿Qué elementos visuales son el foco principal? ¿Qué contexto cultural o histórico sugiere?
-
-Describe objetivamente cada elemento que OBSERVAS: la paleta de colores específica, la perspectiva utilizada, el balance visual, los puntos focales, las relaciones entre elementos. Analiza el significado potencial y el mensaje que comunica esta imagen particular.`,
-        en: `EXAMINE THIS IMAGE analytically and provide a complete academic analysis.
-
-Study systematically: What is the composition (rule of thirds, symmetry, leading lines)? What lighting techniques are used? What visual elements are the main focus? What cultural or historical context does it suggest?
-
-Objectively describe each element you OBSERVE: the specific color palette, the perspective used, the visual balance, the focal points, the relationships between elements. Analyze the potential meaning and message this particular image communicates.`,
-      },
-      conversacional: {
-        es: `¡MIRA ESTA IMAGEN! Descríbela como si se la contaras a un amigo cercano.
-
-Fíjate bien: ¿Qué es lo primero que te llama la atención? ¿Qué detalles curiosos o interesantes notas? ¿Qué te hace sentir o pensar?
-
-Cuéntame de forma natural y entusiasta lo que VES: "¡Oye, mira esto...!" Usa expresiones coloquiales, comparte tus impresiones personales sobre los colores, las personas, los objetos específicos. Sé genuino y descriptivo, como si estuvieras compartiendo algo que te ha impresionado.`,
-        en: `LOOK AT THIS IMAGE! Describe it as if you were telling a close friend.
-
-Notice carefully: What first catches your attention? What curious or interesting details do you notice? What does it make you feel or think?
-
-Tell me naturally and enthusiastically what you SEE: "Hey, look at this...!" Use casual expressions, share your personal impressions about the colors, the people, the specific objects. Be genuine and descriptive, as if you were sharing something that impressed you.`,
-      },
-      infantil: {
-        es: `¡MIRA ESTA IMAGEN MÁGICA! Descríbela como si le contaras un cuento a un niño pequeño.
-
-Observa con ojos de niño: ¿Qué colores brillantes ves? ¿Qué formas divertidas hay? ¿Quién o qué aparece en la imagen? ¿Qué podría estar pasando?
-
-Cuenta lo que VES de forma mágica y emocionante: "¡Mira! ¿Ves ese...?" Usa palabras simples pero expresivas. Señala los colores bonitos, las formas curiosas, los personajes o animales. Hazlo lleno de asombro y diversión, como si cada detalle fuera un descubrimiento especial.`,
-        en: `LOOK AT THIS MAGICAL IMAGE! Describe it as if you were telling a story to a young child.
-
-Observe with a child's eyes: What bright colors do you see? What fun shapes are there? Who or what appears in the image? What might be happening?
-
-Tell what you SEE in a magical and exciting way: "Look! Do you see that...?" Use simple but expressive words. Point out the pretty colors, the curious shapes, the characters or animals. Make it full of wonder and fun, as if each detail were a special discovery.`,
-      },
-      creativo: {
-        es: `OBSERVA ESTA IMAGEN desde una perspectiva única y ofrece una descripción imaginativa.
-
-Mira más allá de lo obvio: ¿Qué historia oculta podrían contar estos elementos? ¿Qué conexiones inesperadas puedes hacer? ¿Qué significados alternativos sugieren los colores, las formas, la composición?
-
-Describe lo que VES de manera innovadora: encuentra lo extraordinario en los detalles ordinarios, imagina historias detrás de cada elemento visual, crea conexiones sorprendentes entre lo que observas. Invita al lector a ver esta imagen de una manera completamente nueva.`,
-        en: `OBSERVE THIS IMAGE from a unique perspective and offer an imaginative description.
-
-Look beyond the obvious: What hidden story could these elements tell? What unexpected connections can you make? What alternative meanings do the colors, shapes, composition suggest?
-
-Describe what you SEE in an innovative way: find the extraordinary in ordinary details, imagine stories behind each visual element, create surprising connections between what you observe. Invite the reader to see this image in a completely new way.`,
-      },
-      tecnico: {
-        es: `ANALIZA ESTA IMAGEN técnicamente como un experto en fotografía o arte visual.
-
-Evalúa profesionalmente: ¿Cómo está la exposición? ¿Qué tipo de iluminación se usa (natural, artificial, dura, suave)? ¿Cuál es la profundidad de campo? ¿Qué ángulo y perspectiva se emplean? ¿Cómo es el balance de blancos y la saturación de colores?
-
-Describe con precisión técnica lo que OBSERVAS: la composición específica, las características de la luz, la gama tonal, el enfoque, los valores de contraste. Incluye observaciones sobre técnica fotográfica o artística que esta imagen particular demuestra.`,
-        en: `ANALYZE THIS IMAGE technically as a photography or visual arts expert.
-
-Evaluate professionally: How is the exposure? What type of lighting is used (natural, artificial, hard, soft)? What is the depth of field? What angle and perspective are employed? How is the white balance and color saturation?
-
-Describe with technical precision what you OBSERVE: the specific composition, lighting characteristics, tonal range, focus, contrast values. Include observations about photographic or artistic technique that this particular image demonstrates.`,
-      },
-    };
-
-    const styleInstruction =
-      styleInstructions[style]?.[language] || styleInstructions['narrativo'][language];
-
-    const userPrompt =
-      customPrompt ||
-      (language === 'es'
-        ? `${styleInstruction}
-
-IMPORTANTE: Basa tu descripción ÚNICAMENTE en lo que puedes VER en esta imagen específica. Escribe ${maxLength} palabras aproximadamente en párrafos fluidos. NO incluyas títulos, encabezados ni listas. Solo texto descriptivo rico y expresivo.`
-        : `${styleInstruction}
-
-IMPORTANT: Base your description ONLY on what you can SEE in this specific image. Write approximately ${maxLength} words in flowing paragraphs. Do NOT include titles, headings, or lists. Only rich, expressive descriptive text.`);
+    // Style-specific visual-analysis instructions in the requested language
+    const basePrompt = customPrompt || getVisionPrompt(language, style, maxLength);
+    const userPrompt = promptSuffix ? `${basePrompt}\n\n${promptSuffix}` : basePrompt;
 
     performanceTracker.mark('image_prepared');
 
@@ -512,16 +498,135 @@ IMPORTANT: Base your description ONLY on what you can SEE in this specific image
       errorCode: error.error?.type,
     });
 
-    // Provide helpful error messages
-    if (error.status === 401) {
-      throw new Error('Invalid Anthropic API key - please check your configuration');
-    } else if (error.status === 429) {
-      throw new Error('Rate limit exceeded - please try again in a moment');
-    } else if (error.error?.type === 'invalid_request_error') {
-      throw new Error(`Invalid request: ${error.message}`);
+    throw toClaudeServiceError(error);
+  }
+}
+
+export interface VisionStreamHandlers {
+  /** Called with each text fragment as Claude produces it */
+  onText: (delta: string) => void;
+  /** Aborts the upstream request when the client disconnects or cancels */
+  signal?: AbortSignal;
+}
+
+/**
+ * Stream an image description token by token
+ * Uses the same prompts as generateClaudeVisionDescription and resolves with
+ * the complete text. CEFR regeneration does not apply here since the text has
+ * already been shown; callers analyse the result and flag it instead.
+ */
+export async function streamClaudeVisionDescription(
+  request: Omit<VisionDescriptionRequest, 'cefrTarget' | 'maxAttempts'>,
+  handlers: VisionStreamHandlers,
+  userApiKey?: string
+): Promise<string> {
+  const startTime = performance.now();
+  const { imageUrl, style, maxLength = 500, customPrompt, language = 'en', variant } = request;
+
+  try {
+    const client = getServerClaudeClient(userApiKey);
+
+    if (!client) {
+      throw new Error('Claude client not initialized - missing API key');
+    }
+    if (!imageUrl) {
+      throw new Error('Image URL is required');
     }
 
-    throw error;
+    const imageContent = await prepareImageContent(imageUrl);
+
+    performanceLogger.info('Starting Claude vision stream', {
+      step: 'vision_stream_start',
+      style,
+      language,
+      maxLength,
+    });
+
+    const stream = client.messages.stream(
+      {
+        model: CLAUDE_MODEL,
+        max_tokens: CLAUDE_MAX_TOKENS,
+        system: getSystemPrompt(language, style, variant),
+        messages: [
+          {
+            role: 'user',
+            content: [
+              imageContent,
+              { type: 'text', text: customPrompt || getVisionPrompt(language, style, maxLength) },
+            ],
+          },
+        ],
+        temperature: 0.7,
+      },
+      { signal: handlers.signal }
+    );
+
+    stream.on('text', delta => handlers.onText(delta));
+
+    const response = await stream.finalMessage();
+    const duration = performance.now() - startTime;
+    const description = response.content
+      .filter(block => block.type === 'text')
+      .map(block => ('text' in block ? block.text : ''))
+      .join('\n');
+
+    if (!description) {
+      throw new Error('No text content in Claude response');
+    }
+
+    const inputTokens = response.usage?.input_tokens || 0;
+    const outputTokens = response.usage?.output_tokens || 0;
+    const estimatedCost = calculateClaudeCost(CLAUDE_MODEL, inputTokens, outputTokens);
+
+    trackClaudeAPICall({
+      endpoint: '/api/descriptions/generate/stream',
+      model: CLAUDE_MODEL,
+      inputTokens,
+      outputTokens,
+      totalTokens: inputTokens + outputTokens,
+      responseTime: duration,
+      estimatedCost,
+      success: true,
+    });
+    trackEndpointErrorRate('/api/descriptions/generate/stream', false);
+
+    performanceLogger.info('Claude vision stream complete', {
+      step: 'vision_stream_complete',
+      duration,
+      durationFormatted: `${duration.toFixed(2)}ms`,
+      inputTokens,
+      outputTokens,
+      stopReason: response.stop_reason,
+      language,
+      style,
+    });
+
+    return description;
+  } catch (error: any) {
+    const duration = performance.now() - startTime;
+
+    // A cancelled stream is expected when the learner stops generation
+    if (handlers.signal?.aborted) {
+      apiLogger.info('Claude vision stream cancelled', { language, style, duration });
+      throw error;
+    }
+
+    trackClaudeError(error, {
+      endpoint: '/api/descriptions/generate/stream',
+      model: CLAUDE_MODEL,
+      requestDuration: duration,
+    });
+    trackEndpointErrorRate('/api/descriptions/generate/stream', true);
+
+    apiLogger.error('Claude vision stream failed', {
+      error: error.message,
+      duration: `${duration.toFixed(2)}ms`,
+      step: 'vision_stream_error',
+      statusCode: error.status,
+      errorCode: error.error?.type,
+    });
+
+    throw toClaudeServiceError(error);
   }
 }
 
@@ -650,32 +755,34 @@ export async function generateClaudeQA(
   imageDescription: string,
   difficulty: 'facil' | 'medio' | 'dificil' = 'medio',
   count: number = 5,
-  userApiKey?: string
+  userApiKey?: string,
+  language: TargetLanguageCode = 'es'
 ): Promise<Array<{ question: string; answer: string; difficulty: string }>> {
+  const { name, qaExample } = getLanguage(language);
   const difficultyMap = {
-    facil: 'easy (A1-A2 CEFR level)',
-    medio: 'intermediate (B1-B2 CEFR level)',
-    dificil: 'advanced (C1-C2 CEFR level)',
+    facil: `easy (${formatCEFRTarget(QA_DIFFICULTY_CEFR.facil)} CEFR level)`,
+    medio: `intermediate (${formatCEFRTarget(QA_DIFFICULTY_CEFR.medio)} CEFR level)`,
+    dificil: `advanced (${formatCEFRTarget(QA_DIFFICULTY_CEFR.dificil)} CEFR level)`,
   };
 
-  const systemPrompt = `You are an expert Spanish language teacher creating comprehension questions based on image descriptions.
+  const systemPrompt = `You are an expert ${name} language teacher creating comprehension questions based on image descriptions.
 Generate questions at ${difficultyMap[difficulty]} that test vocabulary, grammar, and comprehension.
-Focus on helping students learn Spanish naturally through contextual understanding.`;
+Focus on helping students learn ${name} naturally through contextual understanding.`;
 
-  const userPrompt = `Based on this image description, generate ${count} questions and answers in Spanish:
+  const userPrompt = `Based on this image description, generate ${count} questions and answers in ${name}:
 
 Description: "${imageDescription}"
 
 Generate ${count} questions at ${difficulty} difficulty level. For each question:
 1. Ask about specific details, vocabulary, or concepts from the description
-2. Provide a clear, correct answer in Spanish
+2. Provide a clear, correct answer in ${name}
 3. Make questions interesting and educational
 
 Return ONLY valid JSON array in this exact format:
 [
   {
-    "question": "¿Qué se describe en la imagen?",
-    "answer": "Se describe...",
+    "question": "${qaExample.question}",
+    "answer": "${qaExample.answer}",
     "difficulty": "${difficulty}"
   }
 ]`;
@@ -728,23 +835,35 @@ ${text}`;
   );
 }
 
+/**
+ * Vocabulary item returned by extractVocabularyWithClaude; the term is keyed
+ * by the language key (`spanish`, `french`, ...)
+ */
+export type ExtractedVocabularyItem = Partial<Record<LanguageKey, string>> & {
+  english: string;
+  partOfSpeech: string;
+  context: string;
+};
+
 /**
  * Extract vocabulary phrases using Claude
  */
 export async function extractVocabularyWithClaude(
   text: string,
   difficulty: 'beginner' | 'intermediate' | 'advanced' = 'intermediate',
-  userApiKey?: string
-): Promise<Array<{ spanish: string; english: string; partOfSpeech: string; context: string }>> {
-  const systemPrompt = `You are an expert Spanish language teacher specializing in vocabulary extraction and teaching.
-Extract the most important and useful vocabulary from Spanish texts, providing translations, grammatical information, and learning context.`;
+  userApiKey?: string,
+  language: TargetLanguageCode = 'es'
+): Promise<ExtractedVocabularyItem[]> {
+  const { name, key } = getLanguage(language);
+  const systemPrompt = `You are an expert ${name} language teacher specializing in vocabulary extraction and teaching.
+Extract the most important and useful vocabulary from ${name} texts, providing translations, grammatical information, and learning context.`;
 
-  const userPrompt = `Extract ${difficulty}-level vocabulary from this Spanish text. Return ONLY valid JSON:
+  const userPrompt = `Extract ${difficulty}-level vocabulary from this ${name} text. Return ONLY valid JSON:
 
 Text: "${text}"
 
 Extract 10-15 key vocabulary items. For each:
-- Provide Spanish word/phrase
+- Provide ${name} word/phrase
 - English translation
 - Part of speech
 - Example usage in context
@@ -752,10 +871,10 @@ Extract 10-15 key vocabulary items. For each:
 Return JSON array:
 [
   {
-    "spanish": "palabra",
+    "${key}": "word in ${name}",
     "english": "word",
     "partOfSpeech": "noun",
-    "context": "Example sentence in Spanish"
+    "context": "Example sentence in ${name}"
   }
 ]`;
 
@@ -781,5 +900,63 @@ Return JSON array:
   }
 }
 
+/**
+ * Correct a learner's description of an image, using the AI description of
+ * the same image as the model answer
+ */
+export async function correctWritingWithClaude(
+  text: string,
+  referenceDescription: string,
+  userApiKey?: string,
+  language: TargetLanguageCode = 'es'
+): Promise<{ correctedText: string; corrections: WritingCorrection[]; feedback: string }> {
+  const { name } = getLanguage(language);
+  const systemPrompt = `You are a patient ${name} language teacher correcting a learner's short written description of an image.
+Fix grammar, spelling, accents and word choice, but keep the learner's own ideas and sentence structure wherever they are correct.`;
+
+  const userPrompt = `The learner wrote this description of an image in ${name}:
+
+"${text}"
+
+A model description of the same image:
+
+"${referenceDescription}"
+
+Correct the learner's text. List each correction with a one-sentence explanation in English. Then give two or three sentences of encouraging feedback in English comparing their description with the model one: what they noticed well and what details or vocabulary they could add.
+
+Return ONLY valid JSON in this exact format:
+{
+  "correctedText": "the learner's text with every mistake fixed",
+  "corrections": [
+    { "original": "words as written", "correction": "corrected words", "explanation": "why" }
+  ],
+  "feedback": "feedback for the learner"
+}`;
+
+  try {
+    const completion = await generateClaudeCompletion(
+      userPrompt,
+      systemPrompt,
+      { maxTokens: 2048, temperature: 0.3, endpoint: '/api/sessions/writing' },
+      userApiKey
+    );
+
+    const jsonMatch = completion.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+      throw new Error('Failed to extract JSON from Claude response');
+    }
+
+    const review = JSON.parse(jsonMatch[0]);
+    return {
+      correctedText: typeof review.correctedText === 'string' ? review.correctedText : text,
+      corrections: Array.isArray(review.corrections) ? review.corrections : [],
+      feedback: typeof review.feedback === 'string' ? review.feedback : '',
+    };
+  } catch (error) {
+    apiLogger.error('Claude writing correction failed', error);
+    throw error;
+  }
+}
+
 // Export for server-side use
 export { CLAUDE_MODEL, CLAUDE_MAX_TOKENS };
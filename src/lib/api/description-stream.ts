@@ -0,0 +1,109 @@
+/**
+ * Server-Sent Events protocol for streamed description generation
+ * Shared by /api/descriptions/generate/stream and useDescriptions so both
+ * sides agree on event names and payloads.
+ *
+ *   start        languages being generated
+ *   delta        a text fragment for one language
+ *   description  one language finished (same shape as the JSON route items)
+ *   error        one language or the whole request failed
+ *   done         final payload, identical to the JSON route response
+ */
+
+import type { CEFRLevel, LanguageKey, TextDifficultyAnalysis } from '@/lib/languages';
+import type { DescriptionStyle } from '@/types/api';
+import { safeParse, safeStringify } from '@/lib/utils/json-safe';
+
+/**
+ * CEFR check attached to a leveled description
+ */
+export interface DescriptionCEFR {
+  target: CEFRLevel;
+  estimated: CEFRLevel;
+  meetsTarget: boolean;
+  attempts: number;
+  analysis: TextDifficultyAnalysis;
+}
+
+export interface GeneratedDescriptionPayload {
+  id: string;
+  imageId: string;
+  style: DescriptionStyle;
+  content: string;
+  language: LanguageKey;
+  cefr?: DescriptionCEFR;
+  createdAt: string;
+}
+
+export type DescriptionStreamEvent =
+  | {
+      event: 'start';
+      data: {
+        requestId: string;
+        descriptions: Array<Pick<GeneratedDescriptionPayload, 'id' | 'language'>>;
+      };
+    }
+  | { event: 'delta'; data: { id: string; language: LanguageKey; text: string } }
+  | { event: 'description'; data: GeneratedDescriptionPayload }
+  | { event: 'error'; data: { message: string; language?: LanguageKey } }
+  | {
+      event: 'done';
+      data: {
+        success: true;
+        data: GeneratedDescriptionPayload[];
+        metadata: Record<string, unknown>;
+      };
+    };
+
+export type DescriptionStreamEventName = DescriptionStreamEvent['event'];
+
+const EVENT_NAMES: readonly DescriptionStreamEventName[] = [
+  'start',
+  'delta',
+  'description',
+  'error',
+  'done',
+];
+
+export function encodeStreamEvent(event: DescriptionStreamEvent): string {
+  return `event: ${event.event}\ndata: ${safeStringify(event.data)}\n\n`;
+}
+
+/**
+ * Parse complete events out of a buffer of received text
+ * Returns the parsed events and the trailing partial event to keep for the
+ * next chunk. Comment lines and unknown event names are skipped.
+ */
+export function parseStreamEvents(buffer: string): {
+  events: DescriptionStreamEvent[];
+  remainder: string;
+} {
+  const blocks = buffer.replace(/\r\n/g, '\n').split('\n\n');
+  const remainder = blocks.pop() ?? '';
+  const events: DescriptionStreamEvent[] = [];
+
+  for (const block of blocks) {
+    let name = 'message';
+    const dataLines: string[] = [];
+
+    for (const line of block.split('\n')) {
+      if (line.startsWith('event:')) {
+        name = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        dataLines.push(line.slice(5).trimStart());
+      }
+    }
+
+    if (!EVENT_NAMES.includes(name as DescriptionStreamEventName) || dataLines.length === 0) {
+      continue;
+    }
+
+    // Malformed events are dropped rather than aborting the whole stream
+    const data = safeParse(dataLines.join('\n'));
+    if (data !== undefined) {
+      events.push({ event: name, data } as DescriptionStreamEvent);
+    }
+  }
+
+  return { events, remainder };
+}
@@ -0,0 +1,176 @@
+/**
+ * Image Providers
+ * Searches several image sources at once and merges their results into a
+ * single ImageSearchResponse.
+ */
+
+import { imageProviderNameSchema, type ImageSearchRequest } from '@/core/schemas/images.schema';
+import { LocalFolderImageProvider } from './localFolder';
+import { PexelsImageProvider } from './pexels';
+import type {
+  ImageProvider,
+  ImageProviderName,
+  ImageProviderPage,
+  ImageProviderStatus,
+  MergedImageSearchResponse,
+  ProviderImage,
+} from './types';
+import { UnsplashImageProvider } from './unsplash';
+import { WikimediaImageProvider } from './wikimedia';
+
+const DEFAULT_PROVIDER_TIMEOUT_MS = 3500;
+
+export function createImageProvider(name: ImageProviderName): ImageProvider {
+  switch (name) {
+    case 'unsplash':
+      return new UnsplashImageProvider();
+    case 'pexels':
+      return new PexelsImageProvider();
+    case 'wikimedia':
+      return new WikimediaImageProvider();
+    case 'local':
+      return new LocalFolderImageProvider();
+  }
+}
+
+/**
+ * Parses a comma-separated provider list such as "unsplash,local"; throws a
+ * ZodError for unknown names
+ */
+export function parseImageProviderNames(list: string | undefined): ImageProviderName[] {
+  if (!list) return [];
+  const names = list
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean);
+  return Array.from(new Set(names.map(name => imageProviderNameSchema.parse(name))));
+}
+
+/**
+ * Providers to search, in merge order. Defaults to IMAGE_PROVIDERS, then to
+ * every provider; only configured ones are kept. With none configured,
+ * Unsplash answers from its demo images.
+ */
+export function getImageProviders(names?: ImageProviderName[]): ImageProvider[] {
+  const requested = names?.length
+    ? names
+    : parseImageProviderNames(process.env.IMAGE_PROVIDERS).length
+      ? parseImageProviderNames(process.env.IMAGE_PROVIDERS)
+      : imageProviderNameSchema.options;
+
+  const providers = requested.map(createImageProvider).filter(provider => provider.isConfigured());
+  return providers.length > 0 ? providers : [new UnsplashImageProvider()];
+}
+
+/** Same photo reached through different URLs (sizes, query strings) */
+function canonicalUrl(image: ProviderImage): string {
+  const url = image.urls.full || image.urls.regular;
+  try {
+    const parsed = new URL(url, 'http://local');
+    return `${parsed.origin}${parsed.pathname}`;
+  } catch {
+    return url;
+  }
+}
+
+async function searchWithTimeout(
+  provider: ImageProvider,
+  params: Parameters<ImageProvider['search']>[0],
+  timeoutMs: number
+): Promise<ImageProviderPage> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new Error(`Timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([provider.search(params, controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Searches every provider in parallel and interleaves their results, so no
+ * single source fills the first page. A failing provider is reported in
+ * `providers` rather than failing the whole search.
+ */
+export async function searchImageProviders(
+  params: ImageSearchRequest,
+  options: { providers?: ImageProvider[]; timeoutMs?: number } = {}
+): Promise<MergedImageSearchResponse> {
+  const providers =
+    options.providers ?? getImageProviders(parseImageProviderNames(params.providers));
+  const page = params.page ?? 1;
+  const perPage = params.per_page ?? 20;
+  const share = Math.ceil(perPage / providers.length);
+
+  const settled = await Promise.allSettled(
+    providers.map(provider =>
+      searchWithTimeout(
+        provider,
+        {
+          query: params.query,
+          page,
+          perPage: share,
+          orientation: params.orientation,
+          color: params.color,
+          orderBy: params.orderBy,
+        },
+        options.timeoutMs ?? DEFAULT_PROVIDER_TIMEOUT_MS
+      )
+    )
+  );
+
+  const pages = settled.map(result => (result.status === 'fulfilled' ? result.value : null));
+  const statuses: ImageProviderStatus[] = providers.map((provider, index) => {
+    const result = settled[index];
+    return result.status === 'fulfilled'
+      ? { provider: provider.name, count: result.value.images.length, total: result.value.total }
+      : {
+          provider: provider.name,
+          count: 0,
+          total: 0,
+          error: result.reason instanceof Error ? result.reason.message : String(result.reason),
+        };
+  });
+
+  const images: ProviderImage[] = [];
+  const seenIds = new Set<string>();
+  const seenUrls = new Set<string>();
+  const longest = Math.max(0, ...pages.map(result => result?.images.length ?? 0));
+  for (let i = 0; i < longest && images.length < perPage; i++) {
+    for (const result of pages) {
+      const image = result?.images[i];
+      if (!image || images.length >= perPage) continue;
+      const key = `${image.provider}:${image.id}`;
+      const url = canonicalUrl(image);
+      if (seenIds.has(key) || seenUrls.has(url)) continue;
+      seenIds.add(key);
+      seenUrls.add(url);
+      images.push(image);
+    }
+  }
+
+  const totalPages = Math.max(0, ...pages.map(result => result?.totalPages ?? 0));
+  return {
+    images,
+    total: pages.reduce((sum, result) => sum + (result?.total ?? 0), 0),
+    totalPages,
+    currentPage: page,
+    hasNextPage: page < totalPages,
+    providers: statuses,
+  };
+}
+
+export {
+  LocalFolderImageProvider,
+  PexelsImageProvider,
+  UnsplashImageProvider,
+  WikimediaImageProvider,
+};
+export * from './types';
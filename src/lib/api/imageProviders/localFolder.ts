@@ -0,0 +1,180 @@
+/**
+ * LocalFolderImageProvider
+ * Searches a folder of images on the server so classrooms without outside
+ * internet access still have pictures to describe. The folder is served at
+ * LOCAL_IMAGE_LIBRARY_URL (e.g. from /public or a reverse proxy).
+ *
+ * An optional library.json in the folder adds titles, tags and credits:
+ *   [{ "file": "mercado.jpg", "title": "Mercado", "tags": ["fruta"], "author": "..." }]
+ * Without it, titles are derived from file names.
+ */
+
+import { readdir, readFile } from 'fs/promises';
+import path from 'path';
+import type {
+  ImageProvider,
+  ImageProviderPage,
+  ImageProviderSearchParams,
+  ProviderImage,
+} from './types';
+
+const MANIFEST_FILE = 'library.json';
+const IMAGE_EXTENSIONS = new Set(['.jpg', '.jpeg', '.png', '.webp', '.gif', '.avif']);
+const INDEX_TTL_MS = 60 * 1000;
+const FALLBACK_SIZE = { width: 1080, height: 720 };
+
+interface LibraryManifestEntry {
+  file: string;
+  title?: string;
+  description?: string;
+  tags?: string[];
+  author?: string;
+  authorUrl?: string;
+  license?: string;
+  width?: number;
+  height?: number;
+}
+
+interface LibraryEntry extends LibraryManifestEntry {
+  title: string;
+  width: number;
+  height: number;
+  searchText: string;
+}
+
+function fold(text: string): string {
+  return text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+function titleFromFile(file: string): string {
+  const base = path.basename(file, path.extname(file)).replace(/[-_]+/g, ' ').trim();
+  return base.charAt(0).toUpperCase() + base.slice(1);
+}
+
+function matchesOrientation(
+  entry: LibraryEntry,
+  orientation: ImageProviderSearchParams['orientation']
+): boolean {
+  const ratio = entry.width / entry.height;
+  if (orientation === 'landscape') return ratio > 1.1;
+  if (orientation === 'portrait') return ratio < 0.9;
+  if (orientation === 'squarish') return ratio >= 0.9 && ratio <= 1.1;
+  return true;
+}
+
+async function readImageSize(filePath: string): Promise<{ width: number; height: number }> {
+  try {
+    const { default: sharp } = await import('sharp');
+    const { width, height } = await sharp(filePath).metadata();
+    if (width && height) return { width, height };
+  } catch {
+    // Unreadable or unsupported file: fall through to a sensible default
+  }
+  return FALLBACK_SIZE;
+}
+
+export class LocalFolderImageProvider implements ImageProvider {
+  public readonly name = 'local' as const;
+
+  private index: LibraryEntry[] | null = null;
+  private indexedAt = 0;
+
+  constructor(
+    private readonly directory: string = process.env.LOCAL_IMAGE_LIBRARY_DIR ?? '',
+    private readonly baseUrl: string = process.env.LOCAL_IMAGE_LIBRARY_URL ?? '/image-library'
+  ) {}
+
+  public isConfigured(): boolean {
+    return this.directory.trim().length > 0;
+  }
+
+  public async search(params: ImageProviderSearchParams): Promise<ImageProviderPage> {
+    const tokens = fold(params.query).split(/\s+/).filter(Boolean);
+    const entries = (await this.loadIndex()).filter(
+      entry =>
+        tokens.every(token => entry.searchText.includes(token)) &&
+        matchesOrientation(entry, params.orientation)
+    );
+
+    const start = (params.page - 1) * params.perPage;
+    return {
+      images: entries.slice(start, start + params.perPage).map(entry => this.toImage(entry)),
+      total: entries.length,
+      totalPages: Math.ceil(entries.length / params.perPage),
+    };
+  }
+
+  private async loadIndex(): Promise<LibraryEntry[]> {
+    if (this.index && Date.now() - this.indexedAt < INDEX_TTL_MS) {
+      return this.index;
+    }
+
+    const files = (await readdir(this.directory)).filter(file =>
+      IMAGE_EXTENSIONS.has(path.extname(file).toLowerCase())
+    );
+    const manifest = await this.readManifest();
+    const byFile = new Map(manifest.map(entry => [entry.file, entry]));
+    // Manifest entries come first, in the order the teacher listed them
+    const ordered = [
+      ...manifest.map(entry => entry.file).filter(file => files.includes(file)),
+      ...files.filter(file => !byFile.has(file)).sort(),
+    ];
+
+    this.index = await Promise.all(
+      ordered.map(async file => {
+        const meta = byFile.get(file) ?? { file };
+        const size =
+          meta.width && meta.height
+            ? { width: meta.width, height: meta.height }
+            : await readImageSize(path.join(this.directory, file));
+        const title = meta.title ?? titleFromFile(file);
+        return {
+          ...meta,
+          ...size,
+          title,
+          searchText: fold([title, meta.description, ...(meta.tags ?? []), file].join(' ')),
+        };
+      })
+    );
+    this.indexedAt = Date.now();
+    return this.index;
+  }
+
+  private async readManifest(): Promise<LibraryManifestEntry[]> {
+    try {
+      const raw = await readFile(path.join(this.directory, MANIFEST_FILE), 'utf8');
+      const parsed: unknown = JSON.parse(raw);
+      return Array.isArray(parsed)
+        ? parsed.filter(
+            (entry): entry is LibraryManifestEntry =>
+              typeof entry === 'object' && entry !== null && typeof entry.file === 'string'
+          )
+        : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private toImage(entry: LibraryEntry): ProviderImage {
+    const url = `${this.baseUrl.replace(/\/$/, '')}/${encodeURIComponent(entry.file)}`;
+    const author = entry.author ?? 'Classroom library';
+    return {
+      id: `local-${entry.file}`,
+      urls: { small: url, regular: url, full: url, thumb: url },
+      alt_description: entry.title,
+      description: entry.description ?? entry.title,
+      user: { name: author, username: author },
+      width: entry.width,
+      height: entry.height,
+      color: '#cccccc',
+      provider: this.name,
+      attribution: {
+        provider: this.name,
+        providerName: 'Local library',
+        author,
+        authorUrl: entry.authorUrl,
+        license: entry.license,
+      },
+    };
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * PexelsImageProvider
+ * Searches the Pexels photo API; needs PEXELS_API_KEY.
+ */
+
+import {
+  ImageProviderError,
+  type ImageProvider,
+  type ImageProviderPage,
+  type ImageProviderSearchParams,
+} from './types';
+
+const PEXELS_API_URL = 'https://api.pexels.com/v1/search';
+
+interface PexelsPhoto {
+  id: number;
+  width: number;
+  height: number;
+  url: string;
+  photographer: string;
+  photographer_url: string;
+  avg_color: string | null;
+  alt: string | null;
+  src: {
+    original: string;
+    large2x: string;
+    large: string;
+    medium: string;
+    small: string;
+    tiny: string;
+  };
+}
+
+interface PexelsSearchResponse {
+  page: number;
+  per_page: number;
+  total_results: number;
+  photos: PexelsPhoto[];
+}
+
+const ORIENTATIONS: Record<NonNullable<ImageProviderSearchParams['orientation']>, string> = {
+  landscape: 'landscape',
+  portrait: 'portrait',
+  squarish: 'square',
+};
+
+// Pexels names some colours differently and has no black-and-white filter
+const COLORS: Partial<Record<NonNullable<ImageProviderSearchParams['color']>, string>> = {
+  black: 'black',
+  white: 'white',
+  yellow: 'yellow',
+  orange: 'orange',
+  red: 'red',
+  purple: 'violet',
+  magenta: 'pink',
+  green: 'green',
+  teal: 'turquoise',
+  blue: 'blue',
+};
+
+export class PexelsImageProvider implements ImageProvider {
+  public readonly name = 'pexels' as const;
+
+  constructor(private readonly apiKey: string = process.env.PEXELS_API_KEY ?? '') {}
+
+  public isConfigured(): boolean {
+    return this.apiKey.trim().length > 0;
+  }
+
+  public async search(
+    params: ImageProviderSearchParams,
+    signal?: AbortSignal
+  ): Promise<ImageProviderPage> {
+    const url = new URL(PEXELS_API_URL);
+    url.searchParams.set('query', params.query);
+    url.searchParams.set('page', String(params.page));
+    url.searchParams.set('per_page', String(params.perPage));
+    if (params.orientation) url.searchParams.set('orientation', ORIENTATIONS[params.orientation]);
+    const color = params.color && COLORS[params.color];
+    if (color) url.searchParams.set('color', color);
+
+    const response = await fetch(url, { headers: { Authorization: this.apiKey }, signal });
+    if (!response.ok) {
+      throw new ImageProviderError(
+        this.name,
+        `Search failed with ${response.status}`,
+        response.status
+      );
+    }
+
+    const data = (await response.json()) as PexelsSearchResponse;
+    return {
+      images: data.photos.map(photo => ({
+        id: `pexels-${photo.id}`,
+        urls: {
+          small: photo.src.medium,
+          regular: photo.src.large,
+          full: photo.src.large2x,
+          raw: photo.src.original,
+          thumb: photo.src.tiny,
+        },
+        alt_description: photo.alt || null,
+        description: photo.alt || null,
+        user: {
+          name: photo.photographer,
+          username: photo.photographer_url.split('/').filter(Boolean).pop() ?? photo.photographer,
+        },
+        width: photo.width,
+        height: photo.height,
+        color: photo.avg_color ?? '#cccccc',
+        provider: this.name,
+        attribution: {
+          provider: this.name,
+          providerName: 'Pexels',
+          author: photo.photographer,
+          authorUrl: photo.photographer_url,
+          sourceUrl: photo.url,
+          license: 'Pexels License',
+        },
+      })),
+      total: data.total_results,
+      totalPages: Math.ceil(data.total_results / params.perPage),
+    };
+  }
+}
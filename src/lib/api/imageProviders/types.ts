@@ -0,0 +1,64 @@
+/**
+ * Image provider types
+ */
+
+import type {
+  ImageAttribution,
+  ImageProviderName,
+  ImageResult,
+  ImageSearchRequest,
+  ImageSearchResponse,
+} from '@/core/schemas/images.schema';
+
+export type { ImageAttribution, ImageProviderName };
+
+export interface ImageProviderSearchParams {
+  query: string;
+  page: number;
+  perPage: number;
+  orientation?: ImageSearchRequest['orientation'];
+  color?: ImageSearchRequest['color'];
+  orderBy?: ImageSearchRequest['orderBy'];
+}
+
+/** A search result with the provider it came from and how to credit it */
+export type ProviderImage = ImageResult & {
+  provider: ImageProviderName;
+  attribution: ImageAttribution;
+};
+
+export interface ImageProviderPage {
+  images: ProviderImage[];
+  total: number;
+  totalPages: number;
+}
+
+export interface ImageProvider {
+  readonly name: ImageProviderName;
+  /** False when the provider has no key or no library to search */
+  isConfigured(): boolean;
+  search(params: ImageProviderSearchParams, signal?: AbortSignal): Promise<ImageProviderPage>;
+}
+
+export interface ImageProviderStatus {
+  provider: ImageProviderName;
+  count: number;
+  total: number;
+  error?: string;
+}
+
+export type MergedImageSearchResponse = ImageSearchResponse & {
+  images: ProviderImage[];
+  providers: ImageProviderStatus[];
+};
+
+export class ImageProviderError extends Error {
+  constructor(
+    public readonly provider: ImageProviderName,
+    message: string,
+    public readonly status?: number
+  ) {
+    super(`[${provider}] ${message}`);
+    this.name = 'ImageProviderError';
+  }
+}
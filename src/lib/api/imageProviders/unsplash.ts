@@ -0,0 +1,48 @@
+/**
+ * UnsplashImageProvider
+ * Adapts the existing Unsplash service, which keeps its own key handling,
+ * caching and demo mode.
+ */
+
+import { unsplashService } from '../unsplash';
+import type { ImageProvider, ImageProviderPage, ImageProviderSearchParams } from './types';
+
+export class UnsplashImageProvider implements ImageProvider {
+  public readonly name = 'unsplash' as const;
+
+  // Demo images only make sense when nothing else can answer
+  public isConfigured(): boolean {
+    return !unsplashService.isDemoMode();
+  }
+
+  public async search(params: ImageProviderSearchParams): Promise<ImageProviderPage> {
+    const result = await unsplashService.searchImages({
+      query: params.query,
+      page: params.page,
+      per_page: params.perPage,
+      orientation: params.orientation,
+      color: params.color,
+      // Unsplash has no "oldest" ordering
+      order_by: params.orderBy === 'oldest' ? undefined : params.orderBy,
+    });
+
+    return {
+      images: result.images.map(image => ({
+        ...image,
+        alt_description: image.alt_description ?? null,
+        description: image.description ?? null,
+        provider: this.name,
+        attribution: {
+          provider: this.name,
+          providerName: 'Unsplash',
+          author: image.user.name,
+          authorUrl: image.user.links?.html,
+          sourceUrl: image.links?.html,
+          license: 'Unsplash License',
+        },
+      })),
+      total: result.total,
+      totalPages: result.totalPages,
+    };
+  }
+}
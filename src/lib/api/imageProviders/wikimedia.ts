@@ -0,0 +1,163 @@
+/**
+ * WikimediaImageProvider
+ * Searches freely licensed files on Wikimedia Commons. No key is needed, but
+ * Wikimedia asks API clients to identify themselves with a User-Agent.
+ */
+
+import {
+  ImageProviderError,
+  type ImageProvider,
+  type ImageProviderPage,
+  type ImageProviderSearchParams,
+  type ProviderImage,
+} from './types';
+
+const COMMONS_API_URL = 'https://commons.wikimedia.org/w/api.php';
+const USER_AGENT = 'DescribeIt/1.0 (language learning image search)';
+const REGULAR_WIDTH = 1080;
+
+interface CommonsImageInfo {
+  url: string;
+  thumburl?: string;
+  width: number;
+  height: number;
+  descriptionurl: string;
+  mime: string;
+  extmetadata?: Record<string, { value: string } | undefined>;
+}
+
+interface CommonsPage {
+  pageid: number;
+  title: string;
+  index?: number;
+  imageinfo?: CommonsImageInfo[];
+}
+
+interface CommonsSearchResponse {
+  continue?: { gsroffset: number };
+  query?: { pages?: Record<string, CommonsPage> };
+}
+
+/** Commons metadata values are HTML fragments */
+function plainText(html: string | undefined): string {
+  return (html ?? '')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&amp;/g, '&')
+    .replace(/&quot;/g, '"')
+    .replace(/&#0?39;/g, "'")
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/** Commons thumbnails encode the width in the path, e.g. ".../1080px-Cat.jpg" */
+function thumbnailAt(thumbUrl: string, width: number): string {
+  return thumbUrl.replace(/\/\d+px-/, `/${width}px-`);
+}
+
+function matchesOrientation(
+  width: number,
+  height: number,
+  orientation: ImageProviderSearchParams['orientation']
+): boolean {
+  const ratio = width / height;
+  switch (orientation) {
+    case 'landscape':
+      return ratio > 1.1;
+    case 'portrait':
+      return ratio < 0.9;
+    case 'squarish':
+      return ratio >= 0.9 && ratio <= 1.1;
+    default:
+      return true;
+  }
+}
+
+export class WikimediaImageProvider implements ImageProvider {
+  public readonly name = 'wikimedia' as const;
+
+  public isConfigured(): boolean {
+    return true;
+  }
+
+  public async search(
+    params: ImageProviderSearchParams,
+    signal?: AbortSignal
+  ): Promise<ImageProviderPage> {
+    const offset = (params.page - 1) * params.perPage;
+    const url = new URL(COMMONS_API_URL);
+    Object.entries({
+      action: 'query',
+      format: 'json',
+      origin: '*',
+      generator: 'search',
+      gsrsearch: `${params.query} filetype:bitmap`,
+      gsrnamespace: '6',
+      gsrlimit: String(params.perPage),
+      gsroffset: String(offset),
+      prop: 'imageinfo',
+      iiprop: 'url|size|mime|extmetadata',
+      iiurlwidth: String(REGULAR_WIDTH),
+    }).forEach(([key, value]) => url.searchParams.set(key, value));
+
+    const response = await fetch(url, { headers: { 'User-Agent': USER_AGENT }, signal });
+    if (!response.ok) {
+      throw new ImageProviderError(
+        this.name,
+        `Search failed with ${response.status}`,
+        response.status
+      );
+    }
+
+    const data = (await response.json()) as CommonsSearchResponse;
+    const pages = Object.values(data.query?.pages ?? {}).sort(
+      (a, b) => (a.index ?? 0) - (b.index ?? 0)
+    );
+
+    const images = pages.flatMap((page): ProviderImage[] => {
+      const info = page.imageinfo?.[0];
+      if (!info || !info.mime.startsWith('image/') || !info.width || !info.height) return [];
+      if (!matchesOrientation(info.width, info.height, params.orientation)) return [];
+
+      const metadata = info.extmetadata ?? {};
+      const title = page.title.replace(/^File:/, '').replace(/\.[a-z0-9]+$/i, '');
+      const description = plainText(metadata.ImageDescription?.value) || title;
+      const author = plainText(metadata.Artist?.value) || 'Unknown author';
+      const thumb = info.thumburl ?? info.url;
+
+      return [
+        {
+          id: `wikimedia-${page.pageid}`,
+          urls: {
+            small: thumbnailAt(thumb, 400),
+            regular: thumb,
+            full: info.url,
+            thumb: thumbnailAt(thumb, 200),
+          },
+          alt_description: title,
+          description,
+          user: { name: author, username: author },
+          width: info.width,
+          height: info.height,
+          color: '#cccccc',
+          provider: this.name,
+          attribution: {
+            provider: this.name,
+            providerName: 'Wikimedia Commons',
+            author,
+            sourceUrl: info.descriptionurl,
+            license: plainText(metadata.LicenseShortName?.value) || undefined,
+          },
+        },
+      ];
+    });
+
+    // Commons does not report a total; estimate it from whether more pages follow
+    const hasMore = data.continue?.gsroffset !== undefined;
+    const total = offset + pages.length + (hasMore ? params.perPage : 0);
+    return {
+      images,
+      total,
+      totalPages: hasMore ? params.page + 1 : params.page,
+    };
+  }
+}
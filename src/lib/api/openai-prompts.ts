@@ -1,335 +1,12 @@
-// Educational prompts for Spanish learning through images
-export const EDUCATIONAL_PROMPTS = {
-  es: {
-    narrativo: `Como profesor de español, crea una descripción narrativa educativa de esta imagen.
-    
-    ESTRUCTURA OBLIGATORIA:
-    1. CONTEXTO GENERAL (2-3 oraciones)
-       - Primera impresión y ambiente general
-       - Ubicación o escenario principal
-    
-    2. DETALLES ESPECÍFICOS (3-4 oraciones)
-       - Elementos visuales importantes
-       - Colores, formas y texturas destacadas
-       - Personas, objetos o animales presentes
-    
-    3. ATMÓSFERA Y REFLEXIÓN (2-3 oraciones)
-       - Emociones que transmite la imagen
-       - Posible historia o mensaje
-       - Reflexión final o pregunta abierta
-    
-    REQUISITOS LINGÜÍSTICOS:
-    • Vocabulario nivel B1-B2 (intermedio)
-    • Mínimo 5 adjetivos descriptivos variados
-    • 3-4 expresiones idiomáticas comunes en español
-    • Conectores discursivos (mientras, además, por otro lado, sin embargo, no obstante)
-    • Usar presente, pretérito perfecto e imperfecto
-    • Incluir al menos una oración con subjuntivo
-    
-    ESTILO: Educativo pero engaging, claro pero rico en vocabulario.`,
+// Educational prompts for language learning through images
+// Templates live in the language registry; these tables index them by code.
+// Use getEducationalPrompt for a template in a regional Spanish variant.
+import { buildLanguageTable } from '@/lib/languages';
 
-    poetico: `Como profesor de literatura española, crea una descripción poética educativa de esta imagen.
-    
-    ELEMENTOS POÉTICOS REQUERIDOS:
-    • 3 metáforas o símiles accesibles (usando "como", "parece", "recuerda a")
-    • 3 referencias sensoriales diferentes (vista, oído, tacto, olfato, gusto)
-    • Vocabulario emocional y evocador
-    • Ritmo fluido y musical en las frases
-    • 2-3 figuras literarias simples:
-      - Personificación (dar vida a objetos)
-      - Hipérbole (exageración poética)
-      - Aliteración (repetición de sonidos)
-    
-    ESTRUCTURA SUGERIDA:
-    - Comienza con una imagen impactante
-    - Desarrolla la atmósfera con detalles sensoriales
-    - Cierra con una reflexión profunda o pregunta filosófica
-    
-    EJEMPLO DE INICIO:
-    "Los colores danzan como mariposas de luz..." o
-    "El silencio abraza cada rincón de esta escena..."
-    
-    Mantén balance entre belleza poética y claridad para estudiantes de español.`,
-
-    academico: `Como profesor universitario, proporciona un análisis académico de esta imagen para estudiantes avanzados de español (B2-C1).
-    
-    ESTRUCTURA DEL ANÁLISIS:
-    
-    1. DESCRIPCIÓN OBJETIVA
-       • Elementos visuales principales y su disposición
-       • Composición (primer plano, fondo, perspectiva)
-       • Paleta de colores y uso de la luz
-       • Técnica o estilo aparente
-    
-    2. CONTEXTO CULTURAL
-       • Posibles referencias culturales hispanas
-       • Elementos universales vs. específicos
-       • Época o período que sugiere
-       • Relevancia social o histórica
-    
-    3. INTERPRETACIÓN SEMIÓTICA
-       • Significados denotativos y connotativos
-       • Simbolismo presente
-       • Mensaje implícito o explícito
-       • Posibles lecturas alternativas
-    
-    4. VALOR PEDAGÓGICO
-       • Cómo facilita el aprendizaje del español
-       • Temas de conversación que genera
-       • Vocabulario específico que introduce
-    
-    REQUISITOS LINGÜÍSTICOS:
-    • Vocabulario académico formal
-    • Uso del subjuntivo en contextos apropiados
-    • Perífrasis verbales (poder + infinitivo, deber de + infinitivo)
-    • Conectores académicos: no obstante, asimismo, en consecuencia, cabe destacar, por consiguiente
-    • Voz pasiva y pasiva refleja
-    • Construcciones impersonales`,
-
-    conversacional: `Como un amigo hispanohablante nativo, describe esta imagen de manera natural y coloquial para practicar español conversacional.
-    
-    ELEMENTOS CONVERSACIONALES OBLIGATORIOS:
-    
-    INICIO CON GANCHO:
-    • "¡Oye, mira esto!" / "¿Sabes qué?" / "¡No te lo vas a creer!"
-    
-    INTERJECCIONES Y MULETILLAS:
-    • ¡Fíjate! / ¡Qué fuerte! / ¡Madre mía! / ¡Anda!
-    • Pues... / O sea... / Es que... / La verdad es que...
-    • ¿Sabes? / ¿No? / ¿Verdad? / ¿Me entiendes?
-    
-    EXPRESIONES COLOQUIALES (incluir 4-5):
-    • Estar en las nubes / Ser pan comido / Estar como pez en el agua
-    • No tener ni pies ni cabeza / Ser la leche / Molar mogollón
-    • Flipar en colores / Ser un rollo / Estar de muerte
-    
-    OPINIONES PERSONALES:
-    • "Me parece que..." / "Yo creo que..." / "A mi modo de ver..."
-    • "Lo que más me flipa es..." / "Me mola un montón que..."
-    
-    PREGUNTAS RETÓRICAS:
-    • "¿No te parece increíble que...?"
-    • "¿A que no adivinas qué...?"
-    
-    DIMINUTIVOS Y AUMENTATIVOS:
-    • Un poquito, cerquita, pequeñito, grandote, buenísimo
-    
-    FINAL INTERACTIVO:
-    • "¿Tú qué opinas?" / "¿A ti qué te parece?"`,
-
-    infantil: `Como maestro de español para niños, crea una descripción mágica y educativa para estudiantes jóvenes (8-12 años).
-    
-    ESTRUCTURA DE AVENTURA:
-    
-    1. APERTURA EMOCIONANTE
-       • "¡Wow! ¡Miren esta imagen tan genial!"
-       • "¿Están listos para una aventura?"
-    
-    2. DESCRIPCIÓN CON MAGIA
-       • Vocabulario básico + 3-4 palabras nuevas explicadas en contexto
-       • Comparaciones divertidas:
-         - "Grande como un elefante"
-         - "Rápido como un cohete"
-         - "Brillante como las estrellas"
-    
-    3. MINI-HISTORIA INTERACTIVA
-       • Crear una pequeña aventura basada en la imagen
-       • Incluir un personaje que los niños puedan seguir
-       • Momento de suspenso o sorpresa
-    
-    ELEMENTOS EDUCATIVOS:
-    • Repetición de vocabulario clave (3 veces mínimo)
-    • Colores y números para contar
-    • Preguntas interactivas:
-      - "¿Pueden contar cuántos...?"
-      - "¿De qué color es...?"
-      - "¿Dónde está escondido...?"
-    
-    SONIDOS Y EFECTOS:
-    • Onomatopeyas: ¡Pum! ¡Zas! ¡Splash! ¡Cataplún!
-    • Sonidos de animales si aplica
-    
-    CIERRE IMAGINATIVO:
-    • "¿Qué crees que pasaría si tú estuvieras ahí?"
-    • "¿Qué aventura vivirías en este lugar?"
-    • "Inventa un final diferente para esta historia"`,
-  },
-
-  en: {
-    narrativo: `As a Spanish teacher, create an educational narrative description of this image for English-speaking Spanish learners.
-    
-    Include:
-    • Clear structure with beginning, middle, and end
-    • Spanish vocabulary with context clues
-    • Cultural references when relevant
-    • Variety of verb tenses
-    • Descriptive adjectives
-    • Common Spanish expressions with translations`,
-
-    poetico: `Create a poetic description for Spanish language learners:
-    • Simple metaphors and similes
-    • Sensory language
-    • Emotional vocabulary
-    • Rhythmic flow
-    • Accessible literary devices`,
-
-    academico: `Provide an academic analysis for advanced Spanish students:
-    • Formal vocabulary
-    • Complex grammar structures
-    • Cultural context
-    • Objective tone
-    • Academic discourse markers`,
-
-    conversacional: `Describe the image conversationally for Spanish conversation practice:
-    • Natural expressions
-    • Colloquialisms
-    • Personal opinions
-    • Interactive questions
-    • Casual tone`,
-
-    infantil: `Create a fun description for young Spanish learners:
-    • Simple vocabulary
-    • Repetition for reinforcement
-    • Interactive elements
-    • Playful comparisons
-    • Imaginative story`,
-  },
-};
+export const EDUCATIONAL_PROMPTS = buildLanguageTable(language => language.prompts.educational);
 
 // Q&A Generation Prompts
-export const QA_PROMPTS = {
-  es: `Como profesor de español, genera preguntas y respuestas educativas basadas en esta descripción.
-  
-  FORMATO DE RESPUESTA OBLIGATORIO:
-  Responde ÚNICAMENTE con un array JSON válido. NO incluyas explicaciones ni texto adicional.
-  
-  ESTRUCTURA EXACTA REQUERIDA:
-  [
-    {
-      "question": "texto de la pregunta",
-      "answer": "texto de la respuesta",
-      "difficulty": "facil" | "medio" | "dificil",
-      "category": "categoría de la pregunta"
-    }
-  ]
-  
-  CREA EXACTAMENTE 5 PARES DE PREGUNTA-RESPUESTA:
-  
-  DISTRIBUCIÓN POR NIVEL:
-  • 2 preguntas FÁCILES (difficulty: "facil"): Información directa, vocabulario básico
-  • 2 preguntas MEDIAS (difficulty: "medio"): Comprensión, inferencias simples
-  • 1 pregunta DIFÍCIL (difficulty: "dificil"): Análisis, opinión, hipótesis
-  
-  TIPOS DE PREGUNTAS A INCLUIR:
-  1. Descriptiva: ¿Qué...? ¿Cómo es...?
-  2. Locativa: ¿Dónde...? ¿En qué lugar...?
-  3. Causal: ¿Por qué...? ¿Cuál es la razón...?
-  4. Hipotética: ¿Qué pasaría si...? ¿Cómo sería...?
-  5. Opinión: ¿Qué opinas de...? ¿Crees que...?
-  
-  CATEGORÍAS VÁLIDAS (category):
-  • "Vocabulario"
-  • "Gramática"
-  • "Cultura"
-  • "Comprensión"
-  • "Expresión"
-  
-  Las respuestas deben:
-  • Ser educativas y completas (2-4 oraciones según la dificultad)
-  • Incluir vocabulario del nivel correspondiente
-  • Usar estructuras gramaticales variadas
-  • Evitar caracteres especiales que puedan romper el JSON`,
-
-  en: `Generate educational Q&A pairs for Spanish learners based on this description.
-  
-  MANDATORY RESPONSE FORMAT:
-  Respond ONLY with a valid JSON array. NO explanations or additional text.
-  
-  EXACT STRUCTURE REQUIRED:
-  [
-    {
-      "question": "question text",
-      "answer": "answer text", 
-      "difficulty": "facil" | "medio" | "dificil",
-      "category": "question category"
-    }
-  ]
-  
-  Create exactly 5 question-answer pairs:
-  • 2 EASY (difficulty: "facil"): Direct information
-  • 2 MEDIUM (difficulty: "medio"): Comprehension
-  • 1 HARD (difficulty: "dificil"): Analysis and opinion
-  
-  Valid categories: "Vocabulario", "Gramática", "Cultura", "Comprensión", "Expresión"
-  
-  Include various question types and provide complete, educational answers.`,
-};
+export const QA_PROMPTS = buildLanguageTable(language => language.prompts.qa);
 
 // Phrase Extraction Prompts
-export const PHRASE_PROMPTS = {
-  es: `Como profesor de español, extrae y categoriza el vocabulario educativo de esta descripción.
-  
-  FORMATO DE RESPUESTA OBLIGATORIO:
-  Responde ÚNICAMENTE con un objeto JSON válido. NO incluyas explicaciones ni texto adicional.
-  
-  ESTRUCTURA EXACTA REQUERIDA:
-  {
-    "objetos": ["palabra1", "palabra2", "palabra3"],
-    "acciones": ["acción1", "acción2", "acción3"],
-    "lugares": ["lugar1", "lugar2", "lugar3"],
-    "colores": ["color1", "color2", "color3"],
-    "emociones": ["emoción1", "emoción2"],
-    "conceptos": ["concepto1", "concepto2"]
-  }
-  
-  CATEGORÍAS OBLIGATORIAS:
-  
-  OBJETOS (3-8 palabras):
-  • Sustantivos concretos de la descripción
-  • Sin artículos (solo la palabra)
-  • Evitar plurales innecesarios
-  
-  ACCIONES (3-8 palabras):
-  • Verbos en infinitivo de la descripción
-  • Solo acciones relevantes para el aprendizaje
-  
-  LUGARES (2-5 palabras):
-  • Espacios y ubicaciones mencionados
-  • Incluir lugares específicos o generales
-  
-  COLORES (2-6 palabras):
-  • Colores mencionados o implícitos
-  • Incluir matices si es relevante
-  
-  EMOCIONES (2-5 palabras):
-  • Sentimientos transmitidos por la descripción
-  • Emociones que genera la imagen
-  
-  CONCEPTOS (2-6 palabras):
-  • Ideas abstractas de la descripción
-  • Conceptos educativos importantes
-  
-  REGLAS IMPORTANTES:
-  • Todas las palabras deben estar en español
-  • Evitar caracteres especiales que rompan el JSON
-  • Cada array debe tener al menos 1 elemento, máximo 8
-  • Usar palabras relevantes para estudiantes de español`,
-
-  en: `Extract and categorize educational vocabulary for Spanish learners from this description.
-  
-  MANDATORY RESPONSE FORMAT:
-  Respond ONLY with a valid JSON object. NO explanations or additional text.
-  
-  EXACT STRUCTURE REQUIRED:
-  {
-    "objetos": ["word1", "word2", "word3"],
-    "acciones": ["action1", "action2", "action3"],
-    "lugares": ["place1", "place2", "place3"],
-    "colores": ["color1", "color2", "color3"],
-    "emociones": ["emotion1", "emotion2"],
-    "conceptos": ["concept1", "concept2"]
-  }
-  
-  Extract relevant Spanish vocabulary categorized appropriately.
-  Each array should have 1-8 items. All words must be in Spanish.`,
-};
+export const PHRASE_PROMPTS = buildLanguageTable(language => language.prompts.phrases);
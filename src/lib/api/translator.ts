@@ -2,12 +2,24 @@ import { openAIService } from "./openai";
 import { vercelKvCache } from "./vercel-kv";
 import { APIError } from "../../types/api";
 import { apiLogger } from '@/lib/logger';
+import {
+  enforceGlossary,
+  findGlossaryTerms,
+  glossaryInstructions,
+  glossaryTranslation,
+  translationMemory,
+  type TranslationMemoryStats,
+} from "@/lib/services/translationMemory";
 
 export interface TranslationRequest {
   text: string;
   fromLanguage: "es" | "en";
   toLanguage: "es" | "en";
   context?: string;
+  /** Enables the user's translation memory and glossary */
+  userId?: string;
+  listId?: string;
+  region?: string;
 }
 
 export interface TranslationResult {
@@ -17,6 +29,7 @@ export interface TranslationResult {
   toLanguage: string;
   confidence?: number;
   alternatives?: string[];
+  source?: "memory" | "glossary";
 }
 
 export interface BatchTranslationRequest {
@@ -24,6 +37,9 @@ export interface BatchTranslationRequest {
   fromLanguage: "es" | "en";
   toLanguage: "es" | "en";
   context?: string;
+  userId?: string;
+  listId?: string;
+  region?: string;
 }
 
 export interface BatchTranslationResult {
@@ -262,7 +278,7 @@ class TranslatorService {
    * Translate a single text
    */
   async translateText(request: TranslationRequest): Promise<TranslationResult> {
-    const { text, fromLanguage, toLanguage, context } = request;
+    const { text, fromLanguage, toLanguage, context, userId, listId, region } = request;
 
     // Return original text if same language
     if (fromLanguage === toLanguage) {
@@ -282,24 +298,71 @@ class TranslatorService {
       context,
     );
 
+    // The user's memory replaces the shared cache, so glossary edits apply at once
+    const scope = userId ? { userId, listId, region } : null;
+    const glossary = scope
+      ? await translationMemory.getGlossary(scope, fromLanguage, toLanguage)
+      : [];
+
     try {
-      // Check cache first
-      const cached = await vercelKvCache.get<TranslationResult>(cacheKey);
-      if (cached) {
-        return cached;
+      if (scope) {
+        const direct = glossaryTranslation(text, glossary);
+        if (direct) {
+          translationMemory.recordGlossaryUse({ matched: 1, direct: true });
+          return {
+            originalText: text,
+            translatedText: direct.targetTerm,
+            fromLanguage,
+            toLanguage,
+            confidence: 1,
+            source: "glossary",
+          };
+        }
+      } else {
+        // Check cache first
+        const cached = await vercelKvCache.get<TranslationResult>(cacheKey);
+        if (cached) {
+          return cached;
+        }
+      }
+
+      const memoryMatch = scope
+        ? await translationMemory.lookup(scope, text, fromLanguage, toLanguage)
+        : null;
+
+      if (memoryMatch?.exact) {
+        const applied = enforceGlossary(text, memoryMatch.targetText, glossary);
+        translationMemory.recordGlossaryUse({
+          matched: applied.matched.length,
+          corrections: applied.corrections.length,
+        });
+        return {
+          originalText: text,
+          translatedText: applied.text,
+          fromLanguage,
+          toLanguage,
+          confidence: memoryMatch.origin === "user" ? 1 : 0.95,
+          source: "memory",
+        };
       }
 
       let translatedText: string;
       let confidence = 0.9; // Default confidence for OpenAI
+      let origin: "llm" | "memory" | "fallback" = "llm";
 
       // Try OpenAI translation first
       try {
-        const contextPrompt = context
-          ? `Context: ${context}\n\nTranslate the following text from ${fromLanguage} to ${toLanguage}:`
-          : `Translate the following text from ${fromLanguage} to ${toLanguage}:`;
+        const instructions = [
+          context ? `Context: ${context}` : "",
+          glossaryInstructions(findGlossaryTerms(text, glossary)),
+          memoryMatch
+            ? `A similar text was translated before; keep its wording where it fits:\n"${memoryMatch.sourceText}" -> "${memoryMatch.targetText}"`
+            : "",
+          `Translate the following text from ${fromLanguage} to ${toLanguage}:`,
+        ].filter(Boolean);
 
         translatedText = await openAIService.translateText({
-          text: `${contextPrompt}\n\n"${text}"`,
+          text: `${instructions.join("\n\n")}\n\n"${text}"`,
           fromLanguage,
           toLanguage,
         });
@@ -320,9 +383,15 @@ class TranslatorService {
           toLanguage,
         );
 
-        if (fallback) {
+        if (memoryMatch) {
+          // A close remembered translation beats the word list
+          translatedText = memoryMatch.targetText;
+          confidence = Math.round(memoryMatch.similarity * 0.8 * 100) / 100;
+          origin = "memory";
+        } else if (fallback) {
           translatedText = fallback;
           confidence = 0.7; // Lower confidence for fallback
+          origin = "fallback";
         } else {
           throw new APIError({
             code: "TRANSLATION_FAILED",
@@ -333,16 +402,39 @@ class TranslatorService {
         }
       }
 
+      if (scope) {
+        const applied = enforceGlossary(text, translatedText, glossary);
+        translationMemory.recordGlossaryUse({
+          matched: applied.matched.length,
+          corrections: applied.corrections.length,
+        });
+        translatedText = applied.text;
+
+        // Only model translations are remembered, not dictionary guesses
+        if (origin === "llm") {
+          await translationMemory.remember(scope, {
+            sourceText: text,
+            targetText: translatedText,
+            fromLanguage,
+            toLanguage,
+            origin: "llm",
+          });
+        }
+      }
+
       const result: TranslationResult = {
         originalText: text,
         translatedText,
         fromLanguage,
         toLanguage,
         confidence,
+        ...(origin === "memory" ? { source: "memory" as const } : {}),
       };
 
       // Cache successful translations for 7 days
-      await vercelKvCache.set(cacheKey, result, 604800);
+      if (!scope) {
+        await vercelKvCache.set(cacheKey, result, 604800);
+      }
 
       return result;
     } catch (error) {
@@ -356,14 +448,16 @@ class TranslatorService {
       if (fallback) {
         const result: TranslationResult = {
           originalText: text,
-          translatedText: fallback,
+          translatedText: enforceGlossary(text, fallback, glossary).text,
           fromLanguage,
           toLanguage,
           confidence: 0.5, // Low confidence for dictionary lookup
         };
 
         // Cache fallback for 1 day
-        await vercelKvCache.set(cacheKey, result, 86400);
+        if (!scope) {
+          await vercelKvCache.set(cacheKey, result, 86400);
+        }
 
         return result;
       }
@@ -385,7 +479,7 @@ class TranslatorService {
   async batchTranslate(
     request: BatchTranslationRequest,
   ): Promise<BatchTranslationResult> {
-    const { texts, fromLanguage, toLanguage, context } = request;
+    const { texts, fromLanguage, toLanguage, context, userId, listId, region } = request;
 
     const results: TranslationResult[] = [];
     const failed: Array<{ index: number; error: string; text: string }> = [];
@@ -404,6 +498,9 @@ class TranslatorService {
             fromLanguage,
             toLanguage,
             context,
+            userId,
+            listId,
+            region,
           });
 
           return { index: actualIndex, result, error: null };
@@ -480,6 +577,7 @@ class TranslatorService {
     cacheHitRate: number;
     supportedLanguages: number;
     fallbackTranslationsAvailable: number;
+    memory: TranslationMemoryStats;
   }> {
     try {
       // This would require tracking metrics in cache
@@ -492,6 +590,7 @@ class TranslatorService {
         fallbackTranslationsAvailable: Object.keys(
           FALLBACK_TRANSLATIONS["es-en"],
         ).length,
+        memory: translationMemory.getStats(),
       };
     } catch {
       return {
@@ -501,6 +600,7 @@ class TranslatorService {
         fallbackTranslationsAvailable: Object.keys(
           FALLBACK_TRANSLATIONS["es-en"],
         ).length,
+        memory: translationMemory.getStats(),
       };
     }
   }
@@ -654,6 +654,13 @@ class UnsplashService {
     }
   }
 
+  /**
+   * Whether searches return generated demo images instead of calling the API
+   */
+  isDemoMode(): boolean {
+    return this.isDemo || this.accessKey === 'demo' || !this.accessKey;
+  }
+
   /**
    * Gets current rate limit information
    */
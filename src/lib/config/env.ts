@@ -109,6 +109,8 @@ export interface ServerEnv {
   RUVECTOR_ENABLED?: string;
   RUVECTOR_API_KEY?: string;
   RUVECTOR_ENDPOINT?: string;
+  RUVECTOR_BACKEND?: string;
+  RUVECTOR_EMBEDDED_PATH?: string;
   RUVECTOR_COLLECTION_VOCABULARY?: string;
   RUVECTOR_COLLECTION_IMAGES?: string;
   RUVECTOR_COLLECTION_DESCRIPTIONS?: string;
@@ -283,6 +285,8 @@ export const serverEnv: ServerEnv = {
   RUVECTOR_ENABLED: getEnv('RUVECTOR_ENABLED', 'false'),
   RUVECTOR_API_KEY: getEnv('RUVECTOR_API_KEY'),
   RUVECTOR_ENDPOINT: getEnv('RUVECTOR_ENDPOINT', 'http://localhost:8080'),
+  RUVECTOR_BACKEND: getEnv('RUVECTOR_BACKEND'),
+  RUVECTOR_EMBEDDED_PATH: getEnv('RUVECTOR_EMBEDDED_PATH'),
   RUVECTOR_COLLECTION_VOCABULARY: getEnv('RUVECTOR_COLLECTION_VOCABULARY', 'vocabulary_embeddings'),
   RUVECTOR_COLLECTION_IMAGES: getEnv('RUVECTOR_COLLECTION_IMAGES', 'image_embeddings'),
   RUVECTOR_COLLECTION_DESCRIPTIONS: getEnv(
@@ -1,6 +1,6 @@
 /**
  * Anki Export Utilities for Vocabulary Learning App
- * Creates Anki-compatible deck files for spaced repetition learning
+ * Creates Anki packages (.apkg) for spaced repetition learning
  */
 
 import { saveAs } from "file-saver";
@@ -12,24 +12,35 @@ import {
   DescriptionExportItem,
   QAExportItem,
 } from "../../types/export";
-
-interface AnkiCard {
-  front: string;
-  back: string;
-  tags: string[];
-  media?: string[];
-}
+import {
+  buildAnkiPackage,
+  stableHash,
+  type AnkiPackageMedia,
+  type AnkiPackageNote,
+} from "./ankiPackage";
+import { ExportAudioResolver, exportItemLocale } from "./exportAudio";
 
 interface AnkiDeck {
   name: string;
   description: string;
-  cards: AnkiCard[];
-  media: { [key: string]: string }; // filename -> data URL
+  notes: AnkiPackageNote[];
+  media: Map<string, AnkiPackageMedia>; // source URL -> packaged file
 }
 
+const IMAGE_EXTENSIONS: { [mimeType: string]: string } = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "image/svg+xml": "svg",
+};
+
+const STOP_WORDS = ["the", "and", "but", "or", "in", "on", "at", "by", "for", "with"];
+
 export class AnkiExporter {
   private options: AnkiExportOptions;
   private deck: AnkiDeck;
+  private audio = new ExportAudioResolver();
 
   constructor(options: AnkiExportOptions = {}) {
     this.options = {
@@ -37,15 +48,15 @@ export class AnkiExporter {
       noteType: "basic",
       tags: ["describe-it", "vocabulary"],
       includeImages: false,
-      mediaFolder: "media",
+      subdecks: true,
       ...options,
     };
 
     this.deck = {
       name: this.options.deckName || "Language Learning Deck",
       description: "Exported from Describe It - Language Learning App",
-      cards: [],
-      media: {},
+      notes: [],
+      media: new Map(),
     };
   }
 
@@ -54,17 +65,17 @@ export class AnkiExporter {
    */
   async exportToAnki(data: ExportData): Promise<Blob> {
     try {
-      // Process different data types into cards
+      // Process different data types into notes
       if (data.vocabulary && data.vocabulary.length > 0) {
-        await this.processVocabularyCards(data.vocabulary);
+        await this.processVocabularyNotes(data.vocabulary);
       }
 
       if (data.qa && data.qa.length > 0) {
-        await this.processQACards(data.qa);
+        await this.processQANotes(data.qa);
       }
 
       if (data.descriptions && data.descriptions.length > 0) {
-        await this.processDescriptionCards(data.descriptions);
+        await this.processDescriptionNotes(data.descriptions);
       }
 
       // Generate the Anki package
@@ -76,191 +87,272 @@ export class AnkiExporter {
   }
 
   /**
-   * Process vocabulary items into Anki cards
+   * Deck for a content type; a subdeck of the main deck unless disabled
    */
-  private async processVocabularyCards(
+  private deckFor(section: string): string {
+    return this.options.subdecks ? `${this.deck.name}::${section}` : this.deck.name;
+  }
+
+  private formatTags(tags: Array<string | undefined>): string[] {
+    return tags
+      .filter((tag): tag is string => Boolean(tag))
+      .map((tag) => tag.toLowerCase().replace(/\s+/g, "-"));
+  }
+
+  /**
+   * Process vocabulary items into Anki notes
+   */
+  private async processVocabularyNotes(
     vocabulary: VocabularyExportItem[],
   ): Promise<void> {
     for (const item of vocabulary) {
-      const cards = await this.createVocabularyCards(item);
-      this.deck.cards.push(...cards);
+      const notes = await this.createVocabularyNotes(item);
+      this.deck.notes.push(...notes);
     }
   }
 
   /**
-   * Create multiple card types from vocabulary item
+   * Create notes from a vocabulary item
+   * The "basic" and "cloze" note types add a reversed card (definition ->
+   * phrase); "cloze" also adds a cloze note from the context sentence.
    */
-  private async createVocabularyCards(
+  private async createVocabularyNotes(
     item: VocabularyExportItem,
-  ): Promise<AnkiCard[]> {
-    const cards: AnkiCard[] = [];
-    const tags = [
+  ): Promise<AnkiPackageNote[]> {
+    const notes: AnkiPackageNote[] = [];
+    const deck = this.deckFor("Vocabulary");
+    const key = `vocabulary:${item.phrase.trim().toLowerCase()}`;
+    const tags = this.formatTags([
       ...(this.options.tags || []),
       item.category,
       item.difficulty,
       item.partOfSpeech,
-    ]
-      .filter(Boolean)
-      .map((tag) => tag.toLowerCase().replace(/\s+/g, "-"));
-
-    // Basic card: Phrase -> Definition + Translation
-    cards.push({
-      front: this.formatCardFront(item.phrase, item.context),
-      back: this.formatCardBack(item.definition, item.translation, item),
+    ]);
+    const withReverse =
+      this.options.noteType === "basic" || this.options.noteType === "cloze";
+    const sound = await this.resolveAudio(item.phrase, exportItemLocale(), item.audioUrl);
+
+    // Phrase -> Definition + Translation, plus the reverse card if enabled
+    notes.push({
+      key,
+      noteType: withReverse ? "reversed" : "basic",
+      fields: [
+        this.formatCardFront(item.phrase, item.context) + sound,
+        this.formatCardBack(item.definition, item.translation, item),
+      ],
       tags,
+      deck,
     });
 
-    // Reverse card: Definition -> Phrase (if enabled)
-    if (
-      this.options.noteType === "basic" ||
-      this.options.noteType === "cloze"
-    ) {
-      cards.push({
-        front: this.formatDefinitionFront(item.definition, item.translation),
-        back: this.formatPhraseBack(item.phrase, item.context),
-        tags: [...tags, "reverse"],
-      });
-    }
-
-    // Context card: Context with cloze deletion
+    // Context sentence with the phrase as a cloze deletion
     if (item.context && this.options.noteType === "cloze") {
-      cards.push({
-        front: this.formatClozeCard(item.context, item.phrase),
-        back: this.formatClozeBack(item.phrase, item.definition),
-        tags: [...tags, "cloze", "context"],
-      });
+      const clozeText = this.formatClozeCard(item.context, item.phrase);
+      if (clozeText.includes("{{c1::")) {
+        notes.push({
+          key: `${key}:cloze`,
+          noteType: "cloze",
+          fields: [clozeText, this.formatClozeBack(item.phrase, item.definition)],
+          tags: [...tags, "cloze", "context"],
+          deck,
+        });
+      }
     }
 
-    return cards;
+    return notes;
   }
 
   /**
-   * Process Q&A pairs into Anki cards
+   * Process Q&A pairs into Anki notes
    */
-  private async processQACards(qa: QAExportItem[]): Promise<void> {
+  private async processQANotes(qa: QAExportItem[]): Promise<void> {
     for (const item of qa) {
-      const card = await this.createQACard(item);
-      this.deck.cards.push(card);
+      const note = await this.createQANote(item);
+      this.deck.notes.push(note);
     }
   }
 
   /**
-   * Create card from Q&A pair
+   * Create note from Q&A pair
    */
-  private async createQACard(item: QAExportItem): Promise<AnkiCard> {
-    const tags = [
+  private async createQANote(item: QAExportItem): Promise<AnkiPackageNote> {
+    const tags = this.formatTags([
       ...(this.options.tags || []),
       "qa",
       item.category,
       item.difficulty,
-    ]
-      .filter(Boolean)
-      .map((tag) => tag ? tag.toLowerCase().replace(/\s+/g, "-") : "");
+    ]);
+    const imageSrc = await this.resolveImage(item.imageUrl);
 
     return {
-      front: this.formatQuestionFront(item.question, item.imageUrl),
-      back: this.formatAnswerBack(item.answer, item.confidence),
+      key: `qa:${item.id}`,
+      noteType: "basic",
+      fields: [
+        this.formatQuestionFront(item.question, imageSrc),
+        this.formatAnswerBack(item.answer, item.confidence),
+      ],
       tags,
+      deck: this.deckFor("Q&A"),
     };
   }
 
   /**
-   * Process descriptions into comprehension cards
+   * Process descriptions into comprehension notes
    */
-  private async processDescriptionCards(
+  private async processDescriptionNotes(
     descriptions: DescriptionExportItem[],
   ): Promise<void> {
     for (const item of descriptions) {
-      const cards = await this.createDescriptionCards(item);
-      this.deck.cards.push(...cards);
+      const notes = await this.createDescriptionNotes(item);
+      this.deck.notes.push(...notes);
     }
   }
 
   /**
-   * Create comprehension cards from descriptions
+   * Create comprehension notes from descriptions
    */
-  private async createDescriptionCards(
+  private async createDescriptionNotes(
     item: DescriptionExportItem,
-  ): Promise<AnkiCard[]> {
-    const cards: AnkiCard[] = [];
-    const tags = [
+  ): Promise<AnkiPackageNote[]> {
+    const deck = this.deckFor("Descriptions");
+    const key = `description:${item.id}`;
+    const tags = this.formatTags([
       ...(this.options.tags || []),
       "description",
       item.style,
       item.language,
-    ]
-      .filter(Boolean)
-      .map((tag) => tag.toLowerCase().replace(/\s+/g, "-"));
-
-    // Main description card
-    cards.push({
-      front: this.formatImageDescriptionFront(item.imageUrl, item.style),
-      back: this.formatDescriptionBack(item.content, item.wordCount),
-      tags,
-    });
-
-    // Create comprehension questions from description
-    const comprehensionCards = this.generateComprehensionCards(
+    ]);
+    const imageSrc = await this.resolveImage(item.imageUrl);
+    const sound = await this.resolveAudio(
       item.content,
-      tags,
+      exportItemLocale(item.language),
+      item.audioUrl,
     );
-    cards.push(...comprehensionCards);
 
-    return cards;
+    // Main description note
+    const notes: AnkiPackageNote[] = [
+      {
+        key,
+        noteType: "basic",
+        fields: [
+          this.formatImageDescriptionFront(imageSrc, item.style),
+          this.formatDescriptionBack(item.content, item.wordCount) + sound,
+        ],
+        tags,
+        deck,
+      },
+    ];
+
+    // Fill-in-the-blank cloze notes from the description text
+    this.generateComprehensionClozes(item.content).forEach((text, index) => {
+      notes.push({
+        key: `${key}:cloze:${index}`,
+        noteType: "cloze",
+        fields: [text, ""],
+        tags: [...tags, "comprehension", "fill-blank"],
+        deck,
+      });
+    });
+
+    return notes;
   }
 
   /**
-   * Generate comprehension questions from description text
+   * Generate cloze sentences from description text
+   * The longest key word of each sentence is blanked so re-exports produce
+   * the same notes.
    */
-  private generateComprehensionCards(
-    description: string,
-    baseTags: string[],
-  ): AnkiCard[] {
-    const cards: AnkiCard[] = [];
+  private generateComprehensionClozes(description: string): string[] {
     const sentences = description
       .split(/[.!?]+/)
       .filter((s) => s.trim().length > 10);
 
-    // Create fill-in-the-blank cards from key sentences
-    sentences.slice(0, 3).forEach((sentence, index) => {
-      const words = sentence.trim().split(" ");
-      if (words.length > 5) {
-        // Remove a key word (not articles, prepositions, etc.)
-        const keyWords = words.filter(
-          (word) =>
-            word.length > 3 &&
-            ![
-              "the",
-              "and",
-              "but",
-              "or",
-              "in",
-              "on",
-              "at",
-              "by",
-              "for",
-              "with",
-            ].includes(word.toLowerCase()),
+    return sentences
+      .slice(0, 3)
+      .map((sentence) => {
+        const words = sentence.trim().split(" ");
+        if (words.length <= 5) return null;
+
+        // Skip articles, prepositions and other short function words
+        const keyWords = words
+          .map((word) => word.replace(/[^\p{L}\p{N}'-]/gu, ""))
+          .filter(
+            (word) => word.length > 3 && !STOP_WORDS.includes(word.toLowerCase()),
+          );
+        if (keyWords.length === 0) return null;
+
+        const targetWord = keyWords.reduce((longest, word) =>
+          word.length > longest.length ? word : longest,
         );
+        return `<div class="cloze">${this.escapeHtml(sentence.trim()).replace(
+          this.escapeHtml(targetWord),
+          `{{c1::${this.escapeHtml(targetWord)}}}`,
+        )}</div>`;
+      })
+      .filter((text): text is string => text !== null);
+  }
 
-        if (keyWords.length > 0) {
-          const targetWord =
-            keyWords[Math.floor(Math.random() * keyWords.length)];
-          const clozeText = sentence.replace(
-            new RegExp(`\\b${targetWord}\\b`, "i"),
-            "______",
-          );
+  /**
+   * Add an image to the package media and return the filename to reference
+   * Falls back to the original URL when the image cannot be fetched, so the
+   * card still shows it while online.
+   */
+  private async resolveImage(imageUrl?: string): Promise<string | undefined> {
+    if (!imageUrl || !this.options.includeImages) {
+      return undefined;
+    }
 
-          cards.push({
-            front: `<div class="cloze">Fill in the blank:<br><br><em>${clozeText.trim()}</em></div>`,
-            back: `<div class="answer"><strong>${targetWord}</strong><br><br>Complete sentence:<br><em>${sentence.trim()}</em></div>`,
-            tags: [...baseTags, "comprehension", "fill-blank"],
-          });
-        }
+    const existing = this.deck.media.get(imageUrl);
+    if (existing) {
+      return existing.filename;
+    }
+
+    try {
+      const response = await fetch(imageUrl);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
       }
-    });
 
-    return cards;
+      const mimeType = (response.headers.get("content-type") || "image/jpeg").split(";")[0];
+      const extension = IMAGE_EXTENSIONS[mimeType] || "jpg";
+      const filename = `describe-it-${(await stableHash(imageUrl)).slice(0, 16)}.${extension}`;
+
+      this.deck.media.set(imageUrl, {
+        filename,
+        data: new Uint8Array(await response.arrayBuffer()),
+      });
+      return filename;
+    } catch (error) {
+      logger.warn("Could not embed image in Anki package", {
+        imageUrl: imageUrl.substring(0, 100),
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return imageUrl;
+    }
+  }
+
+  /**
+   * Add pronunciation audio to the package media and return the [sound:]
+   * tag that plays it, or "" when audio is off or unavailable
+   */
+  private async resolveAudio(
+    text: string,
+    locale: string,
+    audioUrl?: string,
+  ): Promise<string> {
+    if (!this.options.includeAudio || !text.trim()) {
+      return "";
+    }
+
+    const audio = await this.audio.resolve({ text, locale, audioUrl });
+    if (!audio) {
+      return "";
+    }
+
+    this.deck.media.set(`audio:${audio.filename}`, {
+      filename: audio.filename,
+      data: audio.data,
+    });
+    return `[sound:${audio.filename}]`;
   }
 
   /**
@@ -331,8 +423,9 @@ export class AnkiExporter {
   }
 
   private formatClozeCard(context: string, phrase: string): string {
+    const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
     const clozeText = context.replace(
-      new RegExp(`\\b${phrase}\\b`, "gi"),
+      new RegExp(`\\b${escaped}\\b`, "gi"),
       `{{c1::${phrase}}}`,
     );
     return `<div class="cloze-card">${this.escapeHtml(clozeText)}</div>`;
@@ -390,33 +483,19 @@ export class AnkiExporter {
   }
 
   /**
-   * Generate Anki package (simplified - creates TSV format)
+   * Generate the .apkg package
    */
   private async generateAnkiPackage(): Promise<Blob> {
-    // Create TSV content for Anki import
-    const tsvLines = [
-      "#separator:tab",
-      "#html:true",
-      "#deck:" + this.deck.name,
-    ];
+    const css = this.options.cardTemplate?.css ?? this.generateCardCSS();
 
-    // Add cards
-    this.deck.cards.forEach((card) => {
-      const tags = card.tags.join(" ");
-      const line = [card.front, card.back, tags].join("\t");
-      tsvLines.push(line);
+    const bytes = await buildAnkiPackage({
+      notes: this.deck.notes,
+      media: Array.from(this.deck.media.values()),
+      css,
+      deckDescription: this.deck.description,
     });
 
-    // Add CSS styling
-    const css = this.generateCardCSS();
-    tsvLines.push("#css:");
-    tsvLines.push(css);
-
-    const tsvContent = tsvLines.join("\n");
-
-    return new Blob([tsvContent], {
-      type: "text/tab-separated-values;charset=utf-8",
-    });
+    return new Blob([bytes as Uint8Array<ArrayBuffer>], { type: "application/apkg" });
   }
 
   /**
@@ -626,5 +705,5 @@ export async function exportVocabularyToAnki(
  */
 export function downloadAnkiDeck(blob: Blob, deckName: string): void {
   const filename = deckName.replace(/[^a-zA-Z0-9]/g, "_").toLowerCase();
-  saveAs(blob, `${filename}.txt`);
+  saveAs(blob, `${filename}.apkg`);
 }
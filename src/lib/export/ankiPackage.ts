@@ -0,0 +1,397 @@
+/**
+ * Anki package (.apkg) writer
+ * Builds a legacy `collection.anki2` SQLite collection (schema 11, readable by
+ * every Anki release since 2.1) with sql.js, and zips it together with the
+ * media manifest. Model and deck ids are derived from their names and note
+ * GUIDs from caller-supplied keys, so re-importing a package updates existing
+ * notes instead of duplicating them.
+ */
+
+import { zipSync, strToU8 } from "fflate";
+
+export type AnkiNoteTypeKey = "basic" | "reversed" | "cloze";
+
+export interface AnkiPackageNote {
+  /** Stable identity of the note; the same key always yields the same GUID */
+  key: string;
+  noteType: AnkiNoteTypeKey;
+  /** Field values in note-type order, HTML allowed */
+  fields: string[];
+  tags: string[];
+  /** Full deck name, `::` separates levels */
+  deck: string;
+}
+
+export interface AnkiPackageMedia {
+  filename: string;
+  data: Uint8Array;
+}
+
+export interface AnkiPackageInput {
+  notes: AnkiPackageNote[];
+  media?: AnkiPackageMedia[];
+  css: string;
+  deckDescription?: string;
+}
+
+interface NoteTypeDefinition {
+  name: string;
+  type: 0 | 1;
+  fields: string[];
+  templates: Array<{ name: string; qfmt: string; afmt: string }>;
+}
+
+export const ANKI_NOTE_TYPES: Record<AnkiNoteTypeKey, NoteTypeDefinition> = {
+  basic: {
+    name: "Describe It Basic",
+    type: 0,
+    fields: ["Front", "Back"],
+    templates: [
+      {
+        name: "Card 1",
+        qfmt: "{{Front}}",
+        afmt: '{{FrontSide}}\n\n<hr id="answer">\n\n{{Back}}',
+      },
+    ],
+  },
+  reversed: {
+    name: "Describe It Basic (and reversed card)",
+    type: 0,
+    fields: ["Front", "Back"],
+    templates: [
+      {
+        name: "Card 1",
+        qfmt: "{{Front}}",
+        afmt: '{{FrontSide}}\n\n<hr id="answer">\n\n{{Back}}',
+      },
+      {
+        name: "Card 2",
+        qfmt: "{{Back}}",
+        afmt: '{{FrontSide}}\n\n<hr id="answer">\n\n{{Front}}',
+      },
+    ],
+  },
+  cloze: {
+    name: "Describe It Cloze",
+    type: 1,
+    fields: ["Text", "Extra"],
+    templates: [
+      {
+        name: "Cloze",
+        qfmt: "{{cloze:Text}}",
+        afmt: "{{cloze:Text}}<br>\n{{Extra}}",
+      },
+    ],
+  },
+};
+
+const SCHEMA = `
+CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+const DEFAULT_DECK_ID = 1;
+const FIELD_SEPARATOR = "\x1f";
+
+const LATEX_PRE =
+  "\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n";
+const LATEX_POST = "\\end{document}";
+
+const COLLECTION_CONF = {
+  activeDecks: [DEFAULT_DECK_ID],
+  curDeck: DEFAULT_DECK_ID,
+  newSpread: 0,
+  collapseTime: 1200,
+  timeLim: 0,
+  estTimes: true,
+  dueCounts: true,
+  curModel: null,
+  nextPos: 1,
+  sortType: "noteFld",
+  sortBackwards: false,
+  addToCur: true,
+};
+
+const DECK_CONF = {
+  "1": {
+    id: 1,
+    name: "Default",
+    replayq: true,
+    lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 0 },
+    rev: { perDay: 200, ease4: 1.3, fuzz: 0.05, minSpace: 1, ivlFct: 1, maxIvl: 36500, bury: false },
+    timer: 0,
+    maxTaken: 60,
+    usn: 0,
+    new: { perDay: 20, delays: [1, 10], separate: true, ints: [1, 4, 7], initialFactor: 2500, bury: false, order: 1 },
+    mod: 0,
+    autoplay: true,
+    dyn: false,
+  },
+};
+
+// Printable ASCII minus space, quote and backslash, as used by Anki for GUIDs
+const GUID_ALPHABET =
+  "abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789!#$%&()*+,-./:;<=>?@[]^_`{|}~";
+
+async function digest(algorithm: "SHA-1" | "SHA-256", text: string): Promise<Uint8Array> {
+  const buffer = await globalThis.crypto.subtle.digest(algorithm, strToU8(text));
+  return new Uint8Array(buffer);
+}
+
+function bytesToBigInt(bytes: Uint8Array): bigint {
+  return bytes.reduce((value, byte) => (value << BigInt(8)) | BigInt(byte), BigInt(0));
+}
+
+/**
+ * Stable note GUID: the first 64 bits of SHA-256(key) in Anki's base91 alphabet
+ */
+export async function ankiGuid(key: string): Promise<string> {
+  let value = bytesToBigInt((await digest("SHA-256", key)).slice(0, 8));
+  const base = BigInt(GUID_ALPHABET.length);
+  let guid = "";
+
+  do {
+    guid = GUID_ALPHABET[Number(value % base)] + guid;
+    value /= base;
+  } while (value > BigInt(0));
+
+  return guid;
+}
+
+/**
+ * Hex SHA-256 of a string, used for stable media filenames
+ */
+export async function stableHash(text: string): Promise<string> {
+  const bytes = await digest("SHA-256", text);
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Stable positive id for models and decks, kept well inside 2^53
+ */
+async function stableId(key: string): Promise<number> {
+  const bytes = (await digest("SHA-256", key)).slice(0, 5);
+  return 1_000_000_000_000 + Number(bytesToBigInt(bytes));
+}
+
+function stripHtml(html: string): string {
+  return html
+    .replace(/<[^>]*>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Duplicate-check checksum: first 32 bits of SHA-1 over the stripped sort field
+ */
+async function fieldChecksum(field: string): Promise<number> {
+  const hash = await digest("SHA-1", stripHtml(field));
+  return Number(bytesToBigInt(hash.slice(0, 4)));
+}
+
+/**
+ * Card ordinals a note generates
+ */
+function cardOrdinals(note: AnkiPackageNote): number[] {
+  if (note.noteType === "cloze") {
+    const numbers = new Set(
+      Array.from(note.fields[0].matchAll(/\{\{c(\d+)::/g), (match) => Number(match[1])),
+    );
+    return Array.from(numbers)
+      .sort((a, b) => a - b)
+      .map((n) => n - 1);
+  }
+
+  if (note.noteType === "reversed" && !note.fields[1]) {
+    return [0];
+  }
+
+  return ANKI_NOTE_TYPES[note.noteType].templates.map((_, ord) => ord);
+}
+
+/**
+ * Every deck name plus its ancestors, so `A::B::C` also creates `A` and `A::B`
+ */
+function expandDeckHierarchy(names: string[]): string[] {
+  const all = new Set<string>();
+  for (const name of names) {
+    const parts = name.split("::");
+    parts.forEach((_, index) => all.add(parts.slice(0, index + 1).join("::")));
+  }
+  return Array.from(all).sort();
+}
+
+export async function loadSqlJs() {
+  // The asm.js build needs no separate .wasm asset, so it works the same in
+  // the browser bundle and in Node
+  const { default: initSqlJs } = await import("sql.js/dist/sql-asm.js");
+  return initSqlJs();
+}
+
+/**
+ * Build an .apkg archive
+ */
+export async function buildAnkiPackage(input: AnkiPackageInput): Promise<Uint8Array> {
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database();
+
+  try {
+    const nowMs = Date.now();
+    const nowSeconds = Math.floor(nowMs / 1000);
+
+    // Decks
+    const deckNames = expandDeckHierarchy(input.notes.map((note) => note.deck));
+    const deckIds = new Map<string, number>();
+    const decks: Record<string, unknown> = {
+      [DEFAULT_DECK_ID]: deckJson(DEFAULT_DECK_ID, "Default", "", nowSeconds),
+    };
+    for (const name of deckNames) {
+      const id = await stableId(`deck:${name}`);
+      deckIds.set(name, id);
+      decks[id] = deckJson(id, name, input.deckDescription ?? "", nowSeconds);
+    }
+
+    // Note types actually used
+    const usedTypes = Array.from(new Set(input.notes.map((note) => note.noteType)));
+    const modelIds = new Map<AnkiNoteTypeKey, number>();
+    const models: Record<string, unknown> = {};
+    for (const key of usedTypes) {
+      const definition = ANKI_NOTE_TYPES[key];
+      const id = await stableId(`model:${definition.name}`);
+      modelIds.set(key, id);
+      models[id] = modelJson(id, definition, input.css, nowSeconds);
+    }
+
+    db.exec(SCHEMA);
+    db.run(
+      "INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, '{}')",
+      [
+        nowSeconds,
+        nowMs,
+        nowMs,
+        JSON.stringify(COLLECTION_CONF),
+        JSON.stringify(models),
+        JSON.stringify(decks),
+        JSON.stringify(DECK_CONF),
+      ],
+    );
+
+    const insertNote = db.prepare("INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, '')");
+    const insertCard = db.prepare(
+      "INSERT INTO cards VALUES (?, ?, ?, ?, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, '')",
+    );
+
+    let nextCardId = nowMs;
+    let due = 0;
+
+    for (const [index, note] of input.notes.entries()) {
+      const noteId = nowMs + index;
+      const tags = note.tags.length > 0 ? ` ${note.tags.join(" ")} ` : "";
+
+      insertNote.run([
+        noteId,
+        await ankiGuid(note.key),
+        modelIds.get(note.noteType)!,
+        nowSeconds,
+        tags,
+        note.fields.join(FIELD_SEPARATOR),
+        stripHtml(note.fields[0]),
+        await fieldChecksum(note.fields[0]),
+      ]);
+
+      due++;
+      for (const ord of cardOrdinals(note)) {
+        insertCard.run([nextCardId++, noteId, deckIds.get(note.deck)!, ord, nowSeconds, due]);
+      }
+    }
+
+    insertNote.free();
+    insertCard.free();
+
+    const media = input.media ?? [];
+    const files: Record<string, Uint8Array> = {
+      "collection.anki2": db.export(),
+      media: strToU8(
+        JSON.stringify(Object.fromEntries(media.map((file, index) => [index, file.filename]))),
+      ),
+    };
+    media.forEach((file, index) => {
+      files[String(index)] = file.data;
+    });
+
+    return zipSync(files);
+  } finally {
+    db.close();
+  }
+}
+
+function deckJson(id: number, name: string, description: string, mod: number) {
+  return {
+    id,
+    name,
+    desc: description,
+    mod,
+    usn: -1,
+    collapsed: false,
+    browserCollapsed: false,
+    newToday: [0, 0],
+    revToday: [0, 0],
+    lrnToday: [0, 0],
+    timeToday: [0, 0],
+    dyn: 0,
+    conf: 1,
+    extendNew: 10,
+    extendRev: 50,
+  };
+}
+
+function modelJson(id: number, definition: NoteTypeDefinition, css: string, mod: number) {
+  return {
+    id,
+    name: definition.name,
+    type: definition.type,
+    mod,
+    usn: -1,
+    sortf: 0,
+    did: DEFAULT_DECK_ID,
+    tmpls: definition.templates.map((template, ord) => ({
+      name: template.name,
+      ord,
+      qfmt: template.qfmt,
+      afmt: template.afmt,
+      bqfmt: "",
+      bafmt: "",
+      did: null,
+    })),
+    flds: definition.fields.map((name, ord) => ({
+      name,
+      ord,
+      sticky: false,
+      rtl: false,
+      font: "Arial",
+      size: 20,
+      media: [],
+    })),
+    css,
+    latexPre: LATEX_PRE,
+    latexPost: LATEX_POST,
+    latexsvg: false,
+    req:
+      definition.type === 0
+        ? definition.templates.map((_, ord) => [ord, "any", [ord]])
+        : [],
+    tags: [],
+    vers: [],
+  };
+}
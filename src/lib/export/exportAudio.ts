@@ -0,0 +1,100 @@
+/**
+ * Pronunciation audio for exports
+ * Fetches each item's audio once per export: its own audio URL when it has
+ * one (a saved item's cached pronunciation), otherwise speech synthesized
+ * by /api/speech.
+ */
+
+import { logger } from '@/lib/logger';
+import {
+  getLanguage,
+  getLanguageByKey,
+  isSupportedLanguage,
+  type LanguageKey,
+} from '@/lib/languages';
+import { fetchSpeechAudio } from '@/lib/speech';
+import { stableHash } from './ankiPackage';
+
+export interface ExportAudioSource {
+  text: string;
+  locale: string;
+  audioUrl?: string;
+}
+
+export interface ResolvedExportAudio {
+  filename: string;
+  contentType: string;
+  data: Uint8Array;
+}
+
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/wave': 'wav',
+  'audio/mpeg': 'mp3',
+  'audio/ogg': 'ogg',
+  'audio/webm': 'webm',
+};
+
+export class ExportAudioResolver {
+  private readonly resolved = new Map<string, Promise<ResolvedExportAudio | null>>();
+
+  /** The audio, or null when it cannot be fetched; the export goes on without it */
+  public resolve(source: ExportAudioSource): Promise<ResolvedExportAudio | null> {
+    const key = source.audioUrl ?? `${source.locale}\n${source.text.trim()}`;
+    let audio = this.resolved.get(key);
+    if (!audio) {
+      audio = this.fetchAudio(key, source);
+      this.resolved.set(key, audio);
+    }
+    return audio;
+  }
+
+  private async fetchAudio(
+    key: string,
+    source: ExportAudioSource
+  ): Promise<ResolvedExportAudio | null> {
+    try {
+      let blob: Blob;
+      if (source.audioUrl) {
+        const response = await fetch(source.audioUrl);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        blob = await response.blob();
+      } else {
+        blob = await fetchSpeechAudio({ text: source.text, locale: source.locale });
+      }
+
+      const contentType = (blob.type || 'audio/wav').split(';')[0];
+      const extension = AUDIO_EXTENSIONS[contentType] ?? 'wav';
+      return {
+        filename: `describe-it-audio-${(await stableHash(key)).slice(0, 16)}.${extension}`,
+        contentType,
+        data: new Uint8Array(await blob.arrayBuffer()),
+      };
+    } catch (error) {
+      logger.warn('Could not include pronunciation audio in export', {
+        text: source.text.substring(0, 50),
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+}
+
+/**
+ * Speech locale for an export item's language, given as a code ("es") or a
+ * name ("spanish"); Spanish when unknown
+ */
+export function exportItemLocale(language?: string): string {
+  const value = language?.toLowerCase();
+  if (isSupportedLanguage(value)) return getLanguage(value).locale;
+  return (getLanguageByKey(value as LanguageKey) ?? getLanguage('es')).locale;
+}
+
+export function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
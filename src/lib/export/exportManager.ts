@@ -26,7 +26,7 @@ import {
 import { safeParse, safeStringify, safeParseLocalStorage, safeSetLocalStorage } from '@/lib/utils/json-safe';
 
 // Import all exporters
-// import { exportToPDF } from "./pdfExporter"; // Temporarily disabled
+import { exportToPDF } from "./pdfExporter";
 import { exportToAnki } from "./ankiExporter";
 import { exportToJSON } from "./jsonExporter";
 import { exportToEnhancedCSV } from "./csvExporter";
@@ -377,15 +377,16 @@ export class ExportManager implements IExportManager {
   ): Promise<Blob> {
     switch (options.format) {
       case "pdf":
-        // return await exportToPDF(data, options.pdfOptions); // Temporarily disabled
-        throw new Error("PDF export temporarily disabled due to type conflicts");
-
+        return await exportToPDF(data, options.pdfOptions);
 
       case "anki":
-        return await exportToAnki(data, options.ankiOptions);
+        return await exportToAnki(data, {
+          includeAudio: options.includeAudio,
+          ...options.ankiOptions,
+        });
 
       case "json":
-        return await exportToJSON(data);
+        return await exportToJSON(data, { includeAudio: options.includeAudio });
 
       case "csv":
         // Use the enhanced CSV exporter for consistency
@@ -508,7 +509,7 @@ export class ExportManager implements IExportManager {
       csv: "csv",
       json: "json",
       pdf: "pdf",
-      anki: "txt",
+      anki: "apkg",
     };
 
     return extensions[format] || "txt";
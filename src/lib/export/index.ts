@@ -10,6 +10,8 @@ export type {
   ExportOptions,
   AnkiExportOptions,
   CSVExportOptions,
+  PDFExportOptions,
+  PDFLayout,
   VocabularyExportItem,
   DescriptionExportItem,
   QAExportItem,
@@ -29,7 +31,7 @@ export type {
 // Core exporters
 export * from "./csvExporter";
 export * from "./jsonExporter";
-// export * from "./pdfExporter"; // Temporarily disabled due to type conflicts
+export * from "./pdfExporter";
 export * from "./ankiExporter";
 export * from "./exportManager";
 
@@ -40,8 +42,12 @@ export {
   DEFAULT_EXPORT_OPTIONS,
 } from "./exportManager";
 
-// export { exportToPDF, exportStudySheet } from "./pdfExporter"; // Temporarily disabled
-
+export { exportToPDF, exportStudySheet, resolvePDFLayout } from "./pdfExporter";
+export {
+  renderVocabularyList,
+  renderFlashcardSheet,
+  renderWorksheet,
+} from "./pdfLayouts";
 
 export {
   exportToAnki,
@@ -200,6 +206,47 @@ export const EXPORT_PRESETS = {
     },
   },
 
+  /**
+   * Vocabulary list with image thumbnails for printing
+   */
+  VOCABULARY_HANDOUT: {
+    format: "pdf" as ExportFormat,
+    categories: ["vocabulary"] as const,
+    pdfOptions: {
+      layout: "vocabulary-list" as const,
+      includeImages: true,
+      pageSize: "A4" as const,
+      orientation: "portrait" as const,
+    },
+  },
+
+  /**
+   * Bilingual flashcards to print, cut and fold
+   */
+  PRINTABLE_FLASHCARDS: {
+    format: "pdf" as ExportFormat,
+    categories: ["vocabulary"] as const,
+    pdfOptions: {
+      layout: "flashcards" as const,
+      pageSize: "A4" as const,
+      orientation: "portrait" as const,
+    },
+  },
+
+  /**
+   * Q&A worksheet with a separate answer key page
+   */
+  QA_WORKSHEET: {
+    format: "pdf" as ExportFormat,
+    categories: ["qa"] as const,
+    pdfOptions: {
+      layout: "worksheet" as const,
+      includeImages: true,
+      pageSize: "A4" as const,
+      orientation: "portrait" as const,
+    },
+  },
+
   /**
    * Anki flashcards
    */
@@ -4,9 +4,15 @@
  */
 
 import { saveAs } from "file-saver";
-import { ExportData } from "../../types/export";
+import { ExportAudio, ExportData } from "../../types/export";
 import { safeParse, safeStringify } from '@/lib/utils/json-safe';
 import { logger } from '@/lib/logger';
+import {
+  ExportAudioResolver,
+  exportItemLocale,
+  type ExportAudioSource,
+  toBase64,
+} from "./exportAudio";
 
 interface JSONExportOptions {
   pretty?: boolean;
@@ -14,6 +20,7 @@ interface JSONExportOptions {
   includeMetadata?: boolean;
   schemaVersion?: string;
   compression?: "none" | "gzip";
+  includeAudio?: boolean; // embed pronunciation audio as base64
 }
 
 export class JSONExporter {
@@ -35,10 +42,14 @@ export class JSONExporter {
    */
   async exportToJSON(data: ExportData): Promise<Blob> {
     try {
+      const withAudio = this.options.includeAudio
+        ? await this.embedAudio(data)
+        : data;
+
       // Enhance data with additional metadata if requested
       const exportData = this.options.includeMetadata
-        ? this.enhanceDataWithMetadata(data)
-        : data;
+        ? this.enhanceDataWithMetadata(withAudio)
+        : withAudio;
 
       // Validate data structure
       this.validateExportData(exportData);
@@ -64,6 +75,53 @@ export class JSONExporter {
     }
   }
 
+  /**
+   * Attach pronunciation audio to vocabulary and descriptions
+   */
+  private async embedAudio(data: ExportData): Promise<ExportData> {
+    const resolver = new ExportAudioResolver();
+    const audioFor = async (
+      source: ExportAudioSource,
+    ): Promise<ExportAudio | undefined> => {
+      const audio = await resolver.resolve(source);
+      return audio
+        ? {
+            filename: audio.filename,
+            contentType: audio.contentType,
+            data: toBase64(audio.data),
+          }
+        : undefined;
+    };
+
+    const vocabulary = data.vocabulary
+      ? await Promise.all(
+          data.vocabulary.map(async (item) => ({
+            ...item,
+            audio: await audioFor({
+              text: item.phrase,
+              locale: exportItemLocale(),
+              audioUrl: item.audioUrl,
+            }),
+          })),
+        )
+      : undefined;
+
+    const descriptions = data.descriptions
+      ? await Promise.all(
+          data.descriptions.map(async (item) => ({
+            ...item,
+            audio: await audioFor({
+              text: item.content,
+              locale: exportItemLocale(item.language),
+              audioUrl: item.audioUrl,
+            }),
+          })),
+        )
+      : undefined;
+
+    return { ...data, vocabulary, descriptions };
+  }
+
   /**
    * Safe stringify with formatting support
    */
@@ -12,8 +12,13 @@ import {
 } from "../logging/sessionReportGenerator";
 
 // Export data interface for compatibility with exportManager
-import { ExportData, PDFExportOptions } from "../../types/export";
+import { ExportData, PDFExportOptions, PDFLayout } from "../../types/export";
 import { logger } from '@/lib/logger';
+import {
+  renderFlashcardSheet,
+  renderVocabularyList,
+  renderWorksheet,
+} from "./pdfLayouts";
 
 export class PDFExporter {
   private pdf: jsPDF;
@@ -528,12 +533,56 @@ export class PDFExporter {
   }
 }
 
+/**
+ * Resolve the layout, honouring the older studySheetFormat flag
+ */
+export function resolvePDFLayout(options?: PDFExportOptions): PDFLayout {
+  return options?.layout || (options?.studySheetFormat ? "study-sheet" : "report");
+}
+
 /**
  * Export function compatible with exportManager interface
  */
 export async function exportToPDF(
   data: ExportData,
   options?: PDFExportOptions,
+): Promise<Blob> {
+  switch (resolvePDFLayout(options)) {
+    case "study-sheet":
+      return exportStudySheet(data, options);
+    case "vocabulary-list":
+      return exportPrintableLayout(renderVocabularyList, data, options);
+    case "flashcards":
+      return exportPrintableLayout(renderFlashcardSheet, data, options);
+    case "worksheet":
+      return exportPrintableLayout(renderWorksheet, data, options);
+    default:
+      return exportReport(data, options);
+  }
+}
+
+async function exportPrintableLayout(
+  render: (data: ExportData, options?: PDFExportOptions) => Promise<jsPDF>,
+  data: ExportData,
+  options?: PDFExportOptions,
+): Promise<Blob> {
+  try {
+    const pdf = await render(data, options);
+    return new Blob([pdf.output("blob")], { type: "application/pdf" });
+  } catch (error) {
+    logger.error("PDF layout export failed:", error);
+    throw new Error(
+      `Failed to export PDF: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+/**
+ * Overview report of all exported data
+ */
+async function exportReport(
+  data: ExportData,
+  options?: PDFExportOptions,
 ): Promise<Blob> {
   try {
     // Create simplified PDF for general export data
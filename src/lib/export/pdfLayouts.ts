@@ -0,0 +1,435 @@
+/**
+ * Printable PDF layouts for classroom use
+ * A vocabulary list with images, a fold-in-half bilingual flashcard sheet and
+ * a Q&A worksheet with its answer key on a separate page.
+ */
+
+import jsPDF from "jspdf";
+import {
+  ExportData,
+  PDFExportOptions,
+  QAExportItem,
+  VocabularyExportItem,
+} from "../../types/export";
+import { logger } from '@/lib/logger';
+import { toBase64 } from "./exportAudio";
+
+const MARGIN = 20;
+const FOOTER_SPACE = 30;
+const PT_TO_MM = 0.3528;
+const LINE_SPACING = 1.25;
+
+const THUMBNAIL_WIDTH = 35;
+const THUMBNAIL_HEIGHT = 26;
+const WORKSHEET_IMAGE_HEIGHT = 60;
+const ANSWER_LINES = 2;
+const ANSWER_LINE_GAP = 8;
+const FLASHCARD_ROWS = 6;
+const FLASHCARD_DEFINITION_LINES = 4;
+
+const IMAGE_FORMATS: Record<string, string> = {
+  "image/jpeg": "JPEG",
+  "image/png": "PNG",
+  "image/webp": "WEBP",
+  "image/gif": "GIF",
+};
+
+type RGB = [number, number, number];
+
+const TEXT_COLOR: RGB = [33, 37, 41];
+const MUTED_COLOR: RGB = [108, 117, 125];
+const RULE_COLOR: RGB = [200, 200, 200];
+
+interface TextBlock {
+  text: string;
+  fontSize: number;
+  fontStyle?: "normal" | "bold" | "italic";
+  color?: RGB;
+  maxLines?: number;
+}
+
+interface MeasuredBlock extends TextBlock {
+  lines: string[];
+  lineHeight: number;
+}
+
+interface PDFImage {
+  data: string;
+  format: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Page cursor shared by the layouts
+ */
+class LayoutWriter {
+  readonly pdf: jsPDF;
+  readonly pageWidth: number;
+  readonly pageHeight: number;
+  readonly contentWidth: number;
+  y = MARGIN;
+
+  private images = new Map<string, PDFImage | null>();
+
+  constructor(options: PDFExportOptions) {
+    this.pdf = new jsPDF({
+      orientation: options.orientation || "portrait",
+      unit: "mm",
+      format: (options.pageSize || "A4").toLowerCase() as "a4" | "a3" | "letter",
+    });
+    this.pageWidth = this.pdf.internal.pageSize.width;
+    this.pageHeight = this.pdf.internal.pageSize.height;
+    this.contentWidth = this.pageWidth - 2 * MARGIN;
+  }
+
+  newPage(): void {
+    this.pdf.addPage();
+    this.y = MARGIN;
+  }
+
+  ensureSpace(height: number): void {
+    if (this.y + height > this.pageHeight - FOOTER_SPACE) {
+      this.newPage();
+    }
+  }
+
+  title(title: string, subtitle?: string): void {
+    this.setText(20, "bold", TEXT_COLOR);
+    this.pdf.text(title, MARGIN, this.y);
+    this.y += 8;
+
+    if (subtitle) {
+      this.setText(11, "normal", MUTED_COLOR);
+      this.pdf.text(subtitle, MARGIN, this.y);
+      this.y += 5;
+    }
+
+    this.rule(this.y);
+    this.y += 10;
+  }
+
+  rule(y: number, color: RGB = RULE_COLOR): void {
+    this.pdf.setDrawColor(...color);
+    this.pdf.line(MARGIN, y, this.pageWidth - MARGIN, y);
+  }
+
+  measure(blocks: TextBlock[], width: number): { blocks: MeasuredBlock[]; height: number } {
+    const measured = blocks
+      .filter((block) => block.text.trim().length > 0)
+      .map((block) => {
+        this.setText(block.fontSize, block.fontStyle);
+        const lines: string[] = this.pdf.splitTextToSize(block.text, width);
+        return {
+          ...block,
+          lines: block.maxLines ? lines.slice(0, block.maxLines) : lines,
+          lineHeight: lineHeight(block.fontSize),
+        };
+      });
+
+    const height = measured.reduce(
+      (total, block) => total + block.lines.length * block.lineHeight,
+      0,
+    );
+    return { blocks: measured, height };
+  }
+
+  /**
+   * Draw measured blocks with the top of the first line at y
+   */
+  drawBlocks(
+    blocks: MeasuredBlock[],
+    x: number,
+    y: number,
+    align: "left" | "center" = "left",
+  ): void {
+    let lineY = y;
+    blocks.forEach((block) => {
+      this.setText(block.fontSize, block.fontStyle, block.color);
+      block.lines.forEach((line) => {
+        this.pdf.text(line, x, lineY + block.lineHeight * 0.75, { align });
+        lineY += block.lineHeight;
+      });
+    });
+  }
+
+  /**
+   * Fetch an image once per URL; null when it cannot be embedded
+   */
+  async loadImage(url: string): Promise<PDFImage | null> {
+    if (this.images.has(url)) {
+      return this.images.get(url) ?? null;
+    }
+
+    let image: PDFImage | null = null;
+    try {
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      const mimeType = (response.headers.get("content-type") || "image/jpeg").split(";")[0];
+      const data = `data:${mimeType};base64,${toBase64(new Uint8Array(await response.arrayBuffer()))}`;
+      const { width, height } = this.pdf.getImageProperties(data);
+      image = { data, format: IMAGE_FORMATS[mimeType] || "JPEG", width, height };
+    } catch (error) {
+      logger.warn("Could not load image for PDF export", {
+        imageUrl: url.substring(0, 100),
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    this.images.set(url, image);
+    return image;
+  }
+
+  /**
+   * Draw an image scaled to fit the box; returns the drawn height
+   */
+  drawImage(image: PDFImage, x: number, y: number, maxWidth: number, maxHeight: number): number {
+    const scale = Math.min(maxWidth / image.width, maxHeight / image.height);
+    const width = image.width * scale;
+    const height = image.height * scale;
+
+    this.pdf.addImage(image.data, image.format, x, y, width, height);
+    return height;
+  }
+
+  addFooters(label: string): void {
+    const totalPages = this.pdf.getNumberOfPages();
+
+    for (let i = 1; i <= totalPages; i++) {
+      this.pdf.setPage(i);
+      this.setText(9, "normal", MUTED_COLOR);
+      this.pdf.text(label, MARGIN, this.pageHeight - 10);
+      this.pdf.text(`Page ${i} of ${totalPages}`, this.pageWidth - MARGIN, this.pageHeight - 10, {
+        align: "right",
+      });
+    }
+  }
+
+  setText(fontSize: number, fontStyle: TextBlock["fontStyle"] = "normal", color = TEXT_COLOR): void {
+    this.pdf.setFontSize(fontSize);
+    this.pdf.setFont("helvetica", fontStyle);
+    this.pdf.setTextColor(...color);
+  }
+}
+
+function lineHeight(fontSize: number): number {
+  return fontSize * PT_TO_MM * LINE_SPACING;
+}
+
+function vocabularyBlocks(item: VocabularyExportItem): TextBlock[] {
+  const details = [item.partOfSpeech, item.difficulty].filter(Boolean).join(" • ");
+
+  return [
+    {
+      text: item.translation ? `${item.phrase} — ${item.translation}` : item.phrase,
+      fontSize: 13,
+      fontStyle: "bold",
+    },
+    { text: details, fontSize: 9, fontStyle: "italic", color: MUTED_COLOR },
+    { text: item.definition || "", fontSize: 10 },
+    {
+      text: item.context ? `"${item.context}"` : "",
+      fontSize: 10,
+      fontStyle: "italic",
+      color: MUTED_COLOR,
+    },
+  ];
+}
+
+/**
+ * Vocabulary list with an image thumbnail beside each entry
+ */
+export async function renderVocabularyList(
+  data: ExportData,
+  options: PDFExportOptions = {},
+): Promise<jsPDF> {
+  const vocabulary = data.vocabulary || [];
+  if (vocabulary.length === 0) {
+    throw new Error("Vocabulary list requires vocabulary items");
+  }
+
+  const writer = new LayoutWriter(options);
+  const includeImages = options.includeImages !== false;
+  const textX = includeImages ? MARGIN + THUMBNAIL_WIDTH + 5 : MARGIN;
+  const textWidth = writer.pageWidth - MARGIN - textX;
+
+  writer.title(
+    options.branding?.title || "Vocabulary List",
+    `${vocabulary.length} words • ${new Date().toLocaleDateString()}`,
+  );
+
+  for (const item of vocabulary) {
+    const image =
+      includeImages && item.imageUrl ? await writer.loadImage(item.imageUrl) : null;
+    const text = writer.measure(vocabularyBlocks(item), textWidth);
+    const rowHeight = Math.max(text.height, image ? THUMBNAIL_HEIGHT : 0);
+
+    writer.ensureSpace(rowHeight + 6);
+    if (image) {
+      writer.drawImage(image, MARGIN, writer.y, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT);
+    }
+    writer.drawBlocks(text.blocks, textX, writer.y);
+
+    writer.y += rowHeight + 3;
+    writer.rule(writer.y);
+    writer.y += 3;
+  }
+
+  writer.addFooters("Describe It • Vocabulary List");
+  return writer.pdf;
+}
+
+/**
+ * Fold-in-half flashcards: the phrase on the left half and its translation on
+ * the right, so folding along the centre line puts them back to back
+ */
+export async function renderFlashcardSheet(
+  data: ExportData,
+  options: PDFExportOptions = {},
+): Promise<jsPDF> {
+  const vocabulary = data.vocabulary || [];
+  if (vocabulary.length === 0) {
+    throw new Error("Flashcard sheet requires vocabulary items");
+  }
+
+  const writer = new LayoutWriter(options);
+  const { pdf } = writer;
+  const top = MARGIN + 8;
+  const cardHeight = (writer.pageHeight - MARGIN - top) / FLASHCARD_ROWS;
+  const foldX = writer.pageWidth / 2;
+  const faceWidth = foldX - MARGIN;
+  const textWidth = faceWidth - 10;
+
+  const drawFace = (blocks: TextBlock[], x: number, y: number) => {
+    const text = writer.measure(blocks, textWidth);
+    writer.drawBlocks(text.blocks, x + faceWidth / 2, y + (cardHeight - text.height) / 2, "center");
+  };
+
+  for (let start = 0; start < vocabulary.length; start += FLASHCARD_ROWS) {
+    const cards = vocabulary.slice(start, start + FLASHCARD_ROWS);
+    if (start > 0) {
+      writer.newPage();
+    }
+
+    writer.setText(9, "italic", MUTED_COLOR);
+    pdf.text("Cut along the solid lines, then fold each card along the dashed line.", MARGIN, MARGIN);
+
+    // Cut lines around each card
+    pdf.setDrawColor(...MUTED_COLOR);
+    pdf.rect(MARGIN, top, writer.contentWidth, cards.length * cardHeight);
+    for (let row = 1; row < cards.length; row++) {
+      pdf.line(MARGIN, top + row * cardHeight, writer.pageWidth - MARGIN, top + row * cardHeight);
+    }
+
+    // Fold line
+    pdf.setLineDashPattern([2, 2], 0);
+    pdf.line(foldX, top, foldX, top + cards.length * cardHeight);
+    pdf.setLineDashPattern([], 0);
+
+    cards.forEach((item, row) => {
+      const y = top + row * cardHeight;
+      drawFace(
+        [
+          { text: item.phrase, fontSize: 16, fontStyle: "bold" },
+          { text: item.partOfSpeech || "", fontSize: 9, fontStyle: "italic", color: MUTED_COLOR },
+        ],
+        MARGIN,
+        y,
+      );
+      drawFace(
+        [
+          { text: item.translation || item.phrase, fontSize: 14, fontStyle: "bold" },
+          {
+            text: item.definition || "",
+            fontSize: 9,
+            color: MUTED_COLOR,
+            maxLines: FLASHCARD_DEFINITION_LINES,
+          },
+        ],
+        foldX,
+        y,
+      );
+    });
+  }
+
+  return pdf;
+}
+
+/**
+ * Q&A worksheet with writing lines, followed by the answer key on its own page
+ * Questions about the same image are grouped under it.
+ */
+export async function renderWorksheet(
+  data: ExportData,
+  options: PDFExportOptions = {},
+): Promise<jsPDF> {
+  const questions: QAExportItem[] = data.qa || [];
+  if (questions.length === 0) {
+    throw new Error("Worksheet requires Q&A items");
+  }
+
+  const writer = new LayoutWriter(options);
+  const { pdf } = writer;
+  const includeImages = options.includeImages !== false;
+  const numberWidth = 8;
+
+  writer.title(options.branding?.title || "Worksheet");
+  writer.setText(11);
+  pdf.text("Name: ______________________________", MARGIN, writer.y);
+  pdf.text("Date: ______________", writer.pageWidth - MARGIN, writer.y, { align: "right" });
+  writer.y += 12;
+
+  let currentImageUrl: string | undefined;
+  for (const [index, item] of questions.entries()) {
+    if (includeImages && item.imageUrl && item.imageUrl !== currentImageUrl) {
+      currentImageUrl = item.imageUrl;
+      const image = await writer.loadImage(item.imageUrl);
+      if (image) {
+        writer.ensureSpace(WORKSHEET_IMAGE_HEIGHT + 5);
+        writer.y +=
+          writer.drawImage(image, MARGIN, writer.y, writer.contentWidth, WORKSHEET_IMAGE_HEIGHT) + 5;
+      }
+    }
+
+    const question = writer.measure(
+      [{ text: item.question, fontSize: 11 }],
+      writer.contentWidth - numberWidth,
+    );
+    writer.ensureSpace(question.height + ANSWER_LINES * ANSWER_LINE_GAP + 4);
+
+    writer.setText(11, "bold");
+    pdf.text(`${index + 1}.`, MARGIN, writer.y + lineHeight(11) * 0.75);
+    writer.drawBlocks(question.blocks, MARGIN + numberWidth, writer.y);
+    writer.y += question.height;
+
+    for (let line = 0; line < ANSWER_LINES; line++) {
+      writer.y += ANSWER_LINE_GAP;
+      pdf.setDrawColor(...RULE_COLOR);
+      pdf.line(MARGIN + numberWidth, writer.y, writer.pageWidth - MARGIN, writer.y);
+    }
+    writer.y += 6;
+  }
+
+  // Answer key starts on a new page so it can be removed before handing out
+  writer.newPage();
+  writer.title("Answer Key", options.branding?.title);
+
+  questions.forEach((item, index) => {
+    const answer = writer.measure(
+      [{ text: item.answer, fontSize: 10 }],
+      writer.contentWidth - numberWidth,
+    );
+    writer.ensureSpace(answer.height + 3);
+
+    writer.setText(10, "bold");
+    pdf.text(`${index + 1}.`, MARGIN, writer.y + lineHeight(10) * 0.75);
+    writer.drawBlocks(answer.blocks, MARGIN + numberWidth, writer.y);
+    writer.y += answer.height + 3;
+  });
+
+  writer.addFooters("Describe It • Worksheet");
+  return pdf;
+}
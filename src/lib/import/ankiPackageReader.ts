@@ -0,0 +1,269 @@
+/**
+ * Anki package (.apkg) reader
+ * Opens the SQLite collection inside an .apkg with sql.js and returns its
+ * notes with their note type, fields, deck and each card's review log.
+ * Reads legacy collections (`collection.anki2` / `collection.anki21`), which
+ * is what Anki writes when "Support older Anki versions" is ticked on export.
+ */
+
+import { unzipSync } from 'fflate';
+import type { Database } from 'sql.js';
+import { loadSqlJs } from '@/lib/export/ankiPackage';
+
+export interface AnkiReviewLogEntry {
+  reviewedAt: Date;
+  /** Answer button: 1 = Again, 2 = Hard, 3 = Good, 4 = Easy; 0 = manual reschedule */
+  ease: number;
+  /** 0 = learn, 1 = review, 2 = relearn, 3 = filtered deck, 4 = manual */
+  type: number;
+}
+
+export interface AnkiPackageCard {
+  id: number;
+  ord: number;
+  deck: string;
+  /** 0 = new, 1 = learning, 2 = review, 3 = relearning */
+  type: number;
+  /** Days for review cards; negative values are seconds while learning */
+  interval: number;
+  easeFactor: number;
+  reps: number;
+  lapses: number;
+  dueDate?: Date;
+  reviews: AnkiReviewLogEntry[];
+}
+
+export interface AnkiPackageNoteType {
+  id: number;
+  name: string;
+  fields: string[];
+  isCloze: boolean;
+}
+
+export interface AnkiPackageNoteRecord {
+  id: number;
+  guid: string;
+  noteType: AnkiPackageNoteType;
+  fields: string[];
+  tags: string[];
+  cards: AnkiPackageCard[];
+}
+
+export interface AnkiPackageContents {
+  noteTypes: AnkiPackageNoteType[];
+  notes: AnkiPackageNoteRecord[];
+}
+
+const FIELD_SEPARATOR = '\x1f';
+const SECONDS_PER_DAY = 86400;
+const CLOZE_MARKER = /\{\{c\d+::/;
+const NOTE_TYPE_CLOZE = 1;
+
+type Row = Record<string, unknown>;
+
+/** A field of a note type in the `col.models` JSON */
+interface AnkiField {
+  name: string;
+  ord: number;
+}
+
+/** A note type in the `col.models` JSON, keyed by id */
+interface AnkiModel {
+  id: number | string;
+  name: string;
+  /** 0 = standard, 1 = cloze */
+  type: number;
+  flds?: AnkiField[];
+}
+
+/** A deck in the `col.decks` JSON, keyed by id */
+interface AnkiDeck {
+  id: number | string;
+  name: string;
+}
+
+function query(db: Database, sql: string): Row[] {
+  const [result] = db.exec(sql);
+  if (!result) return [];
+
+  return result.values.map(values =>
+    Object.fromEntries(result.columns.map((column, i) => [column, values[i]]))
+  );
+}
+
+function hasTable(db: Database, name: string): boolean {
+  return (
+    query(db, `SELECT name FROM sqlite_master WHERE type = 'table' AND name = '${name}'`).length > 0
+  );
+}
+
+/**
+ * Note types from the `col.models` JSON, or from the `notetypes` and `fields`
+ * tables of newer schemas where that JSON is empty
+ */
+function readNoteTypes(db: Database, modelsJson: string): Map<number, AnkiPackageNoteType> {
+  const noteTypes = new Map<number, AnkiPackageNoteType>();
+  const models = modelsJson ? (JSON.parse(modelsJson) as Record<string, AnkiModel>) : {};
+
+  for (const model of Object.values(models)) {
+    const fields = [...(model.flds || [])]
+      .sort((a, b) => a.ord - b.ord)
+      .map(field => String(field.name));
+    noteTypes.set(Number(model.id), {
+      id: Number(model.id),
+      name: String(model.name),
+      fields,
+      isCloze: model.type === NOTE_TYPE_CLOZE,
+    });
+  }
+
+  if (noteTypes.size === 0 && hasTable(db, 'notetypes')) {
+    const fieldRows = hasTable(db, 'fields')
+      ? query(db, 'SELECT ntid, ord, name FROM fields ORDER BY ntid, ord')
+      : [];
+    for (const row of query(db, 'SELECT id, name FROM notetypes')) {
+      const id = Number(row.id);
+      noteTypes.set(id, {
+        id,
+        name: String(row.name),
+        fields: fieldRows
+          .filter(field => Number(field.ntid) === id)
+          .map(field => String(field.name)),
+        // Cloze is stored in a protobuf config here; detected from note content instead
+        isCloze: false,
+      });
+    }
+  }
+
+  return noteTypes;
+}
+
+function readDecks(db: Database, decksJson: string): Map<number, string> {
+  const decks = new Map<number, string>();
+  const parsed = decksJson ? (JSON.parse(decksJson) as Record<string, AnkiDeck>) : {};
+
+  for (const deck of Object.values(parsed)) {
+    decks.set(Number(deck.id), String(deck.name));
+  }
+
+  if (decks.size === 0 && hasTable(db, 'decks')) {
+    for (const row of query(db, 'SELECT id, name FROM decks')) {
+      decks.set(Number(row.id), String(row.name).split(FIELD_SEPARATOR).join('::'));
+    }
+  }
+
+  return decks;
+}
+
+function openCollection(files: Record<string, Uint8Array>): Uint8Array {
+  const collection = files['collection.anki21'] || files['collection.anki2'];
+
+  // Packages from Anki 2.1.50+ keep the real collection zstd-compressed in
+  // collection.anki21b; the plain collection.anki2 next to it is a stub
+  if (files['collection.anki21b'] && !files['collection.anki21']) {
+    throw new Error(
+      'This package uses the newer Anki format. Export it again with "Support older Anki versions" ticked.'
+    );
+  }
+  if (!collection) {
+    throw new Error('Anki package does not contain a collection');
+  }
+
+  return collection;
+}
+
+/**
+ * Read notes, cards and review history from an .apkg archive
+ */
+export async function readAnkiPackage(bytes: Uint8Array): Promise<AnkiPackageContents> {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(bytes);
+  } catch {
+    throw new Error('Not a valid Anki package (.apkg) file');
+  }
+
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database(openCollection(files));
+
+  try {
+    const [col] = query(db, 'SELECT crt, models, decks FROM col');
+    if (!col) {
+      throw new Error('Anki collection is empty');
+    }
+
+    const createdAt = Number(col.crt);
+    const noteTypes = readNoteTypes(db, String(col.models || ''));
+    const decks = readDecks(db, String(col.decks || ''));
+
+    const reviewsByCard = new Map<number, AnkiReviewLogEntry[]>();
+    if (hasTable(db, 'revlog')) {
+      for (const row of query(db, 'SELECT id, cid, ease, type FROM revlog ORDER BY id')) {
+        const cardId = Number(row.cid);
+        const reviews = reviewsByCard.get(cardId) || [];
+        reviews.push({
+          reviewedAt: new Date(Number(row.id)),
+          ease: Number(row.ease),
+          type: Number(row.type),
+        });
+        reviewsByCard.set(cardId, reviews);
+      }
+    }
+
+    const cardsByNote = new Map<number, AnkiPackageCard[]>();
+    const cardRows = query(
+      db,
+      'SELECT id, nid, did, ord, type, ivl, factor, reps, lapses, due FROM cards ORDER BY ord'
+    );
+    for (const row of cardRows) {
+      const noteId = Number(row.nid);
+      const type = Number(row.type);
+      const cards = cardsByNote.get(noteId) || [];
+      cards.push({
+        id: Number(row.id),
+        ord: Number(row.ord),
+        deck: decks.get(Number(row.did)) || 'Default',
+        type,
+        interval: Number(row.ivl),
+        easeFactor: Number(row.factor) / 1000,
+        reps: Number(row.reps),
+        lapses: Number(row.lapses),
+        // Review due dates are days since the collection was created
+        dueDate:
+          type === 2 || type === 3
+            ? new Date((createdAt + Number(row.due) * SECONDS_PER_DAY) * 1000)
+            : undefined,
+        reviews: reviewsByCard.get(Number(row.id)) || [],
+      });
+      cardsByNote.set(noteId, cards);
+    }
+
+    const notes: AnkiPackageNoteRecord[] = [];
+    for (const row of query(db, 'SELECT id, guid, mid, tags, flds FROM notes ORDER BY id')) {
+      const fields = String(row.flds).split(FIELD_SEPARATOR);
+      const modelId = Number(row.mid);
+      const noteType = noteTypes.get(modelId) || {
+        id: modelId,
+        name: 'Unknown',
+        fields: fields.map((_, i) => `Field ${i + 1}`),
+        isCloze: false,
+      };
+
+      notes.push({
+        id: Number(row.id),
+        guid: String(row.guid),
+        noteType: {
+          ...noteType,
+          isCloze: noteType.isCloze || fields.some(field => CLOZE_MARKER.test(field)),
+        },
+        fields,
+        tags: String(row.tags).trim().split(/\s+/).filter(Boolean),
+        cards: cardsByNote.get(Number(row.id)) || [],
+      });
+    }
+
+    return { noteTypes: Array.from(noteTypes.values()), notes };
+  } finally {
+    db.close();
+  }
+}
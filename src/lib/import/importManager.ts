@@ -11,6 +11,16 @@ import type {
   QAExportItem,
   SessionExportItem,
 } from '@/types/export';
+import {
+  createSchedulingAlgorithm,
+  replayReviewHistory,
+  type SchedulingAlgorithm,
+  type SchedulingAlgorithmName,
+  type SchedulingOptions,
+} from '@/lib/algorithms/scheduler';
+import type { ReviewCard } from '@/lib/algorithms/algorithm-interface';
+import type { ReviewLogEntry } from '@/lib/algorithms/fsrs-optimizer';
+import { readAnkiPackage, type AnkiPackageNoteRecord } from './ankiPackageReader';
 
 export interface ImportResult {
   success: boolean;
@@ -20,18 +30,54 @@ export interface ImportResult {
   data?: ImportedData;
 }
 
+/**
+ * Spaced repetition state carried over from another tool
+ * `card` is the result of replaying `history` through the chosen scheduling
+ * algorithm; both use the same card id.
+ */
+export interface ImportedReviewState {
+  phrase: string;
+  card: ReviewCard;
+  history: ReviewLogEntry[];
+}
+
 export interface ImportedData {
   vocabulary?: VocabularyExportItem[];
   descriptions?: DescriptionExportItem[];
   qa?: QAExportItem[];
   sessions?: SessionExportItem[];
+  reviews?: ImportedReviewState[];
 }
 
+export type ImportFormat = 'json' | 'csv' | 'anki' | 'apkg' | 'quizlet' | 'memrise';
+
+export type ImportField =
+  | 'phrase'
+  | 'translation'
+  | 'definition'
+  | 'context'
+  | 'partOfSpeech'
+  | 'category';
+
+/**
+ * Source field for each vocabulary field: an Anki field or column header
+ * name, or a zero-based position
+ */
+export type ImportFieldMapping = Partial<Record<ImportField, string | number>>;
+
 export interface ImportOptions {
-  format: 'json' | 'csv' | 'anki';
+  format: ImportFormat;
   validateData?: boolean;
   skipDuplicates?: boolean;
   mergeStrategy?: 'replace' | 'merge' | 'skip';
+  fieldMapping?: ImportFieldMapping;
+  /** Term/definition separator for Quizlet and Memrise exports (default tab) */
+  delimiter?: string;
+  /** Row separator for Quizlet and Memrise exports (default newline) */
+  rowDelimiter?: string;
+  /** Algorithm used to replay imported review history (default SM-2) */
+  schedulingAlgorithm?: SchedulingAlgorithmName;
+  schedulingOptions?: SchedulingOptions;
 }
 
 /**
@@ -144,6 +190,32 @@ export async function importFromCSV(
 
     // Parse header
     const headers = parseCSVLine(lines[0]);
+
+    if (options.fieldMapping) {
+      const positions = resolveFieldPositions(headers, options.fieldMapping);
+      const dateAdded = new Date().toISOString();
+
+      for (let i = 1; i < lines.length; i++) {
+        const item = vocabularyFromFields(parseCSVLine(lines[i]), positions, {
+          category: 'general',
+          dateAdded,
+        });
+        if (!item.phrase || !item.translation) {
+          warnings.push(`Row ${i + 1}: Missing phrase or translation`);
+          continue;
+        }
+        vocabulary.push(item);
+      }
+
+      return {
+        success: vocabulary.length > 0,
+        itemsImported: vocabulary.length,
+        errors,
+        warnings,
+        data: { vocabulary },
+      };
+    }
+
     const requiredFields = ['spanish_text', 'english_translation'];
     const missingFields = requiredFields.filter(field => !headers.includes(field));
 
@@ -294,6 +366,448 @@ export async function importFromAnki(
   }
 }
 
+// Lower-case source field names recognised for each vocabulary field, in priority order
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  phrase: [
+    'phrase',
+    'front',
+    'term',
+    'word',
+    'learnable',
+    'expression',
+    'spanish',
+    'spanish_text',
+    'text',
+  ],
+  translation: ['translation', 'back', 'english', 'english_translation', 'meaning', 'definition'],
+  definition: ['definition', 'meaning', 'extra', 'notes', 'usage_notes'],
+  context: ['context', 'example', 'example sentence', 'sentence', 'context_sentence_spanish'],
+  partOfSpeech: ['part of speech', 'part_of_speech', 'pos'],
+  category: ['category', 'level', 'topic'],
+};
+
+const IMPORT_FIELDS = Object.keys(FIELD_ALIASES) as ImportField[];
+
+// Anki answer buttons (Again, Hard, Good, Easy) on the app's 0-5 quality scale
+const ANKI_EASE_TO_QUALITY: Record<number, number> = { 1: 1, 2: 3, 3: 4, 4: 5 };
+
+const CLOZE_PATTERN = /\{\{c\d+::(.*?)(?:::(.*?))?\}\}/g;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Resolve the source position of each vocabulary field
+ * Explicit mappings win, then name aliases; phrase and translation fall back
+ * to the first two positions. A source field is used at most once, except
+ * that definition falls back to the translation.
+ */
+export function resolveFieldPositions(
+  sourceFields: string[],
+  mapping: ImportFieldMapping = {}
+): Partial<Record<ImportField, number>> {
+  const names = sourceFields.map(name => name.trim().toLowerCase());
+  const positions: Partial<Record<ImportField, number>> = {};
+  const used = new Set<number>();
+
+  for (const field of IMPORT_FIELDS) {
+    const mapped = mapping[field];
+    if (typeof mapped === 'number') {
+      positions[field] = mapped;
+    } else if (typeof mapped === 'string') {
+      const index = names.indexOf(mapped.trim().toLowerCase());
+      if (index >= 0) positions[field] = index;
+    }
+    if (positions[field] !== undefined) used.add(positions[field]!);
+  }
+
+  for (const field of IMPORT_FIELDS) {
+    if (positions[field] !== undefined || mapping[field] !== undefined) continue;
+
+    for (const alias of FIELD_ALIASES[field]) {
+      const index = names.indexOf(alias);
+      if (index >= 0 && !used.has(index)) {
+        positions[field] = index;
+        used.add(index);
+        break;
+      }
+    }
+  }
+
+  if (positions.phrase === undefined && mapping.phrase === undefined) {
+    positions.phrase = [0, 1].find(index => !used.has(index)) ?? 0;
+    used.add(positions.phrase);
+  }
+  if (positions.translation === undefined && mapping.translation === undefined) {
+    positions.translation = [1, 0].find(index => !used.has(index));
+  }
+
+  return positions;
+}
+
+/**
+ * Plain text of an Anki field: HTML, media references and entities removed
+ */
+function ankiFieldText(html: string | undefined): string {
+  return (html || '')
+    .replace(/\[sound:[^\]]*\]/g, '')
+    .replace(/<br\s*\/?>|<\/(div|p|li)>/gi, ' ')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function deckLeaf(deck: string | undefined): string {
+  return deck?.split('::').pop() || 'general';
+}
+
+function vocabularyFromFields(
+  values: string[],
+  positions: Partial<Record<ImportField, number>>,
+  defaults: { category: string; dateAdded: string }
+): VocabularyExportItem {
+  const value = (field: ImportField) => {
+    const index = positions[field];
+    return index === undefined ? '' : (values[index] || '').trim();
+  };
+  const translation = value('translation');
+
+  return {
+    phrase: value('phrase'),
+    translation,
+    definition: value('definition') || translation,
+    category: value('category') || defaults.category,
+    difficulty: 'beginner',
+    partOfSpeech: value('partOfSpeech') || 'noun',
+    context: value('context'),
+    dateAdded: defaults.dateAdded,
+  };
+}
+
+/**
+ * Vocabulary item from an Anki note
+ * Cloze notes use the first deletion as the phrase, its hint (or the Extra
+ * field) as the translation and the completed sentence as context.
+ */
+function vocabularyFromAnkiNote(
+  note: AnkiPackageNoteRecord,
+  mapping?: ImportFieldMapping
+): VocabularyExportItem {
+  const defaults = {
+    category: deckLeaf(note.cards[0]?.deck),
+    dateAdded: new Date(note.id).toISOString(),
+  };
+
+  if (note.noteType.isCloze && !mapping) {
+    const text = note.fields[0] || '';
+    const [first] = Array.from(text.matchAll(CLOZE_PATTERN));
+    const extra = ankiFieldText(note.fields[1]);
+
+    return {
+      ...vocabularyFromFields([], {}, defaults),
+      phrase: ankiFieldText(first?.[1]),
+      translation: ankiFieldText(first?.[2]) || extra,
+      definition: extra || ankiFieldText(first?.[2]),
+      context: ankiFieldText(text.replace(CLOZE_PATTERN, '$1')),
+    };
+  }
+
+  return vocabularyFromFields(
+    note.fields.map(ankiFieldText),
+    resolveFieldPositions(note.noteType.fields, mapping),
+    defaults
+  );
+}
+
+/**
+ * Translate a note's Anki review log into the app's scheduling state
+ * Uses the note's first card (the forward card of reversed notes). Graded
+ * reviews are replayed through the chosen algorithm; cards without a log
+ * keep Anki's current interval and ease.
+ */
+function reviewStateFromAnkiNote(
+  note: AnkiPackageNoteRecord,
+  phrase: string,
+  algorithm: SchedulingAlgorithm
+): ImportedReviewState | undefined {
+  const card = note.cards[0];
+  if (!card) return undefined;
+
+  const cardId = `anki:${note.guid}`;
+  const history: ReviewLogEntry[] = card.reviews
+    .filter(review => ANKI_EASE_TO_QUALITY[review.ease] !== undefined)
+    .map(review => ({
+      cardId,
+      quality: ANKI_EASE_TO_QUALITY[review.ease],
+      reviewedAt: review.reviewedAt,
+    }));
+
+  if (history.length > 0) {
+    const replayed = replayReviewHistory(history, algorithm).get(cardId);
+    return replayed && { phrase, card: replayed, history };
+  }
+
+  if (card.type === 2 && card.interval > 0 && card.dueDate) {
+    return {
+      phrase,
+      card: {
+        id: cardId,
+        imageId: cardId,
+        difficulty: 'medium',
+        interval: card.interval,
+        easeFactor: card.easeFactor || 2.5,
+        nextReviewDate: card.dueDate,
+        lastReviewDate: new Date(card.dueDate.getTime() - card.interval * MS_PER_DAY),
+        reviewCount: card.reps,
+        successStreak: 0,
+      },
+      history: [],
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Import an Anki package (.apkg) including review history
+ */
+export async function importFromApkg(
+  file: File,
+  options: ImportOptions = { format: 'apkg' }
+): Promise<ImportResult> {
+  try {
+    const { notes } = await readAnkiPackage(new Uint8Array(await file.arrayBuffer()));
+    const algorithm = createSchedulingAlgorithm(
+      options.schedulingAlgorithm,
+      options.schedulingOptions
+    );
+
+    const vocabulary: VocabularyExportItem[] = [];
+    const reviews: ImportedReviewState[] = [];
+    const warnings: string[] = [];
+    const seen = new Set<string>();
+
+    notes.forEach((note, index) => {
+      const item = vocabularyFromAnkiNote(note, options.fieldMapping);
+      if (!item.phrase) {
+        warnings.push(`Note ${index + 1}: No phrase found in "${note.noteType.name}" note`);
+        return;
+      }
+
+      const key = item.phrase.toLowerCase();
+      if (options.skipDuplicates && seen.has(key)) {
+        warnings.push(`Note ${index + 1}: Duplicate phrase "${item.phrase}" skipped`);
+        return;
+      }
+      seen.add(key);
+
+      const review = reviewStateFromAnkiNote(note, item.phrase, algorithm);
+      if (review) {
+        item.lastReviewed = review.card.lastReviewDate?.toISOString();
+        item.reviewCount = review.card.reviewCount;
+        reviews.push(review);
+      }
+      vocabulary.push(item);
+    });
+
+    return {
+      success: vocabulary.length > 0,
+      itemsImported: vocabulary.length,
+      errors: notes.length === 0 ? ['Anki package contains no notes'] : [],
+      warnings,
+      data: { vocabulary, reviews },
+    };
+  } catch (error) {
+    logger.error('Anki package import failed:', error);
+    return {
+      success: false,
+      itemsImported: 0,
+      errors: [error instanceof Error ? error.message : 'Unknown import error'],
+      warnings: [],
+    };
+  }
+}
+
+interface SourceRow {
+  rowNumber: number;
+  values: string[];
+}
+
+/**
+ * Split a Quizlet or Memrise export into its non-empty rows
+ * Quizlet exports one "term<TAB>definition" pair per row, without a header;
+ * separators are configurable there, so both can be overridden. Memrise
+ * exports may carry a header row, which is detected by its column names.
+ */
+function splitTabSeparated(
+  text: string,
+  options: ImportOptions
+): { header: string[]; rows: SourceRow[] } {
+  const delimiter = options.delimiter || '\t';
+  const splitRow = (row: string): string[] => {
+    // Quizlet does not quote values, so only the first separator splits
+    if (options.format === 'quizlet') {
+      const index = row.indexOf(delimiter);
+      return index < 0 ? [row] : [row.slice(0, index), row.slice(index + delimiter.length)];
+    }
+    return row.split(delimiter);
+  };
+
+  const rows = text
+    .replace(/\r\n/g, '\n')
+    .split(options.rowDelimiter || '\n')
+    .map((row, index) => ({
+      rowNumber: index + 1,
+      values: splitRow(row).map(value => value.trim()),
+    }))
+    .filter(row => row.values.some(Boolean));
+
+  const aliases = new Set(Object.values(FIELD_ALIASES).flat());
+  const hasHeader =
+    rows.length > 0 && rows[0].values.filter(cell => aliases.has(cell.toLowerCase())).length >= 2;
+
+  return hasHeader ? { header: rows[0].values, rows: rows.slice(1) } : { header: [], rows };
+}
+
+/**
+ * Import a Quizlet or Memrise export
+ */
+export async function importFromTabSeparated(
+  file: File,
+  options: ImportOptions = { format: 'quizlet' }
+): Promise<ImportResult> {
+  try {
+    const { header, rows } = splitTabSeparated(await file.text(), options);
+
+    if (rows.length === 0) {
+      return {
+        success: false,
+        itemsImported: 0,
+        errors: ['Empty file'],
+        warnings: [],
+      };
+    }
+
+    const positions = resolveFieldPositions(header, options.fieldMapping);
+    const dateAdded = new Date().toISOString();
+
+    const vocabulary: VocabularyExportItem[] = [];
+    const warnings: string[] = [];
+    const seen = new Set<string>();
+
+    rows.forEach(({ rowNumber, values }) => {
+      const item = vocabularyFromFields(values, positions, { category: 'general', dateAdded });
+
+      if (!item.phrase || !item.translation) {
+        warnings.push(`Row ${rowNumber}: Missing term or definition`);
+        return;
+      }
+
+      const key = item.phrase.toLowerCase();
+      if (options.skipDuplicates && seen.has(key)) {
+        warnings.push(`Row ${rowNumber}: Duplicate term "${item.phrase}" skipped`);
+        return;
+      }
+      seen.add(key);
+      vocabulary.push(item);
+    });
+
+    return {
+      success: vocabulary.length > 0,
+      itemsImported: vocabulary.length,
+      errors: [],
+      warnings,
+      data: { vocabulary },
+    };
+  } catch (error) {
+    logger.error(`${options.format} import failed:`, error);
+    return {
+      success: false,
+      itemsImported: 0,
+      errors: [error instanceof Error ? error.message : 'Unknown import error'],
+      warnings: [],
+    };
+  }
+}
+
+/**
+ * Source columns of a file before import
+ */
+export interface ImportSourcePreview {
+  /** Column headers or Anki field names; "Column n" when the file has no header */
+  sourceFields: string[];
+  /** The first rows, one value per source field */
+  rows: string[][];
+  totalRows: number;
+  /** Positions the import uses when no field mapping is given */
+  suggestedMapping: Partial<Record<ImportField, number>>;
+}
+
+const MAPPABLE_FORMATS: ImportFormat[] = ['csv', 'apkg', 'quizlet', 'memrise'];
+
+export function supportsFieldMapping(format: ImportFormat): boolean {
+  return MAPPABLE_FORMATS.includes(format);
+}
+
+function generatedFieldNames(rows: string[][]): string[] {
+  const width = Math.max(0, ...rows.map(row => row.length));
+  return Array.from({ length: width }, (_, i) => `Column ${i + 1}`);
+}
+
+/**
+ * Read a file's columns and first rows so they can be mapped before import
+ * Anki packages are previewed with the fields of their most common note
+ * type; a numeric mapping then applies to every note by field position.
+ */
+export async function inspectImportFile(
+  file: File,
+  options: ImportOptions,
+  sampleSize = 5
+): Promise<ImportSourcePreview> {
+  let sourceFields: string[] = [];
+  let rows: string[][] = [];
+
+  switch (options.format) {
+    case 'csv': {
+      const lines = (await file.text()).split('\n').filter(line => line.trim());
+      sourceFields = lines.length > 0 ? parseCSVLine(lines[0]) : [];
+      rows = lines.slice(1).map(parseCSVLine);
+      break;
+    }
+    case 'apkg': {
+      const { notes } = await readAnkiPackage(new Uint8Array(await file.arrayBuffer()));
+      const counts = new Map<number, number>();
+      notes.forEach(note => counts.set(note.noteType.id, (counts.get(note.noteType.id) || 0) + 1));
+      const [commonType] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+      const typed = notes.filter(note => note.noteType.id === commonType?.[0]);
+
+      sourceFields = typed[0]?.noteType.fields ?? [];
+      rows = typed.map(note => note.fields.map(ankiFieldText));
+      break;
+    }
+    case 'quizlet':
+    case 'memrise': {
+      const parsed = splitTabSeparated(await file.text(), options);
+      rows = parsed.rows.map(row => row.values);
+      sourceFields = parsed.header.length > 0 ? parsed.header : generatedFieldNames(rows);
+      break;
+    }
+    default:
+      throw new Error(`Field mapping is not available for ${options.format} files`);
+  }
+
+  return {
+    sourceFields,
+    rows: rows.slice(0, sampleSize),
+    totalRows: rows.length,
+    suggestedMapping: resolveFieldPositions(sourceFields),
+  };
+}
+
 /**
  * Main import function that delegates to format-specific handlers
  */
@@ -305,6 +819,11 @@ export async function importData(file: File, options: ImportOptions): Promise<Im
       return importFromCSV(file, options);
     case 'anki':
       return importFromAnki(file, options);
+    case 'apkg':
+      return importFromApkg(file, options);
+    case 'quizlet':
+    case 'memrise':
+      return importFromTabSeparated(file, options);
     default:
       return {
         success: false,
@@ -0,0 +1,297 @@
+/**
+ * Import planning
+ * Matches parsed vocabulary against the user's existing vocabulary_items,
+ * records how each matched field differs and which resolution applies, and
+ * turns the resolved plan into the payload committed by /api/vocabulary/import.
+ */
+
+import type { VocabularyExportItem } from '@/types/export';
+import type { VocabularyItem } from '@/lib/supabase/types';
+import {
+  reviewRowFromCard,
+  type VocabularyReviewUpdate,
+} from '@/lib/services/reviewSchedulingService';
+import type { ImportedReviewState, ImportOptions } from './importManager';
+
+export type ExistingVocabularyItem = Pick<
+  VocabularyItem,
+  | 'id'
+  | 'vocabulary_list_id'
+  | 'spanish_text'
+  | 'english_translation'
+  | 'part_of_speech'
+  | 'category'
+  | 'context_sentence_spanish'
+  | 'usage_notes'
+>;
+
+/**
+ * What to do with an imported item
+ * - add: insert as a new item (the only choice for items without a match)
+ * - keep: leave the existing item untouched and skip the import
+ * - replace: overwrite the existing item's fields with the imported values
+ * - merge: fill only the existing item's empty fields
+ */
+export type ConflictResolution = 'add' | 'keep' | 'replace' | 'merge';
+
+export type ComparedField = 'translation' | 'definition' | 'context' | 'partOfSpeech' | 'category';
+
+export interface ImportFieldDiff {
+  field: ComparedField;
+  current: string;
+  incoming: string;
+}
+
+export interface ImportPlanEntry {
+  /** Position of the item in the parsed file */
+  index: number;
+  item: VocabularyExportItem;
+  existing?: ExistingVocabularyItem;
+  diffs: ImportFieldDiff[];
+  resolution: ConflictResolution;
+}
+
+export interface ImportPlanSummary {
+  added: number;
+  updated: number;
+  kept: number;
+  /** Matched items whose fields differ from the existing item */
+  conflicts: number;
+}
+
+type ImportColumns = Pick<
+  VocabularyItem,
+  | 'spanish_text'
+  | 'english_translation'
+  | 'part_of_speech'
+  | 'difficulty_level'
+  | 'category'
+  | 'context_sentence_spanish'
+  | 'usage_notes'
+>;
+
+export type ImportItemInsert = ImportColumns;
+
+export interface ImportItemUpdate {
+  id: string;
+  changes: Partial<ImportColumns>;
+}
+
+/**
+ * Review state carried over from another tool for one imported item
+ * Inserted items are matched by `spanish_text`; matched existing items by `id`.
+ */
+export interface ImportItemReview {
+  id?: string;
+  spanish_text: string;
+  schedule: VocabularyReviewUpdate;
+  history: { quality: number; reviewed_at: string }[];
+}
+
+export interface ImportCommitPayload {
+  inserts: ImportItemInsert[];
+  updates: ImportItemUpdate[];
+  reviews: ImportItemReview[];
+}
+
+/** Result of committing a plan; `batchId` identifies the import for undo */
+export interface ImportCommitReport {
+  batchId: string;
+  listId: string;
+  inserted: number;
+  updated: number;
+  /** Items whose imported review schedule was stored */
+  scheduled: number;
+}
+
+export interface ImportUndoReport {
+  batchId: string;
+  removed: number;
+  restored: number;
+}
+
+const COLUMN_FOR_FIELD = {
+  translation: 'english_translation',
+  definition: 'usage_notes',
+  context: 'context_sentence_spanish',
+  partOfSpeech: 'part_of_speech',
+  category: 'category',
+} as const satisfies Record<ComparedField, keyof ImportColumns>;
+
+const COMPARED_FIELDS = Object.keys(COLUMN_FOR_FIELD) as ComparedField[];
+
+const PARTS_OF_SPEECH: VocabularyItem['part_of_speech'][] = [
+  'noun',
+  'verb',
+  'adjective',
+  'adverb',
+  'preposition',
+  'article',
+  'pronoun',
+  'conjunction',
+  'interjection',
+  'other',
+];
+
+const DIFFICULTY_LEVELS: VocabularyItem['difficulty_level'][] = [
+  'beginner',
+  'intermediate',
+  'advanced',
+];
+
+function matchKey(text: string): string {
+  return text.trim().toLowerCase();
+}
+
+/**
+ * Database columns for an imported item
+ * Importers copy the translation into the definition when a file has none,
+ * so a definition equal to the translation is not stored as usage notes.
+ */
+export function toImportColumns(item: VocabularyExportItem): ImportColumns {
+  const partOfSpeech = item.partOfSpeech?.trim().toLowerCase() as VocabularyItem['part_of_speech'];
+  const difficulty = item.difficulty as VocabularyItem['difficulty_level'];
+  const definition = item.definition?.trim();
+
+  return {
+    spanish_text: item.phrase.trim(),
+    english_translation: item.translation.trim(),
+    part_of_speech: PARTS_OF_SPEECH.includes(partOfSpeech) ? partOfSpeech : 'other',
+    difficulty_level: DIFFICULTY_LEVELS.includes(difficulty) ? difficulty : 'beginner',
+    category: item.category?.trim() || null,
+    context_sentence_spanish: item.context?.trim() || null,
+    usage_notes: definition && definition !== item.translation.trim() ? definition : null,
+  };
+}
+
+/**
+ * Fields where the imported item carries a value different from the
+ * existing one; empty imported values never count as a difference
+ */
+export function diffVocabularyItem(
+  item: VocabularyExportItem,
+  existing: ExistingVocabularyItem
+): ImportFieldDiff[] {
+  const columns = toImportColumns(item);
+
+  return COMPARED_FIELDS.flatMap(field => {
+    const column = COLUMN_FOR_FIELD[field];
+    const incoming = columns[column] ?? '';
+    const current = existing[column] ?? '';
+
+    return incoming && incoming !== current ? [{ field, current, incoming }] : [];
+  });
+}
+
+function defaultResolution(
+  diffs: ImportFieldDiff[],
+  strategy: ImportOptions['mergeStrategy']
+): ConflictResolution {
+  if (diffs.length === 0) return 'keep';
+  if (strategy === 'replace') return 'replace';
+  if (strategy === 'skip') return 'keep';
+  return 'merge';
+}
+
+/**
+ * Match imported items to existing vocabulary by Spanish text
+ * Matches start with the resolution for `mergeStrategy`; identical matches
+ * are kept as they are.
+ */
+export function buildImportPlan(
+  items: VocabularyExportItem[],
+  existingItems: ExistingVocabularyItem[],
+  strategy: ImportOptions['mergeStrategy'] = 'merge'
+): ImportPlanEntry[] {
+  const existingByKey = new Map<string, ExistingVocabularyItem>();
+  for (const existing of existingItems) {
+    const key = matchKey(existing.spanish_text);
+    if (!existingByKey.has(key)) existingByKey.set(key, existing);
+  }
+
+  return items.map((item, index) => {
+    const existing = existingByKey.get(matchKey(item.phrase));
+    if (!existing) {
+      return { index, item, diffs: [], resolution: 'add' };
+    }
+
+    const diffs = diffVocabularyItem(item, existing);
+    return { index, item, existing, diffs, resolution: defaultResolution(diffs, strategy) };
+  });
+}
+
+function changesFor(entry: ImportPlanEntry): Partial<ImportColumns> {
+  const existing = entry.existing!;
+  const changes: Partial<ImportColumns> = {};
+
+  for (const diff of entry.diffs) {
+    const column = COLUMN_FOR_FIELD[diff.field];
+    if (entry.resolution === 'merge' && existing[column]) continue;
+    Object.assign(changes, { [column]: diff.incoming });
+  }
+
+  return changes;
+}
+
+function toImportItemReview(
+  review: ImportedReviewState,
+  spanishText: string,
+  id?: string
+): ImportItemReview {
+  return {
+    ...(id && { id }),
+    spanish_text: spanishText,
+    schedule: reviewRowFromCard(review.card),
+    history: review.history.map(log => ({
+      quality: log.quality,
+      reviewed_at: log.reviewedAt.toISOString(),
+    })),
+  };
+}
+
+/**
+ * Inserts, updates and carried-over review state for a resolved plan
+ * Kept items skip their review state along with the rest of the import.
+ */
+export function toImportCommitPayload(
+  entries: ImportPlanEntry[],
+  reviews: ImportedReviewState[] = []
+): ImportCommitPayload {
+  const payload: ImportCommitPayload = { inserts: [], updates: [], reviews: [] };
+  const reviewByKey = new Map(reviews.map(review => [matchKey(review.phrase), review]));
+
+  for (const entry of entries) {
+    if (entry.resolution === 'keep') continue;
+
+    const review = reviewByKey.get(matchKey(entry.item.phrase));
+
+    if (entry.resolution === 'add' || !entry.existing) {
+      const insert = toImportColumns(entry.item);
+      payload.inserts.push(insert);
+      if (review) payload.reviews.push(toImportItemReview(review, insert.spanish_text));
+    } else {
+      const changes = changesFor(entry);
+      if (Object.keys(changes).length > 0) {
+        payload.updates.push({ id: entry.existing.id, changes });
+      }
+      if (review) {
+        payload.reviews.push(
+          toImportItemReview(review, entry.existing.spanish_text, entry.existing.id)
+        );
+      }
+    }
+  }
+
+  return payload;
+}
+
+export function summarizeImportPlan(entries: ImportPlanEntry[]): ImportPlanSummary {
+  const { inserts, updates } = toImportCommitPayload(entries);
+
+  return {
+    added: inserts.length,
+    updated: updates.length,
+    kept: entries.length - inserts.length - updates.length,
+    conflicts: entries.filter(entry => entry.diffs.length > 0).length,
+  };
+}
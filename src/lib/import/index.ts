@@ -3,8 +3,42 @@ export {
   importFromJSON,
   importFromCSV,
   importFromAnki,
+  importFromApkg,
+  importFromTabSeparated,
+  inspectImportFile,
+  resolveFieldPositions,
+  supportsFieldMapping,
   validateImportedData,
   type ImportResult,
   type ImportedData,
+  type ImportedReviewState,
+  type ImportField,
+  type ImportFieldMapping,
+  type ImportFormat,
   type ImportOptions,
+  type ImportSourcePreview,
 } from './importManager';
+export {
+  buildImportPlan,
+  diffVocabularyItem,
+  summarizeImportPlan,
+  toImportColumns,
+  toImportCommitPayload,
+  type ComparedField,
+  type ConflictResolution,
+  type ExistingVocabularyItem,
+  type ImportCommitPayload,
+  type ImportCommitReport,
+  type ImportFieldDiff,
+  type ImportItemInsert,
+  type ImportItemUpdate,
+  type ImportPlanEntry,
+  type ImportPlanSummary,
+  type ImportUndoReport,
+} from './importPlan';
+export {
+  readAnkiPackage,
+  type AnkiPackageContents,
+  type AnkiPackageNoteRecord,
+  type AnkiPackageNoteType,
+} from './ankiPackageReader';
@@ -0,0 +1,64 @@
+/**
+ * CEFR level targets shared by the language definitions
+ */
+
+import type { DescriptionStyle } from '@/types/api';
+import { CEFR_LEVELS, type CEFRLevel, type CEFRTarget } from './types';
+
+/**
+ * Level each description style aims for unless a language overrides it
+ */
+export const DEFAULT_CEFR_TARGETS: Record<DescriptionStyle, CEFRTarget> = {
+  narrativo: { min: 'B1', max: 'B2' },
+  poetico: { min: 'B1', max: 'B2' },
+  academico: { min: 'B2', max: 'C1' },
+  conversacional: { min: 'A2', max: 'B1' },
+  infantil: { min: 'A1', max: 'A2' },
+};
+
+/**
+ * Levels behind the Q&A difficulty values stored in `qa_difficulty`
+ */
+export const QA_DIFFICULTY_CEFR: Record<'facil' | 'medio' | 'dificil', CEFRTarget> = {
+  facil: { min: 'A1', max: 'A2' },
+  medio: { min: 'B1', max: 'B2' },
+  dificil: { min: 'C1', max: 'C2' },
+};
+
+/**
+ * Levels behind the vocabulary `difficulty_level` values
+ */
+export const DIFFICULTY_LEVEL_CEFR: Record<'beginner' | 'intermediate' | 'advanced', CEFRTarget> =
+  {
+    beginner: { min: 'A1', max: 'A2' },
+    intermediate: { min: 'B1', max: 'B2' },
+    advanced: { min: 'C1', max: 'C2' },
+  };
+
+export function isCEFRLevel(value: unknown): value is CEFRLevel {
+  return typeof value === 'string' && (CEFR_LEVELS as readonly string[]).includes(value);
+}
+
+export function formatCEFRTarget(target: CEFRTarget): string {
+  return target.min === target.max ? target.min : `${target.min}-${target.max}`;
+}
+
+export function cefrIndex(level: CEFRLevel): number {
+  return CEFR_LEVELS.indexOf(level);
+}
+
+/**
+ * What a text at each level looks like, phrased as writing instructions
+ */
+export const CEFR_WRITING_GUIDANCE: Record<CEFRLevel, string> = {
+  A1: 'very short simple sentences (about 6-8 words), only the most common everyday words, present tense only',
+  A2: 'short simple sentences (about 8-10 words), common everyday vocabulary, present tense with occasional simple past',
+  B1: 'clear sentences of moderate length (about 10-14 words), familiar vocabulary with some descriptive words, present and past tenses',
+  B2: 'varied sentences (about 14-18 words), a wider descriptive vocabulary, past, future and some subjunctive or conditional forms',
+  C1: 'complex sentences (about 18-24 words) with subordinate clauses, precise and less frequent vocabulary, a full range of tenses including subjunctive',
+  C2: 'sophisticated, idiomatic prose with long complex sentences, rare and nuanced vocabulary, and the full range of tenses and moods',
+};
+
+export function getCEFRInstruction(level: CEFRLevel): string {
+  return `LANGUAGE LEVEL: Write for a learner at CEFR level ${level}: ${CEFR_WRITING_GUIDANCE[level]}.`;
+}
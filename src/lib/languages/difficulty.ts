@@ -0,0 +1,202 @@
+/**
+ * Text difficulty analysis
+ * Estimates the CEFR level of generated text from sentence length, word
+ * frequency bands, lexical diversity and marked verb forms. The frequency
+ * bands come from each language's compact core-word list plus word length, so
+ * the estimate is a heuristic for catching clear misses, not a placement test.
+ */
+
+import {
+  CEFR_LEVELS,
+  TENSE_CATEGORIES,
+  type CEFRLevel,
+  type SupportedLanguageCode,
+  type TenseCategory,
+} from './types';
+import { cefrIndex } from './cefr';
+import { getLanguage } from './registry';
+
+export interface FrequencyBands {
+  /** Share of words in the language's core-word list */
+  high: number;
+  /** Share of other words up to LONG_WORD_LENGTH letters */
+  mid: number;
+  /** Share of longer words outside the core list */
+  low: number;
+}
+
+export interface TextDifficultyAnalysis {
+  language: SupportedLanguageCode;
+  wordCount: number;
+  sentenceCount: number;
+  averageSentenceLength: number;
+  averageWordLength: number;
+  lexicalDiversity: number;
+  frequencyBands: FrequencyBands;
+  tenseUsage: Record<TenseCategory, number>;
+  /** 0 (easiest) to 1 (hardest) */
+  difficultyScore: number;
+  estimatedLevel: CEFRLevel;
+}
+
+export interface CEFRTargetCheck {
+  target: CEFRLevel;
+  estimated: CEFRLevel;
+  /** Estimated minus target, in CEFR steps */
+  difference: number;
+  meetsTarget: boolean;
+}
+
+const LONG_WORD_LENGTH = 8;
+
+// Feature ranges mapped onto 0..1 before weighting
+const SENTENCE_LENGTH_RANGE = [6, 26] as const;
+const LOW_FREQUENCY_RANGE = [0.02, 0.3] as const;
+const NON_CORE_RANGE = [0.3, 0.75] as const;
+const COMPLEX_TENSE_RANGE = [0, 0.8] as const;
+
+const WEIGHTS = {
+  sentenceLength: 0.35,
+  lowFrequency: 0.25,
+  nonCore: 0.2,
+  complexTenses: 0.2,
+};
+
+function scale(value: number, [min, max]: readonly [number, number]): number {
+  return Math.min(Math.max((value - min) / (max - min), 0), 1);
+}
+
+function round(value: number, digits = 2): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/\p{L}+/gu) ?? [];
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/[.!?…]+|\n{2,}/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => /\p{L}/u.test(sentence));
+}
+
+function countTenses(
+  words: string[],
+  patterns: Record<TenseCategory, RegExp[]>
+): Record<TenseCategory, number> {
+  const candidates = [...words, ...words.slice(1).map((word, i) => `${words[i]} ${word}`)];
+
+  return Object.fromEntries(
+    TENSE_CATEGORIES.map(category => [
+      category,
+      candidates.filter(candidate => patterns[category].some(pattern => pattern.test(candidate)))
+        .length,
+    ])
+  ) as Record<TenseCategory, number>;
+}
+
+export function analyzeTextDifficulty(
+  text: string,
+  language: SupportedLanguageCode
+): TextDifficultyAnalysis {
+  const { readability } = getLanguage(language);
+  const words = tokenize(text);
+  const sentences = splitSentences(text);
+  const wordCount = words.length;
+  const sentenceCount = Math.max(sentences.length, wordCount > 0 ? 1 : 0);
+  const tenseUsage = countTenses(words, readability.tensePatterns);
+
+  if (wordCount === 0) {
+    return {
+      language,
+      wordCount: 0,
+      sentenceCount: 0,
+      averageSentenceLength: 0,
+      averageWordLength: 0,
+      lexicalDiversity: 0,
+      frequencyBands: { high: 0, mid: 0, low: 0 },
+      tenseUsage,
+      difficultyScore: 0,
+      estimatedLevel: CEFR_LEVELS[0],
+    };
+  }
+
+  const core = new Set(readability.coreWords);
+  let high = 0;
+  let low = 0;
+  let letters = 0;
+  for (const word of words) {
+    letters += word.length;
+    if (core.has(word)) {
+      high++;
+    } else if (word.length > LONG_WORD_LENGTH) {
+      low++;
+    }
+  }
+
+  const frequencyBands = {
+    high: high / wordCount,
+    mid: (wordCount - high - low) / wordCount,
+    low: low / wordCount,
+  };
+  const averageSentenceLength = wordCount / sentenceCount;
+  const complexTenses = tenseUsage.subjunctive + tenseUsage.conditional + tenseUsage.perfect;
+
+  const difficultyScore =
+    WEIGHTS.sentenceLength * scale(averageSentenceLength, SENTENCE_LENGTH_RANGE) +
+    WEIGHTS.lowFrequency * scale(frequencyBands.low, LOW_FREQUENCY_RANGE) +
+    WEIGHTS.nonCore * scale(1 - frequencyBands.high, NON_CORE_RANGE) +
+    WEIGHTS.complexTenses * scale(complexTenses / sentenceCount, COMPLEX_TENSE_RANGE);
+
+  return {
+    language,
+    wordCount,
+    sentenceCount,
+    averageSentenceLength: round(averageSentenceLength, 1),
+    averageWordLength: round(letters / wordCount, 1),
+    lexicalDiversity: round(new Set(words).size / wordCount),
+    frequencyBands: {
+      high: round(frequencyBands.high),
+      mid: round(frequencyBands.mid),
+      low: round(frequencyBands.low),
+    },
+    tenseUsage,
+    difficultyScore: round(difficultyScore, 3),
+    estimatedLevel:
+      CEFR_LEVELS[
+        Math.min(Math.floor(difficultyScore * CEFR_LEVELS.length), CEFR_LEVELS.length - 1)
+      ],
+  };
+}
+
+/**
+ * Compare an analysis with the requested level; `tolerance` is how many CEFR
+ * steps away still counts as on target
+ */
+export function checkCEFRTarget(
+  analysis: TextDifficultyAnalysis,
+  target: CEFRLevel,
+  tolerance = 1
+): CEFRTargetCheck {
+  const difference = cefrIndex(analysis.estimatedLevel) - cefrIndex(target);
+  return {
+    target,
+    estimated: analysis.estimatedLevel,
+    difference,
+    meetsTarget: Math.abs(difference) <= tolerance,
+  };
+}
+
+/**
+ * Feedback appended to the prompt when a regenerated text is needed
+ */
+export function describeCEFRMiss(check: CEFRTargetCheck, analysis: TextDifficultyAnalysis): string {
+  const direction =
+    check.difference > 0
+      ? 'too difficult. Use shorter sentences, more common words and simpler tenses'
+      : 'too simple. Use longer, more varied sentences, richer vocabulary and a wider range of tenses';
+
+  return `The previous version read as CEFR ${check.estimated} (average sentence length ${analysis.averageSentenceLength} words), which is ${direction} so it matches ${check.target}.`;
+}
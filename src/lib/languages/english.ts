@@ -0,0 +1,181 @@
+/**
+ * English language definition
+ */
+
+import { DEFAULT_CEFR_TARGETS } from './cefr';
+import type { LanguageDefinition } from './types';
+
+export const english: LanguageDefinition = {
+  code: 'en',
+  key: 'english',
+  name: 'English',
+  nativeName: 'English',
+  locale: 'en-US',
+  prompts: {
+    system: {
+      narrativo:
+        'You are an expert creative storyteller in English. Your task is to describe images as if they were part of fascinating stories, using vivid, evocative language rich in sensory details. Focus on creating atmosphere and telling a visual story that captivates the reader.',
+      poetico:
+        'You are an expert visual poet in English. Describe images with sublime poetic language, using elaborate metaphors, elegant similes, and figurative language. Capture the emotional essence, aesthetic beauty, and deep meaning of what you observe.',
+      academico:
+        'You are an expert academic visual analyst in English. Provide objective, detailed, and structured descriptions of images, meticulously analyzing composition, technical elements, cultural context, symbolism, and historical or social significance.',
+      conversacional:
+        'You are a close English-speaking friend describing an image. Use a casual, accessible, and natural tone, as if you were sharing what you see with someone you trust. Be enthusiastic, genuine, and use everyday expressions.',
+      infantil:
+        'You are a magical storyteller for English-speaking children. Describe images in a fun, simple, and enchanting way, using words that children can easily understand. Make it magical, exciting, and full of wonder, as if each image were a special adventure.',
+      creativo:
+        'You are an expert creative visual artist in English. Describe images from unique and unexpected perspectives, exploring hidden meanings, unusual connections, and imaginative possibilities. Be innovative, original, and surprising in your descriptions.',
+      tecnico:
+        'You are an expert technical visual analyst in English. Provide precise and technical descriptions of images, focusing on aspects like lighting, composition, perspective, photographic technique, exposure values, and specific technical characteristics.',
+    },
+    defaultSystem:
+      'You are an expert at describing images in English in a detailed, precise, and engaging way.',
+    vision: {
+      narrativo: `LOOK CAREFULLY AT THIS IMAGE and write a detailed narrative description.
+
+Visually analyze: What people, objects, places, or actions do you see? What colors dominate? How is the lighting? What emotions does the scene convey?
+
+Write as if it were the beginning of a captivating story. Describe specifically what you SEE: the concrete visual details, the atmosphere the image creates, the textures, gestures, expressions. Use action verbs and sensory adjectives to create an immersive narrative that transports the reader to this specific scene.`,
+      poetico: `CONTEMPLATE THIS IMAGE as a poet and create a deep lyrical description.
+
+Observe carefully: What beauty do you find in the details? What symbolism do the visual elements suggest? What emotions does each color, each shape, each light and shadow evoke?
+
+Transform what you SEE into poetry: use elaborate metaphors to describe the specific colors, elegant similes for the shapes you observe, personification for objects. Capture the emotional essence of THIS particular image, its unique tones, its composition, its visual soul.`,
+      academico: `EXAMINE THIS IMAGE analytically and provide a complete academic analysis.
+
+Study systematically: What is the composition (rule of thirds, symmetry, leading lines)? What lighting techniques are used? What visual elements are the main focus? What cultural or historical context does it suggest?
+
+Objectively describe each element you OBSERVE: the specific color palette, the perspective used, the visual balance, the focal points, the relationships between elements. Analyze the potential meaning and message this particular image communicates.`,
+      conversacional: `LOOK AT THIS IMAGE! Describe it as if you were telling a close friend.
+
+Notice carefully: What first catches your attention? What curious or interesting details do you notice? What does it make you feel or think?
+
+Tell me naturally and enthusiastically what you SEE: "Hey, look at this...!" Use casual expressions, share your personal impressions about the colors, the people, the specific objects. Be genuine and descriptive, as if you were sharing something that impressed you.`,
+      infantil: `LOOK AT THIS MAGICAL IMAGE! Describe it as if you were telling a story to a young child.
+
+Observe with a child's eyes: What bright colors do you see? What fun shapes are there? Who or what appears in the image? What might be happening?
+
+Tell what you SEE in a magical and exciting way: "Look! Do you see that...?" Use simple but expressive words. Point out the pretty colors, the curious shapes, the characters or animals. Make it full of wonder and fun, as if each detail were a special discovery.`,
+      creativo: `OBSERVE THIS IMAGE from a unique perspective and offer an imaginative description.
+
+Look beyond the obvious: What hidden story could these elements tell? What unexpected connections can you make? What alternative meanings do the colors, shapes, composition suggest?
+
+Describe what you SEE in an innovative way: find the extraordinary in ordinary details, imagine stories behind each visual element, create surprising connections between what you observe. Invite the reader to see this image in a completely new way.`,
+      tecnico: `ANALYZE THIS IMAGE technically as a photography or visual arts expert.
+
+Evaluate professionally: How is the exposure? What type of lighting is used (natural, artificial, hard, soft)? What is the depth of field? What angle and perspective are employed? How is the white balance and color saturation?
+
+Describe with technical precision what you OBSERVE: the specific composition, lighting characteristics, tonal range, focus, contrast values. Include observations about photographic or artistic technique that this particular image demonstrates.`,
+    },
+    visionConstraints: maxLength =>
+      `IMPORTANT: Base your description ONLY on what you can SEE in this specific image. Write approximately ${maxLength} words in flowing paragraphs. Do NOT include titles, headings, or lists. Only rich, expressive descriptive text.`,
+    educational: {
+      narrativo: `As a Spanish teacher, create an educational narrative description of this image for English-speaking Spanish learners.
+    
+    Include:
+    • Clear structure with beginning, middle, and end
+    • Spanish vocabulary with context clues
+    • Cultural references when relevant
+    • Variety of verb tenses
+    • Descriptive adjectives
+    • Common Spanish expressions with translations`,
+      poetico: `Create a poetic description for Spanish language learners:
+    • Simple metaphors and similes
+    • Sensory language
+    • Emotional vocabulary
+    • Rhythmic flow
+    • Accessible literary devices`,
+      academico: `Provide an academic analysis for advanced Spanish students:
+    • Formal vocabulary
+    • Complex grammar structures
+    • Cultural context
+    • Objective tone
+    • Academic discourse markers`,
+      conversacional: `Describe the image conversationally for Spanish conversation practice:
+    • Natural expressions
+    • Colloquialisms
+    • Personal opinions
+    • Interactive questions
+    • Casual tone`,
+      infantil: `Create a fun description for young Spanish learners:
+    • Simple vocabulary
+    • Repetition for reinforcement
+    • Interactive elements
+    • Playful comparisons
+    • Imaginative story`,
+    },
+    qa: `Generate educational Q&A pairs for Spanish learners based on this description.
+  
+  MANDATORY RESPONSE FORMAT:
+  Respond ONLY with a valid JSON array. NO explanations or additional text.
+  
+  EXACT STRUCTURE REQUIRED:
+  [
+    {
+      "question": "question text",
+      "answer": "answer text", 
+      "difficulty": "facil" | "medio" | "dificil",
+      "category": "question category"
+    }
+  ]
+  
+  Create exactly 5 question-answer pairs:
+  • 2 EASY (difficulty: "facil"): Direct information
+  • 2 MEDIUM (difficulty: "medio"): Comprehension
+  • 1 HARD (difficulty: "dificil"): Analysis and opinion
+  
+  Valid categories: "Vocabulario", "Gramática", "Cultura", "Comprensión", "Expresión"
+  
+  Include various question types and provide complete, educational answers.`,
+    phrases: `Extract and categorize educational vocabulary for Spanish learners from this description.
+  
+  MANDATORY RESPONSE FORMAT:
+  Respond ONLY with a valid JSON object. NO explanations or additional text.
+  
+  EXACT STRUCTURE REQUIRED:
+  {
+    "objetos": ["word1", "word2", "word3"],
+    "acciones": ["action1", "action2", "action3"],
+    "lugares": ["place1", "place2", "place3"],
+    "colores": ["color1", "color2", "color3"],
+    "emociones": ["emotion1", "emotion2"],
+    "conceptos": ["concept1", "concept2"]
+  }
+  
+  Extract relevant Spanish vocabulary categorized appropriately.
+  Each array should have 1-8 items. All words must be in Spanish.`,
+  },
+  cefrTargets: DEFAULT_CEFR_TARGETS,
+  phraseCategories: {
+    sustantivos: { displayName: 'Nouns', partOfSpeech: 'noun' },
+    verbos: { displayName: 'Verbs', partOfSpeech: 'verb' },
+    adjetivos: { displayName: 'Adjectives', partOfSpeech: 'adjective' },
+    adverbios: { displayName: 'Adverbs', partOfSpeech: 'adverb' },
+    frasesClaves: { displayName: 'Key Phrases', partOfSpeech: 'key phrase' },
+  },
+  readability: {
+    coreWords: [
+      'the', 'a', 'an', 'and', 'or', 'but', 'of', 'to', 'in', 'on', 'at', 'for', 'with', 'from',
+      'by', 'up', 'down', 'out', 'over', 'under', 'is', 'are', 'was', 'were', 'be', 'been', 'am',
+      'have', 'has', 'had', 'do', 'does', 'did', 'can', 'will', 'go', 'goes', 'see', 'sees',
+      'look', 'looks', 'make', 'get', 'take', 'come', 'i', 'you', 'he', 'she', 'it', 'we', 'they',
+      'me', 'him', 'her', 'us', 'them', 'my', 'your', 'his', 'its', 'our', 'their', 'this',
+      'that', 'these', 'those', 'there', 'here', 'what', 'who', 'where', 'when', 'how', 'not',
+      'no', 'yes', 'very', 'more', 'some', 'all', 'many', 'much', 'one', 'two', 'three', 'big',
+      'small', 'good', 'new', 'old', 'day', 'house', 'man', 'woman', 'child', 'people', 'water',
+      'sun', 'sky', 'tree', 'street', 'city', 'color', 'blue', 'red', 'green', 'white', 'black',
+      'yellow', 'light', 'time', 'life', 'world', 'thing', 'place', 'dog', 'cat', 'table', 'hand',
+      'eyes', 'because', 'if', 'so', 'well', 'now', 'today', 'always', 'also', 'like', 'just',
+    ],
+    tensePatterns: {
+      past: [/^\p{L}+ed$/u, /^(was|were|went|saw|came|took|made|had|did)$/],
+      future: [/^(will|shall) \p{L}+$/u, /^going to$/],
+      conditional: [/^(would|could|might) \p{L}+$/u],
+      subjunctive: [/^(if|wish) \p{L}+ were$/u, /^if were$/],
+      perfect: [/^(has|have|had) \p{L}+(ed|en|wn)$/u, /^(has|have|had) been$/],
+    },
+  },
+  fallbackDescription:
+    'A captivating image that tells a unique story through its visual elements.',
+  qaExample: { question: 'What is described in the image?', answer: 'The image shows...' },
+};
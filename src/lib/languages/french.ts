@@ -0,0 +1,217 @@
+/**
+ * French language definition
+ */
+
+import { DEFAULT_CEFR_TARGETS, formatCEFRTarget } from './cefr';
+import type { LanguageDefinition } from './types';
+
+const levels = {
+  narrativo: formatCEFRTarget(DEFAULT_CEFR_TARGETS.narrativo),
+  poetico: formatCEFRTarget(DEFAULT_CEFR_TARGETS.poetico),
+  academico: formatCEFRTarget(DEFAULT_CEFR_TARGETS.academico),
+  conversacional: formatCEFRTarget(DEFAULT_CEFR_TARGETS.conversacional),
+  infantil: formatCEFRTarget(DEFAULT_CEFR_TARGETS.infantil),
+};
+
+export const french: LanguageDefinition = {
+  code: 'fr',
+  key: 'french',
+  name: 'French',
+  nativeName: 'Français',
+  locale: 'fr-FR',
+  prompts: {
+    system: {
+      narrativo:
+        'Tu es un conteur créatif expert de la langue française. Ta tâche est de décrire des images comme si elles faisaient partie d’histoires fascinantes, avec un langage vivant, évocateur et riche en détails sensoriels. Crée une atmosphère et raconte une histoire visuelle qui captive le lecteur.',
+      poetico:
+        'Tu es un poète visuel expert de la langue française. Décris les images avec un langage poétique, des métaphores travaillées, des comparaisons élégantes et un langage figuré. Saisis l’essence émotionnelle, la beauté esthétique et le sens profond de ce que tu observes.',
+      academico:
+        'Tu es un analyste visuel universitaire expert de la langue française. Fournis des descriptions objectives, détaillées et structurées, en analysant la composition, les éléments techniques, le contexte culturel, le symbolisme et la portée historique ou sociale.',
+      conversacional:
+        'Tu es un ami francophone proche qui décrit une image. Adopte un ton décontracté, accessible et naturel, comme si tu partageais ce que tu vois avec quelqu’un de confiance. Sois enthousiaste, sincère et utilise des expressions du français de tous les jours.',
+      infantil:
+        'Tu es un conteur magique pour les enfants francophones. Décris les images de façon amusante, simple et enchanteresse, avec des mots que les enfants comprennent facilement. Rends chaque image magique, excitante et pleine d’émerveillement, comme une aventure spéciale.',
+      creativo:
+        'Tu es un artiste visuel créatif expert de la langue française. Décris les images sous des angles uniques et inattendus, en explorant des sens cachés, des liens insolites et des possibilités imaginatives. Sois innovant, original et surprenant.',
+      tecnico:
+        'Tu es un expert technique en analyse visuelle de langue française. Fournis des descriptions précises et techniques, centrées sur l’éclairage, la composition, la perspective, la technique photographique, l’exposition et les caractéristiques techniques spécifiques.',
+    },
+    defaultSystem:
+      'Tu es un expert dans la description d’images en français, de manière détaillée, précise et attrayante.',
+    vision: {
+      narrativo: `REGARDE ATTENTIVEMENT CETTE IMAGE et écris une description narrative détaillée.
+
+Analyse visuellement : quelles personnes, quels objets, lieux ou actions vois-tu ? Quelles couleurs dominent ? Comment est la lumière ? Quelles émotions la scène transmet-elle ?
+
+Écris comme si c’était le début d’une histoire captivante. Décris précisément ce que tu VOIS : les détails concrets, l’atmosphère, les textures, les gestes, les expressions. Utilise des verbes d’action et des adjectifs sensoriels pour transporter le lecteur dans cette scène.`,
+      poetico: `CONTEMPLE CETTE IMAGE en poète et crée une description lyrique profonde.
+
+Observe avec attention : quelle beauté trouves-tu dans les détails ? Quel symbolisme suggèrent les éléments visuels ? Quelles émotions éveillent chaque couleur, chaque forme, chaque jeu d’ombre et de lumière ?
+
+Transforme ce que tu VOIS en poésie : des métaphores pour les couleurs, des comparaisons élégantes pour les formes, de la personnification pour les objets. Saisis l’âme visuelle de CETTE image en particulier.`,
+      academico: `EXAMINE CETTE IMAGE de manière analytique et propose une analyse universitaire complète.
+
+Étudie systématiquement : quelle est la composition (règle des tiers, symétrie, lignes directrices) ? Quelles techniques d’éclairage sont utilisées ? Quels éléments constituent le point focal ? Quel contexte culturel ou historique suggère-t-elle ?
+
+Décris objectivement chaque élément que tu OBSERVES : la palette de couleurs, la perspective, l’équilibre visuel, les relations entre les éléments. Analyse le sens et le message que communique cette image.`,
+      conversacional: `REGARDE CETTE IMAGE ! Décris-la comme si tu la racontais à un ami proche.
+
+Fais attention : qu’est-ce qui attire ton regard en premier ? Quels détails curieux remarques-tu ? Qu’est-ce que ça te fait ressentir ?
+
+Raconte naturellement et avec enthousiasme ce que tu VOIS : « Eh, regarde ça… ! » Utilise des expressions familières et partage tes impressions sur les couleurs, les personnes et les objets.`,
+      infantil: `REGARDE CETTE IMAGE MAGIQUE ! Décris-la comme si tu racontais une histoire à un jeune enfant.
+
+Observe avec des yeux d’enfant : quelles couleurs vives vois-tu ? Quelles formes amusantes ? Qui ou quoi apparaît dans l’image ? Que pourrait-il se passer ?
+
+Raconte ce que tu VOIS de façon magique : « Regarde ! Tu vois ce… ? » Utilise des mots simples mais expressifs, et fais de chaque détail une découverte spéciale.`,
+      creativo: `OBSERVE CETTE IMAGE sous un angle unique et propose une description imaginative.
+
+Regarde au-delà de l’évidence : quelle histoire cachée ces éléments pourraient-ils raconter ? Quels liens inattendus peux-tu faire ?
+
+Décris ce que tu VOIS de façon innovante : trouve l’extraordinaire dans l’ordinaire et invite le lecteur à voir cette image d’un œil nouveau.`,
+      tecnico: `ANALYSE CETTE IMAGE techniquement, comme un expert en photographie ou en arts visuels.
+
+Évalue professionnellement : comment est l’exposition ? Quel type d’éclairage est utilisé ? Quelle est la profondeur de champ ? Quel angle et quelle perspective ? Comment sont la balance des blancs et la saturation ?
+
+Décris avec précision technique ce que tu OBSERVES : la composition, la lumière, la gamme tonale, la mise au point et les contrastes.`,
+    },
+    visionConstraints: maxLength =>
+      `IMPORTANT : Base ta description UNIQUEMENT sur ce que tu peux VOIR dans cette image. Écris environ ${maxLength} mots en paragraphes fluides. N’inclus NI titres, NI intertitres, NI listes. Uniquement un texte descriptif riche et expressif, entièrement en français.`,
+    educational: {
+      narrativo: `En tant que professeur de français, crée une description narrative pédagogique de cette image.
+
+    STRUCTURE OBLIGATOIRE :
+    1. CONTEXTE GÉNÉRAL (2-3 phrases) : première impression, lieu principal
+    2. DÉTAILS PRÉCIS (3-4 phrases) : couleurs, formes, personnes et objets présents
+    3. ATMOSPHÈRE ET RÉFLEXION (2-3 phrases) : émotions, histoire possible, question ouverte
+
+    EXIGENCES LINGUISTIQUES :
+    • Vocabulaire de niveau ${levels.narrativo}
+    • Au moins 5 adjectifs descriptifs variés
+    • 3-4 expressions idiomatiques courantes
+    • Connecteurs (pendant que, de plus, en revanche, cependant, pourtant)
+    • Présent, passé composé et imparfait
+    • Au moins une phrase au subjonctif`,
+      poetico: `En tant que professeur de littérature française, crée une description poétique pédagogique de cette image.
+
+    ÉLÉMENTS POÉTIQUES REQUIS :
+    • 3 métaphores ou comparaisons accessibles (comme, on dirait, rappelle)
+    • 3 références sensorielles différentes
+    • Vocabulaire émotionnel et évocateur (niveau ${levels.poetico})
+    • 2-3 figures de style simples : personnification, hyperbole, allitération
+
+    Garde l’équilibre entre beauté poétique et clarté pour les apprenants de français.`,
+      academico: `En tant que professeur d’université, propose une analyse académique de cette image pour des étudiants avancés de français (${levels.academico}).
+
+    STRUCTURE DE L’ANALYSE :
+    1. DESCRIPTION OBJECTIVE : composition, couleurs, lumière, technique
+    2. CONTEXTE CULTUREL : références francophones possibles, époque suggérée
+    3. INTERPRÉTATION : sens dénotatif et connotatif, symbolisme
+    4. VALEUR PÉDAGOGIQUE : thèmes de conversation, vocabulaire spécifique
+
+    EXIGENCES LINGUISTIQUES :
+    • Vocabulaire académique soutenu
+    • Subjonctif dans les contextes appropriés
+    • Connecteurs : néanmoins, par ailleurs, par conséquent, il convient de souligner
+    • Voix passive et tournures impersonnelles`,
+      conversacional: `En tant qu’ami francophone natif, décris cette image de façon naturelle et familière pour pratiquer le français oral (niveau ${levels.conversacional}).
+
+    ÉLÉMENTS OBLIGATOIRES :
+    • Accroche : « Eh, regarde ça ! » / « Tu sais quoi ? »
+    • Interjections et mots de remplissage : bah, ben, genre, enfin, tu vois
+    • 4-5 expressions familières : c’est du gâteau, avoir la tête dans les nuages, être comme un poisson dans l’eau
+    • Opinions personnelles : « Je trouve que… » / « À mon avis… »
+    • Fin interactive : « Et toi, t’en penses quoi ? »`,
+      infantil: `En tant qu’enseignant de français pour enfants, crée une description magique et pédagogique pour de jeunes élèves (8-12 ans, niveau ${levels.infantil}).
+
+    STRUCTURE D’AVENTURE :
+    1. Ouverture : « Waouh ! Regardez cette image géniale ! »
+    2. Description magique : vocabulaire de base + 3-4 mots nouveaux expliqués en contexte
+    3. Mini-histoire avec un personnage à suivre
+
+    ÉLÉMENTS PÉDAGOGIQUES :
+    • Répéter le vocabulaire clé (au moins 3 fois)
+    • Couleurs et nombres à compter
+    • Questions : « Combien de… ? » / « De quelle couleur est… ? »
+    • Onomatopées : Boum ! Plouf ! Vroum !`,
+    },
+    qa: `En tant que professeur de français, génère des questions et réponses pédagogiques à partir de cette description.
+
+  FORMAT DE RÉPONSE OBLIGATOIRE :
+  Réponds UNIQUEMENT avec un tableau JSON valide. AUCUNE explication ni texte supplémentaire.
+
+  STRUCTURE EXACTE :
+  [
+    {
+      "question": "texte de la question",
+      "answer": "texte de la réponse",
+      "difficulty": "facil" | "medio" | "dificil",
+      "category": "catégorie de la question"
+    }
+  ]
+
+  CRÉE EXACTEMENT 5 PAIRES QUESTION-RÉPONSE :
+  • 2 FACILES (difficulty: "facil") : information directe, vocabulaire de base
+  • 2 MOYENNES (difficulty: "medio") : compréhension, inférences simples
+  • 1 DIFFICILE (difficulty: "dificil") : analyse, opinion, hypothèse
+
+  CATÉGORIES VALIDES (category) : "Vocabulario", "Gramática", "Cultura", "Comprensión", "Expresión"
+
+  Toutes les questions et réponses doivent être en français.`,
+    phrases: `En tant que professeur de français, extrais et classe le vocabulaire pédagogique de cette description.
+
+  FORMAT DE RÉPONSE OBLIGATOIRE :
+  Réponds UNIQUEMENT avec un objet JSON valide. AUCUNE explication ni texte supplémentaire.
+
+  STRUCTURE EXACTE (garde ces clés telles quelles) :
+  {
+    "objetos": ["mot1", "mot2", "mot3"],
+    "acciones": ["action1", "action2", "action3"],
+    "lugares": ["lieu1", "lieu2", "lieu3"],
+    "colores": ["couleur1", "couleur2", "couleur3"],
+    "emociones": ["émotion1", "émotion2"],
+    "conceptos": ["concept1", "concept2"]
+  }
+
+  RÈGLES :
+  • Tous les mots doivent être en français
+  • Noms sans article, verbes à l’infinitif
+  • Chaque tableau contient entre 1 et 8 éléments`,
+  },
+  cefrTargets: DEFAULT_CEFR_TARGETS,
+  phraseCategories: {
+    sustantivos: { displayName: 'Noms (Nouns)', partOfSpeech: 'nom' },
+    verbos: { displayName: 'Verbes (Verbs)', partOfSpeech: 'verbe' },
+    adjetivos: { displayName: 'Adjectifs (Adjectives)', partOfSpeech: 'adjectif' },
+    adverbios: { displayName: 'Adverbes (Adverbs)', partOfSpeech: 'adverbe' },
+    frasesClaves: { displayName: 'Expressions clés (Key Phrases)', partOfSpeech: 'expression clé' },
+  },
+  readability: {
+    coreWords: [
+      'le', 'la', 'les', 'un', 'une', 'des', 'de', 'du', 'au', 'aux', 'à', 'en', 'et', 'ou',
+      'mais', 'que', 'qui', 'avec', 'pour', 'par', 'sans', 'sur', 'sous', 'dans', 'entre',
+      'comme', 'très', 'plus', 'moins', 'ne', 'pas', 'oui', 'non', 'aussi', 'ici', 'là', 'il',
+      'elle', 'ils', 'elles', 'je', 'tu', 'nous', 'vous', 'on', 'se', 'son', 'sa', 'ses', 'mon',
+      'ma', 'mes', 'ton', 'ta', 'leur', 'leurs', 'ce', 'cet', 'cette', 'ces', 'est', 'sont',
+      'être', 'avoir', 'a', 'ont', 'fait', 'faire', 'va', 'aller', 'voir', 'voit', 'peut',
+      'pouvoir', 'dire', 'vouloir', 'autre', 'tout', 'toute', 'tous', 'toutes', 'beaucoup',
+      'peu', 'grand', 'grande', 'petit', 'petite', 'bon', 'bonne', 'nouveau', 'jour', 'maison',
+      'homme', 'femme', 'enfant', 'enfants', 'gens', 'eau', 'soleil', 'ciel', 'arbre', 'rue',
+      'ville', 'couleur', 'bleu', 'rouge', 'vert', 'blanc', 'noir', 'jaune', 'lumière', 'temps',
+      'vie', 'monde', 'chose', 'lieu', 'chien', 'chat', 'table', 'main', 'yeux', 'quand', 'où',
+      'parce', 'si', 'bien', 'mal', 'aujourd', 'hui', 'maintenant', 'toujours', 'deux', 'trois', 'y',
+      // Elided forms split off at the apostrophe (l'eau, qu'il)
+      'l', 'd', 'j', 'n', 's', 'c', 'm', 't', 'qu',
+    ],
+    tensePatterns: {
+      past: [/^\p{L}+(ait|aient|ais|âmes|èrent)$/u],
+      future: [/^\p{L}+(erai|eras|era|erons|erez|eront|irai|iras|ira|irons|iront)$/u, /^(sera|seront|aura|auront|fera|pourra|viendra)$/],
+      conditional: [/^\p{L}+(rais|rait|rions|riez|raient)$/u],
+      subjunctive: [/^(soit|soient|sois|ait|aient|fasse|fassent|puisse|puissent|aille|veuille|sache)$/],
+      perfect: [/^(ai|as|a|avons|avez|ont|avait|avaient|suis|es|est|sommes|êtes|sont) \p{L}+(é|ée|és|ées|i|is|it|u|ue|us)$/u],
+    },
+  },
+  fallbackDescription:
+    'Une image captivante qui raconte une histoire unique à travers ses éléments visuels.',
+  qaExample: { question: 'Que décrit-on dans l’image ?', answer: 'On décrit...' },
+};
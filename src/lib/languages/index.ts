@@ -0,0 +1,10 @@
+/**
+ * Supported languages - registry of prompt templates, CEFR targets and
+ * phrase categories per language
+ */
+
+export * from './types';
+export * from './cefr';
+export * from './registry';
+export * from './difficulty';
+export * from './variants';
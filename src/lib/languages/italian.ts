@@ -0,0 +1,221 @@
+/**
+ * Italian language definition
+ */
+
+import { DEFAULT_CEFR_TARGETS, formatCEFRTarget } from './cefr';
+import type { LanguageDefinition } from './types';
+
+const levels = {
+  narrativo: formatCEFRTarget(DEFAULT_CEFR_TARGETS.narrativo),
+  poetico: formatCEFRTarget(DEFAULT_CEFR_TARGETS.poetico),
+  academico: formatCEFRTarget(DEFAULT_CEFR_TARGETS.academico),
+  conversacional: formatCEFRTarget(DEFAULT_CEFR_TARGETS.conversacional),
+  infantil: formatCEFRTarget(DEFAULT_CEFR_TARGETS.infantil),
+};
+
+export const italian: LanguageDefinition = {
+  code: 'it',
+  key: 'italian',
+  name: 'Italian',
+  nativeName: 'Italiano',
+  locale: 'it-IT',
+  prompts: {
+    system: {
+      narrativo:
+        'Sei un narratore creativo esperto di lingua italiana. Il tuo compito è descrivere immagini come se facessero parte di storie affascinanti, con un linguaggio vivido, evocativo e ricco di dettagli sensoriali. Crea atmosfera e racconta una storia visiva che catturi il lettore.',
+      poetico:
+        'Sei un poeta visivo esperto di lingua italiana. Descrivi le immagini con un linguaggio poetico, metafore elaborate, similitudini eleganti e linguaggio figurato. Cogli l’essenza emotiva, la bellezza estetica e il significato profondo di ciò che osservi.',
+      academico:
+        'Sei un analista visivo accademico esperto di lingua italiana. Fornisci descrizioni oggettive, dettagliate e strutturate, analizzando la composizione, gli elementi tecnici, il contesto culturale, il simbolismo e il significato storico o sociale.',
+      conversacional:
+        'Sei un amico italiano che descrive un’immagine. Usa un tono informale, accessibile e naturale, come se condividessi ciò che vedi con una persona di fiducia. Sii entusiasta, sincero e usa espressioni dell’italiano di tutti i giorni.',
+      infantil:
+        'Sei un cantastorie magico per bambini italiani. Descrivi le immagini in modo divertente, semplice e incantevole, con parole che i bambini capiscono facilmente. Rendi ogni immagine magica, emozionante e piena di meraviglia, come un’avventura speciale.',
+      creativo:
+        'Sei un artista visivo creativo esperto di lingua italiana. Descrivi le immagini da prospettive uniche e inaspettate, esplorando significati nascosti, collegamenti insoliti e possibilità immaginative. Sii innovativo, originale e sorprendente.',
+      tecnico:
+        'Sei un esperto tecnico di analisi visiva in lingua italiana. Fornisci descrizioni precise e tecniche, concentrandoti su illuminazione, composizione, prospettiva, tecnica fotografica, esposizione e caratteristiche tecniche specifiche.',
+    },
+    defaultSystem:
+      'Sei un esperto nel descrivere immagini in italiano in modo dettagliato, preciso e coinvolgente.',
+    vision: {
+      narrativo: `GUARDA ATTENTAMENTE QUESTA IMMAGINE e scrivi una descrizione narrativa dettagliata.
+
+Analizza visivamente: quali persone, oggetti, luoghi o azioni vedi? Quali colori dominano? Com’è la luce? Quali emozioni trasmette la scena?
+
+Scrivi come se fosse l’inizio di una storia avvincente. Descrivi con precisione ciò che VEDI: i dettagli concreti, l’atmosfera, le texture, i gesti, le espressioni. Usa verbi d’azione e aggettivi sensoriali per portare il lettore dentro questa scena.`,
+      poetico: `CONTEMPLA QUESTA IMMAGINE come un poeta e crea una descrizione lirica profonda.
+
+Osserva con attenzione: quale bellezza trovi nei dettagli? Quale simbolismo suggeriscono gli elementi visivi? Quali emozioni evocano ogni colore, ogni forma, ogni gioco di luce e ombra?
+
+Trasforma ciò che VEDI in poesia: metafore per i colori, similitudini eleganti per le forme, personificazione per gli oggetti. Cogli l’anima visiva di QUESTA immagine in particolare.`,
+      academico: `ESAMINA QUESTA IMMAGINE in modo analitico e offri un’analisi accademica completa.
+
+Studia sistematicamente: qual è la composizione (regola dei terzi, simmetria, linee guida)? Quali tecniche di illuminazione vengono usate? Quali elementi sono il punto focale? Quale contesto culturale o storico suggerisce?
+
+Descrivi oggettivamente ogni elemento che OSSERVI: la tavolozza di colori, la prospettiva, l’equilibrio visivo, le relazioni tra gli elementi. Analizza il significato e il messaggio di questa immagine.`,
+      conversacional: `GUARDA QUESTA IMMAGINE! Descrivila come se la raccontassi a un caro amico.
+
+Fai caso: cosa ti colpisce per primo? Quali dettagli curiosi noti? Cosa ti fa provare?
+
+Racconta in modo naturale ed entusiasta ciò che VEDI: «Ehi, guarda qua…!» Usa espressioni colloquiali e condividi le tue impressioni su colori, persone e oggetti.`,
+      infantil: `GUARDA QUESTA IMMAGINE MAGICA! Descrivila come se raccontassi una fiaba a un bambino piccolo.
+
+Osserva con gli occhi di un bambino: quali colori brillanti vedi? Quali forme buffe? Chi o cosa appare nell’immagine? Cosa potrebbe succedere?
+
+Racconta ciò che VEDI in modo magico: «Guarda! Vedi quel…?» Usa parole semplici ma espressive e trasforma ogni dettaglio in una scoperta speciale.`,
+      creativo: `OSSERVA QUESTA IMMAGINE da una prospettiva unica e offri una descrizione fantasiosa.
+
+Guarda oltre l’ovvio: quale storia nascosta potrebbero raccontare questi elementi? Quali collegamenti inaspettati puoi fare?
+
+Descrivi ciò che VEDI in modo innovativo: trova lo straordinario nell’ordinario e invita il lettore a vedere questa immagine con occhi nuovi.`,
+      tecnico: `ANALIZZA QUESTA IMMAGINE tecnicamente, come un esperto di fotografia o arti visive.
+
+Valuta professionalmente: com’è l’esposizione? Che tipo di illuminazione viene usata? Qual è la profondità di campo? Quale angolazione e prospettiva? Come sono il bilanciamento del bianco e la saturazione?
+
+Descrivi con precisione tecnica ciò che OSSERVI: composizione, luce, gamma tonale, messa a fuoco e contrasto.`,
+    },
+    visionConstraints: maxLength =>
+      `IMPORTANTE: Basa la tua descrizione SOLO su ciò che puoi VEDERE in questa immagine. Scrivi circa ${maxLength} parole in paragrafi scorrevoli. NON includere titoli, intestazioni o elenchi. Solo testo descrittivo ricco ed espressivo, interamente in italiano.`,
+    educational: {
+      narrativo: `Come insegnante di italiano, crea una descrizione narrativa didattica di questa immagine.
+
+    STRUTTURA OBBLIGATORIA:
+    1. CONTESTO GENERALE (2-3 frasi): prima impressione, luogo principale
+    2. DETTAGLI SPECIFICI (3-4 frasi): colori, forme, persone e oggetti presenti
+    3. ATMOSFERA E RIFLESSIONE (2-3 frasi): emozioni, possibile storia, domanda aperta
+
+    REQUISITI LINGUISTICI:
+    • Lessico di livello ${levels.narrativo}
+    • Almeno 5 aggettivi descrittivi diversi
+    • 3-4 espressioni idiomatiche comuni
+    • Connettivi (mentre, inoltre, d’altra parte, tuttavia, eppure)
+    • Presente, passato prossimo e imperfetto
+    • Almeno una frase al congiuntivo`,
+      poetico: `Come insegnante di letteratura italiana, crea una descrizione poetica didattica di questa immagine.
+
+    ELEMENTI POETICI RICHIESTI:
+    • 3 metafore o similitudini accessibili (come, sembra, ricorda)
+    • 3 riferimenti sensoriali diversi
+    • Lessico emotivo ed evocativo (livello ${levels.poetico})
+    • 2-3 figure retoriche semplici: personificazione, iperbole, allitterazione
+
+    Mantieni l’equilibrio tra bellezza poetica e chiarezza per chi studia italiano.`,
+      academico: `Come docente universitario, offri un’analisi accademica di questa immagine per studenti avanzati di italiano (${levels.academico}).
+
+    STRUTTURA DELL’ANALISI:
+    1. DESCRIZIONE OGGETTIVA: composizione, colori, luce, tecnica
+    2. CONTESTO CULTURALE: possibili riferimenti italiani, epoca suggerita
+    3. INTERPRETAZIONE: significato denotativo e connotativo, simbolismo
+    4. VALORE DIDATTICO: temi di conversazione, lessico specifico
+
+    REQUISITI LINGUISTICI:
+    • Lessico accademico formale
+    • Congiuntivo nei contesti appropriati
+    • Connettivi: tuttavia, inoltre, di conseguenza, occorre sottolineare
+    • Forma passiva e si impersonale`,
+      conversacional: `Come un amico italiano madrelingua, descrivi questa immagine in modo naturale e colloquiale per praticare l’italiano parlato (livello ${levels.conversacional}).
+
+    ELEMENTI OBBLIGATORI:
+    • Apertura: «Ehi, guarda qua!» / «Sai una cosa?»
+    • Intercalari: allora, cioè, insomma, dai, tipo
+    • 4-5 espressioni colloquiali: essere un gioco da ragazzi, avere la testa tra le nuvole, stare come un pesce fuor d’acqua
+    • Opinioni personali: «Secondo me…» / «Mi sa che…»
+    • Chiusura interattiva: «E tu che ne pensi?»`,
+      infantil: `Come maestro di italiano per bambini, crea una descrizione magica e didattica per giovani studenti (8-12 anni, livello ${levels.infantil}).
+
+    STRUTTURA D’AVVENTURA:
+    1. Apertura: «Wow! Guardate che immagine fantastica!»
+    2. Descrizione magica: lessico di base + 3-4 parole nuove spiegate nel contesto
+    3. Mini-storia con un personaggio da seguire
+
+    ELEMENTI DIDATTICI:
+    • Ripetere il lessico chiave (almeno 3 volte)
+    • Colori e numeri da contare
+    • Domande: «Quanti… riuscite a contare?» / «Di che colore è…?»
+    • Onomatopee: Bum! Splash! Brum!`,
+    },
+    qa: `Come insegnante di italiano, genera domande e risposte didattiche basate su questa descrizione.
+
+  FORMATO DI RISPOSTA OBBLIGATORIO:
+  Rispondi SOLO con un array JSON valido. NESSUNA spiegazione o testo aggiuntivo.
+
+  STRUTTURA ESATTA:
+  [
+    {
+      "question": "testo della domanda",
+      "answer": "testo della risposta",
+      "difficulty": "facil" | "medio" | "dificil",
+      "category": "categoria della domanda"
+    }
+  ]
+
+  CREA ESATTAMENTE 5 COPPIE DOMANDA-RISPOSTA:
+  • 2 FACILI (difficulty: "facil"): informazioni dirette, lessico di base
+  • 2 MEDIE (difficulty: "medio"): comprensione, inferenze semplici
+  • 1 DIFFICILE (difficulty: "dificil"): analisi, opinione, ipotesi
+
+  CATEGORIE VALIDE (category): "Vocabulario", "Gramática", "Cultura", "Comprensión", "Expresión"
+
+  Tutte le domande e le risposte devono essere in italiano.`,
+    phrases: `Come insegnante di italiano, estrai e classifica il lessico didattico di questa descrizione.
+
+  FORMATO DI RISPOSTA OBBLIGATORIO:
+  Rispondi SOLO con un oggetto JSON valido. NESSUNA spiegazione o testo aggiuntivo.
+
+  STRUTTURA ESATTA (mantieni queste chiavi così come sono):
+  {
+    "objetos": ["parola1", "parola2", "parola3"],
+    "acciones": ["azione1", "azione2", "azione3"],
+    "lugares": ["luogo1", "luogo2", "luogo3"],
+    "colores": ["colore1", "colore2", "colore3"],
+    "emociones": ["emozione1", "emozione2"],
+    "conceptos": ["concetto1", "concetto2"]
+  }
+
+  REGOLE:
+  • Tutte le parole devono essere in italiano
+  • Sostantivi senza articolo, verbi all’infinito
+  • Ogni array contiene da 1 a 8 elementi`,
+  },
+  cefrTargets: DEFAULT_CEFR_TARGETS,
+  phraseCategories: {
+    sustantivos: { displayName: 'Sostantivi (Nouns)', partOfSpeech: 'sostantivo' },
+    verbos: { displayName: 'Verbi (Verbs)', partOfSpeech: 'verbo' },
+    adjetivos: { displayName: 'Aggettivi (Adjectives)', partOfSpeech: 'aggettivo' },
+    adverbios: { displayName: 'Avverbi (Adverbs)', partOfSpeech: 'avverbio' },
+    frasesClaves: { displayName: 'Frasi chiave (Key Phrases)', partOfSpeech: 'frase chiave' },
+  },
+  readability: {
+    coreWords: [
+      'il', 'lo', 'la', 'i', 'gli', 'le', 'un', 'uno', 'una', 'di', 'del', 'della', 'dei', 'a',
+      'al', 'alla', 'in', 'nel', 'nella', 'e', 'o', 'ma', 'che', 'con', 'per', 'da', 'dal',
+      'su', 'sul', 'tra', 'fra', 'come', 'molto', 'più', 'meno', 'non', 'sì', 'no', 'anche',
+      'qui', 'lì', 'c', 'è', 'sono', 'essere', 'avere', 'ha', 'hanno', 'fare', 'fa', 'andare',
+      'va', 'vedere', 'vede', 'potere', 'può', 'dire', 'volere', 'io', 'tu', 'lui', 'lei', 'noi',
+      'voi', 'loro', 'si', 'suo', 'sua', 'suoi', 'mio', 'mia', 'tuo', 'questo', 'questa',
+      'questi', 'quello', 'quella', 'altro', 'altra', 'tutto', 'tutta', 'tutti', 'poco',
+      'grande', 'piccolo', 'piccola', 'buono', 'buona', 'nuovo', 'giorno', 'casa', 'uomo',
+      'donna', 'bambino', 'bambina', 'gente', 'persone', 'acqua', 'sole', 'cielo', 'albero',
+      'strada', 'città', 'colore', 'blu', 'azzurro', 'rosso', 'verde', 'bianco', 'nero',
+      'giallo', 'luce', 'tempo', 'vita', 'mondo', 'cosa', 'posto', 'cane', 'gatto', 'tavolo',
+      'mano', 'occhi', 'quando', 'dove', 'perché', 'se', 'bene', 'male', 'oggi', 'ora',
+      'sempre', 'due', 'tre',
+      // Elided forms split off at the apostrophe (l'acqua, c'è)
+      'l', 'dell', 'all', 'nell', 'sull', 'quest', 'quell',
+    ],
+    tensePatterns: {
+      past: [/^\p{L}+(ava|avano|eva|evano|iva|ivano|ò|ì|arono|erono|irono)$/u],
+      future: [/^\p{L}+(rò|rai|rà|remo|rete|ranno)$/u],
+      conditional: [/^\p{L}+(rei|resti|rebbe|remmo|reste|rebbero)$/u],
+      subjunctive: [
+        /^\p{L}+(asse|assero|esse|essero|isse|issero)$/u,
+        /^(sia|siano|abbia|abbiano|possa|possano|faccia|vada|voglia|sappia)$/,
+      ],
+      perfect: [/^(ho|hai|ha|abbiamo|avete|hanno|aveva|sono|è|siamo|siete|era) \p{L}+(ato|ata|ati|ate|uto|uta|uti|ute|ito|ita|iti|ite)$/u],
+    },
+  },
+  fallbackDescription:
+    'Un’immagine affascinante che racconta una storia unica attraverso i suoi elementi visivi.',
+  qaExample: { question: 'Che cosa viene descritto nell’immagine?', answer: 'Viene descritto...' },
+};
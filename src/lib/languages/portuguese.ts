@@ -0,0 +1,218 @@
+/**
+ * Portuguese language definition
+ */
+
+import { DEFAULT_CEFR_TARGETS, formatCEFRTarget } from './cefr';
+import type { LanguageDefinition } from './types';
+
+const levels = {
+  narrativo: formatCEFRTarget(DEFAULT_CEFR_TARGETS.narrativo),
+  poetico: formatCEFRTarget(DEFAULT_CEFR_TARGETS.poetico),
+  academico: formatCEFRTarget(DEFAULT_CEFR_TARGETS.academico),
+  conversacional: formatCEFRTarget(DEFAULT_CEFR_TARGETS.conversacional),
+  infantil: formatCEFRTarget(DEFAULT_CEFR_TARGETS.infantil),
+};
+
+export const portuguese: LanguageDefinition = {
+  code: 'pt',
+  key: 'portuguese',
+  name: 'Portuguese',
+  nativeName: 'Português',
+  locale: 'pt-BR',
+  prompts: {
+    system: {
+      narrativo:
+        'Você é um narrador criativo especialista em língua portuguesa. Sua tarefa é descrever imagens como se fizessem parte de histórias fascinantes, usando uma linguagem vívida, evocativa e rica em detalhes sensoriais. Crie atmosfera e conte uma história visual que cative o leitor.',
+      poetico:
+        'Você é um poeta visual especialista em língua portuguesa. Descreva imagens com linguagem poética, metáforas elaboradas, comparações elegantes e linguagem figurada. Capture a essência emocional, a beleza estética e o significado profundo do que observa.',
+      academico:
+        'Você é um analista visual acadêmico especialista em língua portuguesa. Forneça descrições objetivas, detalhadas e estruturadas, analisando a composição, os elementos técnicos, o contexto cultural, o simbolismo e o significado histórico ou social.',
+      conversacional:
+        'Você é um amigo lusófono próximo descrevendo uma imagem. Use um tom descontraído, acessível e natural, como se estivesse compartilhando o que vê com alguém de confiança. Seja entusiasmado, sincero e use expressões do português do dia a dia.',
+      infantil:
+        'Você é um contador de histórias mágico para crianças lusófonas. Descreva imagens de forma divertida, simples e encantadora, com palavras que as crianças entendam facilmente. Torne cada imagem mágica, emocionante e cheia de encanto, como uma aventura especial.',
+      creativo:
+        'Você é um artista visual criativo especialista em língua portuguesa. Descreva imagens a partir de perspectivas únicas e inesperadas, explorando significados ocultos, conexões incomuns e possibilidades imaginativas. Seja inovador, original e surpreendente.',
+      tecnico:
+        'Você é um especialista técnico em análise visual em língua portuguesa. Forneça descrições precisas e técnicas, com foco em iluminação, composição, perspectiva, técnica fotográfica, exposição e características técnicas específicas.',
+    },
+    defaultSystem:
+      'Você é especialista em descrever imagens em português de forma detalhada, precisa e envolvente.',
+    vision: {
+      narrativo: `OLHE COM ATENÇÃO PARA ESTA IMAGEM e escreva uma descrição narrativa detalhada.
+
+Analise visualmente: que pessoas, objetos, lugares ou ações você vê? Que cores predominam? Como é a iluminação? Que emoções a cena transmite?
+
+Escreva como se fosse o início de uma história cativante. Descreva especificamente o que você VÊ: os detalhes concretos, a atmosfera, as texturas, os gestos, as expressões. Use verbos de ação e adjetivos sensoriais para transportar o leitor para esta cena.`,
+      poetico: `CONTEMPLE ESTA IMAGEM como um poeta e crie uma descrição lírica profunda.
+
+Observe com atenção: que beleza você encontra nos detalhes? Que simbolismo os elementos visuais sugerem? Que emoções cada cor, cada forma, cada jogo de luz e sombra desperta?
+
+Transforme o que você VÊ em poesia: metáforas para as cores, comparações elegantes para as formas, personificação para os objetos. Capture a alma visual DESTA imagem em particular.`,
+      academico: `EXAMINE ESTA IMAGEM de forma analítica e ofereça uma análise acadêmica completa.
+
+Estude sistematicamente: qual é a composição (regra dos terços, simetria, linhas guia)? Que técnicas de iluminação são usadas? Quais elementos são o ponto focal? Que contexto cultural ou histórico ela sugere?
+
+Descreva objetivamente cada elemento que você OBSERVA: a paleta de cores, a perspectiva, o equilíbrio visual, as relações entre os elementos. Analise o significado e a mensagem desta imagem.`,
+      conversacional: `OLHA SÓ ESTA IMAGEM! Descreva como se estivesse contando para um amigo próximo.
+
+Repare: o que chama sua atenção primeiro? Que detalhes curiosos você nota? O que ela faz você sentir?
+
+Conte de forma natural e entusiasmada o que você VÊ: "Ei, olha só isso...!" Use expressões coloquiais e compartilhe suas impressões sobre as cores, as pessoas e os objetos.`,
+      infantil: `OLHA ESTA IMAGEM MÁGICA! Descreva como se estivesse contando uma história para uma criança pequena.
+
+Observe com olhos de criança: que cores brilhantes você vê? Que formas engraçadas? Quem ou o que aparece na imagem? O que pode estar acontecendo?
+
+Conte o que você VÊ de forma mágica: "Olha! Está vendo aquele...?" Use palavras simples mas expressivas e transforme cada detalhe em uma descoberta especial.`,
+      creativo: `OBSERVE ESTA IMAGEM de uma perspectiva única e ofereça uma descrição imaginativa.
+
+Olhe além do óbvio: que história escondida esses elementos poderiam contar? Que conexões inesperadas você pode fazer?
+
+Descreva o que você VÊ de forma inovadora: encontre o extraordinário no comum e convide o leitor a ver esta imagem com novos olhos.`,
+      tecnico: `ANALISE ESTA IMAGEM tecnicamente, como um especialista em fotografia ou artes visuais.
+
+Avalie profissionalmente: como está a exposição? Que tipo de iluminação é usado? Qual é a profundidade de campo? Que ângulo e perspectiva? Como estão o balanço de branco e a saturação?
+
+Descreva com precisão técnica o que você OBSERVA: composição, luz, gama tonal, foco e contraste.`,
+    },
+    visionConstraints: maxLength =>
+      `IMPORTANTE: Baseie sua descrição APENAS no que você pode VER nesta imagem. Escreva aproximadamente ${maxLength} palavras em parágrafos fluidos. NÃO inclua títulos, cabeçalhos ou listas. Apenas texto descritivo rico e expressivo, inteiramente em português.`,
+    educational: {
+      narrativo: `Como professor de português, crie uma descrição narrativa educativa desta imagem.
+
+    ESTRUTURA OBRIGATÓRIA:
+    1. CONTEXTO GERAL (2-3 frases): primeira impressão, cenário principal
+    2. DETALHES ESPECÍFICOS (3-4 frases): cores, formas, pessoas e objetos presentes
+    3. ATMOSFERA E REFLEXÃO (2-3 frases): emoções, possível história, pergunta aberta
+
+    REQUISITOS LINGUÍSTICOS:
+    • Vocabulário de nível ${levels.narrativo}
+    • Pelo menos 5 adjetivos descritivos variados
+    • 3-4 expressões idiomáticas comuns
+    • Conectores (enquanto, além disso, por outro lado, no entanto, contudo)
+    • Presente, pretérito perfeito e pretérito imperfeito
+    • Pelo menos uma frase no subjuntivo`,
+      poetico: `Como professor de literatura em língua portuguesa, crie uma descrição poética educativa desta imagem.
+
+    ELEMENTOS POÉTICOS OBRIGATÓRIOS:
+    • 3 metáforas ou comparações acessíveis (como, parece, lembra)
+    • 3 referências sensoriais diferentes
+    • Vocabulário emocional e evocativo (nível ${levels.poetico})
+    • 2-3 figuras de linguagem simples: personificação, hipérbole, aliteração
+
+    Mantenha o equilíbrio entre beleza poética e clareza para estudantes de português.`,
+      academico: `Como professor universitário, ofereça uma análise acadêmica desta imagem para estudantes avançados de português (${levels.academico}).
+
+    ESTRUTURA DA ANÁLISE:
+    1. DESCRIÇÃO OBJETIVA: composição, cores, luz, técnica
+    2. CONTEXTO CULTURAL: possíveis referências lusófonas, época sugerida
+    3. INTERPRETAÇÃO: sentido denotativo e conotativo, simbolismo
+    4. VALOR PEDAGÓGICO: temas de conversa, vocabulário específico
+
+    REQUISITOS LINGUÍSTICOS:
+    • Vocabulário acadêmico formal
+    • Subjuntivo e infinitivo pessoal em contextos apropriados
+    • Conectores: não obstante, ademais, por conseguinte, cabe ressaltar
+    • Voz passiva e construções impessoais`,
+      conversacional: `Como um amigo nativo de língua portuguesa, descreva esta imagem de forma natural e coloquial para praticar o português falado (nível ${levels.conversacional}).
+
+    ELEMENTOS OBRIGATÓRIOS:
+    • Abertura: "Ei, olha só isso!" / "Sabe o quê?"
+    • Marcadores de conversa: tipo, então, né, sabe, aí
+    • 4-5 expressões coloquiais: ser moleza, estar nas nuvens, estar como peixe fora d'água
+    • Opiniões pessoais: "Eu acho que..." / "Pra mim..."
+    • Fechamento interativo: "E você, o que acha?"`,
+      infantil: `Como professor de português para crianças, crie uma descrição mágica e educativa para alunos jovens (8-12 anos, nível ${levels.infantil}).
+
+    ESTRUTURA DE AVENTURA:
+    1. Abertura: "Uau! Olhem que imagem incrível!"
+    2. Descrição mágica: vocabulário básico + 3-4 palavras novas explicadas no contexto
+    3. Mini-história com um personagem para acompanhar
+
+    ELEMENTOS EDUCATIVOS:
+    • Repetir o vocabulário-chave (pelo menos 3 vezes)
+    • Cores e números para contar
+    • Perguntas: "Quantos... vocês conseguem contar?" / "De que cor é...?"
+    • Onomatopeias: Bum! Splash! Vrum!`,
+    },
+    qa: `Como professor de português, gere perguntas e respostas educativas com base nesta descrição.
+
+  FORMATO DE RESPOSTA OBRIGATÓRIO:
+  Responda APENAS com um array JSON válido. NENHUMA explicação ou texto adicional.
+
+  ESTRUTURA EXATA:
+  [
+    {
+      "question": "texto da pergunta",
+      "answer": "texto da resposta",
+      "difficulty": "facil" | "medio" | "dificil",
+      "category": "categoria da pergunta"
+    }
+  ]
+
+  CRIE EXATAMENTE 5 PARES DE PERGUNTA E RESPOSTA:
+  • 2 FÁCEIS (difficulty: "facil"): informação direta, vocabulário básico
+  • 2 MÉDIAS (difficulty: "medio"): compreensão, inferências simples
+  • 1 DIFÍCIL (difficulty: "dificil"): análise, opinião, hipótese
+
+  CATEGORIAS VÁLIDAS (category): "Vocabulario", "Gramática", "Cultura", "Comprensión", "Expresión"
+
+  Todas as perguntas e respostas devem estar em português.`,
+    phrases: `Como professor de português, extraia e classifique o vocabulário educativo desta descrição.
+
+  FORMATO DE RESPOSTA OBRIGATÓRIO:
+  Responda APENAS com um objeto JSON válido. NENHUMA explicação ou texto adicional.
+
+  ESTRUTURA EXATA (mantenha estas chaves como estão):
+  {
+    "objetos": ["palavra1", "palavra2", "palavra3"],
+    "acciones": ["ação1", "ação2", "ação3"],
+    "lugares": ["lugar1", "lugar2", "lugar3"],
+    "colores": ["cor1", "cor2", "cor3"],
+    "emociones": ["emoção1", "emoção2"],
+    "conceptos": ["conceito1", "conceito2"]
+  }
+
+  REGRAS:
+  • Todas as palavras devem estar em português
+  • Substantivos sem artigo, verbos no infinitivo
+  • Cada array contém de 1 a 8 itens`,
+  },
+  cefrTargets: DEFAULT_CEFR_TARGETS,
+  phraseCategories: {
+    sustantivos: { displayName: 'Substantivos (Nouns)', partOfSpeech: 'substantivo' },
+    verbos: { displayName: 'Verbos (Verbs)', partOfSpeech: 'verbo' },
+    adjetivos: { displayName: 'Adjetivos (Adjectives)', partOfSpeech: 'adjetivo' },
+    adverbios: { displayName: 'Advérbios (Adverbs)', partOfSpeech: 'advérbio' },
+    frasesClaves: { displayName: 'Frases-chave (Key Phrases)', partOfSpeech: 'frase-chave' },
+  },
+  readability: {
+    coreWords: [
+      'o', 'a', 'os', 'as', 'um', 'uma', 'uns', 'umas', 'de', 'do', 'da', 'dos', 'das', 'em',
+      'no', 'na', 'nos', 'nas', 'ao', 'e', 'ou', 'mas', 'que', 'com', 'por', 'pelo', 'pela',
+      'para', 'sem', 'sobre', 'entre', 'como', 'muito', 'mais', 'menos', 'não', 'sim', 'já',
+      'também', 'aqui', 'ali', 'há', 'é', 'são', 'está', 'estão', 'ser', 'estar', 'ter', 'tem',
+      'fazer', 'faz', 'ir', 'vai', 'ver', 'vê', 'poder', 'pode', 'dizer', 'querer', 'eu',
+      'você', 'ele', 'ela', 'nós', 'eles', 'elas', 'se', 'seu', 'sua', 'seus', 'meu', 'minha',
+      'este', 'esta', 'esse', 'essa', 'isso', 'isto', 'outro', 'outra', 'todo', 'toda', 'todos',
+      'pouco', 'grande', 'pequeno', 'pequena', 'bom', 'boa', 'novo', 'dia', 'casa', 'homem',
+      'mulher', 'criança', 'pessoas', 'gente', 'água', 'sol', 'céu', 'árvore', 'rua', 'cidade',
+      'cor', 'azul', 'vermelho', 'verde', 'branco', 'preto', 'amarelo', 'luz', 'tempo', 'vida',
+      'mundo', 'coisa', 'lugar', 'cachorro', 'gato', 'mesa', 'mão', 'olhos', 'quando', 'onde',
+      'porque', 'bem', 'mal', 'hoje', 'agora', 'sempre', 'dois', 'três',
+    ],
+    tensePatterns: {
+      past: [/^\p{L}+(ava|avam|ávamos|ou|eu|iu|aram|eram|iram)$/u],
+      future: [/^\p{L}+(rei|rás|rá|remos|rão)$/u],
+      conditional: [/^\p{L}+(ria|rias|ríamos|riam)$/u],
+      subjunctive: [
+        /^\p{L}+(asse|assem|ássemos|esse|essem|isse|issem)$/u,
+        /^(seja|sejam|esteja|estejam|tenha|tenham|possa|possam|faça|vá|queira|saiba)$/,
+      ],
+      perfect: [/^(tenho|tem|temos|têm|tinha|tinham|havia|haviam) \p{L}+(ado|ada|ido|ida|to|ta)$/u],
+    },
+  },
+  fallbackDescription:
+    'Uma imagem cativante que conta uma história única por meio de seus elementos visuais.',
+  qaExample: { question: 'O que é descrito na imagem?', answer: 'É descrito...' },
+};
@@ -0,0 +1,123 @@
+/**
+ * Language registry
+ * Single lookup for the per-language prompt templates, CEFR targets and
+ * phrase categories used by description, Q&A and phrase extraction.
+ */
+
+import { english } from './english';
+import { spanish } from './spanish';
+import { french } from './french';
+import { italian } from './italian';
+import { portuguese } from './portuguese';
+import { getVariantInstruction, type SpanishVariantCode } from './variants';
+import {
+  SUPPORTED_LANGUAGES,
+  type CEFRTarget,
+  type LanguageDefinition,
+  type LanguageKey,
+  type PhraseCategory,
+  type PhraseCategoryLabel,
+  type PromptStyle,
+  type SupportedLanguageCode,
+  type TargetLanguageCode,
+} from './types';
+import type { DescriptionStyle } from '@/types/api';
+
+export const LANGUAGE_REGISTRY: Record<SupportedLanguageCode, LanguageDefinition> = {
+  en: english,
+  es: spanish,
+  fr: french,
+  it: italian,
+  pt: portuguese,
+};
+
+export const TARGET_LANGUAGES = SUPPORTED_LANGUAGES.filter(
+  (code): code is TargetLanguageCode => code !== 'en'
+);
+
+export const DEFAULT_TARGET_LANGUAGE: TargetLanguageCode = 'es';
+
+export function isSupportedLanguage(value: unknown): value is SupportedLanguageCode {
+  return typeof value === 'string' && (SUPPORTED_LANGUAGES as readonly string[]).includes(value);
+}
+
+export function isTargetLanguage(value: unknown): value is TargetLanguageCode {
+  return isSupportedLanguage(value) && value !== 'en';
+}
+
+export function getLanguage(code: SupportedLanguageCode): LanguageDefinition {
+  return LANGUAGE_REGISTRY[code];
+}
+
+export function getLanguageByKey(key: LanguageKey): LanguageDefinition | undefined {
+  return Object.values(LANGUAGE_REGISTRY).find(language => language.key === key);
+}
+
+/**
+ * Append the regional variant's instructions to a Spanish prompt; other
+ * languages have no variants and are returned unchanged
+ */
+export function withVariant(
+  code: SupportedLanguageCode,
+  prompt: string,
+  variant?: SpanishVariantCode | null
+): string {
+  return code === 'es' && variant ? `${prompt}\n\n${getVariantInstruction(variant)}` : prompt;
+}
+
+export function getSystemPrompt(
+  code: SupportedLanguageCode,
+  style: PromptStyle,
+  variant?: SpanishVariantCode | null
+): string {
+  const { prompts } = getLanguage(code);
+  return withVariant(code, prompts.system[style] ?? prompts.defaultSystem, variant);
+}
+
+/**
+ * Structured teaching prompt for a description style, in the learner's
+ * regional variant when one is set
+ */
+export function getEducationalPrompt(
+  code: SupportedLanguageCode,
+  style: DescriptionStyle,
+  variant?: SpanishVariantCode | null
+): string {
+  return withVariant(code, getLanguage(code).prompts.educational[style], variant);
+}
+
+/**
+ * Vision user prompt: the style's visual-analysis instructions followed by
+ * the language's length and format constraints
+ */
+export function getVisionPrompt(
+  code: SupportedLanguageCode,
+  style: PromptStyle,
+  maxLength: number
+): string {
+  const { prompts } = getLanguage(code);
+  const instructions = prompts.vision[style] ?? prompts.vision.narrativo;
+  return `${instructions}\n\n${prompts.visionConstraints(maxLength)}`;
+}
+
+export function getCEFRTarget(code: SupportedLanguageCode, style: DescriptionStyle): CEFRTarget {
+  return getLanguage(code).cefrTargets[style];
+}
+
+export function getPhraseCategoryLabels(
+  code: SupportedLanguageCode
+): Record<PhraseCategory, PhraseCategoryLabel> {
+  return getLanguage(code).phraseCategories;
+}
+
+/**
+ * Build a `{ [code]: value }` table from every registered language, for
+ * callers that index prompts by language code
+ */
+export function buildLanguageTable<T>(
+  select: (language: LanguageDefinition) => T
+): Record<SupportedLanguageCode, T> {
+  return Object.fromEntries(
+    SUPPORTED_LANGUAGES.map(code => [code, select(LANGUAGE_REGISTRY[code])])
+  ) as Record<SupportedLanguageCode, T>;
+}
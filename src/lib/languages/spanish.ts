@@ -0,0 +1,349 @@
+/**
+ * Spanish language definition
+ */
+
+import { DEFAULT_CEFR_TARGETS } from './cefr';
+import type { LanguageDefinition } from './types';
+
+export const spanish: LanguageDefinition = {
+  code: 'es',
+  key: 'spanish',
+  name: 'Spanish',
+  nativeName: 'Español',
+  locale: 'es-ES',
+  prompts: {
+    system: {
+      narrativo:
+        'Eres un narrador creativo experto en español. Tu tarea es describir imágenes como si fueran parte de historias fascinantes, usando lenguaje vívido, evocador y rico en detalles sensoriales. Enfócate en crear atmósfera y contar una historia visual que cautive al lector.',
+      poetico:
+        'Eres un poeta visual experto en español. Describe imágenes con lenguaje poético sublime, usando metáforas elaboradas, símiles elegantes y lenguaje figurativo. Captura la esencia emocional, la belleza estética y el significado profundo de lo que observas.',
+      academico:
+        'Eres un analista visual académico experto en español. Proporciona descripciones objetivas, detalladas y estructuradas de imágenes, analizando meticulosamente la composición, elementos técnicos, contexto cultural, simbolismo y significado histórico o social.',
+      conversacional:
+        'Eres un amigo hispanohablante cercano describiendo una imagen. Usa un tono casual, accesible y natural, como si estuvieras compartiendo lo que ves con alguien de confianza. Sé entusiasta, genuino y usa expresiones cotidianas del español.',
+      infantil:
+        'Eres un cuentacuentos mágico para niños hispanohablantes. Describe imágenes de manera divertida, simple y encantadora, usando palabras que los niños puedan entender fácilmente. Hazlo mágico, emocionante y lleno de asombro, como si cada imagen fuera una aventura especial.',
+      creativo:
+        'Eres un artista visual creativo experto en español. Describe imágenes desde perspectivas únicas e inesperadas, explorando significados ocultos, conexiones inusuales y posibilidades imaginativas. Sé innovador, original y sorprendente en tus descripciones.',
+      tecnico:
+        'Eres un experto técnico en análisis visual en español. Proporciona descripciones precisas y técnicas de imágenes, enfocándote en aspectos como iluminación, composición, perspectiva, técnica fotográfica, valores de exposición y características técnicas específicas.',
+    },
+    defaultSystem:
+      'Eres un experto en describir imágenes en español de manera detallada, precisa y atractiva.',
+    vision: {
+      narrativo: `MIRA CUIDADOSAMENTE ESTA IMAGEN y escribe una descripción narrativa detallada.
+
+Analiza visualmente: ¿Qué personas, objetos, lugares o acciones ves? ¿Qué colores dominan? ¿Cómo es la iluminación? ¿Qué emociones transmite la escena?
+
+Escribe como si fuera el comienzo de una historia cautivadora. Describe específicamente lo que VES: los detalles visuales concretos, la atmósfera que crea la imagen, las texturas, los gestos, las expresiones. Usa verbos de acción y adjetivos sensoriales para crear una narrativa envolvente que transporte al lector a esta escena específica.`,
+      poetico: `CONTEMPLA ESTA IMAGEN como un poeta y crea una descripción lírica profunda.
+
+Observa con atención: ¿Qué belleza encuentras en los detalles? ¿Qué simbolismo sugieren los elementos visuales? ¿Qué emociones te evoca cada color, cada forma, cada luz y sombra?
+
+Transforma lo que VES en poesía: usa metáforas elaboradas para describir los colores específicos, símiles elegantes para las formas que observas, personificación para los objetos. Captura la esencia emocional de ESTA imagen particular, sus tonalidades únicas, su composición, su alma visual.`,
+      academico: `EXAMINA ESTA IMAGEN de manera analítica y proporciona un análisis académico completo.
+
+Estudia sistemáticamente: ¿Cuál es la composición (regla de tercios, simetría, líneas guía)? ¿Qué técnicas de iluminación se utilizan? ¿Qué elementos visuales son el foco principal? ¿Qué contexto cultural o histórico sugiere?
+
+Describe objetivamente cada elemento que OBSERVAS: la paleta de colores específica, la perspectiva utilizada, el balance visual, los puntos focales, las relaciones entre elementos. Analiza el significado potencial y el mensaje que comunica esta imagen particular.`,
+      conversacional: `¡MIRA ESTA IMAGEN! Descríbela como si se la contaras a un amigo cercano.
+
+Fíjate bien: ¿Qué es lo primero que te llama la atención? ¿Qué detalles curiosos o interesantes notas? ¿Qué te hace sentir o pensar?
+
+Cuéntame de forma natural y entusiasta lo que VES: "¡Oye, mira esto...!" Usa expresiones coloquiales, comparte tus impresiones personales sobre los colores, las personas, los objetos específicos. Sé genuino y descriptivo, como si estuvieras compartiendo algo que te ha impresionado.`,
+      infantil: `¡MIRA ESTA IMAGEN MÁGICA! Descríbela como si le contaras un cuento a un niño pequeño.
+
+Observa con ojos de niño: ¿Qué colores brillantes ves? ¿Qué formas divertidas hay? ¿Quién o qué aparece en la imagen? ¿Qué podría estar pasando?
+
+Cuenta lo que VES de forma mágica y emocionante: "¡Mira! ¿Ves ese...?" Usa palabras simples pero expresivas. Señala los colores bonitos, las formas curiosas, los personajes o animales. Hazlo lleno de asombro y diversión, como si cada detalle fuera un descubrimiento especial.`,
+      creativo: `OBSERVA ESTA IMAGEN desde una perspectiva única y ofrece una descripción imaginativa.
+
+Mira más allá de lo obvio: ¿Qué historia oculta podrían contar estos elementos? ¿Qué conexiones inesperadas puedes hacer? ¿Qué significados alternativos sugieren los colores, las formas, la composición?
+
+Describe lo que VES de manera innovadora: encuentra lo extraordinario en los detalles ordinarios, imagina historias detrás de cada elemento visual, crea conexiones sorprendentes entre lo que observas. Invita al lector a ver esta imagen de una manera completamente nueva.`,
+      tecnico: `ANALIZA ESTA IMAGEN técnicamente como un experto en fotografía o arte visual.
+
+Evalúa profesionalmente: ¿Cómo está la exposición? ¿Qué tipo de iluminación se usa (natural, artificial, dura, suave)? ¿Cuál es la profundidad de campo? ¿Qué ángulo y perspectiva se emplean? ¿Cómo es el balance de blancos y la saturación de colores?
+
+Describe con precisión técnica lo que OBSERVAS: la composición específica, las características de la luz, la gama tonal, el enfoque, los valores de contraste. Incluye observaciones sobre técnica fotográfica o artística que esta imagen particular demuestra.`,
+    },
+    visionConstraints: maxLength =>
+      `IMPORTANTE: Basa tu descripción ÚNICAMENTE en lo que puedes VER en esta imagen específica. Escribe ${maxLength} palabras aproximadamente en párrafos fluidos. NO incluyas títulos, encabezados ni listas. Solo texto descriptivo rico y expresivo.`,
+    educational: {
+      narrativo: `Como profesor de español, crea una descripción narrativa educativa de esta imagen.
+    
+    ESTRUCTURA OBLIGATORIA:
+    1. CONTEXTO GENERAL (2-3 oraciones)
+       - Primera impresión y ambiente general
+       - Ubicación o escenario principal
+    
+    2. DETALLES ESPECÍFICOS (3-4 oraciones)
+       - Elementos visuales importantes
+       - Colores, formas y texturas destacadas
+       - Personas, objetos o animales presentes
+    
+    3. ATMÓSFERA Y REFLEXIÓN (2-3 oraciones)
+       - Emociones que transmite la imagen
+       - Posible historia o mensaje
+       - Reflexión final o pregunta abierta
+    
+    REQUISITOS LINGÜÍSTICOS:
+    • Vocabulario nivel B1-B2 (intermedio)
+    • Mínimo 5 adjetivos descriptivos variados
+    • 3-4 expresiones idiomáticas comunes en español
+    • Conectores discursivos (mientras, además, por otro lado, sin embargo, no obstante)
+    • Usar presente, pretérito perfecto e imperfecto
+    • Incluir al menos una oración con subjuntivo
+    
+    ESTILO: Educativo pero engaging, claro pero rico en vocabulario.`,
+      poetico: `Como profesor de literatura española, crea una descripción poética educativa de esta imagen.
+    
+    ELEMENTOS POÉTICOS REQUERIDOS:
+    • 3 metáforas o símiles accesibles (usando "como", "parece", "recuerda a")
+    • 3 referencias sensoriales diferentes (vista, oído, tacto, olfato, gusto)
+    • Vocabulario emocional y evocador
+    • Ritmo fluido y musical en las frases
+    • 2-3 figuras literarias simples:
+      - Personificación (dar vida a objetos)
+      - Hipérbole (exageración poética)
+      - Aliteración (repetición de sonidos)
+    
+    ESTRUCTURA SUGERIDA:
+    - Comienza con una imagen impactante
+    - Desarrolla la atmósfera con detalles sensoriales
+    - Cierra con una reflexión profunda o pregunta filosófica
+    
+    EJEMPLO DE INICIO:
+    "Los colores danzan como mariposas de luz..." o
+    "El silencio abraza cada rincón de esta escena..."
+    
+    Mantén balance entre belleza poética y claridad para estudiantes de español.`,
+      academico: `Como profesor universitario, proporciona un análisis académico de esta imagen para estudiantes avanzados de español (B2-C1).
+    
+    ESTRUCTURA DEL ANÁLISIS:
+    
+    1. DESCRIPCIÓN OBJETIVA
+       • Elementos visuales principales y su disposición
+       • Composición (primer plano, fondo, perspectiva)
+       • Paleta de colores y uso de la luz
+       • Técnica o estilo aparente
+    
+    2. CONTEXTO CULTURAL
+       • Posibles referencias culturales hispanas
+       • Elementos universales vs. específicos
+       • Época o período que sugiere
+       • Relevancia social o histórica
+    
+    3. INTERPRETACIÓN SEMIÓTICA
+       • Significados denotativos y connotativos
+       • Simbolismo presente
+       • Mensaje implícito o explícito
+       • Posibles lecturas alternativas
+    
+    4. VALOR PEDAGÓGICO
+       • Cómo facilita el aprendizaje del español
+       • Temas de conversación que genera
+       • Vocabulario específico que introduce
+    
+    REQUISITOS LINGÜÍSTICOS:
+    • Vocabulario académico formal
+    • Uso del subjuntivo en contextos apropiados
+    • Perífrasis verbales (poder + infinitivo, deber de + infinitivo)
+    • Conectores académicos: no obstante, asimismo, en consecuencia, cabe destacar, por consiguiente
+    • Voz pasiva y pasiva refleja
+    • Construcciones impersonales`,
+      conversacional: `Como un amigo hispanohablante nativo, describe esta imagen de manera natural y coloquial para practicar español conversacional.
+    
+    ELEMENTOS CONVERSACIONALES OBLIGATORIOS:
+    
+    INICIO CON GANCHO:
+    • "¡Oye, mira esto!" / "¿Sabes qué?" / "¡No te lo vas a creer!"
+    
+    INTERJECCIONES Y MULETILLAS:
+    • ¡Fíjate! / ¡Qué fuerte! / ¡Madre mía! / ¡Anda!
+    • Pues... / O sea... / Es que... / La verdad es que...
+    • ¿Sabes? / ¿No? / ¿Verdad? / ¿Me entiendes?
+    
+    EXPRESIONES COLOQUIALES (incluir 4-5):
+    • Estar en las nubes / Ser pan comido / Estar como pez en el agua
+    • No tener ni pies ni cabeza / Ser la leche / Molar mogollón
+    • Flipar en colores / Ser un rollo / Estar de muerte
+    
+    OPINIONES PERSONALES:
+    • "Me parece que..." / "Yo creo que..." / "A mi modo de ver..."
+    • "Lo que más me flipa es..." / "Me mola un montón que..."
+    
+    PREGUNTAS RETÓRICAS:
+    • "¿No te parece increíble que...?"
+    • "¿A que no adivinas qué...?"
+    
+    DIMINUTIVOS Y AUMENTATIVOS:
+    • Un poquito, cerquita, pequeñito, grandote, buenísimo
+    
+    FINAL INTERACTIVO:
+    • "¿Tú qué opinas?" / "¿A ti qué te parece?"`,
+      infantil: `Como maestro de español para niños, crea una descripción mágica y educativa para estudiantes jóvenes (8-12 años).
+    
+    ESTRUCTURA DE AVENTURA:
+    
+    1. APERTURA EMOCIONANTE
+       • "¡Wow! ¡Miren esta imagen tan genial!"
+       • "¿Están listos para una aventura?"
+    
+    2. DESCRIPCIÓN CON MAGIA
+       • Vocabulario básico + 3-4 palabras nuevas explicadas en contexto
+       • Comparaciones divertidas:
+         - "Grande como un elefante"
+         - "Rápido como un cohete"
+         - "Brillante como las estrellas"
+    
+    3. MINI-HISTORIA INTERACTIVA
+       • Crear una pequeña aventura basada en la imagen
+       • Incluir un personaje que los niños puedan seguir
+       • Momento de suspenso o sorpresa
+    
+    ELEMENTOS EDUCATIVOS:
+    • Repetición de vocabulario clave (3 veces mínimo)
+    • Colores y números para contar
+    • Preguntas interactivas:
+      - "¿Pueden contar cuántos...?"
+      - "¿De qué color es...?"
+      - "¿Dónde está escondido...?"
+    
+    SONIDOS Y EFECTOS:
+    • Onomatopeyas: ¡Pum! ¡Zas! ¡Splash! ¡Cataplún!
+    • Sonidos de animales si aplica
+    
+    CIERRE IMAGINATIVO:
+    • "¿Qué crees que pasaría si tú estuvieras ahí?"
+    • "¿Qué aventura vivirías en este lugar?"
+    • "Inventa un final diferente para esta historia"`,
+    },
+    qa: `Como profesor de español, genera preguntas y respuestas educativas basadas en esta descripción.
+  
+  FORMATO DE RESPUESTA OBLIGATORIO:
+  Responde ÚNICAMENTE con un array JSON válido. NO incluyas explicaciones ni texto adicional.
+  
+  ESTRUCTURA EXACTA REQUERIDA:
+  [
+    {
+      "question": "texto de la pregunta",
+      "answer": "texto de la respuesta",
+      "difficulty": "facil" | "medio" | "dificil",
+      "category": "categoría de la pregunta"
+    }
+  ]
+  
+  CREA EXACTAMENTE 5 PARES DE PREGUNTA-RESPUESTA:
+  
+  DISTRIBUCIÓN POR NIVEL:
+  • 2 preguntas FÁCILES (difficulty: "facil"): Información directa, vocabulario básico
+  • 2 preguntas MEDIAS (difficulty: "medio"): Comprensión, inferencias simples
+  • 1 pregunta DIFÍCIL (difficulty: "dificil"): Análisis, opinión, hipótesis
+  
+  TIPOS DE PREGUNTAS A INCLUIR:
+  1. Descriptiva: ¿Qué...? ¿Cómo es...?
+  2. Locativa: ¿Dónde...? ¿En qué lugar...?
+  3. Causal: ¿Por qué...? ¿Cuál es la razón...?
+  4. Hipotética: ¿Qué pasaría si...? ¿Cómo sería...?
+  5. Opinión: ¿Qué opinas de...? ¿Crees que...?
+  
+  CATEGORÍAS VÁLIDAS (category):
+  • "Vocabulario"
+  • "Gramática"
+  • "Cultura"
+  • "Comprensión"
+  • "Expresión"
+  
+  Las respuestas deben:
+  • Ser educativas y completas (2-4 oraciones según la dificultad)
+  • Incluir vocabulario del nivel correspondiente
+  • Usar estructuras gramaticales variadas
+  • Evitar caracteres especiales que puedan romper el JSON`,
+    phrases: `Como profesor de español, extrae y categoriza el vocabulario educativo de esta descripción.
+  
+  FORMATO DE RESPUESTA OBLIGATORIO:
+  Responde ÚNICAMENTE con un objeto JSON válido. NO incluyas explicaciones ni texto adicional.
+  
+  ESTRUCTURA EXACTA REQUERIDA:
+  {
+    "objetos": ["palabra1", "palabra2", "palabra3"],
+    "acciones": ["acción1", "acción2", "acción3"],
+    "lugares": ["lugar1", "lugar2", "lugar3"],
+    "colores": ["color1", "color2", "color3"],
+    "emociones": ["emoción1", "emoción2"],
+    "conceptos": ["concepto1", "concepto2"]
+  }
+  
+  CATEGORÍAS OBLIGATORIAS:
+  
+  OBJETOS (3-8 palabras):
+  • Sustantivos concretos de la descripción
+  • Sin artículos (solo la palabra)
+  • Evitar plurales innecesarios
+  
+  ACCIONES (3-8 palabras):
+  • Verbos en infinitivo de la descripción
+  • Solo acciones relevantes para el aprendizaje
+  
+  LUGARES (2-5 palabras):
+  • Espacios y ubicaciones mencionados
+  • Incluir lugares específicos o generales
+  
+  COLORES (2-6 palabras):
+  • Colores mencionados o implícitos
+  • Incluir matices si es relevante
+  
+  EMOCIONES (2-5 palabras):
+  • Sentimientos transmitidos por la descripción
+  • Emociones que genera la imagen
+  
+  CONCEPTOS (2-6 palabras):
+  • Ideas abstractas de la descripción
+  • Conceptos educativos importantes
+  
+  REGLAS IMPORTANTES:
+  • Todas las palabras deben estar en español
+  • Evitar caracteres especiales que rompan el JSON
+  • Cada array debe tener al menos 1 elemento, máximo 8
+  • Usar palabras relevantes para estudiantes de español`,
+  },
+  cefrTargets: DEFAULT_CEFR_TARGETS,
+  phraseCategories: {
+    sustantivos: { displayName: 'Sustantivos (Nouns)', partOfSpeech: 'sustantivo' },
+    verbos: { displayName: 'Verbos (Verbs)', partOfSpeech: 'verbo' },
+    adjetivos: { displayName: 'Adjetivos (Adjectives)', partOfSpeech: 'adjetivo' },
+    adverbios: { displayName: 'Adverbios (Adverbs)', partOfSpeech: 'adverbio' },
+    frasesClaves: { displayName: 'Frases Clave (Key Phrases)', partOfSpeech: 'frase clave' },
+  },
+  readability: {
+    coreWords: [
+      'el', 'la', 'los', 'las', 'un', 'una', 'unos', 'unas', 'de', 'del', 'a', 'al', 'en', 'y',
+      'o', 'pero', 'que', 'con', 'por', 'para', 'sin', 'sobre', 'entre', 'como', 'muy', 'más',
+      'menos', 'no', 'sí', 'ya', 'también', 'aquí', 'allí', 'hay', 'es', 'son', 'está', 'están',
+      'ser', 'estar', 'tener', 'tiene', 'tienen', 'hacer', 'hace', 'ir', 'va', 'ver', 've',
+      'poder', 'puede', 'dar', 'decir', 'querer', 'yo', 'tú', 'él', 'ella', 'nosotros', 'ellos',
+      'ellas', 'se', 'su', 'sus', 'mi', 'mis', 'tu', 'lo', 'le', 'les', 'me', 'te', 'este',
+      'esta', 'estos', 'estas', 'ese', 'esa', 'otro', 'otra', 'todo', 'toda', 'todos', 'mucho',
+      'mucha', 'muchos', 'poco', 'grande', 'pequeño', 'pequeña', 'bueno', 'buena', 'nuevo',
+      'día', 'casa', 'hombre', 'mujer', 'niño', 'niña', 'persona', 'personas', 'agua', 'sol',
+      'cielo', 'árbol', 'calle', 'ciudad', 'color', 'azul', 'rojo', 'verde', 'blanco', 'negro',
+      'amarillo', 'luz', 'tiempo', 'vida', 'mundo', 'cosa', 'parte', 'lugar', 'gente', 'perro',
+      'gato', 'mesa', 'mano', 'ojos', 'cuando', 'donde', 'porque', 'si', 'bien', 'mal', 'hoy',
+      'ahora', 'siempre', 'dos', 'tres', 'uno',
+    ],
+    tensePatterns: {
+      past: [/^\p{L}+(aba|abas|ábamos|aban|aron|ieron|ó|ió)$/u],
+      future: [/^\p{L}+(ré|rás|rá|remos|réis|rán)$/u],
+      conditional: [/^\p{L}+(ría|rías|ríamos|ríais|rían)$/u],
+      subjunctive: [
+        /^\p{L}+(ara|aras|áramos|aran|iera|ieras|iéramos|ieran|ase|iese)$/u,
+        /^(sea|seas|sean|esté|estén|haya|hayan|pueda|puedan|tenga|tengan|vaya|vayan|quiera|sepa)$/,
+      ],
+      perfect: [/^(he|has|ha|hemos|habéis|han|había|habían|habrá|habría) \p{L}+(ado|ido|to|cho|so)$/u],
+    },
+  },
+  fallbackDescription:
+    'Una imagen cautivadora que cuenta una historia única a través de sus elementos visuales.',
+  qaExample: { question: '¿Qué se describe en la imagen?', answer: 'Se describe...' },
+};
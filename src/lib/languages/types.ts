@@ -0,0 +1,111 @@
+/**
+ * Language registry types
+ * Every language the app can describe images in is declared once as a
+ * `LanguageDefinition`; prompts, CEFR targets and phrase categories are read
+ * from it instead of being keyed by hard-coded 'en' | 'es' pairs.
+ */
+
+import type { DescriptionStyle } from '@/types/api';
+
+export const SUPPORTED_LANGUAGES = ['en', 'es', 'fr', 'it', 'pt'] as const;
+
+export type SupportedLanguageCode = (typeof SUPPORTED_LANGUAGES)[number];
+
+/**
+ * Languages learners study; English is the instruction language
+ */
+export type TargetLanguageCode = Exclude<SupportedLanguageCode, 'en'>;
+
+/**
+ * Long-form key used in description payloads (`language: 'spanish'`)
+ */
+export type LanguageKey = 'english' | 'spanish' | 'french' | 'italian' | 'portuguese';
+
+export const CEFR_LEVELS = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'] as const;
+
+export type CEFRLevel = (typeof CEFR_LEVELS)[number];
+
+export interface CEFRTarget {
+  min: CEFRLevel;
+  max: CEFRLevel;
+}
+
+/**
+ * Styles with prompt templates; `creativo` and `tecnico` exist in the
+ * database enum but are not offered in the UI yet
+ */
+export type PromptStyle = DescriptionStyle | 'creativo' | 'tecnico';
+
+export const PHRASE_CATEGORIES = [
+  'sustantivos',
+  'verbos',
+  'adjetivos',
+  'adverbios',
+  'frasesClaves',
+] as const;
+
+export type PhraseCategory = (typeof PHRASE_CATEGORIES)[number];
+
+export interface PhraseCategoryLabel {
+  displayName: string;
+  partOfSpeech: string;
+}
+
+export const TENSE_CATEGORIES = [
+  'past',
+  'future',
+  'conditional',
+  'subjunctive',
+  'perfect',
+] as const;
+
+/**
+ * Verb forms tracked by the difficulty analysis; present tense is the
+ * unmarked default and is not counted
+ */
+export type TenseCategory = (typeof TENSE_CATEGORIES)[number];
+
+/**
+ * Data the difficulty analysis needs for a language
+ */
+export interface ReadabilityProfile {
+  /** Highest-frequency words, lowercase */
+  coreWords: readonly string[];
+  /**
+   * Anchored patterns tested against each lowercase word and each pair of
+   * adjacent words, counting marked verb forms
+   */
+  tensePatterns: Record<TenseCategory, RegExp[]>;
+}
+
+export interface LanguagePrompts {
+  /** Claude system prompt per style */
+  system: Record<PromptStyle, string>;
+  /** System prompt when the style has no template */
+  defaultSystem: string;
+  /** Visual-analysis instructions sent with the image */
+  vision: Record<PromptStyle, string>;
+  /** Closing constraints appended to the vision instructions */
+  visionConstraints: (maxLength: number) => string;
+  /** Structured teaching prompts per description style */
+  educational: Record<DescriptionStyle, string>;
+  qa: string;
+  phrases: string;
+}
+
+export interface LanguageDefinition {
+  code: SupportedLanguageCode;
+  key: LanguageKey;
+  /** English name, used inside English-language prompts */
+  name: string;
+  nativeName: string;
+  /** BCP 47 locale for speech synthesis and collation */
+  locale: string;
+  prompts: LanguagePrompts;
+  cefrTargets: Record<DescriptionStyle, CEFRTarget>;
+  phraseCategories: Record<PhraseCategory, PhraseCategoryLabel>;
+  readability: ReadabilityProfile;
+  fallbackDescription: string;
+  /** Sample pair shown in the Q&A JSON format instructions */
+  qaExample: { question: string; answer: string };
+}
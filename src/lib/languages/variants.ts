@@ -0,0 +1,169 @@
+/**
+ * Regional Spanish variants
+ * Learners pick the Spanish they are aiming for; the variant adds grammar and
+ * lexicon instructions to the Spanish prompts (vosotros vs. ustedes, voseo,
+ * coche vs. carro) and tags vocabulary that is only usual in some regions.
+ */
+
+export const SPANISH_VARIANTS = ['es-ES', 'es-MX', 'es-AR', 'es-CO'] as const;
+
+export type SpanishVariantCode = (typeof SPANISH_VARIANTS)[number];
+
+export interface SpanishVariant {
+  code: SpanishVariantCode;
+  /** English name, for settings and tooltips */
+  name: string;
+  nativeName: string;
+  flag: string;
+  /** Plural "you" in informal speech */
+  pluralYou: 'vosotros' | 'ustedes';
+  /** Uses vos (vos tenés, vos sos) instead of tú */
+  voseo: boolean;
+  /** Grammar guidance added to Spanish prompts */
+  instruction: string;
+}
+
+export const SPANISH_VARIANT_DEFINITIONS: Record<SpanishVariantCode, SpanishVariant> = {
+  'es-ES': {
+    code: 'es-ES',
+    name: 'Spain',
+    nativeName: 'España',
+    flag: '🇪🇸',
+    pluralYou: 'vosotros',
+    voseo: false,
+    instruction:
+      'Escribe en español de España: usa "vosotros" para la segunda persona del plural informal (vosotros tenéis) y el pretérito perfecto para hechos recientes (hoy he comido).',
+  },
+  'es-MX': {
+    code: 'es-MX',
+    name: 'Mexico',
+    nativeName: 'México',
+    flag: '🇲🇽',
+    pluralYou: 'ustedes',
+    voseo: false,
+    instruction:
+      'Escribe en español de México: usa "ustedes" para la segunda persona del plural (nunca "vosotros") y "tú" para el trato informal.',
+  },
+  'es-AR': {
+    code: 'es-AR',
+    name: 'Rioplatense (Argentina, Uruguay)',
+    nativeName: 'Rioplatense',
+    flag: '🇦🇷',
+    pluralYou: 'ustedes',
+    voseo: true,
+    instruction:
+      'Escribe en español rioplatense: usa el voseo para el trato informal (vos tenés, vos sos, mirá) y "ustedes" para la segunda persona del plural (nunca "vosotros").',
+  },
+  'es-CO': {
+    code: 'es-CO',
+    name: 'Colombia',
+    nativeName: 'Colombia',
+    flag: '🇨🇴',
+    pluralYou: 'ustedes',
+    voseo: false,
+    instruction:
+      'Escribe en español de Colombia: usa "ustedes" para la segunda persona del plural (nunca "vosotros") y "tú" o "usted" para el trato directo.',
+  },
+};
+
+/**
+ * Everyday concepts whose usual word differs by region, keyed by English
+ * gloss. Words with a second common meaning everywhere (piso, camión,
+ * billete) are left out so they are never flagged as regional.
+ */
+export const REGIONAL_LEXICON: Record<string, Record<SpanishVariantCode, string>> = {
+  car: { 'es-ES': 'coche', 'es-MX': 'carro', 'es-AR': 'auto', 'es-CO': 'carro' },
+  computer: {
+    'es-ES': 'ordenador',
+    'es-MX': 'computadora',
+    'es-AR': 'computadora',
+    'es-CO': 'computador',
+  },
+  juice: { 'es-ES': 'zumo', 'es-MX': 'jugo', 'es-AR': 'jugo', 'es-CO': 'jugo' },
+  potato: { 'es-ES': 'patata', 'es-MX': 'papa', 'es-AR': 'papa', 'es-CO': 'papa' },
+  'mobile phone': { 'es-ES': 'móvil', 'es-MX': 'celular', 'es-AR': 'celular', 'es-CO': 'celular' },
+  glasses: { 'es-ES': 'gafas', 'es-MX': 'lentes', 'es-AR': 'anteojos', 'es-CO': 'gafas' },
+  jacket: { 'es-ES': 'chaqueta', 'es-MX': 'chamarra', 'es-AR': 'campera', 'es-CO': 'chaqueta' },
+  't-shirt': { 'es-ES': 'camiseta', 'es-MX': 'playera', 'es-AR': 'remera', 'es-CO': 'camiseta' },
+  'swimming pool': {
+    'es-ES': 'piscina',
+    'es-MX': 'alberca',
+    'es-AR': 'pileta',
+    'es-CO': 'piscina',
+  },
+  refrigerator: {
+    'es-ES': 'nevera',
+    'es-MX': 'refrigerador',
+    'es-AR': 'heladera',
+    'es-CO': 'nevera',
+  },
+  peach: { 'es-ES': 'melocotón', 'es-MX': 'durazno', 'es-AR': 'durazno', 'es-CO': 'durazno' },
+  avocado: { 'es-ES': 'aguacate', 'es-MX': 'aguacate', 'es-AR': 'palta', 'es-CO': 'aguacate' },
+  strawberry: { 'es-ES': 'fresa', 'es-MX': 'fresa', 'es-AR': 'frutilla', 'es-CO': 'fresa' },
+  'corn cob': { 'es-ES': 'mazorca', 'es-MX': 'elote', 'es-AR': 'choclo', 'es-CO': 'mazorca' },
+  'drinking straw': {
+    'es-ES': 'pajita',
+    'es-MX': 'popote',
+    'es-AR': 'sorbete',
+    'es-CO': 'pitillo',
+  },
+  'to drive': { 'es-ES': 'conducir', 'es-MX': 'manejar', 'es-AR': 'manejar', 'es-CO': 'manejar' },
+};
+
+export interface RegionalUsage {
+  /** English gloss of the concept */
+  concept: string;
+  /** Variants in which this word is the usual one */
+  regions: SpanishVariantCode[];
+  /** The usual word in every variant */
+  equivalents: Record<SpanishVariantCode, string>;
+}
+
+const LEADING_ARTICLE = /^(el|la|los|las|un|una|unos|unas)\s+/;
+
+// Accents are kept: papa (potato) is regional, papá is not
+const foldWord = (text: string) => text.normalize('NFC').toLowerCase().trim();
+
+// Lowercased word -> concept
+const LEXICON_INDEX = new Map<string, string>(
+  Object.entries(REGIONAL_LEXICON).flatMap(([concept, words]) =>
+    Object.values(words).map(word => [foldWord(word), concept] as const)
+  )
+);
+
+export function isSpanishVariant(value: unknown): value is SpanishVariantCode {
+  return typeof value === 'string' && (SPANISH_VARIANTS as readonly string[]).includes(value);
+}
+
+export function getSpanishVariant(code: SpanishVariantCode): SpanishVariant {
+  return SPANISH_VARIANT_DEFINITIONS[code];
+}
+
+/**
+ * Where a Spanish word or short phrase ("el carro", "computadoras") is the
+ * usual term; null for words every variant shares or that are not listed
+ */
+export function getRegionalUsage(phrase: string): RegionalUsage | null {
+  const word = foldWord(phrase).replace(LEADING_ARTICLE, '');
+  const key = [word, word.replace(/es$/, ''), word.replace(/s$/, '')].find(stem =>
+    LEXICON_INDEX.has(stem)
+  );
+  if (!key) return null;
+
+  const concept = LEXICON_INDEX.get(key)!;
+  const equivalents = REGIONAL_LEXICON[concept];
+  const regions = SPANISH_VARIANTS.filter(code => foldWord(equivalents[code]) === key);
+
+  return { concept, regions, equivalents };
+}
+
+/**
+ * Grammar and lexicon instructions for prompts that should be written in a
+ * variant, e.g. appended to the Spanish description templates
+ */
+export function getVariantInstruction(code: SpanishVariantCode): string {
+  const variant = getSpanishVariant(code);
+  const lexicon = Object.values(REGIONAL_LEXICON).map(words => words[code]);
+
+  return `${variant.instruction}\nUsa el vocabulario habitual de ${variant.nativeName} (por ejemplo: ${lexicon.join(', ')}).`;
+}
@@ -3,6 +3,7 @@
  * Simple auth check for API routes
  */
 
+import { createHash, timingSafeEqual } from 'crypto';
 import { NextRequest, NextResponse } from 'next/server';
 
 export interface AuthenticatedRequest extends NextRequest {
@@ -29,3 +30,18 @@ export async function checkRateLimit(userId: string, tier: string = 'free') {
     remaining: 100,
   };
 }
+
+/**
+ * True when the request carries the admin API key in x-admin-key; never
+ * true while ADMIN_API_KEY is unset
+ */
+export function isAdminRequest(request: NextRequest): boolean {
+  const adminKey = process.env.ADMIN_API_KEY;
+  const providedKey = request.headers.get('x-admin-key');
+  if (!adminKey || providedKey === null) return false;
+
+  // Digests have equal lengths, so the comparison takes the same time
+  // whatever the key's length or how much of it matches
+  const digest = (key: string) => createHash('sha256').update(key).digest();
+  return timingSafeEqual(digest(providedKey), digest(adminKey));
+}
@@ -0,0 +1,388 @@
+// Offline review sessions: cached due cards, locally recorded grades and
+// progress, and the engine that uploads them on reconnect
+import { logger } from '@/lib/logger';
+import { offlineStorage, type OfflineReviewCard, type PendingReview } from '@/lib/offline-storage';
+import { createSchedulingAlgorithm, isSchedulingAlgorithmName } from '@/lib/algorithms/scheduler';
+import {
+  cardFromReviewRow,
+  reviewPoints,
+  reviewRowFromCard,
+  type VocabularyReviewUpdate,
+} from '@/lib/services/reviewSchedulingService';
+import type { ReviewSyncReport, ReviewSyncResult } from '@/lib/services/reviewSyncService';
+
+const SYNC_ENDPOINT = '/api/vocabulary/review/sync';
+// Matches the server's per-upload limit
+const SYNC_BATCH_SIZE = 200;
+
+const DEVICE_ID_KEY = 'deviceId';
+const ALGORITHM_KEY = 'reviewAlgorithm';
+const PROGRESS_KEY = 'reviewProgress';
+
+/**
+ * Progress earned offline, shown until the server totals catch up
+ */
+export interface OfflineProgress {
+  days: Record<string, { points: number; reviews: number }>;
+  currentStreak: number;
+  lastReviewDay: string | null;
+}
+
+export interface ReviewSyncFailure {
+  eventId: string;
+  itemId: string;
+  reason: string;
+  /** False when the server refused the review; it will not be retried */
+  retryable: boolean;
+}
+
+export interface OfflineReviewSyncReport {
+  synced: number;
+  duplicates: number;
+  /** Reviews that arrived after newer ones from another device */
+  merged: number;
+  failed: ReviewSyncFailure[];
+  /** Reviews still waiting for upload */
+  pending: number;
+}
+
+const EMPTY_PROGRESS: OfflineProgress = { days: {}, currentStreak: 0, lastReviewDay: null };
+
+function localDay(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function previousDay(day: string): string {
+  const [year, month, date] = day.split('-').map(Number);
+  return localDay(new Date(year, month - 1, date - 1));
+}
+
+/**
+ * Add one review to the offline progress snapshot
+ */
+export function applyReviewToProgress(
+  progress: OfflineProgress,
+  quality: number,
+  reviewedAt: Date
+): OfflineProgress {
+  const today = localDay(reviewedAt);
+  const day = progress.days[today] ?? { points: 0, reviews: 0 };
+
+  let currentStreak = progress.currentStreak;
+  if (progress.lastReviewDay !== today) {
+    currentStreak = progress.lastReviewDay === previousDay(today) ? currentStreak + 1 : 1;
+  }
+
+  return {
+    days: {
+      ...progress.days,
+      [today]: { points: day.points + reviewPoints(quality), reviews: day.reviews + 1 },
+    },
+    currentStreak,
+    lastReviewDay: today,
+  };
+}
+
+/**
+ * Summarise the server's per-event results. Events the server did not
+ * answer for are treated as transient failures.
+ */
+export function summarizeSyncResults(
+  reviews: PendingReview[],
+  results: ReviewSyncResult[]
+): {
+  settled: ReviewSyncResult[];
+  failed: ReviewSyncFailure[];
+  retry: PendingReview[];
+  rejected: PendingReview[];
+} {
+  const byEvent = new Map(results.map(result => [result.eventId, result]));
+  const settled: ReviewSyncResult[] = [];
+  const failed: ReviewSyncFailure[] = [];
+  const retry: PendingReview[] = [];
+  const rejected: PendingReview[] = [];
+
+  for (const review of reviews) {
+    const result = byEvent.get(review.eventId);
+
+    if (result?.status === 'applied' || result?.status === 'duplicate') {
+      settled.push(result);
+    } else if (result?.status === 'rejected') {
+      const reason = result.reason ?? 'rejected';
+      rejected.push({ ...review, rejected: true, lastError: reason });
+      failed.push({ eventId: review.eventId, itemId: review.itemId, reason, retryable: false });
+    } else {
+      const reason = result?.reason ?? 'no_result';
+      retry.push({ ...review, attempts: review.attempts + 1, lastError: reason });
+      failed.push({ eventId: review.eventId, itemId: review.itemId, reason, retryable: true });
+    }
+  }
+
+  return { settled, failed, retry, rejected };
+}
+
+export async function getDeviceId(): Promise<string> {
+  const existing = await offlineStorage.getSyncMeta<string>(DEVICE_ID_KEY);
+  if (existing) return existing;
+
+  const deviceId = crypto.randomUUID();
+  await offlineStorage.setSyncMeta(DEVICE_ID_KEY, deviceId);
+  return deviceId;
+}
+
+export async function getOfflineProgress(): Promise<OfflineProgress> {
+  return (await offlineStorage.getSyncMeta<OfflineProgress>(PROGRESS_KEY)) ?? EMPTY_PROGRESS;
+}
+
+/**
+ * Download cards due within `days` days so a session can run offline.
+ * Cards with unsynced grades keep their local schedule.
+ */
+export async function cacheDueCards(days = 3): Promise<number> {
+  const response = await fetch(`${SYNC_ENDPOINT}?days=${days}`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch review cards: ${response.status}`);
+  }
+
+  const { items } = (await response.json()) as { items: Array<Record<string, unknown>> };
+  const pendingItems = new Set((await offlineStorage.getPendingReviews()).map(r => r.itemId));
+  const cachedAt = Date.now();
+
+  const cards: OfflineReviewCard[] = items
+    .filter(item => !pendingItems.has(String(item.id)))
+    .map(item => ({
+      id: String(item.id),
+      item,
+      schedule: {
+        ease_factor: (item.ease_factor as number | null) ?? null,
+        interval: (item.interval as number | null) ?? null,
+        repetitions: (item.repetitions as number | null) ?? null,
+        last_review_date: (item.last_review_date as string | null) ?? null,
+        next_review_date: (item.next_review_date as string | null) ?? null,
+        fsrs_stability: (item.fsrs_stability as number | null) ?? null,
+        fsrs_difficulty: (item.fsrs_difficulty as number | null) ?? null,
+      },
+      serverUpdatedAt: (item.updated_at as string | null) ?? null,
+      cachedAt,
+    }));
+
+  await offlineStorage.putReviewCards(cards);
+  return cards.length;
+}
+
+export async function getDueOfflineCards(now: Date = new Date()): Promise<OfflineReviewCard[]> {
+  const cards = await offlineStorage.getReviewCards();
+  return cards
+    .filter(
+      card => !card.schedule.next_review_date || new Date(card.schedule.next_review_date) <= now
+    )
+    .sort((a, b) =>
+      (a.schedule.next_review_date ?? '').localeCompare(b.schedule.next_review_date ?? '')
+    );
+}
+
+/**
+ * Drop a card reviewed online from the cache; the next download brings
+ * back its new schedule
+ */
+export async function removeCachedReviewCard(itemId: string): Promise<void> {
+  await offlineStorage.removeReviewCard(itemId);
+}
+
+/**
+ * Record a grade locally. The card is rescheduled with the last algorithm
+ * the server reported; the server recomputes it on sync.
+ */
+export async function recordOfflineReview(
+  itemId: string,
+  quality: number,
+  responseTimeMs?: number,
+  reviewedAt: Date = new Date()
+): Promise<PendingReview> {
+  const review: PendingReview = {
+    eventId: crypto.randomUUID(),
+    itemId,
+    quality,
+    responseTimeMs,
+    reviewedAt: reviewedAt.toISOString(),
+    attempts: 0,
+  };
+  await offlineStorage.putPendingReviews([review]);
+
+  const card = await offlineStorage.getReviewCard(itemId);
+  if (card) {
+    const algorithmName = await offlineStorage.getSyncMeta<string>(ALGORITHM_KEY);
+    const algorithm = createSchedulingAlgorithm(
+      isSchedulingAlgorithmName(algorithmName) ? algorithmName : undefined
+    );
+    const updated = algorithm.updateCard(
+      cardFromReviewRow({ id: card.id, ...card.schedule }),
+      quality,
+      reviewedAt
+    );
+    await offlineStorage.putReviewCards([{ ...card, schedule: reviewRowFromCard(updated) }]);
+  }
+
+  const progress = await getOfflineProgress();
+  await offlineStorage.setSyncMeta(
+    PROGRESS_KEY,
+    applyReviewToProgress(progress, quality, reviewedAt)
+  );
+
+  return review;
+}
+
+/**
+ * Reviews the server refused, for showing to the learner
+ */
+export async function getRejectedReviews(): Promise<PendingReview[]> {
+  return (await offlineStorage.getPendingReviews()).filter(review => review.rejected);
+}
+
+export async function dismissRejectedReviews(): Promise<void> {
+  const rejected = await getRejectedReviews();
+  await offlineStorage.removePendingReviews(rejected.map(review => review.eventId));
+}
+
+// Uploads pending reviews in recording order
+export class ReviewSyncEngine {
+  private inFlight: Promise<OfflineReviewSyncReport> | null = null;
+
+  async pendingCount(): Promise<number> {
+    return (await offlineStorage.getPendingReviews()).filter(review => !review.rejected).length;
+  }
+
+  /**
+   * Concurrent calls share one run, so a review is never uploaded twice at
+   * once; retries after a lost response are absorbed by the event id
+   */
+  sync(): Promise<OfflineReviewSyncReport> {
+    if (!this.inFlight) {
+      this.inFlight = this.run().finally(() => {
+        this.inFlight = null;
+      });
+    }
+    return this.inFlight;
+  }
+
+  private async run(): Promise<OfflineReviewSyncReport> {
+    const report: OfflineReviewSyncReport = {
+      synced: 0,
+      duplicates: 0,
+      merged: 0,
+      failed: [],
+      pending: 0,
+    };
+    const reviews = (await offlineStorage.getPendingReviews()).filter(r => !r.rejected);
+    if (reviews.length === 0) return report;
+
+    const deviceId = await getDeviceId();
+
+    for (let start = 0; start < reviews.length; start += SYNC_BATCH_SIZE) {
+      const batch = reviews.slice(start, start + SYNC_BATCH_SIZE);
+      let response: ReviewSyncReport;
+
+      try {
+        response = await this.upload(deviceId, batch);
+      } catch (error) {
+        // Probably offline again: keep everything from here on for the next run
+        const reason = error instanceof Error ? error.message : String(error);
+        const remaining = reviews.slice(start);
+        await offlineStorage.putPendingReviews(
+          remaining.map(review => ({ ...review, attempts: review.attempts + 1, lastError: reason }))
+        );
+        report.failed.push(
+          ...remaining.map(review => ({
+            eventId: review.eventId,
+            itemId: review.itemId,
+            reason,
+            retryable: true,
+          }))
+        );
+        report.pending = remaining.length;
+        logger.warn('Review sync interrupted', { reason, pending: remaining.length });
+        return report;
+      }
+
+      await offlineStorage.setSyncMeta(ALGORITHM_KEY, response.algorithm);
+      const { settled, failed, retry, rejected } = summarizeSyncResults(batch, response.results);
+
+      await offlineStorage.removePendingReviews(settled.map(result => result.eventId));
+      await offlineStorage.putPendingReviews([...retry, ...rejected]);
+      await this.refreshCards(settled, rejected);
+
+      report.synced += settled.filter(result => result.status === 'applied').length;
+      report.duplicates += settled.filter(result => result.status === 'duplicate').length;
+      report.merged += settled.filter(result => result.merged).length;
+      report.failed.push(...failed);
+      report.pending += retry.length;
+    }
+
+    logger.info('Review sync finished', {
+      synced: report.synced,
+      duplicates: report.duplicates,
+      failed: report.failed.length,
+    });
+    return report;
+  }
+
+  private async upload(deviceId: string, batch: PendingReview[]): Promise<ReviewSyncReport> {
+    const response = await fetch(SYNC_ENDPOINT, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        deviceId,
+        events: batch.map(({ eventId, itemId, quality, responseTimeMs, reviewedAt }) => ({
+          eventId,
+          itemId,
+          quality,
+          ...(responseTimeMs !== undefined ? { responseTimeMs } : {}),
+          reviewedAt,
+        })),
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Sync request failed: ${response.status}`);
+    }
+    return response.json();
+  }
+
+  /**
+   * Replace cached schedules with the server's, unless the card has grades
+   * that are still waiting for upload
+   */
+  private async refreshCards(
+    settled: ReviewSyncResult[],
+    rejected: PendingReview[]
+  ): Promise<void> {
+    const stillPending = new Set(
+      (await offlineStorage.getPendingReviews())
+        .filter(review => !review.rejected)
+        .map(review => review.itemId)
+    );
+    const updates: OfflineReviewCard[] = [];
+    const schedules = new Map<string, ReviewSyncResult['schedule']>();
+    settled.forEach(result => result.schedule && schedules.set(result.itemId, result.schedule));
+
+    for (const [itemId, schedule] of schedules) {
+      const card = await offlineStorage.getReviewCard(itemId);
+      if (!card || !schedule || stillPending.has(itemId)) continue;
+
+      const { updated_at: serverUpdatedAt, ...rest } = schedule;
+      const next: VocabularyReviewUpdate = rest;
+      updates.push({ ...card, schedule: next, serverUpdatedAt });
+    }
+    await offlineStorage.putReviewCards(updates);
+
+    for (const review of rejected) {
+      if (review.lastError === 'item_not_found') {
+        await offlineStorage.removeReviewCard(review.itemId);
+      }
+    }
+  }
+}
+
+export const reviewSyncEngine = new ReviewSyncEngine();
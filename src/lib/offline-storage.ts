@@ -1,8 +1,11 @@
 // IndexedDB wrapper for offline storage
 import { logger } from '@/lib/logger';
+import type { VocabularyReviewUpdate } from '@/lib/services/reviewSchedulingService';
 
 const DB_NAME = 'describe-it-offline';
-const DB_VERSION = 1;
+const DB_VERSION = 2;
+
+type ReviewStoreName = 'reviewCards' | 'reviewEvents' | 'syncMeta';
 
 export interface PendingItem {
   id?: number;
@@ -11,6 +14,34 @@ export interface PendingItem {
   type: 'vocabulary' | 'description';
 }
 
+/**
+ * A review card cached for offline sessions. `schedule` is updated locally
+ * when the card is graded offline and replaced by the server's copy on sync.
+ */
+export interface OfflineReviewCard {
+  id: string;
+  item: Record<string, unknown>;
+  schedule: VocabularyReviewUpdate;
+  /** Server `updated_at` of the copy the local state is based on */
+  serverUpdatedAt: string | null;
+  cachedAt: number;
+}
+
+/**
+ * A grade recorded offline, waiting to be uploaded
+ */
+export interface PendingReview {
+  eventId: string;
+  itemId: string;
+  quality: number;
+  responseTimeMs?: number;
+  reviewedAt: string;
+  attempts: number;
+  lastError?: string;
+  /** The server refused the review; it is kept for reporting, never retried */
+  rejected?: boolean;
+}
+
 class OfflineStorage {
   private db: IDBDatabase | null = null;
 
@@ -59,6 +90,19 @@ class OfflineStorage {
           searchStore.createIndex('timestamp', 'timestamp', { unique: false });
         }
 
+        if (!db.objectStoreNames.contains('reviewCards')) {
+          db.createObjectStore('reviewCards', { keyPath: 'id' });
+        }
+
+        if (!db.objectStoreNames.contains('reviewEvents')) {
+          const eventStore = db.createObjectStore('reviewEvents', { keyPath: 'eventId' });
+          eventStore.createIndex('reviewedAt', 'reviewedAt', { unique: false });
+        }
+
+        if (!db.objectStoreNames.contains('syncMeta')) {
+          db.createObjectStore('syncMeta', { keyPath: 'key' });
+        }
+
         logger.info('IndexedDB schema created');
       };
     });
@@ -246,6 +290,82 @@ class OfflineStorage {
       request.onsuccess = () => resolve();
     });
   }
+
+  // Offline review methods
+  async putReviewCards(cards: OfflineReviewCard[]): Promise<void> {
+    await this.runInStore('reviewCards', 'readwrite', (store) => {
+      cards.forEach((card) => store.put(card));
+    });
+  }
+
+  async getReviewCards(): Promise<OfflineReviewCard[]> {
+    return this.runInStore('reviewCards', 'readonly', (store) => store.getAll());
+  }
+
+  async getReviewCard(id: string): Promise<OfflineReviewCard | undefined> {
+    return this.runInStore('reviewCards', 'readonly', (store) => store.get(id));
+  }
+
+  async removeReviewCard(id: string): Promise<void> {
+    await this.runInStore('reviewCards', 'readwrite', (store) => store.delete(id));
+  }
+
+  async putPendingReviews(reviews: PendingReview[]): Promise<void> {
+    await this.runInStore('reviewEvents', 'readwrite', (store) => {
+      reviews.forEach((review) => store.put(review));
+    });
+  }
+
+  async getPendingReviews(): Promise<PendingReview[]> {
+    return this.runInStore('reviewEvents', 'readonly', (store) =>
+      store.index('reviewedAt').getAll()
+    );
+  }
+
+  async removePendingReviews(eventIds: string[]): Promise<void> {
+    await this.runInStore('reviewEvents', 'readwrite', (store) => {
+      eventIds.forEach((eventId) => store.delete(eventId));
+    });
+  }
+
+  async getSyncMeta<T>(key: string): Promise<T | undefined> {
+    const entry = await this.runInStore<{ key: string; value: T } | undefined>(
+      'syncMeta',
+      'readonly',
+      (store) => store.get(key)
+    );
+    return entry?.value;
+  }
+
+  async setSyncMeta<T>(key: string, value: T): Promise<void> {
+    await this.runInStore('syncMeta', 'readwrite', (store) => store.put({ key, value }));
+  }
+
+  /**
+   * Run `operation` in its own transaction and resolve once the transaction
+   * commits, with the result of the request it returns (if any)
+   */
+  private async runInStore<T>(
+    storeName: ReviewStoreName,
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest | void
+  ): Promise<T> {
+    await this.init();
+
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      const transaction = this.db.transaction(storeName, mode);
+      const request = operation(transaction.objectStore(storeName));
+
+      transaction.oncomplete = () => resolve(request ? (request.result as T) : (undefined as T));
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
 }
 
 // Singleton instance
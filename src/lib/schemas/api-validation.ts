@@ -1,6 +1,7 @@
 import { z } from 'zod';
 import { NextResponse } from 'next/server';
 import { safeStringify, safeParse } from '@/lib/utils/json-safe';
+import { CEFR_LEVELS, SPANISH_VARIANTS } from '@/lib/languages';
 
 // ================================
 // SECURITY VALIDATION SCHEMAS
@@ -104,6 +105,20 @@ export const languageCodeSchema = z.enum(
   }
 );
 
+/**
+ * CEFR level validation
+ */
+export const cefrLevelSchema = z.enum(CEFR_LEVELS, {
+  errorMap: () => ({ message: 'CEFR level must be one of A1, A2, B1, B2, C1, C2' }),
+});
+
+/**
+ * Regional Spanish variant validation
+ */
+export const spanishVariantSchema = z.enum(SPANISH_VARIANTS, {
+  errorMap: () => ({ message: `Variant must be one of ${SPANISH_VARIANTS.join(', ')}` }),
+});
+
 /**
  * Style validation for descriptions
  */
@@ -345,44 +360,55 @@ export const auditLogSchema = baseRequestSchema.extend({
 /**
  * Description generation request schema
  */
-export const descriptionGenerateSchema = baseRequestSchema.extend({
-  imageUrl: imageUrlSchema,
-  style: descriptionStyleSchema,
-  language: languageCodeSchema.default('es'),
-  maxLength: z.coerce
-    .number()
-    .int('Max length must be an integer')
-    .min(50, 'Minimum length is 50 characters')
-    .max(2000, 'Maximum length is 2000 characters')
-    .default(300),
-  customPrompt: z
-    .string()
-    .max(500, 'Custom prompt too long')
-    .refine(text => {
-      // Basic XSS protection - reject common script patterns
-      const dangerousPatterns = [
-        /<script/i,
-        /javascript:/i,
-        /on\w+\s*=/i,
-        /<iframe/i,
-        /<object/i,
-        /<embed/i,
-        /expression\s*\(/i,
-        /vbscript:/i,
-        /data:text\/html/i,
-      ];
-
-      return !dangerousPatterns.some(pattern => pattern.test(text));
-    }, 'Text contains potentially dangerous content')
-    .optional(),
-  // Add userApiKey field to allow passing user's OpenAI API key
-  userApiKey: z
-    .string()
-    .min(20, 'API key too short')
-    .max(200, 'API key too long')
-    .startsWith('sk-', "API key must start with 'sk-'")
-    .optional(),
-});
+export const descriptionGenerateSchema = baseRequestSchema
+  .extend({
+    imageUrl: imageUrlSchema.optional(),
+    // An image from the user's library, read from storage instead of a URL
+    libraryImageId: z.string().uuid('Invalid library image id').optional(),
+    style: descriptionStyleSchema,
+    language: languageCodeSchema.default('es'),
+    maxLength: z.coerce
+      .number()
+      .int('Max length must be an integer')
+      .min(50, 'Minimum length is 50 characters')
+      .max(2000, 'Maximum length is 2000 characters')
+      .default(300),
+    // Overrides the style's default CEFR target for the target-language text
+    cefrLevel: cefrLevelSchema.optional(),
+    // Regional variant for Spanish text; ignored for other languages
+    variant: spanishVariantSchema.optional(),
+    customPrompt: z
+      .string()
+      .max(500, 'Custom prompt too long')
+      .refine(text => {
+        // Basic XSS protection - reject common script patterns
+        const dangerousPatterns = [
+          /<script/i,
+          /javascript:/i,
+          /on\w+\s*=/i,
+          /<iframe/i,
+          /<object/i,
+          /<embed/i,
+          /expression\s*\(/i,
+          /vbscript:/i,
+          /data:text\/html/i,
+        ];
+
+        return !dangerousPatterns.some(pattern => pattern.test(text));
+      }, 'Text contains potentially dangerous content')
+      .optional(),
+    // Add userApiKey field to allow passing user's OpenAI API key
+    userApiKey: z
+      .string()
+      .min(20, 'API key too short')
+      .max(200, 'API key too long')
+      .startsWith('sk-', "API key must start with 'sk-'")
+      .optional(),
+  })
+  .refine(data => Boolean(data.imageUrl) !== Boolean(data.libraryImageId), {
+    message: 'Provide either an image URL or a library image id',
+    path: ['imageUrl'],
+  });
 
 /**
  * Q&A generation request schema
@@ -0,0 +1,391 @@
+/**
+ * Achievement Service - Records progress events and unlocks achievements
+ *
+ * Rules are the built-in ones merged with rows from achievement_definitions,
+ * so admins can add or retune achievements without a deploy. Every event is
+ * stored with its event id; a replayed event is not stored again, and an
+ * unlock is written only where none exists, so each achievement is reported
+ * as newly unlocked exactly once per user however often events are retried.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  DEFAULT_ACHIEVEMENT_RULES,
+  achievementRuleSchema,
+  evaluateAggregates,
+  mergeAchievementRules,
+  ruleListensTo,
+  windowStart,
+  type AchievementEvent,
+  type AchievementProgress,
+  type AchievementRule,
+  type UnlockedAchievement,
+} from '@/lib/achievements';
+import { dbLogger } from '@/lib/logger';
+
+const RULES_TTL_MS = 60 * 1000;
+
+/** Postgres unique_violation */
+const UNIQUE_VIOLATION = '23505';
+
+export interface AchievementDefinitionRow {
+  id: string;
+  name: string;
+  description: string;
+  category: string;
+  rarity: string;
+  icon: string | null;
+  event_types: string[];
+  conditions: unknown;
+  aggregation: string;
+  field: string | null;
+  threshold: number | string;
+  window_days: number | null;
+  experience_points: number;
+  enabled: boolean;
+}
+
+interface UserAchievementRow {
+  achievement_id: string;
+  progress: number | string;
+  target: number | string;
+  unlocked_at: string | null;
+}
+
+/** An achievement with the user's progress towards it */
+export interface UserAchievement extends Omit<UnlockedAchievement, 'unlockedAt'> {
+  progress: number;
+  target: number;
+  unlockedAt: string | null;
+}
+
+export function ruleFromDefinitionRow(row: AchievementDefinitionRow): AchievementRule | null {
+  const parsed = achievementRuleSchema.safeParse({
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    category: row.category,
+    rarity: row.rarity,
+    icon: row.icon ?? undefined,
+    eventTypes: row.event_types,
+    conditions: row.conditions ?? [],
+    aggregation: row.aggregation,
+    field: row.field ?? undefined,
+    threshold: Number(row.threshold),
+    windowDays: row.window_days ?? undefined,
+    experiencePoints: row.experience_points,
+    enabled: row.enabled,
+  });
+  return parsed.success ? parsed.data : null;
+}
+
+export function definitionRowFromRule(rule: AchievementRule): AchievementDefinitionRow {
+  return {
+    id: rule.id,
+    name: rule.name,
+    description: rule.description,
+    category: rule.category,
+    rarity: rule.rarity,
+    icon: rule.icon ?? null,
+    event_types: rule.eventTypes,
+    conditions: rule.conditions,
+    aggregation: rule.aggregation,
+    field: rule.field ?? null,
+    threshold: rule.threshold,
+    window_days: rule.windowDays ?? null,
+    experience_points: rule.experiencePoints,
+    enabled: rule.enabled,
+  };
+}
+
+function toUnlocked(rule: AchievementRule, unlockedAt: string): UnlockedAchievement {
+  return {
+    id: rule.id,
+    name: rule.name,
+    description: rule.description,
+    category: rule.category,
+    rarity: rule.rarity,
+    icon: rule.icon,
+    experiencePoints: rule.experiencePoints,
+    unlockedAt,
+  };
+}
+
+export class AchievementService {
+  private rulesCache: { rules: AchievementRule[]; loadedAt: number } | null = null;
+
+  constructor(private readonly supabase: SupabaseClient) {}
+
+  /**
+   * Built-in rules with stored definitions on top; the built-in rules alone
+   * when definitions cannot be loaded
+   */
+  async getRules(): Promise<AchievementRule[]> {
+    if (this.rulesCache && Date.now() - this.rulesCache.loadedAt < RULES_TTL_MS) {
+      return this.rulesCache.rules;
+    }
+
+    const { data, error } = await this.supabase.from('achievement_definitions').select('*');
+
+    if (error) {
+      dbLogger.error('Failed to load achievement definitions', error, {
+        context: 'achievements',
+      });
+      return DEFAULT_ACHIEVEMENT_RULES;
+    }
+
+    const stored: AchievementRule[] = [];
+    for (const row of (data as AchievementDefinitionRow[]) || []) {
+      const rule = ruleFromDefinitionRow(row);
+      if (rule) {
+        stored.push(rule);
+      } else {
+        dbLogger.warn('Skipping invalid achievement definition', {
+          context: 'achievements',
+          achievementId: row.id,
+        });
+      }
+    }
+
+    const rules = mergeAchievementRules(stored);
+    this.rulesCache = { rules, loadedAt: Date.now() };
+    return rules;
+  }
+
+  /** Add or replace a stored definition */
+  async saveRule(rule: AchievementRule): Promise<AchievementRule> {
+    const { error } = await this.supabase
+      .from('achievement_definitions')
+      .upsert(definitionRowFromRule(rule), { onConflict: 'id' });
+
+    if (error) {
+      throw error;
+    }
+
+    this.rulesCache = null;
+    return rule;
+  }
+
+  /**
+   * Remove a stored definition. A built-in rule it overrode comes back;
+   * disable it with saveRule instead to retire it.
+   */
+  async deleteRule(id: string): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('achievement_definitions')
+      .delete()
+      .eq('id', id)
+      .select('id');
+
+    if (error) {
+      throw error;
+    }
+
+    this.rulesCache = null;
+    return Array.isArray(data) && data.length > 0;
+  }
+
+  /**
+   * Record an event and return the achievements it unlocked. A replayed
+   * event is evaluated again but unlocks nothing new.
+   */
+  async recordEvent(
+    userId: string,
+    event: AchievementEvent,
+    now: Date = new Date()
+  ): Promise<UnlockedAchievement[]> {
+    const { error: insertError } = await this.supabase.from('achievement_events').insert({
+      user_id: userId,
+      event_id: event.eventId,
+      event_type: event.type,
+      data: event.data,
+      occurred_at: new Date(event.occurredAt).toISOString(),
+    });
+
+    // A duplicate is still evaluated: the first attempt may have failed after storing it
+    if (insertError && insertError.code !== UNIQUE_VIOLATION) {
+      throw insertError;
+    }
+
+    const rules = (await this.getRules()).filter(rule => ruleListensTo(rule, event.type));
+    return this.evaluate(userId, rules, now);
+  }
+
+  /**
+   * Every enabled achievement with the user's progress, unlocked first.
+   * A user with no progress yet is evaluated against every rule first, so
+   * events from before the engine (see the backfill migration) count.
+   */
+  async getUserAchievements(userId: string): Promise<UserAchievement[]> {
+    const rules = (await this.getRules()).filter(rule => rule.enabled);
+    const ids = rules.map(rule => rule.id);
+
+    let progress = await this.getProgress(userId, ids);
+    if (progress.length === 0 && rules.length > 0) {
+      await this.evaluate(userId, rules, new Date());
+      progress = await this.getProgress(userId, ids);
+    }
+    const stored = new Map(progress.map(entry => [entry.achievementId, entry]));
+
+    return rules
+      .map(rule => {
+        const entry = stored.get(rule.id);
+        return {
+          ...toUnlocked(rule, ''),
+          progress: entry?.progress ?? 0,
+          target: rule.threshold,
+          unlockedAt: entry?.unlockedAt ?? null,
+        };
+      })
+      .sort((a, b) => Number(Boolean(b.unlockedAt)) - Number(Boolean(a.unlockedAt)));
+  }
+
+  /**
+   * Store each rule's progress and claim the unlocks it reached; returns
+   * the achievements this evaluation unlocked
+   */
+  private async evaluate(
+    userId: string,
+    rules: AchievementRule[],
+    now: Date
+  ): Promise<UnlockedAchievement[]> {
+    if (rules.length === 0) {
+      return [];
+    }
+
+    const [values, previous] = await Promise.all([
+      this.getRuleValues(userId, rules, now),
+      this.getProgress(
+        userId,
+        rules.map(rule => rule.id)
+      ),
+    ]);
+    const evaluation = evaluateAggregates(rules, values, previous, now);
+
+    const { error: progressError } = await this.supabase.from('user_achievements').upsert(
+      evaluation.progress.map(entry => ({
+        user_id: userId,
+        achievement_id: entry.achievementId,
+        progress: entry.progress,
+        target: entry.target,
+      })),
+      { onConflict: 'user_id,achievement_id' }
+    );
+
+    if (progressError) {
+      throw progressError;
+    }
+
+    const unlocked: UnlockedAchievement[] = [];
+    for (const rule of evaluation.unlocked) {
+      if (await this.claimUnlock(userId, rule.id, now)) {
+        unlocked.push(toUnlocked(rule, now.toISOString()));
+      }
+    }
+
+    if (unlocked.length > 0) {
+      dbLogger.info('Achievements unlocked', {
+        context: 'achievements',
+        userId,
+        achievements: unlocked.map(achievement => achievement.id),
+      });
+    }
+
+    return unlocked;
+  }
+
+  /**
+   * Set the unlock time unless it is already set; true for the one caller
+   * that set it, so concurrent evaluations report an unlock once
+   */
+  private async claimUnlock(userId: string, achievementId: string, now: Date): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('user_achievements')
+      .update({ unlocked_at: now.toISOString() })
+      .eq('user_id', userId)
+      .eq('achievement_id', achievementId)
+      .is('unlocked_at', null)
+      .select('achievement_id');
+
+    if (error) {
+      dbLogger.error('Failed to unlock achievement', error, {
+        context: 'achievements',
+        achievementId,
+      });
+      return false;
+    }
+
+    return Array.isArray(data) && data.length > 0;
+  }
+
+  /**
+   * Each rule's aggregate, computed by the database so an evaluation never
+   * reads the event log itself
+   */
+  private async getRuleValues(
+    userId: string,
+    rules: AchievementRule[],
+    now: Date
+  ): Promise<Map<string, number>> {
+    const { data, error } = await this.supabase.rpc('achievement_rule_values', {
+      p_user_id: userId,
+      p_rules: rules.map(rule => ({
+        id: rule.id,
+        eventTypes: rule.eventTypes,
+        conditions: rule.conditions,
+        aggregation: rule.aggregation,
+        field: rule.field ?? null,
+        since: windowStart(rule, now)?.toISOString() ?? null,
+      })),
+      p_now: now.toISOString(),
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return new Map(
+      Object.entries((data as Record<string, number | string>) || {}).map(([id, value]) => [
+        id,
+        Number(value),
+      ])
+    );
+  }
+
+  private async getProgress(
+    userId: string,
+    achievementIds: string[]
+  ): Promise<AchievementProgress[]> {
+    const { data, error } = await this.supabase
+      .from('user_achievements')
+      .select('achievement_id, progress, target, unlocked_at')
+      .eq('user_id', userId)
+      .in('achievement_id', achievementIds);
+
+    if (error) {
+      throw error;
+    }
+
+    return ((data as UserAchievementRow[]) || []).map(row => ({
+      achievementId: row.achievement_id,
+      progress: Number(row.progress),
+      target: Number(row.target),
+      unlockedAt: row.unlocked_at,
+    }));
+  }
+}
+
+let sharedService: AchievementService | null = null;
+
+/**
+ * Service backed by the admin client, shared so the rule cache is too;
+ * null when the database is not configured
+ */
+export async function getAchievementService(): Promise<AchievementService | null> {
+  if (!sharedService) {
+    const { supabaseAdmin } = await import('@/lib/supabase');
+    if (!supabaseAdmin) return null;
+    sharedService = new AchievementService(supabaseAdmin);
+  }
+  return sharedService;
+}
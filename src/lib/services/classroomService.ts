@@ -0,0 +1,985 @@
+/**
+ * Classroom Service - Classes, join codes, assignments and student progress
+ *
+ * Teacher accounts create classes; students join with the class's join code.
+ * An assignment copies its items (a vocabulary list's words, or images with
+ * the teacher's model description) so students work from a fixed set even
+ * if the source list changes. Students record a 0-1 score per item; a
+ * retried item replaces its earlier score. Completion and accuracy are
+ * computed from those scores whenever a teacher asks for them.
+ */
+
+import { randomInt } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { dbLogger } from '@/lib/logger';
+
+/** No 0/O or 1/I, so codes survive being read out or copied from a board */
+export const JOIN_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+export const JOIN_CODE_LENGTH = 6;
+
+/** Largest number of items copied into one assignment */
+export const MAX_ASSIGNMENT_ITEMS = 200;
+
+/** Postgres unique_violation */
+const UNIQUE_VIOLATION = '23505';
+
+/** Attempts at a fresh join code before giving up */
+const JOIN_CODE_ATTEMPTS = 5;
+
+export type ClassroomErrorCode =
+  | 'not_teacher'
+  | 'not_found'
+  | 'forbidden'
+  | 'invalid_join_code'
+  | 'own_class'
+  | 'archived'
+  | 'invalid_assignment';
+
+export class ClassroomError extends Error {
+  constructor(
+    public readonly code: ClassroomErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ClassroomError';
+  }
+}
+
+/** Response status for each error in the /api/classes routes */
+export const CLASSROOM_ERROR_STATUS: Record<ClassroomErrorCode, number> = {
+  not_teacher: 403,
+  not_found: 404,
+  forbidden: 403,
+  invalid_join_code: 404,
+  own_class: 400,
+  archived: 409,
+  invalid_assignment: 400,
+};
+
+export type AccountRole = 'learner' | 'teacher';
+export type ClassRole = 'teacher' | 'student';
+export type AssignmentType = 'image_set' | 'vocabulary_list';
+
+export interface ImageSetItem {
+  id: string;
+  imageUrl: string;
+  /**
+   * The teacher's model description students' writing is compared with;
+   * only in the teacher's copy, so students cannot read it before writing
+   */
+  description?: string;
+}
+
+export interface VocabularyAssignmentItem {
+  id: string;
+  text: string;
+  translation: string;
+}
+
+export type AssignmentItem = ImageSetItem | VocabularyAssignmentItem;
+
+export interface Classroom {
+  id: string;
+  teacherId: string;
+  name: string;
+  description: string | null;
+  /** Only shown to the class's teacher */
+  joinCode?: string;
+  archivedAt: string | null;
+  createdAt: string;
+  memberCount?: number;
+}
+
+export interface ClassAssignment {
+  id: string;
+  classId: string;
+  title: string;
+  instructions: string | null;
+  type: AssignmentType;
+  vocabularyListId: string | null;
+  items: AssignmentItem[];
+  dueAt: string | null;
+  createdAt: string;
+}
+
+export interface AssignmentResult {
+  assignmentId: string;
+  studentId: string;
+  itemId: string;
+  score: number;
+  completedAt: string;
+}
+
+export interface AssignmentStatus {
+  assignmentId: string;
+  completedItems: number;
+  totalItems: number;
+  /** 0-100 */
+  completion: number;
+  /** Mean item score, 0-100; null before any item is done */
+  accuracy: number | null;
+  /** When the last item was done, once all are */
+  completedAt: string | null;
+  overdue: boolean;
+}
+
+export interface ClassMemberProfile {
+  studentId: string;
+  name: string;
+  email: string | null;
+  joinedAt: string;
+}
+
+export interface StudentProgress extends ClassMemberProfile {
+  assignmentsCompleted: number;
+  assignmentsOverdue: number;
+  /** Share of all assigned items done, 0-100 */
+  completion: number;
+  /** Mean score over every item done, 0-100; null before any is done */
+  accuracy: number | null;
+  lastActivity: string | null;
+  assignments: AssignmentStatus[];
+}
+
+export interface AssignmentProgress {
+  assignmentId: string;
+  title: string;
+  dueAt: string | null;
+  studentsCompleted: number;
+  /** Mean completion across students, 0-100 */
+  completion: number;
+  accuracy: number | null;
+}
+
+export interface ClassProgressReport {
+  classId: string;
+  students: StudentProgress[];
+  assignments: AssignmentProgress[];
+}
+
+export interface CreateAssignmentInput {
+  title: string;
+  instructions?: string;
+  type: AssignmentType;
+  dueAt?: string;
+  vocabularyListId?: string;
+  images?: Array<{ imageUrl: string; description: string }>;
+}
+
+interface ClassRow {
+  id: string;
+  teacher_id: string;
+  name: string;
+  description: string | null;
+  join_code: string;
+  archived_at: string | null;
+  created_at: string;
+}
+
+interface AssignmentRow {
+  id: string;
+  class_id: string;
+  title: string;
+  instructions: string | null;
+  assignment_type: AssignmentType;
+  vocabulary_list_id: string | null;
+  items: AssignmentItem[];
+  due_at: string | null;
+  created_at: string;
+}
+
+interface ResultRow {
+  assignment_id: string;
+  student_id: string;
+  item_id: string;
+  score: number | string;
+  completed_at: string;
+}
+
+const CLASS_COLUMNS = 'id, teacher_id, name, description, join_code, archived_at, created_at';
+const ASSIGNMENT_COLUMNS =
+  'id, class_id, title, instructions, assignment_type, vocabulary_list_id, items, due_at, created_at';
+const RESULT_COLUMNS = 'assignment_id, student_id, item_id, score, completed_at';
+
+export function generateJoinCode(length: number = JOIN_CODE_LENGTH): string {
+  let code = '';
+  for (let i = 0; i < length; i++) {
+    code += JOIN_CODE_ALPHABET[randomInt(JOIN_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+/** Join codes as typed: any case, with spaces or dashes */
+export function normalizeJoinCode(code: string): string {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+const percent = (value: number) => Math.round(value * 100);
+
+const mean = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+/** One student's standing on one assignment, from their results for it */
+export function assignmentStatus(
+  assignment: ClassAssignment,
+  results: AssignmentResult[],
+  now: Date = new Date()
+): AssignmentStatus {
+  const itemIds = new Set(assignment.items.map(item => item.id));
+  const done = results.filter(
+    result => result.assignmentId === assignment.id && itemIds.has(result.itemId)
+  );
+  const totalItems = assignment.items.length;
+  const complete = totalItems > 0 && done.length >= totalItems;
+  const accuracy = mean(done.map(result => result.score));
+
+  return {
+    assignmentId: assignment.id,
+    completedItems: done.length,
+    totalItems,
+    completion: totalItems > 0 ? percent(done.length / totalItems) : 0,
+    accuracy: accuracy === null ? null : percent(accuracy),
+    completedAt: complete
+      ? done.reduce(
+          (latest, result) => (result.completedAt > latest ? result.completedAt : latest),
+          ''
+        )
+      : null,
+    overdue:
+      !complete && Boolean(assignment.dueAt) && Date.parse(assignment.dueAt!) < now.getTime(),
+  };
+}
+
+/** Per-student and per-assignment completion and accuracy for a class */
+export function summarizeClassProgress(
+  classId: string,
+  members: ClassMemberProfile[],
+  assignments: ClassAssignment[],
+  results: AssignmentResult[],
+  now: Date = new Date()
+): ClassProgressReport {
+  const byStudent = new Map<string, AssignmentResult[]>();
+  for (const result of results) {
+    byStudent.set(result.studentId, [...(byStudent.get(result.studentId) ?? []), result]);
+  }
+
+  const students: StudentProgress[] = members.map(member => {
+    const own = byStudent.get(member.studentId) ?? [];
+    const statuses = assignments.map(assignment => assignmentStatus(assignment, own, now));
+    const itemsTotal = statuses.reduce((sum, status) => sum + status.totalItems, 0);
+    const itemsDone = statuses.reduce((sum, status) => sum + status.completedItems, 0);
+    const counted = own.filter(result =>
+      assignments.some(
+        assignment =>
+          assignment.id === result.assignmentId &&
+          assignment.items.some(item => item.id === result.itemId)
+      )
+    );
+    const accuracy = mean(counted.map(result => result.score));
+
+    return {
+      ...member,
+      assignmentsCompleted: statuses.filter(status => status.completedAt).length,
+      assignmentsOverdue: statuses.filter(status => status.overdue).length,
+      completion: itemsTotal > 0 ? percent(itemsDone / itemsTotal) : 0,
+      accuracy: accuracy === null ? null : percent(accuracy),
+      lastActivity: counted.reduce<string | null>(
+        (latest, result) => (!latest || result.completedAt > latest ? result.completedAt : latest),
+        null
+      ),
+      assignments: statuses,
+    };
+  });
+
+  const assignmentProgress: AssignmentProgress[] = assignments.map(assignment => {
+    const statuses = students.map(
+      student => student.assignments.find(status => status.assignmentId === assignment.id)!
+    );
+    const completion = mean(statuses.map(status => status.completion));
+    const accuracy = mean(
+      statuses.filter(status => status.accuracy !== null).map(status => status.accuracy!)
+    );
+
+    return {
+      assignmentId: assignment.id,
+      title: assignment.title,
+      dueAt: assignment.dueAt,
+      studentsCompleted: statuses.filter(status => status.completedAt).length,
+      completion: completion === null ? 0 : Math.round(completion),
+      accuracy: accuracy === null ? null : Math.round(accuracy),
+    };
+  });
+
+  return { classId, students, assignments: assignmentProgress };
+}
+
+function classFromRow(row: ClassRow, role: ClassRole): Classroom {
+  return {
+    id: row.id,
+    teacherId: row.teacher_id,
+    name: row.name,
+    description: row.description,
+    ...(role === 'teacher' ? { joinCode: row.join_code } : {}),
+    archivedAt: row.archived_at,
+    createdAt: row.created_at,
+  };
+}
+
+function assignmentFromRow(row: AssignmentRow): ClassAssignment {
+  return {
+    id: row.id,
+    classId: row.class_id,
+    title: row.title,
+    instructions: row.instructions,
+    type: row.assignment_type,
+    vocabularyListId: row.vocabulary_list_id,
+    items: row.items ?? [],
+    dueAt: row.due_at,
+    createdAt: row.created_at,
+  };
+}
+
+function resultFromRow(row: ResultRow): AssignmentResult {
+  return {
+    assignmentId: row.assignment_id,
+    studentId: row.student_id,
+    itemId: row.item_id,
+    score: Number(row.score),
+    completedAt: row.completed_at,
+  };
+}
+
+/** An assignment as students receive it, without model descriptions */
+function studentCopy(assignment: ClassAssignment): ClassAssignment {
+  if (assignment.type !== 'image_set') {
+    return assignment;
+  }
+
+  return {
+    ...assignment,
+    items: (assignment.items as ImageSetItem[]).map(({ id, imageUrl }) => ({ id, imageUrl })),
+  };
+}
+
+/** Open assignments by due date, undated ones last */
+function byDueDate(a: ClassAssignment, b: ClassAssignment): number {
+  if (a.dueAt === b.dueAt) return a.createdAt.localeCompare(b.createdAt);
+  if (!a.dueAt) return 1;
+  if (!b.dueAt) return -1;
+  return a.dueAt.localeCompare(b.dueAt);
+}
+
+export class ClassroomService {
+  constructor(private readonly supabase: SupabaseClient) {}
+
+  async getAccountRole(userId: string): Promise<AccountRole> {
+    const { data, error } = await this.supabase
+      .from('users')
+      .select('account_role')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data?.account_role === 'teacher' ? 'teacher' : 'learner';
+  }
+
+  /** Make a user a teacher or a learner again; false when there is no such user */
+  async setAccountRole(userId: string, role: AccountRole): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('users')
+      .update({ account_role: role })
+      .eq('id', userId)
+      .select('id');
+
+    if (error) {
+      throw error;
+    }
+
+    return Array.isArray(data) && data.length > 0;
+  }
+
+  /** Classes the user teaches and classes they have joined */
+  async listClasses(userId: string): Promise<{ teaching: Classroom[]; enrolled: Classroom[] }> {
+    const [teachingResult, membershipResult] = await Promise.all([
+      this.supabase
+        .from('classes')
+        .select(CLASS_COLUMNS)
+        .eq('teacher_id', userId)
+        .order('created_at', { ascending: false }),
+      this.supabase.from('class_members').select('class_id').eq('student_id', userId),
+    ]);
+
+    if (teachingResult.error) throw teachingResult.error;
+    if (membershipResult.error) throw membershipResult.error;
+
+    const teachingRows = (teachingResult.data as ClassRow[]) || [];
+    const counts = await this.countMembers(teachingRows.map(row => row.id));
+    const teaching = teachingRows.map(row => ({
+      ...classFromRow(row, 'teacher'),
+      memberCount: counts.get(row.id) ?? 0,
+    }));
+
+    const enrolledIds = ((membershipResult.data as Array<{ class_id: string }>) || []).map(
+      row => row.class_id
+    );
+    if (enrolledIds.length === 0) {
+      return { teaching, enrolled: [] };
+    }
+
+    const { data: enrolledRows, error } = await this.supabase
+      .from('classes')
+      .select(CLASS_COLUMNS)
+      .in('id', enrolledIds)
+      .is('archived_at', null)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    return {
+      teaching,
+      enrolled: ((enrolledRows as ClassRow[]) || []).map(row => classFromRow(row, 'student')),
+    };
+  }
+
+  async createClass(
+    teacherId: string,
+    input: { name: string; description?: string }
+  ): Promise<Classroom> {
+    if ((await this.getAccountRole(teacherId)) !== 'teacher') {
+      throw new ClassroomError('not_teacher', 'Only teacher accounts can create classes');
+    }
+
+    for (let attempt = 0; attempt < JOIN_CODE_ATTEMPTS; attempt++) {
+      const { data, error } = await this.supabase
+        .from('classes')
+        .insert({
+          teacher_id: teacherId,
+          name: input.name.trim(),
+          description: input.description?.trim() || null,
+          join_code: generateJoinCode(),
+        })
+        .select(CLASS_COLUMNS)
+        .single();
+
+      if (!error) {
+        return { ...classFromRow(data as ClassRow, 'teacher'), memberCount: 0 };
+      }
+      // Another class already has this code; draw again
+      if (error.code !== UNIQUE_VIOLATION) {
+        throw error;
+      }
+    }
+
+    throw new Error('Could not generate a unique join code');
+  }
+
+  /** The class and the user's role in it; not_found for outsiders */
+  async getClass(
+    userId: string,
+    classId: string
+  ): Promise<{ classroom: Classroom; role: ClassRole }> {
+    const row = await this.getClassRow(classId);
+
+    if (row?.teacher_id === userId) {
+      const counts = await this.countMembers([row.id]);
+      return {
+        classroom: { ...classFromRow(row, 'teacher'), memberCount: counts.get(row.id) ?? 0 },
+        role: 'teacher',
+      };
+    }
+    if (row && !row.archived_at && (await this.isMember(classId, userId))) {
+      return { classroom: classFromRow(row, 'student'), role: 'student' };
+    }
+
+    throw new ClassroomError('not_found', 'Class not found');
+  }
+
+  /** Archived classes keep their results but leave students' class lists */
+  async archiveClass(teacherId: string, classId: string): Promise<void> {
+    await this.requireTeacherOf(teacherId, classId);
+
+    const { error } = await this.supabase
+      .from('classes')
+      .update({ archived_at: new Date().toISOString() })
+      .eq('id', classId);
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  /** Joining a class twice is not an error */
+  async joinClass(studentId: string, code: string): Promise<Classroom> {
+    const { data, error } = await this.supabase
+      .from('classes')
+      .select(CLASS_COLUMNS)
+      .eq('join_code', normalizeJoinCode(code))
+      .is('archived_at', null)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+    if (!data) {
+      throw new ClassroomError('invalid_join_code', 'No open class has this join code');
+    }
+
+    const row = data as ClassRow;
+    if (row.teacher_id === studentId) {
+      throw new ClassroomError('own_class', 'Teachers cannot join their own class');
+    }
+
+    const { error: insertError } = await this.supabase
+      .from('class_members')
+      .insert({ class_id: row.id, student_id: studentId });
+
+    if (insertError && insertError.code !== UNIQUE_VIOLATION) {
+      throw insertError;
+    }
+
+    dbLogger.info('Student joined class', { context: 'classroom', classId: row.id });
+    return classFromRow(row, 'student');
+  }
+
+  /** A teacher removing a student, or a student leaving */
+  async removeMember(userId: string, classId: string, studentId: string): Promise<boolean> {
+    if (userId !== studentId) {
+      await this.requireTeacherOf(userId, classId);
+    }
+
+    const { data, error } = await this.supabase
+      .from('class_members')
+      .delete()
+      .eq('class_id', classId)
+      .eq('student_id', studentId)
+      .select('id');
+
+    if (error) {
+      throw error;
+    }
+
+    return Array.isArray(data) && data.length > 0;
+  }
+
+  async getMembers(teacherId: string, classId: string): Promise<ClassMemberProfile[]> {
+    await this.requireTeacherOf(teacherId, classId);
+    return this.loadMembers(classId);
+  }
+
+  /**
+   * The class's assignments by due date; for students, each with their own
+   * status
+   */
+  async listAssignments(
+    userId: string,
+    classId: string,
+    now: Date = new Date()
+  ): Promise<Array<ClassAssignment & { status?: AssignmentStatus }>> {
+    const { role } = await this.getClass(userId, classId);
+
+    const { data, error } = await this.supabase
+      .from('class_assignments')
+      .select(ASSIGNMENT_COLUMNS)
+      .eq('class_id', classId);
+
+    if (error) {
+      throw error;
+    }
+
+    const assignments = ((data as AssignmentRow[]) || []).map(assignmentFromRow).sort(byDueDate);
+    if (role === 'teacher') {
+      return assignments;
+    }
+
+    const results = await this.loadResults(
+      assignments.map(assignment => assignment.id),
+      userId
+    );
+    return assignments.map(assignment => ({
+      ...studentCopy(assignment),
+      status: assignmentStatus(assignment, results, now),
+    }));
+  }
+
+  async getAssignment(
+    userId: string,
+    classId: string,
+    assignmentId: string,
+    now: Date = new Date()
+  ): Promise<ClassAssignment & { status?: AssignmentStatus }> {
+    const { role } = await this.getClass(userId, classId);
+    const assignment = await this.getAssignmentRow(classId, assignmentId);
+
+    if (role === 'teacher') {
+      return assignment;
+    }
+
+    const results = await this.loadResults([assignment.id], userId);
+    return { ...studentCopy(assignment), status: assignmentStatus(assignment, results, now) };
+  }
+
+  /**
+   * An image of an assignment with its model description, for reviewing a
+   * student's writing on the server
+   */
+  async getImageForReview(
+    studentId: string,
+    classId: string,
+    assignmentId: string,
+    itemId: string
+  ): Promise<{ imageUrl: string; description: string }> {
+    const { role } = await this.getClass(studentId, classId);
+    if (role !== 'student') {
+      throw new ClassroomError('forbidden', 'Only students submit assignment writing');
+    }
+
+    const assignment = await this.getAssignmentRow(classId, assignmentId);
+    const item =
+      assignment.type === 'image_set'
+        ? (assignment.items as ImageSetItem[]).find(image => image.id === itemId)
+        : undefined;
+    if (!item?.description) {
+      throw new ClassroomError(
+        'invalid_assignment',
+        `Item ${itemId} is not an image of this assignment`
+      );
+    }
+
+    return { imageUrl: item.imageUrl, description: item.description };
+  }
+
+  async createAssignment(
+    teacherId: string,
+    classId: string,
+    input: CreateAssignmentInput
+  ): Promise<ClassAssignment> {
+    const row = await this.requireTeacherOf(teacherId, classId);
+    if (row.archived_at) {
+      throw new ClassroomError('archived', 'Archived classes cannot get new assignments');
+    }
+
+    const items =
+      input.type === 'vocabulary_list'
+        ? await this.copyVocabularyList(teacherId, input.vocabularyListId)
+        : (input.images ?? []).map((image, index) => ({
+            id: `image-${index + 1}`,
+            imageUrl: image.imageUrl,
+            description: image.description.trim(),
+          }));
+
+    if (items.length === 0) {
+      throw new ClassroomError('invalid_assignment', 'An assignment needs at least one item');
+    }
+    if (items.length > MAX_ASSIGNMENT_ITEMS) {
+      throw new ClassroomError(
+        'invalid_assignment',
+        `An assignment can have at most ${MAX_ASSIGNMENT_ITEMS} items`
+      );
+    }
+
+    const { data, error } = await this.supabase
+      .from('class_assignments')
+      .insert({
+        class_id: classId,
+        title: input.title.trim(),
+        instructions: input.instructions?.trim() || null,
+        assignment_type: input.type,
+        vocabulary_list_id: input.type === 'vocabulary_list' ? input.vocabularyListId : null,
+        items,
+        due_at: input.dueAt ? new Date(input.dueAt).toISOString() : null,
+      })
+      .select(ASSIGNMENT_COLUMNS)
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return assignmentFromRow(data as AssignmentRow);
+  }
+
+  async deleteAssignment(
+    teacherId: string,
+    classId: string,
+    assignmentId: string
+  ): Promise<boolean> {
+    await this.requireTeacherOf(teacherId, classId);
+
+    const { data, error } = await this.supabase
+      .from('class_assignments')
+      .delete()
+      .eq('id', assignmentId)
+      .eq('class_id', classId)
+      .select('id');
+
+    if (error) {
+      throw error;
+    }
+
+    return Array.isArray(data) && data.length > 0;
+  }
+
+  /**
+   * Record a student's scores for items of an assignment; returns their
+   * status on it afterwards
+   */
+  async recordResults(
+    studentId: string,
+    classId: string,
+    assignmentId: string,
+    results: Array<{ itemId: string; score: number }>,
+    now: Date = new Date()
+  ): Promise<AssignmentStatus> {
+    const { role } = await this.getClass(studentId, classId);
+    if (role !== 'student') {
+      throw new ClassroomError('forbidden', 'Only students record assignment results');
+    }
+
+    const assignment = await this.getAssignmentRow(classId, assignmentId);
+    const itemIds = new Set(assignment.items.map(item => item.id));
+    const unknown = results.find(result => !itemIds.has(result.itemId));
+    if (unknown) {
+      throw new ClassroomError(
+        'invalid_assignment',
+        `Item ${unknown.itemId} is not part of this assignment`
+      );
+    }
+
+    if (results.length > 0) {
+      const { error } = await this.supabase.from('assignment_results').upsert(
+        results.map(result => ({
+          assignment_id: assignmentId,
+          student_id: studentId,
+          item_id: result.itemId,
+          score: Math.min(Math.max(result.score, 0), 1),
+          completed_at: now.toISOString(),
+        })),
+        { onConflict: 'assignment_id,student_id,item_id' }
+      );
+
+      if (error) {
+        throw error;
+      }
+    }
+
+    const stored = await this.loadResults([assignmentId], studentId);
+    return assignmentStatus(assignment, stored, now);
+  }
+
+  async getClassProgress(
+    teacherId: string,
+    classId: string,
+    now: Date = new Date()
+  ): Promise<ClassProgressReport> {
+    await this.requireTeacherOf(teacherId, classId);
+
+    const [members, assignmentsResult] = await Promise.all([
+      this.loadMembers(classId),
+      this.supabase.from('class_assignments').select(ASSIGNMENT_COLUMNS).eq('class_id', classId),
+    ]);
+
+    if (assignmentsResult.error) {
+      throw assignmentsResult.error;
+    }
+
+    const assignments = ((assignmentsResult.data as AssignmentRow[]) || [])
+      .map(assignmentFromRow)
+      .sort(byDueDate);
+    const results = await this.loadResults(assignments.map(assignment => assignment.id));
+
+    return summarizeClassProgress(classId, members, assignments, results, now);
+  }
+
+  private async getClassRow(classId: string): Promise<ClassRow | null> {
+    const { data, error } = await this.supabase
+      .from('classes')
+      .select(CLASS_COLUMNS)
+      .eq('id', classId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return (data as ClassRow | null) ?? null;
+  }
+
+  private async requireTeacherOf(userId: string, classId: string): Promise<ClassRow> {
+    const row = await this.getClassRow(classId);
+    if (!row) {
+      throw new ClassroomError('not_found', 'Class not found');
+    }
+    if (row.teacher_id !== userId) {
+      throw new ClassroomError('forbidden', "Only the class's teacher can do this");
+    }
+    return row;
+  }
+
+  private async isMember(classId: string, studentId: string): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('class_members')
+      .select('id')
+      .eq('class_id', classId)
+      .eq('student_id', studentId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return Boolean(data);
+  }
+
+  private async countMembers(classIds: string[]): Promise<Map<string, number>> {
+    const counts = new Map<string, number>();
+    if (classIds.length === 0) return counts;
+
+    const { data, error } = await this.supabase
+      .from('class_members')
+      .select('class_id')
+      .in('class_id', classIds);
+
+    if (error) {
+      throw error;
+    }
+
+    for (const row of (data as Array<{ class_id: string }>) || []) {
+      counts.set(row.class_id, (counts.get(row.class_id) ?? 0) + 1);
+    }
+    return counts;
+  }
+
+  private async loadMembers(classId: string): Promise<ClassMemberProfile[]> {
+    const { data, error } = await this.supabase
+      .from('class_members')
+      .select('student_id, joined_at')
+      .eq('class_id', classId)
+      .order('joined_at', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    const members = (data as Array<{ student_id: string; joined_at: string }>) || [];
+    if (members.length === 0) return [];
+
+    const { data: users, error: usersError } = await this.supabase
+      .from('users')
+      .select('id, email, full_name, username')
+      .in(
+        'id',
+        members.map(member => member.student_id)
+      );
+
+    if (usersError) {
+      throw usersError;
+    }
+
+    const profiles = new Map(
+      (
+        (users as Array<{
+          id: string;
+          email: string | null;
+          full_name: string | null;
+          username: string | null;
+        }>) || []
+      ).map(user => [user.id, user])
+    );
+
+    return members.map(member => {
+      const profile = profiles.get(member.student_id);
+      return {
+        studentId: member.student_id,
+        name: profile?.full_name || profile?.username || profile?.email || 'Student',
+        email: profile?.email ?? null,
+        joinedAt: member.joined_at,
+      };
+    });
+  }
+
+  private async getAssignmentRow(classId: string, assignmentId: string): Promise<ClassAssignment> {
+    const { data, error } = await this.supabase
+      .from('class_assignments')
+      .select(ASSIGNMENT_COLUMNS)
+      .eq('id', assignmentId)
+      .eq('class_id', classId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+    if (!data) {
+      throw new ClassroomError('not_found', 'Assignment not found');
+    }
+
+    return assignmentFromRow(data as AssignmentRow);
+  }
+
+  private async loadResults(
+    assignmentIds: string[],
+    studentId?: string
+  ): Promise<AssignmentResult[]> {
+    if (assignmentIds.length === 0) return [];
+
+    let query = this.supabase
+      .from('assignment_results')
+      .select(RESULT_COLUMNS)
+      .in('assignment_id', assignmentIds);
+    if (studentId) {
+      query = query.eq('student_id', studentId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw error;
+    }
+
+    return ((data as ResultRow[]) || []).map(resultFromRow);
+  }
+
+  /** The words of a list the teacher owns or that is public */
+  private async copyVocabularyList(
+    teacherId: string,
+    listId: string | undefined
+  ): Promise<VocabularyAssignmentItem[]> {
+    if (!listId) {
+      throw new ClassroomError('invalid_assignment', 'Choose a vocabulary list to assign');
+    }
+
+    const { data: list, error } = await this.supabase
+      .from('vocabulary_lists')
+      .select('id, created_by, is_public')
+      .eq('id', listId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+    if (!list || (list.created_by !== teacherId && !list.is_public)) {
+      throw new ClassroomError('invalid_assignment', 'Vocabulary list not found');
+    }
+
+    const { data: words, error: wordsError } = await this.supabase
+      .from('vocabulary_items')
+      .select('id, spanish_text, english_translation')
+      .eq('vocabulary_list_id', listId)
+      .order('created_at', { ascending: true })
+      .limit(MAX_ASSIGNMENT_ITEMS + 1);
+
+    if (wordsError) {
+      throw wordsError;
+    }
+
+    return (
+      (words as Array<{ id: string; spanish_text: string; english_translation: string }>) || []
+    ).map(word => ({
+      id: word.id,
+      text: word.spanish_text,
+      translation: word.english_translation,
+    }));
+  }
+}
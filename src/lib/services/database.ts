@@ -26,6 +26,8 @@ import type {
   PartOfSpeech,
   DifficultyNumber,
 } from "../../types/unified";
+import type { CEFRLevel, TextDifficultyAnalysis } from "@/lib/languages";
+import type { AnswerError, AnswerErrorCategory } from "@/lib/utils/answerErrors";
 
 // ==============================================
 // CONFIGURATION AND TYPES
@@ -235,6 +237,8 @@ export interface QAResponse {
   question_generated_by: string;
   model_version?: string;
   generation_confidence?: number;
+  error_categories?: AnswerErrorCategory[];
+  grammar_errors?: AnswerError[];
   created_at: string;
 }
 
@@ -245,6 +249,11 @@ export interface SavedDescription {
   image_id: string;
   english_description: string;
   spanish_description: string;
+  target_language?: LanguagePreference;
+  cefr_target?: CEFRLevel | null;
+  cefr_level?: CEFRLevel | null;
+  cefr_flagged?: boolean;
+  difficulty_analysis?: TextDifficultyAnalysis | null;
   description_style: DescriptionStyle;
   word_count_english?: number;
   word_count_spanish?: number;
@@ -991,6 +1000,8 @@ export class DatabaseService {
             question_generated_by: responseData.question_generated_by || "ai",
             model_version: responseData.model_version,
             generation_confidence: responseData.generation_confidence,
+            error_categories: responseData.error_categories || [],
+            grammar_errors: responseData.grammar_errors || [],
           },
         ])
         .select()
@@ -1060,6 +1071,11 @@ export class DatabaseService {
             image_id: descriptionData.image_id!,
             english_description: descriptionData.english_description!,
             spanish_description: descriptionData.spanish_description!,
+            target_language: descriptionData.target_language,
+            cefr_target: descriptionData.cefr_target,
+            cefr_level: descriptionData.cefr_level,
+            cefr_flagged: descriptionData.cefr_flagged || false,
+            difficulty_analysis: descriptionData.difficulty_analysis,
             description_style: descriptionData.description_style!,
             word_count_english: descriptionData.word_count_english,
             word_count_spanish: descriptionData.word_count_spanish,
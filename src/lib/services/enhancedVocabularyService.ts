@@ -10,6 +10,7 @@ import { translationService } from "./translationService";
 import { openAIService } from "./openaiService";
 import { vocabularyService as baseVocabularyService } from "./vocabularyService";
 import { safeParse, safeStringify } from "@/lib/utils/json-safe";
+import { getRegionalUsage } from "@/lib/languages";
 import { logger } from '@/lib/logger';
 
 interface EnhancedVocabularyItem {
@@ -25,6 +26,8 @@ interface EnhancedVocabularyItem {
   created_at: string;
   updated_at?: string;
   tags?: string[];
+  /** Regional Spanish variants the word is usual in */
+  regions?: string[];
   frequency_score?: number;
   mastery_level?: number;
   last_reviewed?: string;
@@ -136,6 +139,11 @@ export class EnhancedVocabularyService {
       }
     }
 
+    // Tag words that are only usual in some regions (carro, zumo, ...)
+    if (!item.regions) {
+      item.regions = getRegionalUsage(item.spanish_text)?.regions;
+    }
+
     // Generate context sentence if missing
     if (!item.context_sentence_spanish && openAIService.isAvailable()) {
       try {
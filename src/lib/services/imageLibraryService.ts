@@ -0,0 +1,306 @@
+/**
+ * Image Library Service - A user's own uploaded photos
+ *
+ * Uploads are re-encoded on the server: orientation is applied, the image is
+ * scaled down to MAX_IMAGE_DIMENSION and a square thumbnail is cut. Encoding
+ * from decoded pixels drops every metadata block (EXIF, GPS, XMP, IPTC), so
+ * no location or camera data from the original file is ever stored. Files go
+ * to the configured storage backend and each upload becomes an images row
+ * owned by the user.
+ */
+
+import { randomUUID } from 'crypto';
+import sharp from 'sharp';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  createImageStorage,
+  type ImageStorageBackend,
+  type ImageStorageBackendName,
+  type StoredImageObject,
+} from '@/lib/storage/imageStorage';
+import { dbLogger } from '@/lib/logger';
+
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+export const MAX_IMAGE_DIMENSION = 2048;
+export const THUMBNAIL_SIZE = 400;
+
+const ACCEPTED_FORMATS = new Set(['jpeg', 'png', 'webp', 'gif', 'avif', 'heif', 'tiff']);
+const OUTPUT_MIME_TYPE = 'image/webp';
+
+export type ImageUploadErrorCode = 'too_large' | 'unsupported_format' | 'invalid_image';
+
+export class ImageUploadError extends Error {
+  constructor(
+    public readonly code: ImageUploadErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ImageUploadError';
+  }
+}
+
+export interface ProcessedImage {
+  image: Buffer;
+  thumbnail: Buffer;
+  width: number;
+  height: number;
+  /** Dominant colour as #rrggbb */
+  color: string;
+}
+
+export type ImageVariant = 'full' | 'thumbnail';
+
+/** App URL of a stored image; only its owner can load it */
+export function libraryImageUrl(id: string, variant: ImageVariant = 'full'): string {
+  const url = `/api/images/library/${id}/file`;
+  return variant === 'thumbnail' ? `${url}?variant=thumbnail` : url;
+}
+
+export const LIBRARY_IMAGE_COLUMNS =
+  'id, user_id, url, thumbnail_url, description, alt_description, width, height, color, aspect_ratio, storage_backend, storage_key, thumbnail_storage_key, mime_type, file_size_bytes, usage_count, last_used, created_at, updated_at';
+
+export interface LibraryImageRow {
+  id: string;
+  user_id: string;
+  url: string;
+  thumbnail_url: string | null;
+  description: string | null;
+  alt_description: string | null;
+  width: number;
+  height: number;
+  color: string | null;
+  aspect_ratio: number | null;
+  storage_backend: ImageStorageBackendName;
+  storage_key: string;
+  thumbnail_storage_key: string | null;
+  mime_type: string | null;
+  file_size_bytes: number | null;
+  usage_count: number;
+  last_used: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ImageUploadOptions {
+  fileName?: string;
+  description?: string;
+}
+
+const toHex = (value: number) => Math.round(value).toString(16).padStart(2, '0');
+
+/** "IMG_2041 playa-cadiz.jpg" -> "IMG 2041 playa cadiz" */
+export function titleFromFileName(fileName: string): string {
+  return fileName
+    .replace(/\.[a-z0-9]+$/i, '')
+    .replace(/[-_]+/g, ' ')
+    .trim()
+    .slice(0, 200);
+}
+
+/**
+ * Resize, orient and re-encode an uploaded image, and cut its thumbnail.
+ * The output carries no metadata from the original file.
+ */
+export async function processUploadedImage(input: Buffer): Promise<ProcessedImage> {
+  if (input.length > MAX_UPLOAD_BYTES) {
+    throw new ImageUploadError(
+      'too_large',
+      `Images must be ${MAX_UPLOAD_BYTES / 1024 / 1024} MB or smaller`
+    );
+  }
+
+  let format: string | undefined;
+  try {
+    ({ format } = await sharp(input).metadata());
+  } catch {
+    throw new ImageUploadError('invalid_image', 'The file is not a readable image');
+  }
+  if (!format || !ACCEPTED_FORMATS.has(format)) {
+    throw new ImageUploadError(
+      'unsupported_format',
+      `Unsupported image format: ${format ?? 'unknown'}`
+    );
+  }
+
+  try {
+    // rotate() bakes the EXIF orientation into the pixels before it is dropped
+    const { data: image, info } = await sharp(input)
+      .rotate()
+      .resize(MAX_IMAGE_DIMENSION, MAX_IMAGE_DIMENSION, { fit: 'inside', withoutEnlargement: true })
+      .webp({ quality: 85 })
+      .toBuffer({ resolveWithObject: true });
+
+    const [thumbnail, stats] = await Promise.all([
+      sharp(image)
+        .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'cover' })
+        .webp({ quality: 75 })
+        .toBuffer(),
+      sharp(image).stats(),
+    ]);
+    const { r, g, b } = stats.dominant;
+
+    return {
+      image,
+      thumbnail,
+      width: info.width,
+      height: info.height,
+      color: `#${toHex(r)}${toHex(g)}${toHex(b)}`,
+    };
+  } catch {
+    throw new ImageUploadError('invalid_image', 'The image could not be processed');
+  }
+}
+
+export class ImageLibraryService {
+  constructor(
+    private readonly supabase: SupabaseClient,
+    private readonly storage: ImageStorageBackend
+  ) {}
+
+  /**
+   * Process and store an upload; the stored files are removed again if the
+   * images row cannot be written
+   */
+  async upload(
+    userId: string,
+    data: Buffer,
+    options: ImageUploadOptions = {}
+  ): Promise<LibraryImageRow> {
+    const processed = await processUploadedImage(data);
+    const id = randomUUID();
+    const storageKey = `${userId}/${id}.webp`;
+    const thumbnailKey = `${userId}/${id}-thumb.webp`;
+
+    await this.storage.put(storageKey, processed.image, OUTPUT_MIME_TYPE);
+    await this.storage.put(thumbnailKey, processed.thumbnail, OUTPUT_MIME_TYPE);
+
+    const title = options.fileName ? titleFromFileName(options.fileName) : null;
+    const { data: row, error } = await this.supabase
+      .from('images')
+      .insert({
+        id,
+        user_id: userId,
+        source: 'upload',
+        url: libraryImageUrl(id),
+        thumbnail_url: libraryImageUrl(id, 'thumbnail'),
+        description: options.description?.trim() || null,
+        alt_description: title || null,
+        width: processed.width,
+        height: processed.height,
+        color: processed.color,
+        aspect_ratio: Number((processed.width / processed.height).toFixed(3)),
+        storage_backend: this.storage.name,
+        storage_key: storageKey,
+        thumbnail_storage_key: thumbnailKey,
+        mime_type: OUTPUT_MIME_TYPE,
+        file_size_bytes: processed.image.length,
+      })
+      .select(LIBRARY_IMAGE_COLUMNS)
+      .single();
+
+    if (error || !row) {
+      await Promise.allSettled([
+        this.storage.delete(storageKey),
+        this.storage.delete(thumbnailKey),
+      ]);
+      throw error ?? new Error('Image was not saved');
+    }
+
+    return row as unknown as LibraryImageRow;
+  }
+
+  async list(
+    userId: string,
+    options: { limit?: number; offset?: number } = {}
+  ): Promise<{ images: LibraryImageRow[]; total: number }> {
+    const limit = options.limit ?? 24;
+    const offset = options.offset ?? 0;
+    const { data, count, error } = await this.supabase
+      .from('images')
+      .select(LIBRARY_IMAGE_COLUMNS, { count: 'exact' })
+      .eq('user_id', userId)
+      .eq('source', 'upload')
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw error;
+    }
+
+    return { images: (data ?? []) as unknown as LibraryImageRow[], total: count ?? 0 };
+  }
+
+  async get(userId: string, imageId: string): Promise<LibraryImageRow | null> {
+    const { data, error } = await this.supabase
+      .from('images')
+      .select(LIBRARY_IMAGE_COLUMNS)
+      .eq('id', imageId)
+      .eq('user_id', userId)
+      .eq('source', 'upload')
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return (data as unknown as LibraryImageRow | null) ?? null;
+  }
+
+  async readFile(
+    userId: string,
+    imageId: string,
+    variant: ImageVariant = 'full'
+  ): Promise<StoredImageObject | null> {
+    const image = await this.get(userId, imageId);
+    const key = variant === 'thumbnail' ? image?.thumbnail_storage_key : image?.storage_key;
+    if (!image || !key) return null;
+
+    return this.backendFor(image).get(key);
+  }
+
+  /** The stored image as a data URI, for regenerating descriptions */
+  async toDataUri(userId: string, imageId: string): Promise<string | null> {
+    const file = await this.readFile(userId, imageId);
+    return file ? `data:${file.contentType};base64,${file.body.toString('base64')}` : null;
+  }
+
+  async remove(userId: string, imageId: string): Promise<boolean> {
+    const image = await this.get(userId, imageId);
+    if (!image) return false;
+
+    const { error } = await this.supabase
+      .from('images')
+      .delete()
+      .eq('id', imageId)
+      .eq('user_id', userId);
+
+    if (error) {
+      throw error;
+    }
+
+    // The row is gone, so a leftover file is only wasted space
+    const backend = this.backendFor(image);
+    const results = await Promise.allSettled(
+      [image.storage_key, image.thumbnail_storage_key]
+        .filter((key): key is string => Boolean(key))
+        .map(key => backend.delete(key))
+    );
+    results.forEach(result => {
+      if (result.status === 'rejected') {
+        dbLogger.warn('Failed to delete stored image file', {
+          imageId,
+          error: result.reason instanceof Error ? result.reason.message : String(result.reason),
+        });
+      }
+    });
+
+    return true;
+  }
+
+  // Images keep the backend they were uploaded to if the default changes later
+  private backendFor(image: LibraryImageRow): ImageStorageBackend {
+    return image.storage_backend === this.storage.name
+      ? this.storage
+      : createImageStorage(image.storage_backend);
+  }
+}
@@ -1,6 +1,6 @@
 /**
  * Enhanced Phrase Extraction Service - Agent Gamma-3 Implementation
- * Extracts and categorizes Spanish vocabulary into 5 specific categories
+ * Extracts and categorizes target-language vocabulary into 5 specific categories
  */
 
 import { CategorizedPhrase } from "@/types/api";
@@ -12,6 +12,14 @@ import {
   inferInfinitive,
   generateContext,
 } from "../utils/phrase-helpers";
+import {
+  getLanguage,
+  DEFAULT_TARGET_LANGUAGE,
+  type PhraseCategory,
+  type TargetLanguageCode,
+} from "@/lib/languages";
+
+export type { PhraseCategory };
 
 export interface PhraseExtractionRequest {
   description: string;
@@ -19,15 +27,9 @@ export interface PhraseExtractionRequest {
   targetLevel: "beginner" | "intermediate" | "advanced";
   maxPhrases: number;
   categories?: PhraseCategory[];
+  language?: TargetLanguageCode;
 }
 
-export type PhraseCategory =
-  | "sustantivos"
-  | "verbos"
-  | "adjetivos"
-  | "adverbios"
-  | "frasesClaves";
-
 export interface CategoryConfig {
   name: PhraseCategory;
   displayName: string;
@@ -37,17 +39,18 @@ export interface CategoryConfig {
 }
 
 export class PhraseExtractor {
-  private static readonly CATEGORIES: Record<PhraseCategory, CategoryConfig> = {
+  private static readonly CATEGORIES: Record<
+    PhraseCategory,
+    Omit<CategoryConfig, "displayName">
+  > = {
     sustantivos: {
       name: "sustantivos",
-      displayName: "Sustantivos (Nouns)",
       color: "bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-300",
       maxItems: 8,
       priority: 1,
     },
     verbos: {
       name: "verbos",
-      displayName: "Verbos (Verbs)",
       color:
         "bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-300",
       maxItems: 6,
@@ -55,7 +58,6 @@ export class PhraseExtractor {
     },
     adjetivos: {
       name: "adjetivos",
-      displayName: "Adjetivos (Adjectives)",
       color:
         "bg-purple-100 text-purple-800 dark:bg-purple-900/20 dark:text-purple-300",
       maxItems: 6,
@@ -63,7 +65,6 @@ export class PhraseExtractor {
     },
     adverbios: {
       name: "adverbios",
-      displayName: "Adverbios (Adverbs)",
       color:
         "bg-orange-100 text-orange-800 dark:bg-orange-900/20 dark:text-orange-300",
       maxItems: 4,
@@ -71,7 +72,6 @@ export class PhraseExtractor {
     },
     frasesClaves: {
       name: "frasesClaves",
-      displayName: "Frases Clave (Key Phrases)",
       color: "bg-pink-100 text-pink-800 dark:bg-pink-900/20 dark:text-pink-300",
       maxItems: 6,
       priority: 5,
@@ -84,8 +84,15 @@ export class PhraseExtractor {
   static async extractCategorizedPhrases(
     request: PhraseExtractionRequest,
   ): Promise<Record<PhraseCategory, CategorizedPhrase[]>> {
-    const { description, imageUrl, targetLevel, maxPhrases, categories } =
-      request;
+    const {
+      description,
+      imageUrl,
+      targetLevel,
+      maxPhrases,
+      categories,
+      language = DEFAULT_TARGET_LANGUAGE,
+    } = request;
+    const isSpanish = language === "es";
 
     // Initialize result structure
     const result: Record<PhraseCategory, CategorizedPhrase[]> = {
@@ -104,6 +111,7 @@ export class PhraseExtractor {
       maxPhrases,
       categories:
         categories || (Object.keys(this.CATEGORIES) as PhraseCategory[]),
+      language,
     });
 
     // Process and categorize each extracted phrase
@@ -118,11 +126,16 @@ export class PhraseExtractor {
           phraseData.context || generateContext(phraseData.phrase, description),
         imageUrl,
         index,
-        gender: phraseData.gender || inferGender(phraseData.phrase),
-        article: phraseData.article || inferArticle(phraseData.phrase),
+        // Gender, article and infinitive inference only knows Spanish
+        gender:
+          phraseData.gender ||
+          (isSpanish ? inferGender(phraseData.phrase) : undefined),
+        article:
+          phraseData.article ||
+          (isSpanish ? inferArticle(phraseData.phrase) : undefined),
         conjugation:
           phraseData.conjugation ||
-          (phraseData.category === "verbos"
+          (isSpanish && phraseData.category === "verbos"
             ? inferInfinitive(phraseData.phrase)
             : undefined),
       });
@@ -136,9 +149,10 @@ export class PhraseExtractor {
     });
 
     // Sort each category alphabetically by sortKey
+    const { locale } = getLanguage(language);
     Object.keys(result).forEach((category) => {
       result[category as PhraseCategory].sort((a, b) =>
-        a.sortKey.localeCompare(b.sortKey, "es", { sensitivity: "base" }),
+        a.sortKey.localeCompare(b.sortKey, locale, { sensitivity: "base" }),
       );
     });
 
@@ -154,6 +168,7 @@ export class PhraseExtractor {
     targetLevel: string;
     maxPhrases: number;
     categories: PhraseCategory[];
+    language: TargetLanguageCode;
   }): Promise<any[]> {
     // This would integrate with actual AI service
     // For now, return intelligent mock data based on description
@@ -163,6 +178,7 @@ export class PhraseExtractor {
       params.targetLevel,
       params.maxPhrases,
       params.categories,
+      params.language,
     );
 
     return mockExtractions;
@@ -176,12 +192,15 @@ export class PhraseExtractor {
     targetLevel: string,
     maxPhrases: number,
     categories: PhraseCategory[],
+    language: TargetLanguageCode,
   ): Promise<any[]> {
     // Simulate AI processing delay
     await new Promise((resolve) => setTimeout(resolve, 1500));
 
     // Extract actual words from the description
     const extractedWords = this.extractWordsFromDescription(description);
+    const labels = getLanguage(language).phraseCategories;
+    const isSpanish = language === "es";
     const phrases: any[] = [];
     
     // Process the extracted words into categorized phrases
@@ -190,10 +209,10 @@ export class PhraseExtractor {
         phrases.push({
           phrase: noun,
           definition: this.generateDefinition(noun, "noun"),
-          partOfSpeech: "sustantivo",
+          partOfSpeech: labels.sustantivos.partOfSpeech,
           category: "sustantivos",
-          gender: this.inferSpanishGender(noun),
-          article: this.inferSpanishArticle(noun),
+          gender: isSpanish ? this.inferSpanishGender(noun) : undefined,
+          article: isSpanish ? this.inferSpanishArticle(noun) : undefined,
           context: this.generateContextFromDescription(noun, description),
         });
       });
@@ -204,7 +223,7 @@ export class PhraseExtractor {
         phrases.push({
           phrase: verb,
           definition: this.generateDefinition(verb, "verb"),
-          partOfSpeech: "verbo",
+          partOfSpeech: labels.verbos.partOfSpeech,
           category: "verbos",
           conjugation: verb,
           context: this.generateContextFromDescription(verb, description),
@@ -217,7 +236,7 @@ export class PhraseExtractor {
         phrases.push({
           phrase: adjective,
           definition: this.generateDefinition(adjective, "adjective"),
-          partOfSpeech: "adjetivo",
+          partOfSpeech: labels.adjetivos.partOfSpeech,
           category: "adjetivos",
           context: this.generateContextFromDescription(adjective, description),
         });
@@ -229,7 +248,7 @@ export class PhraseExtractor {
         phrases.push({
           phrase: adverb,
           definition: this.generateDefinition(adverb, "adverb"),
-          partOfSpeech: "adverbio",
+          partOfSpeech: labels.adverbios.partOfSpeech,
           category: "adverbios",
           context: this.generateContextFromDescription(adverb, description),
         });
@@ -241,13 +260,18 @@ export class PhraseExtractor {
         phrases.push({
           phrase: keyPhrase,
           definition: this.generateDefinition(keyPhrase, "phrase"),
-          partOfSpeech: "frase clave",
+          partOfSpeech: labels.frasesClaves.partOfSpeech,
           category: "frasesClaves",
           context: `Esta frase aparece en la descripción: "${keyPhrase}"`,
         });
       });
     }
     
+    // The common-vocabulary fallback below is Spanish only
+    if (!isSpanish) {
+      return phrases.slice(0, maxPhrases);
+    }
+
     // If we still need more phrases to meet the requested count, fallback to common vocabulary
     const wordsInDescription = description.toLowerCase().split(/\s+/);
 
@@ -713,17 +737,25 @@ export class PhraseExtractor {
   /**
    * Get category configuration
    */
-  static getCategoryConfig(category: PhraseCategory): CategoryConfig {
-    return this.CATEGORIES[category];
+  static getCategoryConfig(
+    category: PhraseCategory,
+    language: TargetLanguageCode = DEFAULT_TARGET_LANGUAGE,
+  ): CategoryConfig {
+    return {
+      ...this.CATEGORIES[category],
+      displayName: getLanguage(language).phraseCategories[category].displayName,
+    };
   }
 
   /**
    * Get all category configurations
    */
-  static getAllCategories(): CategoryConfig[] {
-    return Object.values(this.CATEGORIES).sort(
-      (a, b) => a.priority - b.priority,
-    );
+  static getAllCategories(
+    language: TargetLanguageCode = DEFAULT_TARGET_LANGUAGE,
+  ): CategoryConfig[] {
+    return (Object.keys(this.CATEGORIES) as PhraseCategory[])
+      .map((category) => this.getCategoryConfig(category, language))
+      .sort((a, b) => a.priority - b.priority);
   }
 
   /**
@@ -7,6 +7,10 @@ import { supabaseService } from "../api/supabase";
 import { getEnvironment } from "../../config/env";
 import { safeParse, safeStringify } from "@/lib/utils/json-safe";
 import { logger } from '@/lib/logger';
+import {
+  announceAchievements,
+  type UnlockedAchievement,
+} from "@/lib/achievements";
 
 interface UserProgress {
   userId: string;
@@ -29,7 +33,7 @@ interface UserProgress {
 interface SessionProgress {
   id: string;
   userId?: string;
-  sessionType: "study" | "quiz" | "review" | "exploration";
+  sessionType: "study" | "quiz" | "review" | "exploration" | "matching" | "writing";
   startTime: string;
   endTime?: string;
   duration?: number; // in seconds
@@ -149,6 +153,17 @@ interface ProgressFilter {
   offset?: number;
 }
 
+function badgeFromAchievement(achievement: UnlockedAchievement): Badge {
+  return {
+    id: achievement.id,
+    name: achievement.name,
+    description: achievement.description,
+    category: achievement.category,
+    earnedAt: achievement.unlockedAt,
+    rarity: achievement.rarity,
+  };
+}
+
 export class ProgressService {
   private cache = new Map<string, any>();
   private retryConfig: RetryConfig;
@@ -204,6 +219,15 @@ export class ProgressService {
       logger.warn("Failed to save session to database:", { error });
     }
 
+    if (config.userId) {
+      await this.recordAchievementEvent(
+        config.userId,
+        "session_started",
+        { sessionType: config.sessionType },
+        `session_started:${sessionId}`,
+      );
+    }
+
     return sessionId;
   }
 
@@ -296,6 +320,22 @@ export class ProgressService {
           correctAnswers: session.correctAnswers,
           timeSpent: Math.floor(duration / 60), // convert to minutes
         });
+
+        await this.recordAchievementEvent(
+          session.userId,
+          "session_completed",
+          {
+            sessionType: session.sessionType,
+            questionsAnswered: session.questionsAnswered,
+            correctAnswers: session.correctAnswers,
+            accuracy:
+              session.questionsAnswered > 0
+                ? session.correctAnswers / session.questionsAnswered
+                : 0,
+            durationSeconds: duration,
+          },
+          `session_completed:${sessionId}`,
+        );
       }
 
       this.clearCacheByPattern("progress_");
@@ -476,80 +516,49 @@ export class ProgressService {
   }
 
   /**
-   * Award badge
+   * Record a progress event with the achievement engine. Unlocked
+   * achievements become badges, award their experience and are announced;
+   * the event id makes a retried call unlock nothing twice.
    */
-  public async awardBadge(userId: string, badgeId: string): Promise<boolean> {
+  public async recordAchievementEvent(
+    userId: string,
+    type: string,
+    data: Record<string, unknown>,
+    eventId?: string,
+  ): Promise<UnlockedAchievement[]> {
     try {
-      const userProgress = await this.getUserProgress(userId);
-      if (!userProgress) return false;
-
-      // Check if badge already exists
-      const existingBadge = userProgress.badges.find((b) => b.id === badgeId);
-      if (existingBadge) return false;
-
-      const badge = this.getBadgeById(badgeId);
-      if (!badge) return false;
-
-      const updatedBadges = [
-        ...userProgress.badges,
-        { ...badge, earnedAt: new Date().toISOString() },
-      ];
-
-      await this.updateUserProgress(userId, {
-        badges: updatedBadges,
-        experienceGained:
-          badge.rarity === "legendary"
-            ? 500
-            : badge.rarity === "epic"
-              ? 200
-              : 50,
+      const response = await fetch("/api/achievements/events", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: safeStringify({ eventId, type, data }),
       });
+      if (!response.ok) return [];
 
-      this.clearCacheByPattern(`user_progress_${userId}`);
-      return true;
-    } catch (error) {
-      logger.warn("Failed to award badge:", { error });
-      return false;
-    }
-  }
+      const result = await response.json();
+      const unlocked: UnlockedAchievement[] = result.data?.unlocked ?? [];
+      if (unlocked.length === 0) return [];
 
-  /**
-   * Update achievement progress
-   */
-  public async updateAchievementProgress(
-    userId: string,
-    achievementId: string,
-    progress: number,
-  ): Promise<void> {
-    try {
       const userProgress = await this.getUserProgress(userId);
-      if (!userProgress) return;
-
-      const updatedAchievements = userProgress.achievements.map(
-        (achievement) => {
-          if (achievement.id === achievementId) {
-            const isNowCompleted =
-              progress >= achievement.target && !achievement.isCompleted;
-            return {
-              ...achievement,
-              progress: Math.min(progress, achievement.target),
-              isCompleted: progress >= achievement.target,
-              completedAt: isNowCompleted
-                ? new Date().toISOString()
-                : achievement.completedAt,
-            };
-          }
-          return achievement;
-        },
-      );
-
-      await this.updateUserProgress(userId, {
-        achievements: updatedAchievements,
-      });
+      if (userProgress) {
+        const earned = unlocked.filter(
+          (achievement) =>
+            !userProgress.badges.some((badge) => badge.id === achievement.id),
+        );
+        await this.updateUserProgress(userId, {
+          badges: [...userProgress.badges, ...earned.map(badgeFromAchievement)],
+          experienceGained: earned.reduce(
+            (sum, achievement) => sum + achievement.experiencePoints,
+            0,
+          ),
+        });
+        this.clearCacheByPattern(`user_progress_${userId}`);
+      }
 
-      this.clearCacheByPattern(`user_progress_${userId}`);
+      announceAchievements(unlocked);
+      return unlocked;
     } catch (error) {
-      logger.warn("Failed to update achievement progress:", { error });
+      logger.warn("Failed to record achievement event:", { error });
+      return [];
     }
   }
 
@@ -567,7 +576,7 @@ export class ProgressService {
       level: 1,
       experiencePoints: 0,
       badges: [],
-      achievements: this.getInitialAchievements(),
+      achievements: [],
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
     };
@@ -759,54 +768,6 @@ export class ProgressService {
     return [];
   }
 
-  private getInitialAchievements(): Achievement[] {
-    return [
-      {
-        id: "first_question",
-        name: "First Question",
-        description: "Answer your first question",
-        category: "milestone",
-        progress: 0,
-        target: 1,
-        isCompleted: false,
-        reward: { experiencePoints: 50 },
-      },
-      {
-        id: "vocabulary_collector",
-        name: "Vocabulary Collector",
-        description: "Learn 50 new vocabulary words",
-        category: "vocabulary",
-        progress: 0,
-        target: 50,
-        isCompleted: false,
-        reward: { experiencePoints: 200 },
-      },
-    ];
-  }
-
-  private getBadgeById(badgeId: string): Badge | null {
-    const badges: Badge[] = [
-      {
-        id: "accuracy_master",
-        name: "Accuracy Master",
-        description: "Achieve 90% accuracy in a session",
-        category: "accuracy",
-        earnedAt: "",
-        rarity: "rare",
-      },
-      {
-        id: "streak_champion",
-        name: "Streak Champion",
-        description: "Maintain a 7-day learning streak",
-        category: "streak",
-        earnedAt: "",
-        rarity: "epic",
-      },
-    ];
-
-    return badges.find((b) => b.id === badgeId) || null;
-  }
-
   private getDateRange(timeframe: string): { start: string; end: string } {
     const now = new Date();
     const start = new Date();
@@ -5,9 +5,24 @@
 import { withRetry, RetryConfig } from "../utils/error-retry";
 import { openAIService } from "./openaiService";
 import { translationService } from "./translationService";
-import { supabase } from "../supabase";
+import { supabase, supabaseAdmin } from "../supabase";
 import { safeParse, safeStringify } from "@/lib/utils/json-safe";
 import { createLogger, dbLogger, logger } from '@/lib/logger';
+import {
+  buildTypedQuestions,
+  gradeTypedAnswer,
+  type ImageRegion,
+  type LabelledImageRegion,
+  type QuestionKind,
+  type QuestionVocabularyEntry,
+} from "@/lib/utils/questionKinds";
+import {
+  analyzeAnswerErrors,
+  ANSWER_ERROR_CATEGORIES,
+  applyErrorPenalties,
+  type AnswerError,
+  type AnswerErrorCategory,
+} from "@/lib/utils/answerErrors";
 
 const qaLogger = createLogger('QAService');
 
@@ -15,8 +30,14 @@ interface QAItem {
   id: string;
   imageId?: string;
   imageUrl?: string;
+  /** Missing on items saved before typed questions; treated as free text */
+  kind?: QuestionKind;
   question: string;
   answer: string;
+  options?: string[];
+  correctOption?: number;
+  acceptedAnswers?: string[];
+  region?: ImageRegion;
   difficulty: "facil" | "medio" | "dificil";
   category: string;
   language: "es" | "en";
@@ -39,6 +60,12 @@ interface QAGenerationRequest {
   categories?: string[];
   imageUrl?: string;
   imageId?: string;
+  /** Defaults to free text only */
+  kinds?: QuestionKind[];
+  /** The user's saved words, used for gaps and multiple-choice distractors */
+  vocabulary?: QuestionVocabularyEntry[];
+  /** Labelled image areas for "what is this?" questions */
+  regions?: LabelledImageRegion[];
 }
 
 interface QAGenerationResponse {
@@ -46,7 +73,7 @@ interface QAGenerationResponse {
   totalGenerated: number;
   generationTime: number;
   cached: boolean;
-  source: "openai" | "fallback";
+  source: "openai" | "fallback" | "description";
 }
 
 interface AnswerValidationRequest {
@@ -55,14 +82,25 @@ interface AnswerValidationRequest {
   expectedAnswer: string;
   language: "es" | "en";
   strictMode?: boolean;
+  /** Recorded with the response for per-user weak-area stats */
+  userId?: string;
+  imageId?: string;
+  question?: string;
+  kind?: QuestionKind;
+  options?: string[];
+  correctOption?: number;
+  acceptedAnswers?: string[];
 }
 
-interface AnswerValidationResponse {
+export interface AnswerValidationResponse {
   isCorrect: boolean;
   confidence: number;
   feedback: string;
   suggestions?: string[];
   score: number; // 0-100
+  /** Near misses in the answer, each with its correction */
+  errors: AnswerError[];
+  correctedAnswer?: string;
   details: {
     exactMatch: boolean;
     semanticMatch: boolean;
@@ -86,6 +124,15 @@ interface QAFilter {
   offset?: number;
 }
 
+interface WeakAreaStat {
+  category: AnswerErrorCategory;
+  count: number;
+  /** Share of the analysed responses with at least one such error */
+  rate: number;
+  lastSeen: string;
+  examples: { original: string; correction: string }[];
+}
+
 interface QAStats {
   totalQuestions: number;
   byDifficulty: Record<string, number>;
@@ -93,6 +140,15 @@ interface QAStats {
   byLanguage: Record<string, number>;
   averageConfidence: number;
   validationRate: number;
+  /** Only filled in when stats are requested for a user */
+  weakAreas: WeakAreaStat[];
+  responsesAnalyzed: number;
+}
+
+interface QAResponseErrorRow {
+  error_categories: AnswerErrorCategory[] | null;
+  grammar_errors: AnswerError[] | null;
+  created_at: string;
 }
 
 export class QAService {
@@ -100,6 +156,8 @@ export class QAService {
   private retryConfig: RetryConfig;
   private readonly defaultTTL = 1800000; // 30 minutes
   private readonly maxCacheSize = 1000;
+  // Recent answers considered for weak-area stats
+  private readonly weakAreaWindow = 200;
 
   constructor() {
     this.retryConfig = {
@@ -137,17 +195,32 @@ export class QAService {
       };
     }
 
+    const kinds = request.kinds?.length ? request.kinds : ["free_text" as const];
+    const wantsFreeText = kinds.includes("free_text");
+
+    // Typed questions come from the content itself; free text fills the rest
+    const typedQuestions = this.generateTypedQuestions(
+      request,
+      wantsFreeText
+        ? request.count - Math.ceil(request.count / kinds.length)
+        : request.count,
+    );
+    const freeTextCount = wantsFreeText
+      ? request.count - typedQuestions.length
+      : 0;
+
     let questions: QAItem[] = [];
-    let source: "openai" | "fallback" = "fallback";
+    let source: QAGenerationResponse["source"] =
+      freeTextCount > 0 ? "fallback" : "description";
 
     // Try OpenAI generation first
-    if (openAIService.isAvailable()) {
+    if (freeTextCount > 0 && openAIService.isAvailable()) {
       try {
         const result = await withRetry(async () => {
           return await openAIService.generateQA(
             request.content,
             request.language,
-            request.count,
+            freeTextCount,
           );
         }, this.retryConfig);
 
@@ -162,11 +235,16 @@ export class QAService {
     }
 
     // Fallback to predefined questions
-    if (questions.length === 0) {
-      questions = this.generateFallbackQuestions(request);
+    if (freeTextCount > 0 && questions.length === 0) {
+      questions = this.generateFallbackQuestions({
+        ...request,
+        count: freeTextCount,
+      });
       source = "fallback";
     }
 
+    questions = [...questions, ...typedQuestions];
+
     // Store in database if available
     if (questions.length > 0) {
       try {
@@ -199,15 +277,14 @@ export class QAService {
       userAnswer: request.userAnswer,
       expectedAnswer: request.expectedAnswer,
     });
-    const cached = this.getFromCache(cacheKey);
+    let validation: AnswerValidationResponse | null =
+      this.getFromCache(cacheKey);
 
-    if (cached) {
-      return cached;
+    if (!validation) {
+      validation = await this.performAnswerValidation(request);
+      this.setCache(cacheKey, validation, 3600000); // 1 hour cache
     }
 
-    const validation = await this.performAnswerValidation(request);
-    this.setCache(cacheKey, validation, 3600000); // 1 hour cache
-
     // Record validation in database
     try {
       await this.recordAnswerValidation(request, validation);
@@ -304,10 +381,10 @@ export class QAService {
   }
 
   /**
-   * Get Q&A statistics
+   * Get Q&A statistics; with a user id, also their weakest grammar areas
    */
-  public async getQAStats(): Promise<QAStats> {
-    const cacheKey = "qa_stats";
+  public async getQAStats(userId?: string): Promise<QAStats> {
+    const cacheKey = `qa_stats_${userId ?? "all"}`;
     const cached = this.getFromCache(cacheKey);
 
     if (cached) {
@@ -324,8 +401,16 @@ export class QAService {
         byLanguage: {},
         averageConfidence: 0,
         validationRate: 0,
+        weakAreas: [],
+        responsesAnalyzed: 0,
       };
 
+      if (userId) {
+        const weakAreas = await this.getWeakAreas(userId);
+        stats.weakAreas = weakAreas.weakAreas;
+        stats.responsesAnalyzed = weakAreas.responsesAnalyzed;
+      }
+
       let totalConfidence = 0;
       let itemsWithConfidence = 0;
       let validatedItems = 0;
@@ -371,6 +456,8 @@ export class QAService {
         byLanguage: {},
         averageConfidence: 0,
         validationRate: 0,
+        weakAreas: [],
+        responsesAnalyzed: 0,
       };
     }
   }
@@ -427,6 +514,7 @@ export class QAService {
       id: this.generateId(),
       imageId: request.imageId,
       imageUrl: request.imageUrl,
+      kind: "free_text" as const,
       question: q.question,
       answer: q.answer,
       difficulty: q.difficulty || "medio",
@@ -501,6 +589,7 @@ export class QAService {
       id: this.generateId(),
       imageId: request.imageId,
       imageUrl: request.imageUrl,
+      kind: "free_text" as const,
       question: q.question,
       answer: q.answer,
       difficulty: q.difficulty,
@@ -515,9 +604,43 @@ export class QAService {
     }));
   }
 
+  private generateTypedQuestions(
+    request: QAGenerationRequest,
+    count: number,
+  ): QAItem[] {
+    if (count <= 0) return [];
+
+    const difficulty = request.difficulty || "facil";
+    return buildTypedQuestions({
+      description: request.content,
+      language: request.language,
+      count,
+      kinds: request.kinds,
+      vocabulary: request.vocabulary,
+      regions: request.regions,
+    }).map(({ explanation: _explanation, ...question }) => ({
+      ...question,
+      id: this.generateId(),
+      imageId: request.imageId,
+      imageUrl: request.imageUrl,
+      difficulty,
+      language: request.language,
+      createdAt: new Date().toISOString(),
+      metadata: {
+        source: "description",
+        confidence: 1,
+        validated: true,
+      },
+    }));
+  }
+
   private async performAnswerValidation(
     request: AnswerValidationRequest,
   ): Promise<AnswerValidationResponse> {
+    if (request.kind && request.kind !== "free_text") {
+      return this.validateTypedAnswer(request);
+    }
+
     const userAnswer = request.userAnswer.trim().toLowerCase();
     const expectedAnswer = request.expectedAnswer.trim().toLowerCase();
 
@@ -555,12 +678,24 @@ export class QAService {
     }
 
     const isCorrect = exactMatch || (semanticMatch && keywordMatch > 0.5);
-    const score = Math.round(confidence * 100);
+    const { errors, correctedAnswer } = exactMatch
+      ? { errors: [], correctedAnswer: request.userAnswer }
+      : analyzeAnswerErrors(
+          request.userAnswer,
+          request.expectedAnswer,
+          request.language,
+        );
+    const score = applyErrorPenalties(Math.round(confidence * 100), errors);
 
     let feedback = "";
-    const suggestions: string[] = [];
+    const suggestions: string[] = errors.map((error) => error.message);
 
-    if (isCorrect) {
+    if (isCorrect && errors.length > 0) {
+      feedback =
+        request.language === "es"
+          ? "¡Correcto! Revisa estos detalles para que sea perfecta."
+          : "Correct! Fix these details to make it perfect.";
+    } else if (isCorrect) {
       feedback =
         request.language === "es"
           ? "¡Correcto! Tu respuesta es apropiada."
@@ -586,11 +721,52 @@ export class QAService {
       feedback,
       suggestions,
       score,
+      errors,
+      correctedAnswer: errors.length > 0 ? correctedAnswer : undefined,
       details: {
         exactMatch,
         semanticMatch,
         keywordMatch: keywordMatch > 0.5,
-        grammarIssues: [], // Could be enhanced with grammar checking
+        grammarIssues: errors.map((error) => error.message),
+      },
+    };
+  }
+
+  /**
+   * Cloze, multiple-choice, true/false and image-region answers have a
+   * single right answer, so they are graded without the semantic check
+   */
+  private validateTypedAnswer(
+    request: AnswerValidationRequest,
+  ): AnswerValidationResponse {
+    const result = gradeTypedAnswer(
+      {
+        kind: request.kind!,
+        answer: request.expectedAnswer,
+        options: request.options,
+        correctOption: request.correctOption,
+        acceptedAnswers: request.acceptedAnswers,
+      },
+      request.userAnswer,
+      request.language,
+    );
+    const isCorrect =
+      result.isCorrect && !(request.strictMode && result.accentSlip);
+    const { errors, correctedAnswer } = result;
+
+    return {
+      isCorrect,
+      confidence: 1,
+      feedback: result.feedback,
+      suggestions: errors.map((error) => error.message),
+      score: isCorrect ? result.score : 0,
+      errors,
+      correctedAnswer,
+      details: {
+        exactMatch: result.exactMatch,
+        semanticMatch: result.isCorrect,
+        keywordMatch: result.isCorrect,
+        grammarIssues: errors.map((error) => error.message),
       },
     };
   }
@@ -802,10 +978,13 @@ export class QAService {
     request: AnswerValidationRequest,
     validation: AnswerValidationResponse,
   ): Promise<void> {
-    if (!supabase) return;
+    // On the server responses are written for the authenticated learner,
+    // which row-level security would refuse to the anonymous client
+    const client = supabaseAdmin ?? supabase;
+    if (!client) return;
 
     try {
-      await (supabase as any).from("answer_validations").upsert([
+      await (client as any).from("answer_validations").upsert([
         {
           questionId: request.questionId,
           userAnswer: request.userAnswer,
@@ -818,11 +997,84 @@ export class QAService {
           details: validation.details,
         } as never,
       ]);
+
+      await (client as any).from("qa_responses").insert([
+        {
+          user_id: request.userId,
+          image_id: request.imageId,
+          question: request.question ?? request.questionId,
+          correct_answer: request.expectedAnswer,
+          user_answer: request.userAnswer,
+          is_correct: validation.isCorrect,
+          similarity_score: validation.confidence,
+          question_type: request.kind ?? "free_text",
+          feedback_improvement: validation.correctedAnswer,
+          error_categories: Array.from(
+            new Set(validation.errors.map((error) => error.category)),
+          ),
+          grammar_errors: validation.errors,
+        } as never,
+      ]);
     } catch (error) {
       qaLogger.warn('Failed to record answer validation', error as Record<string, any>);
     }
   }
 
+  private async getWeakAreas(userId: string): Promise<{
+    weakAreas: WeakAreaStat[];
+    responsesAnalyzed: number;
+  }> {
+    if (!supabase) return { weakAreas: [], responsesAnalyzed: 0 };
+
+    const { data, error } = await (supabase as any)
+      .from("qa_responses")
+      .select("error_categories, grammar_errors, created_at")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false })
+      .limit(this.weakAreaWindow);
+
+    if (error) throw error;
+
+    const rows = (data || []) as QAResponseErrorRow[];
+    const areas = new Map<AnswerErrorCategory, WeakAreaStat>();
+
+    // Rows are newest first, so the first sighting is the latest
+    rows.forEach((row) => {
+      new Set(row.error_categories ?? []).forEach((category) => {
+        const area = areas.get(category) ?? {
+          category,
+          count: 0,
+          rate: 0,
+          lastSeen: row.created_at,
+          examples: [],
+        };
+        area.count++;
+        areas.set(category, area);
+      });
+
+      (row.grammar_errors ?? []).forEach((grammarError) => {
+        const area = areas.get(grammarError.category);
+        if (area && area.examples.length < 3) {
+          area.examples.push({
+            original: grammarError.original,
+            correction: grammarError.correction,
+          });
+        }
+      });
+    });
+
+    const weakAreas = Array.from(areas.values())
+      .map((area) => ({ ...area, rate: area.count / rows.length }))
+      .sort(
+        (a, b) =>
+          b.count - a.count ||
+          ANSWER_ERROR_CATEGORIES.indexOf(a.category) -
+            ANSWER_ERROR_CATEGORIES.indexOf(b.category),
+      );
+
+    return { weakAreas, responsesAnalyzed: rows.length };
+  }
+
   // Utility methods
   private generateCacheKey(prefix: string, data: any): string {
     return `${prefix}_${this.hashString(safeStringify(data))}`;
@@ -0,0 +1,235 @@
+/**
+ * Review Scheduling Service - Server-side spaced repetition state
+ *
+ * Resolves each user's configured scheduling algorithm and maps
+ * `user_vocabulary` rows to and from algorithm `ReviewCard`s, so review
+ * intervals are always computed on the server.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  createSchedulingAlgorithm,
+  isSchedulingAlgorithmName,
+  replayReviewHistory,
+  DEFAULT_SCHEDULING_ALGORITHM,
+  type SchedulingAlgorithm,
+  type SchedulingAlgorithmName,
+} from "@/lib/algorithms/scheduler";
+import type { ReviewCard } from "@/lib/algorithms/algorithm-interface";
+import {
+  DEFAULT_FSRS_WEIGHTS,
+  type FSRSReviewCard,
+} from "@/lib/algorithms/fsrs";
+import {
+  reviewLogsFromHistory,
+  type ReviewHistoryRow,
+} from "@/lib/algorithms/fsrs-optimizer";
+import { dbLogger } from "@/lib/logger";
+
+export interface UserSchedulingSettings {
+  algorithm: SchedulingAlgorithmName;
+  fsrsWeights: number[];
+  requestRetention: number;
+}
+
+export interface StoredFSRSParameters {
+  weights: number[];
+  fittedAt: string;
+  sampleSize: number;
+  logLoss: number;
+  rmse: number;
+}
+
+/**
+ * Scheduling columns of a `user_vocabulary` row
+ */
+export interface VocabularyReviewRow {
+  id: string;
+  ease_factor: number | null;
+  interval: number | null;
+  repetitions: number | null;
+  last_review_date: string | null;
+  next_review_date: string | null;
+  /** FSRS state as computed; null until FSRS schedules the item */
+  fsrs_stability: number | null;
+  fsrs_difficulty: number | null;
+}
+
+export interface ReplayResult {
+  algorithm: SchedulingAlgorithmName;
+  reviewsReplayed: number;
+  itemsUpdated: number;
+  failed: string[];
+}
+
+export type VocabularyReviewUpdate = Omit<VocabularyReviewRow, "id">;
+
+export const REVIEW_ROW_COLUMNS =
+  "id, ease_factor, interval, repetitions, last_review_date, next_review_date, fsrs_stability, fsrs_difficulty";
+
+/**
+ * Columns of a due card: its schedule plus the vocabulary item text a
+ * review session shows
+ */
+export const DUE_REVIEW_COLUMNS =
+  "*, vocabulary_item:vocabulary_items(spanish_text, english_translation, pronunciation_ipa, context_sentence_spanish, context_sentence_english, usage_notes)";
+
+/**
+ * Progress points awarded for one graded review
+ */
+export function reviewPoints(quality: number): number {
+  return quality >= 3 ? 10 : 5;
+}
+
+export function cardFromReviewRow(row: VocabularyReviewRow): ReviewCard {
+  const repetitions = row.repetitions ?? 0;
+  const card: ReviewCard = {
+    id: row.id,
+    imageId: row.id,
+    difficulty: "medium",
+    interval: row.interval ?? 0,
+    easeFactor: row.ease_factor ?? 2.5,
+    nextReviewDate: row.next_review_date
+      ? new Date(row.next_review_date)
+      : new Date(),
+    lastReviewDate: row.last_review_date
+      ? new Date(row.last_review_date)
+      : undefined,
+    // The table only keeps the current success streak; any recorded review
+    // means the card is no longer new
+    reviewCount: row.last_review_date ? Math.max(repetitions, 1) : 0,
+    successStreak: repetitions,
+  };
+
+  // Rows cached offline before these columns existed have neither field
+  if (row.fsrs_stability == null || row.fsrs_difficulty == null) {
+    return card;
+  }
+
+  const fsrsCard: FSRSReviewCard = {
+    ...card,
+    stability: Number(row.fsrs_stability),
+    fsrsDifficulty: Number(row.fsrs_difficulty),
+  };
+  return fsrsCard;
+}
+
+export function reviewRowFromCard(card: ReviewCard): VocabularyReviewUpdate {
+  const { stability, fsrsDifficulty } = card as Partial<FSRSReviewCard>;
+  return {
+    ease_factor: Number(card.easeFactor.toFixed(2)),
+    interval: card.interval,
+    repetitions: card.successStreak,
+    last_review_date: (card.lastReviewDate ?? new Date()).toISOString(),
+    next_review_date: card.nextReviewDate.toISOString(),
+    fsrs_stability: typeof stability === "number" ? stability : null,
+    fsrs_difficulty: typeof fsrsDifficulty === "number" ? fsrsDifficulty : null,
+  };
+}
+
+export class ReviewSchedulingService {
+  constructor(private readonly supabase: SupabaseClient) {}
+
+  async getUserSchedulingSettings(
+    userId: string,
+  ): Promise<UserSchedulingSettings> {
+    const { data } = await this.supabase
+      .from("user_settings")
+      .select("scheduling_algorithm, fsrs_parameters, fsrs_request_retention")
+      .eq("user_id", userId)
+      .single();
+
+    const stored = data?.fsrs_parameters as
+      | StoredFSRSParameters
+      | null
+      | undefined;
+
+    return {
+      algorithm: isSchedulingAlgorithmName(data?.scheduling_algorithm)
+        ? data.scheduling_algorithm
+        : DEFAULT_SCHEDULING_ALGORITHM,
+      fsrsWeights: stored?.weights ?? [...DEFAULT_FSRS_WEIGHTS],
+      requestRetention: Number(data?.fsrs_request_retention) || 0.9,
+    };
+  }
+
+  async getAlgorithmForUser(userId: string): Promise<SchedulingAlgorithm> {
+    const settings = await this.getUserSchedulingSettings(userId);
+    return createSchedulingAlgorithm(settings.algorithm, {
+      fsrsWeights: settings.fsrsWeights,
+      requestRetention: settings.requestRetention,
+    });
+  }
+
+  async getReviewHistory(userId: string): Promise<ReviewHistoryRow[]> {
+    const { data, error } = await this.supabase
+      .from("review_history")
+      .select("vocabulary_id, quality, created_at")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return (data as ReviewHistoryRow[]) || [];
+  }
+
+  async setSchedulingAlgorithm(
+    userId: string,
+    algorithm: SchedulingAlgorithmName,
+    requestRetention?: number,
+  ): Promise<void> {
+    const { error } = await this.supabase.from("user_settings").upsert(
+      {
+        user_id: userId,
+        scheduling_algorithm: algorithm,
+        ...(requestRetention ? { fsrs_request_retention: requestRetention } : {}),
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "user_id" },
+    );
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Recompute every vocabulary item's schedule from review_history with the
+   * user's current algorithm
+   */
+  async replayUserSchedules(userId: string): Promise<ReplayResult> {
+    const [rows, algorithm] = await Promise.all([
+      this.getReviewHistory(userId),
+      this.getAlgorithmForUser(userId),
+    ]);
+
+    const cards = replayReviewHistory(reviewLogsFromHistory(rows), algorithm);
+    const failed: string[] = [];
+    const updatedAt = new Date().toISOString();
+
+    for (const [itemId, card] of cards) {
+      const { error } = await this.supabase
+        .from("user_vocabulary")
+        .update({ ...reviewRowFromCard(card), updated_at: updatedAt })
+        .eq("id", itemId)
+        .eq("user_id", userId);
+
+      if (error) {
+        dbLogger.error("Failed to replay review state", error, {
+          context: "review-scheduling-replay",
+          itemId,
+        });
+        failed.push(itemId);
+      }
+    }
+
+    return {
+      algorithm: algorithm.name,
+      reviewsReplayed: rows.length,
+      itemsUpdated: cards.size - failed.length,
+      failed,
+    };
+  }
+}
@@ -0,0 +1,392 @@
+/**
+ * Review Sync Service - Applies reviews recorded offline
+ *
+ * Clients upload graded reviews with a client-generated event id and the
+ * time the review happened. Uploads are idempotent (an event id is only
+ * recorded once) and order independent: every upload rebuilds the item's
+ * schedule from its full history, so every device converges on the same
+ * state whatever order the uploads arrive in. Schedules the history does
+ * not account for, such as imported ones, are built on rather than reset.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ReviewCard } from '@/lib/algorithms/algorithm-interface';
+import { replayReviewHistory, type SchedulingAlgorithm } from '@/lib/algorithms/scheduler';
+import { reviewLogsFromHistory, type ReviewHistoryRow } from '@/lib/algorithms/fsrs-optimizer';
+import { dbLogger } from '@/lib/logger';
+import {
+  REVIEW_ROW_COLUMNS,
+  cardFromReviewRow,
+  reviewPoints,
+  reviewRowFromCard,
+  type ReviewSchedulingService,
+  type VocabularyReviewRow,
+  type VocabularyReviewUpdate,
+} from './reviewSchedulingService';
+
+/**
+ * Reviews timestamped further ahead than this are rejected as clock errors
+ */
+export const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+/** Postgres unique_violation */
+const UNIQUE_VIOLATION = '23505';
+
+export interface ReviewSyncEvent {
+  eventId: string;
+  itemId: string;
+  quality: number;
+  responseTimeMs?: number;
+  reviewedAt: string;
+}
+
+/**
+ * applied: recorded now; duplicate: recorded by an earlier upload;
+ * rejected: will never apply, do not retry; failed: transient, retry later
+ */
+export type ReviewSyncStatus = 'applied' | 'duplicate' | 'rejected' | 'failed';
+
+export type ReviewSyncRejection = 'item_not_found' | 'reviewed_in_future';
+
+export interface ReviewSyncSchedule extends VocabularyReviewUpdate {
+  updated_at: string;
+}
+
+export interface ReviewSyncResult {
+  eventId: string;
+  itemId: string;
+  status: ReviewSyncStatus;
+  reason?: ReviewSyncRejection | 'storage_error';
+  /** Set when the review arrived after newer reviews of the same item */
+  merged?: boolean;
+  /** The item's schedule after the upload; clients replace their cached copy with it */
+  schedule?: ReviewSyncSchedule;
+}
+
+export interface ReviewSyncReport {
+  algorithm: string;
+  results: ReviewSyncResult[];
+  pointsEarned: number;
+  /** False when the reviews were recorded but their points and streak were not */
+  progressRecorded: boolean;
+  currentStreak?: number;
+}
+
+type ReviewSyncRow = VocabularyReviewRow & { updated_at: string | null };
+
+type ItemHistoryRow = ReviewHistoryRow & { client_event_id: string | null };
+
+/**
+ * Deterministic processing order: by review time, then event id
+ */
+export function sortReviewSyncEvents(events: ReviewSyncEvent[]): ReviewSyncEvent[] {
+  return [...events].sort(
+    (a, b) =>
+      Date.parse(a.reviewedAt) - Date.parse(b.reviewedAt) ||
+      (a.eventId < b.eventId ? -1 : a.eventId > b.eventId ? 1 : 0)
+  );
+}
+
+export class ReviewSyncService {
+  constructor(
+    private readonly supabase: SupabaseClient,
+    private readonly scheduling: ReviewSchedulingService
+  ) {}
+
+  async applyEvents(
+    userId: string,
+    deviceId: string,
+    events: ReviewSyncEvent[],
+    now: Date = new Date()
+  ): Promise<ReviewSyncReport> {
+    const results = new Map<string, ReviewSyncResult>();
+    const pending: ReviewSyncEvent[] = [];
+    const recorded = await this.getRecordedEventIds(
+      userId,
+      events.map(event => event.eventId)
+    );
+
+    for (const event of sortReviewSyncEvents(events)) {
+      if (results.has(event.eventId)) {
+        // Repeated within the batch; the first copy is the one processed
+        continue;
+      }
+      if (recorded.has(event.eventId)) {
+        results.set(event.eventId, {
+          eventId: event.eventId,
+          itemId: event.itemId,
+          status: 'duplicate',
+        });
+      } else if (Date.parse(event.reviewedAt) > now.getTime() + MAX_CLOCK_SKEW_MS) {
+        results.set(event.eventId, {
+          eventId: event.eventId,
+          itemId: event.itemId,
+          status: 'rejected',
+          reason: 'reviewed_in_future',
+        });
+      } else {
+        results.set(event.eventId, {
+          eventId: event.eventId,
+          itemId: event.itemId,
+          status: 'failed',
+        });
+        pending.push(event);
+      }
+    }
+
+    const algorithm = await this.scheduling.getAlgorithmForUser(userId);
+    const applied: ReviewSyncEvent[] = [];
+    const itemIds = new Set(Array.from(results.values()).map(result => result.itemId));
+
+    for (const itemId of itemIds) {
+      const itemEvents = pending.filter(event => event.itemId === itemId);
+      const row = await this.getReviewRow(userId, itemId);
+
+      if (!row) {
+        for (const event of itemEvents) {
+          results.set(event.eventId, {
+            ...results.get(event.eventId)!,
+            status: 'rejected',
+            reason: 'item_not_found',
+          });
+        }
+        continue;
+      }
+
+      const inserted: ReviewSyncEvent[] = [];
+      for (const event of itemEvents) {
+        const status = await this.recordEvent(userId, deviceId, event, algorithm.name);
+        results.set(event.eventId, {
+          ...results.get(event.eventId)!,
+          status,
+          ...(status === 'failed' ? { reason: 'storage_error' as const } : {}),
+        });
+        if (status === 'applied') {
+          inserted.push(event);
+        }
+      }
+
+      const update = inserted.length
+        ? await this.updateSchedule(userId, row, inserted, algorithm)
+        : undefined;
+      const schedule: ReviewSyncSchedule | undefined = update
+        ? update.schedule
+        : { ...reviewRowWithoutId(row), updated_at: row.updated_at ?? now.toISOString() };
+
+      // A failed schedule write leaves the history in place; the next replay repairs it
+      for (const result of results.values()) {
+        if (result.itemId !== itemId || result.status === 'rejected') continue;
+        result.schedule = schedule;
+        if (update?.merged && result.status === 'applied') {
+          result.merged = true;
+        }
+      }
+      applied.push(...inserted);
+    }
+
+    const progress = await this.recordProgress(userId, applied);
+
+    return {
+      algorithm: algorithm.name,
+      results: Array.from(results.values()),
+      ...progress,
+    };
+  }
+
+  private async getRecordedEventIds(userId: string, eventIds: string[]): Promise<Set<string>> {
+    if (eventIds.length === 0) {
+      return new Set();
+    }
+
+    const { data, error } = await this.supabase
+      .from('review_history')
+      .select('client_event_id')
+      .eq('user_id', userId)
+      .in('client_event_id', eventIds);
+
+    if (error) {
+      throw error;
+    }
+
+    return new Set(
+      ((data as Array<{ client_event_id: string }>) || []).map(row => row.client_event_id)
+    );
+  }
+
+  private async getReviewRow(userId: string, itemId: string): Promise<ReviewSyncRow | null> {
+    const { data, error } = await this.supabase
+      .from('user_vocabulary')
+      .select(`${REVIEW_ROW_COLUMNS}, updated_at`)
+      .eq('id', itemId)
+      .eq('user_id', userId)
+      .single();
+
+    return error || !data ? null : (data as ReviewSyncRow);
+  }
+
+  private async recordEvent(
+    userId: string,
+    deviceId: string,
+    event: ReviewSyncEvent,
+    algorithm: string
+  ): Promise<ReviewSyncStatus> {
+    const { error } = await this.supabase.from('review_history').insert({
+      user_id: userId,
+      vocabulary_id: event.itemId,
+      quality: event.quality,
+      response_time_ms: event.responseTimeMs ?? null,
+      algorithm,
+      client_event_id: event.eventId,
+      device_id: deviceId,
+      created_at: new Date(event.reviewedAt).toISOString(),
+    });
+
+    if (!error) {
+      return 'applied';
+    }
+    // A concurrent upload of the same batch got there first
+    if (error.code === UNIQUE_VIOLATION) {
+      return 'duplicate';
+    }
+
+    dbLogger.error('Failed to record offline review', error, {
+      context: 'review-sync',
+      eventId: event.eventId,
+    });
+    return 'failed';
+  }
+
+  /**
+   * Rebuild the item from its whole history, which now includes the new
+   * reviews, so in-order and out-of-order uploads reach the same state.
+   * A stored schedule that its earlier history does not reach (imported
+   * with the item, for instance) is kept as the starting point instead.
+   */
+  private async updateSchedule(
+    userId: string,
+    row: ReviewSyncRow,
+    events: ReviewSyncEvent[],
+    algorithm: SchedulingAlgorithm
+  ): Promise<{ schedule: ReviewSyncSchedule; merged: boolean } | undefined> {
+    const lastReviewed = row.last_review_date ? Date.parse(row.last_review_date) : -Infinity;
+    const merged = events.some(event => Date.parse(event.reviewedAt) < lastReviewed);
+
+    const history = await this.getItemHistory(userId, row.id);
+    const newEventIds = new Set(events.map(event => event.eventId));
+    const previouslyReviewed = history
+      .filter(entry => !entry.client_event_id || !newEventIds.has(entry.client_event_id))
+      .reduce((latest, entry) => Math.max(latest, Date.parse(entry.created_at)), -Infinity);
+
+    const card =
+      previouslyReviewed >= lastReviewed
+        ? replayReviewHistory(reviewLogsFromHistory(history), algorithm).get(row.id)
+        : applyToStoredSchedule(row, events, algorithm);
+
+    if (!card) {
+      return undefined;
+    }
+
+    const schedule = { ...reviewRowFromCard(card), updated_at: new Date().toISOString() };
+    const { error } = await this.supabase
+      .from('user_vocabulary')
+      .update(schedule)
+      .eq('id', row.id)
+      .eq('user_id', userId);
+
+    if (error) {
+      dbLogger.error('Failed to update synced review state', error, {
+        context: 'review-sync',
+        itemId: row.id,
+      });
+      return undefined;
+    }
+
+    return { schedule, merged };
+  }
+
+  private async getItemHistory(userId: string, itemId: string): Promise<ItemHistoryRow[]> {
+    const { data, error } = await this.supabase
+      .from('review_history')
+      .select('vocabulary_id, quality, created_at, client_event_id')
+      .eq('user_id', userId)
+      .eq('vocabulary_id', itemId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return (data as ItemHistoryRow[]) || [];
+  }
+
+  /**
+   * Credit points and review counts to the day each review happened and
+   * update the streak, in one atomic call
+   */
+  private async recordProgress(
+    userId: string,
+    events: ReviewSyncEvent[]
+  ): Promise<Pick<ReviewSyncReport, 'pointsEarned' | 'progressRecorded' | 'currentStreak'>> {
+    if (events.length === 0) {
+      return { pointsEarned: 0, progressRecorded: true };
+    }
+
+    const byDate = new Map<string, { date: string; points: number; reviews: number }>();
+    for (const event of events) {
+      const date = new Date(event.reviewedAt).toISOString().split('T')[0];
+      const day = byDate.get(date) ?? { date, points: 0, reviews: 0 };
+      day.points += reviewPoints(event.quality);
+      day.reviews += 1;
+      byDate.set(date, day);
+    }
+
+    const { data, error } = await this.supabase.rpc('record_review_progress', {
+      p_user_id: userId,
+      p_days: Array.from(byDate.values()),
+    });
+
+    if (error) {
+      // The reviews themselves are recorded; only the points and streak are missing
+      dbLogger.error('Failed to record synced review progress', error, {
+        context: 'review-sync',
+        reviews: events.length,
+      });
+      return { pointsEarned: 0, progressRecorded: false };
+    }
+
+    const progress = data as { pointsEarned: number; currentStreak: number };
+    return {
+      pointsEarned: progress.pointsEarned,
+      progressRecorded: true,
+      currentStreak: progress.currentStreak,
+    };
+  }
+}
+
+/**
+ * Apply the reviews made after the stored schedule on top of it. Older
+ * reviews stay in the history but cannot change a state that already
+ * follows them.
+ */
+function applyToStoredSchedule(
+  row: ReviewSyncRow,
+  events: ReviewSyncEvent[],
+  algorithm: SchedulingAlgorithm
+): ReviewCard {
+  const lastReviewed = row.last_review_date ? Date.parse(row.last_review_date) : -Infinity;
+
+  return sortReviewSyncEvents(events)
+    .filter(event => Date.parse(event.reviewedAt) > lastReviewed)
+    .reduce(
+      (card, event) => algorithm.updateCard(card, event.quality, new Date(event.reviewedAt)),
+      cardFromReviewRow(row)
+    );
+}
+
+function reviewRowWithoutId({
+  id: _id,
+  updated_at: _updatedAt,
+  ...rest
+}: ReviewSyncRow): VocabularyReviewUpdate {
+  return rest;
+}
@@ -0,0 +1,410 @@
+/**
+ * Translation Memory - Remembered translations and a user glossary
+ *
+ * Translations are stored per user (and optionally per vocabulary list) and
+ * looked up before any LLM call: an exact match is reused as is, a fuzzy
+ * match is offered to the LLM as a reference. Glossary terms pin the
+ * translation of specific terms, e.g. a regional variant: a text that is a
+ * glossary term is answered from the glossary, terms inside a longer text are
+ * sent to the LLM as instructions, and the LLM's output is corrected
+ * afterwards if it used one of the term's listed alternatives.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { logger } from '@/lib/logger';
+
+export const FUZZY_MATCH_THRESHOLD = 0.75;
+const GLOSSARY_TTL_MS = 60 * 1000;
+
+export interface TranslationScope {
+  userId: string;
+  listId?: string | null;
+  /** Regional variant such as 'es-MX'; glossary terms for other regions are skipped */
+  region?: string | null;
+}
+
+export type TranslationMemoryOrigin = 'llm' | 'user';
+
+export interface TranslationMemoryMatch {
+  id: string;
+  listId: string | null;
+  sourceText: string;
+  targetText: string;
+  origin: TranslationMemoryOrigin;
+  /** 1 for an exact match */
+  similarity: number;
+  exact: boolean;
+}
+
+export interface GlossaryTerm {
+  id: string;
+  listId: string | null;
+  fromLanguage: string;
+  toLanguage: string;
+  sourceTerm: string;
+  targetTerm: string;
+  alternatives: string[];
+  region: string | null;
+  note: string | null;
+}
+
+export interface GlossaryApplication {
+  text: string;
+  /** Glossary terms found in the source text */
+  matched: GlossaryTerm[];
+  /** Alternatives that were replaced by the glossary translation */
+  corrections: Array<{ from: string; to: string }>;
+}
+
+export interface TranslationMemoryStats {
+  lookups: number;
+  exactHits: number;
+  fuzzyHits: number;
+  misses: number;
+  /** Share of lookups answered or assisted by the memory */
+  hitRate: number;
+  exactHitRate: number;
+  glossary: {
+    requests: number;
+    requestsWithTerms: number;
+    directHits: number;
+    corrections: number;
+    hitRate: number;
+  };
+}
+
+interface GlossaryTermRow {
+  id: string;
+  list_id: string | null;
+  from_language: string;
+  to_language: string;
+  source_term: string;
+  target_term: string;
+  alternatives: string[] | null;
+  region: string | null;
+  note: string | null;
+}
+
+interface MemoryMatchRow {
+  id: string;
+  list_id: string | null;
+  source_text: string;
+  target_text: string;
+  origin: TranslationMemoryOrigin;
+  similarity: number;
+}
+
+const fold = (text: string) => text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Whole-word, case- and accent-insensitive pattern for a term */
+function termPattern(term: string): RegExp {
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(fold(term))}(?![\\p{L}\\p{N}])`, 'gu');
+}
+
+/**
+ * Memory key for a segment: lowercased, whitespace collapsed, without
+ * surrounding quotes or trailing punctuation
+ */
+export function normalizeSegment(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^["'«“¿¡]+|["'»”.!?;:,]+$/g, '')
+    .trim();
+}
+
+function matchCase(replacement: string, original: string): string {
+  if (original === original.toUpperCase() && original !== original.toLowerCase()) {
+    return replacement.toUpperCase();
+  }
+  if (original[0] && original[0] === original[0].toUpperCase()) {
+    return replacement.charAt(0).toUpperCase() + replacement.slice(1);
+  }
+  return replacement;
+}
+
+/** Glossary terms that occur in the text, longest first */
+export function findGlossaryTerms(text: string, terms: GlossaryTerm[]): GlossaryTerm[] {
+  const folded = fold(text);
+  return terms
+    .filter(term => termPattern(term.sourceTerm).test(folded))
+    .sort((a, b) => b.sourceTerm.length - a.sourceTerm.length);
+}
+
+/** The glossary translation when the whole text is a glossary term */
+export function glossaryTranslation(text: string, terms: GlossaryTerm[]): GlossaryTerm | null {
+  const normalized = fold(normalizeSegment(text));
+  return terms.find(term => fold(normalizeSegment(term.sourceTerm)) === normalized) ?? null;
+}
+
+/** LLM instructions naming the required translation of each matched term */
+export function glossaryInstructions(terms: GlossaryTerm[]): string {
+  if (terms.length === 0) return '';
+  const lines = terms.map(
+    term => `- "${term.sourceTerm}" must be translated as "${term.targetTerm}"`
+  );
+  return `Use these term translations exactly:\n${lines.join('\n')}`;
+}
+
+/**
+ * Replace alternatives of matched terms in a translation with the glossary
+ * translation, keeping the capitalisation of the replaced word
+ */
+export function enforceGlossary(
+  sourceText: string,
+  translation: string,
+  terms: GlossaryTerm[]
+): GlossaryApplication {
+  const matched = findGlossaryTerms(sourceText, terms);
+  const corrections: GlossaryApplication['corrections'] = [];
+  let text = translation;
+
+  for (const term of matched) {
+    for (const alternative of term.alternatives) {
+      if (fold(alternative) === fold(term.targetTerm)) continue;
+      const pattern = termPattern(alternative);
+      const folded = fold(text);
+      // Folding keeps string length for Spanish text, so offsets carry over
+      if (folded.length !== text.length) continue;
+
+      let rebuilt = '';
+      let last = 0;
+      for (const match of folded.matchAll(pattern)) {
+        const start = match.index ?? 0;
+        const original = text.slice(start, start + match[0].length);
+        rebuilt += text.slice(last, start) + matchCase(term.targetTerm, original);
+        last = start + match[0].length;
+        corrections.push({ from: original, to: term.targetTerm });
+      }
+      text = rebuilt + text.slice(last);
+    }
+  }
+
+  return { text, matched, corrections };
+}
+
+function toGlossaryTerm(row: GlossaryTermRow): GlossaryTerm {
+  return {
+    id: row.id,
+    listId: row.list_id,
+    fromLanguage: row.from_language,
+    toLanguage: row.to_language,
+    sourceTerm: row.source_term,
+    targetTerm: row.target_term,
+    alternatives: row.alternatives ?? [],
+    region: row.region,
+    note: row.note,
+  };
+}
+
+async function defaultClient(): Promise<SupabaseClient | null> {
+  const { supabaseAdmin } = await import('@/lib/supabase');
+  return supabaseAdmin;
+}
+
+export class TranslationMemory {
+  private glossaryCache = new Map<string, { terms: GlossaryTerm[]; loadedAt: number }>();
+  private counters = {
+    lookups: 0,
+    exactHits: 0,
+    fuzzyHits: 0,
+    glossaryRequests: 0,
+    glossaryRequestsWithTerms: 0,
+    glossaryDirectHits: 0,
+    glossaryCorrections: 0,
+  };
+
+  constructor(private readonly getClient: () => Promise<SupabaseClient | null> = defaultClient) {}
+
+  /**
+   * Best remembered translation for a text; memory errors count as a miss
+   */
+  async lookup(
+    scope: TranslationScope,
+    text: string,
+    fromLanguage: string,
+    toLanguage: string
+  ): Promise<TranslationMemoryMatch | null> {
+    this.counters.lookups++;
+
+    try {
+      const client = await this.getClient();
+      if (!client) return null;
+
+      const { data, error } = await client.rpc('match_translation_memory', {
+        p_user_id: scope.userId,
+        p_list_id: scope.listId ?? null,
+        p_from_language: fromLanguage,
+        p_to_language: toLanguage,
+        p_text: normalizeSegment(text),
+        p_threshold: FUZZY_MATCH_THRESHOLD,
+        p_limit: 1,
+      });
+
+      if (error) throw error;
+
+      const row = (data as MemoryMatchRow[] | null)?.[0];
+      if (!row) return null;
+
+      const exact = row.similarity >= 1;
+      if (exact) this.counters.exactHits++;
+      else this.counters.fuzzyHits++;
+
+      // Mark as used in the background; a lost timestamp is harmless
+      void Promise.resolve(
+        client
+          .from('translation_memory')
+          .update({ last_used_at: new Date().toISOString() })
+          .eq('id', row.id)
+      ).catch(() => undefined);
+
+      return {
+        id: row.id,
+        listId: row.list_id,
+        sourceText: row.source_text,
+        targetText: row.target_text,
+        origin: row.origin,
+        similarity: row.similarity,
+        exact,
+      };
+    } catch (error) {
+      logger.warn('Translation memory lookup failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Store a translation; an existing entry for the same segment is replaced.
+   * Resolves to false when the entry could not be stored.
+   */
+  async remember(
+    scope: TranslationScope,
+    entry: {
+      sourceText: string;
+      targetText: string;
+      fromLanguage: string;
+      toLanguage: string;
+      origin: TranslationMemoryOrigin;
+    }
+  ): Promise<boolean> {
+    try {
+      const client = await this.getClient();
+      if (!client) return false;
+
+      const { error } = await client.from('translation_memory').upsert(
+        {
+          user_id: scope.userId,
+          list_id: scope.listId ?? null,
+          from_language: entry.fromLanguage,
+          to_language: entry.toLanguage,
+          source_text: entry.sourceText,
+          source_normalized: normalizeSegment(entry.sourceText),
+          target_text: entry.targetText,
+          origin: entry.origin,
+        },
+        { onConflict: 'user_id,list_id,from_language,to_language,source_normalized' }
+      );
+
+      if (error) throw error;
+      return true;
+    } catch (error) {
+      logger.warn('Failed to store translation memory entry', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+
+  /**
+   * The user's glossary for a language pair: list-independent terms plus the
+   * list's own, for the scope's region or for all regions
+   */
+  async getGlossary(
+    scope: TranslationScope,
+    fromLanguage: string,
+    toLanguage: string
+  ): Promise<GlossaryTerm[]> {
+    const key = `${scope.userId}:${fromLanguage}:${toLanguage}`;
+    const cached = this.glossaryCache.get(key);
+    let terms = cached && Date.now() - cached.loadedAt < GLOSSARY_TTL_MS ? cached.terms : null;
+
+    if (!terms) {
+      try {
+        const client = await this.getClient();
+        if (!client) return [];
+
+        const { data, error } = await client
+          .from('glossary_terms')
+          .select(
+            'id, list_id, from_language, to_language, source_term, target_term, alternatives, region, note'
+          )
+          .eq('user_id', scope.userId)
+          .eq('from_language', fromLanguage)
+          .eq('to_language', toLanguage);
+
+        if (error) throw error;
+
+        terms = ((data ?? []) as GlossaryTermRow[]).map(toGlossaryTerm);
+        this.glossaryCache.set(key, { terms, loadedAt: Date.now() });
+      } catch (error) {
+        logger.warn('Failed to load glossary', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return [];
+      }
+    }
+
+    return terms
+      .filter(term => term.listId === null || term.listId === (scope.listId ?? null))
+      .filter(term => term.region === null || term.region === (scope.region ?? term.region))
+      .sort((a, b) => Number(b.listId !== null) - Number(a.listId !== null));
+  }
+
+  /** Drop cached glossaries after the user edits theirs */
+  invalidateGlossary(userId: string): void {
+    for (const key of Array.from(this.glossaryCache.keys())) {
+      if (key.startsWith(`${userId}:`)) this.glossaryCache.delete(key);
+    }
+  }
+
+  /** Record how the glossary took part in one translation */
+  recordGlossaryUse(usage: { matched: number; direct?: boolean; corrections?: number }): void {
+    this.counters.glossaryRequests++;
+    if (usage.matched > 0) this.counters.glossaryRequestsWithTerms++;
+    if (usage.direct) this.counters.glossaryDirectHits++;
+    this.counters.glossaryCorrections += usage.corrections ?? 0;
+  }
+
+  getStats(): TranslationMemoryStats {
+    const { lookups, exactHits, fuzzyHits } = this.counters;
+    const glossaryRequests = this.counters.glossaryRequests;
+    return {
+      lookups,
+      exactHits,
+      fuzzyHits,
+      misses: lookups - exactHits - fuzzyHits,
+      hitRate: lookups ? (exactHits + fuzzyHits) / lookups : 0,
+      exactHitRate: lookups ? exactHits / lookups : 0,
+      glossary: {
+        requests: glossaryRequests,
+        requestsWithTerms: this.counters.glossaryRequestsWithTerms,
+        directHits: this.counters.glossaryDirectHits,
+        corrections: this.counters.glossaryCorrections,
+        hitRate: glossaryRequests ? this.counters.glossaryRequestsWithTerms / glossaryRequests : 0,
+      },
+    };
+  }
+
+  resetStats(): void {
+    Object.keys(this.counters).forEach(key => {
+      this.counters[key as keyof typeof this.counters] = 0;
+    });
+  }
+}
+
+export const translationMemory = new TranslationMemory();
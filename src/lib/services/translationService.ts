@@ -1,5 +1,16 @@
 import { withRetry, RetryConfig } from "../utils/error-retry";
 import { openAIService } from "./openaiService";
+import {
+  enforceGlossary,
+  findGlossaryTerms,
+  glossaryInstructions,
+  glossaryTranslation,
+  translationMemory,
+  type GlossaryTerm,
+  type TranslationMemoryMatch,
+  type TranslationScope,
+} from "./translationMemory";
+import { getVariantInstruction, isSpanishVariant } from "@/lib/languages";
 import { logger } from '@/lib/logger';
 
 interface CachedTranslation {
@@ -14,6 +25,10 @@ interface TranslationRequest {
   fromLanguage: string;
   toLanguage: string;
   context?: string;
+  /** Enables the user's translation memory and glossary */
+  userId?: string;
+  listId?: string;
+  region?: string;
 }
 
 interface TranslationResponse {
@@ -21,7 +36,11 @@ interface TranslationResponse {
   confidence: number;
   detectedLanguage: string;
   cached: boolean;
-  provider: "openai" | "fallback";
+  provider: "openai" | "fallback" | "memory" | "glossary";
+  /** Closest remembered translation, when one informed the result */
+  memoryMatch?: Pick<TranslationMemoryMatch, "sourceText" | "targetText" | "similarity">;
+  /** Glossary terms applied to the translation */
+  glossaryTerms?: string[];
 }
 
 interface BatchTranslationRequest {
@@ -85,6 +104,14 @@ export class TranslationService {
     // Validate input
     this.validateTranslationRequest(request);
 
+    if (request.userId && request.fromLanguage !== request.toLanguage) {
+      return this.translateWithMemory(request, {
+        userId: request.userId,
+        listId: request.listId,
+        region: request.region,
+      });
+    }
+
     // Generate cache key
     const cacheKey = this.generateCacheKey(request);
 
@@ -121,7 +148,10 @@ export class TranslationService {
     // Try OpenAI translation first
     if (openAIService.isAvailable()) {
       try {
-        const translation = await this.translateWithOpenAI(request);
+        const translation = await this.translateWithOpenAI(
+          request,
+          this.variantInstruction(request) || undefined,
+        );
         const response = {
           translation,
           confidence: 0.95,
@@ -165,6 +195,133 @@ export class TranslationService {
     return response;
   }
 
+  /**
+   * Translate with the user's glossary and translation memory. The memory
+   * takes the place of the shared cache, so glossary edits apply at once.
+   */
+  private async translateWithMemory(
+    request: TranslationRequest,
+    scope: TranslationScope,
+  ): Promise<TranslationResponse> {
+    const { text, fromLanguage, toLanguage } = request;
+    const glossary = await translationMemory.getGlossary(scope, fromLanguage, toLanguage);
+
+    // A text that is itself a glossary term never reaches the LLM
+    const direct = glossaryTranslation(text, glossary);
+    if (direct) {
+      translationMemory.recordGlossaryUse({ matched: 1, direct: true });
+      return {
+        translation: direct.targetTerm,
+        confidence: 1.0,
+        detectedLanguage: fromLanguage,
+        cached: true,
+        provider: "glossary",
+        glossaryTerms: [direct.sourceTerm],
+      };
+    }
+
+    const match = await translationMemory.lookup(scope, text, fromLanguage, toLanguage);
+    if (match?.exact) {
+      const { text: translation, matched, corrections } = enforceGlossary(text, match.targetText, glossary);
+      translationMemory.recordGlossaryUse({ matched: matched.length, corrections: corrections.length });
+      return {
+        translation,
+        confidence: match.origin === "user" ? 1.0 : 0.95,
+        detectedLanguage: fromLanguage,
+        cached: true,
+        provider: "memory",
+        memoryMatch: match,
+        glossaryTerms: this.termNames(matched),
+      };
+    }
+
+    const memoryMatch = match ?? undefined;
+
+    if (openAIService.isAvailable()) {
+      try {
+        const raw = await this.translateWithOpenAI(
+          request,
+          this.memoryInstructions(findGlossaryTerms(text, glossary), memoryMatch, request),
+        );
+        const { text: translation, matched, corrections } = enforceGlossary(text, raw, glossary);
+        translationMemory.recordGlossaryUse({ matched: matched.length, corrections: corrections.length });
+        await translationMemory.remember(scope, {
+          sourceText: text,
+          targetText: translation,
+          fromLanguage,
+          toLanguage,
+          origin: "llm",
+        });
+
+        return {
+          translation,
+          confidence: 0.95,
+          detectedLanguage: fromLanguage,
+          cached: false,
+          provider: "openai",
+          memoryMatch,
+          glossaryTerms: this.termNames(matched),
+        };
+      } catch (error) {
+        logger.warn("OpenAI translation failed, using memory or fallback", {
+          error: error instanceof Error ? { message: error.message, stack: error.stack } : error
+        });
+      }
+    }
+
+    // Without the LLM, a close remembered translation beats the dictionary
+    if (memoryMatch) {
+      translationMemory.recordGlossaryUse({ matched: 0 });
+      return {
+        translation: memoryMatch.targetText,
+        confidence: Math.round(memoryMatch.similarity * 0.8 * 100) / 100,
+        detectedLanguage: fromLanguage,
+        cached: true,
+        provider: "memory",
+        memoryMatch,
+      };
+    }
+
+    const fallback = await this.getFallbackTranslation(request);
+    const { text: translation, matched, corrections } = enforceGlossary(text, fallback, glossary);
+    translationMemory.recordGlossaryUse({ matched: matched.length, corrections: corrections.length });
+    return {
+      translation,
+      confidence: 0.7,
+      detectedLanguage: fromLanguage,
+      cached: false,
+      provider: "fallback",
+      glossaryTerms: this.termNames(matched),
+    };
+  }
+
+  private memoryInstructions(
+    terms: GlossaryTerm[],
+    match: TranslationMemoryMatch | undefined,
+    request: TranslationRequest,
+  ): string {
+    const parts = [this.variantInstruction(request), glossaryInstructions(terms)];
+    if (match) {
+      parts.push(
+        `A similar text was translated before; keep its wording where it fits:\n"${match.sourceText}" -> "${match.targetText}"`,
+      );
+    }
+    return parts.filter(Boolean).join("\n\n");
+  }
+
+  /**
+   * Regional variant guidance for translations into Spanish
+   */
+  private variantInstruction(request: TranslationRequest): string {
+    return request.toLanguage === "es" && isSpanishVariant(request.region)
+      ? getVariantInstruction(request.region)
+      : "";
+  }
+
+  private termNames(terms: GlossaryTerm[]): string[] | undefined {
+    return terms.length > 0 ? terms.map((term) => term.sourceTerm) : undefined;
+  }
+
   /**
    * Batch translate multiple texts
    */
@@ -405,16 +562,21 @@ export class TranslationService {
 
   private async translateWithOpenAI(
     request: TranslationRequest,
+    instructions?: string,
   ): Promise<string> {
     const result = await withRetry(async () => {
       return await openAIService.translateText({
-        text: request.text,
+        text: instructions
+          ? `${instructions}\n\nText to translate:\n"${request.text}"`
+          : request.text,
         fromLanguage: request.fromLanguage,
         toLanguage: request.toLanguage,
       });
     }, this.retryConfig);
 
-    return result.success && result.data ? result.data : (result as unknown as string);
+    const translation = result.success && result.data ? result.data : (result as unknown as string);
+    // Remove the quotes the model may copy from the prompt
+    return instructions ? translation.replace(/^["']|["']$/g, "").trim() : translation;
   }
 
   private async getFallbackTranslation(
@@ -527,7 +689,7 @@ export class TranslationService {
 
   private generateCacheKey(request: TranslationRequest): string {
     const contextHash = request.context ? this.hashString(request.context) : "";
-    return `${this.hashString(request.text)}_${request.fromLanguage}_${request.toLanguage}_${contextHash}`;
+    return `${this.hashString(request.text)}_${request.fromLanguage}_${request.toLanguage}_${contextHash}_${request.region ?? ""}`;
   }
 
   private getFromCache(key: string): CachedTranslation | null {
@@ -0,0 +1,83 @@
+/**
+ * Writing Review
+ * Corrects a learner's description of an image and compares it with a
+ * reference description and their saved vocabulary
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { apiLogger } from '@/lib/logger';
+import type { TargetLanguageCode } from '@/lib/languages';
+import { correctWritingWithClaude } from '@/lib/api/claude-server';
+import {
+  compareWithReference,
+  findVocabularyUsed,
+  type WritingReview,
+  type WritingVocabularyEntry,
+} from '@/lib/utils/writingExercise';
+
+/** Enough of a learner's vocabulary to spot the words they reach for */
+const MAX_VOCABULARY_ITEMS = 1000;
+
+export interface WritingReviewInput {
+  userId: string;
+  text: string;
+  referenceDescription: string;
+  language: TargetLanguageCode;
+  userApiKey?: string;
+}
+
+export async function reviewWriting(
+  supabase: SupabaseClient,
+  { userId, text, referenceDescription, language, userApiKey }: WritingReviewInput
+): Promise<WritingReview> {
+  const { data, error } = await supabase
+    .from('vocabulary_items')
+    .select(
+      `
+      id,
+      spanish_text,
+      english_translation,
+      vocabulary_lists!inner(created_by)
+    `
+    )
+    .eq('vocabulary_lists.created_by', userId)
+    .limit(MAX_VOCABULARY_ITEMS);
+
+  if (error) {
+    throw error;
+  }
+
+  const vocabulary: WritingVocabularyEntry[] = (data || []).map((item: any) => ({
+    id: item.id,
+    text: item.spanish_text,
+    translation: item.english_translation,
+  }));
+
+  // The comparison stands on its own; corrections are added when the AI is reachable
+  let correction: Pick<WritingReview, 'correctedText' | 'corrections' | 'feedback'> = {
+    correctedText: text,
+    corrections: [],
+    feedback: '',
+  };
+  let reviewed = false;
+  try {
+    correction = await correctWritingWithClaude(
+      text,
+      referenceDescription,
+      userApiKey || undefined,
+      language
+    );
+    reviewed = true;
+  } catch (claudeError) {
+    apiLogger.warn('Writing correction unavailable, returning comparison only', {
+      error: claudeError instanceof Error ? claudeError.message : String(claudeError),
+    });
+  }
+
+  return {
+    ...correction,
+    reviewed,
+    comparison: compareWithReference(text, referenceDescription),
+    vocabularyUsed: findVocabularyUsed(text, vocabulary),
+  };
+}
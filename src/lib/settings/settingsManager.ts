@@ -1,5 +1,6 @@
 import { logger, LogContext } from '@/lib/logger';
 import { safeStringify, toLogContext } from '@/lib/utils/json-safe';
+import type { SchedulingAlgorithmName } from '@/lib/algorithms/scheduler';
 
 export interface AppSettings {
   // API Configuration
@@ -29,6 +30,7 @@ export interface AppSettings {
     enableReminders: boolean;
     difficulty: "beginner" | "intermediate" | "advanced";
     autoAdvance: boolean;
+    schedulingAlgorithm: SchedulingAlgorithmName;
   };
 
   // Theme and Appearance
@@ -90,6 +92,7 @@ export const DEFAULT_SETTINGS: AppSettings = {
     enableReminders: true,
     difficulty: "intermediate",
     autoAdvance: false,
+    schedulingAlgorithm: "sm2",
   },
   theme: {
     mode: "system",
@@ -169,6 +172,10 @@ export class SettingsManager {
             ...DEFAULT_SETTINGS.apiKeys,
             ...data.settings.apiKeys
           };
+          mergedSettings.study = {
+            ...DEFAULT_SETTINGS.study,
+            ...data.settings.study
+          };
           return mergedSettings;
         }
       }
@@ -366,10 +373,36 @@ export class SettingsManager {
     section: K,
     updates: Partial<AppSettings[K]>,
   ): void {
+    const previousAlgorithm = this.settings.study.schedulingAlgorithm;
     this.settings[section] = { ...this.settings[section], ...updates };
     this.saveSettingsSync();
     this.applySettings();
     this.notifyListeners();
+
+    if (this.settings.study.schedulingAlgorithm !== previousAlgorithm) {
+      void this.syncSchedulingAlgorithm(this.settings.study.schedulingAlgorithm);
+    }
+  }
+
+  // Review intervals are computed server-side, so the chosen algorithm must
+  // be stored there too
+  private async syncSchedulingAlgorithm(
+    algorithm: SchedulingAlgorithmName,
+  ): Promise<void> {
+    if (typeof window === "undefined") return;
+
+    try {
+      const response = await fetch("/api/vocabulary/review/settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ algorithm }),
+      });
+      if (!response.ok) {
+        logger.warn("Failed to sync scheduling algorithm", { algorithm, status: response.status });
+      }
+    } catch (error) {
+      logger.warn("Failed to sync scheduling algorithm:", toLogContext(error));
+    }
   }
 
   // Reset settings to defaults
@@ -0,0 +1,115 @@
+/**
+ * BrowserSpeechProvider
+ * Speaks with the browser's speechSynthesis voices. Boundary events give
+ * exact word positions, so highlighting follows the voice.
+ */
+
+import {
+  DEFAULT_SPEECH_RATE,
+  SpeechError,
+  type SpeakOptions,
+  type SpeechProvider,
+  type SpeechRequest,
+} from './types';
+import { splitSpeechWords, wordIndexAtChar } from './words';
+
+export class BrowserSpeechProvider implements SpeechProvider {
+  public readonly name = 'browser' as const;
+
+  public isAvailable(): boolean {
+    return (
+      typeof window !== 'undefined' &&
+      !!window.speechSynthesis &&
+      typeof SpeechSynthesisUtterance !== 'undefined'
+    );
+  }
+
+  /** False once voices have loaded and none speaks the locale's language */
+  public hasVoiceFor(locale: string): boolean {
+    if (!this.isAvailable()) return false;
+    const voices = listVoices(window.speechSynthesis);
+    return voices.length === 0 || pickVoice(voices, locale) !== null;
+  }
+
+  public speak(request: SpeechRequest, options: SpeakOptions = {}): Promise<void> {
+    if (!this.isAvailable()) {
+      return Promise.reject(new SpeechError(this.name, 'Speech synthesis is not supported'));
+    }
+
+    const synth = window.speechSynthesis;
+    let utterance: SpeechSynthesisUtterance;
+    try {
+      // A new utterance replaces whatever is playing instead of queueing behind it
+      synth.cancel();
+
+      utterance = new SpeechSynthesisUtterance(request.text);
+      utterance.lang = request.locale;
+      utterance.rate = request.rate ?? DEFAULT_SPEECH_RATE;
+      const voice = pickVoice(listVoices(synth), request.locale, request.voice);
+      if (voice) utterance.voice = voice;
+    } catch (error) {
+      return Promise.reject(
+        new SpeechError(this.name, error instanceof Error ? error.message : String(error))
+      );
+    }
+
+    const words = splitSpeechWords(request.text);
+
+    return new Promise((resolve, reject) => {
+      utterance.onboundary = event => {
+        if (event.name && event.name !== 'word') return;
+        const index = wordIndexAtChar(words, event.charIndex);
+        if (index >= 0) options.onWord?.(index, words[index]);
+      };
+      utterance.onend = () => resolve();
+      utterance.onerror = event => {
+        // Stopping playback is not a failure
+        if (event.error === 'interrupted' || event.error === 'canceled') resolve();
+        else reject(new SpeechError(this.name, event.error));
+      };
+      options.signal?.addEventListener('abort', () => synth.cancel(), { once: true });
+
+      synth.speak(utterance);
+    });
+  }
+
+  public stop(): void {
+    if (this.isAvailable()) window.speechSynthesis.cancel();
+  }
+}
+
+/** The installed voices; none when the browser will not list them */
+function listVoices(synth: SpeechSynthesis): SpeechSynthesisVoice[] {
+  try {
+    return synth.getVoices() ?? [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * The best voice for a locale: the named voice, then an exact locale match,
+ * then any voice for the language. Installed (offline) voices win ties.
+ */
+export function pickVoice(
+  voices: SpeechSynthesisVoice[],
+  locale: string,
+  name?: string
+): SpeechSynthesisVoice | null {
+  if (name) {
+    const named = voices.find(voice => voice.name === name);
+    if (named) return named;
+  }
+
+  const normalized = locale.toLowerCase().replace('_', '-');
+  const language = normalized.split('-')[0];
+  const byPreference = (candidates: SpeechSynthesisVoice[]) =>
+    candidates.find(voice => voice.localService) ?? candidates[0] ?? null;
+
+  return (
+    byPreference(
+      voices.filter(voice => voice.lang.toLowerCase().replace('_', '-') === normalized)
+    ) ??
+    byPreference(voices.filter(voice => voice.lang.toLowerCase().split(/[-_]/)[0] === language))
+  );
+}
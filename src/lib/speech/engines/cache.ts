@@ -0,0 +1,109 @@
+/**
+ * SpeechAudioCache
+ * Keeps synthesized audio on the server's filesystem, under SPEECH_CACHE_DIR
+ * (default ".data/speech-cache"). Files are named by a hash of everything
+ * that changes the audio, so editing a word's text or picking another voice
+ * never plays stale audio. Each scope keeps at most SPEECH_CACHE_MAX_FILES
+ * files (default 2000); the least recently played are removed first.
+ */
+
+import { createHash } from 'crypto';
+import { mkdir, readdir, readFile, rename, rm, stat, utimes, writeFile } from 'fs/promises';
+import path from 'path';
+import {
+  DEFAULT_SPEECH_RATE,
+  type SpeechEngine,
+  type SpeechRequest,
+  type SynthesizedSpeech,
+} from '../types';
+
+export type CachedSpeech = SynthesizedSpeech & { cached: boolean };
+
+const SCOPE_PATTERN = /^[\w-]+(\/[\w-]+)*$/;
+
+const DEFAULT_MAX_FILES = 2000;
+
+export class SpeechAudioCache {
+  constructor(
+    private readonly root: string = process.env.SPEECH_CACHE_DIR ||
+      path.join(process.cwd(), '.data', 'speech-cache'),
+    private readonly maxFiles: number = Number(process.env.SPEECH_CACHE_MAX_FILES) ||
+      DEFAULT_MAX_FILES
+  ) {}
+
+  /**
+   * Cached audio for the request, synthesizing it on a miss. The scope
+   * groups files, e.g. "vocabulary/<itemId>" for one item's pronunciations.
+   */
+  public async getOrSynthesize(
+    engine: SpeechEngine,
+    request: Omit<SpeechRequest, 'vocabularyId'>,
+    scope: string = 'phrases'
+  ): Promise<CachedSpeech> {
+    const filePath = this.resolve(scope, cacheKey(engine, request));
+
+    try {
+      const audio = await readFile(filePath);
+      // The modification time records the last play, for eviction
+      const now = new Date();
+      await utimes(filePath, now, now).catch(() => undefined);
+      return { audio, contentType: 'audio/wav', cached: true };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+
+    const speech = await engine.synthesize(request);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    // Write then rename so a concurrent request never reads a partial file
+    const temporary = `${filePath}.${process.pid}.tmp`;
+    await writeFile(temporary, speech.audio);
+    await rename(temporary, filePath);
+    await this.evict(path.dirname(filePath));
+
+    return { ...speech, cached: false };
+  }
+
+  /** Drop every cached file in a scope, e.g. when an item is deleted */
+  public async clear(scope: string): Promise<void> {
+    await rm(this.resolve(scope), { recursive: true, force: true });
+  }
+
+  /** Remove the least recently played files beyond the limit */
+  private async evict(directory: string): Promise<void> {
+    const files = (await readdir(directory)).filter(file => file.endsWith('.wav'));
+    if (files.length <= this.maxFiles) return;
+
+    const played = await Promise.all(
+      files.map(async file => {
+        const filePath = path.join(directory, file);
+        const { mtimeMs } = await stat(filePath).catch(() => ({ mtimeMs: 0 }));
+        return { filePath, mtimeMs };
+      })
+    );
+    played.sort((a, b) => a.mtimeMs - b.mtimeMs);
+
+    await Promise.all(
+      played
+        .slice(0, files.length - this.maxFiles)
+        .map(({ filePath }) => rm(filePath, { force: true }))
+    );
+  }
+
+  private resolve(scope: string, file?: string): string {
+    if (!SCOPE_PATTERN.test(scope)) {
+      throw new Error(`Invalid speech cache scope: ${scope}`);
+    }
+    return file ? path.join(this.root, scope, file) : path.join(this.root, scope);
+  }
+}
+
+function cacheKey(engine: SpeechEngine, request: Omit<SpeechRequest, 'vocabularyId'>): string {
+  const parts = [
+    engine.name,
+    request.voice ?? '',
+    request.locale.toLowerCase(),
+    (request.rate ?? DEFAULT_SPEECH_RATE).toFixed(2),
+    request.text.normalize('NFC').trim(),
+  ];
+  return `${createHash('sha256').update(parts.join('\n')).digest('hex').slice(0, 32)}.wav`;
+}
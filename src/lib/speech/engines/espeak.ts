@@ -0,0 +1,86 @@
+/**
+ * EspeakSpeechEngine
+ * Offline synthesis with eSpeak NG, which ships voices for every language
+ * the app teaches. The binary is ESPEAK_PATH (default "espeak-ng").
+ */
+
+import { spawn } from 'child_process';
+import {
+  DEFAULT_SPEECH_RATE,
+  SpeechError,
+  type SpeechEngine,
+  type SpeechRequest,
+  type SynthesizedSpeech,
+} from '../types';
+
+/** eSpeak's default speaking rate, in words per minute */
+const BASE_WORDS_PER_MINUTE = 175;
+
+const DEFAULT_TIMEOUT_MS = 15000;
+
+/** eSpeak voice names where they differ from the lowercased locale */
+const ESPEAK_VOICES: Record<string, string> = {
+  'es-es': 'es',
+  'es-mx': 'es-419',
+  'es-ar': 'es-419',
+  'es-co': 'es-419',
+  'it-it': 'it',
+  'pt-pt': 'pt',
+  'fr-fr': 'fr-fr',
+  'en-us': 'en-us',
+  'en-gb': 'en-gb',
+  'pt-br': 'pt-br',
+};
+
+export function espeakVoice(locale: string): string {
+  const normalized = locale.toLowerCase().replace('_', '-');
+  return ESPEAK_VOICES[normalized] ?? normalized.split('-')[0];
+}
+
+export class EspeakSpeechEngine implements SpeechEngine {
+  public readonly name = 'espeak' as const;
+
+  constructor(
+    private readonly command: string = process.env.ESPEAK_PATH || 'espeak-ng',
+    private readonly timeoutMs: number = DEFAULT_TIMEOUT_MS
+  ) {}
+
+  public synthesize(request: Omit<SpeechRequest, 'vocabularyId'>): Promise<SynthesizedSpeech> {
+    const speed = Math.round(BASE_WORDS_PER_MINUTE * (request.rate ?? DEFAULT_SPEECH_RATE));
+    const args = ['--stdout', '--stdin', '-v', request.voice || espeakVoice(request.locale)];
+    args.push('-s', String(speed));
+
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.command, args, { stdio: ['pipe', 'pipe', 'pipe'] });
+      const audio: Buffer[] = [];
+      const errors: Buffer[] = [];
+
+      const timer = setTimeout(() => {
+        child.kill();
+        reject(new SpeechError(this.name, 'Synthesis timed out', 504));
+      }, this.timeoutMs);
+
+      child.stdout.on('data', (chunk: Buffer) => audio.push(chunk));
+      child.stderr.on('data', (chunk: Buffer) => errors.push(chunk));
+      child.on('error', error => {
+        clearTimeout(timer);
+        reject(
+          (error as NodeJS.ErrnoException).code === 'ENOENT'
+            ? new SpeechError(this.name, `${this.command} is not installed`, 503)
+            : new SpeechError(this.name, error.message)
+        );
+      });
+      child.on('close', code => {
+        clearTimeout(timer);
+        if (code !== 0 || audio.length === 0) {
+          const message = Buffer.concat(errors).toString('utf8').trim();
+          reject(new SpeechError(this.name, message || `Exited with code ${code}`));
+          return;
+        }
+        resolve({ audio: Buffer.concat(audio), contentType: 'audio/wav' });
+      });
+
+      child.stdin.end(request.text);
+    });
+  }
+}
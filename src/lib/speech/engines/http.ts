@@ -0,0 +1,66 @@
+/**
+ * Request validation and responses shared by the speech routes
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { apiLogger } from '@/lib/logger';
+import { asLogContext } from '@/lib/utils/typeGuards';
+import { SpeechError, type SynthesizedSpeech } from '../types';
+
+export const speechRequestSchema = z.object({
+  // Long enough for a full description
+  text: z.string().trim().min(1).max(5000),
+  locale: z.string().regex(/^[a-z]{2,3}([-_][A-Za-z0-9]{2,8})*$/),
+  rate: z.number().min(0.5).max(1.5).optional(),
+  // A voice name, never a path: eSpeak NG reads voice files from paths
+  voice: z
+    .string()
+    .regex(/^[a-z0-9+-]{1,40}$/i)
+    .optional(),
+});
+
+/** Synthesized audio as a response, telling whether the cache answered */
+export function speechResponse(speech: SynthesizedSpeech & { cached: boolean }): NextResponse {
+  return new NextResponse(new Uint8Array(speech.audio), {
+    headers: {
+      'Content-Type': speech.contentType,
+      'Content-Length': String(speech.audio.length),
+      // The same request always synthesizes the same audio
+      'Cache-Control': 'private, max-age=86400',
+      'X-Speech-Cache': speech.cached ? 'hit' : 'miss',
+    },
+  });
+}
+
+/** 503 when no engine is installed, 500 for anything else */
+export function speechErrorResponse(error: unknown): NextResponse {
+  if (error instanceof SpeechError && error.status === 503) {
+    return NextResponse.json(
+      { success: false, error: 'Speech synthesis is not available on this server' },
+      { status: 503 }
+    );
+  }
+
+  apiLogger.error('Failed to synthesize speech:', asLogContext(error));
+  return NextResponse.json(
+    { success: false, error: 'Failed to synthesize speech' },
+    { status: 500 }
+  );
+}
+
+/** 503 when no recognition model is set up, 500 for anything else */
+export function recognitionErrorResponse(error: unknown): NextResponse {
+  if (error instanceof SpeechError && error.status === 503) {
+    return NextResponse.json(
+      { success: false, error: 'Speech recognition is not available on this server' },
+      { status: 503 }
+    );
+  }
+
+  apiLogger.error('Failed to recognize speech:', asLogContext(error));
+  return NextResponse.json(
+    { success: false, error: 'Failed to recognize speech' },
+    { status: 500 }
+  );
+}
@@ -0,0 +1,48 @@
+/**
+ * Speech Engines
+ * Server-side synthesis behind /api/speech and recognition behind
+ * /api/speech/recognize. Import only from server code.
+ */
+
+import type {
+  RecognitionEngine,
+  RecognitionEngineName,
+  SpeechEngine,
+  SpeechEngineName,
+} from '../types';
+import { EspeakSpeechEngine } from './espeak';
+import { WhisperRecognitionEngine } from './whisper';
+
+export function createSpeechEngine(name: SpeechEngineName): SpeechEngine {
+  switch (name) {
+    case 'espeak':
+      return new EspeakSpeechEngine();
+  }
+}
+
+/** The engine /api/speech synthesizes with; eSpeak NG is the only one so far */
+export function getSpeechEngine(): SpeechEngine {
+  return createSpeechEngine('espeak');
+}
+
+export function createRecognitionEngine(name: RecognitionEngineName): RecognitionEngine {
+  switch (name) {
+    case 'whisper':
+      return new WhisperRecognitionEngine();
+  }
+}
+
+/** The engine /api/speech/recognize transcribes with; whisper.cpp is the only one so far */
+export function getRecognitionEngine(): RecognitionEngine {
+  return createRecognitionEngine('whisper');
+}
+
+export { EspeakSpeechEngine, espeakVoice } from './espeak';
+export { WhisperRecognitionEngine, cleanTranscript } from './whisper';
+export { SpeechAudioCache, type CachedSpeech } from './cache';
+export {
+  recognitionErrorResponse,
+  speechErrorResponse,
+  speechRequestSchema,
+  speechResponse,
+} from './http';
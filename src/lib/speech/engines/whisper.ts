@@ -0,0 +1,83 @@
+/**
+ * WhisperRecognitionEngine
+ * Offline recognition with whisper.cpp. The binary is WHISPER_PATH (default
+ * "whisper-cli") and the model file WHISPER_MODEL; a multilingual model
+ * such as ggml-base.bin covers every language the app teaches.
+ */
+
+import { spawn } from 'child_process';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { SpeechError, type RecognitionEngine, type RecognitionResult } from '../types';
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+/** whisper.cpp marks silence and noise as "[BLANK_AUDIO]", "(music)" and the like */
+const NON_SPEECH = /\[[^\]]*\]|\([^)]*\)/g;
+
+export function cleanTranscript(output: string): string {
+  return output.replace(NON_SPEECH, ' ').replace(/\s+/g, ' ').trim();
+}
+
+export class WhisperRecognitionEngine implements RecognitionEngine {
+  public readonly name = 'whisper' as const;
+
+  constructor(
+    private readonly command: string = process.env.WHISPER_PATH || 'whisper-cli',
+    private readonly model: string | undefined = process.env.WHISPER_MODEL,
+    private readonly timeoutMs: number = DEFAULT_TIMEOUT_MS
+  ) {}
+
+  public async transcribe(audio: Buffer, locale: string): Promise<RecognitionResult> {
+    if (!this.model) {
+      throw new SpeechError(this.name, 'WHISPER_MODEL is not set', 503);
+    }
+
+    const dir = await mkdtemp(path.join(os.tmpdir(), 'describe-it-speech-'));
+    const input = path.join(dir, 'recording.wav');
+    try {
+      await writeFile(input, audio);
+      const language = locale.toLowerCase().split(/[-_]/)[0];
+      const output = await this.run(['-m', this.model, '-f', input, '-l', language, '-nt', '-np']);
+
+      const transcript = cleanTranscript(output);
+      return { transcript, alternatives: transcript ? [transcript] : [] };
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  private run(args: string[]): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.command, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+      const output: Buffer[] = [];
+      const errors: Buffer[] = [];
+
+      const timer = setTimeout(() => {
+        child.kill();
+        reject(new SpeechError(this.name, 'Recognition timed out', 504));
+      }, this.timeoutMs);
+
+      child.stdout.on('data', (chunk: Buffer) => output.push(chunk));
+      child.stderr.on('data', (chunk: Buffer) => errors.push(chunk));
+      child.on('error', error => {
+        clearTimeout(timer);
+        reject(
+          (error as NodeJS.ErrnoException).code === 'ENOENT'
+            ? new SpeechError(this.name, `${this.command} is not installed`, 503)
+            : new SpeechError(this.name, error.message)
+        );
+      });
+      child.on('close', code => {
+        clearTimeout(timer);
+        if (code !== 0) {
+          const message = Buffer.concat(errors).toString('utf8').trim();
+          reject(new SpeechError(this.name, message || `Exited with code ${code}`));
+          return;
+        }
+        resolve(Buffer.concat(output).toString('utf8'));
+      });
+    });
+  }
+}
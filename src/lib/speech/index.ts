@@ -0,0 +1,108 @@
+/**
+ * Speech
+ * Pronunciation for words, phrases and descriptions. Browser voices are used
+ * when the device has one for the language; otherwise the server's offline
+ * engine synthesizes the audio. Speaking practice recognizes the learner's
+ * speech the same way: Web Speech in the browser, or a local model on the
+ * server. Server-only engine code lives in "@/lib/speech/engines".
+ */
+
+import { getLanguage, type SpanishVariantCode, type SupportedLanguageCode } from '@/lib/languages';
+import { BrowserSpeechProvider } from './browser';
+import { ServerSpeechProvider } from './server';
+import { BrowserSpeechRecognizer } from './recognition/browser';
+import { ServerSpeechRecognizer } from './recognition/server';
+import type {
+  SpeechProvider,
+  SpeechProviderName,
+  SpeechProviderPreference,
+  SpeechRecognizer,
+  SpeechRecognizerName,
+  SpeechRecognizerPreference,
+} from './types';
+
+const providers: Partial<Record<SpeechProviderName, SpeechProvider>> = {};
+const recognizers: Partial<Record<SpeechRecognizerName, SpeechRecognizer>> = {};
+
+/** Providers are shared so stopping one stops what any component started */
+export function createSpeechProvider(name: SpeechProviderName): SpeechProvider {
+  switch (name) {
+    case 'browser':
+      return (providers.browser ??= new BrowserSpeechProvider());
+    case 'server':
+      return (providers.server ??= new ServerSpeechProvider());
+  }
+}
+
+function preferenceFromEnv(): SpeechProviderPreference {
+  const value = process.env.NEXT_PUBLIC_SPEECH_PROVIDER;
+  return value === 'browser' || value === 'server' ? value : 'auto';
+}
+
+/**
+ * The provider to speak a locale with, from the preference or
+ * NEXT_PUBLIC_SPEECH_PROVIDER (default "auto"); null when nothing can play
+ */
+export function getSpeechProvider(
+  locale: string,
+  preference: SpeechProviderPreference = preferenceFromEnv()
+): SpeechProvider | null {
+  const browser = createSpeechProvider('browser') as BrowserSpeechProvider;
+  const server = createSpeechProvider('server');
+
+  if (preference === 'browser') return browser.isAvailable() ? browser : null;
+  if (preference === 'server') return server.isAvailable() ? server : null;
+
+  if (browser.isAvailable() && browser.hasVoiceFor(locale)) return browser;
+  return server.isAvailable() ? server : null;
+}
+
+/** Recognizers are shared so only one listens to the microphone at a time */
+export function createSpeechRecognizer(name: SpeechRecognizerName): SpeechRecognizer {
+  switch (name) {
+    case 'browser':
+      return (recognizers.browser ??= new BrowserSpeechRecognizer());
+    case 'server':
+      return (recognizers.server ??= new ServerSpeechRecognizer());
+  }
+}
+
+function recognizerPreferenceFromEnv(): SpeechRecognizerPreference {
+  const value = process.env.NEXT_PUBLIC_SPEECH_RECOGNIZER;
+  return value === 'browser' || value === 'server' ? value : 'auto';
+}
+
+/**
+ * The recognizer for speaking practice, from the preference or
+ * NEXT_PUBLIC_SPEECH_RECOGNIZER (default "auto": Web Speech when the browser
+ * has it); null when this browser cannot record at all
+ */
+export function getSpeechRecognizer(
+  preference: SpeechRecognizerPreference = recognizerPreferenceFromEnv()
+): SpeechRecognizer | null {
+  const browser = createSpeechRecognizer('browser');
+  const server = createSpeechRecognizer('server');
+
+  if (preference === 'browser') return browser.isAvailable() ? browser : null;
+  if (preference === 'server') return server.isAvailable() ? server : null;
+
+  if (browser.isAvailable()) return browser;
+  return server.isAvailable() ? server : null;
+}
+
+/** The locale to speak a language in, with the learner's Spanish variant */
+export function speechLocale(
+  language: SupportedLanguageCode,
+  variant?: SpanishVariantCode | null
+): string {
+  return language === 'es' && variant ? variant : getLanguage(language).locale;
+}
+
+export { BrowserSpeechProvider, pickVoice } from './browser';
+export { ServerSpeechProvider, fetchSpeechAudio, vocabularyAudioUrl } from './server';
+export { BrowserSpeechRecognizer } from './recognition/browser';
+export { ServerSpeechRecognizer, transcribeSpeech } from './recognition/server';
+export { encodeWav, RECOGNITION_SAMPLE_RATE } from './recognition/wav';
+export * from './pronunciation';
+export * from './words';
+export * from './types';
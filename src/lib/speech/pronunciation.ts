@@ -0,0 +1,144 @@
+/**
+ * Pronunciation scoring
+ *
+ * Aligns what the recognizer heard with the text the learner was asked to
+ * say, word by word, ignoring case, accents and punctuation (recognizers
+ * are inconsistent about all three). Each expected word gets an accuracy
+ * from its letter-level similarity to the word heard in its place, so a
+ * slightly mispronounced word counts for part of its weight.
+ */
+
+import { editDistance } from '@/lib/utils/answerErrors';
+import { normalizeAnswer } from '@/lib/utils/questionKinds';
+import type { RecognitionResult } from './types';
+import { splitSpeechWords } from './words';
+
+export type WordAccuracyStatus = 'correct' | 'close' | 'wrong' | 'missing';
+
+export interface WordAccuracy {
+  /** The expected word as written */
+  word: string;
+  /** What was heard in its place; missing words have none */
+  heard?: string;
+  /** 0-1 */
+  accuracy: number;
+  status: WordAccuracyStatus;
+}
+
+export interface PronunciationScore {
+  /** The recognizer alternative the score is for */
+  transcript: string;
+  words: WordAccuracy[];
+  /** Words said that are not in the expected text */
+  extraWords: string[];
+  /** 0-100 */
+  score: number;
+}
+
+/** Words at least this similar to the expected one were nearly right */
+const CLOSE_ACCURACY = 0.6;
+
+/** Extra words cost less than missing ones; learners often add "eh" or "el" */
+const EXTRA_WORD_WEIGHT = 0.5;
+
+/** Scores from here up count as a correct answer (grade 3 or better) */
+export const PRONUNCIATION_PASS_SCORE = 85;
+
+function wordAccuracy(heard: string, expected: string): number {
+  if (heard === expected) return 1;
+  const distance = editDistance(heard, expected);
+  return Math.max(0, 1 - distance / Math.max(heard.length, expected.length));
+}
+
+function statusFor(accuracy: number): WordAccuracyStatus {
+  if (accuracy === 1) return 'correct';
+  return accuracy >= CLOSE_ACCURACY ? 'close' : 'wrong';
+}
+
+function scoreTranscript(expectedText: string, transcript: string): PronunciationScore {
+  const expected = splitSpeechWords(expectedText).map(word => word.text);
+  const heard = splitSpeechWords(transcript).map(word => word.text);
+  const expectedKeys = expected.map(normalizeAnswer);
+  const heardKeys = heard.map(normalizeAnswer);
+
+  // cost[i][j]: aligning the first i heard words with the first j expected ones
+  const rows = heard.length + 1;
+  const cols = expected.length + 1;
+  const cost: number[][] = Array.from({ length: rows }, (_, i) =>
+    Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  const accuracy: number[][] = Array.from({ length: rows }, () => new Array(cols).fill(0));
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      accuracy[i][j] = wordAccuracy(heardKeys[i - 1], expectedKeys[j - 1]);
+      cost[i][j] = Math.min(
+        cost[i - 1][j] + 1,
+        cost[i][j - 1] + 1,
+        cost[i - 1][j - 1] + (1 - accuracy[i][j])
+      );
+    }
+  }
+
+  const words: WordAccuracy[] = [];
+  const extraWords: string[] = [];
+  let i = rows - 1;
+  let j = cols - 1;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && cost[i][j] === cost[i - 1][j - 1] + (1 - accuracy[i][j])) {
+      const wordScore = accuracy[i][j];
+      words.unshift({
+        word: expected[j - 1],
+        heard: heard[i - 1],
+        accuracy: wordScore,
+        status: statusFor(wordScore),
+      });
+      i--;
+      j--;
+    } else if (i > 0 && cost[i][j] === cost[i - 1][j] + 1) {
+      extraWords.unshift(heard[i - 1]);
+      i--;
+    } else {
+      words.unshift({ word: expected[j - 1], accuracy: 0, status: 'missing' });
+      j--;
+    }
+  }
+
+  const total = words.reduce((sum, word) => sum + word.accuracy, 0);
+  const weight = expected.length + EXTRA_WORD_WEIGHT * extraWords.length;
+  return {
+    transcript,
+    words,
+    extraWords,
+    score: weight > 0 ? Math.round((total / weight) * 100) : 0,
+  };
+}
+
+/**
+ * Scores what was said against the expected text, using whichever of the
+ * recognizer's alternatives matches best
+ */
+export function scorePronunciation(
+  expectedText: string,
+  result: RecognitionResult | string
+): PronunciationScore {
+  const alternatives =
+    typeof result === 'string' ? [result] : [result.transcript, ...result.alternatives];
+
+  return alternatives
+    .filter((transcript, index) => index === 0 || transcript.trim())
+    .map(transcript => scoreTranscript(expectedText, transcript.trim()))
+    .reduce((best, score) => (score.score > best.score ? score : best));
+}
+
+/**
+ * The spaced-repetition grade (0-4, as on the review buttons) a
+ * pronunciation score earns
+ */
+export function pronunciationGrade(score: number): number {
+  if (score >= 95) return 4;
+  if (score >= PRONUNCIATION_PASS_SCORE) return 3;
+  if (score >= 70) return 2;
+  if (score >= 50) return 1;
+  return 0;
+}
@@ -0,0 +1,129 @@
+/**
+ * BrowserSpeechRecognizer
+ * Web Speech recognition. Chrome and Safari recognize on their own servers,
+ * so classrooms that keep audio in-house set NEXT_PUBLIC_SPEECH_RECOGNIZER
+ * to "server".
+ */
+
+import {
+  SpeechError,
+  type ListenOptions,
+  type RecognitionResult,
+  type SpeechRecognizer,
+} from '../types';
+
+/** The parts of the Web Speech API used here; TypeScript's DOM types lack it */
+interface RecognitionAlternative {
+  transcript: string;
+}
+
+interface RecognitionResultList {
+  length: number;
+  [index: number]: { length: number; [index: number]: RecognitionAlternative };
+}
+
+interface WebSpeechRecognition {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  maxAlternatives: number;
+  onresult: ((event: { results: RecognitionResultList }) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+}
+
+type WebSpeechRecognitionConstructor = new () => WebSpeechRecognition;
+
+const DEFAULT_MAX_DURATION_MS = 15000;
+
+/** Errors that only mean nothing usable was heard */
+const SILENT_ERRORS = new Set(['aborted', 'no-speech']);
+
+function recognitionConstructor(): WebSpeechRecognitionConstructor | null {
+  if (typeof window === 'undefined') return null;
+  const speechWindow = window as unknown as {
+    SpeechRecognition?: WebSpeechRecognitionConstructor;
+    webkitSpeechRecognition?: WebSpeechRecognitionConstructor;
+  };
+  return speechWindow.SpeechRecognition ?? speechWindow.webkitSpeechRecognition ?? null;
+}
+
+/** Every alternative for what was said, joining any earlier final results */
+function alternativesFrom(results: RecognitionResultList): string[] {
+  if (results.length === 0) return [];
+
+  const earlier: string[] = [];
+  for (let i = 0; i < results.length - 1; i++) earlier.push(results[i][0].transcript.trim());
+
+  const last = results[results.length - 1];
+  const alternatives: string[] = [];
+  for (let i = 0; i < last.length; i++) {
+    alternatives.push([...earlier, last[i].transcript.trim()].join(' ').trim());
+  }
+  return alternatives;
+}
+
+export class BrowserSpeechRecognizer implements SpeechRecognizer {
+  public readonly name = 'browser' as const;
+  private recognition: WebSpeechRecognition | null = null;
+
+  public isAvailable(): boolean {
+    return recognitionConstructor() !== null;
+  }
+
+  public listen({
+    locale,
+    maxDurationMs = DEFAULT_MAX_DURATION_MS,
+    signal,
+  }: ListenOptions): Promise<RecognitionResult> {
+    const Recognition = recognitionConstructor();
+    if (!Recognition) {
+      return Promise.reject(new SpeechError(this.name, 'Speech recognition is not supported'));
+    }
+
+    this.recognition?.abort();
+    const recognition = new Recognition();
+    recognition.lang = locale;
+    recognition.continuous = false;
+    recognition.interimResults = false;
+    recognition.maxAlternatives = 5;
+    this.recognition = recognition;
+
+    return new Promise((resolve, reject) => {
+      let alternatives: string[] = [];
+      let failure: SpeechError | null = null;
+      const timer = setTimeout(() => recognition.stop(), maxDurationMs);
+
+      recognition.onresult = event => {
+        alternatives = alternativesFrom(event.results);
+      };
+      recognition.onerror = event => {
+        if (SILENT_ERRORS.has(event.error)) return;
+        failure = new SpeechError(
+          this.name,
+          `Recognition failed: ${event.error}`,
+          event.error === 'not-allowed' ? 403 : undefined
+        );
+      };
+      recognition.onend = () => {
+        clearTimeout(timer);
+        if (this.recognition === recognition) this.recognition = null;
+        if (failure) {
+          reject(failure);
+        } else {
+          resolve({ transcript: alternatives[0] ?? '', alternatives });
+        }
+      };
+      signal?.addEventListener('abort', () => recognition.abort(), { once: true });
+
+      recognition.start();
+    });
+  }
+
+  public stop(): void {
+    this.recognition?.stop();
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * ServerSpeechRecognizer
+ * Records the microphone and sends the audio to /api/speech/recognize,
+ * where a local model transcribes it, so no audio leaves the school's
+ * server.
+ */
+
+import {
+  SpeechError,
+  type ListenOptions,
+  type RecognitionResult,
+  type SpeechRecognizer,
+} from '../types';
+import { toRecognitionWav } from './wav';
+
+const DEFAULT_MAX_DURATION_MS = 15000;
+
+const NOTHING_HEARD: RecognitionResult = { transcript: '', alternatives: [] };
+
+/** Transcribes 16 kHz mono WAV on the server */
+export async function transcribeSpeech(
+  wav: Uint8Array<ArrayBuffer>,
+  locale: string,
+  signal?: AbortSignal
+): Promise<RecognitionResult> {
+  const response = await fetch(`/api/speech/recognize?${new URLSearchParams({ locale })}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'audio/wav' },
+    body: new Blob([wav], { type: 'audio/wav' }),
+    signal,
+  });
+
+  if (!response.ok) {
+    throw new SpeechError(
+      'server',
+      `Recognition request failed (HTTP ${response.status})`,
+      response.status
+    );
+  }
+  const { data } = (await response.json()) as { data: RecognitionResult };
+  return data;
+}
+
+export class ServerSpeechRecognizer implements SpeechRecognizer {
+  public readonly name = 'server' as const;
+  private recorder: MediaRecorder | null = null;
+
+  public isAvailable(): boolean {
+    return (
+      typeof navigator !== 'undefined' &&
+      !!navigator.mediaDevices?.getUserMedia &&
+      typeof MediaRecorder !== 'undefined' &&
+      typeof OfflineAudioContext !== 'undefined'
+    );
+  }
+
+  public async listen({
+    locale,
+    maxDurationMs = DEFAULT_MAX_DURATION_MS,
+    signal,
+  }: ListenOptions): Promise<RecognitionResult> {
+    if (!this.isAvailable()) {
+      throw new SpeechError(this.name, 'Recording is not supported');
+    }
+    this.stop();
+
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch {
+      throw new SpeechError(this.name, 'Microphone access was denied', 403);
+    }
+
+    const recorder = new MediaRecorder(stream);
+    const chunks: Blob[] = [];
+    this.recorder = recorder;
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const finish = () => {
+          if (recorder.state !== 'inactive') recorder.stop();
+        };
+        const timer = setTimeout(finish, maxDurationMs);
+        recorder.ondataavailable = event => {
+          if (event.data.size > 0) chunks.push(event.data);
+        };
+        recorder.onstop = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+        recorder.onerror = () => {
+          clearTimeout(timer);
+          reject(new SpeechError(this.name, 'Recording failed'));
+        };
+        signal?.addEventListener('abort', finish, { once: true });
+
+        recorder.start();
+      });
+    } finally {
+      stream.getTracks().forEach(track => track.stop());
+      if (this.recorder === recorder) this.recorder = null;
+    }
+
+    if (signal?.aborted || chunks.length === 0) return NOTHING_HEARD;
+
+    const wav = await toRecognitionWav(new Blob(chunks, { type: recorder.mimeType }));
+    return transcribeSpeech(wav, locale, signal);
+  }
+
+  public stop(): void {
+    if (this.recorder && this.recorder.state !== 'inactive') this.recorder.stop();
+  }
+}
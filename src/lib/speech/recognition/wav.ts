@@ -0,0 +1,59 @@
+/**
+ * WAV encoding for server-side recognition. Speech models take 16 kHz mono
+ * PCM, so recordings are decoded and resampled in the browser rather than
+ * uploading webm/ogg that the server would need ffmpeg for.
+ */
+
+export const RECOGNITION_SAMPLE_RATE = 16000;
+
+/** 16-bit PCM WAV from samples in [-1, 1] */
+export function encodeWav(samples: Float32Array, sampleRate: number): Uint8Array<ArrayBuffer> {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeText = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeText(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeText(8, 'WAVE');
+  writeText(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeText(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+
+  samples.forEach((sample, index) => {
+    const clamped = Math.max(-1, Math.min(1, sample));
+    view.setInt16(44 + index * 2, clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff, true);
+  });
+  return new Uint8Array(buffer);
+}
+
+/** A browser recording (webm, ogg or mp4) as 16 kHz mono WAV */
+export async function toRecognitionWav(recording: Blob): Promise<Uint8Array<ArrayBuffer>> {
+  const context = new AudioContext();
+  try {
+    const decoded = await context.decodeAudioData(await recording.arrayBuffer());
+    // A one-channel offline context downmixes and resamples while rendering
+    const offline = new OfflineAudioContext(
+      1,
+      Math.max(1, Math.ceil(decoded.duration * RECOGNITION_SAMPLE_RATE)),
+      RECOGNITION_SAMPLE_RATE
+    );
+    const source = offline.createBufferSource();
+    source.buffer = decoded;
+    source.connect(offline.destination);
+    source.start();
+
+    const rendered = await offline.startRendering();
+    return encodeWav(rendered.getChannelData(0), RECOGNITION_SAMPLE_RATE);
+  } finally {
+    void context.close();
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * ServerSpeechProvider
+ * Plays audio synthesized by /api/speech, for browsers without a voice for
+ * the language. The engine returns no word timings, so highlighting follows
+ * an estimate from the audio length.
+ */
+
+import {
+  DEFAULT_SPEECH_RATE,
+  SpeechError,
+  type SpeakOptions,
+  type SpeechProvider,
+  type SpeechRequest,
+} from './types';
+import { estimateWordTimings, splitSpeechWords, wordIndexAtTime } from './words';
+
+/**
+ * URL of the cached pronunciation for a saved vocabulary item; also what
+ * exports fetch to embed the audio
+ */
+export function vocabularyAudioUrl(
+  vocabularyId: string,
+  options: { locale?: string; rate?: number } = {}
+): string {
+  const params = new URLSearchParams();
+  if (options.locale) params.set('locale', options.locale);
+  if (options.rate !== undefined) params.set('rate', String(options.rate));
+  const query = params.toString();
+  return `/api/speech/vocabulary/${encodeURIComponent(vocabularyId)}${query ? `?${query}` : ''}`;
+}
+
+/**
+ * Synthesized audio for a request; saved vocabulary items use their cached
+ * per-item audio
+ */
+export async function fetchSpeechAudio(
+  request: SpeechRequest,
+  signal?: AbortSignal
+): Promise<Blob> {
+  const rate = request.rate ?? DEFAULT_SPEECH_RATE;
+  const response = request.vocabularyId
+    ? await fetch(vocabularyAudioUrl(request.vocabularyId, { locale: request.locale, rate }), {
+        signal,
+      })
+    : await fetch('/api/speech', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          text: request.text,
+          locale: request.locale,
+          rate,
+          voice: request.voice,
+        }),
+        signal,
+      });
+
+  if (!response.ok) {
+    throw new SpeechError(
+      'server',
+      `Speech request failed (HTTP ${response.status})`,
+      response.status
+    );
+  }
+  return response.blob();
+}
+
+export class ServerSpeechProvider implements SpeechProvider {
+  public readonly name = 'server' as const;
+  private audio: HTMLAudioElement | null = null;
+
+  public isAvailable(): boolean {
+    return typeof window !== 'undefined' && typeof Audio !== 'undefined';
+  }
+
+  public async speak(request: SpeechRequest, options: SpeakOptions = {}): Promise<void> {
+    if (!this.isAvailable()) {
+      throw new SpeechError(this.name, 'Audio playback is not supported');
+    }
+    this.stop();
+
+    const blob = await fetchSpeechAudio(request, options.signal);
+    const url = URL.createObjectURL(blob);
+    const audio = new Audio(url);
+    this.audio = audio;
+
+    const words = splitSpeechWords(request.text);
+    let starts: number[] = [];
+    let current = -1;
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        audio.onloadedmetadata = () => {
+          starts = estimateWordTimings(request.text, words, audio.duration);
+        };
+        audio.ontimeupdate = () => {
+          const index = wordIndexAtTime(starts, audio.currentTime);
+          if (index >= 0 && index !== current) {
+            current = index;
+            options.onWord?.(index, words[index]);
+          }
+        };
+        audio.onended = () => resolve();
+        // Pausing is how playback is stopped
+        audio.onpause = () => resolve();
+        audio.onerror = () => reject(new SpeechError(this.name, 'Audio playback failed'));
+        options.signal?.addEventListener('abort', () => audio.pause(), { once: true });
+
+        audio.play().catch(reject);
+      });
+    } finally {
+      URL.revokeObjectURL(url);
+      if (this.audio === audio) this.audio = null;
+    }
+  }
+
+  public stop(): void {
+    this.audio?.pause();
+  }
+}
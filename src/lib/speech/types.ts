@@ -0,0 +1,113 @@
+/**
+ * Speech types
+ */
+
+export type SpeechProviderName = 'browser' | 'server';
+
+export type SpeechProviderPreference = SpeechProviderName | 'auto';
+
+export type SpeechEngineName = 'espeak';
+
+export type SpeechRecognizerName = 'browser' | 'server';
+
+export type SpeechRecognizerPreference = SpeechRecognizerName | 'auto';
+
+export type RecognitionEngineName = 'whisper';
+
+/** Learners hear words a little slower than native speed by default */
+export const DEFAULT_SPEECH_RATE = 0.8;
+
+export interface SpeechRequest {
+  text: string;
+  /** BCP 47 locale such as "es-MX"; picks the voice and accent */
+  locale: string;
+  /** 1 is normal speed */
+  rate?: number;
+  /** Voice name, when the learner picked one */
+  voice?: string;
+  /** Server audio for a saved vocabulary item is cached with the item */
+  vocabularyId?: string;
+}
+
+/** A word of the spoken text, by character offsets into it */
+export interface SpeechWord {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface SpeakOptions {
+  /** Called as each word starts, for highlighting */
+  onWord?: (index: number, word: SpeechWord) => void;
+  signal?: AbortSignal;
+}
+
+export interface SpeechProvider {
+  readonly name: SpeechProviderName;
+  /** False when this environment cannot play speech at all */
+  isAvailable(): boolean;
+  /** Resolves when playback ends or is stopped */
+  speak(request: SpeechRequest, options?: SpeakOptions): Promise<void>;
+  stop(): void;
+}
+
+export interface SynthesizedSpeech {
+  audio: Buffer;
+  contentType: string;
+}
+
+/**
+ * Server-side text-to-speech; runs offline so pronunciation works without
+ * a cloud account
+ */
+export interface SpeechEngine {
+  readonly name: SpeechEngineName;
+  synthesize(request: Omit<SpeechRequest, 'vocabularyId'>): Promise<SynthesizedSpeech>;
+}
+
+export interface ListenOptions {
+  /** BCP 47 locale of what the learner is expected to say */
+  locale: string;
+  /** Recording stops by itself after this long */
+  maxDurationMs?: number;
+  /** Aborting discards what was heard */
+  signal?: AbortSignal;
+}
+
+export interface RecognitionResult {
+  /** The recognizer's best guess; empty when nothing was heard */
+  transcript: string;
+  /** Every guess, best first; scoring picks the one closest to the expected text */
+  alternatives: string[];
+}
+
+export interface SpeechRecognizer {
+  readonly name: SpeechRecognizerName;
+  /** False when this environment cannot record or recognize speech */
+  isAvailable(): boolean;
+  /** Resolves with what was said once the learner stops or goes quiet */
+  listen(options: ListenOptions): Promise<RecognitionResult>;
+  /** Stops recording and keeps what was heard so far */
+  stop(): void;
+}
+
+/**
+ * Server-side speech recognition with a local model, for browsers without
+ * Web Speech or classrooms that keep audio off third-party services
+ */
+export interface RecognitionEngine {
+  readonly name: RecognitionEngineName;
+  /** audio is 16 kHz mono WAV */
+  transcribe(audio: Buffer, locale: string): Promise<RecognitionResult>;
+}
+
+export class SpeechError extends Error {
+  constructor(
+    public readonly source: SpeechProviderName | SpeechEngineName | RecognitionEngineName,
+    message: string,
+    public readonly status?: number
+  ) {
+    super(`[${source}] ${message}`);
+    this.name = 'SpeechError';
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Word positions for highlighting text while it is spoken
+ */
+
+import type { SpeechWord } from './types';
+
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu;
+
+/** Extra weight for the pause a speaker makes after punctuation */
+const PAUSE_WEIGHTS: Array<[RegExp, number]> = [
+  [/^[^\p{L}\p{N}]*[.!?…]/u, 6],
+  [/^[^\p{L}\p{N}]*[,;:—]/u, 3],
+];
+
+export function splitSpeechWords(text: string): SpeechWord[] {
+  return Array.from(text.matchAll(WORD_PATTERN), match => ({
+    text: match[0],
+    start: match.index,
+    end: match.index + match[0].length,
+  }));
+}
+
+/**
+ * The word a speech boundary event points at; -1 before the first word.
+ * Offsets between words belong to the word before them.
+ */
+export function wordIndexAtChar(words: SpeechWord[], charIndex: number): number {
+  let index = -1;
+  for (let i = 0; i < words.length && words[i].start <= charIndex; i++) index = i;
+  return index;
+}
+
+/**
+ * Estimated start time of each word in audio of the given length. Engines
+ * that only return audio give no word timings, so time is shared out by
+ * word length plus the pauses punctuation adds.
+ */
+export function estimateWordTimings(
+  text: string,
+  words: SpeechWord[],
+  durationSeconds: number
+): number[] {
+  if (words.length === 0 || !Number.isFinite(durationSeconds) || durationSeconds <= 0) {
+    return words.map(() => 0);
+  }
+
+  const weights = words.map((word, index) => {
+    const gap = text.slice(word.end, words[index + 1]?.start ?? text.length);
+    const pause = PAUSE_WEIGHTS.find(([pattern]) => pattern.test(gap))?.[1] ?? 1;
+    // Short words still take a syllable to say
+    return Math.max(word.text.length, 2) + pause;
+  });
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+  let elapsed = 0;
+  return weights.map(weight => {
+    const start = (elapsed / total) * durationSeconds;
+    elapsed += weight;
+    return start;
+  });
+}
+
+/** The word being spoken at a playback position; -1 before the first word */
+export function wordIndexAtTime(starts: number[], seconds: number): number {
+  let index = -1;
+  for (let i = 0; i < starts.length && starts[i] <= seconds; i++) index = i;
+  return index;
+}
@@ -0,0 +1,25 @@
+/**
+ * Image Storage Backends
+ */
+
+import { LocalImageStorage } from './local';
+import { S3ImageStorage } from './s3';
+import type { ImageStorageBackend, ImageStorageBackendName } from './types';
+
+export function createImageStorage(name: ImageStorageBackendName): ImageStorageBackend {
+  switch (name) {
+    case 'local':
+      return new LocalImageStorage();
+    case 's3':
+      return new S3ImageStorage();
+  }
+}
+
+/** The backend new uploads go to, from IMAGE_STORAGE_BACKEND (default "local") */
+export function getImageStorage(): ImageStorageBackend {
+  return createImageStorage(process.env.IMAGE_STORAGE_BACKEND === 's3' ? 's3' : 'local');
+}
+
+export { LocalImageStorage, S3ImageStorage };
+export { s3ConfigFromEnv, type S3StorageConfig } from './s3';
+export * from './types';
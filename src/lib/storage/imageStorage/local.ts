@@ -0,0 +1,47 @@
+/**
+ * LocalImageStorage
+ * Keeps uploaded images on the server's filesystem, under
+ * IMAGE_STORAGE_DIR (default ".data/image-library").
+ */
+
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import {
+  assertStorageKey,
+  contentTypeForKey,
+  type ImageStorageBackend,
+  type StoredImageObject,
+} from './types';
+
+export class LocalImageStorage implements ImageStorageBackend {
+  public readonly name = 'local' as const;
+
+  constructor(
+    private readonly root: string = process.env.IMAGE_STORAGE_DIR ||
+      path.join(process.cwd(), '.data', 'image-library')
+  ) {}
+
+  public async put(key: string, body: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, body);
+  }
+
+  public async get(key: string): Promise<StoredImageObject | null> {
+    try {
+      return { body: await readFile(this.resolve(key)), contentType: contentTypeForKey(key) };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  public async delete(key: string): Promise<void> {
+    await rm(this.resolve(key), { force: true });
+  }
+
+  private resolve(key: string): string {
+    assertStorageKey(this.name, key);
+    return path.join(this.root, key);
+  }
+}
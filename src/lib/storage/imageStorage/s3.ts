@@ -0,0 +1,161 @@
+/**
+ * S3ImageStorage
+ * Stores uploaded images in any S3-compatible bucket (AWS S3, Cloudflare R2,
+ * MinIO, ...). Requests are signed with AWS Signature Version 4 and use
+ * path-style URLs, which every compatible service accepts.
+ */
+
+import { createHash, createHmac } from 'crypto';
+import {
+  ImageStorageError,
+  assertStorageKey,
+  type ImageStorageBackend,
+  type StoredImageObject,
+} from './types';
+
+export interface S3StorageConfig {
+  /** e.g. https://s3.eu-west-1.amazonaws.com or http://minio:9000 */
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+export function s3ConfigFromEnv(env: NodeJS.ProcessEnv = process.env): S3StorageConfig {
+  return {
+    endpoint: env.IMAGE_STORAGE_S3_ENDPOINT ?? '',
+    region: env.IMAGE_STORAGE_S3_REGION || 'us-east-1',
+    bucket: env.IMAGE_STORAGE_S3_BUCKET ?? '',
+    accessKeyId: env.IMAGE_STORAGE_S3_ACCESS_KEY_ID ?? '',
+    secretAccessKey: env.IMAGE_STORAGE_S3_SECRET_ACCESS_KEY ?? '',
+  };
+}
+
+const sha256Hex = (data: string | Buffer) => createHash('sha256').update(data).digest('hex');
+const hmac = (key: string | Buffer, data: string) =>
+  createHmac('sha256', key).update(data).digest();
+
+// RFC 3986 encoding, as SigV4 requires
+const encodeSegment = (segment: string) =>
+  encodeURIComponent(segment).replace(
+    /[!'()*]/g,
+    char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+
+export class S3ImageStorage implements ImageStorageBackend {
+  public readonly name = 's3' as const;
+
+  constructor(private readonly config: S3StorageConfig = s3ConfigFromEnv()) {}
+
+  public isConfigured(): boolean {
+    const { endpoint, bucket, accessKeyId, secretAccessKey } = this.config;
+    return Boolean(endpoint && bucket && accessKeyId && secretAccessKey);
+  }
+
+  public async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    const response = await this.request('PUT', key, body, { 'content-type': contentType });
+    if (!response.ok) {
+      throw new ImageStorageError(
+        this.name,
+        `Upload failed with ${response.status}`,
+        response.status
+      );
+    }
+  }
+
+  public async get(key: string): Promise<StoredImageObject | null> {
+    const response = await this.request('GET', key);
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new ImageStorageError(
+        this.name,
+        `Download failed with ${response.status}`,
+        response.status
+      );
+    }
+    return {
+      body: Buffer.from(await response.arrayBuffer()),
+      contentType: response.headers.get('content-type') ?? 'application/octet-stream',
+    };
+  }
+
+  public async delete(key: string): Promise<void> {
+    const response = await this.request('DELETE', key);
+    if (!response.ok && response.status !== 404) {
+      throw new ImageStorageError(
+        this.name,
+        `Delete failed with ${response.status}`,
+        response.status
+      );
+    }
+  }
+
+  private request(
+    method: 'GET' | 'PUT' | 'DELETE',
+    key: string,
+    body?: Buffer,
+    extraHeaders: Record<string, string> = {}
+  ): Promise<Response> {
+    assertStorageKey(this.name, key);
+    if (!this.isConfigured()) {
+      throw new ImageStorageError(this.name, 'S3 storage is not configured');
+    }
+
+    const endpoint = new URL(this.config.endpoint);
+    const objectPath = `/${[this.config.bucket, ...key.split('/')].map(encodeSegment).join('/')}`;
+    const url = new URL(objectPath, endpoint);
+    const { headers, authorization } = this.sign(
+      method,
+      url,
+      body ?? Buffer.alloc(0),
+      extraHeaders
+    );
+
+    return fetch(url, {
+      method,
+      headers: { ...headers, Authorization: authorization },
+      body: body ? new Uint8Array(body) : undefined,
+    });
+  }
+
+  /** AWS Signature Version 4 for a single request */
+  private sign(method: string, url: URL, body: Buffer, extraHeaders: Record<string, string>) {
+    const amzDate = new Date().toISOString().replace(/[-:]|\.\d{3}/g, '');
+    const date = amzDate.slice(0, 8);
+    const payloadHash = sha256Hex(body);
+
+    const headers: Record<string, string> = {
+      ...extraHeaders,
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+    };
+    const names = Object.keys(headers).sort();
+    const signedHeaders = names.join(';');
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      '',
+      ...names.map(name => `${name}:${headers[name].trim()}`),
+      '',
+      signedHeaders,
+      payloadHash,
+    ].join('\n');
+
+    const scope = `${date}/${this.config.region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join(
+      '\n'
+    );
+    const signingKey = ['s3', 'aws4_request'].reduce(
+      (key, part) => hmac(key, part),
+      hmac(hmac(`AWS4${this.config.secretAccessKey}`, date), this.config.region)
+    );
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    return {
+      headers,
+      authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+    };
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Image storage types
+ */
+
+export type ImageStorageBackendName = 'local' | 's3';
+
+export interface StoredImageObject {
+  body: Buffer;
+  contentType: string;
+}
+
+/**
+ * Where uploaded image files live. Keys are relative paths such as
+ * "<userId>/<imageId>.webp"; metadata lives in the images table.
+ */
+export interface ImageStorageBackend {
+  readonly name: ImageStorageBackendName;
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  /** Resolves to null when the key does not exist */
+  get(key: string): Promise<StoredImageObject | null>;
+  /** Deleting a missing key is not an error */
+  delete(key: string): Promise<void>;
+}
+
+export class ImageStorageError extends Error {
+  constructor(
+    public readonly backend: ImageStorageBackendName,
+    message: string,
+    public readonly status?: number
+  ) {
+    super(`[${backend}] ${message}`);
+    this.name = 'ImageStorageError';
+  }
+}
+
+const STORAGE_KEY_PATTERN = /^[\w-]+(\/[\w-]+(\.[a-z0-9]+)?)*$/i;
+
+/** Rejects keys that could escape the storage root */
+export function assertStorageKey(backend: ImageStorageBackendName, key: string): void {
+  if (!STORAGE_KEY_PATTERN.test(key)) {
+    throw new ImageStorageError(backend, `Invalid storage key: ${key}`);
+  }
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  webp: 'image/webp',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  avif: 'image/avif',
+};
+
+export function contentTypeForKey(key: string): string {
+  const extension = key.split('.').pop()?.toLowerCase() ?? '';
+  return CONTENT_TYPES[extension] ?? 'application/octet-stream';
+}
@@ -24,7 +24,7 @@ export interface StudySession {
   itemsStudied: number;
   correctAnswers: number;
   averageQuality: number;
-  mode: "flashcards" | "quiz" | "review";
+  mode: "flashcards" | "quiz" | "review" | "matching";
 }
 
 export interface VocabularySettings {
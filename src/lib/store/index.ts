@@ -55,18 +55,21 @@ export {
   type BreadcrumbItem,
 } from "./uiStore";
 
-// Tab sync, undo/redo, and debug stores are optional and may not exist in all environments
-// Only export if the modules exist
-// export {
-//   useTabSyncStore,
-//   useTabSync,
-//   useTabSyncActions,
-//   useStoreSyncRegistration,
-//   useAutoTabSync,
-//   type ConflictStrategy,
-//   type SyncConfig,
-// } from "./tabSyncStore";
+export {
+  useTabSyncStore,
+  useTabSync,
+  useTabSyncActions,
+  useTabSyncConflicts,
+  useStoreSyncRegistration,
+  useAutoTabSync,
+  type ConflictStrategy,
+  type PendingConflict,
+  type StoreSyncAdapter,
+  type SyncConfig,
+} from "./tabSyncStore";
 
+// Undo/redo and debug stores are optional and may not exist in all environments
+// Only export if the modules exist
 // export {
 //   useUndoRedoStore,
 //   useUndoRedo,
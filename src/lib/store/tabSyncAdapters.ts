@@ -0,0 +1,60 @@
+/**
+ * Cross-tab sync adapters
+ * Pick the part of each store that is shared between tabs. Only plain data
+ * is sent; actions, validators and per-tab UI state stay local.
+ */
+
+import type { StoreSyncAdapter } from './tabSyncStore';
+import type { FormState } from './formStore';
+
+interface LearningSessionSyncState {
+  preferences: unknown;
+  learningSettings: unknown;
+  currentStats: unknown;
+  dailyProgress: unknown;
+}
+
+export const learningSessionSyncAdapter: StoreSyncAdapter<
+  LearningSessionSyncState,
+  LearningSessionSyncState
+> = {
+  select: state => ({
+    preferences: state.preferences,
+    learningSettings: state.learningSettings,
+    currentStats: state.currentStats,
+    dailyProgress: state.dailyProgress,
+  }),
+  apply: (_state, synced) => synced,
+};
+
+/** Field values per form id */
+type FormValues = Record<string, Record<string, unknown>>;
+
+export const formSyncAdapter: StoreSyncAdapter<{ forms: Record<string, FormState> }, FormValues> = {
+  select: state =>
+    Object.fromEntries(
+      Object.entries(state.forms).map(([formId, form]) => [
+        formId,
+        Object.fromEntries(Object.entries(form.fields).map(([name, field]) => [name, field.value])),
+      ])
+    ),
+  // Forms only exist in tabs that render them; values for other forms are ignored
+  apply: (state, synced) => ({
+    forms: Object.fromEntries(
+      Object.entries(state.forms).map(([formId, form]) => {
+        const values = synced[formId];
+        if (!values) return [formId, form];
+
+        let changed = false;
+        const fields = Object.fromEntries(
+          Object.entries(form.fields).map(([name, field]) => {
+            if (!(name in values) || values[name] === field.value) return [name, field];
+            changed = true;
+            return [name, { ...field, value: values[name], isDirty: true }];
+          })
+        );
+        return changed ? [formId, { ...form, fields, isDirty: true }] : [formId, form];
+      })
+    ),
+  }),
+};
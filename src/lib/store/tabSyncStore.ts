@@ -4,6 +4,14 @@ import { devtools, subscribeWithSelector } from 'zustand/middleware';
 import { createShallowSelector } from '../utils/storeUtils';
 import { safeParse, safeStringify } from "@/lib/utils/json-safe";
 import { logger } from '@/lib/logger';
+import {
+  applyConflictChoices,
+  conflictKey,
+  deepEqual,
+  threeWayMerge,
+  type ConflictChoice,
+  type MergeConflict,
+} from '@/lib/utils/threeWayMerge';
 
 /**
  * Cross-Tab Synchronization Store
@@ -11,7 +19,8 @@ import { logger } from '@/lib/logger';
  * - BroadcastChannel API for modern browsers
  * - localStorage fallback for older browsers
  * - Real-time state synchronization
- * - Conflict resolution strategies
+ * - Conflict resolution strategies (three-way merge against the last
+ *   shared snapshot, with per-field manual resolution)
  * - Tab identity management
  * - Connection status tracking
  * - Selective synchronization
@@ -45,7 +54,37 @@ export interface SyncConfig {
   syncDebounceMs: number;
   conflictStrategy: ConflictStrategy;
   excludedStores: Set<string>;
-  onConflict?: (local: any, remote: any, key: string) => any;
+  /**
+   * Called for 'manual' conflicts before they are queued for the user;
+   * return undefined to queue them
+   */
+  onConflict?: (local: any, remote: any, key: string, context: ConflictContext) => any;
+}
+
+export interface ConflictContext {
+  base: unknown;
+  merged: unknown;
+  conflicts: MergeConflict[];
+}
+
+/**
+ * Fields two tabs changed differently, waiting for the user to choose
+ */
+export interface PendingConflict {
+  id: string;
+  storeKey: string;
+  fromTabId: string;
+  detectedAt: Date;
+  fields: MergeConflict[];
+}
+
+/**
+ * Maps a store to the part of its state that is synchronised (which must be
+ * structured-cloneable) and back
+ */
+export interface StoreSyncAdapter<S = any, T = any> {
+  select: (state: S) => T;
+  apply: (state: S, synced: T) => Partial<S>;
 }
 
 interface TabSyncState {
@@ -63,6 +102,7 @@ interface TabSyncState {
   // Message handling
   messageQueue: SyncMessage[];
   pendingSync: Set<string>;
+  conflicts: PendingConflict[];
 
   // Actions
   initializeSync: (config?: Partial<SyncConfig>) => void;
@@ -74,12 +114,566 @@ interface TabSyncState {
   excludeStore: (storeKey: string) => void;
   includeStore: (storeKey: string) => void;
   disconnect: () => void;
+  resolveConflict: (conflictId: string, choices: Record<string, ConflictChoice>) => void;
 
   // Internal methods
   _handleMessage: (message: SyncMessage) => void;
   _sendHeartbeat: () => void;
   _electLeader: () => void;
-  _resolveConflict: (local: any, remote: any, key: string, strategy: ConflictStrategy) => any;
+  _resolveConflict: (
+    local: any,
+    remote: any,
+    key: string,
+    strategy: ConflictStrategy,
+    fromTabId?: string
+  ) => any;
+  _isApplyingRemote: (storeKey: string) => boolean;
 }
 
-// Generate unique tab ID\nconst generateTabId = (): string => {\n  return `tab-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;\n};\n\n// Get tab info\nconst getTabInfo = (tabId: string): TabInfo => ({\n  id: tabId,\n  name: typeof document !== 'undefined' ? document.title : 'Unknown',\n  url: typeof window !== 'undefined' ? window.location.href : '',\n  isActive: typeof document !== 'undefined' ? !document.hidden : true,\n  lastSeen: new Date(),\n  capabilities: [\n    typeof BroadcastChannel !== 'undefined' ? 'broadcast-channel' : null,\n    typeof SharedWorker !== 'undefined' ? 'shared-worker' : null,\n    typeof ServiceWorker !== 'undefined' ? 'service-worker' : null\n  ].filter(Boolean),\n  version: '1.0.0'\n});\n\nconst defaultConfig: SyncConfig = {\n  enabled: true,\n  channel: 'describe-it-tab-sync',\n  heartbeatInterval: 5000,\n  syncDebounceMs: 100,\n  conflictStrategy: 'last-write-wins',\n  excludedStores: new Set(['ui-store']) // UI state typically shouldn't sync\n};\n\nexport const useTabSyncStore = create<TabSyncState>()(  \n  devtools(\n    subscribeWithSelector(\n      (set, get) => {\n        let broadcastChannel: BroadcastChannel | null = null;\n        let heartbeatInterval: NodeJS.Timeout | null = null;\n        let syncDebounceTimeout: NodeJS.Timeout | null = null;\n        const registeredStores = new Map<string, {\n          getState: () => any;\n          setState: (state: any) => void;\n        }>();\n        \n        return {\n          currentTabId: generateTabId(),\n          connectedTabs: new Map(),\n          isLeaderTab: false,\n          connectionStatus: 'disconnected',\n          config: defaultConfig,\n          lastSyncTime: null,\n          syncErrors: [],\n          messageQueue: [],\n          pendingSync: new Set(),\n          \n          initializeSync: (configOverrides = {}) => {\n            if (typeof window === 'undefined') return;\n            \n            const config = { ...defaultConfig, ...configOverrides };\n            set({ config, connectionStatus: 'connecting' }, false, 'initializeSync');\n            \n            try {\n              // Initialize BroadcastChannel if available\n              if (typeof BroadcastChannel !== 'undefined') {\n                broadcastChannel = new BroadcastChannel(config.channel);\n                \n                broadcastChannel.addEventListener('message', (event) => {\n                  get()._handleMessage(event.data);\n                });\n                \n                set({ connectionStatus: 'connected' }, false, 'broadcastChannel:connected');\n              } else {\n                // Fallback to localStorage events\n                const handleStorageChange = (event: StorageEvent) => {\n                  if (event.key === `${config.channel}-message` && event.newValue) {\n                    try {\n                      const message = safeParse(event.newValue);\n                      get()._handleMessage(message);\n                    } catch (error) {\n                      logger.warn('Failed to parse sync message:', error);\n                    }\n                  }\n                };\n                \n                window.addEventListener('storage', handleStorageChange);\n                set({ connectionStatus: 'connected' }, false, 'localStorage:connected');\n              }\n              \n              // Start heartbeat\n              heartbeatInterval = setInterval(() => {\n                get()._sendHeartbeat();\n              }, config.heartbeatInterval);\n              \n              // Elect leader\n              get()._electLeader();\n              \n              // Announce tab join\n              const tabInfo = getTabInfo(get().currentTabId);\n              set((state) => ({\n                connectedTabs: new Map(state.connectedTabs).set(state.currentTabId, tabInfo)\n              }), false, 'tab:join');\n              \n              get().broadcastUpdate('tab-join', tabInfo);\n              \n            } catch (error) {\n              logger.error('Failed to initialize tab sync:', error);\n              set({ \n                connectionStatus: 'disconnected',\n                syncErrors: [...get().syncErrors, error instanceof Error ? error.message : 'Unknown error']\n              }, false, 'initializeSync:error');\n            }\n          },\n          \n          broadcastUpdate: (storeKey, data, strategy = get().config.conflictStrategy) => {\n            if (!get().config.enabled || get().config.excludedStores.has(storeKey)) return;\n            \n            const message: SyncMessage = {\n              type: 'state-update',\n              tabId: get().currentTabId,\n              timestamp: new Date(),\n              storeKey,\n              data,\n              conflictStrategy: strategy\n            };\n            \n            // Debounce sync messages\n            if (syncDebounceTimeout) {\n              clearTimeout(syncDebounceTimeout);\n            }\n            \n            syncDebounceTimeout = setTimeout(() => {\n              if (broadcastChannel) {\n                broadcastChannel.postMessage(message);\n              } else {\n                // Fallback to localStorage\n                localStorage.setItem(\n                  `${get().config.channel}-message`,\n                  safeStringify(message)\n                );\n              }\n              \n              set({ lastSyncTime: new Date() }, false, 'broadcastUpdate');\n            }, get().config.syncDebounceMs);\n          },\n          \n          requestFullSync: () => {\n            const message: SyncMessage = {\n              type: 'request-sync',\n              tabId: get().currentTabId,\n              timestamp: new Date()\n            };\n            \n            if (broadcastChannel) {\n              broadcastChannel.postMessage(message);\n            }\n          },\n          \n          registerStore: (storeKey, getState, setState) => {\n            registeredStores.set(storeKey, { getState, setState });\n            \n            // Request initial sync for this store\n            if (get().connectionStatus === 'connected') {\n              setTimeout(() => {\n                get().broadcastUpdate('request-sync', { storeKey });\n              }, 100);\n            }\n          },\n          \n          unregisterStore: (storeKey) => {\n            registeredStores.delete(storeKey);\n            set((state) => {\n              const newPendingSync = new Set(state.pendingSync);\n              newPendingSync.delete(storeKey);\n              return { pendingSync: newPendingSync };\n            }, false, 'unregisterStore');\n          },\n          \n          setConflictStrategy: (strategy) => {\n            set((state) => ({\n              config: { ...state.config, conflictStrategy: strategy }\n            }), false, 'setConflictStrategy');\n          },\n          \n          excludeStore: (storeKey) => {\n            set((state) => ({\n              config: {\n                ...state.config,\n                excludedStores: new Set(state.config.excludedStores).add(storeKey)\n              }\n            }), false, 'excludeStore');\n          },\n          \n          includeStore: (storeKey) => {\n            set((state) => {\n              const newExcludedStores = new Set(state.config.excludedStores);\n              newExcludedStores.delete(storeKey);\n              return {\n                config: { ...state.config, excludedStores: newExcludedStores }\n              };\n            }, false, 'includeStore');\n          },\n          \n          disconnect: () => {\n            if (broadcastChannel) {\n              broadcastChannel.close();\n              broadcastChannel = null;\n            }\n            \n            if (heartbeatInterval) {\n              clearInterval(heartbeatInterval);\n              heartbeatInterval = null;\n            }\n            \n            if (syncDebounceTimeout) {\n              clearTimeout(syncDebounceTimeout);\n              syncDebounceTimeout = null;\n            }\n            \n            // Announce tab leave\n            get().broadcastUpdate('tab-leave', { tabId: get().currentTabId });\n            \n            set({ \n              connectionStatus: 'disconnected',\n              connectedTabs: new Map(),\n              isLeaderTab: false\n            }, false, 'disconnect');\n          },\n          \n          _handleMessage: (message: SyncMessage) => {\n            const state = get();\n            \n            // Ignore messages from self\n            if (message.tabId === state.currentTabId) return;\n            \n            switch (message.type) {\n              case 'state-update': {\n                if (!message.storeKey || !message.data) break;\n                \n                const store = registeredStores.get(message.storeKey);\n                if (!store) break;\n                \n                try {\n                  const currentState = store.getState();\n                  const resolvedState = get()._resolveConflict(\n                    currentState,\n                    message.data,\n                    message.storeKey,\n                    message.conflictStrategy || 'last-write-wins'\n                  );\n                  \n                  store.setState(resolvedState);\n                  \n                  set({ lastSyncTime: new Date() }, false, 'state-update:received');\n                } catch (error) {\n                  logger.error(`Failed to apply sync update for ${message.storeKey}:`, error);\n                  set((state) => ({\n                    syncErrors: [...state.syncErrors, `Sync error: ${error instanceof Error ? error.message : 'Unknown'}`]\n                  }), false, 'state-update:error');\n                }\n                break;\n              }\n              \n              case 'heartbeat': {\n                // Update connected tabs info\n                set((state) => {\n                  const newConnectedTabs = new Map(state.connectedTabs);\n                  const existingTab = newConnectedTabs.get(message.tabId);\n                  \n                  newConnectedTabs.set(message.tabId, {\n                    ...existingTab,\n                    ...message.data,\n                    id: message.tabId,\n                    lastSeen: message.timestamp\n                  });\n                  \n                  return { connectedTabs: newConnectedTabs };\n                }, false, 'heartbeat:received');\n                break;\n              }\n              \n              case 'request-sync': {\n                // Send current state to requesting tab\n                if (state.isLeaderTab) {\n                  registeredStores.forEach((store, storeKey) => {\n                    if (!state.config.excludedStores.has(storeKey)) {\n                      get().broadcastUpdate(storeKey, store.getState());\n                    }\n                  });\n                }\n                break;\n              }\n              \n              case 'tab-join': {\n                set((state) => {\n                  const newConnectedTabs = new Map(state.connectedTabs);\n                  newConnectedTabs.set(message.tabId, message.data);\n                  return { connectedTabs: newConnectedTabs };\n                }, false, 'tab:join');\n                \n                // Re-elect leader if needed\n                get()._electLeader();\n                break;\n              }\n              \n              case 'tab-leave': {\n                set((state) => {\n                  const newConnectedTabs = new Map(state.connectedTabs);\n                  newConnectedTabs.delete(message.tabId);\n                  return { connectedTabs: newConnectedTabs };\n                }, false, 'tab:leave');\n                \n                get()._electLeader();\n                break;\n              }\n            }\n          },\n          \n          _sendHeartbeat: () => {\n            const tabInfo = getTabInfo(get().currentTabId);\n            \n            const message: SyncMessage = {\n              type: 'heartbeat',\n              tabId: get().currentTabId,\n              timestamp: new Date(),\n              data: tabInfo\n            };\n            \n            if (broadcastChannel) {\n              broadcastChannel.postMessage(message);\n            }\n          },\n          \n          _electLeader: () => {\n            const state = get();\n            const connectedTabIds = Array.from(state.connectedTabs.keys());\n            connectedTabIds.push(state.currentTabId);\n            \n            // Elect the tab with the earliest ID (timestamp-based)\n            const leaderId = connectedTabIds.sort()[0];\n            const isLeader = leaderId === state.currentTabId;\n            \n            if (isLeader !== state.isLeaderTab) {\n              set({ isLeaderTab: isLeader }, false, 'leader:elected');\n            }\n          },\n          \n          _resolveConflict: (local, remote, key, strategy) => {\n            switch (strategy) {\n              case 'last-write-wins':\n                return remote;\n              \n              case 'merge':\n                if (typeof local === 'object' && typeof remote === 'object' && local !== null && remote !== null) {\n                  return { ...local, ...remote };\n                }\n                return remote;\n              \n              case 'manual':\n                // Call custom conflict resolver if provided\n                if (get().config.onConflict) {\n                  return get().config.onConflict!(local, remote, key);\n                }\n                return local; // Keep local if no resolver\n              \n              case 'ignore':\n              default:\n                return local;\n            }\n          }\n        };\n      }\n    ),\n    { name: 'TabSyncStore' }\n  )\n);\n\n// Hooks\nexport const useTabSync = () => {\n  return useTabSyncStore((state) => ({\n    currentTabId: state.currentTabId,\n    connectedTabs: Array.from(state.connectedTabs.values()),\n    isLeaderTab: state.isLeaderTab,\n    connectionStatus: state.connectionStatus,\n    lastSyncTime: state.lastSyncTime,\n    syncErrors: state.syncErrors\n  }));\n};\n\nexport const useTabSyncActions = () => {\n  return useTabSyncStore((state) => ({\n    initializeSync: state.initializeSync,\n    broadcastUpdate: state.broadcastUpdate,\n    requestFullSync: state.requestFullSync,\n    registerStore: state.registerStore,\n    unregisterStore: state.unregisterStore,\n    setConflictStrategy: state.setConflictStrategy,\n    excludeStore: state.excludeStore,\n    includeStore: state.includeStore,\n    disconnect: state.disconnect\n  }));\n};\n\n// Store sync registration hook\nexport const useStoreSyncRegistration = (\n  storeKey: string,\n  useStore: any,\n  enabled = true\n) => {\n  const { registerStore, unregisterStore } = useTabSyncActions();\n  \n  React.useEffect(() => {\n    if (!enabled) return;\n    \n    const getState = () => useStore.getState();\n    const setState = (state: any) => useStore.setState(state, false, `sync:${storeKey}`);\n    \n    registerStore(storeKey, getState, setState);\n    \n    return () => unregisterStore(storeKey);\n  }, [storeKey, useStore, registerStore, unregisterStore, enabled]);\n};\n\n// Auto-initialize hook\nexport const useAutoTabSync = (config?: Partial<SyncConfig>) => {\n  const { initializeSync, disconnect } = useTabSyncActions();\n  \n  React.useEffect(() => {\n    initializeSync(config);\n    \n    // Cleanup on unmount\n    return () => {\n      disconnect();\n    };\n  }, [initializeSync, disconnect]);\n};
\ No newline at end of file
+// Generate unique tab ID
+const generateTabId = (): string => {
+  return `tab-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+};
+
+// Get tab info
+const getTabInfo = (tabId: string): TabInfo => ({
+  id: tabId,
+  name: typeof document !== 'undefined' ? document.title : 'Unknown',
+  url: typeof window !== 'undefined' ? window.location.href : '',
+  isActive: typeof document !== 'undefined' ? !document.hidden : true,
+  lastSeen: new Date(),
+  capabilities: [
+    typeof BroadcastChannel !== 'undefined' ? 'broadcast-channel' : null,
+    typeof SharedWorker !== 'undefined' ? 'shared-worker' : null,
+    typeof ServiceWorker !== 'undefined' ? 'service-worker' : null
+  ].filter((capability): capability is string => capability !== null),
+  version: '1.0.0'
+});
+
+const defaultConfig: SyncConfig = {
+  enabled: true,
+  channel: 'describe-it-tab-sync',
+  heartbeatInterval: 5000,
+  syncDebounceMs: 100,
+  conflictStrategy: 'last-write-wins',
+  excludedStores: new Set(['ui-store']) // UI state typically shouldn't sync
+};
+
+export const useTabSyncStore = create<TabSyncState>()(  
+  devtools(
+    subscribeWithSelector(
+      (set, get) => {
+        let broadcastChannel: BroadcastChannel | null = null;
+        let heartbeatInterval: NodeJS.Timeout | null = null;
+        const syncDebounceTimeouts = new Map<string, NodeJS.Timeout>();
+        // Last state each store shared with the other tabs: the merge base
+        const snapshots = new Map<string, unknown>();
+        const applyingRemote = new Set<string>();
+        const registeredStores = new Map<string, {
+          getState: () => any;
+          setState: (state: any) => void;
+        }>();
+        
+        return {
+          currentTabId: generateTabId(),
+          connectedTabs: new Map(),
+          isLeaderTab: false,
+          connectionStatus: 'disconnected',
+          config: defaultConfig,
+          lastSyncTime: null,
+          syncErrors: [],
+          messageQueue: [],
+          pendingSync: new Set(),
+          conflicts: [],
+          
+          initializeSync: (configOverrides = {}) => {
+            if (typeof window === 'undefined') return;
+            
+            const config = { ...defaultConfig, ...configOverrides };
+            set({ config, connectionStatus: 'connecting' }, false, 'initializeSync');
+            
+            try {
+              // Initialize BroadcastChannel if available
+              if (typeof BroadcastChannel !== 'undefined') {
+                broadcastChannel = new BroadcastChannel(config.channel);
+                
+                broadcastChannel.addEventListener('message', (event) => {
+                  get()._handleMessage(event.data);
+                });
+                
+                set({ connectionStatus: 'connected' }, false, 'broadcastChannel:connected');
+              } else {
+                // Fallback to localStorage events
+                const handleStorageChange = (event: StorageEvent) => {
+                  if (event.key === `${config.channel}-message` && event.newValue) {
+                    try {
+                      const message = safeParse(event.newValue);
+                      get()._handleMessage(message);
+                    } catch (error) {
+                      logger.warn('Failed to parse sync message:', { error });
+                    }
+                  }
+                };
+                
+                window.addEventListener('storage', handleStorageChange);
+                set({ connectionStatus: 'connected' }, false, 'localStorage:connected');
+              }
+              
+              // Start heartbeat
+              heartbeatInterval = setInterval(() => {
+                get()._sendHeartbeat();
+              }, config.heartbeatInterval);
+              
+              // Elect leader
+              get()._electLeader();
+              
+              // Announce tab join
+              const tabInfo = getTabInfo(get().currentTabId);
+              set((state) => ({
+                connectedTabs: new Map(state.connectedTabs).set(state.currentTabId, tabInfo)
+              }), false, 'tab:join');
+              
+              get().broadcastUpdate('tab-join', tabInfo);
+              
+            } catch (error) {
+              logger.error('Failed to initialize tab sync:', error);
+              set({ 
+                connectionStatus: 'disconnected',
+                syncErrors: [...get().syncErrors, error instanceof Error ? error.message : 'Unknown error']
+              }, false, 'initializeSync:error');
+            }
+          },
+          
+          broadcastUpdate: (storeKey, data, strategy = get().config.conflictStrategy) => {
+            if (!get().config.enabled || get().config.excludedStores.has(storeKey)) return;
+            
+            const message: SyncMessage = {
+              type: 'state-update',
+              tabId: get().currentTabId,
+              timestamp: new Date(),
+              storeKey,
+              data,
+              conflictStrategy: strategy
+            };
+            
+            // Debounce sync messages per store, so one store's update never
+            // swallows another's
+            const pendingTimeout = syncDebounceTimeouts.get(storeKey);
+            if (pendingTimeout) {
+              clearTimeout(pendingTimeout);
+            }
+            
+            syncDebounceTimeouts.set(storeKey, setTimeout(() => {
+              syncDebounceTimeouts.delete(storeKey);
+              if (registeredStores.has(storeKey)) {
+                snapshots.set(storeKey, data);
+              }
+              
+              if (broadcastChannel) {
+                broadcastChannel.postMessage(message);
+              } else {
+                // Fallback to localStorage
+                localStorage.setItem(
+                  `${get().config.channel}-message`,
+                  safeStringify(message)
+                );
+              }
+              
+              set({ lastSyncTime: new Date() }, false, 'broadcastUpdate');
+            }, get().config.syncDebounceMs));
+          },
+          
+          requestFullSync: () => {
+            const message: SyncMessage = {
+              type: 'request-sync',
+              tabId: get().currentTabId,
+              timestamp: new Date()
+            };
+            
+            if (broadcastChannel) {
+              broadcastChannel.postMessage(message);
+            }
+          },
+          
+          registerStore: (storeKey, getState, setState) => {
+            registeredStores.set(storeKey, { getState, setState });
+            
+            // Request initial sync for this store
+            if (get().connectionStatus === 'connected') {
+              setTimeout(() => {
+                get().broadcastUpdate('request-sync', { storeKey });
+              }, 100);
+            }
+          },
+          
+          unregisterStore: (storeKey) => {
+            registeredStores.delete(storeKey);
+            snapshots.delete(storeKey);
+            set((state) => {
+              const newPendingSync = new Set(state.pendingSync);
+              newPendingSync.delete(storeKey);
+              return {
+                pendingSync: newPendingSync,
+                conflicts: state.conflicts.filter((conflict) => conflict.storeKey !== storeKey)
+              };
+            }, false, 'unregisterStore');
+          },
+          
+          setConflictStrategy: (strategy) => {
+            set((state) => ({
+              config: { ...state.config, conflictStrategy: strategy }
+            }), false, 'setConflictStrategy');
+          },
+          
+          excludeStore: (storeKey) => {
+            set((state) => ({
+              config: {
+                ...state.config,
+                excludedStores: new Set(state.config.excludedStores).add(storeKey)
+              }
+            }), false, 'excludeStore');
+          },
+          
+          includeStore: (storeKey) => {
+            set((state) => {
+              const newExcludedStores = new Set(state.config.excludedStores);
+              newExcludedStores.delete(storeKey);
+              return {
+                config: { ...state.config, excludedStores: newExcludedStores }
+              };
+            }, false, 'includeStore');
+          },
+          
+          disconnect: () => {
+            if (broadcastChannel) {
+              broadcastChannel.close();
+              broadcastChannel = null;
+            }
+            
+            if (heartbeatInterval) {
+              clearInterval(heartbeatInterval);
+              heartbeatInterval = null;
+            }
+            
+            syncDebounceTimeouts.forEach((timeout) => clearTimeout(timeout));
+            syncDebounceTimeouts.clear();
+            
+            // Announce tab leave
+            get().broadcastUpdate('tab-leave', { tabId: get().currentTabId });
+            
+            set({ 
+              connectionStatus: 'disconnected',
+              connectedTabs: new Map(),
+              isLeaderTab: false
+            }, false, 'disconnect');
+          },
+          
+          resolveConflict: (conflictId, choices) => {
+            const conflict = get().conflicts.find((pending) => pending.id === conflictId);
+            if (!conflict) return;
+            
+            set((state) => ({
+              conflicts: state.conflicts.filter((pending) => pending.id !== conflictId)
+            }), false, 'conflict:resolved');
+            
+            const store = registeredStores.get(conflict.storeKey);
+            if (!store) return;
+            
+            // Local values are already in place; only remote choices change
+            // anything, which keeps edits made while the dialog was open
+            const remoteChoices = Object.fromEntries(
+              Object.entries(choices).filter(([, choice]) => choice === 'remote')
+            );
+            const resolved = applyConflictChoices(store.getState(), conflict.fields, remoteChoices);
+            
+            applyingRemote.add(conflict.storeKey);
+            try {
+              store.setState(resolved);
+            } finally {
+              applyingRemote.delete(conflict.storeKey);
+            }
+            
+            get().broadcastUpdate(conflict.storeKey, resolved);
+          },
+          
+          _handleMessage: (message: SyncMessage) => {
+            const state = get();
+            
+            // Ignore messages from self
+            if (message.tabId === state.currentTabId) return;
+            
+            switch (message.type) {
+              case 'state-update': {
+                if (!message.storeKey || !message.data) break;
+                
+                const store = registeredStores.get(message.storeKey);
+                if (!store) break;
+                
+                try {
+                  const storeKey = message.storeKey;
+                  const strategy = message.conflictStrategy || 'last-write-wins';
+                  const currentState = store.getState();
+                  const resolvedState = get()._resolveConflict(
+                    currentState,
+                    message.data,
+                    storeKey,
+                    strategy,
+                    message.tabId
+                  );
+                  
+                  applyingRemote.add(storeKey);
+                  try {
+                    store.setState(resolvedState);
+                  } finally {
+                    applyingRemote.delete(storeKey);
+                  }
+                  
+                  // While a conflict is open the base stays at the common
+                  // ancestor, so later updates still see the clash
+                  const conflictOpen = get().conflicts.some((conflict) => conflict.storeKey === storeKey);
+                  if (!conflictOpen) {
+                    snapshots.set(storeKey, message.data);
+                    
+                    // Send the merge back so the other tab converges on it
+                    if ((strategy === 'merge' || strategy === 'manual') && !deepEqual(resolvedState, message.data)) {
+                      get().broadcastUpdate(storeKey, resolvedState, strategy);
+                    }
+                  }
+                  
+                  set({ lastSyncTime: new Date() }, false, 'state-update:received');
+                } catch (error) {
+                  logger.error(`Failed to apply sync update for ${message.storeKey}:`, error);
+                  set((state) => ({
+                    syncErrors: [...state.syncErrors, `Sync error: ${error instanceof Error ? error.message : 'Unknown'}`]
+                  }), false, 'state-update:error');
+                }
+                break;
+              }
+              
+              case 'heartbeat': {
+                // Update connected tabs info
+                set((state) => {
+                  const newConnectedTabs = new Map(state.connectedTabs);
+                  const existingTab = newConnectedTabs.get(message.tabId);
+                  
+                  newConnectedTabs.set(message.tabId, {
+                    ...existingTab,
+                    ...message.data,
+                    id: message.tabId,
+                    lastSeen: message.timestamp
+                  });
+                  
+                  return { connectedTabs: newConnectedTabs };
+                }, false, 'heartbeat:received');
+                break;
+              }
+              
+              case 'request-sync': {
+                // Send current state to requesting tab
+                if (state.isLeaderTab) {
+                  registeredStores.forEach((store, storeKey) => {
+                    if (!state.config.excludedStores.has(storeKey)) {
+                      get().broadcastUpdate(storeKey, store.getState());
+                    }
+                  });
+                }
+                break;
+              }
+              
+              case 'tab-join': {
+                set((state) => {
+                  const newConnectedTabs = new Map(state.connectedTabs);
+                  newConnectedTabs.set(message.tabId, message.data);
+                  return { connectedTabs: newConnectedTabs };
+                }, false, 'tab:join');
+                
+                // Re-elect leader if needed
+                get()._electLeader();
+                break;
+              }
+              
+              case 'tab-leave': {
+                set((state) => {
+                  const newConnectedTabs = new Map(state.connectedTabs);
+                  newConnectedTabs.delete(message.tabId);
+                  return { connectedTabs: newConnectedTabs };
+                }, false, 'tab:leave');
+                
+                get()._electLeader();
+                break;
+              }
+            }
+          },
+          
+          _sendHeartbeat: () => {
+            const tabInfo = getTabInfo(get().currentTabId);
+            
+            const message: SyncMessage = {
+              type: 'heartbeat',
+              tabId: get().currentTabId,
+              timestamp: new Date(),
+              data: tabInfo
+            };
+            
+            if (broadcastChannel) {
+              broadcastChannel.postMessage(message);
+            }
+          },
+          
+          _isApplyingRemote: (storeKey) => applyingRemote.has(storeKey),
+          
+          _electLeader: () => {
+            const state = get();
+            const connectedTabIds = Array.from(state.connectedTabs.keys());
+            connectedTabIds.push(state.currentTabId);
+            
+            // Elect the tab with the earliest ID (timestamp-based)
+            const leaderId = connectedTabIds.sort()[0];
+            const isLeader = leaderId === state.currentTabId;
+            
+            if (isLeader !== state.isLeaderTab) {
+              set({ isLeaderTab: isLeader }, false, 'leader:elected');
+            }
+          },
+          
+          _resolveConflict: (local, remote, key, strategy, fromTabId = 'unknown') => {
+            switch (strategy) {
+              case 'last-write-wins':
+                return remote;
+              
+              case 'merge': {
+                const { merged, conflicts } = threeWayMerge(snapshots.get(key), local, remote);
+                // Fields changed in both tabs take the incoming value
+                return applyConflictChoices(
+                  merged,
+                  conflicts,
+                  Object.fromEntries(conflicts.map((conflict) => [conflictKey(conflict.path), 'remote' as const]))
+                );
+              }
+              
+              case 'manual': {
+                const base = snapshots.get(key);
+                const { merged, conflicts } = threeWayMerge(base, local, remote);
+                if (conflicts.length === 0) return merged;
+                
+                // Call custom conflict resolver if provided
+                const resolved = get().config.onConflict?.(local, remote, key, { base, merged, conflicts });
+                if (resolved !== undefined) return resolved;
+                
+                // Keep local values for the conflicting fields until the user chooses
+                const pending: PendingConflict = {
+                  id: `${key}-${Date.now()}`,
+                  storeKey: key,
+                  fromTabId,
+                  detectedAt: new Date(),
+                  fields: conflicts
+                };
+                set((state) => ({
+                  conflicts: [...state.conflicts.filter((conflict) => conflict.storeKey !== key), pending]
+                }), false, 'conflict:detected');
+                return merged;
+              }
+              
+              case 'ignore':
+              default:
+                return local;
+            }
+          }
+        };
+      }
+    ),
+    { name: 'TabSyncStore' }
+  )
+);
+
+// Hooks
+export const useTabSync = () => {
+  return useTabSyncStore((state) => ({
+    currentTabId: state.currentTabId,
+    connectedTabs: Array.from(state.connectedTabs.values()),
+    isLeaderTab: state.isLeaderTab,
+    connectionStatus: state.connectionStatus,
+    lastSyncTime: state.lastSyncTime,
+    syncErrors: state.syncErrors
+  }));
+};
+
+export const useTabSyncActions = () => {
+  return useTabSyncStore((state) => ({
+    initializeSync: state.initializeSync,
+    broadcastUpdate: state.broadcastUpdate,
+    requestFullSync: state.requestFullSync,
+    registerStore: state.registerStore,
+    unregisterStore: state.unregisterStore,
+    setConflictStrategy: state.setConflictStrategy,
+    excludeStore: state.excludeStore,
+    includeStore: state.includeStore,
+    disconnect: state.disconnect,
+    resolveConflict: state.resolveConflict
+  }));
+};
+
+export const useTabSyncConflicts = () => {
+  return useTabSyncStore((state) => state.conflicts);
+};
+
+// Sync every plain-data field; functions (store actions) cannot be sent to other tabs
+const dataOnlyAdapter: StoreSyncAdapter<Record<string, unknown>, Record<string, unknown>> = {
+  select: (state) =>
+    Object.fromEntries(Object.entries(state).filter(([, value]) => typeof value !== 'function')),
+  apply: (_state, synced) => synced
+};
+
+// Store sync registration hook
+export const useStoreSyncRegistration = (
+  storeKey: string,
+  useStore: any,
+  enabled = true,
+  adapter: StoreSyncAdapter = dataOnlyAdapter
+) => {
+  const { registerStore, unregisterStore, broadcastUpdate } = useTabSyncActions();
+  
+  React.useEffect(() => {
+    if (!enabled) return;
+    
+    const getState = () => adapter.select(useStore.getState());
+    const setState = (synced: any) =>
+      useStore.setState(adapter.apply(useStore.getState(), synced), false, `sync:${storeKey}`);
+    
+    registerStore(storeKey, getState, setState);
+    
+    // Broadcast local changes; updates applied from other tabs are not echoed
+    let lastSent = getState();
+    const unsubscribe = useStore.subscribe((state: any) => {
+      if (useTabSyncStore.getState()._isApplyingRemote(storeKey)) {
+        lastSent = adapter.select(state);
+        return;
+      }
+      
+      const synced = adapter.select(state);
+      if (!deepEqual(synced, lastSent)) {
+        lastSent = synced;
+        broadcastUpdate(storeKey, synced);
+      }
+    });
+    
+    return () => {
+      unsubscribe();
+      unregisterStore(storeKey);
+    };
+  }, [storeKey, useStore, registerStore, unregisterStore, broadcastUpdate, enabled, adapter]);
+};
+
+// Auto-initialize hook
+export const useAutoTabSync = (config?: Partial<SyncConfig>) => {
+  const { initializeSync, disconnect } = useTabSyncActions();
+  
+  React.useEffect(() => {
+    initializeSync(config);
+    
+    // Cleanup on unmount
+    return () => {
+      disconnect();
+    };
+  }, [initializeSync, disconnect]);
+};
\ No newline at end of file
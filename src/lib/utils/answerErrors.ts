@@ -0,0 +1,416 @@
+/**
+ * Error categories for learner answers
+ *
+ * Aligns the learner's answer with the expected one word by word and names
+ * what went wrong in each differing pair: gender/number agreement, verb
+ * conjugation or tense, accent marks, spelling, or word order. Words that
+ * are simply different are left to the semantic check; only near misses are
+ * reported, each with its correction.
+ */
+
+export type AnswerErrorCategory =
+  | 'agreement'
+  | 'conjugation'
+  | 'accents'
+  | 'spelling'
+  | 'word_order';
+
+export const ANSWER_ERROR_CATEGORIES: AnswerErrorCategory[] = [
+  'agreement',
+  'conjugation',
+  'accents',
+  'spelling',
+  'word_order',
+];
+
+export interface AnswerError {
+  category: AnswerErrorCategory;
+  /** What the learner wrote */
+  original: string;
+  correction: string;
+  message: string;
+}
+
+export interface AnswerErrorAnalysis {
+  errors: AnswerError[];
+  /** The learner's answer with every reported error fixed */
+  correctedAnswer: string;
+}
+
+type Language = 'es' | 'en';
+
+/** Points taken off a 0-100 score per error */
+export const ANSWER_ERROR_PENALTIES: Record<AnswerErrorCategory, number> = {
+  accents: 5,
+  spelling: 10,
+  agreement: 15,
+  conjugation: 15,
+  word_order: 10,
+};
+
+export const ANSWER_ERROR_LABELS: Record<Language, Record<AnswerErrorCategory, string>> = {
+  es: {
+    agreement: 'Concordancia de género y número',
+    conjugation: 'Conjugación y tiempos verbales',
+    accents: 'Tildes',
+    spelling: 'Ortografía',
+    word_order: 'Orden de las palabras',
+  },
+  en: {
+    agreement: 'Gender and number agreement',
+    conjugation: 'Verb conjugation and tense',
+    accents: 'Accent marks',
+    spelling: 'Spelling',
+    word_order: 'Word order',
+  },
+};
+
+/** Words that change together with the noun they go with */
+const DETERMINER_GROUPS: Record<Language, string[][]> = {
+  es: [
+    ['el', 'la', 'los', 'las', 'lo'],
+    ['un', 'una', 'unos', 'unas'],
+    ['este', 'esta', 'estos', 'estas'],
+    ['ese', 'esa', 'esos', 'esas'],
+    ['aquel', 'aquella', 'aquellos', 'aquellas'],
+    ['su', 'sus'],
+    ['mi', 'mis'],
+    ['tu', 'tus'],
+    ['nuestro', 'nuestra', 'nuestros', 'nuestras'],
+  ],
+  en: [
+    ['a', 'an'],
+    ['this', 'these'],
+    ['that', 'those'],
+  ],
+};
+
+/** Forms of one verb that share no regular stem */
+const IRREGULAR_VERBS: Record<Language, string[][]> = {
+  es: [
+    ['es', 'son', 'soy', 'eres', 'somos', 'era', 'eran', 'fue', 'fueron', 'ser', 'sea'],
+    ['va', 'van', 'voy', 'vas', 'vamos', 'iba', 'iban', 'fue', 'fueron', 'ir', 'vaya'],
+    ['hay', 'había', 'hubo', 'habrá', 'haya'],
+    ['ha', 'han', 'he', 'has', 'hemos', 'había', 'habían'],
+  ],
+  en: [
+    ['is', 'are', 'am', 'was', 'were', 'be', 'been'],
+    ['has', 'have', 'had'],
+    ['does', 'do', 'did', 'done'],
+    ['goes', 'go', 'went', 'gone'],
+  ],
+};
+
+const SUBJECT_WORDS: Record<Language, Set<string>> = {
+  es: new Set([
+    'yo',
+    'tú',
+    'él',
+    'ella',
+    'usted',
+    'nosotros',
+    'nosotras',
+    'vosotros',
+    'ellos',
+    'ellas',
+    'ustedes',
+    'me',
+    'te',
+    'se',
+    'nos',
+    'no',
+  ]),
+  en: new Set(['i', 'you', 'he', 'she', 'it', 'we', 'they', 'not', "doesn't", "don't"]),
+};
+
+/** Spanish endings that only ever mark a verb */
+const VERB_ENDINGS_ES =
+  /(ar|er|ir|ando|iendo|ado|ido|aba|abas|ábamos|aban|ía|ías|íamos|ían|é|aste|ó|amos|aron|í|iste|ió|imos|ieron|ré|rás|rá|remos|rán|ría|rías|rían|an|en|áis|éis|ís)$/u;
+
+/** Ending swaps that only change gender or number */
+const AGREEMENT_ENDINGS: Record<Language, Array<[string, string]>> = {
+  es: [
+    ['o', 'a'],
+    ['os', 'as'],
+    ['o', 'os'],
+    ['a', 'as'],
+    ['e', 'es'],
+    ['', 'es'],
+    ['', 's'],
+    ['o', 'as'],
+    ['a', 'os'],
+  ],
+  en: [
+    ['', 's'],
+    ['', 'es'],
+    ['y', 'ies'],
+  ],
+};
+
+const VERB_ENDINGS_EN = ['', 's', 'es', 'ed', 'd', 'ing'];
+
+interface Token {
+  text: string;
+  start: number;
+  end: number;
+}
+
+function tokenize(text: string): Token[] {
+  return Array.from(text.matchAll(/\p{L}[\p{L}'-]*/gu), match => ({
+    text: match[0],
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  }));
+}
+
+function stripAccents(word: string): string {
+  return word.normalize('NFD').replace(/\p{M}/gu, '');
+}
+
+/** Edit distance counting a swap of neighbouring letters as one edit */
+export function editDistance(a: string, b: string): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      d[i][j] = Math.min(
+        d[i - 1][j] + 1,
+        d[i][j - 1] + 1,
+        d[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+function commonPrefixLength(a: string, b: string): number {
+  let i = 0;
+  while (i < a.length && i < b.length && a[i] === b[i]) i++;
+  return i;
+}
+
+function inSameGroup(groups: string[][], a: string, b: string): boolean {
+  return groups.some(group => group.includes(a) && group.includes(b));
+}
+
+function isAgreementSwap(given: string, expected: string, language: Language): boolean {
+  return AGREEMENT_ENDINGS[language].some(([x, y]) =>
+    [
+      [x, y],
+      [y, x],
+    ].some(
+      ([fromEnding, toEnding]) =>
+        given.endsWith(fromEnding) &&
+        expected.endsWith(toEnding) &&
+        given.length - fromEnding.length >= 2 &&
+        given.slice(0, given.length - fromEnding.length) ===
+          expected.slice(0, expected.length - toEnding.length)
+    )
+  );
+}
+
+function isConjugationPair(given: string, expected: string, language: Language): boolean {
+  if (inSameGroup(IRREGULAR_VERBS[language], given, expected)) return true;
+
+  const prefix = commonPrefixLength(given, expected);
+  if (prefix < 3) return false;
+  const givenEnding = given.slice(prefix);
+  const expectedEnding = expected.slice(prefix);
+
+  if (language === 'en') {
+    return VERB_ENDINGS_EN.includes(givenEnding) && VERB_ENDINGS_EN.includes(expectedEnding);
+  }
+  return VERB_ENDINGS_ES.test(given) || VERB_ENDINGS_ES.test(expected);
+}
+
+/**
+ * Names the mistake in one aligned word pair, or null when the words are
+ * unrelated. `previous` is the expected word before the pair, used to tell
+ * verbs ("ellos habla") from adjectives ("casa blanco").
+ */
+export function classifyWordError(
+  given: string,
+  expected: string,
+  language: Language,
+  previous?: string
+): AnswerErrorCategory | null {
+  const g = given.toLowerCase();
+  const e = expected.toLowerCase();
+  if (g === e) return null;
+
+  if (stripAccents(g) === stripAccents(e)) return 'accents';
+  if (inSameGroup(DETERMINER_GROUPS[language], g, e)) return 'agreement';
+
+  const afterSubject =
+    previous !== undefined && SUBJECT_WORDS[language].has(previous.toLowerCase());
+  if (!afterSubject && isAgreementSwap(g, e, language)) return 'agreement';
+  if (isConjugationPair(g, e, language)) return 'conjugation';
+  if (afterSubject && isAgreementSwap(g, e, language)) return 'conjugation';
+
+  const distance = editDistance(stripAccents(g), stripAccents(e));
+  if (distance <= Math.max(1, Math.floor(e.length / 4))) return 'spelling';
+  return null;
+}
+
+function errorMessage(
+  category: AnswerErrorCategory,
+  original: string,
+  correction: string,
+  language: Language
+): string {
+  const es = language === 'es';
+  switch (category) {
+    case 'accents':
+      return es ? `Revisa las tildes: «${correction}»` : `Check the accent marks: "${correction}"`;
+    case 'agreement':
+      return es
+        ? `Concordancia de género o número: «${original}» → «${correction}»`
+        : `Gender or number agreement: "${original}" → "${correction}"`;
+    case 'conjugation':
+      return es
+        ? `Forma verbal o tiempo: «${original}» → «${correction}»`
+        : `Verb form or tense: "${original}" → "${correction}"`;
+    case 'spelling':
+      return es
+        ? `Ortografía: «${original}» → «${correction}»`
+        : `Spelling: "${original}" → "${correction}"`;
+    case 'word_order':
+      return es ? `Orden de las palabras: «${correction}»` : `Word order: "${correction}"`;
+  }
+}
+
+/** Keeps the learner's capitalisation when swapping in a correction */
+function matchCase(original: string, correction: string, sentenceStart: boolean): string {
+  const first = original.charAt(0);
+  if (first !== first.toLowerCase()) {
+    return correction.charAt(0).toUpperCase() + correction.slice(1);
+  }
+  return sentenceStart ? correction.charAt(0).toLowerCase() + correction.slice(1) : correction;
+}
+
+type Step = { given?: number; expected?: number; category?: AnswerErrorCategory | null };
+
+/**
+ * Word-level alignment; near-miss substitutions are cheaper than an
+ * insertion plus a deletion, so "casa blanco" pairs "blanco" with "blanca"
+ */
+function align(given: Token[], expected: Token[], language: Language): Step[] {
+  const rows = given.length + 1;
+  const cols = expected.length + 1;
+  const cost: number[][] = Array.from({ length: rows }, () => new Array(cols).fill(0));
+  const categories: Array<Array<AnswerErrorCategory | null>> = Array.from({ length: rows }, () =>
+    new Array(cols).fill(null)
+  );
+
+  for (let i = 0; i < rows; i++) cost[i][0] = i;
+  for (let j = 0; j < cols; j++) cost[0][j] = j;
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const g = given[i - 1].text;
+      const e = expected[j - 1].text;
+      const same = g.toLowerCase() === e.toLowerCase();
+      const category = same ? null : classifyWordError(g, e, language, expected[j - 2]?.text);
+      categories[i][j] = category;
+      const substitution = same ? 0 : category ? 1 : 2.5;
+      cost[i][j] = Math.min(
+        cost[i - 1][j] + 1,
+        cost[i][j - 1] + 1,
+        cost[i - 1][j - 1] + substitution
+      );
+    }
+  }
+
+  const steps: Step[] = [];
+  let i = rows - 1;
+  let j = cols - 1;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0) {
+      const same = given[i - 1].text.toLowerCase() === expected[j - 1].text.toLowerCase();
+      const substitution = same ? 0 : categories[i][j] ? 1 : 2.5;
+      if (cost[i][j] === cost[i - 1][j - 1] + substitution) {
+        steps.unshift({ given: i - 1, expected: j - 1, category: categories[i][j] });
+        i--;
+        j--;
+        continue;
+      }
+    }
+    if (i > 0 && cost[i][j] === cost[i - 1][j] + 1) {
+      steps.unshift({ given: i - 1 });
+      i--;
+    } else {
+      steps.unshift({ expected: j - 1 });
+      j--;
+    }
+  }
+  return steps;
+}
+
+export function analyzeAnswerErrors(
+  userAnswer: string,
+  expectedAnswer: string,
+  language: Language
+): AnswerErrorAnalysis {
+  const given = tokenize(userAnswer);
+  const expected = tokenize(expectedAnswer);
+  if (given.length === 0 || expected.length === 0) {
+    return { errors: [], correctedAnswer: userAnswer };
+  }
+
+  // Same words, different order
+  const sortedWords = (tokens: Token[]) =>
+    tokens
+      .map(token => token.text.toLowerCase())
+      .sort()
+      .join(' ');
+  const inOrder = (tokens: Token[]) => tokens.map(token => token.text.toLowerCase()).join(' ');
+  if (
+    given.length > 1 &&
+    sortedWords(given) === sortedWords(expected) &&
+    inOrder(given) !== inOrder(expected)
+  ) {
+    const correction = expectedAnswer.trim();
+    return {
+      errors: [
+        {
+          category: 'word_order',
+          original: userAnswer.trim(),
+          correction,
+          message: errorMessage('word_order', userAnswer.trim(), correction, language),
+        },
+      ],
+      correctedAnswer: correction,
+    };
+  }
+
+  const errors: AnswerError[] = [];
+  let correctedAnswer = '';
+  let cursor = 0;
+
+  for (const step of align(given, expected, language)) {
+    if (step.given === undefined || step.expected === undefined || !step.category) continue;
+
+    const token = given[step.given];
+    const correction = matchCase(token.text, expected[step.expected].text, step.expected === 0);
+    errors.push({
+      category: step.category,
+      original: token.text,
+      correction,
+      message: errorMessage(step.category, token.text, correction, language),
+    });
+    correctedAnswer += userAnswer.slice(cursor, token.start) + correction;
+    cursor = token.end;
+  }
+
+  return { errors, correctedAnswer: correctedAnswer + userAnswer.slice(cursor) };
+}
+
+/** Lowers a 0-100 score by the penalty for each error */
+export function applyErrorPenalties(score: number, errors: AnswerError[]): number {
+  const penalty = errors.reduce((sum, error) => sum + ANSWER_ERROR_PENALTIES[error.category], 0);
+  return Math.max(0, Math.round(score - penalty));
+}
@@ -0,0 +1,516 @@
+/**
+ * Contrast drills for confusable words
+ *
+ * Turns the pairs a learner mixes up (ser/estar, por/para, false friends or
+ * any two of their own words) into minimal-pair exercises: the same sentence
+ * frame where only one of the two words fits. Well-known pairs come with
+ * written rules and sentences; other pairs are drilled from the learner's
+ * own context sentences and translations.
+ */
+
+export type ContrastKind = 'grammar' | 'false_friends' | 'vocabulary';
+
+/** Index into a drill's word pair */
+export type PairSide = 0 | 1;
+
+export interface ConfusablePair {
+  word1Id: string;
+  word2Id: string;
+  word1: string;
+  word2: string;
+  /** Confusion edge weight, 0-1 */
+  confusionRate: number;
+}
+
+export interface ContrastWord {
+  id: string;
+  text: string;
+  translation?: string | null;
+  context?: string | null;
+  contextTranslation?: string | null;
+  usageNotes?: string | null;
+}
+
+export interface ContrastExercise {
+  id: string;
+  kind: 'sentence' | 'meaning';
+  /** Sentence with ___ in place of the word, or a meaning question */
+  prompt: string;
+  translation?: string;
+  /** The form of each word that would fill the blank, in pair order */
+  options: [string, string];
+  answer: PairSide;
+}
+
+export interface ContrastDrill {
+  id: string;
+  word1Id: string;
+  word2Id: string;
+  words: [ContrastWord, ContrastWord];
+  kind: ContrastKind;
+  topic: string;
+  /** When to use each word, in pair order */
+  notes: [string, string];
+  confusionRate: number;
+  exercises: ContrastExercise[];
+}
+
+export interface ContrastOutcome {
+  word1Id: string;
+  word2Id: string;
+  correct: number;
+  total: number;
+}
+
+interface CuratedSentence {
+  text: string;
+  forms: [string, string];
+  answer: PairSide;
+  translation: string;
+}
+
+interface CuratedContrast {
+  words: [string, string];
+  kind: ContrastKind;
+  notes: [string, string];
+  sentences: CuratedSentence[];
+}
+
+/** Classic confusions with rules and minimal-pair sentences */
+export const CURATED_CONTRASTS: CuratedContrast[] = [
+  {
+    words: ['ser', 'estar'],
+    kind: 'grammar',
+    notes: [
+      'Identity, profession, origin, time, and where events take place',
+      'States and conditions, and where people and things are',
+    ],
+    sentences: [
+      {
+        text: 'Mi hermana ___ médica.',
+        forms: ['es', 'está'],
+        answer: 0,
+        translation: 'My sister is a doctor.',
+      },
+      {
+        text: 'Mi hermana ___ cansada hoy.',
+        forms: ['es', 'está'],
+        answer: 1,
+        translation: 'My sister is tired today.',
+      },
+      {
+        text: 'La fiesta ___ en mi casa.',
+        forms: ['es', 'está'],
+        answer: 0,
+        translation: 'The party is at my house.',
+      },
+      {
+        text: 'Las llaves ___ en la mesa.',
+        forms: ['son', 'están'],
+        answer: 1,
+        translation: 'The keys are on the table.',
+      },
+    ],
+  },
+  {
+    words: ['por', 'para'],
+    kind: 'grammar',
+    notes: [
+      'Cause, exchange, duration, and movement through a place',
+      'Purpose, recipient, destination, and deadlines',
+    ],
+    sentences: [
+      {
+        text: 'Este regalo es ___ ti.',
+        forms: ['por', 'para'],
+        answer: 1,
+        translation: 'This present is for you.',
+      },
+      {
+        text: 'Caminamos ___ el parque.',
+        forms: ['por', 'para'],
+        answer: 0,
+        translation: 'We walked through the park.',
+      },
+      {
+        text: 'Estudio ___ aprobar el examen.',
+        forms: ['por', 'para'],
+        answer: 1,
+        translation: 'I study in order to pass the exam.',
+      },
+      {
+        text: 'Gracias ___ tu ayuda.',
+        forms: ['por', 'para'],
+        answer: 0,
+        translation: 'Thanks for your help.',
+      },
+    ],
+  },
+  {
+    words: ['saber', 'conocer'],
+    kind: 'grammar',
+    notes: [
+      'Facts, information, and knowing how to do something',
+      'Being familiar with people, places, and things',
+    ],
+    sentences: [
+      {
+        text: '¿___ nadar?',
+        forms: ['Sabes', 'Conoces'],
+        answer: 0,
+        translation: 'Can you swim?',
+      },
+      {
+        text: '¿___ a mi hermano?',
+        forms: ['Sabes', 'Conoces'],
+        answer: 1,
+        translation: 'Do you know my brother?',
+      },
+      {
+        text: 'No ___ dónde está la estación.',
+        forms: ['sé', 'conozco'],
+        answer: 0,
+        translation: "I don't know where the station is.",
+      },
+      {
+        text: '___ Madrid muy bien.',
+        forms: ['Sé', 'Conozco'],
+        answer: 1,
+        translation: 'I know Madrid very well.',
+      },
+    ],
+  },
+  {
+    words: ['pedir', 'preguntar'],
+    kind: 'grammar',
+    notes: ['Asking for something: an object, a favour, a service', 'Asking a question'],
+    sentences: [
+      {
+        text: 'Voy a ___ la cuenta.',
+        forms: ['pedir', 'preguntar'],
+        answer: 0,
+        translation: "I'm going to ask for the bill.",
+      },
+      {
+        text: 'Le voy a ___ la hora.',
+        forms: ['pedir', 'preguntar'],
+        answer: 1,
+        translation: "I'm going to ask him the time.",
+      },
+      {
+        text: 'Ella me ___ un favor.',
+        forms: ['pidió', 'preguntó'],
+        answer: 0,
+        translation: 'She asked me for a favour.',
+      },
+      {
+        text: 'Él me ___ cómo me llamo.',
+        forms: ['pidió', 'preguntó'],
+        answer: 1,
+        translation: 'He asked me what my name is.',
+      },
+    ],
+  },
+  {
+    words: ['llevar', 'traer'],
+    kind: 'grammar',
+    notes: ['Taking something away from where you are', 'Bringing something to where you are'],
+    sentences: [
+      {
+        text: '___ este libro a la biblioteca, por favor.',
+        forms: ['Lleva', 'Trae'],
+        answer: 0,
+        translation: 'Take this book to the library, please.',
+      },
+      {
+        text: '___ el pan cuando vengas.',
+        forms: ['Lleva', 'Trae'],
+        answer: 1,
+        translation: 'Bring the bread when you come.',
+      },
+    ],
+  },
+  {
+    words: ['tocar', 'jugar'],
+    kind: 'grammar',
+    notes: ['Playing an instrument; touching', 'Playing a game or sport'],
+    sentences: [
+      {
+        text: 'Mi hijo ___ la guitarra.',
+        forms: ['toca', 'juega'],
+        answer: 0,
+        translation: 'My son plays the guitar.',
+      },
+      {
+        text: 'Mi hijo ___ al fútbol.',
+        forms: ['toca', 'juega'],
+        answer: 1,
+        translation: 'My son plays football.',
+      },
+    ],
+  },
+  {
+    words: ['embarazada', 'avergonzada'],
+    kind: 'false_friends',
+    notes: ['Pregnant, not "embarrassed"', 'Embarrassed or ashamed'],
+    sentences: [
+      {
+        text: 'Mi hermana está ___ de seis meses.',
+        forms: ['embarazada', 'avergonzada'],
+        answer: 0,
+        translation: 'My sister is six months pregnant.',
+      },
+      {
+        text: 'Me caí delante de todos y estaba muy ___.',
+        forms: ['embarazada', 'avergonzada'],
+        answer: 1,
+        translation: 'I fell in front of everyone and was very embarrassed.',
+      },
+    ],
+  },
+  {
+    words: ['librería', 'biblioteca'],
+    kind: 'false_friends',
+    notes: ['Bookshop, not "library"', 'Library'],
+    sentences: [
+      {
+        text: 'Compré una novela en la ___.',
+        forms: ['librería', 'biblioteca'],
+        answer: 0,
+        translation: 'I bought a novel at the bookshop.',
+      },
+      {
+        text: 'Saqué un libro prestado de la ___.',
+        forms: ['librería', 'biblioteca'],
+        answer: 1,
+        translation: 'I borrowed a book from the library.',
+      },
+    ],
+  },
+  {
+    words: ['éxito', 'salida'],
+    kind: 'false_friends',
+    notes: ['Success, not "exit"', 'Exit'],
+    sentences: [
+      {
+        text: 'La película fue un gran ___.',
+        forms: ['éxito', 'salida'],
+        answer: 0,
+        translation: 'The film was a great success.',
+      },
+      {
+        text: 'La ___ está al fondo del pasillo.',
+        forms: ['éxito', 'salida'],
+        answer: 1,
+        translation: 'The exit is at the end of the corridor.',
+      },
+    ],
+  },
+  {
+    words: ['carpeta', 'alfombra'],
+    kind: 'false_friends',
+    notes: ['Folder, not "carpet"', 'Carpet or rug'],
+    sentences: [
+      {
+        text: 'Guardé los papeles en una ___.',
+        forms: ['carpeta', 'alfombra'],
+        answer: 0,
+        translation: 'I kept the papers in a folder.',
+      },
+      {
+        text: 'El gato duerme en la ___ del salón.',
+        forms: ['carpeta', 'alfombra'],
+        answer: 1,
+        translation: 'The cat sleeps on the living-room rug.',
+      },
+    ],
+  },
+];
+
+const LEADING_ARTICLE = /^(el|la|los|las|un|una|unos|unas)\s+/i;
+
+const normalizeWord = (word: string) =>
+  word.normalize('NFC').toLowerCase().trim().replace(LEADING_ARTICLE, '');
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * The curated contrast for two words, with `swapped` set when the words come
+ * in the opposite order to the curated entry
+ */
+export function findCuratedContrast(
+  word1: string,
+  word2: string
+): { contrast: CuratedContrast; swapped: boolean } | null {
+  const a = normalizeWord(word1);
+  const b = normalizeWord(word2);
+
+  for (const contrast of CURATED_CONTRASTS) {
+    const [first, second] = contrast.words;
+    if (first === a && second === b) return { contrast, swapped: false };
+    if (first === b && second === a) return { contrast, swapped: true };
+  }
+  return null;
+}
+
+/**
+ * Replace the word in its own context sentence with a blank; null when the
+ * sentence does not contain it as a whole word
+ */
+export function blankWord(sentence: string, word: string): string | null {
+  const text = word.trim().replace(LEADING_ARTICLE, '');
+  if (!text) return null;
+
+  // \b does not treat accented letters as word characters
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(text)}(?![\\p{L}\\p{N}])`, 'iu');
+  if (!pattern.test(sentence)) return null;
+  return sentence.replace(pattern, '___');
+}
+
+function curatedExercises(
+  drillId: string,
+  contrast: CuratedContrast,
+  swapped: boolean
+): ContrastExercise[] {
+  return contrast.sentences.map((sentence, index) => {
+    const [first, second] = sentence.forms;
+    return {
+      id: `${drillId}:s${index}`,
+      kind: 'sentence',
+      prompt: sentence.text,
+      translation: sentence.translation,
+      options: swapped ? [second, first] : [first, second],
+      answer: (swapped ? 1 - sentence.answer : sentence.answer) as PairSide,
+    };
+  });
+}
+
+function generatedExercises(drillId: string, words: [ContrastWord, ContrastWord]) {
+  const options: [string, string] = [words[0].text, words[1].text];
+  const sentences: ContrastExercise[] = [];
+  const meanings: ContrastExercise[] = [];
+
+  words.forEach((word, side) => {
+    const prompt = word.context ? blankWord(word.context, word.text) : null;
+    if (prompt) {
+      sentences.push({
+        id: `${drillId}:c${side}`,
+        kind: 'sentence',
+        prompt,
+        translation: word.contextTranslation ?? undefined,
+        options,
+        answer: side as PairSide,
+      });
+    }
+    // Two words with the same translation cannot be told apart by meaning
+    if (word.translation && word.translation !== words[1 - side].translation) {
+      meanings.push({
+        id: `${drillId}:m${side}`,
+        kind: 'meaning',
+        prompt: `Which word means "${word.translation}"?`,
+        options,
+        answer: side as PairSide,
+      });
+    }
+  });
+
+  return [...sentences, ...meanings];
+}
+
+/**
+ * Build the drill for one confusion pair, or null when there is nothing to
+ * drill it with (no curated entry and no usable sentences or translations)
+ */
+export function buildContrastDrill(
+  pair: ConfusablePair,
+  details: Map<string, ContrastWord> = new Map()
+): ContrastDrill | null {
+  const words: [ContrastWord, ContrastWord] = [
+    details.get(pair.word1Id) ?? { id: pair.word1Id, text: pair.word1 },
+    details.get(pair.word2Id) ?? { id: pair.word2Id, text: pair.word2 },
+  ];
+  if (!words[0].text || !words[1].text) return null;
+
+  const id = `${pair.word1Id}:${pair.word2Id}`;
+  const curated = findCuratedContrast(words[0].text, words[1].text);
+
+  if (curated) {
+    const { contrast, swapped } = curated;
+    return {
+      id,
+      word1Id: pair.word1Id,
+      word2Id: pair.word2Id,
+      words,
+      kind: contrast.kind,
+      topic: `${words[0].text} / ${words[1].text}`,
+      notes: swapped ? [contrast.notes[1], contrast.notes[0]] : contrast.notes,
+      confusionRate: pair.confusionRate,
+      exercises: curatedExercises(id, contrast, swapped),
+    };
+  }
+
+  const exercises = generatedExercises(id, words);
+  // One exercise is a coin flip, not a contrast
+  if (exercises.length < 2) return null;
+
+  const note = (word: ContrastWord) =>
+    [word.translation, word.usageNotes].filter(Boolean).join('. ') || word.text;
+
+  return {
+    id,
+    word1Id: pair.word1Id,
+    word2Id: pair.word2Id,
+    words,
+    kind: 'vocabulary',
+    topic: `${words[0].text} / ${words[1].text}`,
+    notes: [note(words[0]), note(words[1])],
+    confusionRate: pair.confusionRate,
+    exercises,
+  };
+}
+
+/**
+ * Drills for the learner's most confused pairs, strongest confusion first.
+ * A pair that came back from the graph in both directions is drilled once.
+ */
+export function buildContrastDrills(
+  pairs: ConfusablePair[],
+  details: Map<string, ContrastWord> = new Map(),
+  maxDrills: number = 5
+): ContrastDrill[] {
+  const seen = new Set<string>();
+  const drills: ContrastDrill[] = [];
+
+  for (const pair of [...pairs].sort((a, b) => b.confusionRate - a.confusionRate)) {
+    const key = [pair.word1Id, pair.word2Id].sort().join('|');
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const drill = buildContrastDrill(pair, details);
+    if (drill) drills.push(drill);
+    if (drills.length >= maxDrills) break;
+  }
+
+  return drills;
+}
+
+/**
+ * How the learner did on a drill; answers are indexed like its exercises and
+ * unanswered exercises are not counted
+ */
+export function scoreContrastDrill(
+  drill: ContrastDrill,
+  answers: Array<PairSide | null | undefined>
+): ContrastOutcome {
+  let correct = 0;
+  let total = 0;
+
+  drill.exercises.forEach((exercise, index) => {
+    const answer = answers[index];
+    if (answer === null || answer === undefined) return;
+    total++;
+    if (answer === exercise.answer) correct++;
+  });
+
+  return { word1Id: drill.word1Id, word2Id: drill.word2Id, correct, total };
+}
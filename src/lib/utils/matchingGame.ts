@@ -0,0 +1,187 @@
+/**
+ * Matching game
+ *
+ * Builds rounds of the drag-to-match game: a column of words and a shuffled
+ * column of what they pair with, either their translations or the part of
+ * an image they name. Rounds are seeded so a replayed round keeps its
+ * layout; scoring counts a pair as known only when it was matched on the
+ * first try.
+ */
+
+import type { SavedPhrase } from '@/types/api';
+import {
+  createRandom,
+  normalizeAnswer,
+  shuffle,
+  type ImageRegion,
+  type LabelledImageRegion,
+} from './questionKinds';
+
+export type MatchingMode = 'translation' | 'image';
+
+export interface MatchingSourceItem {
+  id: string;
+  text: string;
+  translation?: string;
+  /** Image the word names, whole or the region below */
+  imageUrl?: string;
+  region?: ImageRegion;
+}
+
+export interface MatchingCard {
+  /** Unique across both columns */
+  id: string;
+  /** The source item; a word and its target share it */
+  pairId: string;
+  side: 'word' | 'target';
+  /** Word or translation; image targets have none */
+  label?: string;
+  imageUrl?: string;
+  region?: ImageRegion;
+}
+
+export interface MatchingRound {
+  mode: MatchingMode;
+  words: MatchingCard[];
+  targets: MatchingCard[];
+}
+
+export interface MatchingAttempt {
+  /** The dragged word's pair */
+  pairId: string;
+  correct: boolean;
+}
+
+export interface MatchingScore {
+  total: number;
+  matched: number;
+  /** Pairs matched without a wrong drop first */
+  firstTry: number;
+  mistakes: number;
+  /** firstTry as a share of total, 0-100 */
+  accuracy: number;
+  /** Pairs that took more than one try */
+  missed: string[];
+}
+
+export const DEFAULT_MATCHING_ROUND_SIZE = 6;
+
+/** Two pairs with the same word or target could be matched either way */
+function distinctBy<T>(items: T[], key: (item: T) => string): T[] {
+  const seen = new Set<string>();
+  return items.filter(item => {
+    const value = key(item);
+    if (!value || seen.has(value)) return false;
+    seen.add(value);
+    return true;
+  });
+}
+
+export function matchingItemsFromPhrases(phrases: SavedPhrase[]): MatchingSourceItem[] {
+  return phrases.map(phrase => ({
+    id: phrase.id,
+    text: phrase.phrase,
+    translation: phrase.translation,
+  }));
+}
+
+/** Each labelled region of one image becomes a word to match to its crop */
+export function matchingItemsFromRegions(
+  imageUrl: string,
+  regions: LabelledImageRegion[]
+): MatchingSourceItem[] {
+  return regions.map((region, index) => ({
+    id: `region-${index}`,
+    text: region.label,
+    imageUrl,
+    region: { x: region.x, y: region.y, width: region.width, height: region.height },
+  }));
+}
+
+export function buildMatchingRound(
+  items: MatchingSourceItem[],
+  mode: MatchingMode,
+  { size = DEFAULT_MATCHING_ROUND_SIZE, seed = '' }: { size?: number; seed?: string } = {}
+): MatchingRound {
+  const eligible = items.filter(item =>
+    mode === 'translation' ? item.translation?.trim() : item.imageUrl
+  );
+  const unique = distinctBy(
+    distinctBy(eligible, item => normalizeAnswer(item.text)),
+    item =>
+      mode === 'translation'
+        ? normalizeAnswer(item.translation ?? '')
+        : `${item.imageUrl}#${JSON.stringify(item.region ?? null)}`
+  );
+
+  const random = createRandom(`${seed}:${mode}:${unique.map(item => item.id).join(',')}`);
+  const chosen = shuffle(unique, random).slice(0, Math.max(0, size));
+
+  const words: MatchingCard[] = chosen.map(item => ({
+    id: `word:${item.id}`,
+    pairId: item.id,
+    side: 'word',
+    label: item.text,
+  }));
+  const targets: MatchingCard[] = chosen.map(item =>
+    mode === 'translation'
+      ? { id: `target:${item.id}`, pairId: item.id, side: 'target', label: item.translation }
+      : {
+          id: `target:${item.id}`,
+          pairId: item.id,
+          side: 'target',
+          imageUrl: item.imageUrl,
+          region: item.region,
+        }
+  );
+
+  return { mode, words, targets: shuffle(targets, random) };
+}
+
+export function isMatch(word: MatchingCard, target: MatchingCard): boolean {
+  return word.side === 'word' && target.side === 'target' && word.pairId === target.pairId;
+}
+
+export function scoreMatching(round: MatchingRound, attempts: MatchingAttempt[]): MatchingScore {
+  const total = round.words.length;
+  const matched = new Set<string>();
+  const missed = new Set<string>();
+
+  for (const attempt of attempts) {
+    if (matched.has(attempt.pairId)) continue;
+    if (attempt.correct) {
+      matched.add(attempt.pairId);
+    } else {
+      missed.add(attempt.pairId);
+    }
+  }
+
+  const firstTry = [...matched].filter(pairId => !missed.has(pairId)).length;
+  return {
+    total,
+    matched: matched.size,
+    firstTry,
+    mistakes: attempts.filter(attempt => !attempt.correct).length,
+    accuracy: total > 0 ? Math.round((firstTry / total) * 100) : 0,
+    missed: round.words.map(word => word.pairId).filter(pairId => missed.has(pairId)),
+  };
+}
+
+/**
+ * Background styles that show only the region of the image, scaled to fill
+ * the card (region values are fractions of the image size)
+ */
+export function regionBackgroundStyle(
+  imageUrl: string,
+  region?: ImageRegion
+): Record<'backgroundImage' | 'backgroundSize' | 'backgroundPosition', string> {
+  const { x, y, width, height } = region ?? { x: 0, y: 0, width: 1, height: 1 };
+  const position = (offset: number, size: number) =>
+    size >= 1 ? 0 : Math.round((offset / (1 - size)) * 10000) / 100;
+
+  return {
+    backgroundImage: `url("${imageUrl}")`,
+    backgroundSize: `${Math.round(10000 / width) / 100}% ${Math.round(10000 / height) / 100}%`,
+    backgroundPosition: `${position(x, width)}% ${position(y, height)}%`,
+  };
+}
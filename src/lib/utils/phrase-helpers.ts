@@ -1,4 +1,5 @@
 import { CategorizedPhrase } from "@/types/api/response-types";
+import { getRegionalUsage } from "@/lib/languages/variants";
 
 export function createCategorizedPhrase(params: {
   phrase: string;
@@ -26,6 +27,7 @@ export function createCategorizedPhrase(params: {
     gender: params.gender,
     article: params.article,
     conjugation: params.conjugation,
+    regions: getRegionalUsage(params.phrase)?.regions,
     createdAt: new Date(),
   };
 }
@@ -0,0 +1,539 @@
+/**
+ * Typed question kinds for image Q&A
+ *
+ * Builds cloze, multiple-choice, true/false and image-region questions
+ * straight from a description (no model call) and grades answers for each
+ * kind. QAService uses it on the server and EnhancedQASystem in the browser,
+ * so both agree on what counts as a correct answer.
+ */
+
+import { analyzeAnswerErrors, type AnswerError } from './answerErrors';
+
+export type QuestionKind =
+  | 'free_text'
+  | 'cloze'
+  | 'multiple_choice'
+  | 'true_false'
+  | 'image_region';
+
+/** Kinds that can be built from a description without a model */
+export const TYPED_QUESTION_KINDS: QuestionKind[] = [
+  'cloze',
+  'multiple_choice',
+  'true_false',
+  'image_region',
+];
+
+export const CLOZE_GAP = '_____';
+
+/** Box as fractions (0-1) of the image width and height */
+export interface ImageRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface LabelledImageRegion extends ImageRegion {
+  label: string;
+  /** Other answers accepted for the region, e.g. synonyms */
+  alternatives?: string[];
+}
+
+export interface QuestionVocabularyEntry {
+  term: string;
+  translation?: string;
+  category?: string;
+}
+
+export interface TypedQuestion {
+  kind: QuestionKind;
+  question: string;
+  /** Expected answer; `'true'` or `'false'` for true/false items */
+  answer: string;
+  category: string;
+  explanation?: string;
+  options?: string[];
+  correctOption?: number;
+  acceptedAnswers?: string[];
+  region?: ImageRegion;
+}
+
+export type GradableQuestion = Pick<
+  TypedQuestion,
+  'kind' | 'answer' | 'options' | 'correctOption' | 'acceptedAnswers'
+>;
+
+export interface TypedQuestionSource {
+  description: string;
+  language: 'es' | 'en';
+  count: number;
+  /** Defaults to every typed kind */
+  kinds?: QuestionKind[];
+  /** The learner's saved words, used for gaps and distractors */
+  vocabulary?: QuestionVocabularyEntry[];
+  regions?: LabelledImageRegion[];
+}
+
+export interface TypedAnswerResult {
+  isCorrect: boolean;
+  /** 0-100 */
+  score: number;
+  exactMatch: boolean;
+  /** Correct apart from accents, e.g. "arbol" for "árbol" */
+  accentSlip: boolean;
+  feedback: string;
+  /** Near misses in written answers, each with its correction */
+  errors: AnswerError[];
+  correctedAnswer?: string;
+}
+
+/** Common words too plain to quiz or compare on */
+export const STOP_WORDS: Record<'es' | 'en', Set<string>> = {
+  es: new Set([
+    'para',
+    'como',
+    'pero',
+    'esta',
+    'este',
+    'esto',
+    'estos',
+    'estas',
+    'están',
+    'había',
+    'hace',
+    'desde',
+    'hasta',
+    'sobre',
+    'entre',
+    'donde',
+    'cuando',
+    'muy',
+    'más',
+    'tiene',
+    'tienen',
+    'puede',
+    'también',
+    'todo',
+    'toda',
+    'todos',
+    'todas',
+    'unos',
+    'unas',
+    'del',
+    'ella',
+    'ellos',
+    'ellas',
+    'porque',
+    'parece',
+    'cada',
+  ]),
+  en: new Set([
+    'that',
+    'this',
+    'these',
+    'those',
+    'with',
+    'from',
+    'there',
+    'their',
+    'they',
+    'have',
+    'has',
+    'been',
+    'were',
+    'which',
+    'while',
+    'into',
+    'over',
+    'some',
+    'very',
+    'also',
+    'about',
+    'where',
+    'when',
+    'appears',
+    'seems',
+    'each',
+  ]),
+};
+
+const CATEGORY_LABELS: Record<'es' | 'en', Record<Exclude<QuestionKind, 'free_text'>, string>> = {
+  es: {
+    cloze: 'Vocabulario',
+    multiple_choice: 'Vocabulario',
+    true_false: 'Comprensión',
+    image_region: 'Observación',
+  },
+  en: {
+    cloze: 'Vocabulary',
+    multiple_choice: 'Vocabulary',
+    true_false: 'Comprehension',
+    image_region: 'Observation',
+  },
+};
+
+const TRUE_WORDS = new Set(['true', 't', 'yes', 'verdadero', 'v', 'si', 'cierto']);
+const FALSE_WORDS = new Set(['false', 'f', 'no', 'falso']);
+
+/** Lowercases and drops punctuation, keeping accents */
+function foldCase(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s'-]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/** Like foldCase, but also strips accents */
+export function normalizeAnswer(text: string): string {
+  return foldCase(text.normalize('NFD').replace(/\p{M}/gu, ''));
+}
+
+function hashString(value: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+/** Seeded generator so the same description always yields the same quiz */
+export function createRandom(seed: string): () => number {
+  let state = hashString(seed) || 1;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function shuffle<T>(items: T[], random: () => number): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => tokenize(sentence).length >= 4);
+}
+
+function tokenize(sentence: string): string[] {
+  return sentence.match(/\p{L}[\p{L}'-]*/gu) ?? [];
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function wordPattern(word: string): RegExp {
+  return new RegExp(`(^|[^\\p{L}])(${escapeRegExp(word)})(?=[^\\p{L}]|$)`, 'iu');
+}
+
+function replaceWord(sentence: string, word: string, replacement: string): string {
+  return sentence.replace(wordPattern(word), (_match, prefix: string) => prefix + replacement);
+}
+
+interface GapCandidate {
+  sentence: string;
+  target: string;
+  entry?: QuestionVocabularyEntry;
+}
+
+/**
+ * Picks words to blank out, one per sentence per round. Words the learner
+ * has saved come first, then the longest content words.
+ */
+function collectGapCandidates(
+  sentences: string[],
+  vocabulary: QuestionVocabularyEntry[],
+  language: 'es' | 'en'
+): GapCandidate[] {
+  const vocabByWord = new Map(
+    vocabulary
+      .filter(entry => tokenize(entry.term).length === 1)
+      .map(entry => [foldCase(entry.term), entry] as const)
+  );
+
+  const perSentence = sentences.map(sentence => {
+    const seen = new Set<string>();
+    const words = tokenize(sentence).filter(word => {
+      const key = foldCase(word);
+      if (seen.has(key) || word.length < 4 || STOP_WORDS[language].has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+    return words
+      .map(word => ({ sentence, target: word, entry: vocabByWord.get(foldCase(word)) }))
+      .sort(
+        (a, b) =>
+          Number(Boolean(b.entry)) - Number(Boolean(a.entry)) || b.target.length - a.target.length
+      );
+  });
+
+  const candidates: GapCandidate[] = [];
+  const longest = Math.max(0, ...perSentence.map(words => words.length));
+  for (let rank = 0; rank < longest; rank++) {
+    perSentence.forEach(words => {
+      if (words[rank]) candidates.push(words[rank]);
+    });
+  }
+  return candidates;
+}
+
+/**
+ * Plausible wrong answers for a gap: the learner's own words first, preferring
+ * the same category and a similar length, then other words from the text.
+ */
+function pickDistractors(
+  candidate: GapCandidate,
+  vocabulary: QuestionVocabularyEntry[],
+  fallbackWords: string[],
+  random: () => number,
+  count = 3
+): string[] {
+  const sentenceWords = new Set(tokenize(candidate.sentence).map(normalizeAnswer));
+  const used = new Set([normalizeAnswer(candidate.target)]);
+  const take = (word: string) => {
+    const key = normalizeAnswer(word);
+    if (!key || used.has(key) || sentenceWords.has(key)) return false;
+    used.add(key);
+    return true;
+  };
+
+  const ranked = shuffle(
+    vocabulary.filter(entry => tokenize(entry.term).length === 1),
+    random
+  ).sort((a, b) => {
+    const category = candidate.entry?.category;
+    const sameCategory =
+      Number(Boolean(category) && b.category === category) -
+      Number(Boolean(category) && a.category === category);
+    return (
+      sameCategory ||
+      Math.abs(a.term.length - candidate.target.length) -
+        Math.abs(b.term.length - candidate.target.length)
+    );
+  });
+
+  const distractors: string[] = [];
+  for (const word of [...ranked.map(entry => entry.term), ...shuffle(fallbackWords, random)]) {
+    if (distractors.length >= count) break;
+    if (take(word)) distractors.push(word.trim());
+  }
+  return distractors;
+}
+
+/**
+ * Builds up to `count` questions, rotating through the requested kinds.
+ * Kinds that run out of material (no regions, no distractors) are skipped.
+ */
+export function buildTypedQuestions(source: TypedQuestionSource): TypedQuestion[] {
+  const { language } = source;
+  const vocabulary = source.vocabulary ?? [];
+  const kinds = (source.kinds ?? TYPED_QUESTION_KINDS).filter(kind => kind !== 'free_text');
+  const random = createRandom(`${language}:${source.description}`);
+  const sentences = splitSentences(source.description);
+  const candidates = collectGapCandidates(sentences, vocabulary, language);
+  const fallbackWords = candidates.map(candidate => candidate.target);
+  const regions = [...(source.regions ?? [])];
+  const labels = CATEGORY_LABELS[language];
+
+  const build = (kind: QuestionKind): TypedQuestion | null => {
+    if (kind === 'image_region') {
+      const region = regions.shift();
+      if (!region) return null;
+      return {
+        kind,
+        question:
+          language === 'es'
+            ? '¿Qué es lo que está marcado en la imagen?'
+            : 'What is marked in the image?',
+        answer: region.label,
+        acceptedAnswers: region.alternatives,
+        region: { x: region.x, y: region.y, width: region.width, height: region.height },
+        category: labels.image_region,
+        explanation: language === 'es' ? `Es: ${region.label}.` : `It is: ${region.label}.`,
+      };
+    }
+
+    while (candidates.length > 0) {
+      const candidate = candidates.shift()!;
+      const original =
+        language === 'es'
+          ? `Frase original: ${candidate.sentence}`
+          : `Original sentence: ${candidate.sentence}`;
+
+      if (kind === 'cloze') {
+        return {
+          kind,
+          question: replaceWord(candidate.sentence, candidate.target, CLOZE_GAP),
+          answer: candidate.target,
+          category: labels.cloze,
+          explanation: original,
+        };
+      }
+
+      const distractors = pickDistractors(candidate, vocabulary, fallbackWords, random);
+
+      if (kind === 'multiple_choice') {
+        if (distractors.length < 2) continue;
+        const options = shuffle([candidate.target, ...distractors], random);
+        return {
+          kind,
+          question: replaceWord(candidate.sentence, candidate.target, CLOZE_GAP),
+          answer: candidate.target,
+          options,
+          correctOption: options.indexOf(candidate.target),
+          category: labels.multiple_choice,
+          explanation: original,
+        };
+      }
+
+      if (kind === 'true_false') {
+        const isTrue = distractors.length === 0 || random() < 0.5;
+        return {
+          kind,
+          question: isTrue
+            ? candidate.sentence
+            : replaceWord(candidate.sentence, candidate.target, distractors[0]),
+          answer: String(isTrue),
+          category: labels.true_false,
+          explanation: original,
+        };
+      }
+      return null;
+    }
+    return null;
+  };
+
+  const questions: TypedQuestion[] = [];
+  const exhausted = new Set<QuestionKind>();
+  for (let turn = 0; questions.length < source.count && exhausted.size < kinds.length; turn++) {
+    const kind = kinds[turn % kinds.length];
+    if (exhausted.has(kind)) continue;
+    const question = build(kind);
+    if (question) questions.push(question);
+    else exhausted.add(kind);
+  }
+  return questions;
+}
+
+function parseTrueFalse(answer: string): boolean | null {
+  const value = normalizeAnswer(answer);
+  if (TRUE_WORDS.has(value)) return true;
+  if (FALSE_WORDS.has(value)) return false;
+  return null;
+}
+
+function optionIndex(question: GradableQuestion, answer: string): number {
+  const trimmed = answer.trim();
+  if (/^\d+$/.test(trimmed)) return Number(trimmed);
+  const value = normalizeAnswer(trimmed);
+  return (question.options ?? []).findIndex(option => normalizeAnswer(option) === value);
+}
+
+/**
+ * Grades an answer for its question kind. Multiple choice takes the option
+ * index or its text, true/false takes true/false in either language, and
+ * written answers are compared ignoring case and punctuation, with a
+ * reduced score when only the accents are off. Free-text answers need a
+ * semantic check, so only an exact match is recognised here.
+ */
+export function gradeTypedAnswer(
+  question: GradableQuestion,
+  userAnswer: string,
+  language: 'es' | 'en'
+): TypedAnswerResult {
+  const es = language === 'es';
+  const result = (isCorrect: boolean, feedback: string, accentSlip = false): TypedAnswerResult => ({
+    isCorrect,
+    score: isCorrect ? (accentSlip ? 90 : 100) : 0,
+    exactMatch: isCorrect && !accentSlip,
+    accentSlip,
+    feedback,
+    errors: [],
+  });
+  const correct = es ? '¡Correcto!' : 'Correct!';
+
+  switch (question.kind) {
+    case 'multiple_choice': {
+      const isCorrect = optionIndex(question, userAnswer) === question.correctOption;
+      const expected = question.options?.[question.correctOption ?? -1] ?? question.answer;
+      return result(
+        isCorrect,
+        isCorrect
+          ? correct
+          : es
+            ? `La respuesta correcta es «${expected}».`
+            : `The correct answer is "${expected}".`
+      );
+    }
+
+    case 'true_false': {
+      const given = parseTrueFalse(userAnswer);
+      if (given === null) {
+        return result(false, es ? 'Responde verdadero o falso.' : 'Answer true or false.');
+      }
+      const isCorrect = given === (question.answer === 'true');
+      const statement =
+        question.answer === 'true'
+          ? es
+            ? 'La afirmación es verdadera.'
+            : 'The statement is true.'
+          : es
+            ? 'La afirmación es falsa.'
+            : 'The statement is false.';
+      return result(isCorrect, isCorrect ? correct : statement);
+    }
+
+    default: {
+      const expected = [question.answer, ...(question.acceptedAnswers ?? [])];
+      const given = foldCase(userAnswer);
+      if (given && expected.some(answer => foldCase(answer) === given)) {
+        return result(true, correct);
+      }
+      const loose = normalizeAnswer(userAnswer);
+      const accentMatch = expected.find(answer => normalizeAnswer(answer) === loose);
+      if (loose && accentMatch) {
+        const { errors, correctedAnswer } = analyzeAnswerErrors(userAnswer, accentMatch, language);
+        return {
+          ...result(
+            true,
+            es
+              ? `Casi perfecto: revisa los acentos («${question.answer}»).`
+              : `Almost: check the accents ("${question.answer}").`,
+            true
+          ),
+          errors,
+          correctedAnswer,
+        };
+      }
+      // Wrong, but maybe only by an ending or a letter
+      const { errors, correctedAnswer } = analyzeAnswerErrors(
+        userAnswer,
+        question.answer,
+        language
+      );
+      return {
+        ...result(
+          false,
+          es
+            ? `La respuesta correcta es «${question.answer}».`
+            : `The correct answer is "${question.answer}".`
+        ),
+        errors,
+        correctedAnswer: errors.length > 0 ? correctedAnswer : undefined,
+      };
+    }
+  }
+}
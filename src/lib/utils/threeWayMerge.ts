@@ -0,0 +1,227 @@
+/**
+ * Structural three-way merge for synchronised store state
+ *
+ * Given the last state two copies agreed on (the base) and each copy's
+ * current state, changes made on only one side are taken as they are.
+ * Plain objects are merged key by key and arrays of `{ id }` objects item by
+ * item, so edits to different fields or items never clash. A field changed
+ * differently on both sides is reported as a conflict; the merged state
+ * keeps the local value until a choice is applied.
+ */
+
+export type MergePath = Array<string | number>;
+
+export interface MergeConflict {
+  path: MergePath;
+  base: unknown;
+  /** `undefined` when the local side removed the value */
+  local: unknown;
+  /** `undefined` when the remote side removed the value */
+  remote: unknown;
+}
+
+export interface MergeResult<T> {
+  merged: T;
+  conflicts: MergeConflict[];
+}
+
+export type ConflictChoice = 'local' | 'remote';
+
+// Distinguishes a removed key or item from one holding `undefined`
+const ABSENT = Symbol('absent');
+
+type Identified = { id: string | number };
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+function isIdentifiedArray(value: unknown): value is Identified[] {
+  return (
+    Array.isArray(value) &&
+    value.every(
+      item => isPlainObject(item) && (typeof item.id === 'string' || typeof item.id === 'number')
+    )
+  );
+}
+
+export function deepEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+  if (a instanceof Set && b instanceof Set) {
+    return a.size === b.size && Array.from(a).every(value => b.has(value));
+  }
+  if (a instanceof Map && b instanceof Map) {
+    return (
+      a.size === b.size &&
+      Array.from(a).every(([key, value]) => b.has(key) && deepEqual(value, b.get(key)))
+    );
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((value, i) => deepEqual(value, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every(key => Object.prototype.hasOwnProperty.call(b, key) && deepEqual(a[key], b[key]))
+    );
+  }
+  return false;
+}
+
+function present(value: unknown): unknown {
+  return value === ABSENT ? undefined : value;
+}
+
+function mergeObjects(
+  base: Record<string, unknown> | undefined,
+  local: Record<string, unknown>,
+  remote: Record<string, unknown>,
+  path: MergePath,
+  conflicts: MergeConflict[]
+): Record<string, unknown> {
+  const keys = new Set([...Object.keys(local), ...Object.keys(remote), ...Object.keys(base ?? {})]);
+  const merged: Record<string, unknown> = {};
+
+  for (const key of keys) {
+    const value = mergeValue(
+      base && key in base ? base[key] : ABSENT,
+      key in local ? local[key] : ABSENT,
+      key in remote ? remote[key] : ABSENT,
+      [...path, key],
+      conflicts
+    );
+    if (value !== ABSENT) {
+      merged[key] = value;
+    }
+  }
+
+  return merged;
+}
+
+function mergeIdentifiedArrays(
+  base: Identified[] | undefined,
+  local: Identified[],
+  remote: Identified[],
+  path: MergePath,
+  conflicts: MergeConflict[]
+): Identified[] {
+  const index = (items: Identified[] | undefined) =>
+    new Map((items ?? []).map(item => [item.id, item] as const));
+  const baseById = index(base);
+  const localById = index(local);
+  const remoteById = index(remote);
+
+  // Local order first, then items only the remote side added
+  const ids = [
+    ...local.map(item => item.id),
+    ...remote.map(item => item.id).filter(id => !localById.has(id) && !baseById.has(id)),
+    ...(base ?? []).map(item => item.id).filter(id => !localById.has(id)),
+  ];
+
+  const merged: Identified[] = [];
+  for (const id of new Set(ids)) {
+    const value = mergeValue(
+      baseById.get(id) ?? ABSENT,
+      localById.get(id) ?? ABSENT,
+      remoteById.get(id) ?? ABSENT,
+      [...path, id],
+      conflicts
+    );
+    if (value !== ABSENT) {
+      merged.push(value as Identified);
+    }
+  }
+
+  return merged;
+}
+
+function mergeValue(
+  base: unknown,
+  local: unknown,
+  remote: unknown,
+  path: MergePath,
+  conflicts: MergeConflict[]
+): unknown {
+  if (deepEqual(local, remote)) return local;
+  if (deepEqual(base, local)) return remote;
+  if (deepEqual(base, remote)) return local;
+
+  if (isPlainObject(local) && isPlainObject(remote)) {
+    return mergeObjects(isPlainObject(base) ? base : undefined, local, remote, path, conflicts);
+  }
+
+  if (isIdentifiedArray(local) && isIdentifiedArray(remote)) {
+    return mergeIdentifiedArrays(
+      isIdentifiedArray(base) ? base : undefined,
+      local,
+      remote,
+      path,
+      conflicts
+    );
+  }
+
+  conflicts.push({ path, base: present(base), local: present(local), remote: present(remote) });
+  return local;
+}
+
+/**
+ * Merge `local` and `remote` against their common ancestor. Without a base
+ * every difference is a conflict, except inside objects and id-keyed arrays
+ * where one side simply has entries the other lacks.
+ */
+export function threeWayMerge<T>(base: T | undefined, local: T, remote: T): MergeResult<T> {
+  const conflicts: MergeConflict[] = [];
+  const merged = mergeValue(base === undefined ? ABSENT : base, local, remote, [], conflicts);
+  return { merged: merged as T, conflicts };
+}
+
+/**
+ * Stable key for a conflict path, for keying choices and React lists
+ */
+export function conflictKey(path: MergePath): string {
+  return JSON.stringify(path);
+}
+
+function setAtPath(target: unknown, path: MergePath, value: unknown): unknown {
+  if (path.length === 0) return value;
+  const [segment, ...rest] = path;
+
+  if (Array.isArray(target)) {
+    const position = target.findIndex(item => isPlainObject(item) && item.id === segment);
+    const next = [...target];
+    if (position === -1) {
+      const current = rest.length ? { id: segment } : undefined;
+      const updated = setAtPath(current, rest, value);
+      if (updated !== undefined) next.push(updated);
+    } else {
+      const updated = setAtPath(target[position], rest, value);
+      if (updated === undefined) next.splice(position, 1);
+      else next[position] = updated;
+    }
+    return next;
+  }
+
+  const source = isPlainObject(target) ? target : {};
+  const { [segment]: current, ...others } = source as Record<string, unknown>;
+  const updated = setAtPath(current, rest, value);
+  return updated === undefined ? others : { ...others, [segment]: updated };
+}
+
+/**
+ * Apply per-field choices to a merged state. Fields without a choice keep
+ * the merged (local) value.
+ */
+export function applyConflictChoices<T>(
+  merged: T,
+  conflicts: MergeConflict[],
+  choices: Record<string, ConflictChoice>
+): T {
+  return conflicts.reduce<unknown>((state, conflict) => {
+    const choice = choices[conflictKey(conflict.path)];
+    return choice ? setAtPath(state, conflict.path, conflict[choice]) : state;
+  }, merged) as T;
+}
@@ -0,0 +1,155 @@
+/**
+ * Guided writing exercise
+ *
+ * The learner describes an image in their own words; their text is then
+ * compared with the AI description of the same image (which of its key
+ * words they found, which they left out) and checked for the saved
+ * vocabulary it puts to use. Words match loosely: case, accents, plurals
+ * and a one-letter slip (gender, agreement) are ignored.
+ */
+
+import { editDistance } from './answerErrors';
+import { normalizeAnswer, STOP_WORDS } from './questionKinds';
+
+export interface WritingVocabularyEntry {
+  id: string;
+  text: string;
+  translation?: string;
+}
+
+export interface VocabularyUse {
+  id: string;
+  text: string;
+  translation?: string;
+  /** The words as the learner wrote them */
+  usedAs: string;
+}
+
+export interface ReferenceComparison {
+  /** Key words of the reference the learner also used */
+  sharedWords: string[];
+  /** Key words of the reference the learner did not use */
+  missedWords: string[];
+  /** sharedWords as a share of all key words, 0-100 */
+  coverage: number;
+  wordCount: number;
+  referenceWordCount: number;
+}
+
+export interface WritingCorrection {
+  original: string;
+  correction: string;
+  explanation: string;
+}
+
+export interface WritingReview {
+  /** The learner's text with its mistakes fixed; unchanged when it had none */
+  correctedText: string;
+  corrections: WritingCorrection[];
+  feedback: string;
+  /** False when no corrections could be made (AI unavailable) */
+  reviewed: boolean;
+  comparison: ReferenceComparison;
+  vocabularyUsed: VocabularyUse[];
+}
+
+/** Left off saved entries such as "la mesa" so the noun alone counts */
+const LEADING_ARTICLES = new Set([
+  'el',
+  'la',
+  'los',
+  'las',
+  'un',
+  'una',
+  'unos',
+  'unas',
+  'the',
+  'a',
+  'an',
+  'to',
+]);
+
+/** Key words shorter than this are mostly function words */
+const MIN_KEY_WORD_LENGTH = 4;
+
+function words(text: string): string[] {
+  return (text.match(/\p{L}[\p{L}'-]*/gu) ?? []).filter(word => normalizeAnswer(word));
+}
+
+function sameWord(written: string, expected: string): boolean {
+  if (written === expected) return true;
+  if (written === `${expected}es` || `${written}es` === expected) return true;
+  return expected.length >= MIN_KEY_WORD_LENGTH && editDistance(written, expected) <= 1;
+}
+
+function entryWords(text: string): string[] {
+  const keys = words(text).map(normalizeAnswer);
+  return keys.length > 1 && LEADING_ARTICLES.has(keys[0]) ? keys.slice(1) : keys;
+}
+
+/** The saved vocabulary the text uses, in the order it first appears */
+export function findVocabularyUsed(
+  text: string,
+  vocabulary: WritingVocabularyEntry[]
+): VocabularyUse[] {
+  const written = words(text);
+  const keys = written.map(normalizeAnswer);
+  const found: Array<VocabularyUse & { position: number }> = [];
+  const seen = new Set<string>();
+
+  for (const entry of vocabulary) {
+    const expected = entryWords(entry.text);
+    const key = expected.join(' ');
+    if (expected.length === 0 || seen.has(key)) continue;
+
+    for (let start = 0; start + expected.length <= keys.length; start++) {
+      if (expected.every((word, offset) => sameWord(keys[start + offset], word))) {
+        seen.add(key);
+        found.push({
+          id: entry.id,
+          text: entry.text,
+          translation: entry.translation,
+          usedAs: written.slice(start, start + expected.length).join(' '),
+          position: start,
+        });
+        break;
+      }
+    }
+  }
+
+  return found
+    .sort((a, b) => a.position - b.position)
+    .map(({ position: _position, ...use }) => use);
+}
+
+/** Compares the learner's text with the reference description's key words */
+export function compareWithReference(
+  text: string,
+  reference: string,
+  language: 'es' | 'en' = 'es'
+): ReferenceComparison {
+  const written = words(text).map(normalizeAnswer);
+  const referenceWords = words(reference);
+  const stopWords = STOP_WORDS[language];
+
+  const keyWords = new Map<string, string>();
+  for (const word of referenceWords) {
+    const key = normalizeAnswer(word);
+    if (key.length < MIN_KEY_WORD_LENGTH || stopWords.has(key) || keyWords.has(key)) continue;
+    keyWords.set(key, word.toLowerCase());
+  }
+
+  const sharedWords: string[] = [];
+  const missedWords: string[] = [];
+  for (const [key, word] of keyWords) {
+    (written.some(candidate => sameWord(candidate, key)) ? sharedWords : missedWords).push(word);
+  }
+
+  return {
+    sharedWords,
+    missedWords,
+    coverage: keyWords.size > 0 ? Math.round((sharedWords.length / keyWords.size) * 100) : 0,
+    wordCount: written.length,
+    referenceWordCount: referenceWords.length,
+  };
+}
@@ -44,7 +44,8 @@ describe('Vector Config', () => {
     it('should have correct embedding defaults', () => {
       const config = getVectorConfig();
 
-      expect(config.embedding.dimensions).toBe(1536);
+      expect(config.embedding.dimensions).toBe(384);
+      expect(config.embedding.provider).toBe('hash');
       expect(config.embedding.batchSize).toBeGreaterThan(0);
     });
 
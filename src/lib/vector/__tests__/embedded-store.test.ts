@@ -0,0 +1,274 @@
+/**
+ * Embedded Vector Store Tests
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { EmbeddedGraph, EmbeddedVectorStore, matchesFilter } from '../embedded';
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), error: vi.fn(), warn: vi.fn(), debug: vi.fn() },
+}));
+
+const createStore = async (options = {}) => {
+  const store = new EmbeddedVectorStore(options);
+  await store.collections.create({ name: 'words', vectors: { size: 3, distance: 'cosine' } });
+  await store.points.upsert('words', [
+    { id: 'perro', vector: [1, 0, 0], payload: { word: 'perro', language: 'es' } },
+    { id: 'dog', vector: [0.9, 0.1, 0], payload: { word: 'dog', language: 'en' } },
+    { id: 'gato', vector: [0, 1, 0], payload: { word: 'gato', language: 'es', tags: ['pet'] } },
+  ]);
+  return store;
+};
+
+describe('EmbeddedVectorStore', () => {
+  const directories: string[] = [];
+
+  afterEach(async () => {
+    await Promise.all(directories.map(dir => rm(dir, { recursive: true, force: true })));
+    directories.length = 0;
+  });
+
+  it('should rank points by cosine similarity above the threshold', async () => {
+    const store = await createStore();
+
+    const results = await store.points.search('words', {
+      vector: [1, 0, 0],
+      limit: 10,
+      scoreThreshold: 0.5,
+    });
+
+    expect(results.map(r => r.id)).toEqual(['perro', 'dog']);
+    expect(results[0].score).toBeCloseTo(1);
+    expect(results[0].vector).toBeUndefined();
+  });
+
+  it('should apply payload filters', async () => {
+    const store = await createStore();
+
+    const results = await store.points.search('words', {
+      vector: [1, 0, 0],
+      limit: 10,
+      filter: { must: [{ key: 'language', match: { value: 'es' } }] },
+    });
+    expect(results.map(r => r.id)).toEqual(['perro', 'gato']);
+
+    expect(
+      matchesFilter({ tags: ['pet'] }, { must: [{ key: 'tags', match: { any: ['pet'] } }] })
+    ).toBe(true);
+    expect(
+      matchesFilter({ language: 'es' }, { must_not: [{ key: 'language', match: { value: 'es' } }] })
+    ).toBe(false);
+  });
+
+  it('should reject vectors of the wrong size and unknown collections', async () => {
+    const store = await createStore();
+
+    await expect(store.points.search('words', { vector: [1, 0], limit: 5 })).rejects.toThrow(
+      '3-dimensional'
+    );
+    await expect(store.points.upsert('missing', [{ id: 'x', vector: [1, 0, 0] }])).rejects.toThrow(
+      'does not exist'
+    );
+    expect(await store.points.search('missing', { vector: [1, 0, 0], limit: 5 })).toEqual([]);
+  });
+
+  it('should persist collections and the graph to its snapshot', async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), 'vector-store-'));
+    directories.push(dir);
+    const file = path.join(dir, 'store.json');
+
+    const store = await createStore({ path: file });
+    await store.graph.createEdge({ type: 'translation', source: 'es:perro', target: 'en:dog' });
+    await store.flush();
+
+    const reopened = new EmbeddedVectorStore({ path: file });
+    expect(await reopened.collections.list()).toEqual(['words']);
+    expect(await reopened.points.get('words', ['gato'])).toMatchObject([
+      { id: 'gato', vector: [0, 1, 0], payload: { tags: ['pet'] } },
+    ]);
+    const graph = await reopened.graph.query('MATCH (a)-[r]-(b) WHERE a.id = $id RETURN b', {
+      id: 'es:perro',
+    });
+    expect(graph.nodes.map(n => n.id)).toEqual(['en:dog']);
+  });
+
+  it('should refuse to start from an unreadable snapshot', async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), 'vector-store-'));
+    directories.push(dir);
+    const file = path.join(dir, 'store.json');
+    await writeFile(file, '{not json');
+
+    const store = new EmbeddedVectorStore({ path: file });
+    await expect(store.collections.list()).rejects.toThrow('not valid JSON');
+    expect(await readFile(file, 'utf8')).toBe('{not json');
+  });
+});
+
+describe('EmbeddedGraph', () => {
+  const buildGraph = () => {
+    const graph = new EmbeddedGraph();
+    graph.createNode(['vocabulary'], { id: 'es:perro', word: 'perro' });
+    graph.createNode(['vocabulary'], { id: 'en:dog', word: 'dog' });
+    graph.createNode(['vocabulary'], { id: 'es:can', word: 'can' });
+    graph.createNode(['vocabulary'], { id: 'en:hound', word: 'hound' });
+    graph.createEdge('translation', 'es:perro', 'en:dog', { weight: 1 });
+    graph.createEdge('synonym', 'es:perro', 'es:can', { weight: 0.6 });
+    graph.createEdge('synonym', 'en:dog', 'en:hound', { weight: 0.9 });
+    return graph;
+  };
+
+  it('should merge properties when a node id is created again', () => {
+    const graph = buildGraph();
+    graph.createNode(['phrase'], { id: 'es:perro', gender: 'm' });
+
+    const { result } = graph.query('MATCH (n) WHERE n.id = $id RETURN n', { id: 'es:perro' });
+    expect(result.nodes).toHaveLength(1);
+    expect(result.nodes[0]).toMatchObject({
+      labels: ['vocabulary', 'phrase'],
+      properties: { word: 'perro', gender: 'm' },
+    });
+  });
+
+  it('should answer neighbour queries up to a depth and by relationship type', () => {
+    const graph = buildGraph();
+
+    const { result } = graph.query(
+      `MATCH (start)-[r:translation|synonym*1..2]-(neighbor)
+       WHERE start.id = $nodeId
+       RETURN DISTINCT neighbor, r`,
+      { nodeId: 'es:perro' }
+    );
+    expect(result.nodes.map(n => n.id).sort()).toEqual(['en:dog', 'en:hound', 'es:can']);
+
+    const translations = graph.query(
+      'MATCH (start)-[r:translation*1..2]-(neighbor) WHERE start.id = $nodeId RETURN neighbor',
+      { nodeId: 'es:perro' }
+    );
+    expect(translations.result.nodes.map(n => n.id)).toEqual(['en:dog']);
+  });
+
+  it('should find the shortest path between two nodes', () => {
+    const graph = buildGraph();
+
+    const { result } = graph.query(
+      `MATCH path = shortestPath((a)-[*1..5]-(b))
+       WHERE a.id = $sourceId AND b.id = $targetId
+       RETURN path`,
+      { sourceId: 'es:can', targetId: 'en:hound' }
+    );
+
+    expect(result.nodes.map(n => n.id)).toEqual(['es:can', 'es:perro', 'en:dog', 'en:hound']);
+    expect(result.edges).toHaveLength(3);
+  });
+
+  it('should filter, order and limit related vocabulary', () => {
+    const graph = buildGraph();
+
+    const { result } = graph.query(
+      `MATCH (v:vocabulary)-[r]-(related:vocabulary)
+       WHERE v.id = $vocabularyId AND r.weight >= $minWeight
+       RETURN related, type(r) as relationship, r.weight as weight
+       ORDER BY weight DESC
+       LIMIT $maxResults`,
+      { vocabularyId: 'en:dog', minWeight: 0.5, maxResults: 1 }
+    );
+
+    expect(result.nodes.map(n => n.id)).toEqual(['es:perro']);
+    expect(result.edges[0]).toMatchObject({ type: 'translation', properties: { weight: 1 } });
+  });
+
+  it('should update matched relationships with SET', () => {
+    const graph = buildGraph();
+    graph.createEdge('confused_with', 'es:perro', 'es:can', {
+      weight: 0.5,
+      userId: 'u1',
+      count: 1,
+    });
+
+    const update = graph.query(
+      `MATCH (w1:vocabulary)-[r:confused_with]-(w2:vocabulary)
+       WHERE w1.id = $word1Id AND w2.id = $word2Id AND r.userId = $userId
+       SET r.weight = r.weight + 0.1, r.count = r.count + 1
+       RETURN r`,
+      { word1Id: 'es:can', word2Id: 'es:perro', userId: 'u1' }
+    );
+
+    expect(update.changed).toBe(true);
+    expect(update.result.edges[0].properties).toMatchObject({ weight: 0.6, count: 2 });
+  });
+
+  it('should reject queries outside the supported subset', () => {
+    const graph = buildGraph();
+    expect(() => graph.query('MATCH (a)-->(b)-->(c) RETURN c')).toThrow('not supported');
+  });
+});
+
+describe('VectorSearchService on the embedded store', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.resetModules();
+  });
+
+  it('should connect on first use and find translations', async () => {
+    vi.stubEnv('RUVECTOR_ENABLED', 'true');
+    vi.stubEnv('RUVECTOR_ENDPOINT', '');
+    vi.resetModules();
+    const { vectorClient } = await import('../client');
+    const { vectorSearchService } = await import('../services/search');
+    const { embeddingService } = await import('../services/embedding');
+    const { getVectorConfig } = await import('../config');
+
+    const collection = getVectorConfig().collections.vocabulary;
+    const words = [
+      { id: 'es:perro', word: 'perro', language: 'es' },
+      { id: 'en:perro', word: 'perro', language: 'en' },
+      { id: 'es:gato', word: 'gato', language: 'es' },
+    ];
+    for (const item of words) {
+      const { vector } = await embeddingService.generateEmbedding(item.word);
+      await vectorSearchService.upsert(item.id, vector, item, collection);
+    }
+
+    expect(vectorClient.isReady()).toBe(true);
+    const translations = await vectorSearchService.findTranslations('perro', 'en', ['es']);
+    expect(translations.get('es')?.map(r => r.id)).toEqual(['es:perro']);
+    vectorClient.disconnect();
+  });
+
+  it('should track confusion pairs and ease them after contrast drills', async () => {
+    vi.stubEnv('RUVECTOR_ENABLED', 'true');
+    vi.stubEnv('RUVECTOR_ENDPOINT', '');
+    vi.resetModules();
+    const { vectorClient } = await import('../client');
+    const { graphService } = await import('../services/graph');
+    const { learningService } = await import('../services/learning');
+
+    await graphService.recordConfusion('u1', 'w-ser', 'w-estar');
+    await graphService.recordConfusion('u1', 'w-estar', 'w-ser');
+    await graphService.recordConfusion('u2', 'w-por', 'w-para');
+
+    const pairs = await learningService.getConfusionPairs('u1');
+    expect(pairs).toHaveLength(1);
+    expect(pairs[0]).toMatchObject({ word1Id: 'w-ser', word2Id: 'w-estar' });
+    expect(pairs[0].confusionRate).toBeCloseTo(0.6);
+
+    const eased = await graphService.recordContrastOutcome('u1', 'w-estar', 'w-ser', {
+      correct: 4,
+      total: 4,
+    });
+    expect(eased).toBeCloseTo(0.4);
+    expect(
+      await graphService.recordContrastOutcome('u1', 'w-saber', 'w-conocer', {
+        correct: 4,
+        total: 4,
+      })
+    ).toBe(0);
+
+    await graphService.recordContrastOutcome('u1', 'w-ser', 'w-estar', { correct: 8, total: 8 });
+    expect(await learningService.getConfusionPairs('u1')).toEqual([]);
+    vectorClient.disconnect();
+  });
+});
@@ -4,17 +4,8 @@
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { EmbeddingService } from '../services/embedding';
-
-// Mock the Anthropic client
-vi.mock('@anthropic-ai/sdk', () => ({
-  default: vi.fn().mockImplementation(() => ({
-    messages: {
-      create: vi.fn().mockResolvedValue({
-        content: [{ type: 'text', text: 'mock response' }],
-      }),
-    },
-  })),
-}));
+import { HashingEmbeddingProvider } from '../providers';
+import type { EmbeddingProvider } from '../types';
 
 // Mock logger
 vi.mock('@/lib/logger', () => ({
@@ -131,4 +122,85 @@ describe('EmbeddingService', () => {
       expect(similarity).toBe(0);
     });
   });
+
+  describe('providers', () => {
+    it('should embed with the configured provider', async () => {
+      const provider = new HashingEmbeddingProvider(64);
+      service.useProvider(provider);
+
+      const result = await service.generateEmbedding('el perro');
+
+      expect(result.model).toBe(provider.model);
+      expect(result.vector).toHaveLength(64);
+      expect(service.getFingerprint()).toBe('hash:fallback-hash:64');
+    });
+
+    it('should fall back to hashing when the provider fails', async () => {
+      const failing: EmbeddingProvider = {
+        name: 'local',
+        model: 'broken-model',
+        dimensions: 32,
+        embed: vi.fn().mockRejectedValue(new Error('model unavailable')),
+      };
+      service.useProvider(failing);
+
+      const first = await service.generateEmbedding('la casa');
+      const second = await service.generateEmbedding('la casa');
+
+      expect(first.model).toBe('fallback-hash');
+      expect(first.vector).toHaveLength(32);
+      // Fallback vectors are not cached so the provider is retried
+      expect(second.cached).toBe(false);
+      expect(failing.embed).toHaveBeenCalledTimes(2);
+    });
+
+    it('should throw instead of falling back when the fallback is disabled', async () => {
+      service.useProvider({
+        name: 'local',
+        model: 'broken-model',
+        dimensions: 32,
+        embed: vi.fn().mockRejectedValue(new Error('model unavailable')),
+      });
+
+      await expect(service.batchEmbeddings(['la casa'], { fallback: false })).rejects.toThrow(
+        'local provider failed'
+      );
+    });
+
+    it('should not reuse cached vectors from another provider', async () => {
+      service.useProvider(new HashingEmbeddingProvider(16));
+      await service.generateEmbedding('el gato');
+
+      service.useProvider(new HashingEmbeddingProvider(48));
+      const result = await service.generateEmbedding('el gato');
+
+      expect(result.cached).toBe(false);
+      expect(result.vector).toHaveLength(48);
+    });
+  });
+});
+
+describe('HashingEmbeddingProvider', () => {
+  const provider = new HashingEmbeddingProvider(256);
+  const service = EmbeddingService.getInstance();
+
+  it('should be deterministic and normalized', async () => {
+    const [a, b] = await provider.embed(['buenos días', 'buenos días']);
+    const magnitude = Math.sqrt(a.reduce((sum, v) => sum + v * v, 0));
+
+    expect(a).toEqual(b);
+    expect(magnitude).toBeCloseTo(1, 5);
+  });
+
+  it('should place related texts closer than unrelated ones', async () => {
+    const [base, related, unrelated] = await provider.embed([
+      'el perro come',
+      'los perros comen',
+      'una nube azul',
+    ]);
+
+    expect(service.getSimilarity(base, related)).toBeGreaterThan(
+      service.getSimilarity(base, unrelated)
+    );
+  });
 });
@@ -0,0 +1,73 @@
+/**
+ * ReembeddingService Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { EmbeddingService } from '../services/embedding';
+import { ReembeddingService } from '../services/reembedding';
+import { HashingEmbeddingProvider } from '../providers';
+
+const vectorClient = vi.hoisted(() => ({
+  ensureReady: vi.fn(),
+  deleteCollection: vi.fn(),
+  createCollection: vi.fn(),
+  upsert: vi.fn(),
+}));
+
+vi.mock('../client', () => ({ vectorClient }));
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const sources = [
+  { id: 'v1', text: 'el perro', metadata: { listId: 'l1' } },
+  { id: 'v2', text: 'la casa' },
+];
+
+describe('ReembeddingService', () => {
+  let service: ReembeddingService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vectorClient.ensureReady.mockResolvedValue(true);
+    EmbeddingService.getInstance().useProvider(new HashingEmbeddingProvider(16));
+    ReembeddingService.resetInstance();
+    service = ReembeddingService.getInstance();
+  });
+
+  it('should rebuild the collection with the provider fingerprint on each point', async () => {
+    const result = await service.reembedCollection('vocabulary', sources);
+
+    expect(result).toEqual({
+      collection: 'vocabulary',
+      fingerprint: 'hash:fallback-hash:16',
+      embedded: 2,
+    });
+    expect(vectorClient.createCollection).toHaveBeenCalledWith('vocabulary', 16);
+    const [, points] = vectorClient.upsert.mock.calls[0];
+    expect(points).toHaveLength(2);
+    expect(points[0].metadata).toEqual({ listId: 'l1', embedding: 'hash:fallback-hash:16' });
+  });
+
+  it('should leave the collection in place when the provider fails', async () => {
+    EmbeddingService.getInstance().useProvider({
+      name: 'local',
+      model: 'broken-model',
+      dimensions: 32,
+      embed: vi.fn().mockRejectedValue(new Error('model unavailable')),
+    });
+
+    await expect(service.reembedCollection('vocabulary', sources)).rejects.toThrow(
+      'local provider failed'
+    );
+    expect(vectorClient.deleteCollection).not.toHaveBeenCalled();
+    expect(vectorClient.createCollection).not.toHaveBeenCalled();
+    expect(vectorClient.upsert).not.toHaveBeenCalled();
+  });
+});
@@ -1,106 +1,33 @@
 /**
  * RuVector Client Wrapper
- * Provides a type-safe interface to RuVector distributed vector database
+ * Provides a type-safe interface to RuVector distributed vector database, or
+ * to the embedded store when no RuVector server is configured
  */
 
 import { getVectorConfig } from './config';
 import type {
+  RawGraphResult,
   RuVectorConfig,
+  RuVectorInstance,
+  VectorPayloadFilter,
+  VectorPoint,
   VectorSearchOptions,
   VectorSearchResult,
   VectorDistance,
+  VectorStoreHealth,
+  VectorStoreMetrics,
 } from './types';
+import { createEmbeddedStore, EmbeddedVectorStore } from './embedded';
 import { logger } from '@/lib/logger';
 
-// Internal interfaces
-interface Point {
-  id: string;
-  vector: number[];
-  payload?: Record<string, unknown>;
-}
-
-interface SearchResult {
-  id: string;
-  score: number;
-  payload?: Record<string, unknown>;
-  vector?: number[];
-}
-
-interface HealthStatus {
-  status: 'healthy' | 'degraded' | 'unhealthy';
-  latency: number;
-  version: string;
-}
-
-interface MetricsResult {
-  collections: number;
-  points: number;
-  memoryUsage: number;
-  cpuUsage: number;
-}
-
-interface GraphResult {
-  nodes: Array<{ id: string; labels: string[]; properties: Record<string, unknown> }>;
-  edges: Array<{
-    id: string;
-    type: string;
-    source: string;
-    target: string;
-    properties: Record<string, unknown>;
-  }>;
-}
-
-interface RuVectorInstance {
-  collections: {
-    create: (config: {
-      name: string;
-      vectors: { size: number; distance: VectorDistance };
-      onDiskPayload?: boolean;
-    }) => Promise<void>;
-    delete: (name: string) => Promise<void>;
-    exists: (name: string) => Promise<boolean>;
-    list: () => Promise<string[]>;
-  };
-  points: {
-    upsert: (collection: string, points: Point[]) => Promise<void>;
-    search: (
-      collection: string,
-      query: {
-        vector: number[];
-        limit: number;
-        filter?: Record<string, unknown>;
-        scoreThreshold?: number;
-        withPayload?: boolean;
-        withVector?: boolean;
-      }
-    ) => Promise<SearchResult[]>;
-    delete: (collection: string, ids: string[]) => Promise<void>;
-    get: (collection: string, ids: string[]) => Promise<Point[]>;
-  };
-  graph: {
-    query: (cypher: string, params?: Record<string, unknown>) => Promise<GraphResult>;
-    createNode: (node: {
-      labels: string[];
-      properties: Record<string, unknown>;
-    }) => Promise<string>;
-    createEdge: (edge: {
-      type: string;
-      source: string;
-      target: string;
-      properties?: Record<string, unknown>;
-    }) => Promise<string>;
-  };
-  health: {
-    check: () => Promise<HealthStatus>;
-    metrics: () => Promise<MetricsResult>;
-  };
-}
+const RUVECTOR_PACKAGE = 'ruvector';
 
 class RuVectorClient {
   private static instance: RuVectorClient | null = null;
   private client: RuVectorInstance | null = null;
   private config: RuVectorConfig;
   private isConnectedFlag: boolean = false;
+  private connecting: Promise<void> | null = null;
   private reconnectAttempts: number = 0;
   private maxReconnectAttempts: number = 5;
   private healthCheckInterval: NodeJS.Timeout | null = null;
@@ -123,7 +50,23 @@ class RuVectorClient {
     }
   }
 
-  public async connect(): Promise<void> {
+  public connect(): Promise<void> {
+    // Concurrent callers share one attempt instead of creating two backends
+    this.connecting ??= this.establishConnection().finally(() => {
+      this.connecting = null;
+    });
+    return this.connecting;
+  }
+
+  /**
+   * Connect if needed; services call this so the first request opens the store
+   */
+  public async ensureReady(): Promise<boolean> {
+    if (!this.isReady()) await this.connect();
+    return this.isReady();
+  }
+
+  private async establishConnection(): Promise<void> {
     if (this.isConnectedFlag && this.client) return;
     if (!this.config.enabled) {
       logger.info('[RuVector] Vector search disabled');
@@ -131,22 +74,18 @@ class RuVectorClient {
     }
 
     try {
-      const ruvectorModule = await import('ruvector').catch(() => null);
-      if (ruvectorModule?.RuVector) {
-        this.client = new ruvectorModule.RuVector({
-          apiKey: this.config.apiKey,
-          endpoint: this.config.endpoint,
-        }) as unknown as RuVectorInstance;
-      } else {
-        this.client = this.createMockClient();
-      }
+      this.client = await this.createBackend();
 
       const health = await this.client.health.check();
       if (health.status === 'healthy') {
         this.isConnectedFlag = true;
         this.reconnectAttempts = 0;
-        logger.info('[RuVector] Connected', { latency: health.latency });
-        this.startHealthMonitoring();
+        logger.info('[RuVector] Connected', {
+          backend: this.config.backend,
+          latency: health.latency,
+        });
+        // The embedded store lives in this process, so there is nothing to monitor
+        if (!(this.client instanceof EmbeddedVectorStore)) this.startHealthMonitoring();
         await this.ensureCollections();
       }
     } catch (error) {
@@ -159,6 +98,24 @@ class RuVectorClient {
     }
   }
 
+  private async createBackend(): Promise<RuVectorInstance> {
+    if (this.config.backend === 'ruvector') {
+      // Optional package: bundlers must not try to resolve it at build time
+      const ruvectorModule = (await import(
+        /* webpackIgnore: true */ /* @vite-ignore */ RUVECTOR_PACKAGE
+      ).catch(() => null)) as typeof import('ruvector') | null;
+      if (ruvectorModule?.RuVector) {
+        return new ruvectorModule.RuVector({
+          apiKey: this.config.apiKey,
+          endpoint: this.config.endpoint,
+        }) as unknown as RuVectorInstance;
+      }
+      logger.warn('[RuVector] ruvector package not installed, using the embedded store');
+    }
+
+    return createEmbeddedStore({ path: this.config.embedded.path || undefined });
+  }
+
   public disconnect(): void {
     if (this.healthCheckInterval) clearInterval(this.healthCheckInterval);
     this.healthCheckInterval = null;
@@ -238,12 +195,15 @@ class RuVectorClient {
     await this.client.points.delete(collection, ids);
   }
 
-  public async get(collection: string, ids: string[]): Promise<Point[]> {
+  public async get(collection: string, ids: string[]): Promise<VectorPoint[]> {
     if (!this.client) throw new Error('Not connected');
     return await this.client.points.get(collection, ids);
   }
 
-  public async graphQuery(cypher: string, params?: Record<string, unknown>): Promise<GraphResult> {
+  public async graphQuery(
+    cypher: string,
+    params?: Record<string, unknown>
+  ): Promise<RawGraphResult> {
     if (!this.client) throw new Error('Not connected');
     return await this.client.graph.query(cypher, params);
   }
@@ -263,12 +223,12 @@ class RuVectorClient {
     return await this.client.graph.createEdge({ type, source, target, properties });
   }
 
-  public async healthCheck(): Promise<HealthStatus> {
+  public async healthCheck(): Promise<VectorStoreHealth> {
     if (!this.client) return { status: 'unhealthy', latency: -1, version: 'unknown' };
     return await this.client.health.check();
   }
 
-  public async getMetrics(): Promise<MetricsResult | null> {
+  public async getMetrics(): Promise<VectorStoreMetrics | null> {
     return this.client ? await this.client.health.metrics() : null;
   }
 
@@ -285,94 +245,23 @@ class RuVectorClient {
     }, 30000);
   }
 
-  private buildFilter(
-    filters?: VectorSearchOptions['filters']
-  ): Record<string, unknown> | undefined {
+  private buildFilter(filters?: VectorSearchOptions['filters']): VectorPayloadFilter | undefined {
     if (!filters?.length) return undefined;
-    return {
-      must: filters.map(f => {
-        if (f.operator === 'eq') return { key: f.field, match: { value: f.value } };
-        if (f.operator === 'in') return { key: f.field, match: { any: f.value } };
-        if (['gt', 'gte', 'lt', 'lte'].includes(f.operator))
-          return { key: f.field, range: { [f.operator]: f.value } };
-        return { key: f.field, match: { text: f.value } };
-      }),
+    const condition = (f: NonNullable<VectorSearchOptions['filters']>[number]) => {
+      if (f.operator === 'eq' || f.operator === 'ne')
+        return { key: f.field, match: { value: f.value } };
+      if (f.operator === 'in') return { key: f.field, match: { any: f.value as string[] } };
+      if (['gt', 'gte', 'lt', 'lte'].includes(f.operator))
+        return { key: f.field, range: { [f.operator]: f.value as number } };
+      return { key: f.field, match: { text: f.value } };
     };
-  }
-
-  private createMockClient(): RuVectorInstance {
-    const storage = new Map<string, Map<string, Point>>();
-    const self = this;
+    const mustNot = filters.filter(f => f.operator === 'ne').map(condition);
     return {
-      collections: {
-        create: async c => {
-          storage.set(c.name, new Map());
-        },
-        delete: async n => {
-          storage.delete(n);
-        },
-        exists: async n => storage.has(n),
-        list: async () => [...storage.keys()],
-      },
-      points: {
-        upsert: async (c, pts) => {
-          const coll = storage.get(c) || new Map();
-          storage.set(c, coll);
-          pts.forEach(p => coll.set(p.id, p));
-        },
-        search: async (c, q) => {
-          const coll = storage.get(c);
-          if (!coll) return [];
-          return [...coll.entries()]
-            .map(([id, p]) => ({
-              id,
-              score: self.cosineSimilarity(q.vector, p.vector),
-              payload: p.payload,
-              vector: q.withVector ? p.vector : undefined,
-            }))
-            .filter(r => r.score >= (q.scoreThreshold || 0))
-            .sort((a, b) => b.score - a.score)
-            .slice(0, q.limit);
-        },
-        delete: async (c, ids) => {
-          const coll = storage.get(c);
-          ids.forEach(id => coll?.delete(id));
-        },
-        get: async (c, ids) =>
-          ids.map(id => storage.get(c)?.get(id)).filter((p): p is Point => !!p),
-      },
-      graph: {
-        query: async () => ({ nodes: [], edges: [] }),
-        createNode: async () => 'node_' + Date.now(),
-        createEdge: async () => 'edge_' + Date.now(),
-      },
-      health: {
-        check: async () => ({ status: 'healthy' as const, latency: 1, version: 'mock-1.0' }),
-        metrics: async () => ({
-          collections: storage.size,
-          points: 0,
-          memoryUsage: 0,
-          cpuUsage: 0,
-        }),
-      },
+      must: filters.filter(f => f.operator !== 'ne').map(condition),
+      ...(mustNot.length ? { must_not: mustNot } : {}),
     };
   }
-
-  private cosineSimilarity(a: number[], b: number[]): number {
-    if (a.length !== b.length) return 0;
-    let dot = 0,
-      nA = 0,
-      nB = 0;
-    for (let i = 0; i < a.length; i++) {
-      dot += a[i] * b[i];
-      nA += a[i] * a[i];
-      nB += b[i] * b[i];
-    }
-    const mag = Math.sqrt(nA) * Math.sqrt(nB);
-    return mag === 0 ? 0 : dot / mag;
-  }
 }
-
 export const vectorClient = RuVectorClient.getInstance();
 export { RuVectorClient };
 export async function initializeVectorClient(): Promise<void> {
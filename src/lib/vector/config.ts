@@ -3,13 +3,21 @@
  * Loads from environment variables with validation
  */
 import { ruVectorConfigSchema, type RuVectorConfigInput } from './schemas';
-import type { RuVectorConfig } from './types';
+import type { EmbeddingProviderName, RuVectorConfig, VectorBackend } from './types';
 
 function loadConfig(): RuVectorConfig {
   const rawConfig: RuVectorConfigInput = {
     enabled: process.env.RUVECTOR_ENABLED === 'true',
+    // Without a RuVector server the vectors and graph live in this process
+    backend: (process.env.RUVECTOR_BACKEND ||
+      (process.env.RUVECTOR_ENDPOINT ? 'ruvector' : 'embedded')) as VectorBackend,
     apiKey: process.env.RUVECTOR_API_KEY,
     endpoint: process.env.RUVECTOR_ENDPOINT || undefined,
+    embedded: {
+      path:
+        process.env.RUVECTOR_EMBEDDED_PATH ??
+        (process.env.NODE_ENV === 'test' ? '' : '.data/vector-store.json'),
+    },
     collections: {
       vocabulary: process.env.RUVECTOR_COLLECTION_VOCABULARY || 'vocabulary_vectors',
       images: process.env.RUVECTOR_COLLECTION_IMAGES || 'image_vectors',
@@ -17,8 +25,11 @@ function loadConfig(): RuVectorConfig {
       learningPatterns: process.env.RUVECTOR_COLLECTION_LEARNING || 'learning_pattern_vectors',
     },
     embedding: {
-      model: process.env.RUVECTOR_EMBEDDING_MODEL || 'claude-3-5-sonnet-20241022',
-      dimensions: parseInt(process.env.RUVECTOR_EMBEDDING_DIMENSIONS || '1536', 10),
+      // Tests use the deterministic hashing provider instead of downloading a model
+      provider: (process.env.RUVECTOR_EMBEDDING_PROVIDER ||
+        (process.env.NODE_ENV === 'test' ? 'hash' : 'local')) as EmbeddingProviderName,
+      model: process.env.RUVECTOR_EMBEDDING_MODEL || 'Xenova/paraphrase-multilingual-MiniLM-L12-v2',
+      dimensions: parseInt(process.env.RUVECTOR_EMBEDDING_DIMENSIONS || '384', 10),
       batchSize: parseInt(process.env.RUVECTOR_BATCH_SIZE || '10', 10),
     },
     search: {
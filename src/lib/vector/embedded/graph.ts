@@ -0,0 +1,496 @@
+/**
+ * EmbeddedGraph
+ * In-process knowledge graph with a small Cypher subset: one node, or two
+ * nodes joined by one (optionally variable-length) relationship, with
+ * WHERE/SET/RETURN/ORDER BY/LIMIT. That covers the queries GraphService
+ * issues; anything else is rejected rather than half-answered.
+ */
+
+import { randomUUID } from 'crypto';
+import type { RawGraphResult } from '../types';
+import { GraphError } from '../types';
+
+export interface StoredNode {
+  id: string;
+  labels: string[];
+  properties: Record<string, unknown>;
+}
+
+export interface StoredEdge {
+  id: string;
+  type: string;
+  source: string;
+  target: string;
+  properties: Record<string, unknown>;
+}
+
+export interface GraphSnapshot {
+  nodes: StoredNode[];
+  edges: StoredEdge[];
+}
+
+interface NodePattern {
+  variable: string;
+  label?: string;
+}
+
+interface RelationshipPattern {
+  variable: string;
+  types: string[];
+  minHops: number;
+  maxHops: number;
+  variableLength: boolean;
+}
+
+interface Condition {
+  variable: string;
+  property: string;
+  operator: '=' | '<>' | '>' | '>=' | '<' | '<=';
+  value: unknown;
+}
+
+interface Assignment {
+  variable: string;
+  property: string;
+  evaluate: (current: Record<string, unknown>) => unknown;
+}
+
+interface Row {
+  bindings: Map<string, StoredNode | StoredEdge[]>;
+  path: { nodes: StoredNode[]; edges: StoredEdge[] };
+}
+
+const QUERY_PATTERN =
+  /^MATCH (.+?)(?: WHERE (.+?))?(?: SET (.+?))? RETURN (.+?)(?: ORDER BY (\S+)(?: (ASC|DESC))?)?(?: LIMIT (\S+))?$/i;
+const NODE_PATTERN = '\\((\\w*)(?::(\\w+))?\\)';
+const RELATIONSHIP_PATTERN = '-\\[(\\w*)(?::([\\w|]+))?(\\*(\\d*)\\.\\.(\\d+))?\\]-';
+const MATCH_PATTERN = new RegExp(`^${NODE_PATTERN}(?:${RELATIONSHIP_PATTERN}${NODE_PATTERN})?$`);
+const CONDITION_PATTERN = /^(\w+)\.(\w+) (=|<>|>=|<=|>|<) (.+)$/;
+const ASSIGNMENT_PATTERN = /^(\w+)\.(\w+) = (.+)$/;
+const INCREMENT_PATTERN = /^(\w+)\.(\w+) ([+-]) (.+)$/;
+
+export class EmbeddedGraph {
+  private nodes = new Map<string, StoredNode>();
+  private edges = new Map<string, StoredEdge>();
+  // Node id -> ids of edges touching it, either direction
+  private adjacency = new Map<string, Set<string>>();
+
+  constructor(snapshot?: GraphSnapshot) {
+    snapshot?.nodes.forEach(node => this.nodes.set(node.id, node));
+    snapshot?.edges.forEach(edge => this.indexEdge(edge));
+  }
+
+  public get nodeCount(): number {
+    return this.nodes.size;
+  }
+
+  public get edgeCount(): number {
+    return this.edges.size;
+  }
+
+  public toSnapshot(): GraphSnapshot {
+    return { nodes: [...this.nodes.values()], edges: [...this.edges.values()] };
+  }
+
+  /**
+   * Create a node, or merge labels and properties into the node that already
+   * has this `properties.id`
+   */
+  public createNode(labels: string[], properties: Record<string, unknown>): string {
+    const now = new Date().toISOString();
+    const id = typeof properties.id === 'string' ? properties.id : `node_${randomUUID()}`;
+    const existing = this.nodes.get(id);
+
+    if (existing) {
+      existing.labels = [...new Set([...existing.labels, ...labels])];
+      existing.properties = { ...existing.properties, ...properties, id, updatedAt: now };
+    } else {
+      this.nodes.set(id, {
+        id,
+        labels: [...labels],
+        properties: { ...properties, id, createdAt: now, updatedAt: now },
+      });
+    }
+    return id;
+  }
+
+  /**
+   * Create an edge; endpoints that are not nodes yet become unlabelled nodes
+   */
+  public createEdge(
+    type: string,
+    source: string,
+    target: string,
+    properties: Record<string, unknown> = {}
+  ): string {
+    for (const id of [source, target]) {
+      if (!this.nodes.has(id)) this.createNode([], { id });
+    }
+
+    const edge: StoredEdge = {
+      id: `edge_${randomUUID()}`,
+      type,
+      source,
+      target,
+      properties: { ...properties, createdAt: new Date().toISOString() },
+    };
+    this.indexEdge(edge);
+    return edge.id;
+  }
+
+  /**
+   * Run a query; `changed` tells the store whether a SET clause wrote anything
+   */
+  public query(
+    cypher: string,
+    params: Record<string, unknown> = {}
+  ): { result: RawGraphResult; changed: boolean } {
+    const text = cypher.replace(/\s+/g, ' ').trim();
+    const clauses = QUERY_PATTERN.exec(text);
+    if (!clauses) throw this.unsupported(cypher);
+
+    const [, matchClause, whereClause, setClause, returnClause, orderBy, direction, limit] =
+      clauses;
+    const { start, relationship, end, pathVariable, shortest } = this.parseMatch(matchClause);
+    const conditions = whereClause
+      ? whereClause.split(/ AND /i).map(c => this.parseCondition(c, params))
+      : [];
+    const assignments = setClause
+      ? setClause.split(/, ?/).map(a => this.parseAssignment(a, params))
+      : [];
+
+    const variables = [start.variable, relationship?.variable, end?.variable].filter(Boolean);
+    for (const { variable } of [...conditions, ...assignments]) {
+      if (!variables.includes(variable)) throw this.unsupported(cypher);
+    }
+
+    let rows =
+      relationship && end
+        ? this.matchRelationship(start, relationship, end, conditions, shortest)
+        : this.candidates(start, conditions).map(node => ({
+            bindings: new Map([[start.variable, node]]),
+            path: { nodes: [node], edges: [] },
+          }));
+
+    const returned = this.parseReturn(returnClause);
+    if (orderBy) {
+      const [variable, property] = (returned.aliases.get(orderBy) ?? orderBy).split('.');
+      const sign = direction?.toUpperCase() === 'DESC' ? -1 : 1;
+      rows = [...rows].sort(
+        (a, b) =>
+          sign * compare(this.rowValue(a, variable, property), this.rowValue(b, variable, property))
+      );
+    }
+    if (limit) {
+      const count = Number(limit.startsWith('$') ? params[limit.slice(1)] : limit);
+      if (Number.isFinite(count)) rows = rows.slice(0, count);
+    }
+
+    for (const row of rows) {
+      for (const assignment of assignments) {
+        for (const entity of this.bound(row, assignment.variable)) {
+          entity.properties[assignment.property] = assignment.evaluate(entity.properties);
+        }
+      }
+    }
+
+    return {
+      result: this.project(rows, returned.variables, pathVariable, returned.distinct),
+      changed: assignments.length > 0 && rows.length > 0,
+    };
+  }
+
+  private parseMatch(clause: string): {
+    start: NodePattern;
+    relationship?: RelationshipPattern;
+    end?: NodePattern;
+    pathVariable?: string;
+    shortest: boolean;
+  } {
+    let pattern = clause;
+    let pathVariable: string | undefined;
+    const assigned = /^(\w+) = (.+)$/.exec(pattern);
+    if (assigned) [, pathVariable, pattern] = assigned;
+
+    const shortestPath = /^shortestPath\((.+)\)$/i.exec(pattern);
+    if (shortestPath) pattern = shortestPath[1];
+
+    const match = MATCH_PATTERN.exec(pattern.replace(/\s+/g, ''));
+    if (!match) throw this.unsupported(clause);
+
+    const [, startVar, startLabel, relVar, relTypes, hops, minHops, maxHops, endVar, endLabel] =
+      match;
+    const start = { variable: startVar, label: startLabel };
+    if (endVar === undefined) return { start, pathVariable, shortest: false };
+
+    return {
+      start,
+      relationship: {
+        variable: relVar,
+        types: relTypes ? relTypes.split('|') : [],
+        minHops: hops ? Number(minHops || 1) : 1,
+        maxHops: hops ? Number(maxHops) : 1,
+        variableLength: Boolean(hops),
+      },
+      end: { variable: endVar, label: endLabel },
+      pathVariable,
+      shortest: Boolean(shortestPath),
+    };
+  }
+
+  private parseCondition(text: string, params: Record<string, unknown>): Condition {
+    const match = CONDITION_PATTERN.exec(text.trim());
+    if (!match) throw this.unsupported(text);
+
+    const [, variable, property, operator, value] = match;
+    return {
+      variable,
+      property,
+      operator: operator as Condition['operator'],
+      value: this.literal(value, params),
+    };
+  }
+
+  private parseAssignment(text: string, params: Record<string, unknown>): Assignment {
+    const match = ASSIGNMENT_PATTERN.exec(text.trim());
+    if (!match) throw this.unsupported(text);
+
+    const [, variable, property, expression] = match;
+    const increment = INCREMENT_PATTERN.exec(expression);
+    if (increment && increment[1] === variable) {
+      const [, , source, operator, operand] = increment;
+      const amount = Number(this.literal(operand, params));
+      return {
+        variable,
+        property,
+        evaluate: current => (Number(current[source]) || 0) + (operator === '+' ? amount : -amount),
+      };
+    }
+
+    const value = this.literal(expression, params);
+    return { variable, property, evaluate: () => value };
+  }
+
+  private parseReturn(clause: string): {
+    variables: string[];
+    aliases: Map<string, string>;
+    distinct: boolean;
+  } {
+    const distinct = /^DISTINCT /i.test(clause);
+    const items = clause.replace(/^DISTINCT /i, '').split(/, ?/);
+    const variables = new Set<string>();
+    const aliases = new Map<string, string>();
+
+    for (const item of items) {
+      const [expression, alias] = item.split(/ as /i);
+      const property = /^(\w+)\.(\w+)$/.exec(expression);
+      if (property && alias) aliases.set(alias, expression);
+
+      // type(r), r.weight and r all return the relationship itself
+      const variable = /^(?:\w+\()?(\w+)/.exec(expression)?.[1];
+      if (variable) variables.add(variable);
+    }
+
+    return { variables: [...variables], aliases, distinct };
+  }
+
+  private literal(text: string, params: Record<string, unknown>): unknown {
+    const value = text.trim();
+    if (value.startsWith('$')) return params[value.slice(1)];
+    if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+    if (/^(true|false)$/i.test(value)) return value.toLowerCase() === 'true';
+    if (/^null$/i.test(value)) return null;
+    const quoted = /^(['"])(.*)\1$/.exec(value);
+    if (quoted) return quoted[2];
+    throw this.unsupported(text);
+  }
+
+  private candidates(pattern: NodePattern, conditions: Condition[]): StoredNode[] {
+    const own = conditions.filter(c => c.variable === pattern.variable);
+    // Lookups by id skip the scan over every node
+    const byId = own.find(c => c.property === 'id' && c.operator === '=');
+    const nodes = byId
+      ? [this.nodes.get(String(byId.value))].filter((n): n is StoredNode => !!n)
+      : [...this.nodes.values()];
+
+    return nodes.filter(node => this.nodeMatches(node, pattern, own));
+  }
+
+  private nodeMatches(node: StoredNode, pattern: NodePattern, conditions: Condition[]): boolean {
+    if (pattern.label && !node.labels.includes(pattern.label)) return false;
+    return conditions
+      .filter(c => c.variable === pattern.variable)
+      .every(c => test(node.properties[c.property], c));
+  }
+
+  private edgeMatches(edge: StoredEdge, pattern: RelationshipPattern, conditions: Condition[]) {
+    if (pattern.types.length && !pattern.types.includes(edge.type)) return false;
+    return conditions
+      .filter(c => c.variable === pattern.variable)
+      .every(c => test(edge.properties[c.property], c));
+  }
+
+  /**
+   * Walk relationships breadth-first from every start node. Variable-length
+   * patterns follow the shortest route to each node, so every reachable node
+   * appears once per start node.
+   */
+  private matchRelationship(
+    start: NodePattern,
+    relationship: RelationshipPattern,
+    end: NodePattern,
+    conditions: Condition[],
+    shortest: boolean
+  ): Row[] {
+    const rows: Row[] = [];
+
+    for (const origin of this.candidates(start, conditions)) {
+      const routes = new Map<string, { nodes: StoredNode[]; edges: StoredEdge[] }>([
+        [origin.id, { nodes: [origin], edges: [] }],
+      ]);
+      let frontier = [origin.id];
+
+      for (let depth = 1; depth <= relationship.maxHops && frontier.length; depth++) {
+        const next: string[] = [];
+
+        for (const nodeId of frontier) {
+          const route = routes.get(nodeId)!;
+          for (const edgeId of this.adjacency.get(nodeId) ?? []) {
+            const edge = this.edges.get(edgeId)!;
+            if (!this.edgeMatches(edge, relationship, conditions)) continue;
+
+            const otherId = edge.source === nodeId ? edge.target : edge.source;
+            const other = this.nodes.get(otherId);
+            if (!other) continue;
+
+            const path = { nodes: [...route.nodes, other], edges: [...route.edges, edge] };
+            const reachable =
+              depth >= relationship.minHops && this.nodeMatches(other, end, conditions);
+
+            if (!relationship.variableLength) {
+              // A single hop yields one row per relationship, even between the same nodes
+              if (reachable) rows.push(this.row(start, relationship, end, path));
+              continue;
+            }
+            if (routes.has(otherId)) continue;
+
+            routes.set(otherId, path);
+            next.push(otherId);
+            if (reachable && otherId !== origin.id) {
+              rows.push(this.row(start, relationship, end, path));
+            }
+          }
+        }
+        frontier = next;
+      }
+    }
+
+    if (!shortest) return rows;
+    // Keep the shortest route per start/end pair
+    const best = new Map<string, Row>();
+    for (const row of rows) {
+      const key = `${row.path.nodes[0].id}->${row.path.nodes[row.path.nodes.length - 1].id}`;
+      const current = best.get(key);
+      if (!current || row.path.edges.length < current.path.edges.length) best.set(key, row);
+    }
+    return [...best.values()];
+  }
+
+  private row(
+    start: NodePattern,
+    relationship: RelationshipPattern,
+    end: NodePattern,
+    path: Row['path']
+  ): Row {
+    const bindings = new Map<string, StoredNode | StoredEdge[]>([
+      [start.variable, path.nodes[0]],
+      [end.variable, path.nodes[path.nodes.length - 1]],
+    ]);
+    if (relationship.variable) bindings.set(relationship.variable, path.edges);
+    return { bindings, path };
+  }
+
+  private bound(row: Row, variable: string): Array<StoredNode | StoredEdge> {
+    const value = row.bindings.get(variable);
+    if (!value) return [];
+    return Array.isArray(value) ? value : [value];
+  }
+
+  private rowValue(row: Row, variable: string, property?: string): unknown {
+    const [entity] = this.bound(row, variable);
+    return property ? entity?.properties[property] : entity?.id;
+  }
+
+  private project(
+    rows: Row[],
+    variables: string[],
+    pathVariable: string | undefined,
+    distinct: boolean
+  ): RawGraphResult {
+    const nodes: StoredNode[] = [];
+    const edges: StoredEdge[] = [];
+
+    for (const row of rows) {
+      for (const variable of variables) {
+        if (variable === pathVariable) {
+          nodes.push(...row.path.nodes);
+          edges.push(...row.path.edges);
+          continue;
+        }
+        const value = row.bindings.get(variable);
+        if (Array.isArray(value)) edges.push(...value);
+        else if (value) nodes.push(value);
+      }
+    }
+
+    const unique = <T extends { id: string }>(items: T[]) =>
+      distinct ? [...new Map(items.map(item => [item.id, item])).values()] : items;
+
+    return {
+      nodes: unique(nodes).map(n => ({
+        id: n.id,
+        labels: [...n.labels],
+        properties: { ...n.properties },
+      })),
+      edges: unique(edges).map(e => ({ ...e, properties: { ...e.properties } })),
+    };
+  }
+
+  private indexEdge(edge: StoredEdge): void {
+    this.edges.set(edge.id, edge);
+    for (const nodeId of [edge.source, edge.target]) {
+      const ids = this.adjacency.get(nodeId) ?? new Set<string>();
+      ids.add(edge.id);
+      this.adjacency.set(nodeId, ids);
+    }
+  }
+
+  private unsupported(cypher: string): GraphError {
+    return new GraphError('Query is not supported by the embedded graph', { cypher });
+  }
+}
+
+function test(actual: unknown, condition: Condition): boolean {
+  if (condition.operator === '=') return actual === condition.value;
+  if (condition.operator === '<>') return actual !== condition.value;
+  if (actual === undefined || actual === null) return false;
+
+  const order = compare(actual, condition.value);
+  switch (condition.operator) {
+    case '>':
+      return order > 0;
+    case '>=':
+      return order >= 0;
+    case '<':
+      return order < 0;
+    default:
+      return order <= 0;
+  }
+}
+
+function compare(a: unknown, b: unknown): number {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (a === undefined || a === null) return b === undefined || b === null ? 0 : -1;
+  if (b === undefined || b === null) return 1;
+  return String(a).localeCompare(String(b));
+}
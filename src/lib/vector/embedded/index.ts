@@ -0,0 +1,9 @@
+/**
+ * Embedded vector store
+ * Runs collections and the knowledge graph inside the app process
+ */
+
+export { EmbeddedVectorStore, createEmbeddedStore, matchesFilter } from './store';
+export type { EmbeddedStoreOptions } from './store';
+export { EmbeddedGraph } from './graph';
+export type { GraphSnapshot, StoredEdge, StoredNode } from './graph';
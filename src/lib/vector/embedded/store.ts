@@ -0,0 +1,402 @@
+/**
+ * EmbeddedVectorStore
+ * In-process backend for the vector client: collections are searched with an
+ * exact (flat) scan, which stays fast for the tens of thousands of vectors a
+ * single deployment holds, and the knowledge graph is an EmbeddedGraph.
+ * With a snapshot path everything is written to one JSON file after each change.
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import path from 'path';
+import type {
+  RuVectorInstance,
+  VectorDistance,
+  VectorPayloadCondition,
+  VectorPayloadFilter,
+  VectorPoint,
+  VectorPointMatch,
+} from '../types';
+import { VectorError } from '../types';
+import { EmbeddedGraph, type GraphSnapshot } from './graph';
+
+export interface EmbeddedStoreOptions {
+  /** JSON snapshot file; omit to keep the store in memory only */
+  path?: string;
+}
+
+interface StoredPoint {
+  id: string;
+  vector: Float32Array;
+  norm: number;
+  payload?: Record<string, unknown>;
+}
+
+interface Collection {
+  size: number;
+  distance: VectorDistance;
+  points: Map<string, StoredPoint>;
+}
+
+interface StoreSnapshot {
+  version: 1;
+  collections: Array<{
+    name: string;
+    size: number;
+    distance: VectorDistance;
+    points: VectorPoint[];
+  }>;
+  graph: GraphSnapshot;
+}
+
+const SNAPSHOT_VERSION = 1;
+
+export class EmbeddedVectorStore implements RuVectorInstance {
+  public readonly version = 'embedded-1';
+
+  private collectionsByName = new Map<string, Collection>();
+  private graphStore = new EmbeddedGraph();
+  private loading: Promise<void> | null = null;
+  private writes: Promise<void> = Promise.resolve();
+  private dirty = false;
+  private readonly snapshotPath?: string;
+
+  constructor(options: EmbeddedStoreOptions = {}) {
+    this.snapshotPath = options.path ? path.resolve(options.path) : undefined;
+  }
+
+  public readonly collections: RuVectorInstance['collections'] = {
+    create: async ({ name, vectors }) => {
+      await this.load();
+      if (this.collectionsByName.has(name)) {
+        throw new VectorError(`Collection ${name} already exists`, 'COLLECTION_EXISTS', 409);
+      }
+      this.collectionsByName.set(name, {
+        size: vectors.size,
+        distance: vectors.distance,
+        points: new Map(),
+      });
+      await this.save();
+    },
+    delete: async name => {
+      await this.load();
+      if (this.collectionsByName.delete(name)) await this.save();
+    },
+    exists: async name => {
+      await this.load();
+      return this.collectionsByName.has(name);
+    },
+    list: async () => {
+      await this.load();
+      return [...this.collectionsByName.keys()];
+    },
+  };
+
+  public readonly points: RuVectorInstance['points'] = {
+    upsert: async (name, points) => {
+      await this.load();
+      const collection = this.requireCollection(name);
+      // Validate the whole batch before touching the collection
+      const stored = points.map(point => this.toStoredPoint(name, collection, point));
+      stored.forEach(point => collection.points.set(point.id, point));
+      await this.save();
+    },
+    search: async (name, query) => {
+      await this.load();
+      const collection = this.collectionsByName.get(name);
+      if (!collection) return [];
+      this.checkDimensions(name, collection, query.vector);
+
+      const vector = Float32Array.from(query.vector);
+      const queryNorm = magnitude(vector);
+      const threshold = query.scoreThreshold ?? Number.NEGATIVE_INFINITY;
+      const matches: VectorPointMatch[] = [];
+
+      for (const point of collection.points.values()) {
+        if (!matchesFilter(point.payload, query.filter)) continue;
+
+        const score = this.score(collection.distance, vector, queryNorm, point);
+        if (score < threshold) continue;
+
+        matches.push({
+          id: point.id,
+          score,
+          payload: query.withPayload === false ? undefined : point.payload,
+          vector: query.withVector ? Array.from(point.vector) : undefined,
+        });
+      }
+
+      return matches.sort((a, b) => b.score - a.score).slice(0, query.limit);
+    },
+    delete: async (name, ids) => {
+      await this.load();
+      const collection = this.collectionsByName.get(name);
+      if (!collection) return;
+      const removed = ids.filter(id => collection.points.delete(id));
+      if (removed.length) await this.save();
+    },
+    get: async (name, ids) => {
+      await this.load();
+      const collection = this.collectionsByName.get(name);
+      return ids
+        .map(id => collection?.points.get(id))
+        .filter((p): p is StoredPoint => !!p)
+        .map(p => ({ id: p.id, vector: Array.from(p.vector), payload: p.payload }));
+    },
+  };
+
+  public readonly graph: RuVectorInstance['graph'] = {
+    query: async (cypher, params) => {
+      await this.load();
+      const { result, changed } = this.graphStore.query(cypher, params);
+      if (changed) await this.save();
+      return result;
+    },
+    createNode: async ({ labels, properties }) => {
+      await this.load();
+      const id = this.graphStore.createNode(labels, properties);
+      await this.save();
+      return id;
+    },
+    createEdge: async ({ type, source, target, properties }) => {
+      await this.load();
+      const id = this.graphStore.createEdge(type, source, target, properties);
+      await this.save();
+      return id;
+    },
+  };
+
+  public readonly health: RuVectorInstance['health'] = {
+    check: async () => {
+      const started = Date.now();
+      await this.load();
+      return { status: 'healthy', latency: Date.now() - started, version: this.version };
+    },
+    metrics: async () => {
+      await this.load();
+      let points = 0;
+      let memoryUsage = 0;
+      for (const collection of this.collectionsByName.values()) {
+        points += collection.points.size;
+        memoryUsage += collection.points.size * collection.size * Float32Array.BYTES_PER_ELEMENT;
+      }
+      return { collections: this.collectionsByName.size, points, memoryUsage, cpuUsage: 0 };
+    },
+  };
+
+  /**
+   * Resolves once every change so far has been written to the snapshot
+   */
+  public async flush(): Promise<void> {
+    await this.writes;
+  }
+
+  private requireCollection(name: string): Collection {
+    const collection = this.collectionsByName.get(name);
+    if (!collection) {
+      throw new VectorError(`Collection ${name} does not exist`, 'COLLECTION_NOT_FOUND', 404);
+    }
+    return collection;
+  }
+
+  private checkDimensions(name: string, collection: Collection, vector: number[]): void {
+    if (vector.length !== collection.size) {
+      throw new VectorError(
+        `Collection ${name} holds ${collection.size}-dimensional vectors, got ${vector.length}`,
+        'DIMENSION_MISMATCH',
+        400,
+        { collection: name, expected: collection.size, received: vector.length }
+      );
+    }
+  }
+
+  private toStoredPoint(name: string, collection: Collection, point: VectorPoint): StoredPoint {
+    this.checkDimensions(name, collection, point.vector);
+    const vector = Float32Array.from(point.vector);
+    return { id: point.id, vector, norm: magnitude(vector), payload: point.payload };
+  }
+
+  /**
+   * Higher is closer for every distance: cosine similarity, the raw dot
+   * product, or 1 / (1 + euclidean distance)
+   */
+  private score(
+    distance: VectorDistance,
+    query: Float32Array,
+    queryNorm: number,
+    point: StoredPoint
+  ): number {
+    if (distance === 'euclidean') {
+      let sum = 0;
+      for (let i = 0; i < query.length; i++) {
+        const diff = query[i] - point.vector[i];
+        sum += diff * diff;
+      }
+      return 1 / (1 + Math.sqrt(sum));
+    }
+
+    let dot = 0;
+    for (let i = 0; i < query.length; i++) dot += query[i] * point.vector[i];
+    if (distance === 'dot') return dot;
+
+    const norms = queryNorm * point.norm;
+    return norms === 0 ? 0 : dot / norms;
+  }
+
+  private load(): Promise<void> {
+    // A failed read is retried on the next call instead of starting empty
+    this.loading ??= this.readSnapshot().catch(error => {
+      this.loading = null;
+      throw error;
+    });
+    return this.loading;
+  }
+
+  private async readSnapshot(): Promise<void> {
+    if (!this.snapshotPath) return;
+
+    let raw: string;
+    try {
+      raw = await readFile(this.snapshotPath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw error;
+    }
+
+    let snapshot: StoreSnapshot;
+    try {
+      snapshot = JSON.parse(raw) as StoreSnapshot;
+    } catch (error) {
+      throw new VectorError('Vector store snapshot is not valid JSON', 'SNAPSHOT_CORRUPT', 500, {
+        path: this.snapshotPath,
+        error,
+      });
+    }
+    if (snapshot.version !== SNAPSHOT_VERSION) {
+      throw new VectorError('Unsupported vector store snapshot version', 'SNAPSHOT_VERSION', 500, {
+        path: this.snapshotPath,
+        version: snapshot.version,
+      });
+    }
+
+    for (const { name, size, distance, points } of snapshot.collections) {
+      const collection: Collection = { size, distance, points: new Map() };
+      points.forEach(point =>
+        collection.points.set(point.id, this.toStoredPoint(name, collection, point))
+      );
+      this.collectionsByName.set(name, collection);
+    }
+    this.graphStore = new EmbeddedGraph(snapshot.graph);
+  }
+
+  /**
+   * Queue a snapshot write. Writes run one at a time; a queued write that
+   * finds nothing new since the previous one is skipped.
+   */
+  private save(): Promise<void> {
+    if (!this.snapshotPath) return Promise.resolve();
+    this.dirty = true;
+    const write = this.writes.then(() => this.writeSnapshot());
+    // A failed write must not block the ones queued after it
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+
+  private async writeSnapshot(): Promise<void> {
+    if (!this.dirty || !this.snapshotPath) return;
+    this.dirty = false;
+
+    const snapshot: StoreSnapshot = {
+      version: SNAPSHOT_VERSION,
+      collections: [...this.collectionsByName.entries()].map(([name, collection]) => ({
+        name,
+        size: collection.size,
+        distance: collection.distance,
+        points: [...collection.points.values()].map(p => ({
+          id: p.id,
+          vector: Array.from(p.vector),
+          payload: p.payload,
+        })),
+      })),
+      graph: this.graphStore.toSnapshot(),
+    };
+
+    try {
+      // Write then rename so a crash never leaves a half-written snapshot
+      const temporary = `${this.snapshotPath}.tmp`;
+      await mkdir(path.dirname(this.snapshotPath), { recursive: true });
+      await writeFile(temporary, JSON.stringify(snapshot));
+      await rename(temporary, this.snapshotPath);
+    } catch (error) {
+      this.dirty = true;
+      throw new VectorError('Failed to write vector store snapshot', 'SNAPSHOT_WRITE_FAILED', 500, {
+        path: this.snapshotPath,
+        error,
+      });
+    }
+  }
+}
+
+export function createEmbeddedStore(options: EmbeddedStoreOptions = {}): EmbeddedVectorStore {
+  return new EmbeddedVectorStore(options);
+}
+
+function magnitude(vector: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < vector.length; i++) sum += vector[i] * vector[i];
+  return Math.sqrt(sum);
+}
+
+/**
+ * Evaluate a RuVector payload filter; dotted keys reach into nested objects
+ * and array fields match when any element does
+ */
+export function matchesFilter(
+  payload: Record<string, unknown> | undefined,
+  filter: VectorPayloadFilter | undefined
+): boolean {
+  if (!filter) return true;
+  const must = filter.must ?? [];
+  const mustNot = filter.must_not ?? [];
+  return (
+    must.every(c => matchesCondition(payload, c)) &&
+    !mustNot.some(c => matchesCondition(payload, c))
+  );
+}
+
+function matchesCondition(
+  payload: Record<string, unknown> | undefined,
+  condition: VectorPayloadCondition
+): boolean {
+  const field = condition.key
+    .split('.')
+    .reduce<unknown>(
+      (value, key) =>
+        value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined,
+      payload
+    );
+  const values = Array.isArray(field) ? field : [field];
+
+  if (condition.match) {
+    const { value, any, text } = condition.match;
+    if (any !== undefined) return values.some(v => any.includes(v));
+    if (text !== undefined) {
+      const needle = String(text).toLowerCase();
+      return values.some(v => typeof v === 'string' && v.toLowerCase().includes(needle));
+    }
+    return values.some(v => v === value);
+  }
+
+  if (condition.range) {
+    const { gt, gte, lt, lte } = condition.range;
+    return values.some(
+      v =>
+        typeof v === 'number' &&
+        (gt === undefined || v > gt) &&
+        (gte === undefined || v >= gte) &&
+        (lt === undefined || v < lt) &&
+        (lte === undefined || v <= lte)
+    );
+  }
+
+  return true;
+}
@@ -20,6 +20,9 @@ export {
   RuVectorClient,
 } from './client';
 
+// Embedded backend
+export { EmbeddedVectorStore, createEmbeddedStore, EmbeddedGraph } from './embedded';
+
 // Services
 export { embeddingService, EmbeddingService } from './services/embedding';
 export { vectorSearchService, VectorSearchService } from './services/search';
@@ -30,6 +33,15 @@ export {
   SpacedRepetitionBridge,
 } from './services/spaced-repetition-bridge';
 export { semanticCacheService, SemanticCacheService } from './services/cache';
+export { reembeddingService, ReembeddingService } from './services/reembedding';
+
+// Embedding providers
+export {
+  createEmbeddingProvider,
+  embeddingFingerprint,
+  HashingEmbeddingProvider,
+  LocalEmbeddingProvider,
+} from './providers';
 
 // Integration
 export { vectorStoreBridge, VectorStoreBridge } from './integration/vector-store-bridge';
@@ -0,0 +1,60 @@
+/**
+ * HashingEmbeddingProvider
+ * Deterministic feature-hashing embeddings: words and character trigrams are
+ * hashed into signed buckets. Texts sharing words or word pieces land close
+ * together, which is enough for tests and for running without a model.
+ */
+
+import type { EmbeddingProvider } from '../types';
+
+const WORD_WEIGHT = 1;
+const TRIGRAM_WEIGHT = 0.5;
+
+// FNV-1a, 32 bit
+function hash(value: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFC')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  public readonly name = 'hash' as const;
+  public readonly model = 'fallback-hash';
+
+  constructor(public readonly dimensions: number) {}
+
+  public async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const add = (feature: string, weight: number) => {
+      const h = hash(feature);
+      // The top bit picks the sign so collisions tend to cancel out
+      vector[h % this.dimensions] += h & 0x80000000 ? -weight : weight;
+    };
+
+    for (const word of tokenize(text)) {
+      add(`w:${word}`, WORD_WEIGHT);
+      const padded = `#${word}#`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        add(`t:${padded.slice(i, i + 3)}`, TRIGRAM_WEIGHT);
+      }
+    }
+
+    const magnitude = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return magnitude === 0 ? vector : vector.map(v => v / magnitude);
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * Embedding Providers
+ */
+
+import type { EmbeddingProvider, EmbeddingProviderName, RuVectorConfig } from '../types';
+import { HashingEmbeddingProvider } from './hashing';
+import { LocalEmbeddingProvider } from './local';
+
+export function createEmbeddingProvider(
+  name: EmbeddingProviderName,
+  embedding: Pick<RuVectorConfig['embedding'], 'model' | 'dimensions'>
+): EmbeddingProvider {
+  switch (name) {
+    case 'local':
+      return new LocalEmbeddingProvider(embedding.model, embedding.dimensions);
+    case 'hash':
+      return new HashingEmbeddingProvider(embedding.dimensions);
+  }
+}
+
+/**
+ * Identifies a provider's vector space; vectors with different fingerprints
+ * cannot be compared
+ */
+export function embeddingFingerprint(provider: EmbeddingProvider): string {
+  return `${provider.name}:${provider.model}:${provider.dimensions}`;
+}
+
+export { HashingEmbeddingProvider, LocalEmbeddingProvider };
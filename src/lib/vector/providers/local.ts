@@ -0,0 +1,60 @@
+/**
+ * LocalEmbeddingProvider
+ * Sentence embeddings computed on the CPU with transformers.js (ONNX).
+ * The model is downloaded once into the transformers.js cache and shared by
+ * every provider instance using it.
+ */
+
+import type { FeatureExtractionPipeline } from '@xenova/transformers';
+import type { EmbeddingProvider } from '../types';
+import { EmbeddingError } from '../types';
+import { logger } from '@/lib/logger';
+
+const pipelines = new Map<string, Promise<FeatureExtractionPipeline>>();
+
+async function loadPipeline(model: string): Promise<FeatureExtractionPipeline> {
+  let loading = pipelines.get(model);
+  if (!loading) {
+    loading = (async () => {
+      const { pipeline, env } = await import('@xenova/transformers');
+      if (process.env.RUVECTOR_MODEL_CACHE_DIR) {
+        env.cacheDir = process.env.RUVECTOR_MODEL_CACHE_DIR;
+      }
+
+      const started = Date.now();
+      const extractor = await pipeline('feature-extraction', model, { quantized: true });
+      logger.info('[LocalEmbeddingProvider] Model loaded', { model, ms: Date.now() - started });
+      return extractor;
+    })();
+    // A failed download should be retried on the next call
+    loading.catch(() => pipelines.delete(model));
+    pipelines.set(model, loading);
+  }
+  return loading;
+}
+
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  public readonly name = 'local' as const;
+
+  constructor(
+    public readonly model: string,
+    public readonly dimensions: number
+  ) {}
+
+  public async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const extractor = await loadPipeline(this.model);
+    const output = await extractor(texts, { pooling: 'mean', normalize: true });
+    const vectors = output.tolist() as number[][];
+
+    if (vectors[0]?.length !== this.dimensions) {
+      throw new EmbeddingError(
+        `${this.model} produces ${vectors[0]?.length} dimensions but ${this.dimensions} are configured; set RUVECTOR_EMBEDDING_DIMENSIONS to match`,
+        { model: this.model }
+      );
+    }
+
+    return vectors;
+  }
+}
@@ -4,9 +4,11 @@
 import { z } from 'zod';
 
 // Embedding schemas
+export const embeddingProviderSchema = z.enum(['local', 'hash']);
+
 export const embeddingOptionsSchema = z.object({
-  model: z.enum(['claude-3-5-sonnet-20241022', 'text-embedding-ada-002']).optional(),
-  dimensions: z.union([z.literal(1536), z.literal(768), z.literal(384)]).optional(),
+  provider: embeddingProviderSchema.optional(),
+  dimensions: z.number().int().min(8).max(4096).optional(),
   batchSize: z.number().int().min(1).max(100).optional(),
 });
 
@@ -90,8 +92,14 @@ export const gnnPredictionSchema = z.object({
 // Configuration schema
 export const ruVectorConfigSchema = z.object({
   enabled: z.boolean().default(false),
+  backend: z.enum(['ruvector', 'embedded']).default('embedded'),
   apiKey: z.string().optional(),
   endpoint: z.string().url().optional(),
+  embedded: z
+    .object({
+      path: z.string().default(''),
+    })
+    .default({}),
   collections: z
     .object({
       vocabulary: z.string().default('vocabulary_vectors'),
@@ -102,8 +110,9 @@ export const ruVectorConfigSchema = z.object({
     .default({}),
   embedding: z
     .object({
-      model: z.string().default('claude-3-5-sonnet-20241022'),
-      dimensions: z.number().int().positive().default(1536),
+      provider: embeddingProviderSchema.default('local'),
+      model: z.string().default('Xenova/paraphrase-multilingual-MiniLM-L12-v2'),
+      dimensions: z.number().int().positive().default(384),
       batchSize: z.number().int().min(1).max(100).default(10),
     })
     .default({}),
@@ -1,11 +1,21 @@
 /**
  * EmbeddingService
- * Generates vector embeddings using Claude API with caching and fallback
+ * Generates vector embeddings through the configured provider, with caching
+ * and a hashing fallback when the provider fails
  */
 
-import Anthropic from '@anthropic-ai/sdk';
 import { getVectorConfig } from '../config';
-import type { EmbeddingOptions, EmbeddingResult, IEmbeddingService } from '../types';
+import {
+  createEmbeddingProvider,
+  embeddingFingerprint,
+  HashingEmbeddingProvider,
+} from '../providers';
+import type {
+  EmbeddingOptions,
+  EmbeddingProvider,
+  EmbeddingResult,
+  IEmbeddingService,
+} from '../types';
 import { EmbeddingError } from '../types';
 import { logger } from '@/lib/logger';
 
@@ -16,16 +26,14 @@ interface CacheEntry {
 
 class EmbeddingService implements IEmbeddingService {
   private static instance: EmbeddingService | null = null;
-  private client: Anthropic | null = null;
-  private cache: Map<string, CacheEntry> = new Map();
   private config = getVectorConfig();
+  private provider: EmbeddingProvider;
+  private cache: Map<string, CacheEntry> = new Map();
   private readonly CACHE_TTL = 3600000; // 1 hour
   private readonly MAX_CACHE_SIZE = 10000;
 
   private constructor() {
-    if (process.env.ANTHROPIC_API_KEY) {
-      this.client = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
-    }
+    this.provider = createEmbeddingProvider(this.config.embedding.provider, this.config.embedding);
   }
 
   public static getInstance(): EmbeddingService {
@@ -39,24 +47,29 @@ class EmbeddingService implements IEmbeddingService {
     EmbeddingService.instance = null;
   }
 
+  /**
+   * Switch the provider used for new embeddings. Stored vectors from the
+   * previous provider must be re-embedded (see ReembeddingService).
+   */
+  public useProvider(provider: EmbeddingProvider): void {
+    this.provider = provider;
+    this.clearCache();
+  }
+
+  public getProvider(): EmbeddingProvider {
+    return this.provider;
+  }
+
+  public getFingerprint(): string {
+    return embeddingFingerprint(this.provider);
+  }
+
   public async generateEmbedding(
     text: string,
     options: EmbeddingOptions = {}
   ): Promise<EmbeddingResult> {
-    const cacheKey = this.getCacheKey(text, options);
-    const cached = this.getFromCache(cacheKey);
-    if (cached) {
-      return { ...cached, cached: true };
-    }
-
-    try {
-      const embedding = await this.generateWithClaude(text, options);
-      this.setCache(cacheKey, embedding);
-      return embedding;
-    } catch (error) {
-      logger.warn('[EmbeddingService] Claude API failed, using fallback', { error });
-      return this.generateFallbackEmbedding(text, options);
-    }
+    const [result] = await this.embedBatch([text], options);
+    return result;
   }
 
   public async batchEmbeddings(
@@ -67,16 +80,7 @@ class EmbeddingService implements IEmbeddingService {
     const results: EmbeddingResult[] = [];
 
     for (let i = 0; i < texts.length; i += batchSize) {
-      const batch = texts.slice(i, i + batchSize);
-      const batchResults = await Promise.all(
-        batch.map(text => this.generateEmbedding(text, options))
-      );
-      results.push(...batchResults);
-
-      // Rate limiting between batches
-      if (i + batchSize < texts.length) {
-        await new Promise(resolve => setTimeout(resolve, 100));
-      }
+      results.push(...(await this.embedBatch(texts.slice(i, i + batchSize), options)));
     }
 
     return results;
@@ -99,76 +103,71 @@ class EmbeddingService implements IEmbeddingService {
     return magnitude === 0 ? 0 : dotProduct / magnitude;
   }
 
-  private async generateWithClaude(
-    text: string,
-    options: EmbeddingOptions
-  ): Promise<EmbeddingResult> {
-    if (!this.client) {
-      throw new EmbeddingError('Anthropic client not initialized');
+  /**
+   * Provider for a request: the active one, or another provider when the
+   * options ask for a different provider or vector size
+   */
+  private resolveProvider(options: EmbeddingOptions): EmbeddingProvider {
+    const name = options.provider || this.provider.name;
+    const dimensions = options.dimensions || this.provider.dimensions;
+    if (name === this.provider.name && dimensions === this.provider.dimensions) {
+      return this.provider;
     }
 
-    const dimensions = options.dimensions || this.config.embedding.dimensions;
-
-    // Use Claude to generate semantic representation
-    const response = await this.client.messages.create({
-      model: options.model || this.config.embedding.model,
-      max_tokens: 1024,
-      messages: [
-        {
-          role: 'user',
-          content: `Generate a semantic vector representation for the following text. 
-Output ONLY a JSON array of ${dimensions} floating point numbers between -1 and 1 that capture the semantic meaning.
-No explanation, just the array.
-
-Text: ${text}`,
-        },
-      ],
+    if (name === 'local' && dimensions !== this.config.embedding.dimensions) {
+      throw new EmbeddingError(
+        `The local model produces ${this.config.embedding.dimensions} dimensions, not ${dimensions}`
+      );
+    }
+    return createEmbeddingProvider(name, { model: this.config.embedding.model, dimensions });
+  }
+
+  private async embedBatch(texts: string[], options: EmbeddingOptions): Promise<EmbeddingResult[]> {
+    const provider = this.resolveProvider(options);
+    const fingerprint = embeddingFingerprint(provider);
+    const results: Array<EmbeddingResult | undefined> = texts.map(text => {
+      const cached = this.getFromCache(this.getCacheKey(fingerprint, text));
+      return cached ? { ...cached, cached: true } : undefined;
     });
 
-    const content = response.content[0];
-    if (content.type !== 'text') {
-      throw new EmbeddingError('Unexpected response type from Claude');
-    }
+    const missing = texts.flatMap((text, index) => (results[index] ? [] : [{ text, index }]));
+    if (missing.length === 0) return results as EmbeddingResult[];
 
+    let source = provider;
+    let vectors: number[][];
     try {
-      const vector = JSON.parse(content.text);
-      if (!Array.isArray(vector) || vector.length !== dimensions) {
-        throw new EmbeddingError(
-          `Invalid vector dimensions: expected ${dimensions}, got ${vector.length}`
-        );
+      vectors = await provider.embed(missing.map(({ text }) => text));
+    } catch (error) {
+      if (options.fallback === false) {
+        throw new EmbeddingError(`${provider.name} provider failed`, {
+          provider: fingerprint,
+          cause: error instanceof Error ? error.message : String(error),
+        });
       }
+      logger.warn(`[EmbeddingService] ${provider.name} provider failed, using fallback`, {
+        error,
+      });
+      source = new HashingEmbeddingProvider(provider.dimensions);
+      vectors = await source.embed(missing.map(({ text }) => text));
+    }
 
-      return {
-        vector: this.normalizeVector(vector),
-        model: options.model || this.config.embedding.model,
-        dimensions,
-        tokenCount: response.usage?.input_tokens || 0,
+    missing.forEach(({ text, index }, i) => {
+      const result: EmbeddingResult = {
+        vector: this.normalizeVector(vectors[i]),
+        model: source.model,
+        dimensions: source.dimensions,
+        tokenCount: 0,
         cached: false,
+        fingerprint: embeddingFingerprint(source),
       };
-    } catch (parseError) {
-      throw new EmbeddingError('Failed to parse embedding response', { parseError });
-    }
-  }
-
-  private generateFallbackEmbedding(text: string, options: EmbeddingOptions): EmbeddingResult {
-    const dimensions = options.dimensions || this.config.embedding.dimensions;
-    const vector = new Array(dimensions).fill(0);
-
-    // Simple hash-based pseudo-embedding for fallback
-    const normalized = text.toLowerCase().trim();
-    for (let i = 0; i < normalized.length; i++) {
-      const charCode = normalized.charCodeAt(i);
-      const idx = (charCode * (i + 1)) % dimensions;
-      vector[idx] = (vector[idx] + Math.sin(charCode * 0.1)) / 2;
-    }
+      // Fallback vectors live in a different space and are not cached
+      if (source === provider) {
+        this.setCache(this.getCacheKey(fingerprint, text), result);
+      }
+      results[index] = result;
+    });
 
-    return {
-      vector: this.normalizeVector(vector),
-      model: 'fallback-hash',
-      dimensions,
-      tokenCount: 0,
-      cached: false,
-    };
+    return results as EmbeddingResult[];
   }
 
   private normalizeVector(vector: number[]): number[] {
@@ -177,8 +176,8 @@ Text: ${text}`,
     return vector.map(v => v / magnitude);
   }
 
-  private getCacheKey(text: string, options: EmbeddingOptions): string {
-    return `${options.model || 'default'}:${options.dimensions || 'default'}:${text}`;
+  private getCacheKey(fingerprint: string, text: string): string {
+    return `${fingerprint}:${text}`;
   }
 
   private getFromCache(key: string): EmbeddingResult | null {
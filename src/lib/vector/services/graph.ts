@@ -25,7 +25,7 @@ class GraphService implements IGraphService {
   }
 
   public async addNode(node: Omit<GraphNode, 'createdAt' | 'updatedAt'>): Promise<GraphNode> {
-    if (!vectorClient.isReady()) {
+    if (!(await vectorClient.ensureReady())) {
       throw new GraphError('Vector client not connected');
     }
 
@@ -50,7 +50,7 @@ class GraphService implements IGraphService {
   }
 
   public async addEdge(edge: Omit<GraphEdge, 'id'>): Promise<GraphEdge> {
-    if (!vectorClient.isReady()) {
+    if (!(await vectorClient.ensureReady())) {
       throw new GraphError('Vector client not connected');
     }
 
@@ -71,7 +71,7 @@ class GraphService implements IGraphService {
   }
 
   public async getNode(id: string): Promise<GraphNode | null> {
-    if (!vectorClient.isReady()) {
+    if (!(await vectorClient.ensureReady())) {
       throw new GraphError('Vector client not connected');
     }
 
@@ -100,7 +100,7 @@ class GraphService implements IGraphService {
     depth: number = 1,
     edgeTypes?: string[]
   ): Promise<GraphQueryResult> {
-    if (!vectorClient.isReady()) {
+    if (!(await vectorClient.ensureReady())) {
       throw new GraphError('Vector client not connected');
     }
 
@@ -126,7 +126,7 @@ class GraphService implements IGraphService {
     targetId: string,
     maxDepth: number = 5
   ): Promise<GraphPath | null> {
-    if (!vectorClient.isReady()) {
+    if (!(await vectorClient.ensureReady())) {
       throw new GraphError('Vector client not connected');
     }
 
@@ -158,7 +158,7 @@ class GraphService implements IGraphService {
   }
 
   public async query(cypher: string, params?: Record<string, unknown>): Promise<GraphQueryResult> {
-    if (!vectorClient.isReady()) {
+    if (!(await vectorClient.ensureReady())) {
       throw new GraphError('Vector client not connected');
     }
 
@@ -288,7 +288,7 @@ class GraphService implements IGraphService {
   public async recordConfusion(userId: string, word1Id: string, word2Id: string): Promise<void> {
     // Check if confusion edge exists
     const existing = await this.query(
-      `MATCH (w1:vocabulary)-[r:confused_with]-(w2:vocabulary)
+      `MATCH (w1)-[r:confused_with]-(w2)
        WHERE w1.id = $word1Id AND w2.id = $word2Id AND r.userId = $userId
        RETURN r`,
       { word1Id, word2Id, userId }
@@ -297,7 +297,7 @@ class GraphService implements IGraphService {
     if (existing.edges.length > 0) {
       // Update existing confusion weight
       await this.query(
-        `MATCH (w1:vocabulary)-[r:confused_with]-(w2:vocabulary)
+        `MATCH (w1)-[r:confused_with]-(w2)
          WHERE w1.id = $word1Id AND w2.id = $word2Id AND r.userId = $userId
          SET r.weight = r.weight + 0.1, r.count = r.count + 1
          RETURN r`,
@@ -315,6 +315,54 @@ class GraphService implements IGraphService {
     }
   }
 
+  /**
+   * Feed a contrast drill back into the confusion edge: every mistake makes
+   * the pair more confusable and every correct answer eases it, so pairs the
+   * learner has mastered drop out of the drill list
+   */
+  public async recordContrastOutcome(
+    userId: string,
+    word1Id: string,
+    word2Id: string,
+    outcome: { correct: number; total: number }
+  ): Promise<number> {
+    const mistakes = Math.max(0, outcome.total - outcome.correct);
+    const delta = mistakes * 0.1 - outcome.correct * 0.05;
+    const params = { word1Id, word2Id, userId };
+
+    const existing = await this.query(
+      `MATCH (w1)-[r:confused_with]-(w2)
+       WHERE w1.id = $word1Id AND w2.id = $word2Id AND r.userId = $userId
+       RETURN r`,
+      params
+    );
+
+    if (existing.edges.length === 0) {
+      if (mistakes === 0) return 0;
+      const weight = Math.min(1, 0.5 + delta);
+      await this.addEdge({
+        source: word1Id,
+        target: word2Id,
+        type: 'confused_with',
+        weight,
+        metadata: { userId, count: mistakes, drills: 1, lastDrilledAt: new Date().toISOString() },
+      });
+      return weight;
+    }
+
+    // Rounded so repeated small steps cannot leave a mastered pair just above zero
+    const weight =
+      Math.round(Math.min(1, Math.max(0, existing.edges[0].weight + delta)) * 100) / 100;
+    await this.query(
+      `MATCH (w1)-[r:confused_with]-(w2)
+       WHERE w1.id = $word1Id AND w2.id = $word2Id AND r.userId = $userId
+       SET r.weight = $weight, r.drills = r.drills + 1, r.lastDrilledAt = $now
+       RETURN r`,
+      { ...params, weight, now: new Date().toISOString() }
+    );
+    return weight;
+  }
+
   private transformGraphResult(result: {
     nodes: Array<{ id: string; labels: string[]; properties: Record<string, unknown> }>;
     edges: Array<{
@@ -339,7 +387,7 @@ class GraphService implements IGraphService {
         source: e.source,
         target: e.target,
         type: e.type as GraphEdge['type'],
-        weight: (e.properties.weight as number) || 1,
+        weight: (e.properties.weight as number) ?? 1,
         metadata: e.properties,
       })),
     };
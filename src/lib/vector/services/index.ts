@@ -8,3 +8,4 @@ export { graphService, GraphService } from './graph';
 export { learningService, LearningService } from './learning';
 export { spacedRepetitionBridge, SpacedRepetitionBridge } from './spaced-repetition-bridge';
 export { semanticCacheService, SemanticCacheService } from './cache';
+export { reembeddingService, ReembeddingService } from './reembedding';
@@ -7,7 +7,7 @@ import { vectorClient } from '../client';
 import { graphService } from './graph';
 import { embeddingService } from './embedding';
 import { getVectorConfig } from '../config';
-import type { LearningPattern, GNNPrediction, ILearningService } from '../types';
+import type { ConfusionPair, LearningPattern, GNNPrediction, ILearningService } from '../types';
 import { GraphError } from '../types';
 import { logger } from '@/lib/logger';
 
@@ -89,30 +89,35 @@ class LearningService implements ILearningService {
     }
   }
 
-  public async getConfusionPairs(
-    userId: string
-  ): Promise<Array<{ word1: string; word2: string; confusionRate: number }>> {
+  public async getConfusionPairs(userId: string): Promise<ConfusionPair[]> {
     try {
+      // Confusion edges carry the user, so the words need not be linked to them
       const result = await graphService.query(
-        `MATCH (u:user)-[:learned]->(w1:vocabulary)-[c:confused_with]-(w2:vocabulary)
-         WHERE u.id = $userId AND c.userId = $userId
+        `MATCH (w1)-[c:confused_with]-(w2)
+         WHERE c.userId = $userId
          RETURN w1, w2, c
          ORDER BY c.weight DESC
-         LIMIT 20`,
+         LIMIT 40`,
         { userId }
       );
 
-      return result.edges
-        .map((edge, idx) => {
+      // An undirected match returns each edge once from either end
+      const edges = [...new Map(result.edges.map(edge => [edge.id, edge])).values()];
+
+      return edges
+        .filter(edge => edge.weight > 0)
+        .slice(0, 20)
+        .map(edge => {
           const word1Node = result.nodes.find(n => n.id === edge.source);
           const word2Node = result.nodes.find(n => n.id === edge.target);
           return {
+            word1Id: edge.source,
+            word2Id: edge.target,
             word1: (word1Node?.properties?.word as string) || '',
             word2: (word2Node?.properties?.word as string) || '',
-            confusionRate: edge.weight || 0,
+            confusionRate: edge.weight,
           };
-        })
-        .filter(pair => pair.word1 && pair.word2);
+        });
     } catch (error) {
       logger.error('[LearningService] Failed to get confusion pairs', { error, userId });
       return [];
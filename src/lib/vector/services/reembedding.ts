@@ -0,0 +1,90 @@
+/**
+ * ReembeddingService
+ * Rebuilds a collection with the current embedding provider. Needed whenever
+ * the provider, model or dimensions change, since vectors from different
+ * providers cannot be compared.
+ */
+
+import { vectorClient } from '../client';
+import { embeddingService } from './embedding';
+import { VectorError } from '../types';
+import { logger } from '@/lib/logger';
+
+export interface ReembedSource {
+  id: string;
+  text: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface ReembedResult {
+  collection: string;
+  fingerprint: string;
+  embedded: number;
+}
+
+class ReembeddingService {
+  private static instance: ReembeddingService | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): ReembeddingService {
+    if (!ReembeddingService.instance) {
+      ReembeddingService.instance = new ReembeddingService();
+    }
+    return ReembeddingService.instance;
+  }
+
+  public static resetInstance(): void {
+    ReembeddingService.instance = null;
+  }
+
+  /**
+   * Replace every vector in a collection with embeddings of `sources`
+   * Every source is embedded before the collection is touched, and a
+   * provider failure aborts the rebuild instead of storing fallback
+   * vectors. The collection is then recreated with the provider's
+   * dimensions; each point records the fingerprint of the provider that
+   * produced it.
+   */
+  public async reembedCollection(
+    collection: string,
+    sources: ReembedSource[]
+  ): Promise<ReembedResult> {
+    if (!(await vectorClient.ensureReady())) {
+      throw new VectorError('Vector client not connected', 'NOT_CONNECTED', 503);
+    }
+
+    const provider = embeddingService.getProvider();
+    const fingerprint = embeddingService.getFingerprint();
+    const results = await embeddingService.batchEmbeddings(
+      sources.map(source => source.text),
+      { fallback: false }
+    );
+
+    try {
+      await vectorClient.deleteCollection(collection);
+    } catch (error) {
+      // Nothing to drop on the first run
+      logger.debug('[Reembedding] Collection not deleted', { collection, error });
+    }
+    await vectorClient.createCollection(collection, provider.dimensions);
+
+    const points = sources.map((source, i) => ({
+      id: source.id,
+      vector: results[i].vector,
+      metadata: { ...source.metadata, embedding: results[i].fingerprint },
+    }));
+    await vectorClient.upsert(collection, points);
+
+    logger.info('[Reembedding] Collection rebuilt', {
+      collection,
+      fingerprint,
+      embedded: points.length,
+    });
+
+    return { collection, fingerprint, embedded: points.length };
+  }
+}
+
+export const reembeddingService = ReembeddingService.getInstance();
+export { ReembeddingService };
@@ -39,7 +39,7 @@ class VectorSearchService implements IVectorSearchService {
     collection: string,
     options: VectorSearchOptions = {}
   ): Promise<VectorSearchResult<T>[]> {
-    if (!vectorClient.isReady()) {
+    if (!(await vectorClient.ensureReady())) {
       throw new SearchError('Vector client not connected');
     }
 
@@ -57,7 +57,7 @@ class VectorSearchService implements IVectorSearchService {
     collection: string,
     options: VectorSearchOptions = {}
   ): Promise<VectorSearchResult<T>[]> {
-    if (!vectorClient.isReady()) {
+    if (!(await vectorClient.ensureReady())) {
       throw new SearchError('Vector client not connected');
     }
 
@@ -81,7 +81,7 @@ class VectorSearchService implements IVectorSearchService {
     metadata: Record<string, unknown>,
     collection: string
   ): Promise<void> {
-    if (!vectorClient.isReady()) {
+    if (!(await vectorClient.ensureReady())) {
       throw new SearchError('Vector client not connected');
     }
 
@@ -89,7 +89,7 @@ class VectorSearchService implements IVectorSearchService {
   }
 
   public async delete(id: string, collection: string): Promise<void> {
-    if (!vectorClient.isReady()) {
+    if (!(await vectorClient.ensureReady())) {
       throw new SearchError('Vector client not connected');
     }
 
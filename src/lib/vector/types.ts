@@ -4,10 +4,27 @@
  */
 
 // Embedding types
+export type EmbeddingProviderName = 'local' | 'hash';
+
 export interface EmbeddingOptions {
-  model?: 'claude-3-5-sonnet-20241022' | 'text-embedding-ada-002';
-  dimensions?: 1536 | 768 | 384;
+  provider?: EmbeddingProviderName;
+  /** Vector size; only the hashing provider can produce arbitrary sizes */
+  dimensions?: number;
   batchSize?: number;
+  /** Fall back to hashing when the provider fails (default); false throws instead */
+  fallback?: boolean;
+}
+
+/**
+ * Source of embedding vectors
+ * Vectors are L2-normalised; `model` and `dimensions` identify the vector
+ * space, so stored vectors must be re-embedded when either changes.
+ */
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderName;
+  readonly model: string;
+  readonly dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
 }
 
 export interface EmbeddingResult {
@@ -16,6 +33,8 @@ export interface EmbeddingResult {
   dimensions: number;
   tokenCount: number;
   cached: boolean;
+  /** Fingerprint of the provider that produced the vector */
+  fingerprint: string;
 }
 
 // Vector search types
@@ -82,6 +101,15 @@ export interface LearningPattern {
   lastUpdated: Date;
 }
 
+/** Two words a learner mixes up; the rate is the confusion edge weight */
+export interface ConfusionPair {
+  word1Id: string;
+  word2Id: string;
+  word1: string;
+  word2: string;
+  confusionRate: number;
+}
+
 export interface GNNPrediction {
   nextReviewDate: Date;
   predictedSuccessRate: number;
@@ -109,11 +137,124 @@ export interface CacheMetrics {
   evictionCount: number;
 }
 
+// Vector store backend types
+/**
+ * `ruvector` talks to a RuVector server; `embedded` keeps collections and the
+ * knowledge graph in this process
+ */
+export type VectorBackend = 'ruvector' | 'embedded';
+
+export interface VectorPoint {
+  id: string;
+  vector: number[];
+  payload?: Record<string, unknown>;
+}
+
+export interface VectorPointMatch {
+  id: string;
+  score: number;
+  payload?: Record<string, unknown>;
+  vector?: number[];
+}
+
+export interface VectorStoreHealth {
+  status: 'healthy' | 'degraded' | 'unhealthy';
+  latency: number;
+  version: string;
+}
+
+export interface VectorStoreMetrics {
+  collections: number;
+  points: number;
+  memoryUsage: number;
+  cpuUsage: number;
+}
+
+export interface RawGraphResult {
+  nodes: Array<{ id: string; labels: string[]; properties: Record<string, unknown> }>;
+  edges: Array<{
+    id: string;
+    type: string;
+    source: string;
+    target: string;
+    properties: Record<string, unknown>;
+  }>;
+}
+
+/**
+ * Payload filter in the RuVector (Qdrant-style) format built by the client:
+ * every `must` condition has to hold and no `must_not` condition may
+ */
+export interface VectorPayloadFilter {
+  must?: VectorPayloadCondition[];
+  must_not?: VectorPayloadCondition[];
+}
+
+export interface VectorPayloadCondition {
+  key: string;
+  match?: { value?: unknown; any?: unknown[]; text?: unknown };
+  range?: Partial<Record<'gt' | 'gte' | 'lt' | 'lte', number>>;
+}
+
+/**
+ * Operations a vector store backend provides to the client
+ */
+export interface RuVectorInstance {
+  collections: {
+    create: (config: {
+      name: string;
+      vectors: { size: number; distance: VectorDistance };
+      onDiskPayload?: boolean;
+    }) => Promise<void>;
+    delete: (name: string) => Promise<void>;
+    exists: (name: string) => Promise<boolean>;
+    list: () => Promise<string[]>;
+  };
+  points: {
+    upsert: (collection: string, points: VectorPoint[]) => Promise<void>;
+    search: (
+      collection: string,
+      query: {
+        vector: number[];
+        limit: number;
+        filter?: VectorPayloadFilter;
+        scoreThreshold?: number;
+        withPayload?: boolean;
+        withVector?: boolean;
+      }
+    ) => Promise<VectorPointMatch[]>;
+    delete: (collection: string, ids: string[]) => Promise<void>;
+    get: (collection: string, ids: string[]) => Promise<VectorPoint[]>;
+  };
+  graph: {
+    query: (cypher: string, params?: Record<string, unknown>) => Promise<RawGraphResult>;
+    createNode: (node: {
+      labels: string[];
+      properties: Record<string, unknown>;
+    }) => Promise<string>;
+    createEdge: (edge: {
+      type: string;
+      source: string;
+      target: string;
+      properties?: Record<string, unknown>;
+    }) => Promise<string>;
+  };
+  health: {
+    check: () => Promise<VectorStoreHealth>;
+    metrics: () => Promise<VectorStoreMetrics>;
+  };
+}
+
 // Configuration types
 export interface RuVectorConfig {
   enabled: boolean;
+  backend: VectorBackend;
   apiKey?: string;
   endpoint?: string;
+  embedded: {
+    /** JSON snapshot file for the embedded store; empty keeps it in memory only */
+    path: string;
+  };
   collections: {
     vocabulary: string;
     images: string;
@@ -121,6 +262,7 @@ export interface RuVectorConfig {
     learningPatterns: string;
   };
   embedding: {
+    provider: EmbeddingProviderName;
     model: string;
     dimensions: number;
     batchSize: number;
@@ -187,9 +329,7 @@ export interface ILearningService {
     responseTime: number
   ): Promise<void>;
   getPrediction(userId: string, vocabularyId: string): Promise<GNNPrediction>;
-  getConfusionPairs(
-    userId: string
-  ): Promise<Array<{ word1: string; word2: string; confusionRate: number }>>;
+  getConfusionPairs(userId: string): Promise<ConfusionPair[]>;
   getOptimalReviewSchedule(
     userId: string,
     limit?: number
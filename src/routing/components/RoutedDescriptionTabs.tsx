@@ -10,6 +10,9 @@ import { AnimatePresence } from 'framer-motion';
 import { MotionDiv } from '@/components/ui/MotionComponents';
 import { DescriptionStyle } from '@/types';
 import { logger } from '@/lib/logger';
+import { useSpeech } from '@/hooks/useSpeech';
+import { speechLocale } from '@/lib/speech';
+import { HighlightedText } from '@/components/Speech';
 import { useSyncedTabState } from '../hooks/useSyncedTabState';
 import { useDeepLink } from '../hooks/useDeepLink';
 import { TabRouteConfig } from '../types';
@@ -76,14 +79,18 @@ export const RoutedDescriptionTabs: React.FC<RoutedDescriptionTabsProps> = ({
     }
   }, [copyLink]);
 
-  const handleSpeak = useCallback((text: string, language: 'en' | 'es') => {
-    if ('speechSynthesis' in window) {
-      const utterance = new SpeechSynthesisUtterance(text);
-      utterance.lang = language === 'en' ? 'en-US' : 'es-ES';
-      utterance.rate = 0.9;
-      speechSynthesis.speak(utterance);
-    }
-  }, []);
+  const { speak, stop, speakingText, activeWord } = useSpeech();
+
+  const handleSpeak = useCallback(
+    (text: string, language: 'en' | 'es') => {
+      if (speakingText === text) {
+        stop();
+      } else {
+        speak(text, { locale: speechLocale(language), rate: 0.9 });
+      }
+    },
+    [speak, stop, speakingText]
+  );
 
   const tabContent = useMemo(
     () => ({
@@ -157,7 +164,10 @@ export const RoutedDescriptionTabs: React.FC<RoutedDescriptionTabsProps> = ({
                 {/* Description Text */}
                 <div className="prose prose-sm max-w-none">
                   <p className="text-gray-800 leading-relaxed">
-                    {activeContent.content}
+                    <HighlightedText
+                      text={activeContent.content}
+                      activeWord={speakingText === activeContent.content ? activeWord : -1}
+                    />
                   </p>
                 </div>
 
@@ -147,4 +147,6 @@ export interface CategorizedPhrase {
   notes?: string;
   tags?: string[];
   examples?: string[];
+  /** Regional variants the phrase is usual in; absent when not regional */
+  regions?: string[];
 }
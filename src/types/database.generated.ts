@@ -25,7 +25,7 @@ export interface Database {
           is_authenticated: boolean
           profile_completed: boolean
           theme: 'light' | 'dark' | 'auto'
-          language: 'en' | 'es'
+          language: 'en' | 'es' | 'fr' | 'it' | 'pt'
           default_description_style: 'narrativo' | 'poetico' | 'academico' | 'conversacional' | 'infantil' | 'creativo' | 'tecnico'
           target_words_per_day: number
           preferred_difficulty: 'beginner' | 'intermediate' | 'advanced'
@@ -44,7 +44,7 @@ export interface Database {
           is_authenticated?: boolean
           profile_completed?: boolean
           theme?: 'light' | 'dark' | 'auto'
-          language?: 'en' | 'es'
+          language?: 'en' | 'es' | 'fr' | 'it' | 'pt'
           default_description_style?: 'narrativo' | 'poetico' | 'academico' | 'conversacional' | 'infantil' | 'creativo' | 'tecnico'
           target_words_per_day?: number
           preferred_difficulty?: 'beginner' | 'intermediate' | 'advanced'
@@ -63,7 +63,7 @@ export interface Database {
           is_authenticated?: boolean
           profile_completed?: boolean
           theme?: 'light' | 'dark' | 'auto'
-          language?: 'en' | 'es'
+          language?: 'en' | 'es' | 'fr' | 'it' | 'pt'
           default_description_style?: 'narrativo' | 'poetico' | 'academico' | 'conversacional' | 'infantil' | 'creativo' | 'tecnico'
           target_words_per_day?: number
           preferred_difficulty?: 'beginner' | 'intermediate' | 'advanced'
@@ -169,6 +169,13 @@ export interface Database {
           content_rating: string
           created_at: string
           updated_at: string
+          user_id: string | null
+          source: 'unsplash' | 'upload'
+          storage_backend: 'local' | 's3' | null
+          storage_key: string | null
+          thumbnail_storage_key: string | null
+          mime_type: string | null
+          file_size_bytes: number | null
         }
         Insert: {
           id?: string
@@ -190,6 +197,13 @@ export interface Database {
           content_rating?: string
           created_at?: string
           updated_at?: string
+          user_id?: string | null
+          source?: 'unsplash' | 'upload'
+          storage_backend?: 'local' | 's3' | null
+          storage_key?: string | null
+          thumbnail_storage_key?: string | null
+          mime_type?: string | null
+          file_size_bytes?: number | null
         }
         Update: {
           id?: string
@@ -211,6 +225,13 @@ export interface Database {
           content_rating?: string
           created_at?: string
           updated_at?: string
+          user_id?: string | null
+          source?: 'unsplash' | 'upload'
+          storage_backend?: 'local' | 's3' | null
+          storage_key?: string | null
+          thumbnail_storage_key?: string | null
+          mime_type?: string | null
+          file_size_bytes?: number | null
         }
         Relationships: []
       }
@@ -312,6 +333,7 @@ export interface Database {
           word_family: string[] | null
           memory_hints: string[] | null
           cultural_notes: string | null
+          regions: string[] | null
           false_friends: string[] | null
           associated_image_urls: string[] | null
           emoji_representation: string | null
@@ -346,6 +368,7 @@ export interface Database {
           word_family?: string[] | null
           memory_hints?: string[] | null
           cultural_notes?: string | null
+          regions?: string[] | null
           false_friends?: string[] | null
           associated_image_urls?: string[] | null
           emoji_representation?: string | null
@@ -380,6 +403,7 @@ export interface Database {
           word_family?: string[] | null
           memory_hints?: string[] | null
           cultural_notes?: string | null
+          regions?: string[] | null
           false_friends?: string[] | null
           associated_image_urls?: string[] | null
           emoji_representation?: string | null
@@ -848,6 +872,126 @@ export interface Database {
           }
         ]
       }
+      translation_memory: {
+        Row: {
+          id: string
+          user_id: string
+          list_id: string | null
+          from_language: string
+          to_language: string
+          source_text: string
+          source_normalized: string
+          target_text: string
+          origin: string
+          last_used_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          list_id?: string | null
+          from_language: string
+          to_language: string
+          source_text: string
+          source_normalized: string
+          target_text: string
+          origin?: string
+          last_used_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          list_id?: string | null
+          from_language?: string
+          to_language?: string
+          source_text?: string
+          source_normalized?: string
+          target_text?: string
+          origin?: string
+          last_used_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'translation_memory_user_id_fkey'
+            columns: ['user_id']
+            isOneToOne: false
+            referencedRelation: 'users'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'translation_memory_list_id_fkey'
+            columns: ['list_id']
+            isOneToOne: false
+            referencedRelation: 'vocabulary_lists'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      glossary_terms: {
+        Row: {
+          id: string
+          user_id: string
+          list_id: string | null
+          from_language: string
+          to_language: string
+          source_term: string
+          target_term: string
+          alternatives: string[]
+          region: string | null
+          note: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          list_id?: string | null
+          from_language: string
+          to_language: string
+          source_term: string
+          target_term: string
+          alternatives?: string[]
+          region?: string | null
+          note?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          list_id?: string | null
+          from_language?: string
+          to_language?: string
+          source_term?: string
+          target_term?: string
+          alternatives?: string[]
+          region?: string | null
+          note?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'glossary_terms_user_id_fkey'
+            columns: ['user_id']
+            isOneToOne: false
+            referencedRelation: 'users'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'glossary_terms_list_id_fkey'
+            columns: ['list_id']
+            isOneToOne: false
+            referencedRelation: 'vocabulary_lists'
+            referencedColumns: ['id']
+          }
+        ]
+      }
     }
     Views: {
       [_ in never]: never
@@ -866,7 +1010,7 @@ export interface Database {
       vocabulary_category: 'basic' | 'intermediate' | 'advanced' | 'custom' | 'thematic'
       spanish_gender: 'masculino' | 'femenino' | 'neutro'
       theme_preference: 'light' | 'dark' | 'auto'
-      language_preference: 'en' | 'es'
+      language_preference: 'en' | 'es' | 'fr' | 'it' | 'pt'
       export_format: 'json' | 'csv' | 'pdf'
     }
     CompositeTypes: {
@@ -1,6 +1,7 @@
 // Database types for Supabase or other database integration
 // Import unified types to ensure consistency
 import type { VocabularyItem } from "./unified";
+import type { CEFRLevel, TextDifficultyAnalysis } from "@/lib/languages";
 
 // Re-export unified VocabularyItem as the primary database type
 export type { VocabularyItem } from "./unified";
@@ -271,6 +272,13 @@ export interface DescriptionRecord {
   description_style?: string;
   description_english: string;
   description_spanish: string;
+  target_language?: LanguagePreference;
+  cefr_target?: CEFRLevel | null;
+  /** Level estimated from the generated text */
+  cefr_level?: CEFRLevel | null;
+  /** Set when the text still missed cefr_target after regeneration */
+  cefr_flagged?: boolean;
+  difficulty_analysis?: TextDifficultyAnalysis | null;
   is_completed?: boolean;
   completed_at?: string;
   completion_time_seconds?: number;
@@ -475,7 +483,7 @@ export type DifficultyLevel = Database["public"]["Enums"]["difficulty_level"];
 export type QADifficulty = Database["public"]["Enums"]["qa_difficulty"];
 export type VocabularyCategory = string; // Could be enum if needed
 export type ThemePreference = "light" | "dark" | "auto";
-export type LanguagePreference = "en" | "es";
+export type LanguagePreference = "en" | "es" | "fr" | "it" | "pt";
 export type ExportFormat = "csv" | "json" | "anki" | "pdf";
 export type QuestionType = "factual" | "inferential" | "evaluative" | "creative";
 export type LearningPhase = "new" | "learning" | "review" | "mastered";
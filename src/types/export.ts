@@ -29,6 +29,7 @@ export interface ExportOptions {
 
   // Content filtering
   includeMedia?: boolean;
+  includeAudio?: boolean; // pronunciation audio in Anki and JSON exports
   includeMetadata?: boolean;
 
   // Category-specific filters
@@ -64,7 +65,15 @@ export interface ExportOptions {
 }
 
 // PDF Export Configuration
+export type PDFLayout =
+  | "report" // overview of all exported data
+  | "study-sheet" // phrase / translation columns with writing lines
+  | "vocabulary-list" // vocabulary with image thumbnails and context
+  | "flashcards" // fold-in-half bilingual flashcard sheet
+  | "worksheet"; // Q&A worksheet with answer key on a separate page
+
 export interface PDFExportOptions {
+  layout?: PDFLayout;
   pageSize?: "A4" | "Letter" | "A3";
   orientation?: "portrait" | "landscape";
   includeImages?: boolean;
@@ -117,6 +126,8 @@ export interface AnkiExportOptions {
   noteType?: "basic" | "cloze" | "image-occlusion";
   tags?: string[];
   includeImages?: boolean;
+  includeAudio?: boolean; // pronunciation as [sound:] media on vocabulary and description notes
+  subdecks?: boolean; // split into Vocabulary / Q&A / Descriptions subdecks
   mediaFolder?: string;
   cardTemplate?: {
     front?: string;
@@ -145,6 +156,8 @@ export interface VocabularyExportItem {
   category: string;
   imageId?: string;
   imageUrl?: string;
+  audioUrl?: string; // recorded or cached pronunciation; synthesized when missing
+  audio?: ExportAudio;
   dateAdded: string;
   lastReviewed?: string;
   reviewCount?: number;
@@ -162,6 +175,15 @@ export interface DescriptionExportItem {
   createdAt: string;
   generationTime?: number;
   metadata?: Record<string, any>;
+  audioUrl?: string;
+  audio?: ExportAudio;
+}
+
+// Pronunciation audio embedded in a JSON export
+export interface ExportAudio {
+  filename: string;
+  contentType: string;
+  data: string; // base64
 }
 
 export interface QAExportItem {
@@ -147,6 +147,14 @@ export * from './constants';
 // LEGACY TYPE DEFINITIONS (Maintained for Backward Compatibility)
 // ============================================================================
 
+import type {
+  CEFRLevel,
+  LanguageKey,
+  SpanishVariantCode,
+  SupportedLanguageCode,
+  TargetLanguageCode,
+} from "@/lib/languages";
+
 // Core Types
 export interface Image {
   id: string;
@@ -169,6 +177,15 @@ export interface Image {
   color: string;
   likes?: number;
   created_at: string;
+  /** Image source, e.g. "unsplash" or "wikimedia" */
+  provider?: string;
+  attribution?: {
+    providerName: string;
+    author: string;
+    authorUrl?: string;
+    sourceUrl?: string;
+    license?: string;
+  };
 }
 
 // Alias for backward compatibility with Unsplash references
@@ -186,7 +203,7 @@ export interface Description {
   imageId: string;
   style: DescriptionStyle;
   content: string;
-  language: 'en' | 'es' | 'english' | 'spanish';
+  language: SupportedLanguageCode | LanguageKey;
   createdAt: Date;
   isLoading?: boolean;
   error?: string;
@@ -203,6 +220,12 @@ export interface DescriptionRequest {
   imageUrl: string;
   style: DescriptionStyle;
   customPrompt?: string;
+  /** Language described alongside English; the API defaults to Spanish */
+  language?: TargetLanguageCode;
+  /** Overrides the style's default CEFR target for the target-language text */
+  cefrLevel?: CEFRLevel;
+  /** Defaults to the spanishVariant preference */
+  variant?: SpanishVariantCode;
 }
 
 // Q&A Types
@@ -263,6 +286,8 @@ export interface UserPreferences {
   autoSaveDescriptions: boolean;
   maxHistoryItems: number;
   exportFormat: "json" | "csv" | "pdf";
+  /** Regional Spanish the learner is aiming for */
+  spanishVariant?: SpanishVariantCode;
 }
 
 // Export Types
@@ -0,0 +1,9 @@
+/**
+ * Type declarations for the asm.js build of sql.js
+ * Same API as the default WebAssembly build typed by @types/sql.js
+ */
+
+declare module 'sql.js/dist/sql-asm.js' {
+  import initSqlJs from 'sql.js';
+  export default initSqlJs;
+}
@@ -33,7 +33,7 @@ export type QaDifficulty = 'facil' | 'medio' | 'dificil'
 export type VocabularyCategory = 'basic' | 'intermediate' | 'advanced' | 'custom' | 'thematic'
 export type SpanishGender = 'masculino' | 'femenino' | 'neutro'
 export type ThemePreference = 'light' | 'dark' | 'auto'
-export type LanguagePreference = 'en' | 'es'
+export type LanguagePreference = 'en' | 'es' | 'fr' | 'it' | 'pt'
 export type ExportFormat = 'json' | 'csv' | 'pdf'
 
 // ============================================
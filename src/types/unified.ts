@@ -43,6 +43,8 @@ export interface VocabularyItem {
   word_family?: string[];
   memory_hints?: string[];
   cultural_notes?: string;
+  /** Regional Spanish variants the word is usual in, e.g. ['es-MX', 'es-CO'] */
+  regions?: string[];
   false_friends?: string[];
   associated_image_urls?: string[];
   emoji_representation?: string;
@@ -0,0 +1,21 @@
+-- ==============================================
+-- REVIEW SCHEDULING SETTINGS
+-- ==============================================
+-- Per-user choice of spaced repetition algorithm and fitted FSRS parameters
+-- Created: 2026-10-19
+-- Purpose: Let learners switch between SM-2, Leitner and FSRS scheduling
+
+ALTER TABLE user_settings
+  ADD COLUMN IF NOT EXISTS scheduling_algorithm VARCHAR(20) DEFAULT 'sm2'
+    CHECK (scheduling_algorithm IN ('sm2', 'leitner', 'fsrs'));
+
+-- Fitted FSRS weights (17 numbers) plus fit metadata; NULL means defaults
+ALTER TABLE user_settings
+  ADD COLUMN IF NOT EXISTS fsrs_parameters JSONB;
+
+ALTER TABLE user_settings
+  ADD COLUMN IF NOT EXISTS fsrs_request_retention DECIMAL(3,2) DEFAULT 0.90
+    CHECK (fsrs_request_retention BETWEEN 0.70 AND 0.99);
+
+COMMENT ON COLUMN user_settings.scheduling_algorithm IS 'Spaced repetition algorithm used for vocabulary reviews';
+COMMENT ON COLUMN user_settings.fsrs_parameters IS 'Per-user FSRS weights fitted from review_history';
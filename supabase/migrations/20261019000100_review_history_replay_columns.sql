@@ -0,0 +1,26 @@
+-- ==============================================
+-- REVIEW HISTORY FOR SERVER-SIDE SCHEDULING
+-- ==============================================
+-- Review intervals are computed on the server; the history keeps the raw
+-- grade, timing and algorithm so schedules can be replayed later
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS review_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  vocabulary_id UUID NOT NULL,
+  quality INTEGER NOT NULL CHECK (quality BETWEEN 0 AND 5),
+  ease_factor DECIMAL(4,2),
+  interval INTEGER,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE review_history
+  ADD COLUMN IF NOT EXISTS response_time_ms INTEGER CHECK (response_time_ms IS NULL OR response_time_ms >= 0);
+
+ALTER TABLE review_history
+  ADD COLUMN IF NOT EXISTS algorithm VARCHAR(20);
+
+-- Replay reads each user's history in chronological order
+CREATE INDEX IF NOT EXISTS idx_review_history_user_created
+  ON review_history(user_id, created_at);
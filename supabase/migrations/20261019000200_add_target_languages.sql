@@ -0,0 +1,15 @@
+-- ==============================================
+-- ADDITIONAL TARGET LANGUAGES
+-- ==============================================
+-- Extends language_preference with French, Italian and Portuguese and records
+-- which target language each saved description was generated in
+-- Created: 2026-10-19
+-- Purpose: Support description, Q&A and phrase generation beyond Spanish
+
+ALTER TYPE language_preference ADD VALUE IF NOT EXISTS 'fr';
+ALTER TYPE language_preference ADD VALUE IF NOT EXISTS 'it';
+ALTER TYPE language_preference ADD VALUE IF NOT EXISTS 'pt';
+
+-- spanish_description holds the target-language text; existing rows are Spanish
+ALTER TABLE saved_descriptions
+  ADD COLUMN IF NOT EXISTS target_language language_preference DEFAULT 'es';
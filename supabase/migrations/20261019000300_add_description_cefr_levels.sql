@@ -0,0 +1,20 @@
+-- ==============================================
+-- DESCRIPTION CEFR LEVELS
+-- ==============================================
+-- Stores the CEFR level each target-language description was generated for,
+-- the level estimated from the text, and the difficulty analysis behind it
+-- Created: 2026-10-19
+-- Purpose: Check generated descriptions against their CEFR target
+
+ALTER TABLE saved_descriptions
+  ADD COLUMN IF NOT EXISTS cefr_target TEXT
+    CHECK (cefr_target IN ('A1', 'A2', 'B1', 'B2', 'C1', 'C2')),
+  ADD COLUMN IF NOT EXISTS cefr_level TEXT
+    CHECK (cefr_level IN ('A1', 'A2', 'B1', 'B2', 'C1', 'C2')),
+  -- TRUE when the text still missed cefr_target after regeneration
+  ADD COLUMN IF NOT EXISTS cefr_flagged BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS difficulty_analysis JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_saved_descriptions_cefr_flagged
+  ON saved_descriptions(cefr_flagged)
+  WHERE cefr_flagged;
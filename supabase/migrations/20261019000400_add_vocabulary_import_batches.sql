@@ -0,0 +1,174 @@
+-- ==============================================
+-- VOCABULARY IMPORT BATCHES
+-- ==============================================
+-- An import is committed in one transaction and recorded as a batch: the
+-- ids it inserted and the rows it updated as they were before, so the whole
+-- import can be undone at once
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS vocabulary_import_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  vocabulary_list_id UUID REFERENCES vocabulary_lists(id) ON DELETE SET NULL,
+  -- The list was created for this import and is removed again on undo
+  created_list BOOLEAN NOT NULL DEFAULT false,
+  source_format VARCHAR(20) NOT NULL,
+  file_name TEXT,
+  inserted_item_ids UUID[] NOT NULL DEFAULT '{}',
+  previous_items JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  undone_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_vocabulary_import_batches_user_created
+  ON vocabulary_import_batches(user_id, created_at DESC);
+
+ALTER TABLE vocabulary_import_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own import batches" ON vocabulary_import_batches
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Insert and update imported vocabulary in one transaction
+-- p_inserts: array of vocabulary_items columns
+-- p_updates: array of { "id": ..., "changes": { column: value } }
+-- Inserts go to p_list_id, or to a new list named p_list_name
+CREATE OR REPLACE FUNCTION commit_vocabulary_import(
+  p_user_id UUID,
+  p_list_id UUID,
+  p_list_name TEXT,
+  p_source_format TEXT,
+  p_file_name TEXT,
+  p_inserts JSONB,
+  p_updates JSONB
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_list_id UUID := p_list_id;
+  v_created_list BOOLEAN := false;
+  v_inserted UUID[];
+  v_previous JSONB := '[]'::jsonb;
+  v_update JSONB;
+  v_row vocabulary_items;
+  v_new vocabulary_items;
+  v_batch_id UUID;
+BEGIN
+  IF v_list_id IS NULL THEN
+    INSERT INTO vocabulary_lists (name, category, created_by)
+    VALUES (COALESCE(NULLIF(TRIM(p_list_name), ''), 'Imported vocabulary'), 'custom', p_user_id)
+    RETURNING id INTO v_list_id;
+    v_created_list := true;
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM vocabulary_lists WHERE id = v_list_id AND created_by = p_user_id
+  ) THEN
+    RAISE EXCEPTION 'Vocabulary list % not found', v_list_id;
+  END IF;
+
+  FOR v_update IN SELECT * FROM jsonb_array_elements(COALESCE(p_updates, '[]'::jsonb)) LOOP
+    SELECT i.* INTO v_row
+    FROM vocabulary_items i
+    JOIN vocabulary_lists l ON l.id = i.vocabulary_list_id
+    WHERE i.id = (v_update->>'id')::uuid AND l.created_by = p_user_id
+    FOR UPDATE OF i;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Vocabulary item % not found', v_update->>'id';
+    END IF;
+
+    v_previous := v_previous || jsonb_build_array(to_jsonb(v_row));
+    v_new := jsonb_populate_record(v_row, v_update->'changes');
+
+    UPDATE vocabulary_items SET
+      english_translation = v_new.english_translation,
+      part_of_speech = v_new.part_of_speech,
+      difficulty_level = v_new.difficulty_level,
+      category = v_new.category,
+      context_sentence_spanish = v_new.context_sentence_spanish,
+      usage_notes = v_new.usage_notes
+    WHERE id = v_row.id;
+  END LOOP;
+
+  WITH inserted AS (
+    INSERT INTO vocabulary_items (
+      vocabulary_list_id, spanish_text, english_translation, part_of_speech,
+      difficulty_level, category, context_sentence_spanish, usage_notes
+    )
+    SELECT
+      v_list_id, r.spanish_text, r.english_translation, COALESCE(r.part_of_speech, 'other'),
+      COALESCE(r.difficulty_level, 'beginner'), r.category, r.context_sentence_spanish, r.usage_notes
+    FROM jsonb_populate_recordset(NULL::vocabulary_items, COALESCE(p_inserts, '[]'::jsonb)) r
+    RETURNING id
+  )
+  SELECT COALESCE(array_agg(id), '{}') INTO v_inserted FROM inserted;
+
+  INSERT INTO vocabulary_import_batches (
+    user_id, vocabulary_list_id, created_list, source_format, file_name,
+    inserted_item_ids, previous_items
+  )
+  VALUES (
+    p_user_id, v_list_id, v_created_list, p_source_format, p_file_name, v_inserted, v_previous
+  )
+  RETURNING id INTO v_batch_id;
+
+  RETURN jsonb_build_object(
+    'batchId', v_batch_id,
+    'listId', v_list_id,
+    'inserted', COALESCE(array_length(v_inserted, 1), 0),
+    'updated', jsonb_array_length(v_previous)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Remove a batch's inserted items and restore the items it updated
+CREATE OR REPLACE FUNCTION undo_vocabulary_import(p_user_id UUID, p_batch_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_batch vocabulary_import_batches;
+  v_removed INTEGER;
+  v_restored INTEGER;
+BEGIN
+  SELECT * INTO v_batch
+  FROM vocabulary_import_batches
+  WHERE id = p_batch_id AND user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Import % not found', p_batch_id;
+  END IF;
+  IF v_batch.undone_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Import % has already been undone', p_batch_id;
+  END IF;
+
+  DELETE FROM vocabulary_items WHERE id = ANY(v_batch.inserted_item_ids);
+  GET DIAGNOSTICS v_removed = ROW_COUNT;
+
+  UPDATE vocabulary_items i SET
+    english_translation = p.english_translation,
+    part_of_speech = p.part_of_speech,
+    difficulty_level = p.difficulty_level,
+    category = p.category,
+    context_sentence_spanish = p.context_sentence_spanish,
+    usage_notes = p.usage_notes
+  FROM jsonb_populate_recordset(NULL::vocabulary_items, v_batch.previous_items) p
+  WHERE i.id = p.id;
+  GET DIAGNOSTICS v_restored = ROW_COUNT;
+
+  IF v_batch.created_list THEN
+    DELETE FROM vocabulary_lists l
+    WHERE l.id = v_batch.vocabulary_list_id
+      AND NOT EXISTS (SELECT 1 FROM vocabulary_items i WHERE i.vocabulary_list_id = l.id);
+  END IF;
+
+  UPDATE vocabulary_import_batches SET undone_at = NOW() WHERE id = p_batch_id;
+
+  RETURN jsonb_build_object('batchId', p_batch_id, 'removed', v_removed, 'restored', v_restored);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Both functions trust p_user_id and bypass row-level security, so only the
+-- server (service role) may call them
+REVOKE EXECUTE ON FUNCTION commit_vocabulary_import(UUID, UUID, TEXT, TEXT, TEXT, JSONB, JSONB)
+  FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION undo_vocabulary_import(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION commit_vocabulary_import(UUID, UUID, TEXT, TEXT, TEXT, JSONB, JSONB)
+  TO service_role;
+GRANT EXECUTE ON FUNCTION undo_vocabulary_import(UUID, UUID) TO service_role;
@@ -0,0 +1,21 @@
+-- ==============================================
+-- OFFLINE REVIEW SYNC
+-- ==============================================
+-- Reviews recorded offline are uploaded later with a client-generated event
+-- id. The id makes uploads idempotent: a retried batch never records the
+-- same review twice.
+-- Created: 2026-10-19
+
+ALTER TABLE review_history
+  ADD COLUMN IF NOT EXISTS client_event_id TEXT;
+
+ALTER TABLE review_history
+  ADD COLUMN IF NOT EXISTS device_id TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_review_history_client_event
+  ON review_history(user_id, client_event_id)
+  WHERE client_event_id IS NOT NULL;
+
+-- Out-of-order uploads rebuild one item's schedule from its history
+CREATE INDEX IF NOT EXISTS idx_review_history_user_vocabulary_created
+  ON review_history(user_id, vocabulary_id, created_at);
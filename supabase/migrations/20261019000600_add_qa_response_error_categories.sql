@@ -0,0 +1,25 @@
+-- ==============================================
+-- Q&A ANSWER ERROR CATEGORIES
+-- ==============================================
+-- Graded answers name their near misses (agreement, conjugation, accents,
+-- spelling, word order) with a correction for each. The categories are kept
+-- as an array for per-user weak-area stats; the full errors as JSON.
+-- Created: 2026-10-19
+
+ALTER TABLE qa_responses
+  ADD COLUMN IF NOT EXISTS error_categories TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE qa_responses
+  ADD COLUMN IF NOT EXISTS grammar_errors JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE qa_responses
+  DROP CONSTRAINT IF EXISTS valid_error_categories;
+
+ALTER TABLE qa_responses
+  ADD CONSTRAINT valid_error_categories CHECK (
+    error_categories <@ ARRAY['agreement', 'conjugation', 'accents', 'spelling', 'word_order']::TEXT[]
+  );
+
+-- Weak-area stats read a user's most recent responses
+CREATE INDEX IF NOT EXISTS idx_qa_responses_user_created
+  ON qa_responses(user_id, created_at DESC);
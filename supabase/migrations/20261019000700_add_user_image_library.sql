@@ -0,0 +1,49 @@
+-- ==============================================
+-- USER IMAGE LIBRARY
+-- ==============================================
+-- Uploaded photos are stored (resized, metadata stripped) in a pluggable
+-- storage backend and recorded in images with their owner, so users can
+-- revisit them and regenerate descriptions. Unsplash rows keep user_id NULL.
+-- Created: 2026-10-19
+
+ALTER TABLE images
+  ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES users(id) ON DELETE CASCADE;
+
+ALTER TABLE images
+  ADD COLUMN IF NOT EXISTS source VARCHAR(20) NOT NULL DEFAULT 'unsplash';
+
+ALTER TABLE images
+  ADD COLUMN IF NOT EXISTS storage_backend VARCHAR(20);
+
+ALTER TABLE images
+  ADD COLUMN IF NOT EXISTS storage_key TEXT;
+
+ALTER TABLE images
+  ADD COLUMN IF NOT EXISTS thumbnail_storage_key TEXT;
+
+ALTER TABLE images
+  ADD COLUMN IF NOT EXISTS mime_type VARCHAR(50);
+
+ALTER TABLE images
+  ADD COLUMN IF NOT EXISTS file_size_bytes INTEGER;
+
+ALTER TABLE images
+  DROP CONSTRAINT IF EXISTS valid_image_source;
+
+ALTER TABLE images
+  ADD CONSTRAINT valid_image_source CHECK (
+    source IN ('unsplash', 'upload') AND
+    (source <> 'upload' OR (user_id IS NOT NULL AND storage_backend IN ('local', 's3') AND storage_key IS NOT NULL))
+  );
+
+-- A user's library, newest first
+CREATE INDEX IF NOT EXISTS idx_images_user_created
+  ON images(user_id, created_at DESC) WHERE user_id IS NOT NULL;
+
+-- Uploaded photos are private to their owner
+DROP POLICY IF EXISTS "Images are publicly readable" ON images;
+CREATE POLICY "Images are publicly readable" ON images
+    FOR SELECT USING (user_id IS NULL OR auth.uid() = user_id);
+
+CREATE POLICY "Users can manage own uploaded images" ON images
+    FOR ALL USING (auth.uid() = user_id);
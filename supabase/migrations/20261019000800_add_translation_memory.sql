@@ -0,0 +1,125 @@
+-- ==============================================
+-- TRANSLATION MEMORY AND GLOSSARY
+-- ==============================================
+-- Translations are remembered per user, optionally per vocabulary list, and
+-- looked up exactly or by trigram similarity before calling the LLM. Glossary
+-- terms force a user's preferred translation of a term (e.g. a regional
+-- variant) before and after LLM calls.
+-- Created: 2026-10-19
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE TABLE IF NOT EXISTS translation_memory (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  -- NULL: applies to all of the user's lists
+  list_id UUID REFERENCES vocabulary_lists(id) ON DELETE CASCADE,
+  from_language VARCHAR(10) NOT NULL,
+  to_language VARCHAR(10) NOT NULL,
+  source_text TEXT NOT NULL,
+  -- Lowercased, whitespace-collapsed, without trailing punctuation
+  source_normalized TEXT NOT NULL,
+  target_text TEXT NOT NULL,
+  origin VARCHAR(20) NOT NULL DEFAULT 'llm',
+  last_used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT valid_translation_memory_origin CHECK (origin IN ('llm', 'user')),
+  CONSTRAINT valid_translation_memory_length CHECK (char_length(source_text) <= 5000)
+);
+
+-- One entry per segment and scope; NULL list ids count as equal
+CREATE UNIQUE INDEX IF NOT EXISTS idx_translation_memory_segment
+  ON translation_memory(user_id, list_id, from_language, to_language, source_normalized)
+  NULLS NOT DISTINCT;
+
+CREATE INDEX IF NOT EXISTS idx_translation_memory_trgm
+  ON translation_memory USING gin (source_normalized gin_trgm_ops);
+
+CREATE TABLE IF NOT EXISTS glossary_terms (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  list_id UUID REFERENCES vocabulary_lists(id) ON DELETE CASCADE,
+  from_language VARCHAR(10) NOT NULL,
+  to_language VARCHAR(10) NOT NULL,
+  source_term TEXT NOT NULL,
+  target_term TEXT NOT NULL,
+  -- Translations to replace with target_term when the LLM produces them
+  alternatives TEXT[] NOT NULL DEFAULT '{}',
+  -- Regional variant the term belongs to, e.g. 'es-MX'; NULL for all regions
+  region VARCHAR(10),
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT valid_glossary_term_length CHECK (
+    char_length(source_term) BETWEEN 1 AND 200 AND char_length(target_term) BETWEEN 1 AND 200
+  )
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_glossary_terms_term
+  ON glossary_terms(user_id, list_id, from_language, to_language, lower(source_term), region)
+  NULLS NOT DISTINCT;
+
+CREATE TRIGGER update_translation_memory_updated_at BEFORE UPDATE ON translation_memory
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_glossary_terms_updated_at BEFORE UPDATE ON glossary_terms
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE translation_memory ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can manage own translation memory" ON translation_memory
+  FOR ALL USING (auth.uid() = user_id);
+
+ALTER TABLE glossary_terms ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can manage own glossary" ON glossary_terms
+  FOR ALL USING (auth.uid() = user_id);
+
+-- Best memory matches for a normalized segment: entries for the list come
+-- before the user's list-independent entries, then by similarity
+CREATE OR REPLACE FUNCTION match_translation_memory(
+  p_user_id UUID,
+  p_list_id UUID,
+  p_from_language TEXT,
+  p_to_language TEXT,
+  p_text TEXT,
+  p_threshold REAL DEFAULT 0.75,
+  p_limit INTEGER DEFAULT 3
+)
+RETURNS TABLE (
+  id UUID,
+  list_id UUID,
+  source_text TEXT,
+  target_text TEXT,
+  origin VARCHAR,
+  similarity REAL
+) AS $$
+  SELECT
+    m.id,
+    m.list_id,
+    m.source_text,
+    m.target_text,
+    m.origin,
+    CASE WHEN m.source_normalized = p_text THEN 1.0 ELSE similarity(m.source_normalized, p_text) END::REAL
+  FROM translation_memory m
+  WHERE m.user_id = p_user_id
+    AND (m.list_id IS NULL OR m.list_id = p_list_id)
+    AND m.from_language = p_from_language
+    AND m.to_language = p_to_language
+    AND (m.source_normalized = p_text OR similarity(m.source_normalized, p_text) >= p_threshold)
+  ORDER BY
+    (m.source_normalized = p_text) DESC,
+    (m.list_id IS NOT DISTINCT FROM p_list_id) DESC,
+    similarity(m.source_normalized, p_text) DESC,
+    -- User corrections win over machine translations of the same segment
+    (m.origin = 'user') DESC,
+    m.last_used_at DESC NULLS LAST
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Trusts p_user_id and bypasses row-level security: server (service role) only
+REVOKE EXECUTE ON FUNCTION match_translation_memory(UUID, UUID, TEXT, TEXT, TEXT, REAL, INTEGER)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION match_translation_memory(UUID, UUID, TEXT, TEXT, TEXT, REAL, INTEGER)
+  TO service_role;
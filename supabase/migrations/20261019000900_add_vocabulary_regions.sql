@@ -0,0 +1,21 @@
+-- ==============================================
+-- REGIONAL SPANISH VARIANTS
+-- ==============================================
+-- Vocabulary items record the regional variants a word is usual in (e.g.
+-- carro: es-MX, es-CO), so regional words can be flagged for learners who
+-- aim for another variant. NULL or empty: not regional.
+-- Created: 2026-10-19
+
+ALTER TABLE vocabulary_items
+  ADD COLUMN IF NOT EXISTS regions TEXT[];
+
+ALTER TABLE vocabulary_items
+  DROP CONSTRAINT IF EXISTS valid_vocabulary_regions;
+
+ALTER TABLE vocabulary_items
+  ADD CONSTRAINT valid_vocabulary_regions CHECK (
+    regions IS NULL OR regions <@ ARRAY['es-ES', 'es-MX', 'es-AR', 'es-CO']::TEXT[]
+  );
+
+CREATE INDEX IF NOT EXISTS idx_vocabulary_items_regions
+  ON vocabulary_items USING gin (regions);
@@ -0,0 +1,185 @@
+-- ==============================================
+-- ACHIEVEMENT ENGINE
+-- ==============================================
+-- Achievements are rules evaluated against each user's progress events.
+-- Built-in rules ship with the app; rows in achievement_definitions add
+-- rules or replace built-in ones with the same id, so admins can change
+-- achievements without a deploy. Events carry a client event id that makes
+-- replays idempotent, and an achievement is unlocked at most once per user.
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS achievement_definitions (
+  id VARCHAR(64) PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  description TEXT NOT NULL,
+  category VARCHAR(20) NOT NULL,
+  rarity VARCHAR(20) NOT NULL DEFAULT 'common',
+  icon VARCHAR(16),
+  event_types TEXT[] NOT NULL,
+  -- [{ "field": "accuracy", "op": "gte", "value": 0.9 }]
+  conditions JSONB NOT NULL DEFAULT '[]',
+  aggregation VARCHAR(20) NOT NULL,
+  -- Event data field for sum, max and distinct
+  field VARCHAR(50),
+  threshold NUMERIC NOT NULL,
+  -- NULL: all time
+  window_days INTEGER,
+  experience_points INTEGER NOT NULL DEFAULT 0,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT valid_achievement_id CHECK (id ~ '^[a-z0-9_]+$'),
+  CONSTRAINT valid_achievement_category CHECK (
+    category IN ('streak', 'accuracy', 'vocabulary', 'exploration', 'milestone')
+  ),
+  CONSTRAINT valid_achievement_rarity CHECK (rarity IN ('common', 'rare', 'epic', 'legendary')),
+  CONSTRAINT valid_achievement_aggregation CHECK (
+    aggregation IN ('count', 'sum', 'max', 'distinct', 'streak')
+  ),
+  CONSTRAINT valid_achievement_field CHECK (
+    aggregation NOT IN ('sum', 'max', 'distinct') OR field IS NOT NULL
+  ),
+  CONSTRAINT valid_achievement_threshold CHECK (threshold > 0),
+  CONSTRAINT valid_achievement_window CHECK (window_days IS NULL OR window_days BETWEEN 1 AND 366)
+);
+
+CREATE TABLE IF NOT EXISTS achievement_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  event_id TEXT NOT NULL,
+  event_type VARCHAR(50) NOT NULL,
+  data JSONB NOT NULL DEFAULT '{}',
+  occurred_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- A replayed event is recorded once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_achievement_events_event
+  ON achievement_events(user_id, event_id);
+
+CREATE INDEX IF NOT EXISTS idx_achievement_events_user_type_time
+  ON achievement_events(user_id, event_type, occurred_at);
+
+CREATE TABLE IF NOT EXISTS user_achievements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  -- Built-in rules have no definition row, so no foreign key
+  achievement_id VARCHAR(64) NOT NULL,
+  progress NUMERIC NOT NULL DEFAULT 0,
+  target NUMERIC NOT NULL,
+  -- Set once, by the first evaluation that reaches the target
+  unlocked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT unique_user_achievement UNIQUE (user_id, achievement_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_achievements_unlocked
+  ON user_achievements(user_id, unlocked_at DESC)
+  WHERE unlocked_at IS NOT NULL;
+
+CREATE TRIGGER update_achievement_definitions_updated_at BEFORE UPDATE ON achievement_definitions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_user_achievements_updated_at BEFORE UPDATE ON user_achievements
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Definitions are public; only the service role (admin API) writes them
+ALTER TABLE achievement_definitions ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Anyone can read achievement definitions" ON achievement_definitions
+  FOR SELECT USING (true);
+
+ALTER TABLE achievement_events ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view own achievement events" ON achievement_events
+  FOR SELECT USING (auth.uid() = user_id);
+
+ALTER TABLE user_achievements ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view own achievements" ON user_achievements
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Rules are evaluated where the events are, so an evaluation reads one
+-- aggregate per rule instead of the user's whole event log.
+-- p_conditions: [{ "field": "accuracy", "op": "gte", "value": 0.9 }]
+CREATE OR REPLACE FUNCTION achievement_event_matches(p_data JSONB, p_conditions JSONB)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(bool_and(COALESCE(
+    CASE c->>'op'
+      WHEN 'eq' THEN p_data->(c->>'field') = c->'value'
+      WHEN 'neq' THEN p_data->(c->>'field') IS DISTINCT FROM c->'value'
+      WHEN 'gte' THEN jsonb_typeof(p_data->(c->>'field')) = 'number'
+        AND jsonb_typeof(c->'value') = 'number'
+        AND (p_data->>(c->>'field'))::NUMERIC >= (c->>'value')::NUMERIC
+      WHEN 'lte' THEN jsonb_typeof(p_data->(c->>'field')) = 'number'
+        AND jsonb_typeof(c->'value') = 'number'
+        AND (p_data->>(c->>'field'))::NUMERIC <= (c->>'value')::NUMERIC
+    END, FALSE)), TRUE)
+  FROM jsonb_array_elements(p_conditions) c;
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+-- p_rules: [{ "id", "eventTypes", "conditions", "aggregation", "field", "since" }],
+-- since being the start of the rule's window or null for all time.
+-- Returns { "<rule id>": <aggregate> }, matching aggregateRule in the app.
+CREATE OR REPLACE FUNCTION achievement_rule_values(p_user_id UUID, p_rules JSONB, p_now TIMESTAMPTZ)
+RETURNS JSONB AS $$
+DECLARE
+  v_rule JSONB;
+  v_field TEXT;
+  v_value NUMERIC;
+  v_today DATE := (p_now AT TIME ZONE 'UTC')::DATE;
+  v_values JSONB := '{}';
+BEGIN
+  FOR v_rule IN SELECT * FROM jsonb_array_elements(p_rules) LOOP
+    v_field := v_rule->>'field';
+
+    WITH counted AS (
+      SELECT e.data, e.occurred_at
+      FROM achievement_events e
+      WHERE e.user_id = p_user_id
+        AND (v_rule->'eventTypes' ? '*' OR v_rule->'eventTypes' ? e.event_type)
+        AND e.occurred_at <= p_now
+        AND (v_rule->>'since' IS NULL OR e.occurred_at >= (v_rule->>'since')::TIMESTAMPTZ)
+        AND achievement_event_matches(e.data, v_rule->'conditions')
+    ),
+    -- Consecutive UTC days with an event form a run; a streak is the run
+    -- that reaches today or yesterday
+    runs AS (
+      SELECT COUNT(*) AS days, MAX(day) AS last_day
+      FROM (
+        SELECT day, day - (ROW_NUMBER() OVER (ORDER BY day))::INTEGER AS run_start
+        FROM (SELECT DISTINCT (occurred_at AT TIME ZONE 'UTC')::DATE AS day FROM counted) d
+      ) numbered
+      GROUP BY run_start
+    )
+    SELECT CASE v_rule->>'aggregation'
+      WHEN 'count' THEN (SELECT COUNT(*) FROM counted)
+      WHEN 'sum' THEN (
+        SELECT COALESCE(SUM((data->>v_field)::NUMERIC), 0)
+        FROM counted WHERE jsonb_typeof(data->v_field) = 'number'
+      )
+      WHEN 'max' THEN (
+        SELECT GREATEST(COALESCE(MAX((data->>v_field)::NUMERIC), 0), 0)
+        FROM counted WHERE jsonb_typeof(data->v_field) = 'number'
+      )
+      WHEN 'distinct' THEN (
+        SELECT COUNT(DISTINCT data->>v_field)
+        FROM counted WHERE COALESCE(data->>v_field, '') <> ''
+      )
+      WHEN 'streak' THEN (
+        SELECT COALESCE(MAX(days), 0) FROM runs WHERE last_day >= v_today - 1
+      )
+    END
+    INTO v_value;
+
+    v_values := v_values || jsonb_build_object(v_rule->>'id', COALESCE(v_value, 0));
+  END LOOP;
+
+  RETURN v_values;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+-- p_user_id is trusted as given, so only the server (service role) may call it
+REVOKE EXECUTE ON FUNCTION achievement_rule_values(UUID, JSONB, TIMESTAMPTZ)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION achievement_rule_values(UUID, JSONB, TIMESTAMPTZ) TO service_role;
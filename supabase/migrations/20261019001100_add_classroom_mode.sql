@@ -0,0 +1,176 @@
+-- ==============================================
+-- CLASSROOM MODE
+-- ==============================================
+-- Teacher accounts create classes that students join with a join code.
+-- Teachers assign image sets or vocabulary lists with due dates; each
+-- assignment keeps a copy of its items so students never need access to
+-- the teacher's own lists. Students record a score per item, from which
+-- teachers see each student's completion and accuracy.
+-- Created: 2026-10-19
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS account_role VARCHAR(20) NOT NULL DEFAULT 'learner';
+
+ALTER TABLE users
+  DROP CONSTRAINT IF EXISTS valid_account_role;
+
+ALTER TABLE users
+  ADD CONSTRAINT valid_account_role CHECK (account_role IN ('learner', 'teacher'));
+
+-- "Users can update own profile" covers every column, so account roles are
+-- guarded here: only the server (service role) can grant or remove them
+CREATE OR REPLACE FUNCTION protect_account_role()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') AND (
+    (TG_OP = 'INSERT' AND NEW.account_role <> 'learner') OR
+    (TG_OP = 'UPDATE' AND NEW.account_role IS DISTINCT FROM OLD.account_role)
+  ) THEN
+    RAISE EXCEPTION 'account_role can only be changed by an administrator'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_users_account_role ON users;
+CREATE TRIGGER protect_users_account_role BEFORE INSERT OR UPDATE ON users
+  FOR EACH ROW EXECUTE FUNCTION protect_account_role();
+
+CREATE TABLE IF NOT EXISTS classes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  teacher_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  description TEXT,
+  -- Unambiguous uppercase letters and digits, see generateJoinCode
+  join_code VARCHAR(12) NOT NULL UNIQUE,
+  archived_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT valid_class_name CHECK (LENGTH(TRIM(name)) > 0),
+  CONSTRAINT valid_join_code CHECK (join_code ~ '^[A-Z0-9]{6,12}$')
+);
+
+CREATE INDEX IF NOT EXISTS idx_classes_teacher ON classes(teacher_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS class_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  class_id UUID NOT NULL REFERENCES classes(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  joined_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT unique_class_member UNIQUE (class_id, student_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_class_members_student ON class_members(student_id);
+
+CREATE TABLE IF NOT EXISTS class_assignments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  class_id UUID NOT NULL REFERENCES classes(id) ON DELETE CASCADE,
+  title VARCHAR(200) NOT NULL,
+  instructions TEXT,
+  assignment_type VARCHAR(20) NOT NULL,
+  -- The list the items were copied from, for vocabulary list assignments
+  vocabulary_list_id UUID REFERENCES vocabulary_lists(id) ON DELETE SET NULL,
+  -- image_set: [{ "id", "imageUrl", "description" }]
+  -- vocabulary_list: [{ "id", "text", "translation" }]
+  items JSONB NOT NULL,
+  due_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT valid_assignment_type CHECK (assignment_type IN ('image_set', 'vocabulary_list')),
+  CONSTRAINT valid_assignment_items CHECK (
+    jsonb_typeof(items) = 'array' AND jsonb_array_length(items) BETWEEN 1 AND 200
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_class_assignments_class_due
+  ON class_assignments(class_id, due_at);
+
+CREATE TABLE IF NOT EXISTS assignment_results (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  assignment_id UUID NOT NULL REFERENCES class_assignments(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  item_id TEXT NOT NULL,
+  -- 0-1: first-try match for vocabulary, description coverage for images
+  score NUMERIC(4, 3) NOT NULL,
+  completed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT valid_assignment_score CHECK (score BETWEEN 0 AND 1),
+  -- A retried item replaces the earlier attempt
+  CONSTRAINT unique_assignment_result UNIQUE (assignment_id, student_id, item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_assignment_results_student
+  ON assignment_results(student_id, completed_at DESC);
+
+CREATE TRIGGER update_classes_updated_at BEFORE UPDATE ON classes
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_class_assignments_updated_at BEFORE UPDATE ON class_assignments
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Membership checks for the policies below. SECURITY DEFINER so policies on
+-- classes and class_members can use them without recursing into each other.
+CREATE OR REPLACE FUNCTION is_class_teacher(p_class_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM classes WHERE id = p_class_id AND teacher_id = auth.uid()
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION is_class_member(p_class_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM class_members WHERE class_id = p_class_id AND student_id = auth.uid()
+  );
+$$;
+
+ALTER TABLE classes ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Teachers can manage own classes" ON classes
+  FOR ALL USING (auth.uid() = teacher_id)
+  WITH CHECK (
+    auth.uid() = teacher_id AND EXISTS (
+      SELECT 1 FROM users u WHERE u.id = auth.uid() AND u.account_role = 'teacher'
+    )
+  );
+CREATE POLICY "Students can view joined classes" ON classes
+  FOR SELECT USING (is_class_member(id));
+
+-- Students join through the API, which checks the join code
+ALTER TABLE class_members ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Teachers can view class members" ON class_members
+  FOR SELECT USING (is_class_teacher(class_id));
+CREATE POLICY "Teachers can remove class members" ON class_members
+  FOR DELETE USING (is_class_teacher(class_id));
+CREATE POLICY "Students can view own memberships" ON class_members
+  FOR SELECT USING (auth.uid() = student_id);
+CREATE POLICY "Students can leave classes" ON class_members
+  FOR DELETE USING (auth.uid() = student_id);
+
+-- Image set items hold the teacher's model descriptions, which students
+-- must not see before writing their own; they read assignments through the
+-- API, which leaves the descriptions out
+ALTER TABLE class_assignments ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Teachers can manage class assignments" ON class_assignments
+  FOR ALL USING (is_class_teacher(class_id));
+
+-- Students record results through the API, which checks the item ids
+ALTER TABLE assignment_results ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Students can view own assignment results" ON assignment_results
+  FOR SELECT USING (auth.uid() = student_id);
+CREATE POLICY "Teachers can view class assignment results" ON assignment_results
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM class_assignments a
+      WHERE a.id = assignment_id AND is_class_teacher(a.class_id)
+    )
+  );
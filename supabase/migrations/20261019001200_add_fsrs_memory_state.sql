@@ -0,0 +1,45 @@
+-- ==============================================
+-- FSRS MEMORY STATE
+-- ==============================================
+-- FSRS stability and difficulty are stored as computed. Rebuilding them
+-- from interval and ease_factor loses precision, and interval only equals
+-- stability at 90% requested retention, so the rebuilt state drifted with
+-- every review. NULL means the item has no FSRS state yet (never reviewed,
+-- or last scheduled by SM-2 or Leitner).
+-- Created: 2026-10-19
+
+-- Per-learner review schedule for each vocabulary item. Environments set up
+-- before review scheduling moved to the server may not have it yet.
+CREATE TABLE IF NOT EXISTS user_vocabulary (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  vocabulary_item_id UUID NOT NULL REFERENCES vocabulary_items(id) ON DELETE CASCADE,
+  ease_factor DECIMAL(4,2) NOT NULL DEFAULT 2.5,
+  interval INTEGER NOT NULL DEFAULT 0,
+  repetitions INTEGER NOT NULL DEFAULT 0,
+  last_review_date TIMESTAMPTZ,
+  next_review_date TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(user_id, vocabulary_item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_vocabulary_user_next_review
+  ON user_vocabulary(user_id, next_review_date);
+
+ALTER TABLE user_vocabulary ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own review schedule" ON user_vocabulary;
+CREATE POLICY "Users can view own review schedule" ON user_vocabulary
+  FOR SELECT USING (auth.uid() = user_id);
+
+ALTER TABLE user_vocabulary
+  ADD COLUMN IF NOT EXISTS fsrs_stability DOUBLE PRECISION
+    CHECK (fsrs_stability IS NULL OR fsrs_stability > 0);
+
+ALTER TABLE user_vocabulary
+  ADD COLUMN IF NOT EXISTS fsrs_difficulty DOUBLE PRECISION
+    CHECK (fsrs_difficulty IS NULL OR fsrs_difficulty BETWEEN 1 AND 10);
+
+COMMENT ON COLUMN user_vocabulary.fsrs_stability IS 'FSRS memory stability in days, as last computed';
+COMMENT ON COLUMN user_vocabulary.fsrs_difficulty IS 'FSRS difficulty (1-10), as last computed';
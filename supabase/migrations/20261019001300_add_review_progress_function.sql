@@ -0,0 +1,102 @@
+-- ==============================================
+-- REVIEW PROGRESS
+-- ==============================================
+-- Synced reviews credit points and review counts to the day each review
+-- happened and update the learner's streak. Doing this in one function
+-- call keeps concurrent uploads from losing increments to a
+-- read-then-write race, and lets reviews uploaded days late fill the gaps
+-- in a streak.
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS daily_progress (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  points INTEGER NOT NULL DEFAULT 0,
+  reviews INTEGER NOT NULL DEFAULT 0,
+  words_learned INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_daily_progress_user_date ON daily_progress(user_id, date);
+
+-- p_days: [{ "date": "YYYY-MM-DD", "points": 10, "reviews": 1 }, ...]
+CREATE OR REPLACE FUNCTION record_review_progress(p_user_id UUID, p_days JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_day RECORD;
+  v_points INTEGER := 0;
+  v_reviews INTEGER := 0;
+  v_current INTEGER := 0;
+  v_longest INTEGER := 0;
+BEGIN
+  -- Uploads for the same learner run one at a time; other learners are unaffected
+  PERFORM pg_advisory_xact_lock(hashtext('record_review_progress:' || p_user_id::TEXT));
+
+  FOR v_day IN
+    SELECT d.date, d.points, d.reviews
+    FROM jsonb_to_recordset(p_days) AS d(date DATE, points INTEGER, reviews INTEGER)
+  LOOP
+    UPDATE daily_progress
+    SET points = points + v_day.points, reviews = reviews + v_day.reviews
+    WHERE user_id = p_user_id AND date = v_day.date;
+
+    IF NOT FOUND THEN
+      INSERT INTO daily_progress (user_id, date, points, reviews, words_learned)
+      VALUES (p_user_id, v_day.date, v_day.points, v_day.reviews, 0);
+    END IF;
+
+    v_points := v_points + v_day.points;
+    v_reviews := v_reviews + v_day.reviews;
+  END LOOP;
+
+  IF v_reviews = 0 THEN
+    RETURN jsonb_build_object('pointsEarned', 0);
+  END IF;
+
+  -- Consecutive review days form a run; the current streak is the run that
+  -- reaches today or yesterday
+  SELECT
+    COALESCE(MAX(run.days) FILTER (WHERE run.last_day >= CURRENT_DATE - 1), 0),
+    COALESCE(MAX(run.days), 0)
+  INTO v_current, v_longest
+  FROM (
+    SELECT COUNT(*)::INTEGER AS days, MAX(day.date) AS last_day
+    FROM (
+      SELECT date, date - (ROW_NUMBER() OVER (ORDER BY date))::INTEGER AS run_start
+      FROM daily_progress
+      WHERE user_id = p_user_id AND reviews > 0
+      GROUP BY date
+    ) day
+    GROUP BY day.run_start
+  ) run;
+
+  UPDATE user_progress
+  SET
+    total_points = total_points + v_points,
+    total_reviews = total_reviews + v_reviews,
+    current_streak = v_current
+  WHERE user_id = p_user_id;
+
+  IF NOT FOUND THEN
+    INSERT INTO user_progress (user_id, total_points, total_reviews, current_streak)
+    VALUES (p_user_id, v_points, v_reviews, v_current);
+  END IF;
+
+  UPDATE users
+  SET
+    current_streak = v_current,
+    longest_streak = GREATEST(COALESCE(longest_streak, 0), v_longest)
+  WHERE id = p_user_id;
+
+  RETURN jsonb_build_object(
+    'pointsEarned', v_points,
+    'currentStreak', v_current,
+    'longestStreak', v_longest
+  );
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- p_user_id is trusted as given, so only the server (service role) may call it
+REVOKE EXECUTE ON FUNCTION record_review_progress(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_review_progress(UUID, JSONB) TO service_role;
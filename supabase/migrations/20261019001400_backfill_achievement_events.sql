@@ -0,0 +1,56 @@
+-- ==============================================
+-- ACHIEVEMENT EVENT BACKFILL
+-- ==============================================
+-- Achievements are evaluated from achievement_events, which started empty.
+-- Learners active before the engine would otherwise lose the badges their
+-- sessions, reviews and learned words already earned. Each source row
+-- becomes the event the app records for it today; the event ids make
+-- rerunning this a no-op.
+-- Created: 2026-10-19
+
+-- Finished sessions
+INSERT INTO achievement_events (user_id, event_id, event_type, data, occurred_at)
+SELECT
+  s.user_id,
+  'session_completed:' || s.id,
+  'session_completed',
+  jsonb_build_object(
+    'sessionType', s.session_type::TEXT,
+    'questionsAnswered', COALESCE(s.qa_attempts, 0),
+    'correctAnswers', COALESCE(s.qa_correct, 0),
+    'accuracy', CASE
+      WHEN COALESCE(s.qa_attempts, 0) > 0 THEN s.qa_correct::NUMERIC / s.qa_attempts
+      ELSE 0
+    END,
+    'durationSeconds', COALESCE(s.duration_minutes, 0) * 60
+  ),
+  s.ended_at
+FROM sessions s
+WHERE s.user_id IS NOT NULL AND s.ended_at IS NOT NULL
+ON CONFLICT (user_id, event_id) DO NOTHING;
+
+-- Words past the 'new' phase
+INSERT INTO achievement_events (user_id, event_id, event_type, data, occurred_at)
+SELECT
+  lp.user_id,
+  'vocabulary_learned:' || lp.vocabulary_item_id,
+  'vocabulary_learned',
+  jsonb_build_object('vocabularyId', lp.vocabulary_item_id),
+  COALESCE(lp.first_learned, lp.created_at, NOW())
+FROM learning_progress lp
+WHERE lp.learning_phase <> 'new'
+ON CONFLICT (user_id, event_id) DO NOTHING;
+
+-- Days with reviews, so existing streaks carry over
+INSERT INTO achievement_events (user_id, event_id, event_type, data, occurred_at)
+SELECT
+  dp.user_id,
+  'vocabulary_reviewed:' || dp.date,
+  'vocabulary_reviewed',
+  jsonb_build_object('reviews', SUM(dp.reviews), 'points', SUM(dp.points)),
+  -- Midday UTC keeps the day the same in the streak calculation
+  (dp.date + TIME '12:00') AT TIME ZONE 'UTC'
+FROM daily_progress dp
+WHERE dp.reviews > 0
+GROUP BY dp.user_id, dp.date
+ON CONFLICT (user_id, event_id) DO NOTHING;
@@ -0,0 +1,82 @@
+/**
+ * Tests for /api/achievements/events endpoint
+ * Clients name what happened; the server decides when it happened
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { createMockRequest } from '../test-utils'
+
+const state = vi.hoisted(() => ({
+  userId: 'user-1' as string | null,
+  recordEvent: vi.fn(),
+}))
+
+vi.mock('@/lib/middleware/withAuth', () => ({
+  withBasicAuth: (handler: any) => (request: any, context?: any) => {
+    request.user = state.userId ? { id: state.userId } : undefined
+    return handler(request, context)
+  },
+}))
+
+vi.mock('@/lib/services/achievementService', () => ({
+  getAchievementService: async () => ({ recordEvent: state.recordEvent }),
+}))
+
+import { POST } from '@/app/api/achievements/events/route'
+
+const eventRequest = (body: unknown) =>
+  createMockRequest('/api/achievements/events', { method: 'POST', body })
+
+describe('/api/achievements/events', () => {
+  beforeEach(() => {
+    state.userId = 'user-1'
+    state.recordEvent.mockReset().mockResolvedValue([])
+  })
+
+  it('should require an authenticated user', async () => {
+    state.userId = null
+
+    const response = await POST(eventRequest({ type: 'session_completed' }))
+
+    expect(response.status).toBe(401)
+    expect(state.recordEvent).not.toHaveBeenCalled()
+  })
+
+  it('should record known events at the server time', async () => {
+    const before = Date.now()
+
+    const response = await POST(
+      eventRequest({
+        eventId: 'session_completed:s1',
+        type: 'session_completed',
+        data: { questionsAnswered: 5 },
+      })
+    )
+
+    expect(response.status).toBe(200)
+    const [userId, event] = state.recordEvent.mock.calls[0]
+    expect(userId).toBe('user-1')
+    expect(event).toMatchObject({
+      eventId: 'session_completed:s1',
+      type: 'session_completed',
+      data: { questionsAnswered: 5 },
+    })
+    expect(Date.parse(event.occurredAt)).toBeGreaterThanOrEqual(before)
+  })
+
+  it('should reject unknown event types', async () => {
+    const response = await POST(eventRequest({ type: 'badge_granted' }))
+
+    expect(response.status).toBe(400)
+    expect(state.recordEvent).not.toHaveBeenCalled()
+  })
+
+  it('should reject client-supplied event times', async () => {
+    const response = await POST(
+      eventRequest({ type: 'session_completed', occurredAt: '2020-01-01T00:00:00Z' })
+    )
+
+    expect(response.status).toBe(400)
+    expect(state.recordEvent).not.toHaveBeenCalled()
+  })
+})
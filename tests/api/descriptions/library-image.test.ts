@@ -0,0 +1,105 @@
+/**
+ * Tests for describing library images through /api/descriptions/generate
+ * Library images are private, so the route reads them from storage for their
+ * owner instead of fetching the auth-gated file URL
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { createMockRequest } from '../test-utils'
+
+const generateClaudeVisionDescription = vi.hoisted(() => vi.fn())
+const libraryImageAsDataUri = vi.hoisted(() => vi.fn())
+const saveGeneratedDescriptions = vi.hoisted(() => vi.fn())
+const auth = vi.hoisted(() => ({ userId: 'user-1' as string | null }))
+
+vi.mock('@/lib/middleware/withAuth', () => ({
+  withOptionalAuth: (handler: any) => (request: any, context?: any) => {
+    request.user = auth.userId ? { id: auth.userId } : undefined
+    return handler(request, context)
+  },
+}))
+
+vi.mock('@/lib/api/claude-server', () => ({
+  generateClaudeVisionDescription,
+}))
+
+vi.mock('@/app/api/descriptions/generate/shared', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/app/api/descriptions/generate/shared')>()),
+  libraryImageAsDataUri,
+  saveGeneratedDescriptions,
+}))
+
+import { POST } from '@/app/api/descriptions/generate/route'
+
+const imageId = '5b1f6a52-3c1e-4a8e-9f6b-2d7c1e0a4b13'
+const dataUri = 'data:image/jpeg;base64,/9j/4AAQSkZJRg=='
+
+const generateRequest = (body: unknown) =>
+  createMockRequest('/api/descriptions/generate', { method: 'POST', body })
+
+describe('/api/descriptions/generate with a library image', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    auth.userId = 'user-1'
+    process.env.ANTHROPIC_API_KEY = 'sk-ant-test-key'
+    generateClaudeVisionDescription.mockImplementation(async (request: any) =>
+      request.cefrTarget
+        ? {
+            text: 'Una playa tranquila',
+            cefrTarget: request.cefrTarget,
+            analysis: { estimatedLevel: request.cefrTarget },
+            meetsTarget: true,
+            attempts: 1,
+          }
+        : 'A quiet beach'
+    )
+  })
+
+  it('should describe the image read from storage for its owner', async () => {
+    libraryImageAsDataUri.mockResolvedValue(dataUri)
+
+    const response = await POST(generateRequest({ libraryImageId: imageId, style: 'narrativo' }))
+
+    expect(response.status).toBe(200)
+    expect(libraryImageAsDataUri).toHaveBeenCalledWith('user-1', imageId)
+    expect(generateClaudeVisionDescription).toHaveBeenCalledWith(
+      expect.objectContaining({ imageUrl: dataUri }),
+      expect.anything()
+    )
+    expect(saveGeneratedDescriptions).toHaveBeenCalledWith(
+      expect.any(Array),
+      expect.objectContaining({ imageUrl: `/api/images/library/${imageId}/file` })
+    )
+  })
+
+  it('should return 404 for an image the learner does not own', async () => {
+    libraryImageAsDataUri.mockResolvedValue(null)
+
+    const response = await POST(generateRequest({ libraryImageId: imageId, style: 'narrativo' }))
+
+    expect(response.status).toBe(404)
+    expect(generateClaudeVisionDescription).not.toHaveBeenCalled()
+  })
+
+  it('should require a signed-in learner', async () => {
+    auth.userId = null
+
+    const response = await POST(generateRequest({ libraryImageId: imageId, style: 'narrativo' }))
+
+    expect(response.status).toBe(401)
+    expect(libraryImageAsDataUri).not.toHaveBeenCalled()
+  })
+
+  it('should reject requests with both an image URL and a library image', async () => {
+    const response = await POST(
+      generateRequest({
+        libraryImageId: imageId,
+        imageUrl: 'https://images.unsplash.com/photo-1.jpg',
+        style: 'narrativo',
+      })
+    )
+
+    expect(response.status).toBe(400)
+    expect(libraryImageAsDataUri).not.toHaveBeenCalled()
+  })
+})
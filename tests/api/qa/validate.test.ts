@@ -0,0 +1,77 @@
+/**
+ * Tests for /api/qa/validate
+ * Answers are graded by QAService for the authenticated learner, so the
+ * response is recorded for their weak-area stats
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { createMockRequest } from '../test-utils'
+
+const validateAnswer = vi.hoisted(() => vi.fn())
+const auth = vi.hoisted(() => ({ userId: 'user-1' as string | null }))
+
+vi.mock('@/lib/middleware/withAuth', () => ({
+  withBasicAuth: (handler: any) => (request: any, context?: any) => {
+    request.user = auth.userId ? { id: auth.userId } : undefined
+    return handler(request, context)
+  },
+}))
+
+vi.mock('@/lib/services/qaService', () => ({
+  qaService: { validateAnswer },
+}))
+
+import { POST } from '@/app/api/qa/validate/route'
+
+const answer = {
+  questionId: 'cloze-1',
+  question: 'Los niños ___ en el parque',
+  userAnswer: 'juega',
+  expectedAnswer: 'juegan',
+  language: 'es',
+  kind: 'cloze',
+}
+
+const validateRequest = (body: unknown) =>
+  createMockRequest('/api/qa/validate', { method: 'POST', body })
+
+describe('/api/qa/validate', () => {
+  beforeEach(() => {
+    validateAnswer.mockReset()
+    auth.userId = 'user-1'
+  })
+
+  it('should validate the answer for the signed-in learner', async () => {
+    const validation = {
+      isCorrect: false,
+      confidence: 1,
+      feedback: 'La respuesta correcta es «juegan».',
+      score: 0,
+      errors: [{ category: 'conjugation', original: 'juega', correction: 'juegan' }],
+      details: { exactMatch: false, semanticMatch: false, keywordMatch: false },
+    }
+    validateAnswer.mockResolvedValue(validation)
+
+    const response = await POST(validateRequest(answer))
+    const body = await response.json()
+
+    expect(body).toEqual({ success: true, data: validation })
+    expect(validateAnswer).toHaveBeenCalledWith({ ...answer, userId: 'user-1' })
+  })
+
+  it('should require a signed-in learner', async () => {
+    auth.userId = null
+
+    const response = await POST(validateRequest(answer))
+
+    expect(response.status).toBe(401)
+    expect(validateAnswer).not.toHaveBeenCalled()
+  })
+
+  it('should reject answers without a question', async () => {
+    const response = await POST(validateRequest({ ...answer, questionId: undefined }))
+
+    expect(response.status).toBe(400)
+    expect(validateAnswer).not.toHaveBeenCalled()
+  })
+})
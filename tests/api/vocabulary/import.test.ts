@@ -0,0 +1,194 @@
+/**
+ * Tests for /api/vocabulary/import and /api/vocabulary/import/[batchId]
+ * Imports are committed and undone through single database functions
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { createMockRequest } from '../test-utils'
+
+const rpc = vi.hoisted(() => vi.fn())
+
+vi.mock('@/lib/middleware/withAuth', () => ({
+  withBasicAuth: (handler: any) => (request: any, context?: any) => {
+    request.user = { id: 'user-1' }
+    return handler(request, context)
+  },
+}))
+
+vi.mock('@/lib/supabase', () => ({
+  supabaseAdmin: { rpc },
+}))
+
+import { POST } from '@/app/api/vocabulary/import/route'
+import { DELETE } from '@/app/api/vocabulary/import/[batchId]/route'
+
+const BATCH_ID = '00000000-0000-4000-8000-0000000000b1'
+
+const insert = {
+  spanish_text: 'el gato',
+  english_translation: 'the cat',
+  part_of_speech: 'noun',
+  difficulty_level: 'beginner',
+  category: 'animals',
+  context_sentence_spanish: null,
+  usage_notes: null,
+}
+
+const commitRequest = (body: unknown) =>
+  createMockRequest('/api/vocabulary/import', { method: 'POST', body })
+
+describe('/api/vocabulary/import', () => {
+  beforeEach(() => {
+    rpc.mockReset()
+  })
+
+  it('should commit inserts and updates in one call', async () => {
+    rpc.mockResolvedValue({
+      data: { batchId: BATCH_ID, listId: 'list-1', inserted: 1, updated: 1 },
+      error: null,
+    })
+
+    const updates = [
+      {
+        id: '00000000-0000-4000-8000-000000000001',
+        changes: { context_sentence_spanish: 'Veo el perro.' },
+      },
+    ]
+    const response = await POST(
+      commitRequest({ format: 'quizlet', fileName: 'set.txt', inserts: [insert], updates })
+    )
+    const body = await response.json()
+
+    expect(response.status).toBe(201)
+    expect(body.data).toMatchObject({ batchId: BATCH_ID, inserted: 1, updated: 1 })
+    expect(rpc).toHaveBeenCalledTimes(1)
+    expect(rpc).toHaveBeenCalledWith(
+      'commit_vocabulary_import',
+      expect.objectContaining({
+        p_user_id: 'user-1',
+        p_list_id: null,
+        p_inserts: [insert],
+        p_updates: updates,
+        p_reviews: [],
+      })
+    )
+  })
+
+  it('should pass imported review state to the same transaction', async () => {
+    rpc.mockResolvedValue({
+      data: { batchId: BATCH_ID, listId: 'list-1', inserted: 1, updated: 0, scheduled: 1 },
+      error: null,
+    })
+
+    const reviews = [
+      {
+        spanish_text: 'el gato',
+        schedule: {
+          ease_factor: 2.6,
+          interval: 6,
+          repetitions: 2,
+          last_review_date: '2026-10-19T00:00:00.000Z',
+          next_review_date: '2026-10-25T00:00:00.000Z',
+          fsrs_stability: null,
+          fsrs_difficulty: null,
+        },
+        history: [{ quality: 4, reviewed_at: '2026-10-19T00:00:00.000Z' }],
+      },
+    ]
+    const response = await POST(
+      commitRequest({ format: 'apkg', inserts: [insert], updates: [], reviews })
+    )
+
+    expect(response.status).toBe(201)
+    expect(rpc).toHaveBeenCalledWith(
+      'commit_vocabulary_import',
+      expect.objectContaining({ p_reviews: reviews })
+    )
+  })
+
+  it('should reject review grades outside 0-5', async () => {
+    const response = await POST(
+      commitRequest({
+        format: 'apkg',
+        inserts: [insert],
+        updates: [],
+        reviews: [
+          {
+            spanish_text: 'el gato',
+            schedule: {
+              ease_factor: 2.5,
+              interval: 1,
+              repetitions: 1,
+              last_review_date: null,
+              next_review_date: '2026-10-20T00:00:00.000Z',
+              fsrs_stability: null,
+              fsrs_difficulty: null,
+            },
+            history: [{ quality: 9, reviewed_at: '2026-10-19T00:00:00.000Z' }],
+          },
+        ],
+      })
+    )
+
+    expect(response.status).toBe(400)
+    expect(rpc).not.toHaveBeenCalled()
+  })
+
+  it('should reject items the database would refuse', async () => {
+    const response = await POST(
+      commitRequest({
+        format: 'csv',
+        inserts: [{ ...insert, part_of_speech: 'noun phrase' }],
+        updates: [],
+      })
+    )
+
+    expect(response.status).toBe(400)
+    expect(rpc).not.toHaveBeenCalled()
+  })
+
+  it('should report a failed transaction as nothing imported', async () => {
+    rpc.mockResolvedValue({ data: null, error: { message: 'Vocabulary item x not found' } })
+
+    const response = await POST(commitRequest({ format: 'csv', inserts: [insert], updates: [] }))
+    const body = await response.json()
+
+    expect(response.status).toBe(500)
+    expect(body.message).toContain('Nothing was imported')
+  })
+})
+
+describe('/api/vocabulary/import/[batchId]', () => {
+  beforeEach(() => {
+    rpc.mockReset()
+  })
+
+  const undo = (batchId: string) =>
+    DELETE(createMockRequest(`/api/vocabulary/import/${batchId}`, { method: 'DELETE' }), {
+      params: Promise.resolve({ batchId }),
+    })
+
+  it('should undo the whole import', async () => {
+    rpc.mockResolvedValue({ data: { batchId: BATCH_ID, removed: 3, restored: 1 }, error: null })
+
+    const response = await undo(BATCH_ID)
+    const body = await response.json()
+
+    expect(body).toEqual({ success: true, data: { batchId: BATCH_ID, removed: 3, restored: 1 } })
+    expect(rpc).toHaveBeenCalledWith('undo_vocabulary_import', {
+      p_user_id: 'user-1',
+      p_batch_id: BATCH_ID,
+    })
+  })
+
+  it('should refuse to undo an import twice', async () => {
+    rpc.mockResolvedValue({
+      data: null,
+      error: { message: `Import ${BATCH_ID} has already been undone` },
+    })
+
+    const response = await undo(BATCH_ID)
+
+    expect(response.status).toBe(409)
+  })
+})
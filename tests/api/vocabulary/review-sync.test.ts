@@ -0,0 +1,264 @@
+/**
+ * Tests for /api/vocabulary/review/sync endpoint
+ * Offline reviews must apply once, in review order, whatever order they arrive in
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { createMockRequest } from '../test-utils'
+
+const db = vi.hoisted(() => ({
+  items: {} as Record<string, Record<string, unknown>>,
+  recordedEventIds: [] as string[],
+  history: [] as Array<{ vocabulary_id: string; quality: number; created_at: string }>,
+  failInsertFor: null as string | null,
+  updates: [] as Array<{ table: string; values: Record<string, unknown> }>,
+  inserts: [] as Array<{ table: string; values: Record<string, unknown> }>,
+  rpcs: [] as Array<{ fn: string; args: Record<string, any> }>,
+  failProgress: false,
+  userId: 'user-1' as string | null,
+}))
+
+vi.mock('@/lib/middleware/withAuth', () => ({
+  withBasicAuth: (handler: any) => (request: any, context?: any) => {
+    request.user = db.userId ? { id: db.userId } : undefined
+    return handler(request, context)
+  },
+}))
+
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: vi.fn(() => ({
+    rpc: (fn: string, args: Record<string, any>) => {
+      db.rpcs.push({ fn, args })
+      if (db.failProgress) {
+        return Promise.resolve({ data: null, error: { code: '08006', message: 'connection lost' } })
+      }
+      const pointsEarned = args.p_days.reduce((sum: number, day: any) => sum + day.points, 0)
+      return Promise.resolve({ data: { pointsEarned, currentStreak: 1 }, error: null })
+    },
+    from: (table: string) => {
+      const filters: Record<string, unknown> = {}
+      const query: any = {
+        select: () => query,
+        eq: (column: string, value: unknown) => {
+          filters[column] = value
+          return query
+        },
+        in: () => query,
+        or: () => query,
+        order: () => query,
+        limit: () => query,
+        update: (values: Record<string, unknown>) => {
+          db.updates.push({ table, values })
+          return query
+        },
+        insert: (values: Record<string, unknown>) => {
+          db.inserts.push({ table, values })
+          if (table === 'review_history') {
+            if (values.client_event_id === db.failInsertFor) {
+              return Promise.resolve({ error: { code: '08006', message: 'connection lost' } })
+            }
+            db.history.push(values as (typeof db.history)[number])
+          }
+          return Promise.resolve({ error: null })
+        },
+        single: () => {
+          if (table === 'user_vocabulary') {
+            const item = db.items[filters.id as string]
+            return Promise.resolve({ data: item ?? null, error: item ? null : { message: 'not found' } })
+          }
+          return Promise.resolve({ data: null, error: null })
+        },
+        then: (resolve: (value: unknown) => unknown) => {
+          if (table === 'review_history' && 'vocabulary_id' in filters) {
+            const rows = db.history
+              .filter((row) => row.vocabulary_id === filters.vocabulary_id)
+              .sort((a, b) => a.created_at.localeCompare(b.created_at))
+            return resolve({ data: rows, error: null })
+          }
+          if (table === 'review_history') {
+            return resolve({
+              data: db.recordedEventIds.map((id) => ({ client_event_id: id })),
+              error: null,
+            })
+          }
+          return resolve({ error: null })
+        },
+      }
+      return query
+    },
+  })),
+}))
+
+import { POST } from '@/app/api/vocabulary/review/sync/route'
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 86400000).toISOString()
+
+const syncRequest = (events: unknown[]) =>
+  createMockRequest('/api/vocabulary/review/sync', {
+    method: 'POST',
+    body: { deviceId: 'device-a', events },
+  })
+
+describe('/api/vocabulary/review/sync', () => {
+  beforeEach(() => {
+    db.items = {
+      'item-1': {
+        id: 'item-1',
+        ease_factor: 2.5,
+        interval: 10,
+        repetitions: 2,
+        last_review_date: daysAgo(10),
+        next_review_date: daysAgo(0),
+        updated_at: daysAgo(10),
+      },
+    }
+    db.recordedEventIds = []
+    db.history = []
+    db.failInsertFor = null
+    db.updates = []
+    db.inserts = []
+    db.rpcs = []
+    db.failProgress = false
+    db.userId = 'user-1'
+  })
+
+  it('should require an authenticated user', async () => {
+    db.userId = null
+
+    const response = await POST(
+      syncRequest([{ eventId: 'e1', itemId: 'item-1', quality: 4, reviewedAt: daysAgo(1) }])
+    )
+
+    expect(response.status).toBe(401)
+    expect(db.inserts).toHaveLength(0)
+  })
+
+  it('should reject malformed events', async () => {
+    const response = await POST(
+      syncRequest([{ eventId: 'e1', itemId: 'item-1', quality: 9, reviewedAt: daysAgo(1) }])
+    )
+
+    expect(response.status).toBe(400)
+    expect(db.inserts).toHaveLength(0)
+  })
+
+  it('should record each review at the time it happened', async () => {
+    const reviewedAt = daysAgo(1)
+    const response = await POST(
+      syncRequest([{ eventId: 'e1', itemId: 'item-1', quality: 4, reviewedAt }])
+    )
+    const body = await response.json()
+
+    expect(body.success).toBe(true)
+    expect(body.results).toEqual([
+      expect.objectContaining({ eventId: 'e1', status: 'applied', schedule: expect.any(Object) }),
+    ])
+    expect(db.inserts.find((i) => i.table === 'review_history')?.values).toMatchObject({
+      client_event_id: 'e1',
+      device_id: 'device-a',
+      created_at: reviewedAt,
+    })
+    expect(db.rpcs).toEqual([
+      {
+        fn: 'record_review_progress',
+        args: {
+          p_user_id: 'user-1',
+          p_days: [{ date: reviewedAt.split('T')[0], points: 10, reviews: 1 }],
+        },
+      },
+    ])
+    expect(body).toMatchObject({ pointsEarned: 10, progressRecorded: true, currentStreak: 1 })
+  })
+
+  it('should treat re-uploaded events as duplicates', async () => {
+    db.recordedEventIds = ['e1']
+
+    const response = await POST(
+      syncRequest([{ eventId: 'e1', itemId: 'item-1', quality: 4, reviewedAt: daysAgo(1) }])
+    )
+    const body = await response.json()
+
+    expect(body.results[0].status).toBe('duplicate')
+    expect(db.inserts).toHaveLength(0)
+    expect(db.rpcs).toHaveLength(0)
+    expect(body.pointsEarned).toBe(0)
+  })
+
+  it('should rebuild the schedule from history when a review arrives out of order', async () => {
+    const latest = daysAgo(1)
+    db.history = [{ vocabulary_id: 'item-1', quality: 5, created_at: latest }]
+    db.items['item-1'].last_review_date = latest
+
+    const response = await POST(
+      syncRequest([{ eventId: 'e-old', itemId: 'item-1', quality: 2, reviewedAt: daysAgo(3) }])
+    )
+    const body = await response.json()
+
+    expect(body.results[0]).toMatchObject({ status: 'applied', merged: true })
+    // Replayed oldest first: the failed review resets, the later success starts again
+    expect(body.results[0].schedule.repetitions).toBe(1)
+    expect(body.results[0].schedule.last_review_date).toBe(latest)
+  })
+
+  it('should rebuild the schedule from history when reviews arrive in order', async () => {
+    // The stored row is ignored, so every device replays to the same state
+    db.items['item-1'].repetitions = 7
+    db.history = [{ vocabulary_id: 'item-1', quality: 4, created_at: daysAgo(3) }]
+
+    const response = await POST(
+      syncRequest([{ eventId: 'e-new', itemId: 'item-1', quality: 4, reviewedAt: daysAgo(1) }])
+    )
+    const body = await response.json()
+
+    expect(body.results[0]).toMatchObject({ status: 'applied' })
+    expect(body.results[0].merged).toBeUndefined()
+    expect(body.results[0].schedule.repetitions).toBe(2)
+  })
+
+  it('should build on a stored schedule that has no history behind it', async () => {
+    // Imported with its schedule: reviewed before, but never through review_history
+    db.items['item-1'].repetitions = 7
+    const reviewedAt = daysAgo(1)
+
+    const response = await POST(
+      syncRequest([{ eventId: 'e-new', itemId: 'item-1', quality: 4, reviewedAt }])
+    )
+    const body = await response.json()
+
+    expect(body.results[0]).toMatchObject({ status: 'applied' })
+    expect(body.results[0].schedule.repetitions).toBe(8)
+    expect(body.results[0].schedule.last_review_date).toBe(reviewedAt)
+  })
+
+  it('should report progress that could not be recorded', async () => {
+    db.failProgress = true
+
+    const response = await POST(
+      syncRequest([{ eventId: 'e1', itemId: 'item-1', quality: 4, reviewedAt: daysAgo(1) }])
+    )
+    const body = await response.json()
+
+    expect(body.success).toBe(false)
+    expect(body.results[0].status).toBe('applied')
+    expect(body).toMatchObject({ pointsEarned: 0, progressRecorded: false })
+  })
+
+  it('should report why events were not applied', async () => {
+    db.failInsertFor = 'e2'
+
+    const response = await POST(
+      syncRequest([
+        { eventId: 'e1', itemId: 'missing', quality: 3, reviewedAt: daysAgo(1) },
+        { eventId: 'e2', itemId: 'item-1', quality: 3, reviewedAt: daysAgo(1) },
+        { eventId: 'e3', itemId: 'item-1', quality: 3, reviewedAt: daysAgo(-1) },
+      ])
+    )
+    const body = await response.json()
+    const byEvent = Object.fromEntries(body.results.map((r: any) => [r.eventId, r]))
+
+    expect(body.success).toBe(false)
+    expect(byEvent.e1).toMatchObject({ status: 'rejected', reason: 'item_not_found' })
+    expect(byEvent.e2).toMatchObject({ status: 'failed', reason: 'storage_error' })
+    expect(byEvent.e3).toMatchObject({ status: 'rejected', reason: 'reviewed_in_future' })
+  })
+})
@@ -0,0 +1,193 @@
+/**
+ * Tests for /api/vocabulary/review endpoint
+ * Review state must be computed on the server from grade and timing only
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { createMockRequest } from '../test-utils'
+
+const db = vi.hoisted(() => ({
+  item: null as Record<string, unknown> | null,
+  settings: null as Record<string, unknown> | null,
+  updates: [] as Array<{ table: string; values: Record<string, unknown> }>,
+  inserts: [] as Array<{ table: string; values: Record<string, unknown> }>,
+  rpcs: [] as Array<{ fn: string; args: Record<string, any> }>,
+  userId: 'user-1' as string | null,
+  filters: [] as Array<[string, unknown]>,
+  failHistory: false,
+}))
+
+vi.mock('@/lib/middleware/withAuth', () => ({
+  withBasicAuth: (handler: any) => (request: any) => {
+    request.user = db.userId ? { id: db.userId } : undefined
+    return handler(request)
+  },
+}))
+
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: vi.fn(() => ({
+    rpc: (fn: string, args: Record<string, any>) => {
+      db.rpcs.push({ fn, args })
+      return Promise.resolve({ data: { pointsEarned: 10, currentStreak: 3 }, error: null })
+    },
+    from: (table: string) => {
+      const query: any = {
+        select: () => query,
+        eq: (column: string, value: unknown) => {
+          db.filters.push([column, value])
+          return query
+        },
+        or: () => query,
+        order: () => query,
+        limit: () => query,
+        update: (values: Record<string, unknown>) => {
+          db.updates.push({ table, values })
+          return query
+        },
+        insert: (values: Record<string, unknown>) => {
+          db.inserts.push({ table, values })
+          if (table === 'review_history' && db.failHistory) {
+            return Promise.resolve({ error: { code: '08006', message: 'connection lost' } })
+          }
+          return Promise.resolve({ error: null })
+        },
+        single: () => {
+          if (table === 'user_vocabulary') {
+            return Promise.resolve({ data: db.item, error: db.item ? null : { message: 'not found' } })
+          }
+          if (table === 'user_settings') {
+            return Promise.resolve({ data: db.settings, error: null })
+          }
+          return Promise.resolve({ data: null, error: null })
+        },
+        then: (resolve: (value: unknown) => unknown) => resolve({ error: null }),
+      }
+      return query
+    },
+  })),
+}))
+
+import { POST } from '@/app/api/vocabulary/review/route'
+
+const reviewRequest = (body: unknown) =>
+  createMockRequest('/api/vocabulary/review', {
+    method: 'POST',
+    body,
+  })
+
+describe('/api/vocabulary/review', () => {
+  beforeEach(() => {
+    db.item = {
+      id: 'item-1',
+      ease_factor: 2.5,
+      interval: 10,
+      repetitions: 2,
+      last_review_date: new Date(Date.now() - 10 * 86400000).toISOString(),
+      next_review_date: new Date().toISOString(),
+    }
+    db.settings = null
+    db.updates = []
+    db.inserts = []
+    db.rpcs = []
+    db.userId = 'user-1'
+    db.filters = []
+    db.failHistory = false
+  })
+
+  it('should require an authenticated user', async () => {
+    db.userId = null
+    const response = await POST(reviewRequest({ itemId: 'item-1', quality: 4 }))
+
+    expect(response.status).toBe(401)
+    expect(db.updates).toHaveLength(0)
+  })
+
+  it('should grade the authenticated user, not the one named in a header', async () => {
+    const response = await POST(
+      createMockRequest('/api/vocabulary/review', {
+        method: 'POST',
+        headers: { 'x-user-id': 'someone-else' },
+        body: { itemId: 'item-1', quality: 4 },
+      })
+    )
+
+    expect(response.status).toBe(200)
+    expect(db.filters).toContainEqual(['user_id', 'user-1'])
+    expect(db.filters).not.toContainEqual(['user_id', 'someone-else'])
+  })
+
+  it('should reject client-computed scheduling fields', async () => {
+    const response = await POST(
+      reviewRequest({ itemId: 'item-1', quality: 4, easeFactor: 9, interval: 3650 })
+    )
+
+    expect(response.status).toBe(400)
+    expect(db.updates).toHaveLength(0)
+  })
+
+  it('should reject out-of-range grades', async () => {
+    const response = await POST(reviewRequest({ itemId: 'item-1', quality: 7 }))
+
+    expect(response.status).toBe(400)
+  })
+
+  it('should return 404 for items the user does not own', async () => {
+    db.item = null
+    const response = await POST(reviewRequest({ itemId: 'other', quality: 4 }))
+
+    expect(response.status).toBe(404)
+  })
+
+  it('should compute the next state with SM-2 by default', async () => {
+    const response = await POST(
+      reviewRequest({ itemId: 'item-1', quality: 4, responseTimeMs: 2300 })
+    )
+    const body = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(body.algorithm).toBe('sm2')
+    expect(body.schedule.interval).toBe(25)
+
+    const vocabularyUpdate = db.updates.find((u) => u.table === 'user_vocabulary')
+    expect(vocabularyUpdate?.values.interval).toBe(body.schedule.interval)
+    expect(vocabularyUpdate?.values.repetitions).toBe(3)
+
+    const history = db.inserts.find((i) => i.table === 'review_history')
+    expect(history?.values).toMatchObject({
+      quality: 4,
+      response_time_ms: 2300,
+      algorithm: 'sm2',
+    })
+
+    expect(db.rpcs).toEqual([
+      {
+        fn: 'record_review_progress',
+        args: {
+          p_user_id: 'user-1',
+          p_days: [{ date: expect.any(String), points: 10, reviews: 1 }],
+        },
+      },
+    ])
+    expect(body).toMatchObject({ pointsEarned: 10, progressRecorded: true, currentStreak: 3 })
+  })
+
+  it('should fail the review when its history cannot be recorded', async () => {
+    db.failHistory = true
+
+    const response = await POST(reviewRequest({ itemId: 'item-1', quality: 4 }))
+
+    expect(response.status).toBe(500)
+    expect(db.updates).toHaveLength(0)
+    expect(db.rpcs).toHaveLength(0)
+  })
+
+  it('should use the algorithm configured in user settings', async () => {
+    db.settings = { scheduling_algorithm: 'fsrs', fsrs_parameters: null, fsrs_request_retention: 0.9 }
+
+    const response = await POST(reviewRequest({ itemId: 'item-1', quality: 4 }))
+    const body = await response.json()
+
+    expect(body.algorithm).toBe('fsrs')
+    expect(body.schedule.interval).toBeGreaterThan(10)
+  })
+})
@@ -0,0 +1,54 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import '@testing-library/jest-dom';
+import { MatchingGame } from '@/components/Practice/MatchingGame';
+
+const session = { begin: vi.fn(), finish: vi.fn() };
+vi.mock('@/hooks/usePracticeSession', () => ({
+  usePracticeSession: () => session,
+}));
+
+const items = [
+  { id: '1', text: 'el perro', translation: 'the dog' },
+  { id: '2', text: 'el gato', translation: 'the cat' },
+];
+
+const translationOf: Record<string, string> = { 'el perro': 'the dog', 'el gato': 'the cat' };
+
+describe('MatchingGame', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should match by clicking a word and then its translation, and record the round', () => {
+    const onComplete = vi.fn();
+    render(<MatchingGame items={items} mode='translation' onComplete={onComplete} />);
+    expect(session.begin).toHaveBeenCalled();
+
+    const [first, second] = screen.getAllByTestId('matching-word');
+    const wrong = first.textContent === 'el perro' ? 'the cat' : 'the dog';
+
+    fireEvent.click(first);
+    fireEvent.click(screen.getByRole('button', { name: wrong }));
+    fireEvent.click(first);
+    fireEvent.click(screen.getByRole('button', { name: translationOf[first.textContent!] }));
+    fireEvent.click(second);
+    fireEvent.click(screen.getByRole('button', { name: translationOf[second.textContent!] }));
+
+    expect(screen.getByText('All pairs matched')).toBeInTheDocument();
+    expect(onComplete).toHaveBeenCalledWith(
+      expect.objectContaining({ total: 2, firstTry: 1, mistakes: 1 }),
+      expect.objectContaining({ pairIds: expect.any(Array) })
+    );
+    expect(session.finish).toHaveBeenCalledWith(
+      expect.objectContaining({ questionsAnswered: 2, correctAnswers: 1 })
+    );
+  });
+
+  it('should ask for more words when there are too few to play', () => {
+    render(<MatchingGame items={items.slice(0, 1)} mode='translation' />);
+
+    expect(screen.getByText(/at least two words/i)).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,41 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ReviewSettings } from '@/components/Settings/ReviewSettings';
+import { DEFAULT_SETTINGS } from '@/lib/settings/settingsManager';
+
+const defaultProps = {
+  settings: DEFAULT_SETTINGS,
+  onSettingChange: vi.fn(),
+};
+
+describe('ReviewSettings', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should show the current scheduling algorithm', () => {
+    render(
+      <ReviewSettings
+        {...defaultProps}
+        settings={{
+          ...DEFAULT_SETTINGS,
+          study: { ...DEFAULT_SETTINGS.study, schedulingAlgorithm: 'fsrs' },
+        }}
+      />
+    );
+
+    expect(screen.getByLabelText('Review scheduling algorithm')).toHaveValue('fsrs');
+  });
+
+  it('should save the chosen algorithm with the study settings', () => {
+    render(<ReviewSettings {...defaultProps} />);
+
+    fireEvent.change(screen.getByLabelText('Review scheduling algorithm'), {
+      target: { value: 'leitner' },
+    });
+
+    expect(defaultProps.onSettingChange).toHaveBeenCalledWith('study', {
+      schedulingAlgorithm: 'leitner',
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import '@testing-library/jest-dom';
+import { SpeakingPractice } from '@/components/Speech/SpeakingPractice';
+
+const listen = vi.fn();
+const recognition = {
+  listen,
+  stop: vi.fn(),
+  cancel: vi.fn(),
+  isListening: false,
+  isSupported: true,
+  error: null as string | null,
+};
+vi.mock('@/hooks/useSpeechRecognition', () => ({
+  useSpeechRecognition: () => recognition,
+}));
+
+describe('SpeakingPractice', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    recognition.isSupported = true;
+    recognition.error = null;
+  });
+
+  it('should score what was said and show per-word accuracy', async () => {
+    listen.mockResolvedValue({ transcript: 'el pero corre', alternatives: ['el pero corre'] });
+    const onScored = vi.fn();
+
+    render(<SpeakingPractice expectedText='El perro corre.' onScored={onScored} />);
+    fireEvent.click(screen.getByRole('button', { name: /record answer/i }));
+
+    await waitFor(() => expect(onScored).toHaveBeenCalledTimes(1));
+    expect(onScored.mock.calls[0][0]).toMatchObject({ transcript: 'el pero corre' });
+
+    const words = screen.getAllByTestId('word-accuracy');
+    expect(words.map(word => word.getAttribute('data-status'))).toEqual([
+      'correct',
+      'close',
+      'correct',
+    ]);
+    expect(screen.getByText(/el pero corre/)).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /record again/i })).toBeInTheDocument();
+  });
+
+  it('should not score when nothing was recognized', async () => {
+    listen.mockResolvedValue(null);
+    const onScored = vi.fn();
+
+    render(<SpeakingPractice expectedText='hola' onScored={onScored} />);
+    fireEvent.click(screen.getByRole('button', { name: /record answer/i }));
+
+    await waitFor(() => expect(listen).toHaveBeenCalled());
+    expect(onScored).not.toHaveBeenCalled();
+    expect(screen.queryByTestId('word-accuracy')).not.toBeInTheDocument();
+  });
+
+  it('should say when the browser cannot record', () => {
+    recognition.isSupported = false;
+
+    render(<SpeakingPractice expectedText='hola' onScored={vi.fn()} uiLanguage='es' />);
+    expect(screen.getByText('Tu navegador no puede grabar voz')).toBeInTheDocument();
+  });
+});
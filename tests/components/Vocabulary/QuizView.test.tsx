@@ -80,6 +80,8 @@ Object.defineProperty(window, 'speechSynthesis', {
   writable: true,
   value: {
     speak: mockSpeak,
+    cancel: vi.fn(),
+    getVoices: vi.fn(() => []),
   },
 });
 
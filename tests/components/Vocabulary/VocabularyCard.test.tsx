@@ -6,6 +6,11 @@ import '@testing-library/jest-dom';
 import { VocabularyCard, VocabularyCardProps } from '@/components/Vocabulary/VocabularyCard';
 import { ExtractedVocabularyItem } from '@/types/comprehensive';
 
+const speak = vi.fn();
+vi.mock('@/hooks/useSpeech', () => ({
+  useSpeech: () => ({ speak, stop: vi.fn(), isSpeaking: false, activeWord: -1 }),
+}));
+
 // Mock Data
 const mockVocabularyItem: ExtractedVocabularyItem = {
   id: 'vocab-1',
@@ -239,10 +244,10 @@ describe('VocabularyCard Component', () => {
       expect(screen.getByLabelText('Play pronunciation')).toBeInTheDocument();
     });
 
-    it('should not display audio button when audio URL is missing', () => {
+    it('should offer synthesized pronunciation when audio URL is missing', () => {
       render(<VocabularyCard item={mockMinimalItem} />);
 
-      expect(screen.queryByLabelText('Play pronunciation')).not.toBeInTheDocument();
+      expect(screen.getByLabelText('Play pronunciation')).toBeInTheDocument();
     });
 
     it('should call onPlayAudio with correct URL when clicked', () => {
@@ -255,7 +260,7 @@ describe('VocabularyCard Component', () => {
       expect(onPlayAudio).toHaveBeenCalledWith('https://example.com/audio/magnificent.mp3');
     });
 
-    it('should not call onPlayAudio when audio URL is missing', () => {
+    it('should speak the word instead of calling onPlayAudio when audio URL is missing', () => {
       const onPlayAudio = vi.fn();
       const itemWithoutAudio = {
         ...mockVocabularyItem,
@@ -263,9 +268,10 @@ describe('VocabularyCard Component', () => {
       };
 
       render(<VocabularyCard item={itemWithoutAudio} onPlayAudio={onPlayAudio} />);
+      fireEvent.click(screen.getByLabelText('Play pronunciation'));
 
-      expect(screen.queryByLabelText('Play pronunciation')).not.toBeInTheDocument();
       expect(onPlayAudio).not.toHaveBeenCalled();
+      expect(speak).toHaveBeenCalledWith('magnificent', { locale: 'en-US' });
     });
   });
 
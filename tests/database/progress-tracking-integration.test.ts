@@ -33,6 +33,15 @@ vi.mock('@/lib/supabase', () => ({
   DatabaseService: mockDatabaseService,
 }));
 
+// Mock the achievement engine
+const mockAchievementService = {
+  getUserAchievements: vi.fn(),
+};
+
+vi.mock('@/lib/services/achievementService', () => ({
+  getAchievementService: () => Promise.resolve(mockAchievementService),
+}));
+
 vi.mock('@/lib/logger', () => ({
   logger: {
     info: vi.fn(),
@@ -53,6 +62,7 @@ describe('Progress Tracking API Integration Tests', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    mockAchievementService.getUserAchievements.mockResolvedValue([]);
   });
 
   // ==============================================
@@ -166,25 +176,38 @@ describe('Progress Tracking API Integration Tests', () => {
       expect(data.data.this_week.accuracy).toBeGreaterThan(0);
     });
 
-    it('should generate appropriate achievements', async () => {
-      const mockUser = {
+    it('should list the achievements the engine has unlocked', async () => {
+      const unlockedAt = new Date().toISOString();
+
+      mockDatabaseService.getUser.mockResolvedValue({
         id: testUserId,
         total_points: 1200,
         current_streak: 8,
         longest_streak: 10,
-        last_active_at: new Date().toISOString(),
-        created_at: new Date().toISOString(),
-      };
-
-      const mockLearningProgress = Array.from({ length: 55 }, (_, i) => ({
-        id: `progress-${i}`,
-        mastery_level: 0.85,
-        created_at: new Date().toISOString(),
-      }));
-
-      mockDatabaseService.getUser.mockResolvedValue(mockUser);
+        last_active_at: unlockedAt,
+        created_at: unlockedAt,
+      });
       mockDatabaseService.getUserSessions.mockResolvedValue([]);
-      mockDatabaseService.getLearningProgress.mockResolvedValue(mockLearningProgress);
+      mockDatabaseService.getLearningProgress.mockResolvedValue([]);
+      mockAchievementService.getUserAchievements.mockResolvedValue([
+        {
+          id: 'streak_champion',
+          name: 'Streak Champion',
+          description: 'Learn 7 days in a row',
+          icon: '🔥',
+          progress: 7,
+          target: 7,
+          unlockedAt,
+        },
+        {
+          id: 'vocabulary_master',
+          name: 'Vocabulary Master',
+          description: 'Learn 100 words',
+          progress: 40,
+          target: 100,
+          unlockedAt: null,
+        },
+      ]);
 
       const { GET } = await import('@/app/api/progress/stats/route');
 
@@ -192,20 +215,37 @@ describe('Progress Tracking API Integration Tests', () => {
       const response = await GET(mockRequest as any);
       const data = await response.json();
 
-      expect(data.data.achievements).toBeInstanceOf(Array);
-      expect(data.data.achievements.length).toBeGreaterThan(0);
+      expect(mockAchievementService.getUserAchievements).toHaveBeenCalledWith(testUserId);
+      expect(data.data.achievements).toEqual([
+        {
+          id: 'streak_champion',
+          name: 'Streak Champion',
+          description: 'Learn 7 days in a row',
+          unlocked_at: unlockedAt,
+          icon: '🔥',
+        },
+      ]);
+    });
 
-      // Should have "Week Warrior" achievement (7+ day streak)
-      const weekWarrior = data.data.achievements.find((a: any) => a.id === 'streak_7');
-      expect(weekWarrior).toBeDefined();
+    it('should still return stats when achievements cannot be loaded', async () => {
+      mockDatabaseService.getUser.mockResolvedValue({
+        id: testUserId,
+        total_points: 0,
+        current_streak: 0,
+        longest_streak: 0,
+        created_at: new Date().toISOString(),
+      });
+      mockDatabaseService.getUserSessions.mockResolvedValue([]);
+      mockDatabaseService.getLearningProgress.mockResolvedValue([]);
+      mockAchievementService.getUserAchievements.mockRejectedValue(new Error('offline'));
+
+      const { GET } = await import('@/app/api/progress/stats/route');
 
-      // Should have "Point Master" achievement (1000+ points)
-      const pointMaster = data.data.achievements.find((a: any) => a.id === 'points_1000');
-      expect(pointMaster).toBeDefined();
+      const response = await GET({ user: { id: testUserId } } as any);
+      const data = await response.json();
 
-      // Should have "Vocabulary Builder" achievement (50+ mastered)
-      const vocabBuilder = data.data.achievements.find((a: any) => a.id === 'phrases_50');
-      expect(vocabBuilder).toBeDefined();
+      expect(response.status).toBe(200);
+      expect(data.data.achievements).toEqual([]);
     });
 
     it('should handle users with no activity', async () => {
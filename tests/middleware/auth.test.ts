@@ -0,0 +1,37 @@
+/**
+ * Tests for the admin API key check shared by the admin routes
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { isAdminRequest } from '@/lib/middleware/auth';
+
+const requestWithKey = (key?: string) =>
+  new NextRequest('http://localhost:3000/api/admin/teachers', {
+    headers: key === undefined ? {} : { 'x-admin-key': key },
+  });
+
+describe('isAdminRequest', () => {
+  afterEach(() => {
+    delete process.env.ADMIN_API_KEY;
+  });
+
+  it('should accept the admin API key', () => {
+    process.env.ADMIN_API_KEY = 'test-admin-key';
+
+    expect(isAdminRequest(requestWithKey('test-admin-key'))).toBe(true);
+  });
+
+  it('should reject other keys, including prefixes of the admin key', () => {
+    process.env.ADMIN_API_KEY = 'test-admin-key';
+
+    expect(isAdminRequest(requestWithKey('test-admin'))).toBe(false);
+    expect(isAdminRequest(requestWithKey('test-admin-key-2'))).toBe(false);
+    expect(isAdminRequest(requestWithKey())).toBe(false);
+  });
+
+  it('should never accept a request while ADMIN_API_KEY is unset', () => {
+    expect(isAdminRequest(requestWithKey(''))).toBe(false);
+    expect(isAdminRequest(requestWithKey())).toBe(false);
+  });
+});
@@ -0,0 +1,289 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  FSRSAlgorithm,
+  FSRSReviewCard,
+  DEFAULT_FSRS_WEIGHTS,
+  qualityToRating,
+  difficultyToEaseFactor,
+  easeFactorToDifficulty,
+} from '../../../src/lib/algorithms/fsrs';
+import {
+  evaluateFSRS,
+  fitFSRSParameters,
+  reviewLogsFromHistory,
+  ReviewLogEntry,
+} from '../../../src/lib/algorithms/fsrs-optimizer';
+import { createSchedulingAlgorithm, replayReviewHistory } from '../../../src/lib/algorithms/scheduler';
+import { ReviewCard } from '../../../src/lib/algorithms/algorithm-interface';
+import {
+  cardFromReviewRow,
+  reviewRowFromCard,
+} from '../../../src/lib/services/reviewSchedulingService';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('FSRSAlgorithm', () => {
+  let fsrs: FSRSAlgorithm;
+  let newCard: ReviewCard;
+  const now = new Date('2026-01-01T12:00:00Z');
+
+  beforeEach(() => {
+    fsrs = new FSRSAlgorithm();
+    newCard = {
+      id: 'card-1',
+      imageId: 'img-1',
+      difficulty: 'medium',
+      interval: 0,
+      easeFactor: 2.5,
+      nextReviewDate: now,
+      reviewCount: 0,
+      successStreak: 0,
+    };
+  });
+
+  describe('qualityToRating', () => {
+    it('should map SM-2 quality onto FSRS grades', () => {
+      expect(qualityToRating(0)).toBe(1);
+      expect(qualityToRating(2)).toBe(1);
+      expect(qualityToRating(3)).toBe(2);
+      expect(qualityToRating(4)).toBe(3);
+      expect(qualityToRating(5)).toBe(4);
+    });
+  });
+
+  describe('forgettingCurve', () => {
+    it('should predict 90% recall when elapsed days equal stability', () => {
+      expect(fsrs.forgettingCurve(10, 10)).toBeCloseTo(0.9, 5);
+    });
+
+    it('should predict full recall immediately after review', () => {
+      expect(fsrs.forgettingCurve(0, 5)).toBe(1);
+    });
+
+    it('should decay over time', () => {
+      expect(fsrs.forgettingCurve(30, 5)).toBeLessThan(fsrs.forgettingCurve(5, 5));
+    });
+  });
+
+  describe('updateCard', () => {
+    it('should initialize stability from the first rating', () => {
+      const result = fsrs.updateCard(newCard, 4, now);
+
+      expect(result.stability).toBeCloseTo(DEFAULT_FSRS_WEIGHTS[2], 5);
+      expect(result.reviewCount).toBe(1);
+      expect(result.lastReviewDate).toEqual(now);
+      expect(result.interval).toBe(Math.round(DEFAULT_FSRS_WEIGHTS[2]));
+    });
+
+    it('should schedule easier first ratings further out', () => {
+      const again = fsrs.updateCard(newCard, 0, now);
+      const good = fsrs.updateCard(newCard, 4, now);
+      const easy = fsrs.updateCard(newCard, 5, now);
+
+      expect(again.interval).toBeLessThan(good.interval);
+      expect(good.interval).toBeLessThan(easy.interval);
+      expect(again.fsrsDifficulty).toBeGreaterThan(easy.fsrsDifficulty);
+    });
+
+    it('should grow stability on successful recall', () => {
+      const first = fsrs.updateCard(newCard, 4, now);
+      const later = new Date(now.getTime() + first.interval * DAY);
+      const second = fsrs.updateCard(first, 4, later);
+
+      expect(second.stability).toBeGreaterThan(first.stability);
+      expect(second.interval).toBeGreaterThan(first.interval);
+      expect(second.retrievability).toBeCloseTo(0.9, 1);
+    });
+
+    it('should shrink stability and reset streak on a lapse', () => {
+      const first = fsrs.updateCard(newCard, 5, now);
+      const later = new Date(now.getTime() + first.interval * DAY);
+      const lapsed = fsrs.updateCard(first, 1, later);
+
+      expect(lapsed.stability).toBeLessThan(first.stability);
+      expect(lapsed.successStreak).toBe(0);
+    });
+
+    it('should derive memory state from SM-2 scheduled cards', () => {
+      const sm2Card: ReviewCard = { ...newCard, interval: 15, easeFactor: 2.5, reviewCount: 4 };
+      const state = fsrs.getMemoryState(sm2Card);
+
+      expect(state).toEqual({ stability: 15, difficulty: 1 });
+      expect(fsrs.updateCard(sm2Card, 4, now).interval).toBeGreaterThan(15);
+    });
+
+    it('should keep the ease factor within the SM-2 range', () => {
+      let card: FSRSReviewCard | ReviewCard = newCard;
+      for (let i = 0; i < 5; i++) {
+        card = fsrs.updateCard(card, 0, new Date(now.getTime() + i * DAY));
+      }
+
+      expect(card.easeFactor).toBeGreaterThanOrEqual(1.3);
+      expect(card.easeFactor).toBeLessThanOrEqual(2.5);
+    });
+
+    it('should respect maxInterval', () => {
+      const capped = new FSRSAlgorithm({ maxInterval: 10 });
+      const result = capped.updateCard({ ...newCard, interval: 200, reviewCount: 10 }, 5, now);
+
+      expect(result.interval).toBe(10);
+    });
+  });
+
+  describe('ease factor mapping', () => {
+    it('should round-trip difficulty through ease factor', () => {
+      expect(easeFactorToDifficulty(difficultyToEaseFactor(6.2))).toBeCloseTo(6.2, 5);
+      expect(difficultyToEaseFactor(1)).toBeCloseTo(2.5, 5);
+      expect(difficultyToEaseFactor(10)).toBeCloseTo(1.3, 5);
+    });
+  });
+});
+
+describe('FSRS optimizer', () => {
+  const start = new Date('2026-01-01T00:00:00Z').getTime();
+
+  // Simulated learner who forgets faster than the default model assumes
+  function buildLogs(cards: number): ReviewLogEntry[] {
+    const logs: ReviewLogEntry[] = [];
+    for (let c = 0; c < cards; c++) {
+      const gaps = [0, 1, 3, 7, 16, 35];
+      let elapsed = 0;
+      gaps.forEach((gap, i) => {
+        elapsed += gap;
+        const recalled = i === 0 || (c + i) % 3 !== 0;
+        logs.push({
+          cardId: `card-${c}`,
+          quality: recalled ? 4 : 1,
+          reviewedAt: new Date(start + elapsed * DAY),
+        });
+      });
+    }
+    return logs;
+  }
+
+  it('should convert review_history rows into logs', () => {
+    const logs = reviewLogsFromHistory([
+      { vocabulary_id: 'a', quality: 4, created_at: '2026-01-01T00:00:00Z' },
+      { vocabulary_id: 'b', quality: 2, created_at: 'not-a-date' },
+    ]);
+
+    expect(logs).toHaveLength(1);
+    expect(logs[0].cardId).toBe('a');
+  });
+
+  it('should compare predicted and actual recall', () => {
+    const evaluation = evaluateFSRS(buildLogs(10));
+
+    expect(evaluation.sampleSize).toBe(50);
+    expect(evaluation.actualRecallRate).toBeGreaterThan(0);
+    expect(evaluation.calibration.reduce((sum, bin) => sum + bin.count, 0)).toBe(50);
+  });
+
+  it('should keep default weights when history is too small', () => {
+    const result = fitFSRSParameters(buildLogs(2));
+
+    expect(result.fitted).toBe(false);
+    expect(result.weights).toEqual([...DEFAULT_FSRS_WEIGHTS]);
+  });
+
+  it('should reduce log loss when fitting to a user history', () => {
+    const result = fitFSRSParameters(buildLogs(30), { maxIterations: 5 });
+
+    expect(result.fitted).toBe(true);
+    expect(result.after.logLoss).toBeLessThan(result.before.logLoss);
+    expect(result.weights).toHaveLength(DEFAULT_FSRS_WEIGHTS.length);
+  });
+});
+
+describe('createSchedulingAlgorithm', () => {
+  const card: ReviewCard = {
+    id: 'card-1',
+    imageId: 'img-1',
+    difficulty: 'medium',
+    interval: 1,
+    easeFactor: 2.5,
+    nextReviewDate: new Date(),
+    reviewCount: 0,
+    successStreak: 0,
+  };
+
+  it('should return each registered algorithm by name', () => {
+    expect(createSchedulingAlgorithm('sm2').name).toBe('sm2');
+    expect(createSchedulingAlgorithm('leitner').name).toBe('leitner');
+    expect(createSchedulingAlgorithm('fsrs').name).toBe('fsrs');
+  });
+
+  it('should update cards through the shared contract', () => {
+    const now = new Date('2026-03-01T00:00:00Z');
+    for (const name of ['sm2', 'leitner', 'fsrs'] as const) {
+      const updated = createSchedulingAlgorithm(name).updateCard(card, 4, now);
+
+      expect(updated.reviewCount).toBe(1);
+      expect(updated.nextReviewDate.getTime()).toBeGreaterThan(now.getTime());
+    }
+  });
+
+  it('should replay review history into per-card state', () => {
+    const t0 = new Date('2026-03-01T00:00:00Z').getTime();
+    const logs = [
+      { cardId: 'b', quality: 4, reviewedAt: new Date(t0) },
+      { cardId: 'a', quality: 4, reviewedAt: new Date(t0 + 2 * DAY) },
+      { cardId: 'a', quality: 4, reviewedAt: new Date(t0) },
+    ];
+
+    const cards = replayReviewHistory(logs, createSchedulingAlgorithm('fsrs'));
+
+    expect(cards.size).toBe(2);
+    expect(cards.get('a')?.reviewCount).toBe(2);
+    expect(cards.get('a')?.lastReviewDate).toEqual(new Date(t0 + 2 * DAY));
+    expect(cards.get('b')?.reviewCount).toBe(1);
+  });
+
+  it('should drop FSRS state when SM-2 or Leitner schedule the card', () => {
+    const fsrsCard = createSchedulingAlgorithm('fsrs').updateCard(card, 4);
+    for (const name of ['sm2', 'leitner'] as const) {
+      const updated = createSchedulingAlgorithm(name).updateCard(fsrsCard, 4);
+
+      expect(updated).not.toHaveProperty('stability');
+      expect(updated).not.toHaveProperty('fsrsDifficulty');
+    }
+  });
+});
+
+describe('review row mapping', () => {
+  const row = {
+    id: 'item-1',
+    ease_factor: null,
+    interval: null,
+    repetitions: null,
+    last_review_date: null,
+    next_review_date: null,
+    fsrs_stability: null,
+    fsrs_difficulty: null,
+  };
+
+  it('should keep FSRS state exact across stored reviews at any retention', () => {
+    const algorithm = createSchedulingAlgorithm('fsrs', { requestRetention: 0.8 });
+    let reviewedAt = new Date('2026-03-01T00:00:00Z');
+    let inMemory: ReviewCard = cardFromReviewRow(row);
+    let stored = { ...row };
+
+    for (let review = 0; review < 6; review++) {
+      inMemory = algorithm.updateCard(inMemory, 4, reviewedAt);
+      const reloaded = algorithm.updateCard(cardFromReviewRow(stored), 4, reviewedAt);
+      stored = { id: row.id, ...reviewRowFromCard(reloaded) };
+      reviewedAt = new Date(inMemory.nextReviewDate);
+    }
+
+    const expected = inMemory as FSRSReviewCard;
+    expect(stored.fsrs_stability).toBeCloseTo(expected.stability, 10);
+    expect(stored.fsrs_difficulty).toBeCloseTo(expected.fsrsDifficulty, 10);
+    expect(stored.interval).toBe(expected.interval);
+  });
+
+  it('should store no FSRS state for cards other algorithms scheduled', () => {
+    const updated = createSchedulingAlgorithm('sm2').updateCard(cardFromReviewRow(row), 4);
+
+    expect(reviewRowFromCard(updated)).toMatchObject({ fsrs_stability: null, fsrs_difficulty: null });
+  });
+});
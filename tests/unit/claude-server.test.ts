@@ -9,12 +9,15 @@ import type Anthropic from '@anthropic-ai/sdk';
 // Mock the Anthropic SDK - use factory function for proper hoisting
 vi.mock('@anthropic-ai/sdk', () => {
   const mockCreate = vi.fn();
+  const mockStream = vi.fn();
   const MockAnthropic = vi.fn().mockImplementation(() => ({
     messages: {
       create: mockCreate,
+      stream: mockStream,
     },
   }));
   MockAnthropic.mockCreate = mockCreate;
+  MockAnthropic.mockStream = mockStream;
   return {
     default: MockAnthropic,
   };
@@ -72,6 +75,7 @@ vi.mock('@/lib/monitoring/claude-metrics', () => ({
 import {
   getServerClaudeClient,
   generateClaudeVisionDescription,
+  streamClaudeVisionDescription,
   generateClaudeCompletion,
   generateClaudeQA,
   translateWithClaude,
@@ -86,6 +90,7 @@ import AnthropicModule from '@anthropic-ai/sdk';
 // Type assertion for mock access
 const MockAnthropic = AnthropicModule as any;
 const mockCreate = MockAnthropic.mockCreate as ReturnType<typeof vi.fn>;
+const mockStream = MockAnthropic.mockStream as ReturnType<typeof vi.fn>;
 const mockGetServerKey = getServerKey as ReturnType<typeof vi.fn>;
 const mockApiLogger = apiLogger as any;
 const mockSecurityLogger = securityLogger as any;
@@ -420,6 +425,49 @@ describe('Claude Server - Unit Tests', () => {
       }
     });
 
+    it('should regenerate a description that misses its CEFR target', async () => {
+      const complexText =
+        'Aunque la composición pareciera meramente anecdótica, la disposición asimétrica de los elementos arquitectónicos revela una intencionalidad estética que habría pasado desapercibida si no se hubiera considerado el contexto histórico en el que fue concebida.';
+      const simpleText = 'El sol es grande. El cielo es azul. Hay un perro en la calle.';
+      mockCreate
+        .mockResolvedValueOnce({ ...mockResponse, content: [{ type: 'text', text: complexText }] })
+        .mockResolvedValueOnce({ ...mockResponse, content: [{ type: 'text', text: simpleText }] });
+
+      const result = await generateClaudeVisionDescription({
+        imageUrl: 'data:image/jpeg;base64,/9j/4AAQSkZJRg==',
+        style: 'infantil',
+        language: 'es',
+        cefrTarget: 'A1',
+      });
+
+      expect(mockCreate).toHaveBeenCalledTimes(2);
+      expect(result).toMatchObject({ text: simpleText, meetsTarget: true, attempts: 2 });
+      expect(result.analysis.estimatedLevel).toBe('A1');
+
+      const retryPrompt = mockCreate.mock.calls[1][0].messages[0].content[1].text;
+      expect(retryPrompt).toContain('CEFR level A1');
+      expect(retryPrompt).toContain('too difficult');
+    });
+
+    it('should flag a description that still misses its CEFR target', async () => {
+      mockCreate.mockResolvedValue({
+        ...mockResponse,
+        content: [{ type: 'text', text: 'El sol es grande. El cielo es azul.' }],
+      });
+
+      const result = await generateClaudeVisionDescription({
+        imageUrl: 'data:image/jpeg;base64,/9j/4AAQSkZJRg==',
+        style: 'academico',
+        language: 'es',
+        cefrTarget: 'C1',
+        maxAttempts: 3,
+      });
+
+      expect(mockCreate).toHaveBeenCalledTimes(3);
+      expect(result.meetsTarget).toBe(false);
+      expect(result.cefrTarget).toBe('C1');
+    });
+
     it('should throw error when response has no text content', async () => {
       mockCreate.mockResolvedValue({
         content: [{ type: 'other' }],
@@ -495,6 +543,65 @@ describe('Claude Server - Unit Tests', () => {
     });
   });
 
+  describe('streamClaudeVisionDescription', () => {
+    const fragments = ['Un atardecer ', 'sobre las ', 'montañas'];
+
+    beforeEach(() => {
+      mockGetServerKey.mockReturnValue('sk-ant-test-key');
+      mockStream.mockImplementation(() => {
+        const listeners: Array<(delta: string) => void> = [];
+        return {
+          on: (_event: string, listener: (delta: string) => void) => listeners.push(listener),
+          finalMessage: async () => {
+            fragments.forEach(fragment => listeners.forEach(listener => listener(fragment)));
+            return {
+              model: CLAUDE_MODEL,
+              content: [{ type: 'text', text: fragments.join('') }],
+              usage: { input_tokens: 150, output_tokens: 20 },
+              stop_reason: 'end_turn',
+            };
+          },
+        };
+      });
+    });
+
+    it('should forward text fragments and resolve with the full description', async () => {
+      const onText = vi.fn();
+      const controller = new AbortController();
+
+      const description = await streamClaudeVisionDescription(
+        {
+          imageUrl: 'data:image/jpeg;base64,/9j/4AAQSkZJRg==',
+          style: 'narrativo',
+          language: 'es',
+        },
+        { onText, signal: controller.signal }
+      );
+
+      expect(description).toBe('Un atardecer sobre las montañas');
+      expect(onText.mock.calls.map(([delta]) => delta)).toEqual(fragments);
+      expect(mockStream).toHaveBeenCalledWith(
+        expect.objectContaining({ model: CLAUDE_MODEL }),
+        { signal: controller.signal }
+      );
+    });
+
+    it('should map API errors like the non-streaming call', async () => {
+      const error: any = new Error('Rate limit');
+      error.status = 429;
+      mockStream.mockImplementation(() => {
+        throw error;
+      });
+
+      await expect(
+        streamClaudeVisionDescription(
+          { imageUrl: 'data:image/jpeg;base64,/9j/4AAQSkZJRg==', style: 'narrativo' },
+          { onText: vi.fn() }
+        )
+      ).rejects.toThrow('Rate limit exceeded');
+    });
+  });
+
   describe('generateClaudeCompletion', () => {
     const mockResponse = {
       model: CLAUDE_MODEL,
@@ -677,6 +784,21 @@ describe('Claude Server - Unit Tests', () => {
       );
     });
 
+    it('should ask for questions in the requested target language', async () => {
+      await generateClaudeQA('Un ciel bleu', 'facil', 3, undefined, 'fr');
+
+      expect(mockCreate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          system: expect.stringContaining('expert French language teacher'),
+          messages: expect.arrayContaining([
+            expect.objectContaining({
+              content: expect.stringContaining('Que décrit-on dans l’image ?'),
+            }),
+          ]),
+        })
+      );
+    });
+
     it('should throw error when JSON extraction fails', async () => {
       mockCreate.mockResolvedValue({
         model: CLAUDE_MODEL,
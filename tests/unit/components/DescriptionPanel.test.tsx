@@ -27,6 +27,9 @@ vi.mock('lucide-react', () => ({
   Baby: ({ className }: { className?: string }) => (
     <div data-testid="baby-icon" className={className}>Baby</div>
   ),
+  Square: ({ className }: { className?: string }) => (
+    <div data-testid="square-icon" className={className}>Square</div>
+  ),
 }))
 
 // Mock ProgressIndicator components
@@ -105,6 +108,28 @@ describe('DescriptionPanel', () => {
     expect(screen.getByTestId('loader-icon')).toBeInTheDocument()
   })
 
+  it('should offer to stop a generation in progress', () => {
+    const onCancel = vi.fn()
+    renderWithProviders(<DescriptionPanel {...defaultProps} isGenerating={true} onCancel={onCancel} />)
+
+    fireEvent.click(screen.getByText('Stop'))
+
+    expect(onCancel).toHaveBeenCalledTimes(1)
+  })
+
+  it('should show streamed text in place of the progress indicator', () => {
+    const streamingProps = {
+      ...defaultProps,
+      isGenerating: true,
+      isStreaming: true,
+      generatedDescriptions: { english: null, spanish: 'Una hermosa' },
+    }
+    renderWithProviders(<DescriptionPanel {...streamingProps} />)
+
+    expect(screen.getByText('Una hermosa')).toBeInTheDocument()
+    expect(screen.getByTestId('description-progress')).toHaveTextContent('Ready')
+  })
+
   it('should show style selector when image is present', () => {
     renderWithProviders(<DescriptionPanel {...defaultProps} />)
     
@@ -23,8 +23,11 @@ vi.mock('@/hooks/useDescriptions', () => ({
   useDescriptions: () => ({
     descriptions: [],
     isLoading: false,
+    isStreaming: false,
     error: null,
-    generateDescription: vi.fn()
+    generateDescription: vi.fn(),
+    generateDescriptionStream: vi.fn(() => Promise.resolve([])),
+    cancelGeneration: vi.fn()
   })
 }));
 
@@ -356,6 +356,129 @@ describe('useDescriptions', () => {
     });
   });
 
+  describe('Streaming Generation', () => {
+    const imageUrl = 'https://example.com/test-image.jpg';
+    const streamedEnglish = {
+      id: '1_en',
+      imageId: imageUrl,
+      style: 'narrativo',
+      content: 'A mountain rises.',
+      language: 'english',
+      createdAt: new Date().toISOString(),
+    };
+    const streamedSpanish = {
+      ...streamedEnglish,
+      id: '2_es',
+      content: 'Una montaña se eleva.',
+      language: 'spanish',
+    };
+
+    const sse = (event: string, data: unknown) =>
+      `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+
+    const mockStream = (chunks: string[], keepOpen = false) => {
+      const encoder = new TextEncoder();
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+          if (!keepOpen) controller.close();
+        },
+      });
+      (global.fetch as any).mockReset();
+      (global.fetch as any).mockImplementationOnce(async (_url: string, init: RequestInit) => {
+        const reader = body.getReader();
+        init.signal?.addEventListener('abort', () =>
+          reader.cancel().catch(() => undefined)
+        );
+        return {
+          ok: true,
+          status: 200,
+          body: {
+            getReader: () => ({
+              read: () =>
+                init.signal?.aborted
+                  ? Promise.reject(new DOMException('Aborted', 'AbortError'))
+                  : reader.read(),
+            }),
+          },
+        };
+      });
+    };
+
+    it('should build descriptions from streamed fragments', async () => {
+      const full = sse('start', {
+        requestId: 'req-1',
+        descriptions: [
+          { id: '1_en', language: 'english' },
+          { id: '2_es', language: 'spanish' },
+        ],
+      }) +
+        sse('delta', { id: '2_es', language: 'spanish', text: 'Una montaña ' }) +
+        sse('delta', { id: '2_es', language: 'spanish', text: 'se eleva.' }) +
+        sse('description', streamedEnglish) +
+        sse('description', streamedSpanish) +
+        sse('done', { success: true, data: [streamedEnglish, streamedSpanish], metadata: {} });
+
+      // Split mid-event to exercise buffering across chunks
+      mockStream([full.slice(0, 75), full.slice(75)]);
+      const { result } = renderHook(() => useDescriptions(imageUrl));
+
+      let descriptions: any[] = [];
+      await act(async () => {
+        descriptions = await result.current.generateDescriptionStream({
+          imageUrl,
+          style: 'narrativo',
+        });
+      });
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        '/api/descriptions/generate/stream',
+        expect.objectContaining({ method: 'POST' })
+      );
+      expect(descriptions.map(d => d.content)).toEqual([
+        'A mountain rises.',
+        'Una montaña se eleva.',
+      ]);
+      expect(result.current.descriptions).toHaveLength(2);
+      expect(result.current.isStreaming).toBe(false);
+    });
+
+    it('should keep partial text when generation is cancelled', async () => {
+      mockStream(
+        [
+          sse('start', { requestId: 'req-2', descriptions: [{ id: '2_es', language: 'spanish' }] }),
+          sse('delta', { id: '2_es', language: 'spanish', text: 'Una montaña' }),
+        ],
+        true
+      );
+      const { result } = renderHook(() => useDescriptions(imageUrl));
+
+      let pending!: Promise<any[]>;
+      act(() => {
+        pending = result.current.generateDescriptionStream({ imageUrl, style: 'narrativo' });
+      });
+
+      await waitFor(() => {
+        expect(result.current.descriptions[0]?.content).toBe('Una montaña');
+      });
+      expect(result.current.descriptions[0].isLoading).toBe(true);
+
+      let partial: any[] = [];
+      await act(async () => {
+        result.current.cancelGeneration();
+        partial = await pending;
+      });
+
+      expect(partial).toHaveLength(1);
+      expect(result.current.descriptions[0]).toMatchObject({
+        content: 'Una montaña',
+        isLoading: false,
+      });
+      expect(result.current.error).toBeNull();
+      expect(result.current.isLoading).toBe(false);
+    });
+  });
+
   describe('Cleanup and Memory', () => {
     it('should cleanup on unmount', () => {
       const { unmount } = renderHook(() => useDescriptions('test-image'));
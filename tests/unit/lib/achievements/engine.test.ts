@@ -0,0 +1,195 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_ACHIEVEMENT_RULES,
+  achievementRuleSchema,
+  aggregateRule,
+  evaluateAchievements,
+  mergeAchievementRules,
+  type AchievementEvent,
+  type AchievementRule,
+} from '@/lib/achievements';
+
+const NOW = new Date('2026-10-19T12:00:00.000Z');
+
+const rule = (overrides: Partial<AchievementRule>): AchievementRule => ({
+  id: 'test_rule',
+  name: 'Test',
+  description: 'Test rule',
+  category: 'milestone',
+  rarity: 'common',
+  eventTypes: ['session_completed'],
+  conditions: [],
+  aggregation: 'count',
+  threshold: 3,
+  experiencePoints: 10,
+  enabled: true,
+  ...overrides,
+});
+
+let sequence = 0;
+const event = (
+  data: Record<string, unknown> = {},
+  occurredAt = NOW.toISOString(),
+  type = 'session_completed'
+): AchievementEvent => ({ eventId: `event-${++sequence}`, type, data, occurredAt });
+
+const daysAgo = (days: number) => new Date(NOW.getTime() - days * 86400000).toISOString();
+
+describe('aggregateRule', () => {
+  it('should count events that meet every condition', () => {
+    const accurate = rule({
+      conditions: [
+        { field: 'accuracy', op: 'gte', value: 0.9 },
+        { field: 'sessionType', op: 'eq', value: 'quiz' },
+      ],
+    });
+    const events = [
+      event({ accuracy: 0.95, sessionType: 'quiz' }),
+      event({ accuracy: 0.5, sessionType: 'quiz' }),
+      event({ accuracy: 1, sessionType: 'study' }),
+      event({ sessionType: 'quiz' }),
+    ];
+
+    expect(aggregateRule(accurate, events, NOW)).toBe(1);
+  });
+
+  it('should ignore event types the rule does not listen to', () => {
+    expect(aggregateRule(rule({}), [event({}, undefined, 'qa_correct')], NOW)).toBe(0);
+    expect(
+      aggregateRule(rule({ eventTypes: ['*'] }), [event({}, undefined, 'qa_correct')], NOW)
+    ).toBe(1);
+  });
+
+  it('should sum, take the max of and count distinct values of a field', () => {
+    const events = [
+      event({ questionsAnswered: 4, imageUrl: 'a' }),
+      event({ questionsAnswered: 6, imageUrl: 'b' }),
+      event({ questionsAnswered: 'many', imageUrl: 'a' }),
+    ];
+
+    expect(
+      aggregateRule(rule({ aggregation: 'sum', field: 'questionsAnswered' }), events, NOW)
+    ).toBe(10);
+    expect(
+      aggregateRule(rule({ aggregation: 'max', field: 'questionsAnswered' }), events, NOW)
+    ).toBe(6);
+    expect(aggregateRule(rule({ aggregation: 'distinct', field: 'imageUrl' }), events, NOW)).toBe(
+      2
+    );
+  });
+
+  it('should only count events inside the time window', () => {
+    const weekly = rule({ windowDays: 7 });
+    const events = [event({}, daysAgo(1)), event({}, daysAgo(6)), event({}, daysAgo(8))];
+
+    expect(aggregateRule(weekly, events, NOW)).toBe(2);
+  });
+
+  it('should count a streak of consecutive days ending today or yesterday', () => {
+    const streak = rule({ aggregation: 'streak' });
+
+    expect(
+      aggregateRule(
+        streak,
+        [event({}, daysAgo(0)), event({}, daysAgo(1)), event({}, daysAgo(2))],
+        NOW
+      )
+    ).toBe(3);
+    expect(aggregateRule(streak, [event({}, daysAgo(1)), event({}, daysAgo(2))], NOW)).toBe(2);
+    expect(aggregateRule(streak, [event({}, daysAgo(2)), event({}, daysAgo(3))], NOW)).toBe(0);
+    expect(
+      aggregateRule(
+        streak,
+        [event({}, daysAgo(0)), event({}, daysAgo(0)), event({}, daysAgo(2))],
+        NOW
+      )
+    ).toBe(1);
+  });
+});
+
+describe('evaluateAchievements', () => {
+  it('should unlock a rule when its threshold is reached', () => {
+    const result = evaluateAchievements([rule({})], [event(), event(), event()], [], NOW);
+
+    expect(result.unlocked.map(unlocked => unlocked.id)).toEqual(['test_rule']);
+    expect(result.progress).toEqual([
+      { achievementId: 'test_rule', progress: 3, target: 3, unlockedAt: NOW.toISOString() },
+    ]);
+  });
+
+  it('should report progress below the threshold without unlocking', () => {
+    const result = evaluateAchievements([rule({})], [event()], [], NOW);
+
+    expect(result.unlocked).toEqual([]);
+    expect(result.progress[0]).toMatchObject({ progress: 1, unlockedAt: null });
+  });
+
+  it('should count a replayed event once', () => {
+    const once = event();
+    const result = evaluateAchievements([rule({})], [once, once, { ...once }], [], NOW);
+
+    expect(result.progress[0].progress).toBe(1);
+    expect(result.unlocked).toEqual([]);
+  });
+
+  it('should not unlock again and keep the first unlock time', () => {
+    const unlockedAt = '2026-10-01T00:00:00.000Z';
+    const result = evaluateAchievements(
+      [rule({})],
+      [event(), event(), event(), event()],
+      [{ achievementId: 'test_rule', progress: 3, target: 3, unlockedAt }],
+      NOW
+    );
+
+    expect(result.unlocked).toEqual([]);
+    expect(result.progress[0]).toMatchObject({ progress: 3, unlockedAt });
+  });
+
+  it('should keep a windowed achievement once the window has passed', () => {
+    const unlockedAt = daysAgo(30);
+    const result = evaluateAchievements(
+      [rule({ windowDays: 7 })],
+      [],
+      [{ achievementId: 'test_rule', progress: 3, target: 3, unlockedAt }],
+      NOW
+    );
+
+    expect(result.progress[0]).toMatchObject({ progress: 3, unlockedAt });
+  });
+
+  it('should skip disabled rules', () => {
+    const result = evaluateAchievements(
+      [rule({ enabled: false })],
+      [event(), event(), event()],
+      [],
+      NOW
+    );
+
+    expect(result).toEqual({ progress: [], unlocked: [] });
+  });
+});
+
+describe('achievement rules', () => {
+  it('should ship built-in rules that satisfy the schema', () => {
+    for (const builtIn of DEFAULT_ACHIEVEMENT_RULES) {
+      expect(achievementRuleSchema.safeParse(builtIn).success).toBe(true);
+    }
+  });
+
+  it('should require a field for field aggregations', () => {
+    const { field: _field, ...withoutField } = rule({ aggregation: 'sum', field: 'score' });
+
+    expect(achievementRuleSchema.safeParse(withoutField).success).toBe(false);
+  });
+
+  it('should let stored rules replace built-in ones by id and add new ones', () => {
+    const merged = mergeAchievementRules([
+      rule({ id: 'first_steps', enabled: false }),
+      rule({ id: 'custom_rule' }),
+    ]);
+
+    expect(merged).toHaveLength(DEFAULT_ACHIEVEMENT_RULES.length + 1);
+    expect(merged.find(entry => entry.id === 'first_steps')?.enabled).toBe(false);
+    expect(merged.some(entry => entry.id === 'custom_rule')).toBe(true);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { encodeStreamEvent, parseStreamEvents } from '@/lib/api/description-stream';
+
+describe('description stream events', () => {
+  it('should round-trip encoded events', () => {
+    const encoded =
+      encodeStreamEvent({
+        event: 'delta',
+        data: { id: '1_es', language: 'spanish', text: 'Una montaña\nalta' },
+      }) + encodeStreamEvent({ event: 'error', data: { message: 'Rate limit exceeded' } });
+
+    const { events, remainder } = parseStreamEvents(encoded);
+
+    expect(remainder).toBe('');
+    expect(events).toEqual([
+      { event: 'delta', data: { id: '1_es', language: 'spanish', text: 'Una montaña\nalta' } },
+      { event: 'error', data: { message: 'Rate limit exceeded' } },
+    ]);
+  });
+
+  it('should keep an incomplete trailing event for the next chunk', () => {
+    const encoded = encodeStreamEvent({
+      event: 'delta',
+      data: { id: '1_es', language: 'spanish', text: 'Hola' },
+    });
+
+    const first = parseStreamEvents(encoded.slice(0, 20));
+    expect(first.events).toEqual([]);
+
+    const second = parseStreamEvents(first.remainder + encoded.slice(20));
+    expect(second.events).toHaveLength(1);
+  });
+
+  it('should skip comments, unknown events and malformed data', () => {
+    const { events } = parseStreamEvents(
+      ': keep-alive\n\nevent: ping\ndata: {}\n\nevent: delta\ndata: {not json\n\n'
+    );
+
+    expect(events).toEqual([]);
+  });
+});
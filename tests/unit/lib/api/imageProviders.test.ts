@@ -0,0 +1,192 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import {
+  PexelsImageProvider,
+  WikimediaImageProvider,
+  parseImageProviderNames,
+  searchImageProviders,
+  type ImageProvider,
+  type ImageProviderName,
+  type ProviderImage,
+} from '@/lib/api/imageProviders';
+
+const image = (
+  provider: ImageProviderName,
+  id: string,
+  url = `https://${provider}.test/${id}.jpg`
+) =>
+  ({
+    id,
+    urls: { small: `${url}?w=400`, regular: `${url}?w=1080`, full: url },
+    alt_description: id,
+    description: null,
+    user: { name: 'Ana', username: 'ana' },
+    width: 1200,
+    height: 800,
+    color: '#cccccc',
+    provider,
+    attribution: { provider, providerName: provider, author: 'Ana' },
+  }) satisfies ProviderImage;
+
+const stubProvider = (name: ImageProviderName, search: ImageProvider['search']): ImageProvider => ({
+  name,
+  isConfigured: () => true,
+  search,
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('searchImageProviders', () => {
+  it('should interleave providers and drop duplicate photos', async () => {
+    const shared = 'https://cdn.test/shared.jpg';
+    const a = stubProvider('unsplash', async () => ({
+      images: [image('unsplash', 'a1'), image('unsplash', 'a2', shared)],
+      total: 40,
+      totalPages: 20,
+    }));
+    const b = stubProvider('pexels', async () => ({
+      images: [image('pexels', 'b1', shared), image('pexels', 'b2')],
+      total: 10,
+      totalPages: 5,
+    }));
+
+    const result = await searchImageProviders(
+      { query: 'perro', page: 1, per_page: 4 },
+      { providers: [a, b] }
+    );
+
+    expect(result.images.map(img => img.id)).toEqual(['a1', 'b1', 'b2']);
+    expect(result).toMatchObject({ total: 50, totalPages: 20, currentPage: 1, hasNextPage: true });
+  });
+
+  it('should report a failing or slow provider without failing the search', async () => {
+    const ok = stubProvider('wikimedia', async () => ({
+      images: [image('wikimedia', 'w1')],
+      total: 1,
+      totalPages: 1,
+    }));
+    const broken = stubProvider('pexels', async () => {
+      throw new Error('Search failed with 500');
+    });
+    const slow = stubProvider('local', () => new Promise(() => {}));
+
+    const result = await searchImageProviders(
+      { query: 'gato', page: 1, per_page: 9 },
+      { providers: [ok, broken, slow], timeoutMs: 20 }
+    );
+
+    expect(result.images.map(img => img.id)).toEqual(['w1']);
+    expect(result.providers).toEqual([
+      { provider: 'wikimedia', count: 1, total: 1 },
+      { provider: 'pexels', count: 0, total: 0, error: 'Search failed with 500' },
+      { provider: 'local', count: 0, total: 0, error: 'Timed out after 20ms' },
+    ]);
+  });
+});
+
+describe('parseImageProviderNames', () => {
+  it('should de-duplicate names and reject unknown providers', () => {
+    expect(parseImageProviderNames('pexels,local,pexels')).toEqual(['pexels', 'local']);
+    expect(parseImageProviderNames(undefined)).toEqual([]);
+    expect(() => parseImageProviderNames('flickr')).toThrow();
+  });
+});
+
+describe('provider attribution', () => {
+  it('should credit Pexels photographers', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () =>
+        Response.json({
+          page: 1,
+          per_page: 1,
+          total_results: 1,
+          photos: [
+            {
+              id: 7,
+              width: 1600,
+              height: 900,
+              url: 'https://www.pexels.com/photo/mercado-7/',
+              photographer: 'Luis Gómez',
+              photographer_url: 'https://www.pexels.com/@luis',
+              avg_color: '#aa8855',
+              alt: 'Mercado de fruta',
+              src: {
+                original: 'https://images.pexels.com/7.jpeg',
+                large2x: 'https://images.pexels.com/7.jpeg?w=1880',
+                large: 'https://images.pexels.com/7.jpeg?w=940',
+                medium: 'https://images.pexels.com/7.jpeg?h=350',
+                small: 'https://images.pexels.com/7.jpeg?h=130',
+                tiny: 'https://images.pexels.com/7.jpeg?h=200',
+              },
+            },
+          ],
+        })
+      )
+    );
+
+    const page = await new PexelsImageProvider('key').search({
+      query: 'mercado',
+      page: 1,
+      perPage: 1,
+    });
+
+    expect(page.images[0]).toMatchObject({
+      id: 'pexels-7',
+      provider: 'pexels',
+      attribution: {
+        providerName: 'Pexels',
+        author: 'Luis Gómez',
+        authorUrl: 'https://www.pexels.com/@luis',
+        sourceUrl: 'https://www.pexels.com/photo/mercado-7/',
+      },
+    });
+  });
+
+  it('should take the author and license from Wikimedia Commons metadata', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () =>
+        Response.json({
+          query: {
+            pages: {
+              '42': {
+                pageid: 42,
+                title: 'File:Plaza Mayor.jpg',
+                index: 1,
+                imageinfo: [
+                  {
+                    url: 'https://upload.wikimedia.org/a/ab/Plaza_Mayor.jpg',
+                    thumburl:
+                      'https://upload.wikimedia.org/thumb/a/ab/Plaza_Mayor.jpg/1080px-Plaza_Mayor.jpg',
+                    width: 3000,
+                    height: 2000,
+                    descriptionurl: 'https://commons.wikimedia.org/wiki/File:Plaza_Mayor.jpg',
+                    mime: 'image/jpeg',
+                    extmetadata: {
+                      Artist: { value: '<a href="/wiki/User:Marta">Marta</a>' },
+                      LicenseShortName: { value: 'CC BY-SA 4.0' },
+                    },
+                  },
+                ],
+              },
+            },
+          },
+        })
+      )
+    );
+
+    const page = await new WikimediaImageProvider().search({ query: 'plaza', page: 1, perPage: 5 });
+
+    expect(page.images[0]).toMatchObject({
+      id: 'wikimedia-42',
+      alt_description: 'Plaza Mayor',
+      urls: {
+        thumb: 'https://upload.wikimedia.org/thumb/a/ab/Plaza_Mayor.jpg/200px-Plaza_Mayor.jpg',
+      },
+      attribution: { providerName: 'Wikimedia Commons', author: 'Marta', license: 'CC BY-SA 4.0' },
+    });
+    expect(page.totalPages).toBe(1);
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { unzipSync, strFromU8 } from 'fflate';
+import initSqlJs from 'sql.js/dist/sql-asm.js';
+import { exportToAnki } from '@/lib/export/ankiExporter';
+import type { ExportData } from '@/types/export';
+
+const PNG_BYTES = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const WAV_BYTES = new Uint8Array([0x52, 0x49, 0x46, 0x46, 0x24, 0x00, 0x00, 0x00]);
+
+const exportData: ExportData = {
+  metadata: {
+    exportId: 'test-export',
+    createdAt: '2026-10-19T00:00:00.000Z',
+    format: 'anki',
+    options: { format: 'anki', categories: ['vocabulary', 'qa', 'descriptions'] },
+    totalItems: 3,
+    categories: ['vocabulary', 'qa', 'descriptions'],
+    version: '1.0.0',
+  },
+  vocabulary: [
+    {
+      phrase: 'el perro',
+      translation: 'the dog',
+      definition: 'Animal doméstico',
+      partOfSpeech: 'noun',
+      difficulty: 'beginner',
+      context: 'Veo el perro en la calle.',
+      category: 'animals',
+      dateAdded: '2026-10-19',
+    },
+  ],
+  qa: [
+    {
+      id: 'qa-1',
+      imageId: 'img-1',
+      imageUrl: 'https://images.example.com/dog.png',
+      question: '¿Qué animal hay?',
+      answer: 'Un perro',
+      createdAt: '2026-10-19',
+    },
+  ],
+  descriptions: [
+    {
+      id: 'desc-1',
+      imageId: 'img-1',
+      imageUrl: 'https://images.example.com/dog.png',
+      style: 'narrativo',
+      content:
+        'Un perro marrón corre alegremente por la calle mojada. La gente camina despacio bajo paraguas enormes.',
+      wordCount: 16,
+      language: 'es',
+      createdAt: '2026-10-19',
+    },
+  ],
+};
+
+// jsdom's Blob has no arrayBuffer()
+function readBlob(blob: Blob): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+async function openPackage(blob: Blob) {
+  const files = unzipSync(await readBlob(blob));
+  const SQL = await initSqlJs();
+  const db = new SQL.Database(files['collection.anki2']);
+  const rows = (sql: string) => db.exec(sql)[0]?.values ?? [];
+
+  return { files, db, rows };
+}
+
+describe('exportToAnki', () => {
+  beforeEach(() => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => new Response(PNG_BYTES, { headers: { 'content-type': 'image/png' } }))
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should build an .apkg with notes, cards and note types', async () => {
+    const blob = await exportToAnki(exportData, { deckName: 'Spanish', noteType: 'cloze' });
+    const { files, db, rows } = await openPackage(blob);
+
+    expect(blob.type).toBe('application/apkg');
+    expect(Object.keys(files)).toEqual(expect.arrayContaining(['collection.anki2', 'media']));
+
+    // reversed vocabulary + vocabulary cloze + Q&A + description + 2 comprehension clozes
+    expect(rows('SELECT COUNT(*) FROM notes')[0][0]).toBe(6);
+    // the reversed note produces two cards
+    expect(rows('SELECT COUNT(*) FROM cards')[0][0]).toBe(7);
+
+    const models = JSON.parse(rows('SELECT models FROM col')[0][0] as string);
+    const modelNames = Object.values(models).map((model: any) => model.name);
+    expect(modelNames).toEqual(
+      expect.arrayContaining([
+        'Describe It Basic',
+        'Describe It Basic (and reversed card)',
+        'Describe It Cloze',
+      ])
+    );
+
+    const clozeNote = rows("SELECT flds FROM notes WHERE flds LIKE '%{{c1::el perro}}%'");
+    expect(clozeNote).toHaveLength(1);
+    db.close();
+  });
+
+  it('should place notes in subdecks of the main deck', async () => {
+    const blob = await exportToAnki(exportData, { deckName: 'Spanish' });
+    const { db, rows } = await openPackage(blob);
+
+    const decks = JSON.parse(rows('SELECT decks FROM col')[0][0] as string);
+    const deckNames = Object.values(decks).map((deck: any) => deck.name);
+    expect(deckNames).toEqual(
+      expect.arrayContaining([
+        'Spanish',
+        'Spanish::Vocabulary',
+        'Spanish::Q&A',
+        'Spanish::Descriptions',
+      ])
+    );
+
+    const usedDecks = rows('SELECT DISTINCT did FROM cards').map(([did]) => decks[String(did)].name);
+    expect(usedDecks).not.toContain('Spanish');
+    db.close();
+  });
+
+  it('should keep note GUIDs stable across exports', async () => {
+    const first = await openPackage(await exportToAnki(exportData, { deckName: 'Spanish' }));
+    const second = await openPackage(await exportToAnki(exportData, { deckName: 'Spanish' }));
+
+    const guids = (rows: typeof first.rows) =>
+      rows('SELECT guid FROM notes ORDER BY guid').map(([guid]) => guid);
+    expect(guids(second.rows)).toEqual(guids(first.rows));
+
+    first.db.close();
+    second.db.close();
+  });
+
+  it('should embed description images as package media', async () => {
+    const blob = await exportToAnki(exportData, { deckName: 'Spanish', includeImages: true });
+    const { files, db, rows } = await openPackage(blob);
+
+    const manifest = JSON.parse(strFromU8(files.media));
+    expect(Object.keys(manifest)).toEqual(['0']);
+    expect(manifest['0']).toMatch(/^describe-it-[0-9a-f]{16}\.png$/);
+    expect(files['0']).toEqual(PNG_BYTES);
+    // the same image URL is fetched once and shared by both notes
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    const withImage = rows(`SELECT COUNT(*) FROM notes WHERE flds LIKE '%src="${manifest['0']}"%'`);
+    expect(withImage[0][0]).toBe(2);
+    db.close();
+  });
+
+  it('should embed pronunciation audio as [sound:] media', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => new Response(WAV_BYTES, { headers: { 'content-type': 'audio/wav' } }))
+    );
+
+    const blob = await exportToAnki(exportData, { deckName: 'Spanish', includeAudio: true });
+    const { files, db, rows } = await openPackage(blob);
+
+    const manifest = JSON.parse(strFromU8(files.media));
+    const filenames = Object.values(manifest) as string[];
+    // one clip for the vocabulary phrase, one for the description
+    expect(filenames).toHaveLength(2);
+    filenames.forEach(filename =>
+      expect(filename).toMatch(/^describe-it-audio-[0-9a-f]{16}\.wav$/)
+    );
+    expect(files['0']).toEqual(WAV_BYTES);
+
+    const speechCall = vi.mocked(fetch).mock.calls[0];
+    expect(speechCall[0]).toBe('/api/speech');
+    expect(JSON.parse(speechCall[1]?.body as string)).toMatchObject({
+      text: 'el perro',
+      locale: 'es-ES',
+    });
+
+    for (const filename of filenames) {
+      const withSound = rows(`SELECT COUNT(*) FROM notes WHERE flds LIKE '%[sound:${filename}]%'`);
+      expect(withSound[0][0]).toBe(1);
+    }
+    db.close();
+  });
+
+  it('should leave audio out unless asked', async () => {
+    const blob = await exportToAnki(exportData, { deckName: 'Spanish' });
+    const { files, db, rows } = await openPackage(blob);
+
+    expect(JSON.parse(strFromU8(files.media))).toEqual({});
+    expect(rows("SELECT COUNT(*) FROM notes WHERE flds LIKE '%[sound:%'")[0][0]).toBe(0);
+    db.close();
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type jsPDF from 'jspdf';
+import {
+  renderFlashcardSheet,
+  renderVocabularyList,
+  renderWorksheet,
+} from '@/lib/export/pdfLayouts';
+import { exportToPDF, resolvePDFLayout } from '@/lib/export/pdfExporter';
+import type { ExportData, VocabularyExportItem } from '@/types/export';
+
+// 1x1 transparent PNG
+const PNG_BYTES = Uint8Array.from(
+  atob(
+    'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg=='
+  ),
+  char => char.charCodeAt(0)
+);
+
+const word = (phrase: string, translation: string): VocabularyExportItem => ({
+  phrase,
+  translation,
+  definition: `Definición de ${phrase}`,
+  partOfSpeech: 'noun',
+  difficulty: 'beginner',
+  context: `Veo ${phrase} en la foto.`,
+  category: 'general',
+  imageUrl: 'https://images.example.com/scene.png',
+  dateAdded: '2026-10-19',
+});
+
+const data: ExportData = {
+  metadata: {
+    exportId: 'test-export',
+    createdAt: '2026-10-19T00:00:00.000Z',
+    format: 'pdf',
+    options: { format: 'pdf', categories: ['vocabulary', 'qa'] },
+    totalItems: 9,
+    categories: ['vocabulary', 'qa'],
+    version: '1.0.0',
+  },
+  vocabulary: [
+    word('el perro', 'the dog'),
+    word('el gato', 'the cat'),
+    word('la casa', 'the house'),
+    word('el árbol', 'the tree'),
+    word('la calle', 'the street'),
+    word('el coche', 'the car'),
+    word('la mesa', 'the table'),
+  ],
+  qa: [
+    {
+      id: 'qa-1',
+      imageId: 'img-1',
+      imageUrl: 'https://images.example.com/scene.png',
+      question: '¿Qué animal hay en la calle?',
+      answer: 'Hay un perro marrón.',
+      createdAt: '2026-10-19',
+    },
+    {
+      id: 'qa-2',
+      imageId: 'img-1',
+      imageUrl: 'https://images.example.com/scene.png',
+      question: '¿De qué color es la casa?',
+      answer: 'La casa es blanca.',
+      createdAt: '2026-10-19',
+    },
+  ],
+};
+
+function pageContent(pdf: jsPDF, page: number): string {
+  return (pdf.internal as unknown as { pages: string[][] }).pages[page].join('\n');
+}
+
+describe('PDF printable layouts', () => {
+  beforeEach(() => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => new Response(PNG_BYTES, { headers: { 'content-type': 'image/png' } }))
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should list vocabulary with each image fetched once', async () => {
+    const pdf = await renderVocabularyList(data);
+    const output = pdf.output();
+
+    expect(pageContent(pdf, 1)).toContain('(Vocabulary List)');
+    expect(output).toContain('/Subtype /Image');
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should still render the list when an image cannot be loaded', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('offline')));
+
+    const pdf = await renderVocabularyList(data);
+
+    expect(pdf.output()).not.toContain('/Subtype /Image');
+    expect(pageContent(pdf, 1)).toContain('el perro');
+  });
+
+  it('should put six fold-in-half cards on each page', async () => {
+    const pdf = await renderFlashcardSheet(data);
+
+    expect(pdf.getNumberOfPages()).toBe(2);
+    expect(pageContent(pdf, 1)).toContain('(el perro)');
+    expect(pageContent(pdf, 1)).toContain('(the dog)');
+    expect(pageContent(pdf, 2)).toContain('(la mesa)');
+  });
+
+  it('should print the answer key on a separate page', async () => {
+    const pdf = await renderWorksheet(data);
+    const lastPage = pdf.getNumberOfPages();
+
+    expect(lastPage).toBeGreaterThan(1);
+    expect(pageContent(pdf, 1)).toContain('De qué color es la casa?');
+    expect(pageContent(pdf, 1)).not.toContain('La casa es blanca.');
+    expect(pageContent(pdf, lastPage)).toContain('(Answer Key)');
+    expect(pageContent(pdf, lastPage)).toContain('(La casa es blanca.)');
+  });
+
+  it('should reject a worksheet without Q&A items', async () => {
+    await expect(renderWorksheet({ ...data, qa: [] })).rejects.toThrow('Q&A');
+  });
+});
+
+describe('exportToPDF', () => {
+  it('should choose the layout from the options', () => {
+    expect(resolvePDFLayout()).toBe('report');
+    expect(resolvePDFLayout({ studySheetFormat: true })).toBe('study-sheet');
+    expect(resolvePDFLayout({ studySheetFormat: true, layout: 'worksheet' })).toBe('worksheet');
+  });
+
+  it('should export a layout as a PDF blob', async () => {
+    const blob = await exportToPDF(data, { layout: 'flashcards' });
+
+    expect(blob.type).toBe('application/pdf');
+    expect(blob.size).toBeGreaterThan(0);
+  });
+});
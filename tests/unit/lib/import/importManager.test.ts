@@ -0,0 +1,237 @@
+import { describe, it, expect } from 'vitest';
+import { unzipSync, zipSync } from 'fflate';
+import initSqlJs from 'sql.js/dist/sql-asm.js';
+import { buildAnkiPackage, type AnkiPackageNote } from '@/lib/export/ankiPackage';
+import {
+  importFromApkg,
+  importFromCSV,
+  importFromTabSeparated,
+  inspectImportFile,
+  resolveFieldPositions,
+} from '@/lib/import/importManager';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// jsdom's File implements neither text() nor arrayBuffer()
+function testFile(content: string | Uint8Array, name: string): File {
+  const bytes = typeof content === 'string' ? new TextEncoder().encode(content) : content;
+  return {
+    name,
+    size: bytes.length,
+    text: async () => new TextDecoder().decode(bytes),
+    arrayBuffer: async () => bytes.slice().buffer,
+  } as unknown as File;
+}
+
+const notes: AnkiPackageNote[] = [
+  {
+    key: 'perro',
+    noteType: 'reversed',
+    fields: ['el perro', 'the dog'],
+    tags: [],
+    deck: 'Spanish::Animals',
+  },
+  {
+    key: 'gato',
+    noteType: 'basic',
+    fields: ['el <b>gato</b>', 'the cat&nbsp;'],
+    tags: [],
+    deck: 'Spanish::Animals',
+  },
+  {
+    key: 'casa',
+    noteType: 'cloze',
+    fields: ['Vivo en una {{c1::casa::house}} grande.', ''],
+    tags: [],
+    deck: 'Spanish',
+  },
+];
+
+/**
+ * Build an .apkg and append review log rows for the first note's first card
+ */
+async function packageWithHistory(eases: number[]): Promise<File> {
+  const files = unzipSync(await buildAnkiPackage({ notes, css: '' }));
+  const SQL = await initSqlJs();
+  const db = new SQL.Database(files['collection.anki2']);
+
+  const [[cardId]] = db.exec(
+    'SELECT cards.id FROM cards JOIN notes ON notes.id = cards.nid ORDER BY notes.id, cards.ord LIMIT 1'
+  )[0].values;
+  const start = Date.UTC(2026, 8, 1);
+  eases.forEach((ease, i) => {
+    db.run('INSERT INTO revlog VALUES (?, ?, -1, ?, 1, 0, 2500, 5000, 1)', [
+      start + i * 3 * DAY,
+      cardId,
+      ease,
+    ]);
+  });
+
+  files['collection.anki2'] = db.export();
+  db.close();
+  return testFile(zipSync(files), 'spanish.apkg');
+}
+
+describe('importFromApkg', () => {
+  it('should map note fields to vocabulary items', async () => {
+    const result = await importFromApkg(await packageWithHistory([]), { format: 'apkg' });
+
+    expect(result.success).toBe(true);
+    expect(result.data?.vocabulary).toEqual([
+      expect.objectContaining({ phrase: 'el perro', translation: 'the dog', category: 'Animals' }),
+      expect.objectContaining({ phrase: 'el gato', translation: 'the cat' }),
+      expect.objectContaining({
+        phrase: 'casa',
+        translation: 'house',
+        context: 'Vivo en una casa grande.',
+        category: 'Spanish',
+      }),
+    ]);
+  });
+
+  it('should honour an explicit field mapping', async () => {
+    const result = await importFromApkg(await packageWithHistory([]), {
+      format: 'apkg',
+      fieldMapping: { phrase: 'Back', translation: 'Front' },
+    });
+
+    expect(result.data?.vocabulary?.[0]).toMatchObject({
+      phrase: 'the dog',
+      translation: 'el perro',
+    });
+  });
+
+  it('should replay review history into scheduling state', async () => {
+    const result = await importFromApkg(await packageWithHistory([3, 3, 4]), {
+      format: 'apkg',
+      schedulingAlgorithm: 'sm2',
+    });
+
+    const [review] = result.data?.reviews ?? [];
+    expect(result.data?.reviews).toHaveLength(1);
+    expect(review.phrase).toBe('el perro');
+    expect(review.history.map(entry => entry.quality)).toEqual([4, 4, 5]);
+    expect(review.card.reviewCount).toBe(3);
+    expect(review.card.lastReviewDate).toEqual(new Date(Date.UTC(2026, 8, 7)));
+    expect(review.card.nextReviewDate.getTime()).toBeGreaterThan(Date.UTC(2026, 8, 7));
+    expect(result.data?.vocabulary?.[0]).toMatchObject({
+      reviewCount: 3,
+      lastReviewed: new Date(Date.UTC(2026, 8, 7)).toISOString(),
+    });
+  });
+
+  it('should report files that are not Anki packages', async () => {
+    const result = await importFromApkg(testFile('not a zip', 'deck.apkg'), { format: 'apkg' });
+
+    expect(result.success).toBe(false);
+    expect(result.errors[0]).toContain('Not a valid Anki package');
+  });
+
+  it('should explain how to re-export packages in the newer format', async () => {
+    const file = testFile(zipSync({ 'collection.anki21b': new Uint8Array([1]) }), 'deck.apkg');
+    const result = await importFromApkg(file, { format: 'apkg' });
+
+    expect(result.errors[0]).toContain('Support older Anki versions');
+  });
+});
+
+describe('importFromTabSeparated', () => {
+  it('should import Quizlet term and definition rows', async () => {
+    const file = testFile('hola\thello\nadiós\tgoodbye, see you\n\nhola\thi\n', 'set.txt');
+    const result = await importFromTabSeparated(file, { format: 'quizlet', skipDuplicates: true });
+
+    expect(result.itemsImported).toBe(2);
+    expect(result.data?.vocabulary?.[1]).toMatchObject({
+      phrase: 'adiós',
+      translation: 'goodbye, see you',
+    });
+    expect(result.warnings).toEqual(['Row 4: Duplicate term "hola" skipped']);
+  });
+
+  it('should support custom Quizlet separators', async () => {
+    const file = testFile('uno - one;dos - two', 'set.txt');
+    const result = await importFromTabSeparated(file, {
+      format: 'quizlet',
+      delimiter: ' - ',
+      rowDelimiter: ';',
+    });
+
+    expect(result.data?.vocabulary?.map(item => item.translation)).toEqual(['one', 'two']);
+  });
+
+  it('should read Memrise columns by header name', async () => {
+    const file = testFile(
+      'Level\tLearnable\tDefinition\nLevel 1\tel libro\tthe book\n',
+      'course.tsv'
+    );
+    const result = await importFromTabSeparated(file, { format: 'memrise' });
+
+    expect(result.data?.vocabulary?.[0]).toMatchObject({
+      phrase: 'el libro',
+      translation: 'the book',
+      category: 'Level 1',
+    });
+  });
+});
+
+describe('resolveFieldPositions', () => {
+  it('should fall back to the first two fields', () => {
+    expect(resolveFieldPositions(['Word', 'Meaning'])).toMatchObject({ phrase: 0, translation: 1 });
+    expect(resolveFieldPositions(['Kanji', 'Reading'])).toMatchObject({
+      phrase: 0,
+      translation: 1,
+    });
+  });
+});
+
+describe('inspectImportFile', () => {
+  it('should name the columns of files without a header', async () => {
+    const file = testFile('uno\tone\ndos\ttwo\ntres\tthree\n', 'set.txt');
+    const preview = await inspectImportFile(file, { format: 'quizlet' }, 2);
+
+    expect(preview).toEqual({
+      sourceFields: ['Column 1', 'Column 2'],
+      rows: [
+        ['uno', 'one'],
+        ['dos', 'two'],
+      ],
+      totalRows: 3,
+      suggestedMapping: { phrase: 0, translation: 1 },
+    });
+  });
+
+  it('should preview Anki notes with the fields of the most common note type', async () => {
+    const table: AnkiPackageNote = {
+      key: 'mesa',
+      noteType: 'basic',
+      fields: ['la mesa', 'the table'],
+      tags: [],
+      deck: 'Spanish',
+    };
+    const bytes = await buildAnkiPackage({ notes: [...notes, table], css: '' });
+    const preview = await inspectImportFile(testFile(bytes, 'spanish.apkg'), { format: 'apkg' });
+
+    expect(preview.sourceFields).toEqual(['Front', 'Back']);
+    expect(preview.rows).toEqual([
+      ['el gato', 'the cat'],
+      ['la mesa', 'the table'],
+    ]);
+    expect(preview.totalRows).toBe(2);
+  });
+});
+
+describe('importFromCSV with a field mapping', () => {
+  it('should read mapped columns instead of the default headers', async () => {
+    const file = testFile('Word,Meaning,Example\nhola,hello,"Hola, Ana"\n', 'words.csv');
+    const result = await importFromCSV(file, {
+      format: 'csv',
+      fieldMapping: { phrase: 0, translation: 1, context: 2 },
+    });
+
+    expect(result.data?.vocabulary?.[0]).toMatchObject({
+      phrase: 'hola',
+      translation: 'hello',
+      context: 'Hola, Ana',
+    });
+  });
+});
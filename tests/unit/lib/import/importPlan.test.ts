@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildImportPlan,
+  summarizeImportPlan,
+  toImportCommitPayload,
+  type ExistingVocabularyItem,
+} from '@/lib/import/importPlan';
+import type { ImportedReviewState } from '@/lib/import/importManager';
+import type { VocabularyExportItem } from '@/types/export';
+
+const item = (overrides: Partial<VocabularyExportItem>): VocabularyExportItem => ({
+  phrase: 'el perro',
+  translation: 'the dog',
+  definition: 'the dog',
+  partOfSpeech: 'noun',
+  difficulty: 'beginner',
+  context: '',
+  category: 'animals',
+  dateAdded: '2026-10-19',
+  ...overrides,
+});
+
+const existing: ExistingVocabularyItem[] = [
+  {
+    id: '00000000-0000-4000-8000-000000000001',
+    vocabulary_list_id: '00000000-0000-4000-8000-0000000000aa',
+    spanish_text: 'El Perro',
+    english_translation: 'dog',
+    part_of_speech: 'noun',
+    category: 'animals',
+    context_sentence_spanish: null,
+    usage_notes: null,
+  },
+  {
+    id: '00000000-0000-4000-8000-000000000002',
+    vocabulary_list_id: '00000000-0000-4000-8000-0000000000aa',
+    spanish_text: 'la casa',
+    english_translation: 'the house',
+    part_of_speech: 'noun',
+    category: 'animals',
+    context_sentence_spanish: null,
+    usage_notes: null,
+  },
+];
+
+const imported = [
+  item({ context: 'Veo el perro.' }),
+  item({ phrase: 'la casa', translation: 'the house', definition: 'the house' }),
+  item({ phrase: 'el gato', translation: 'the cat', definition: 'the cat' }),
+];
+
+describe('buildImportPlan', () => {
+  it('should match existing items and list the differing fields', () => {
+    const plan = buildImportPlan(imported, existing);
+
+    expect(plan.map(entry => entry.resolution)).toEqual(['merge', 'keep', 'add']);
+    expect(plan[0].existing?.id).toBe(existing[0].id);
+    expect(plan[0].diffs).toEqual([
+      { field: 'translation', current: 'dog', incoming: 'the dog' },
+      { field: 'context', current: '', incoming: 'Veo el perro.' },
+    ]);
+    expect(plan[1].diffs).toEqual([]);
+  });
+
+  it('should start conflicts from the merge strategy', () => {
+    expect(buildImportPlan(imported, existing, 'replace')[0].resolution).toBe('replace');
+    expect(buildImportPlan(imported, existing, 'skip')[0].resolution).toBe('keep');
+  });
+});
+
+describe('toImportCommitPayload', () => {
+  it('should only fill empty fields when merging', () => {
+    const payload = toImportCommitPayload(buildImportPlan(imported, existing, 'merge'));
+
+    expect(payload.inserts).toEqual([
+      expect.objectContaining({ spanish_text: 'el gato', usage_notes: null }),
+    ]);
+    expect(payload.updates).toEqual([
+      { id: existing[0].id, changes: { context_sentence_spanish: 'Veo el perro.' } },
+    ]);
+  });
+
+  it('should overwrite every differing field when replacing', () => {
+    const payload = toImportCommitPayload(buildImportPlan(imported, existing, 'replace'));
+
+    expect(payload.updates[0].changes).toEqual({
+      english_translation: 'the dog',
+      context_sentence_spanish: 'Veo el perro.',
+    });
+  });
+
+  it('should insert duplicates chosen to be added as new items', () => {
+    const plan = buildImportPlan(imported, existing).map(entry =>
+      entry.index === 1 ? { ...entry, resolution: 'add' as const } : entry
+    );
+
+    expect(toImportCommitPayload(plan).inserts.map(insert => insert.spanish_text)).toEqual([
+      'la casa',
+      'el gato',
+    ]);
+    expect(summarizeImportPlan(plan)).toEqual({ added: 2, updated: 1, kept: 0, conflicts: 1 });
+  });
+
+  it('should normalise values the database would reject', () => {
+    const [insert] = toImportCommitPayload(
+      buildImportPlan([item({ partOfSpeech: 'Noun phrase', difficulty: 'expert' as never })], [])
+    ).inserts;
+
+    expect(insert).toMatchObject({ part_of_speech: 'other', difficulty_level: 'beginner' });
+  });
+
+  it('should carry review state for the items it adds or updates', () => {
+    const reviewFor = (phrase: string): ImportedReviewState => ({
+      phrase,
+      card: {
+        id: `anki:${phrase}`,
+        imageId: `anki:${phrase}`,
+        difficulty: 'medium',
+        interval: 6,
+        easeFactor: 2.6,
+        nextReviewDate: new Date('2026-10-25T00:00:00.000Z'),
+        lastReviewDate: new Date('2026-10-19T00:00:00.000Z'),
+        reviewCount: 2,
+        successStreak: 2,
+      },
+      history: [
+        {
+          cardId: `anki:${phrase}`,
+          quality: 4,
+          reviewedAt: new Date('2026-10-19T00:00:00.000Z'),
+        },
+      ],
+    });
+
+    const payload = toImportCommitPayload(
+      buildImportPlan(imported, existing),
+      ['el perro', 'la casa', 'El Gato'].map(reviewFor)
+    );
+
+    expect(payload.reviews).toEqual([
+      expect.objectContaining({ id: existing[0].id, spanish_text: 'El Perro' }),
+      {
+        spanish_text: 'el gato',
+        schedule: expect.objectContaining({
+          ease_factor: 2.6,
+          interval: 6,
+          repetitions: 2,
+          next_review_date: '2026-10-25T00:00:00.000Z',
+        }),
+        history: [{ quality: 4, reviewed_at: '2026-10-19T00:00:00.000Z' }],
+      },
+    ]);
+  });
+});
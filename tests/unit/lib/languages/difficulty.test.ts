@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeTextDifficulty,
+  checkCEFRTarget,
+  describeCEFRMiss,
+  cefrIndex,
+  getCEFRInstruction,
+} from '@/lib/languages';
+
+const SIMPLE_SPANISH =
+  'El sol es grande. El cielo es azul. Hay un perro en la calle. El perro es blanco. Una niña mira el perro.';
+const COMPLEX_SPANISH =
+  'Aunque la composición pareciera, a primera vista, meramente anecdótica, la disposición asimétrica de los elementos arquitectónicos revela una intencionalidad estética que habría pasado desapercibida si no se hubiera considerado el contexto histórico en el que fue concebida.';
+
+describe('analyzeTextDifficulty', () => {
+  it('should rate short sentences of core words as beginner level', () => {
+    const analysis = analyzeTextDifficulty(SIMPLE_SPANISH, 'es');
+
+    expect(analysis.sentenceCount).toBe(5);
+    expect(analysis.averageSentenceLength).toBeLessThan(6);
+    expect(analysis.frequencyBands.high).toBeGreaterThan(0.9);
+    expect(analysis.estimatedLevel).toBe('A1');
+  });
+
+  it('should rate long sentences with rare words and subjunctives as advanced', () => {
+    const analysis = analyzeTextDifficulty(COMPLEX_SPANISH, 'es');
+
+    expect(analysis.frequencyBands.low).toBeGreaterThan(0.2);
+    expect(analysis.tenseUsage.subjunctive).toBeGreaterThan(0);
+    expect(analysis.tenseUsage.conditional).toBeGreaterThan(0);
+    expect(cefrIndex(analysis.estimatedLevel)).toBeGreaterThanOrEqual(cefrIndex('C1'));
+  });
+
+  it('should use each language profile', () => {
+    const analysis = analyzeTextDifficulty('Le soleil est grand. Il y a un chien dans la rue.', 'fr');
+
+    expect(analysis.language).toBe('fr');
+    expect(analysis.frequencyBands.high).toBeGreaterThan(0.9);
+    expect(analysis.estimatedLevel).toBe('A1');
+  });
+
+  it('should handle empty text', () => {
+    const analysis = analyzeTextDifficulty('', 'it');
+
+    expect(analysis.wordCount).toBe(0);
+    expect(analysis.estimatedLevel).toBe('A1');
+  });
+});
+
+describe('checkCEFRTarget', () => {
+  it('should accept levels within one step of the target', () => {
+    const analysis = analyzeTextDifficulty(SIMPLE_SPANISH, 'es');
+
+    expect(checkCEFRTarget(analysis, 'A2').meetsTarget).toBe(true);
+    expect(checkCEFRTarget(analysis, 'B2')).toMatchObject({
+      estimated: 'A1',
+      difference: -3,
+      meetsTarget: false,
+    });
+    expect(checkCEFRTarget(analysis, 'A2', 0).meetsTarget).toBe(false);
+  });
+
+  it('should describe which way a missed text needs to move', () => {
+    const analysis = analyzeTextDifficulty(COMPLEX_SPANISH, 'es');
+    const feedback = describeCEFRMiss(checkCEFRTarget(analysis, 'A2'), analysis);
+
+    expect(feedback).toContain('too difficult');
+    expect(feedback).toContain('A2');
+    expect(getCEFRInstruction('A2')).toContain('CEFR level A2');
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import {
+  LANGUAGE_REGISTRY,
+  SUPPORTED_LANGUAGES,
+  TARGET_LANGUAGES,
+  PHRASE_CATEGORIES,
+  getLanguage,
+  getLanguageByKey,
+  getSystemPrompt,
+  getVisionPrompt,
+  getCEFRTarget,
+  isTargetLanguage,
+  formatCEFRTarget,
+} from '@/lib/languages';
+import { EDUCATIONAL_PROMPTS, QA_PROMPTS, PHRASE_PROMPTS } from '@/lib/api/openai-prompts';
+import { PhraseExtractor } from '@/lib/services/phraseExtractor';
+
+const STYLES = ['narrativo', 'poetico', 'academico', 'conversacional', 'infantil'] as const;
+
+describe('language registry', () => {
+  it('should register French, Italian and Portuguese as target languages', () => {
+    expect(TARGET_LANGUAGES).toEqual(['es', 'fr', 'it', 'pt']);
+    expect(isTargetLanguage('fr')).toBe(true);
+    expect(isTargetLanguage('en')).toBe(false);
+    expect(isTargetLanguage('de')).toBe(false);
+  });
+
+  it('should define prompts, CEFR targets and phrase categories for every language', () => {
+    for (const code of SUPPORTED_LANGUAGES) {
+      const language = LANGUAGE_REGISTRY[code];
+
+      expect(language.code).toBe(code);
+      for (const style of STYLES) {
+        expect(language.prompts.system[style]).toBeTruthy();
+        expect(language.prompts.vision[style]).toBeTruthy();
+        expect(language.prompts.educational[style]).toBeTruthy();
+        expect(language.cefrTargets[style]).toBeDefined();
+      }
+      for (const category of PHRASE_CATEGORIES) {
+        expect(language.phraseCategories[category].displayName).toBeTruthy();
+      }
+    }
+  });
+
+  it('should build vision prompts with the language constraints', () => {
+    const prompt = getVisionPrompt('it', 'poetico', 250);
+
+    expect(prompt).toContain(LANGUAGE_REGISTRY.it.prompts.vision.poetico);
+    expect(prompt).toContain('250 parole');
+  });
+
+  it('should fall back to the default system prompt for unknown styles', () => {
+    expect(getSystemPrompt('pt', 'unknown' as never)).toBe(
+      LANGUAGE_REGISTRY.pt.prompts.defaultSystem
+    );
+  });
+
+  it('should embed the CEFR target in generated educational prompts', () => {
+    const target = formatCEFRTarget(getCEFRTarget('fr', 'academico'));
+
+    expect(target).toBe('B2-C1');
+    expect(EDUCATIONAL_PROMPTS.fr.academico).toContain(target);
+  });
+
+  it('should expose prompt tables keyed by every language code', () => {
+    expect(Object.keys(EDUCATIONAL_PROMPTS)).toEqual([...SUPPORTED_LANGUAGES]);
+    expect(QA_PROMPTS.es).toContain('Como profesor de español');
+    expect(PHRASE_PROMPTS.pt).toContain('"objetos"');
+  });
+
+  it('should resolve languages by their payload key', () => {
+    expect(getLanguageByKey('portuguese')?.code).toBe('pt');
+    expect(getLanguage('fr').key).toBe('french');
+  });
+});
+
+describe('PhraseExtractor categories', () => {
+  it('should label categories in the requested language', () => {
+    const french = PhraseExtractor.getAllCategories('fr');
+
+    expect(french.map(category => category.name)).toEqual([...PHRASE_CATEGORIES]);
+    expect(french[0].displayName).toBe('Noms (Nouns)');
+    expect(PhraseExtractor.getCategoryConfig('verbos').displayName).toBe('Verbos (Verbs)');
+  });
+});
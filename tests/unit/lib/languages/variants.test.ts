@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import {
+  REGIONAL_LEXICON,
+  SPANISH_VARIANTS,
+  getEducationalPrompt,
+  getRegionalUsage,
+  getSystemPrompt,
+  getVariantInstruction,
+  isSpanishVariant,
+} from '@/lib/languages';
+import { EDUCATIONAL_PROMPTS } from '@/lib/api/openai-prompts';
+import { createCategorizedPhrase } from '@/lib/utils/phrase-helpers';
+
+describe('Spanish variants', () => {
+  it('should recognise variant codes', () => {
+    expect(isSpanishVariant('es-AR')).toBe(true);
+    expect(isSpanishVariant('es')).toBe(false);
+    expect(isSpanishVariant(undefined)).toBe(false);
+  });
+
+  it('should add grammar and lexicon instructions to Spanish prompts only', () => {
+    const rioplatense = getEducationalPrompt('es', 'conversacional', 'es-AR');
+    expect(rioplatense.startsWith(EDUCATIONAL_PROMPTS.es.conversacional)).toBe(true);
+    expect(rioplatense).toContain('voseo');
+    expect(rioplatense).toContain('auto');
+
+    expect(getSystemPrompt('es', 'narrativo', 'es-ES')).toContain('vosotros');
+    expect(getVariantInstruction('es-MX')).toContain('carro');
+    expect(getSystemPrompt('fr', 'narrativo', 'es-MX')).toBe(getSystemPrompt('fr', 'narrativo'));
+    expect(getEducationalPrompt('es', 'infantil')).toBe(EDUCATIONAL_PROMPTS.es.infantil);
+  });
+
+  it('should list a word for every variant in the regional lexicon', () => {
+    for (const words of Object.values(REGIONAL_LEXICON)) {
+      expect(Object.keys(words).sort()).toEqual([...SPANISH_VARIANTS].sort());
+    }
+  });
+
+  it('should tag regional words with the variants that use them', () => {
+    expect(getRegionalUsage('el carro')).toMatchObject({
+      concept: 'car',
+      regions: ['es-MX', 'es-CO'],
+    });
+    expect(getRegionalUsage('Zumo')?.regions).toEqual(['es-ES']);
+    expect(getRegionalUsage('celulares')?.regions).toEqual(['es-MX', 'es-AR', 'es-CO']);
+    expect(getRegionalUsage('las frutillas')?.equivalents['es-ES']).toBe('fresa');
+  });
+
+  it('should not tag shared words or accent-only lookalikes', () => {
+    expect(getRegionalUsage('casa')).toBeNull();
+    // papá (dad) is not papa (potato)
+    expect(getRegionalUsage('papá')).toBeNull();
+  });
+
+  it('should annotate extracted phrases with their regions', () => {
+    const phrase = createCategorizedPhrase({
+      phrase: 'la computadora',
+      category: 'sustantivos',
+      partOfSpeech: 'noun',
+      definition: 'computer',
+      difficulty: 'beginner',
+      context: 'Hay una computadora en la mesa.',
+      imageUrl: '',
+      index: 0,
+    });
+
+    expect(phrase.regions).toEqual(['es-MX', 'es-AR']);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyReviewToProgress,
+  summarizeSyncResults,
+  type OfflineProgress,
+} from '@/lib/offline-review-sync';
+import type { PendingReview } from '@/lib/offline-storage';
+
+const review = (eventId: string, itemId = 'item-1'): PendingReview => ({
+  eventId,
+  itemId,
+  quality: 4,
+  reviewedAt: '2026-10-18T08:00:00.000Z',
+  attempts: 0,
+});
+
+describe('applyReviewToProgress', () => {
+  const empty: OfflineProgress = { days: {}, currentStreak: 0, lastReviewDay: null };
+
+  it('should accumulate points and reviews per day', () => {
+    const morning = new Date(2026, 9, 18, 8);
+    const evening = new Date(2026, 9, 18, 20);
+
+    const progress = applyReviewToProgress(applyReviewToProgress(empty, 4, morning), 1, evening);
+
+    expect(progress.days['2026-10-18']).toEqual({ points: 15, reviews: 2 });
+    expect(progress.currentStreak).toBe(1);
+  });
+
+  it('should extend the streak on consecutive days and reset after a gap', () => {
+    const dayOne = applyReviewToProgress(empty, 4, new Date(2026, 9, 1, 9));
+    const dayTwo = applyReviewToProgress(dayOne, 4, new Date(2026, 9, 2, 9));
+    const afterGap = applyReviewToProgress(dayTwo, 4, new Date(2026, 9, 5, 9));
+
+    expect(dayTwo.currentStreak).toBe(2);
+    expect(afterGap.currentStreak).toBe(1);
+    expect(afterGap.lastReviewDay).toBe('2026-10-05');
+  });
+});
+
+describe('summarizeSyncResults', () => {
+  it('should settle applied and duplicate events and keep the rest', () => {
+    const reviews = [review('e1'), review('e2'), review('e3'), review('e4')];
+
+    const summary = summarizeSyncResults(reviews, [
+      { eventId: 'e1', itemId: 'item-1', status: 'applied' },
+      { eventId: 'e2', itemId: 'item-1', status: 'duplicate' },
+      { eventId: 'e3', itemId: 'item-1', status: 'rejected', reason: 'item_not_found' },
+    ]);
+
+    expect(summary.settled.map((result) => result.eventId)).toEqual(['e1', 'e2']);
+    expect(summary.rejected).toEqual([
+      expect.objectContaining({ eventId: 'e3', rejected: true, lastError: 'item_not_found' }),
+    ]);
+    // The server did not answer for e4, so it is retried
+    expect(summary.retry).toEqual([
+      expect.objectContaining({ eventId: 'e4', attempts: 1, lastError: 'no_result' }),
+    ]);
+    expect(summary.failed.map((failure) => [failure.eventId, failure.retryable])).toEqual([
+      ['e3', false],
+      ['e4', true],
+    ]);
+  });
+});
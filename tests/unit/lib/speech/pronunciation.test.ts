@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+  encodeWav,
+  PRONUNCIATION_PASS_SCORE,
+  pronunciationGrade,
+  scorePronunciation,
+} from '@/lib/speech';
+import { cleanTranscript } from '@/lib/speech/engines/whisper';
+
+describe('scorePronunciation', () => {
+  it('should give a perfect score ignoring case, accents and punctuation', () => {
+    const score = scorePronunciation('¿Dónde está la estación?', 'donde esta la estacion');
+
+    expect(score.score).toBe(100);
+    expect(score.words.map(word => word.status)).toEqual([
+      'correct',
+      'correct',
+      'correct',
+      'correct',
+    ]);
+    expect(score.words[0].word).toBe('Dónde');
+  });
+
+  it('should give partial credit for nearly right words', () => {
+    const score = scorePronunciation('el perro corre', 'el pero corre');
+
+    expect(score.words[1]).toMatchObject({ word: 'perro', heard: 'pero', status: 'close' });
+    expect(score.score).toBeGreaterThan(80);
+    expect(score.score).toBeLessThan(100);
+  });
+
+  it('should mark missing, wrong and extra words', () => {
+    const missing = scorePronunciation('la casa blanca', 'la casa');
+    expect(missing.words[2]).toEqual({ word: 'blanca', accuracy: 0, status: 'missing' });
+    expect(missing.score).toBe(67);
+
+    const wrong = scorePronunciation('la casa blanca', 'la cosa roja');
+    expect(wrong.words.map(word => word.status)).toEqual(['correct', 'close', 'wrong']);
+
+    const extra = scorePronunciation('buenos días', 'eh buenos días');
+    expect(extra.extraWords).toEqual(['eh']);
+    expect(extra.words.every(word => word.status === 'correct')).toBe(true);
+    expect(extra.score).toBe(80);
+  });
+
+  it('should score the recognizer alternative closest to the expected text', () => {
+    const score = scorePronunciation('tengo hambre', {
+      transcript: 'tengo hombre',
+      alternatives: ['tengo hombre', 'tengo hambre'],
+    });
+
+    expect(score.transcript).toBe('tengo hambre');
+    expect(score.score).toBe(100);
+  });
+
+  it('should score nothing heard as zero', () => {
+    const score = scorePronunciation('hola', { transcript: '', alternatives: [] });
+    expect(score.score).toBe(0);
+    expect(score.words).toEqual([{ word: 'hola', accuracy: 0, status: 'missing' }]);
+  });
+});
+
+describe('pronunciationGrade', () => {
+  it('should map scores onto the review grades', () => {
+    expect(pronunciationGrade(100)).toBe(4);
+    expect(pronunciationGrade(PRONUNCIATION_PASS_SCORE)).toBe(3);
+    expect(pronunciationGrade(75)).toBe(2);
+    expect(pronunciationGrade(55)).toBe(1);
+    expect(pronunciationGrade(10)).toBe(0);
+  });
+});
+
+describe('recognition audio', () => {
+  it('should encode 16-bit mono WAV', () => {
+    const wav = encodeWav(new Float32Array([0, 1, -1, 2]), 16000);
+    const view = new DataView(wav.buffer);
+
+    expect(String.fromCharCode(...wav.subarray(0, 4))).toBe('RIFF');
+    expect(String.fromCharCode(...wav.subarray(8, 12))).toBe('WAVE');
+    expect(wav.length).toBe(44 + 8);
+    expect(view.getUint32(24, true)).toBe(16000);
+    expect(view.getInt16(46, true)).toBe(0x7fff);
+    expect(view.getInt16(48, true)).toBe(-0x8000);
+    // out-of-range samples are clipped
+    expect(view.getInt16(50, true)).toBe(0x7fff);
+  });
+
+  it('should drop non-speech markers from whisper output', () => {
+    expect(cleanTranscript(' [BLANK_AUDIO]\n')).toBe('');
+    expect(cleanTranscript(' Hola, ¿qué tal? (música)\n')).toBe('Hola, ¿qué tal?');
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  estimateWordTimings,
+  getSpeechProvider,
+  getSpeechRecognizer,
+  pickVoice,
+  speechLocale,
+  splitSpeechWords,
+  wordIndexAtChar,
+  wordIndexAtTime,
+} from '@/lib/speech';
+import { espeakVoice } from '@/lib/speech/engines/espeak';
+import { SpeechAudioCache, speechRequestSchema } from '@/lib/speech/engines';
+import type { SpeechEngine } from '@/lib/speech/types';
+
+const voice = (name: string, lang: string, localService = false) =>
+  ({ name, lang, localService }) as SpeechSynthesisVoice;
+
+describe('speech words', () => {
+  it('should split words with accents, apostrophes and hyphens', () => {
+    const words = splitSpeechWords('¿Dónde está el café-bar? ¡Aquí!');
+    expect(words.map(word => word.text)).toEqual(['Dónde', 'está', 'el', 'café-bar', 'Aquí']);
+    expect(words[0]).toEqual({ text: 'Dónde', start: 1, end: 6 });
+  });
+
+  it('should map boundary offsets to the word they fall in', () => {
+    const words = splitSpeechWords('el perro corre');
+    expect(wordIndexAtChar(words, 0)).toBe(0);
+    expect(wordIndexAtChar(words, 2)).toBe(0);
+    expect(wordIndexAtChar(words, 3)).toBe(1);
+    expect(wordIndexAtChar(words, 13)).toBe(2);
+    expect(wordIndexAtChar([], 0)).toBe(-1);
+  });
+
+  it('should spread word timings over the audio with longer pauses after sentences', () => {
+    const text = 'Hola. El gato';
+    const starts = estimateWordTimings(text, splitSpeechWords(text), 3);
+
+    expect(starts[0]).toBe(0);
+    expect(starts).toEqual([...starts].sort((a, b) => a - b));
+    expect(starts[2]).toBeLessThan(3);
+    // "Hola." is followed by a full stop, so the next word starts later than word length alone gives
+    expect(starts[1] - starts[0]).toBeGreaterThan(starts[2] - starts[1]);
+
+    expect(wordIndexAtTime(starts, 0)).toBe(0);
+    expect(wordIndexAtTime(starts, 2.9)).toBe(2);
+    expect(wordIndexAtTime(starts, -1)).toBe(-1);
+  });
+
+  it('should not estimate timings without a duration', () => {
+    const words = splitSpeechWords('uno dos');
+    expect(estimateWordTimings('uno dos', words, NaN)).toEqual([0, 0]);
+  });
+});
+
+describe('pickVoice', () => {
+  const voices = [
+    voice('Jorge', 'es-ES'),
+    voice('Paulina', 'es-MX'),
+    voice('Mónica', 'es_ES', true),
+    voice('Samantha', 'en-US'),
+  ];
+
+  it('should prefer an exact locale match on the device', () => {
+    expect(pickVoice(voices, 'es-ES')?.name).toBe('Mónica');
+    expect(pickVoice(voices, 'es-MX')?.name).toBe('Paulina');
+  });
+
+  it('should fall back to the same language, or a named voice', () => {
+    expect(pickVoice(voices, 'es-AR')?.name).toBe('Mónica');
+    expect(pickVoice(voices, 'es-ES', 'Jorge')?.name).toBe('Jorge');
+    expect(pickVoice(voices, 'fr-FR')).toBeNull();
+  });
+});
+
+describe('speech locales', () => {
+  it('should speak Spanish in the learner variant', () => {
+    expect(speechLocale('es')).toBe('es-ES');
+    expect(speechLocale('es', 'es-MX')).toBe('es-MX');
+    expect(speechLocale('en', 'es-MX')).toBe('en-US');
+  });
+
+  it('should map locales to espeak voices', () => {
+    expect(espeakVoice('es-ES')).toBe('es');
+    expect(espeakVoice('es-AR')).toBe('es-419');
+    expect(espeakVoice('en-US')).toBe('en-us');
+  });
+});
+
+describe('getSpeechProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should use the server when the browser cannot speak', () => {
+    expect(getSpeechProvider('es-ES', 'auto')?.name).toBe('server');
+    expect(getSpeechProvider('es-ES', 'browser')).toBeNull();
+  });
+
+  it('should use a browser voice for the locale when there is one', () => {
+    vi.stubGlobal('SpeechSynthesisUtterance', class {});
+    vi.stubGlobal('speechSynthesis', { getVoices: () => [voice('Paulina', 'es-MX')] });
+
+    expect(getSpeechProvider('es-MX', 'auto')?.name).toBe('browser');
+    expect(getSpeechProvider('fr-FR', 'auto')?.name).toBe('server');
+    expect(getSpeechProvider('es-MX', 'server')?.name).toBe('server');
+  });
+
+  it('should keep the browser when it will not list its voices', async () => {
+    vi.stubGlobal('SpeechSynthesisUtterance', class {});
+    vi.stubGlobal('speechSynthesis', {
+      getVoices: () => {
+        throw new Error('voices unavailable');
+      },
+    });
+
+    const provider = getSpeechProvider('es-ES', 'auto');
+
+    expect(provider?.name).toBe('browser');
+    // speechSynthesis.cancel is missing too: the failure is a rejection, not a throw
+    await expect(provider!.speak({ text: 'hola', locale: 'es-ES' })).rejects.toMatchObject({
+      name: 'SpeechError',
+    });
+  });
+});
+
+describe('getSpeechRecognizer', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should prefer Web Speech recognition', () => {
+    vi.stubGlobal('webkitSpeechRecognition', class {});
+
+    expect(getSpeechRecognizer('auto')?.name).toBe('browser');
+    expect(getSpeechRecognizer('browser')?.name).toBe('browser');
+  });
+
+  it('should record for the server model without Web Speech', () => {
+    vi.stubGlobal('MediaRecorder', class {});
+    vi.stubGlobal('OfflineAudioContext', class {});
+    vi.stubGlobal('navigator', { mediaDevices: { getUserMedia: vi.fn() } });
+
+    expect(getSpeechRecognizer('auto')?.name).toBe('server');
+    expect(getSpeechRecognizer('browser')).toBeNull();
+  });
+
+  it('should give up when nothing can record', () => {
+    expect(getSpeechRecognizer('auto')).toBeNull();
+  });
+});
+
+describe('speechRequestSchema', () => {
+  it('should accept voice names but not paths', () => {
+    const request = { text: 'Hola', locale: 'es-ES' };
+
+    expect(speechRequestSchema.safeParse({ ...request, voice: 'es-419' }).success).toBe(true);
+    expect(speechRequestSchema.safeParse({ ...request, voice: 'en+f3' }).success).toBe(true);
+    expect(speechRequestSchema.safeParse({ ...request, voice: '/etc/passwd' }).success).toBe(false);
+    expect(speechRequestSchema.safeParse({ ...request, voice: '../voices/es' }).success).toBe(
+      false
+    );
+  });
+});
+
+describe('SpeechAudioCache', () => {
+  let root: string;
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('should remove the least recently played audio beyond the limit', async () => {
+    root = await mkdtemp(path.join(os.tmpdir(), 'speech-cache-'));
+    const cache = new SpeechAudioCache(root, 2);
+    const engine: SpeechEngine = {
+      name: 'espeak',
+      synthesize: vi.fn(async () => ({ audio: Buffer.from('RIFF'), contentType: 'audio/wav' })),
+    };
+    const play = (text: string) => cache.getOrSynthesize(engine, { text, locale: 'es-ES' });
+
+    await play('uno');
+    await play('dos');
+    // Playing 'uno' an hour later makes 'dos' the least recently played
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + 60 * 60 * 1000);
+    expect((await play('uno')).cached).toBe(true);
+    await play('tres');
+
+    expect((await play('uno')).cached).toBe(true);
+    expect((await play('dos')).cached).toBe(false);
+  });
+});
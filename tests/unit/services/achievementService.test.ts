@@ -0,0 +1,281 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  AchievementService,
+  definitionRowFromRule,
+  ruleFromDefinitionRow,
+} from '@/lib/services/achievementService';
+import { DEFAULT_ACHIEVEMENT_RULES, type AchievementRule } from '@/lib/achievements';
+
+vi.mock('@/lib/logger', () => ({
+  dbLogger: { error: vi.fn(), warn: vi.fn(), info: vi.fn() },
+}));
+
+type Call = { table: string; method: string; args: unknown[] };
+type Result = { data?: unknown; error?: { code?: string; message: string } | null };
+
+/**
+ * Chainable query builder; `respond` decides each query's result from the
+ * table and the calls made on it
+ */
+const fakeClient = (respond: (table: string, calls: Call[]) => Result) => {
+  const log: Call[] = [];
+  const from = vi.fn((table: string) => {
+    const calls: Call[] = [];
+    const builder: Record<string, unknown> = {};
+    for (const method of [
+      'select',
+      'insert',
+      'upsert',
+      'update',
+      'delete',
+      'eq',
+      'in',
+      'is',
+      'gte',
+      'order',
+    ]) {
+      builder[method] = (...args: unknown[]) => {
+        const call = { table, method, args };
+        calls.push(call);
+        log.push(call);
+        return builder;
+      };
+    }
+    builder.then = (resolve: (value: Result) => unknown, reject: (reason: unknown) => unknown) =>
+      Promise.resolve({ data: null, error: null, ...respond(table, calls) }).then(resolve, reject);
+    return builder;
+  });
+  // Functions answer like tables named after them
+  const rpc = vi.fn((fn: string, args: unknown) => {
+    const call = { table: fn, method: 'rpc', args: [args] };
+    log.push(call);
+    return Promise.resolve({ data: null, error: null, ...respond(fn, [call]) });
+  });
+  return { client: { from, rpc } as unknown as SupabaseClient, log };
+};
+
+const NOW = new Date('2026-10-19T12:00:00.000Z');
+
+const onlyRule: AchievementRule = {
+  id: 'first_match',
+  name: 'First Match',
+  description: 'Finish a matching game',
+  category: 'vocabulary',
+  rarity: 'common',
+  eventTypes: ['session_completed'],
+  conditions: [{ field: 'sessionType', op: 'eq', value: 'matching' }],
+  aggregation: 'count',
+  threshold: 1,
+  experiencePoints: 25,
+  enabled: true,
+};
+
+const matchingEvent = {
+  eventId: 'session_completed:s1',
+  type: 'session_completed',
+  data: { sessionType: 'matching' },
+  occurredAt: NOW.toISOString(),
+};
+
+const hasCall = (calls: Call[], method: string) => calls.some(call => call.method === method);
+
+describe('AchievementService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should map definitions to rules and back', () => {
+    expect(ruleFromDefinitionRow(definitionRowFromRule(onlyRule))).toEqual(onlyRule);
+    expect(
+      ruleFromDefinitionRow({ ...definitionRowFromRule(onlyRule), aggregation: 'median' })
+    ).toBeNull();
+  });
+
+  it('should merge stored definitions over the built-in rules and cache them', async () => {
+    const { client, log } = fakeClient(() => ({
+      data: [
+        definitionRowFromRule(onlyRule),
+        { ...definitionRowFromRule(onlyRule), id: 'broken', threshold: -1 },
+      ],
+    }));
+    const service = new AchievementService(client);
+
+    const rules = await service.getRules();
+    await service.getRules();
+
+    expect(rules).toHaveLength(DEFAULT_ACHIEVEMENT_RULES.length + 1);
+    expect(rules.some(rule => rule.id === 'broken')).toBe(false);
+    expect(log.filter(call => call.table === 'achievement_definitions')).toHaveLength(1);
+  });
+
+  it('should fall back to the built-in rules when definitions cannot be loaded', async () => {
+    const { client } = fakeClient(() => ({ error: { message: 'offline' } }));
+
+    expect(await new AchievementService(client).getRules()).toBe(DEFAULT_ACHIEVEMENT_RULES);
+  });
+
+  it('should record an event and report what it unlocked', async () => {
+    const { client, log } = fakeClient((table, calls) => {
+      if (table === 'achievement_definitions') {
+        return {
+          data: [
+            definitionRowFromRule({ ...onlyRule, id: 'first_steps', enabled: false }),
+            definitionRowFromRule(onlyRule),
+          ],
+        };
+      }
+      if (table === 'achievement_rule_values') {
+        return { data: { first_match: 1 } };
+      }
+      if (table === 'user_achievements' && hasCall(calls, 'update')) {
+        return { data: [{ achievement_id: 'first_match' }] };
+      }
+      return { data: [] };
+    });
+
+    const unlocked = await new AchievementService(client).recordEvent('user-1', matchingEvent, NOW);
+
+    expect(unlocked.map(achievement => achievement.id)).toEqual(['first_match']);
+    expect(unlocked[0]).toMatchObject({ experiencePoints: 25, unlockedAt: NOW.toISOString() });
+
+    const upsert = log.find(call => call.table === 'user_achievements' && call.method === 'upsert');
+    expect(upsert?.args[0]).toEqual(
+      expect.arrayContaining([
+        { user_id: 'user-1', achievement_id: 'first_match', progress: 1, target: 1 },
+      ])
+    );
+    expect(log).toContainEqual({
+      table: 'user_achievements',
+      method: 'is',
+      args: ['unlocked_at', null],
+    });
+  });
+
+  it('should aggregate each rule over its window without reading the event log', async () => {
+    const weekly = { ...onlyRule, id: 'weekly_match', windowDays: 7, threshold: 5 };
+    const { client, log } = fakeClient(table =>
+      table === 'achievement_definitions'
+        ? { data: [definitionRowFromRule(onlyRule), definitionRowFromRule(weekly)] }
+        : { data: [] }
+    );
+
+    await new AchievementService(client).recordEvent('user-1', matchingEvent, NOW);
+
+    const rpc = log.find(call => call.method === 'rpc');
+    expect(rpc?.table).toBe('achievement_rule_values');
+    expect(rpc?.args[0]).toMatchObject({
+      p_user_id: 'user-1',
+      p_now: NOW.toISOString(),
+      p_rules: expect.arrayContaining([
+        expect.objectContaining({ id: 'first_match', since: null }),
+        expect.objectContaining({ id: 'weekly_match', since: '2026-10-12T12:00:00.000Z' }),
+      ]),
+    });
+    expect(log.some(call => call.table === 'achievement_events' && call.method === 'select')).toBe(
+      false
+    );
+  });
+
+  it('should not report an unlock another evaluation already claimed', async () => {
+    const { client } = fakeClient((table, calls) => {
+      if (table === 'achievement_definitions') {
+        return { data: [definitionRowFromRule(onlyRule)] };
+      }
+      if (table === 'achievement_events' && hasCall(calls, 'insert')) {
+        return { error: { code: '23505', message: 'duplicate key value' } };
+      }
+      if (table === 'achievement_rule_values') {
+        return { data: { first_match: 1 } };
+      }
+      return { data: [] };
+    });
+
+    const unlocked = await new AchievementService(client).recordEvent('user-1', matchingEvent, NOW);
+
+    expect(unlocked.some(achievement => achievement.id === 'first_match')).toBe(false);
+  });
+
+  it('should surface storage errors other than duplicates', async () => {
+    const { client } = fakeClient((table, calls) =>
+      table === 'achievement_events' && hasCall(calls, 'insert')
+        ? { error: { code: '42P01', message: 'relation does not exist' } }
+        : { data: [] }
+    );
+
+    await expect(
+      new AchievementService(client).recordEvent('user-1', matchingEvent, NOW)
+    ).rejects.toMatchObject({ code: '42P01' });
+  });
+
+  it('should evaluate every rule for a user listed before any progress exists', async () => {
+    let claimed = false;
+    const { client, log } = fakeClient((table, calls) => {
+      if (table === 'achievement_rule_values') return { data: { first_steps: 4 } };
+      if (table !== 'user_achievements') return { data: [] };
+      if (hasCall(calls, 'update')) {
+        claimed = true;
+        return { data: [{ achievement_id: 'first_steps' }] };
+      }
+      if (hasCall(calls, 'upsert')) return {};
+      return {
+        data: claimed
+          ? [
+              {
+                achievement_id: 'first_steps',
+                progress: 1,
+                target: 1,
+                unlocked_at: NOW.toISOString(),
+              },
+            ]
+          : [],
+      };
+    });
+
+    const achievements = await new AchievementService(client).getUserAchievements('user-1');
+
+    const rpc = log.find(call => call.method === 'rpc');
+    expect((rpc?.args[0] as { p_rules: unknown[] }).p_rules).toHaveLength(
+      DEFAULT_ACHIEVEMENT_RULES.length
+    );
+    expect(achievements[0]).toMatchObject({ id: 'first_steps', unlockedAt: NOW.toISOString() });
+  });
+
+  it('should list achievements with progress, unlocked first', async () => {
+    const { client } = fakeClient(table =>
+      table === 'user_achievements'
+        ? {
+            data: [
+              {
+                achievement_id: 'first_match',
+                progress: '1',
+                target: '1',
+                unlocked_at: NOW.toISOString(),
+              },
+              {
+                achievement_id: 'vocabulary_collector',
+                progress: 12,
+                target: 50,
+                unlocked_at: null,
+              },
+            ],
+          }
+        : { data: [definitionRowFromRule(onlyRule)] }
+    );
+
+    const achievements = await new AchievementService(client).getUserAchievements('user-1');
+
+    expect(achievements[0]).toMatchObject({
+      id: 'first_match',
+      progress: 1,
+      unlockedAt: NOW.toISOString(),
+    });
+    expect(
+      achievements.find(achievement => achievement.id === 'vocabulary_collector')
+    ).toMatchObject({
+      progress: 12,
+      target: 50,
+      unlockedAt: null,
+    });
+  });
+});
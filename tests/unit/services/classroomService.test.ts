@@ -0,0 +1,392 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  ClassroomService,
+  JOIN_CODE_ALPHABET,
+  JOIN_CODE_LENGTH,
+  assignmentStatus,
+  generateJoinCode,
+  normalizeJoinCode,
+  summarizeClassProgress,
+  type AssignmentResult,
+  type ClassAssignment,
+} from '@/lib/services/classroomService';
+
+vi.mock('@/lib/logger', () => ({
+  dbLogger: { error: vi.fn(), warn: vi.fn(), info: vi.fn() },
+}));
+
+type Call = { table: string; method: string; args: unknown[] };
+type Result = { data?: unknown; error?: { code?: string; message: string } | null };
+
+/**
+ * Chainable query builder; `respond` decides each query's result from the
+ * table and the calls made on it
+ */
+const fakeClient = (respond: (table: string, calls: Call[]) => Result) => {
+  const log: Call[] = [];
+  const from = vi.fn((table: string) => {
+    const calls: Call[] = [];
+    const builder: Record<string, unknown> = {};
+    for (const method of [
+      'select',
+      'insert',
+      'upsert',
+      'update',
+      'delete',
+      'eq',
+      'in',
+      'is',
+      'order',
+      'single',
+      'maybeSingle',
+    ]) {
+      builder[method] = (...args: unknown[]) => {
+        const call = { table, method, args };
+        calls.push(call);
+        log.push(call);
+        return builder;
+      };
+    }
+    builder.then = (resolve: (value: Result) => unknown, reject: (reason: unknown) => unknown) =>
+      Promise.resolve({ data: null, error: null, ...respond(table, calls) }).then(resolve, reject);
+    return builder;
+  });
+  return { client: { from } as unknown as SupabaseClient, log };
+};
+
+const NOW = new Date('2026-10-19T12:00:00.000Z');
+
+const TEACHER = 'teacher-1';
+const STUDENT = 'student-1';
+
+const classRow = {
+  id: 'class-1',
+  teacher_id: TEACHER,
+  name: 'Spanish 1',
+  description: null,
+  join_code: 'ABC234',
+  archived_at: null,
+  created_at: '2026-10-01T00:00:00.000Z',
+};
+
+const vocabularyAssignment: ClassAssignment = {
+  id: 'assignment-1',
+  classId: 'class-1',
+  title: 'Food words',
+  instructions: null,
+  type: 'vocabulary_list',
+  vocabularyListId: 'list-1',
+  items: [
+    { id: 'w1', text: 'la manzana', translation: 'apple' },
+    { id: 'w2', text: 'el pan', translation: 'bread' },
+  ],
+  dueAt: '2026-10-18T00:00:00.000Z',
+  createdAt: '2026-10-01T00:00:00.000Z',
+};
+
+const imageAssignment: ClassAssignment = {
+  ...vocabularyAssignment,
+  id: 'assignment-2',
+  title: 'Describe the market',
+  type: 'image_set',
+  vocabularyListId: null,
+  items: [{ id: 'image-1', imageUrl: 'https://example.com/market.jpg', description: 'Un mercado' }],
+  dueAt: null,
+};
+
+const result = (
+  studentId: string,
+  assignmentId: string,
+  itemId: string,
+  score: number,
+  completedAt = '2026-10-10T00:00:00.000Z'
+): AssignmentResult => ({ assignmentId, studentId, itemId, score, completedAt });
+
+const assignmentRow = {
+  id: vocabularyAssignment.id,
+  class_id: 'class-1',
+  title: vocabularyAssignment.title,
+  instructions: null,
+  assignment_type: 'vocabulary_list',
+  vocabulary_list_id: 'list-1',
+  items: vocabularyAssignment.items,
+  due_at: vocabularyAssignment.dueAt,
+  created_at: vocabularyAssignment.createdAt,
+};
+
+const hasCall = (calls: Call[], method: string) => calls.some(call => call.method === method);
+
+describe('join codes', () => {
+  it('draws codes of the default length from the unambiguous alphabet', () => {
+    for (let i = 0; i < 20; i++) {
+      const code = generateJoinCode();
+      expect(code).toHaveLength(JOIN_CODE_LENGTH);
+      expect([...code].every(char => JOIN_CODE_ALPHABET.includes(char))).toBe(true);
+    }
+  });
+
+  it('normalizes codes as students type them', () => {
+    expect(normalizeJoinCode(' abc-234 ')).toBe('ABC234');
+  });
+});
+
+describe('assignmentStatus', () => {
+  it('reports partial progress and overdue work', () => {
+    const status = assignmentStatus(
+      vocabularyAssignment,
+      [result(STUDENT, 'assignment-1', 'w1', 0.5)],
+      NOW
+    );
+
+    expect(status).toMatchObject({
+      completedItems: 1,
+      totalItems: 2,
+      completion: 50,
+      accuracy: 50,
+      completedAt: null,
+      overdue: true,
+    });
+  });
+
+  it('completes with the latest result and ignores items no longer assigned', () => {
+    const status = assignmentStatus(
+      vocabularyAssignment,
+      [
+        result(STUDENT, 'assignment-1', 'w1', 1, '2026-10-10T00:00:00.000Z'),
+        result(STUDENT, 'assignment-1', 'w2', 0, '2026-10-12T00:00:00.000Z'),
+        result(STUDENT, 'assignment-1', 'removed', 0),
+        result(STUDENT, 'assignment-2', 'w1', 0),
+      ],
+      NOW
+    );
+
+    expect(status).toMatchObject({
+      completedItems: 2,
+      completion: 100,
+      accuracy: 50,
+      completedAt: '2026-10-12T00:00:00.000Z',
+      overdue: false,
+    });
+  });
+});
+
+describe('summarizeClassProgress', () => {
+  it('summarizes each student and each assignment', () => {
+    const members = [
+      { studentId: 'a', name: 'Ana', email: null, joinedAt: '2026-10-02T00:00:00.000Z' },
+      { studentId: 'b', name: 'Ben', email: null, joinedAt: '2026-10-02T00:00:00.000Z' },
+    ];
+    const report = summarizeClassProgress(
+      'class-1',
+      members,
+      [vocabularyAssignment, imageAssignment],
+      [
+        result('a', 'assignment-1', 'w1', 1),
+        result('a', 'assignment-1', 'w2', 1, '2026-10-11T00:00:00.000Z'),
+        result('a', 'assignment-2', 'image-1', 0.5),
+      ],
+      NOW
+    );
+
+    const [ana, ben] = report.students;
+    expect(ana).toMatchObject({
+      assignmentsCompleted: 2,
+      assignmentsOverdue: 0,
+      completion: 100,
+      accuracy: 83,
+      lastActivity: '2026-10-11T00:00:00.000Z',
+    });
+    expect(ben).toMatchObject({
+      assignmentsCompleted: 0,
+      assignmentsOverdue: 1,
+      completion: 0,
+      accuracy: null,
+      lastActivity: null,
+    });
+    expect(report.assignments[0]).toMatchObject({
+      assignmentId: 'assignment-1',
+      studentsCompleted: 1,
+      completion: 50,
+      accuracy: 100,
+    });
+  });
+});
+
+describe('ClassroomService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('only lets teacher accounts create classes', async () => {
+    const { client, log } = fakeClient(table =>
+      table === 'users' ? { data: { account_role: 'learner' } } : {}
+    );
+
+    await expect(
+      new ClassroomService(client).createClass(STUDENT, { name: 'Spanish 1' })
+    ).rejects.toMatchObject({ code: 'not_teacher' });
+    expect(log.some(call => call.table === 'classes')).toBe(false);
+  });
+
+  it('draws a new join code when one is already taken', async () => {
+    let inserts = 0;
+    const { client, log } = fakeClient((table, calls) => {
+      if (table === 'users') return { data: { account_role: 'teacher' } };
+      if (hasCall(calls, 'insert')) {
+        inserts++;
+        return inserts === 1
+          ? { error: { code: '23505', message: 'duplicate key' } }
+          : { data: classRow };
+      }
+      return {};
+    });
+
+    const created = await new ClassroomService(client).createClass(TEACHER, { name: 'Spanish 1' });
+
+    expect(created).toMatchObject({ id: 'class-1', joinCode: 'ABC234', memberCount: 0 });
+    expect(log.filter(call => call.method === 'insert')).toHaveLength(2);
+  });
+
+  it('rejects unknown join codes and teachers joining their own class', async () => {
+    const unknown = fakeClient(() => ({ data: null }));
+    await expect(
+      new ClassroomService(unknown.client).joinClass(STUDENT, 'zzz999')
+    ).rejects.toMatchObject({ code: 'invalid_join_code' });
+
+    const own = fakeClient(() => ({ data: classRow }));
+    await expect(
+      new ClassroomService(own.client).joinClass(TEACHER, 'abc-234')
+    ).rejects.toMatchObject({ code: 'own_class' });
+  });
+
+  it('treats joining a class twice as success and hides the join code', async () => {
+    const { client, log } = fakeClient((table, calls) => {
+      if (table === 'classes') return { data: classRow };
+      if (hasCall(calls, 'insert')) return { error: { code: '23505', message: 'duplicate key' } };
+      return {};
+    });
+
+    const joined = await new ClassroomService(client).joinClass(STUDENT, 'abc-234');
+
+    expect(joined.id).toBe('class-1');
+    expect(joined.joinCode).toBeUndefined();
+    expect(log).toContainEqual({ table: 'classes', method: 'eq', args: ['join_code', 'ABC234'] });
+  });
+
+  it('rejects results for items outside the assignment', async () => {
+    const { client, log } = fakeClient(table => {
+      if (table === 'classes') return { data: classRow };
+      if (table === 'class_members') return { data: { id: 'member-1' } };
+      if (table === 'class_assignments') return { data: assignmentRow };
+      return {};
+    });
+
+    await expect(
+      new ClassroomService(client).recordResults(STUDENT, 'class-1', 'assignment-1', [
+        { itemId: 'w1', score: 1 },
+        { itemId: 'other', score: 1 },
+      ])
+    ).rejects.toMatchObject({ code: 'invalid_assignment' });
+    expect(log.some(call => call.method === 'upsert')).toBe(false);
+  });
+
+  it('records clamped scores and returns the student status', async () => {
+    const { client, log } = fakeClient((table, calls) => {
+      if (table === 'classes') return { data: classRow };
+      if (table === 'class_members') return { data: { id: 'member-1' } };
+      if (table === 'class_assignments') return { data: assignmentRow };
+      if (table === 'assignment_results' && hasCall(calls, 'select')) {
+        return {
+          data: [
+            {
+              assignment_id: 'assignment-1',
+              student_id: STUDENT,
+              item_id: 'w1',
+              score: '1',
+              completed_at: NOW.toISOString(),
+            },
+          ],
+        };
+      }
+      return {};
+    });
+
+    const status = await new ClassroomService(client).recordResults(
+      STUDENT,
+      'class-1',
+      'assignment-1',
+      [{ itemId: 'w1', score: 1.5 }],
+      NOW
+    );
+
+    const upsert = log.find(call => call.method === 'upsert')!;
+    expect((upsert.args[0] as Array<{ score: number }>)[0].score).toBe(1);
+    expect(upsert.args[1]).toEqual({ onConflict: 'assignment_id,student_id,item_id' });
+    expect(status).toMatchObject({ completedItems: 1, totalItems: 2, accuracy: 100 });
+  });
+
+  it('does not let the teacher record results', async () => {
+    const { client } = fakeClient(table => (table === 'classes' ? { data: classRow } : {}));
+
+    await expect(
+      new ClassroomService(client).recordResults(TEACHER, 'class-1', 'assignment-1', [])
+    ).rejects.toMatchObject({ code: 'forbidden' });
+  });
+
+  describe('image set model descriptions', () => {
+    const imageRow = {
+      ...assignmentRow,
+      id: imageAssignment.id,
+      assignment_type: 'image_set',
+      vocabulary_list_id: null,
+      items: imageAssignment.items,
+    };
+    const responder = (table: string, calls: Call[]): Result => {
+      const single = hasCall(calls, 'maybeSingle');
+      if (table === 'classes') return { data: classRow };
+      if (table === 'class_members') return { data: single ? { id: 'member-1' } : [] };
+      if (table === 'class_assignments') return { data: single ? imageRow : [imageRow] };
+      return { data: [] };
+    };
+
+    it('leaves them out of what students receive', async () => {
+      const { client } = fakeClient(responder);
+      const service = new ClassroomService(client);
+
+      const [listed] = await service.listAssignments(STUDENT, 'class-1');
+      const single = await service.getAssignment(STUDENT, 'class-1', 'assignment-2');
+
+      expect(listed.items).toEqual([{ id: 'image-1', imageUrl: 'https://example.com/market.jpg' }]);
+      expect(single.items).toEqual(listed.items);
+      expect(single.status).toMatchObject({ totalItems: 1 });
+    });
+
+    it('keeps them in the teacher copy', async () => {
+      const { client } = fakeClient(responder);
+
+      const assignment = await new ClassroomService(client).getAssignment(
+        TEACHER,
+        'class-1',
+        'assignment-2'
+      );
+
+      expect(assignment.items).toEqual(imageAssignment.items);
+    });
+
+    it('hands them to server-side review for valid images only', async () => {
+      const { client } = fakeClient(responder);
+      const service = new ClassroomService(client);
+
+      await expect(
+        service.getImageForReview(STUDENT, 'class-1', 'assignment-2', 'image-1')
+      ).resolves.toEqual({ imageUrl: 'https://example.com/market.jpg', description: 'Un mercado' });
+      await expect(
+        service.getImageForReview(STUDENT, 'class-1', 'assignment-2', 'image-9')
+      ).rejects.toMatchObject({ code: 'invalid_assignment' });
+      await expect(
+        service.getImageForReview(TEACHER, 'class-1', 'assignment-2', 'image-1')
+      ).rejects.toMatchObject({ code: 'forbidden' });
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, afterAll } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import {
+  ImageUploadError,
+  MAX_UPLOAD_BYTES,
+  THUMBNAIL_SIZE,
+  processUploadedImage,
+} from '@/lib/services/imageLibraryService';
+import { LocalImageStorage } from '@/lib/storage/imageStorage';
+
+// A 300x200 JPEG that says it should be shown rotated 90°, with GPS and camera data
+const photoWithExif = () =>
+  sharp({ create: { width: 300, height: 200, channels: 3, background: '#c04020' } })
+    .jpeg()
+    .withMetadata({
+      orientation: 6,
+      exif: {
+        IFD0: { Make: 'PhoneCo', Model: 'Pocket 9' },
+        IFD3: { GPSLatitudeRef: 'N', GPSLatitude: '40/1 25/1 0/1' },
+      },
+    })
+    .toBuffer();
+
+describe('processUploadedImage', () => {
+  it('should apply the orientation and strip EXIF and GPS data', async () => {
+    const original = await photoWithExif();
+    expect((await sharp(original).metadata()).exif).toBeDefined();
+
+    const processed = await processUploadedImage(original);
+    const metadata = await sharp(processed.image).metadata();
+
+    expect(metadata).toMatchObject({ format: 'webp', width: 200, height: 300 });
+    expect(metadata.exif).toBeUndefined();
+    expect(metadata.orientation).toBeUndefined();
+    expect(processed).toMatchObject({ width: 200, height: 300 });
+    expect(processed.color).toMatch(/^#[0-9a-f]{6}$/);
+  });
+
+  it('should cut a square thumbnail', async () => {
+    const processed = await processUploadedImage(await photoWithExif());
+    const thumbnail = await sharp(processed.thumbnail).metadata();
+
+    expect(thumbnail).toMatchObject({ width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE });
+    expect(thumbnail.exif).toBeUndefined();
+  });
+
+  it('should scale large images down without enlarging small ones', async () => {
+    const large = await sharp({
+      create: { width: 4000, height: 1000, channels: 3, background: '#ffffff' },
+    })
+      .png()
+      .toBuffer();
+
+    expect(await processUploadedImage(large)).toMatchObject({ width: 2048, height: 512 });
+  });
+
+  it('should reject files that are not images or are too large', async () => {
+    await expect(processUploadedImage(Buffer.from('not an image'))).rejects.toMatchObject({
+      code: 'invalid_image',
+    });
+    await expect(processUploadedImage(Buffer.alloc(MAX_UPLOAD_BYTES + 1))).rejects.toBeInstanceOf(
+      ImageUploadError
+    );
+  });
+});
+
+describe('LocalImageStorage', () => {
+  const roots: string[] = [];
+
+  afterAll(async () => {
+    await Promise.all(roots.map(root => rm(root, { recursive: true, force: true })));
+  });
+
+  it('should store, read and delete files under its root', async () => {
+    const root = await mkdtemp(path.join(os.tmpdir(), 'image-library-'));
+    roots.push(root);
+    const storage = new LocalImageStorage(root);
+
+    await storage.put('user-1/abc.webp', Buffer.from('image bytes'), 'image/webp');
+    expect(await storage.get('user-1/abc.webp')).toEqual({
+      body: Buffer.from('image bytes'),
+      contentType: 'image/webp',
+    });
+
+    await storage.delete('user-1/abc.webp');
+    expect(await storage.get('user-1/abc.webp')).toBeNull();
+  });
+
+  it('should refuse keys that leave the storage root', async () => {
+    const storage = new LocalImageStorage(os.tmpdir());
+
+    await expect(storage.get('../etc/passwd')).rejects.toThrow('Invalid storage key');
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const db = vi.hoisted(() => ({
+  inserts: [] as Array<{ table: string; rows: any[] }>,
+  qaResponses: [] as any[],
+}));
+
+vi.mock('@/lib/services/openaiService', () => ({
+  openAIService: { isAvailable: () => false },
+}));
+
+vi.mock('@/lib/services/translationService', () => ({
+  translationService: {},
+}));
+
+vi.mock('@/lib/supabase', () => {
+  const from = (table: string) => {
+    const result = () =>
+      table === 'qa_responses'
+        ? { data: db.qaResponses, error: null, count: db.qaResponses.length }
+        : { data: [], error: null, count: 0 };
+    const query: any = {
+      select: () => query,
+      eq: () => query,
+      in: () => query,
+      order: () => query,
+      limit: () => query,
+      range: () => query,
+      upsert: async () => ({ error: null }),
+      insert: async (rows: any[]) => {
+        db.inserts.push({ table, rows });
+        return { error: null };
+      },
+      then: (resolve: (value: unknown) => unknown) => resolve(result()),
+    };
+    return query;
+  };
+  return { supabase: { from }, supabaseAdmin: null };
+});
+
+import { QAService } from '@/lib/services/qaService';
+
+describe('QAService answer errors', () => {
+  let service: QAService;
+
+  beforeEach(() => {
+    service = new QAService();
+    db.inserts = [];
+    db.qaResponses = [];
+  });
+
+  it('should name the errors in a free-text answer and store their categories', async () => {
+    const validation = await service.validateAnswer({
+      questionId: 'q1',
+      question: '¿Qué hacen los niños?',
+      userAnswer: 'Los niño juega en el parque',
+      expectedAnswer: 'Los niños juegan en el parque',
+      language: 'es',
+      userId: 'user-1',
+    });
+
+    expect(validation.errors.map(error => error.category)).toEqual(['agreement', 'conjugation']);
+    expect(validation.correctedAnswer).toBe('Los niños juegan en el parque');
+    expect(validation.details.grammarIssues).toHaveLength(2);
+
+    const stored = db.inserts.find(insert => insert.table === 'qa_responses')!.rows[0];
+    expect(stored).toMatchObject({
+      user_id: 'user-1',
+      question: '¿Qué hacen los niños?',
+      error_categories: ['agreement', 'conjugation'],
+    });
+    expect(stored.grammar_errors).toHaveLength(2);
+  });
+
+  it('should report accent slips on typed cloze answers', async () => {
+    const validation = await service.validateAnswer({
+      questionId: 'q2',
+      userAnswer: 'arbol',
+      expectedAnswer: 'árbol',
+      language: 'es',
+      kind: 'cloze',
+    });
+
+    expect(validation.isCorrect).toBe(true);
+    expect(validation.errors).toEqual([
+      expect.objectContaining({ category: 'accents', original: 'arbol', correction: 'árbol' }),
+    ]);
+  });
+
+  it('should roll recorded errors up into weak areas for a user', async () => {
+    db.qaResponses = [
+      {
+        error_categories: ['agreement'],
+        grammar_errors: [
+          { category: 'agreement', original: 'blanco', correction: 'blanca', message: '' },
+        ],
+        created_at: '2026-10-18T10:00:00Z',
+      },
+      {
+        error_categories: ['agreement', 'accents'],
+        grammar_errors: [
+          { category: 'agreement', original: 'la', correction: 'el', message: '' },
+          { category: 'accents', original: 'arbol', correction: 'árbol', message: '' },
+        ],
+        created_at: '2026-10-17T10:00:00Z',
+      },
+      { error_categories: [], grammar_errors: [], created_at: '2026-10-16T10:00:00Z' },
+      { error_categories: [], grammar_errors: [], created_at: '2026-10-15T10:00:00Z' },
+    ];
+
+    const stats = await service.getQAStats('user-1');
+
+    expect(stats.responsesAnalyzed).toBe(4);
+    expect(stats.weakAreas).toEqual([
+      {
+        category: 'agreement',
+        count: 2,
+        rate: 0.5,
+        lastSeen: '2026-10-18T10:00:00Z',
+        examples: [
+          { original: 'blanco', correction: 'blanca' },
+          { original: 'la', correction: 'el' },
+        ],
+      },
+      {
+        category: 'accents',
+        count: 1,
+        rate: 0.25,
+        lastSeen: '2026-10-17T10:00:00Z',
+        examples: [{ original: 'arbol', correction: 'árbol' }],
+      },
+    ]);
+  });
+});
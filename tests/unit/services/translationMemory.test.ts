@@ -0,0 +1,226 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  TranslationMemory,
+  enforceGlossary,
+  findGlossaryTerms,
+  glossaryTranslation,
+  normalizeSegment,
+  type GlossaryTerm,
+} from '@/lib/services/translationMemory';
+
+const term = (overrides: Partial<GlossaryTerm>): GlossaryTerm => ({
+  id: 't1',
+  listId: null,
+  fromLanguage: 'en',
+  toLanguage: 'es',
+  sourceTerm: 'car',
+  targetTerm: 'carro',
+  alternatives: ['coche', 'auto'],
+  region: null,
+  note: null,
+  ...overrides,
+});
+
+describe('glossary helpers', () => {
+  it('should normalize segments for memory keys', () => {
+    expect(normalizeSegment('  ¿Dónde está   el coche? ')).toBe('dónde está el coche');
+    expect(normalizeSegment('"The red car."')).toBe('the red car');
+  });
+
+  it('should answer a text that is itself a glossary term', () => {
+    expect(glossaryTranslation('Car.', [term({})])?.targetTerm).toBe('carro');
+    expect(glossaryTranslation('The car', [term({})])).toBeNull();
+  });
+
+  it('should only match whole words', () => {
+    expect(findGlossaryTerms('I need a new car', [term({})])).toHaveLength(1);
+    expect(findGlossaryTerms('Put it in the cart', [term({})])).toHaveLength(0);
+  });
+
+  it('should replace alternatives in a translation and keep their case', () => {
+    const result = enforceGlossary(
+      'The car is next to my car',
+      'El coche está al lado de mi coche. Coche rojo.',
+      [term({})]
+    );
+
+    expect(result.text).toBe('El carro está al lado de mi carro. Carro rojo.');
+    expect(result.corrections).toHaveLength(3);
+  });
+
+  it('should leave translations alone when the source has no glossary term', () => {
+    const result = enforceGlossary('The bus', 'El coche', [term({})]);
+    expect(result).toMatchObject({ text: 'El coche', matched: [], corrections: [] });
+  });
+});
+
+describe('TranslationMemory', () => {
+  const fakeClient = (rows: unknown[], terms: unknown[] = []) => {
+    const eq = vi.fn();
+    const builder = { select: vi.fn(), update: vi.fn(), upsert: vi.fn(), eq };
+    builder.select.mockReturnValue(builder);
+    builder.update.mockReturnValue(builder);
+    builder.upsert.mockResolvedValue({ error: null });
+    // The glossary query ends with its third eq() and is awaited directly
+    let calls = 0;
+    eq.mockImplementation(() =>
+      ++calls % 3 === 0 ? Promise.resolve({ data: terms, error: null }) : builder
+    );
+    return {
+      rpc: vi.fn().mockResolvedValue({ data: rows, error: null }),
+      from: vi.fn().mockReturnValue(builder),
+      builder,
+    };
+  };
+
+  const memoryFor = (client: ReturnType<typeof fakeClient>) =>
+    new TranslationMemory(async () => client as unknown as SupabaseClient);
+
+  it('should count exact and fuzzy hits in its stats', async () => {
+    const exact = fakeClient([
+      {
+        id: 'm1',
+        list_id: null,
+        source_text: 'car',
+        target_text: 'carro',
+        origin: 'user',
+        similarity: 1,
+      },
+    ]);
+    const memory = memoryFor(exact);
+
+    const match = await memory.lookup({ userId: 'u1' }, 'Car.', 'en', 'es');
+    expect(match).toMatchObject({ targetText: 'carro', exact: true, origin: 'user' });
+    expect(exact.rpc).toHaveBeenCalledWith(
+      'match_translation_memory',
+      expect.objectContaining({ p_user_id: 'u1', p_list_id: null, p_text: 'car' })
+    );
+
+    exact.rpc.mockResolvedValueOnce({
+      data: [
+        {
+          id: 'm2',
+          list_id: null,
+          source_text: 'red car',
+          target_text: 'carro rojo',
+          origin: 'llm',
+          similarity: 0.8,
+        },
+      ],
+      error: null,
+    });
+    expect(await memory.lookup({ userId: 'u1' }, 'red cars', 'en', 'es')).toMatchObject({
+      exact: false,
+    });
+
+    exact.rpc.mockResolvedValueOnce({ data: [], error: null });
+    expect(await memory.lookup({ userId: 'u1' }, 'bus', 'en', 'es')).toBeNull();
+
+    expect(memory.getStats()).toMatchObject({
+      lookups: 3,
+      exactHits: 1,
+      fuzzyHits: 1,
+      misses: 1,
+      hitRate: 2 / 3,
+    });
+  });
+
+  it('should treat lookup errors as misses', async () => {
+    const client = fakeClient([]);
+    client.rpc.mockResolvedValueOnce({ data: null, error: new Error('relation does not exist') });
+    const memory = memoryFor(client);
+
+    expect(await memory.lookup({ userId: 'u1' }, 'car', 'en', 'es')).toBeNull();
+    expect(memory.getStats().misses).toBe(1);
+  });
+
+  it('should filter the glossary by list and region, list terms first', async () => {
+    const client = fakeClient(
+      [],
+      [
+        {
+          id: 'a',
+          list_id: null,
+          from_language: 'en',
+          to_language: 'es',
+          source_term: 'car',
+          target_term: 'carro',
+          alternatives: null,
+          region: 'es-MX',
+          note: null,
+        },
+        {
+          id: 'b',
+          list_id: null,
+          from_language: 'en',
+          to_language: 'es',
+          source_term: 'car',
+          target_term: 'coche',
+          alternatives: null,
+          region: 'es-ES',
+          note: null,
+        },
+        {
+          id: 'c',
+          list_id: 'l1',
+          from_language: 'en',
+          to_language: 'es',
+          source_term: 'bus',
+          target_term: 'camión',
+          alternatives: null,
+          region: null,
+          note: null,
+        },
+        {
+          id: 'd',
+          list_id: 'l2',
+          from_language: 'en',
+          to_language: 'es',
+          source_term: 'bus',
+          target_term: 'guagua',
+          alternatives: null,
+          region: null,
+          note: null,
+        },
+      ]
+    );
+    const memory = memoryFor(client);
+
+    const terms = await memory.getGlossary(
+      { userId: 'u1', listId: 'l1', region: 'es-MX' },
+      'en',
+      'es'
+    );
+    expect(terms.map(t => t.id)).toEqual(['c', 'a']);
+
+    // Served from the cache until invalidated
+    await memory.getGlossary({ userId: 'u1' }, 'en', 'es');
+    expect(client.from).toHaveBeenCalledTimes(1);
+    memory.invalidateGlossary('u1');
+    await memory.getGlossary({ userId: 'u1' }, 'en', 'es');
+    expect(client.from).toHaveBeenCalledTimes(2);
+  });
+
+  it('should upsert remembered translations by normalized segment', async () => {
+    const client = fakeClient([]);
+    const memory = memoryFor(client);
+
+    const stored = await memory.remember(
+      { userId: 'u1', listId: 'l1' },
+      {
+        sourceText: 'The car.',
+        targetText: 'El carro.',
+        fromLanguage: 'en',
+        toLanguage: 'es',
+        origin: 'user',
+      }
+    );
+
+    expect(stored).toBe(true);
+    expect(client.builder.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ list_id: 'l1', source_normalized: 'the car', origin: 'user' }),
+      { onConflict: 'user_id,list_id,from_language,to_language,source_normalized' }
+    );
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { useTabSyncStore } from '@/lib/store/tabSyncStore';
+import { conflictKey } from '@/lib/utils/threeWayMerge';
+
+interface SessionState {
+  settings: { goal: number; audio: boolean };
+}
+
+const registerSessionStore = (initial: SessionState) => {
+  let state = initial;
+  useTabSyncStore.getState().registerStore(
+    'learning-session',
+    () => state,
+    (next: SessionState) => {
+      state = next;
+    }
+  );
+  return {
+    get: () => state,
+    set: (next: SessionState) => {
+      state = next;
+    },
+  };
+};
+
+const receive = (data: SessionState) =>
+  useTabSyncStore.getState()._handleMessage({
+    type: 'state-update',
+    tabId: 'other-tab',
+    timestamp: new Date(),
+    storeKey: 'learning-session',
+    data,
+    conflictStrategy: 'manual',
+  });
+
+describe('tabSyncStore conflict resolution', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    useTabSyncStore.setState({ conflicts: [] });
+  });
+
+  afterEach(() => {
+    useTabSyncStore.getState().unregisterStore('learning-session');
+    vi.useRealTimers();
+  });
+
+  it('should merge non-overlapping edits against the shared snapshot', () => {
+    const store = registerSessionStore({ settings: { goal: 10, audio: false } });
+    useTabSyncStore.getState().broadcastUpdate('learning-session', store.get());
+    vi.runAllTimers();
+
+    store.set({ settings: { goal: 20, audio: false } });
+    receive({ settings: { goal: 10, audio: true } });
+
+    expect(store.get()).toEqual({ settings: { goal: 20, audio: true } });
+    expect(useTabSyncStore.getState().conflicts).toHaveLength(0);
+  });
+
+  it('should queue true conflicts and apply the chosen side per field', () => {
+    const store = registerSessionStore({ settings: { goal: 10, audio: false } });
+    useTabSyncStore.getState().broadcastUpdate('learning-session', store.get());
+    vi.runAllTimers();
+
+    store.set({ settings: { goal: 20, audio: false } });
+    receive({ settings: { goal: 30, audio: true } });
+
+    const [conflict] = useTabSyncStore.getState().conflicts;
+    expect(conflict.fields.map(field => field.path)).toEqual([['settings', 'goal']]);
+    // Non-conflicting remote edits apply right away; the clash keeps the local value
+    expect(store.get()).toEqual({ settings: { goal: 20, audio: true } });
+
+    useTabSyncStore
+      .getState()
+      .resolveConflict(conflict.id, { [conflictKey(['settings', 'goal'])]: 'remote' });
+
+    expect(store.get()).toEqual({ settings: { goal: 30, audio: true } });
+    expect(useTabSyncStore.getState().conflicts).toHaveLength(0);
+  });
+
+  it('should defer to a custom resolver when one is configured', () => {
+    const onConflict = vi.fn((_local, remote) => remote);
+    useTabSyncStore.setState(state => ({ config: { ...state.config, onConflict } }));
+
+    const store = registerSessionStore({ settings: { goal: 10, audio: false } });
+    useTabSyncStore.getState().broadcastUpdate('learning-session', store.get());
+    vi.runAllTimers();
+
+    store.set({ settings: { goal: 20, audio: false } });
+    receive({ settings: { goal: 30, audio: false } });
+
+    expect(onConflict).toHaveBeenCalledWith(
+      { settings: { goal: 20, audio: false } },
+      { settings: { goal: 30, audio: false } },
+      'learning-session',
+      expect.objectContaining({
+        conflicts: [expect.objectContaining({ path: ['settings', 'goal'] })],
+      })
+    );
+    expect(store.get().settings.goal).toBe(30);
+    useTabSyncStore.setState(state => ({ config: { ...state.config, onConflict: undefined } }));
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeAnswerErrors, applyErrorPenalties } from '@/lib/utils/answerErrors';
+
+const categories = (userAnswer: string, expected: string, language: 'es' | 'en' = 'es') =>
+  analyzeAnswerErrors(userAnswer, expected, language).errors.map(error => [
+    error.category,
+    error.original,
+    error.correction,
+  ]);
+
+describe('analyzeAnswerErrors', () => {
+  it('should name gender and number agreement slips', () => {
+    expect(categories('La casa blanco', 'La casa blanca')).toEqual([
+      ['agreement', 'blanco', 'blanca'],
+    ]);
+    expect(categories('la perro', 'el perro')).toEqual([['agreement', 'la', 'el']]);
+    expect(categories('These dog is big', 'This dog is big', 'en')).toEqual([
+      ['agreement', 'These', 'This'],
+    ]);
+  });
+
+  it('should tell verb forms apart from adjectives by the subject before them', () => {
+    expect(categories('Ellos habla en el parque', 'Ellos hablan en el parque')).toEqual([
+      ['conjugation', 'habla', 'hablan'],
+    ]);
+    expect(categories('El perro corrió', 'El perro corre')).toEqual([
+      ['conjugation', 'corrió', 'corre'],
+    ]);
+    expect(categories('She go to school', 'She goes to school', 'en')).toEqual([
+      ['conjugation', 'go', 'goes'],
+    ]);
+  });
+
+  it('should separate accent marks from spelling and build the corrected answer', () => {
+    const analysis = analyzeAnswerErrors(
+      'El perro es marron y grnade',
+      'El perro es marrón y grande',
+      'es'
+    );
+
+    expect(analysis.errors.map(error => error.category)).toEqual(['accents', 'spelling']);
+    expect(analysis.correctedAnswer).toBe('El perro es marrón y grande');
+  });
+
+  it('should report word order as a single error', () => {
+    const analysis = analyzeAnswerErrors('perro el corre', 'el perro corre', 'es');
+
+    expect(analysis.errors).toHaveLength(1);
+    expect(analysis.errors[0]).toMatchObject({
+      category: 'word_order',
+      correction: 'el perro corre',
+    });
+  });
+
+  it('should leave unrelated words to the semantic check', () => {
+    expect(categories('Un gato come', 'Un perro corre')).toEqual([]);
+  });
+});
+
+describe('applyErrorPenalties', () => {
+  it('should weigh accent slips lighter than grammar errors', () => {
+    const { errors } = analyzeAnswerErrors('Los niño arbol', 'Los niños árbol', 'es');
+    expect(applyErrorPenalties(100, errors)).toBe(80);
+    expect(applyErrorPenalties(10, errors)).toBe(0);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import {
+  blankWord,
+  buildContrastDrill,
+  buildContrastDrills,
+  scoreContrastDrill,
+  type ConfusablePair,
+  type ContrastWord,
+} from '@/lib/utils/contrastDrills';
+
+const pair = (word1: string, word2: string, confusionRate = 0.5): ConfusablePair => ({
+  word1Id: `id-${word1}`,
+  word2Id: `id-${word2}`,
+  word1,
+  word2,
+  confusionRate,
+});
+
+describe('blankWord', () => {
+  it('should blank whole words only, accents included', () => {
+    expect(blankWord('Vivo en España desde 2019.', 'España')).toBe('Vivo en ___ desde 2019.');
+    expect(blankWord('Compré un libro en la librería.', 'libro')).toBe(
+      'Compré un ___ en la librería.'
+    );
+    expect(blankWord('La mesa está limpia.', 'la mesa')).toBe('La ___ está limpia.');
+    expect(blankWord('Está cansado.', 'está')).toBe('___ cansado.');
+    expect(blankWord('Estaba cansado.', 'está')).toBeNull();
+  });
+});
+
+describe('buildContrastDrill', () => {
+  it('should use the curated sentences and rules for classic pairs', () => {
+    const drill = buildContrastDrill(pair('ser', 'estar'))!;
+
+    expect(drill.kind).toBe('grammar');
+    expect(drill.notes[0]).toMatch(/Identity/);
+    expect(drill.exercises[0]).toMatchObject({
+      prompt: 'Mi hermana ___ médica.',
+      options: ['es', 'está'],
+      answer: 0,
+    });
+  });
+
+  it('should keep options and notes in pair order when the pair is reversed', () => {
+    const drill = buildContrastDrill(pair('estar', 'ser'))!;
+
+    expect(drill.notes[1]).toMatch(/Identity/);
+    expect(drill.exercises[0]).toMatchObject({ options: ['está', 'es'], answer: 1 });
+  });
+
+  it('should drill other pairs from their context sentences and translations', () => {
+    const details = new Map<string, ContrastWord>([
+      [
+        'id-cansado',
+        {
+          id: 'id-cansado',
+          text: 'cansado',
+          translation: 'tired',
+          context: 'Estoy cansado después del trabajo.',
+        },
+      ],
+      ['id-casado', { id: 'id-casado', text: 'casado', translation: 'married' }],
+    ]);
+
+    const drill = buildContrastDrill(pair('cansado', 'casado'), details)!;
+
+    expect(drill.kind).toBe('vocabulary');
+    expect(drill.notes).toEqual(['tired', 'married']);
+    expect(drill.exercises.map(e => [e.kind, e.prompt, e.answer])).toEqual([
+      ['sentence', 'Estoy ___ después del trabajo.', 0],
+      ['meaning', 'Which word means "tired"?', 0],
+      ['meaning', 'Which word means "married"?', 1],
+    ]);
+  });
+
+  it('should skip pairs with nothing to tell them apart', () => {
+    const details = new Map<string, ContrastWord>([
+      ['id-coger', { id: 'id-coger', text: 'coger', translation: 'to take' }],
+      ['id-tomar', { id: 'id-tomar', text: 'tomar', translation: 'to take' }],
+    ]);
+
+    expect(buildContrastDrill(pair('coger', 'tomar'), details)).toBeNull();
+    expect(buildContrastDrill(pair('', 'tomar'))).toBeNull();
+  });
+});
+
+describe('buildContrastDrills', () => {
+  it('should order by confusion and drill each pair once', () => {
+    const drills = buildContrastDrills([
+      pair('por', 'para', 0.6),
+      pair('saber', 'conocer', 0.9),
+      { ...pair('para', 'por', 0.6), word1Id: 'id-para', word2Id: 'id-por' },
+      pair('ser', 'estar', 0.7),
+    ]);
+
+    expect(drills.map(d => d.topic)).toEqual(['saber / conocer', 'ser / estar', 'por / para']);
+    expect(
+      buildContrastDrills([pair('ser', 'estar'), pair('por', 'para')], new Map(), 1)
+    ).toHaveLength(1);
+  });
+});
+
+describe('scoreContrastDrill', () => {
+  it('should count answered exercises only', () => {
+    const drill = buildContrastDrill(pair('ser', 'estar'))!;
+
+    expect(scoreContrastDrill(drill, [0, 0, undefined, 1])).toEqual({
+      word1Id: 'id-ser',
+      word2Id: 'id-estar',
+      correct: 2,
+      total: 3,
+    });
+  });
+});
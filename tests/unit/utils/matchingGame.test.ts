@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildMatchingRound,
+  isMatch,
+  matchingItemsFromRegions,
+  regionBackgroundStyle,
+  scoreMatching,
+  type MatchingSourceItem,
+} from '@/lib/utils/matchingGame';
+
+const words: MatchingSourceItem[] = [
+  { id: '1', text: 'el perro', translation: 'the dog' },
+  { id: '2', text: 'el gato', translation: 'the cat' },
+  { id: '3', text: 'la casa', translation: 'the house' },
+  { id: '4', text: 'el árbol', translation: 'the tree' },
+  { id: '5', text: 'la mesa' },
+];
+
+describe('buildMatchingRound', () => {
+  it('should pair each word with its translation, skipping words without one', () => {
+    const round = buildMatchingRound(words, 'translation', { seed: 'a' });
+
+    expect(round.words).toHaveLength(4);
+    expect(round.targets).toHaveLength(4);
+    for (const word of round.words) {
+      const target = round.targets.find(card => card.pairId === word.pairId);
+      expect(target?.label).toBe(words.find(item => item.id === word.pairId)?.translation);
+    }
+  });
+
+  it('should be stable for a seed and limited to the round size', () => {
+    const first = buildMatchingRound(words, 'translation', { seed: 'a', size: 3 });
+    const again = buildMatchingRound(words, 'translation', { seed: 'a', size: 3 });
+
+    expect(first.words).toHaveLength(3);
+    expect(again).toEqual(first);
+  });
+
+  it('should leave out pairs that could be matched either way', () => {
+    const round = buildMatchingRound(
+      [...words, { id: '6', text: 'el can', translation: 'The dog!' }],
+      'translation'
+    );
+
+    expect(round.words.filter(word => ['1', '6'].includes(word.pairId))).toHaveLength(1);
+  });
+
+  it('should use image crops as targets in image mode', () => {
+    const items = matchingItemsFromRegions('https://example.com/park.jpg', [
+      { x: 0, y: 0, width: 0.5, height: 0.5, label: 'el perro' },
+      { x: 0.5, y: 0.5, width: 0.5, height: 0.5, label: 'el banco' },
+    ]);
+    const round = buildMatchingRound(items, 'image');
+
+    expect(round.targets).toHaveLength(2);
+    expect(round.targets.every(target => !target.label && target.region)).toBe(true);
+  });
+});
+
+describe('isMatch', () => {
+  it('should only match a word with its own target', () => {
+    const round = buildMatchingRound(words, 'translation');
+    const [word] = round.words;
+
+    expect(isMatch(word, round.targets.find(card => card.pairId === word.pairId)!)).toBe(true);
+    expect(isMatch(word, round.targets.find(card => card.pairId !== word.pairId)!)).toBe(false);
+  });
+});
+
+describe('scoreMatching', () => {
+  it('should count only first-try matches as known', () => {
+    const round = buildMatchingRound(words, 'translation', { size: 3 });
+    const [a, b, c] = round.words.map(word => word.pairId);
+
+    const score = scoreMatching(round, [
+      { pairId: a, correct: true },
+      { pairId: b, correct: false },
+      { pairId: b, correct: false },
+      { pairId: b, correct: true },
+      { pairId: c, correct: true },
+    ]);
+
+    expect(score).toEqual({
+      total: 3,
+      matched: 3,
+      firstTry: 2,
+      mistakes: 2,
+      accuracy: 67,
+      missed: [b],
+    });
+  });
+});
+
+describe('regionBackgroundStyle', () => {
+  it('should scale and position the image to show only the region', () => {
+    expect(
+      regionBackgroundStyle('https://example.com/a.jpg', {
+        x: 0.5,
+        y: 0.25,
+        width: 0.5,
+        height: 0.5,
+      })
+    ).toEqual({
+      backgroundImage: 'url("https://example.com/a.jpg")',
+      backgroundSize: '200% 200%',
+      backgroundPosition: '100% 50%',
+    });
+  });
+
+  it('should show the whole image without a region', () => {
+    expect(regionBackgroundStyle('a.jpg').backgroundPosition).toBe('0% 0%');
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { buildTypedQuestions, CLOZE_GAP, gradeTypedAnswer } from '@/lib/utils/questionKinds';
+
+const description =
+  'Un perro marrón corre por el parque. Los niños juegan cerca del árbol grande. ' +
+  'El cielo está despejado y brilla el sol.';
+
+const vocabulary = [
+  { term: 'perro', translation: 'dog', category: 'animales' },
+  { term: 'gato', translation: 'cat', category: 'animales' },
+  { term: 'caballo', translation: 'horse', category: 'animales' },
+  { term: 'mesa', translation: 'table', category: 'casa' },
+  { term: 'pájaro', translation: 'bird', category: 'animales' },
+];
+
+describe('buildTypedQuestions', () => {
+  it('should blank out a saved word in a cloze question', () => {
+    const [question] = buildTypedQuestions({
+      description,
+      language: 'es',
+      count: 1,
+      kinds: ['cloze'],
+      vocabulary,
+    });
+
+    expect(question.kind).toBe('cloze');
+    expect(question.answer).toBe('perro');
+    expect(question.question).toBe(`Un ${CLOZE_GAP} marrón corre por el parque.`);
+  });
+
+  it('should draw multiple-choice distractors from the same vocabulary category', () => {
+    const [question] = buildTypedQuestions({
+      description,
+      language: 'es',
+      count: 1,
+      kinds: ['multiple_choice'],
+      vocabulary,
+    });
+
+    expect(question.options).toHaveLength(4);
+    expect(question.options![question.correctOption!]).toBe('perro');
+    expect(new Set(question.options)).toEqual(new Set(['caballo', 'gato', 'pájaro', 'perro']));
+  });
+
+  it('should build the same quiz for the same description', () => {
+    const source = { description, language: 'es' as const, count: 6, vocabulary };
+    expect(buildTypedQuestions(source)).toEqual(buildTypedQuestions(source));
+  });
+
+  it('should rotate kinds and skip image regions when none are labelled', () => {
+    const questions = buildTypedQuestions({ description, language: 'es', count: 3, vocabulary });
+    expect(questions.map(question => question.kind)).toEqual([
+      'cloze',
+      'multiple_choice',
+      'true_false',
+    ]);
+
+    const [region] = buildTypedQuestions({
+      description,
+      language: 'en',
+      count: 1,
+      kinds: ['image_region'],
+      regions: [
+        { label: 'perro', alternatives: ['perrito'], x: 0.1, y: 0.2, width: 0.3, height: 0.4 },
+      ],
+    });
+    expect(region).toMatchObject({
+      kind: 'image_region',
+      answer: 'perro',
+      acceptedAnswers: ['perrito'],
+      region: { x: 0.1, y: 0.2, width: 0.3, height: 0.4 },
+    });
+  });
+});
+
+describe('gradeTypedAnswer', () => {
+  it('should accept an option index or its text for multiple choice', () => {
+    const question = {
+      kind: 'multiple_choice' as const,
+      answer: 'perro',
+      options: ['gato', 'perro', 'mesa'],
+      correctOption: 1,
+    };
+
+    expect(gradeTypedAnswer(question, '1', 'es').isCorrect).toBe(true);
+    expect(gradeTypedAnswer(question, 'Perro', 'es').isCorrect).toBe(true);
+    expect(gradeTypedAnswer(question, '0', 'es').isCorrect).toBe(false);
+  });
+
+  it('should read true/false answers in either language', () => {
+    const question = { kind: 'true_false' as const, answer: 'false' };
+
+    expect(gradeTypedAnswer(question, 'Falso', 'es').isCorrect).toBe(true);
+    expect(gradeTypedAnswer(question, 'true', 'es').isCorrect).toBe(false);
+    expect(gradeTypedAnswer(question, 'quizás', 'es').feedback).toBe('Responde verdadero o falso.');
+  });
+
+  it('should give partial credit when only the accents are off', () => {
+    const question = { kind: 'cloze' as const, answer: 'árbol' };
+
+    expect(gradeTypedAnswer(question, 'Árbol.', 'es')).toMatchObject({
+      isCorrect: true,
+      exactMatch: true,
+      score: 100,
+    });
+    expect(gradeTypedAnswer(question, 'arbol', 'es')).toMatchObject({
+      isCorrect: true,
+      accentSlip: true,
+      score: 90,
+    });
+    expect(gradeTypedAnswer(question, 'árboles', 'es').isCorrect).toBe(false);
+  });
+
+  it('should accept alternative labels for image regions', () => {
+    const question = {
+      kind: 'image_region' as const,
+      answer: 'perro',
+      acceptedAnswers: ['perrito'],
+    };
+    expect(gradeTypedAnswer(question, 'perrito', 'es').isCorrect).toBe(true);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { applyConflictChoices, conflictKey, threeWayMerge } from '@/lib/utils/threeWayMerge';
+
+describe('threeWayMerge', () => {
+  it('should combine edits to different fields', () => {
+    const base = { settings: { goal: 10, audio: false }, theme: 'light' };
+    const local = { settings: { goal: 20, audio: false }, theme: 'light' };
+    const remote = { settings: { goal: 10, audio: true }, theme: 'dark' };
+
+    const { merged, conflicts } = threeWayMerge(base, local, remote);
+
+    expect(conflicts).toEqual([]);
+    expect(merged).toEqual({ settings: { goal: 20, audio: true }, theme: 'dark' });
+  });
+
+  it('should report fields changed differently on both sides and keep the local value', () => {
+    const base = { settings: { goal: 10 } };
+
+    const { merged, conflicts } = threeWayMerge(
+      base,
+      { settings: { goal: 20 } },
+      { settings: { goal: 30 } }
+    );
+
+    expect(merged).toEqual({ settings: { goal: 20 } });
+    expect(conflicts).toEqual([{ path: ['settings', 'goal'], base: 10, local: 20, remote: 30 }]);
+  });
+
+  it('should merge arrays of identified items item by item', () => {
+    const base = {
+      words: [
+        { id: 'a', text: 'perro' },
+        { id: 'b', text: 'gato' },
+      ],
+    };
+    const local = {
+      words: [
+        { id: 'a', text: 'el perro' },
+        { id: 'b', text: 'gato' },
+        { id: 'c', text: 'casa' },
+      ],
+    };
+    const remote = {
+      words: [
+        { id: 'a', text: 'perro' },
+        { id: 'd', text: 'mesa' },
+      ],
+    };
+
+    const { merged, conflicts } = threeWayMerge(base, local, remote);
+
+    expect(conflicts).toEqual([]);
+    // 'b' was removed remotely, 'c' added locally, 'd' added remotely
+    expect(merged.words.map(word => word.id)).toEqual(['a', 'c', 'd']);
+    expect(merged.words[0].text).toBe('el perro');
+  });
+
+  it('should flag an item edited on one side and removed on the other', () => {
+    const base = { words: [{ id: 'a', text: 'perro' }] };
+
+    const { merged, conflicts } = threeWayMerge(
+      base,
+      { words: [{ id: 'a', text: 'el perro' }] },
+      {
+        words: [],
+      }
+    );
+
+    expect(merged.words).toHaveLength(1);
+    expect(conflicts).toEqual([
+      {
+        path: ['words', 'a'],
+        base: base.words[0],
+        local: { id: 'a', text: 'el perro' },
+        remote: undefined,
+      },
+    ]);
+  });
+});
+
+describe('applyConflictChoices', () => {
+  it('should apply remote choices and drop removed values', () => {
+    const base = { settings: { goal: 10 }, words: [{ id: 'a', text: 'perro' }] };
+    const { merged, conflicts } = threeWayMerge(
+      base,
+      { settings: { goal: 20 }, words: [{ id: 'a', text: 'el perro' }] },
+      { settings: { goal: 30 }, words: [] }
+    );
+
+    const resolved = applyConflictChoices(merged, conflicts, {
+      [conflictKey(['settings', 'goal'])]: 'local',
+      [conflictKey(['words', 'a'])]: 'remote',
+    });
+
+    expect(resolved).toEqual({ settings: { goal: 20 }, words: [] });
+  });
+});
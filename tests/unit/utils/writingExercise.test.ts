@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { compareWithReference, findVocabularyUsed } from '@/lib/utils/writingExercise';
+
+const vocabulary = [
+  { id: 'v1', text: 'la mesa', translation: 'the table' },
+  { id: 'v2', text: 'el árbol', translation: 'the tree' },
+  { id: 'v3', text: 'sentarse', translation: 'to sit down' },
+  { id: 'v4', text: 'perro callejero', translation: 'stray dog' },
+];
+
+describe('findVocabularyUsed', () => {
+  it('should find saved words in order, ignoring articles, accents and plurals', () => {
+    const used = findVocabularyUsed(
+      'Hay dos arboles grandes y un perro callejero junto a las mesas.',
+      vocabulary
+    );
+
+    expect(used.map(use => [use.id, use.usedAs])).toEqual([
+      ['v2', 'arboles'],
+      ['v4', 'perro callejero'],
+      ['v1', 'mesas'],
+    ]);
+  });
+
+  it('should not match words that merely share a beginning', () => {
+    expect(findVocabularyUsed('La mesera trabaja mucho.', vocabulary)).toEqual([]);
+  });
+});
+
+describe('compareWithReference', () => {
+  it('should split the reference key words into used and missed', () => {
+    const comparison = compareWithReference(
+      'Un perro juega en el parque.',
+      'Un perro marrón juega en el parque con una pelota roja.'
+    );
+
+    expect(comparison.sharedWords).toEqual(['perro', 'juega', 'parque']);
+    expect(comparison.missedWords).toEqual(['marrón', 'pelota', 'roja']);
+    expect(comparison.coverage).toBe(50);
+    expect(comparison.wordCount).toBe(6);
+    expect(comparison.referenceWordCount).toBe(11);
+  });
+
+  it('should report no coverage for an empty reference', () => {
+    expect(compareWithReference('Hola', '').coverage).toBe(0);
+  });
+});